@@ -1,15 +1,10 @@
-import React, {useCallback, useEffect, useMemo, useState} from 'react';
+import React, {useCallback, useEffect, useMemo, useRef, useState} from 'react';
 import {
   Alert,
+  AlertButton,
   AppState,
-  Clipboard,
-  Image,
   ImageBackground,
-  ImageSourcePropType,
-  Linking,
   LogBox,
-  Modal,
-  NativeModules,
   Pressable,
   ScrollView,
   SafeAreaView,
@@ -19,7 +14,73 @@ import {
   View,
 } from 'react-native';
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import BackupModal from './components/BackupModal';
+import BookmarkButton from './components/BookmarkButton';
+import ContactsModal from './components/ContactsModal';
 import LoadingAnimation from './components/LoadingAnimation';
+import IncidentListModal from './components/IncidentListModal';
+import OnboardingWizard from './components/OnboardingWizard';
+import PhraseCardsModal from './components/PhraseCardsModal';
+import ProtectionSettingsModal from './components/ProtectionSettingsModal';
+import RecordingDashboard from './components/RecordingDashboard';
+import RecordingHistoryModal from './components/RecordingHistoryModal';
+import RecordingLibraryModal from './components/RecordingLibraryModal';
+import RecordingSettingsModal from './components/RecordingSettingsModal';
+import RetentionSettingsModal from './components/RetentionSettingsModal';
+import SafetyChecklist from './components/SafetyChecklist';
+import UnlockModal from './components/UnlockModal';
+import {
+  DeepLinkCommand,
+  StartParams,
+  parseDeepLink,
+  useDeepLinks,
+} from './services/deepLinks';
+import {VerificationStatus, useEvidenceManifest} from './services/evidence';
+import {
+  EMPTY_METADATA,
+  saveMetadata,
+  useRecordingLibrary,
+} from './services/library';
+import {
+  I18n,
+  deepLinkErrorMessage,
+  recorderErrorMessage,
+  useI18n,
+} from './services/i18n';
+import {RecordingLocation, useLocationCapture} from './services/location';
+import {addMarker, importPendingMarkers} from './services/markers';
+import {
+  INITIAL_ONBOARDING_STATE,
+  OnboardingState,
+  SelfTest,
+  isOnboardingComplete,
+  loadOnboardingState,
+  saveOnboardingState,
+} from './services/onboarding';
+import {useProtection, useProtectionStatus} from './services/protection';
+import {
+  InterruptedRecording,
+  RecorderSnapshot,
+  RecordingFile,
+  RecordingList,
+  StartOptions,
+  isSettled,
+  loadRecordingProfile,
+  loadSegmentMinutes,
+  toRecorderError,
+  useRecorderService,
+  useRecorderSnapshot,
+  useRecordingListSnapshot,
+} from './services/recorder';
+import {
+  RetentionResult,
+  applyRetention,
+  hasActiveRules,
+  loadRetentionSettings,
+  loadRetentionSources,
+  planRetention,
+} from './services/retention';
+import {ONBOARDING_STEPS} from './data/onboardingSteps';
 
 // 開発モードでの不要なログバナーを非表示
 LogBox.ignoreLogs([
@@ -27,79 +88,393 @@ LogBox.ignoreLogs([
   'Non-serializable values were found in the navigation state',
 ]);
 
-const BACK_TAP_STORAGE_KEY = 'twotaprecorder:hasAcceptedBackTap';
+// ショートカットで停止・保存したファイル名（次にアプリが前面に来たときに知らせる）
+const SAVED_NOTICE_STORAGE_KEY = 'twotaprecorder:pendingSavedNotice';
+
+const alertRecorderError = ({t}: I18n, title: string, error: unknown) => {
+  const recorderError = toRecorderError(error);
+  if (recorderError.code === 'unavailable') {
+    Alert.alert(t('app.iosOnly'), recorderErrorMessage(t, recorderError));
+    return;
+  }
+  Alert.alert(title, recorderErrorMessage(t, recorderError));
+};
+
+const showSavedNotice = ({t}: I18n, fileName: string) => {
+  Alert.alert(t('app.saved.title'), t('app.saved.message', {fileName}));
+};
 
-type RecordingFile = {
-  name: string;
-  path: string;
-  size: number;
-  date: string;
+const showPendingSavedNotice = async (i18n: I18n) => {
+  const fileName = await AsyncStorage.getItem(SAVED_NOTICE_STORAGE_KEY);
+  if (fileName) {
+    await AsyncStorage.removeItem(SAVED_NOTICE_STORAGE_KEY);
+    showSavedNotice(i18n, fileName);
+  }
 };
 
-type RecorderModule = {
-  requestPermission: () => Promise<boolean>;
-  startRecording: () => Promise<string>;
-  stopRecording: () => Promise<string>;
-  isRecording: () => Promise<boolean>;
-  getRecordingFiles: () => Promise<RecordingFile[]>;
+// 証拠ログに登録・検証・暗号化してよい録音。書き込み中のファイルは停止時に登録するので除く。
+// 開始の途中で録音中のファイル名がまだ分からないときは null
+const closedRecordingFiles = (
+  files: RecordingFile[],
+  {state, fileName}: RecorderSnapshot,
+  registering: ReadonlySet<string>,
+): RecordingFile[] | null => {
+  if (state === 'starting') {
+    return null;
+  }
+  const active = isSettled(state) ? null : fileName;
+  return files.filter(
+    file => file.name !== active && !registering.has(file.name),
+  );
 };
 
-type SettingSlide = {
-  id: string;
-  title: string;
-  subtitle: string;
-  description: string;
-  actionLabel: string;
-  onAction?: () => void;
-  copyableText?: string;
-  image?: ImageSourcePropType;
+// ルーターが受け付けないリンクでネイティブが記録したマーカーは取り込まない
+const isMarkLink = (url: string): boolean => {
+  try {
+    return parseDeepLink(url).type === 'mark';
+  } catch {
+    return false;
+  }
 };
 
-const recorderModule: RecorderModule | undefined =
-  NativeModules.RecorderManager;
+const describeInterruption = (
+  {t, formatDateTime, formatFileSize}: I18n,
+  {fileName, startedAt, reason, file}: InterruptedRecording,
+): string =>
+  [
+    reason === 'interrupted'
+      ? t('app.interrupted.byCall')
+      : t('app.interrupted.byExit'),
+    t('app.interrupted.startedAt', {time: formatDateTime(startedAt)}),
+    file
+      ? t('app.interrupted.partialFile', {
+          fileName,
+          size: formatFileSize(file.size),
+        })
+      : t('app.interrupted.fileMissing', {fileName}),
+    '',
+    t('app.interrupted.continueHint'),
+  ].join('\n');
 
 const App = (): React.JSX.Element => {
+  const i18n = useI18n();
+  const {t} = i18n;
+  const recorder = useRecorderService();
+  const evidence = useEvidenceManifest();
+  const location = useLocationCapture();
+  const protection = useProtection();
+  const protectionStatus = useProtectionStatus(protection);
+  const library = useRecordingLibrary();
+  const selfTest = useMemo(
+    () => new SelfTest(recorder, evidence),
+    [recorder, evidence],
+  );
+  const recordingList = useMemo(() => new RecordingList(recorder), [recorder]);
+  const listing = useRecordingListSnapshot(recordingList);
+  const recordingFiles = listing.files;
+  const {state: recorderState, fileName: activeFileName} =
+    useRecorderSnapshot(recorder);
+  const isRecording = recorderState === 'recording';
   const [isLoading, setIsLoading] = useState(true);
-  const [isRecording, setIsRecording] = useState(false);
   const [showOnboarding, setShowOnboarding] = useState(false);
-  const [guideExpanded, setGuideExpanded] = useState(false);
-  const [permissionChecked, setPermissionChecked] = useState(false);
-  const [recordingFiles, setRecordingFiles] = useState<RecordingFile[]>([]);
+  const [onboarding, setOnboarding] = useState<OnboardingState>(
+    INITIAL_ONBOARDING_STATE,
+  );
+  const [verification, setVerification] = useState<
+    Record<string, VerificationStatus>
+  >({});
   const [showFilesModal, setShowFilesModal] = useState(false);
+  const [showIncidents, setShowIncidents] = useState(false);
+  const [showSettings, setShowSettings] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [showProtection, setShowProtection] = useState(false);
+  const [showBackup, setShowBackup] = useState(false);
+  const [showRetention, setShowRetention] = useState(false);
+  const [showUnlock, setShowUnlock] = useState(false);
+  const [showPhrases, setShowPhrases] = useState(false);
+  const [showContacts, setShowContacts] = useState(false);
+  // ロック解除の後に続ける操作（一覧や履歴を開く）
+  const afterUnlock = useRef<(() => void) | null>(null);
+  // ディープリンクで直接開く録音・出来事の記録
+  const [linkedFileName, setLinkedFileName] = useState<string | null>(null);
+  const [linkedIncidentId, setLinkedIncidentId] = useState<string | null>(null);
+  // 停止して証拠ログに登録している途中のファイル
+  const registering = useRef(new Set<string>());
+  // ロック中に保存した録音。暗号化された証拠ログを読めないので、
+  // 停止時の内容を覚えておきロック解除の後に登録する
+  const deferredEvidence = useRef(
+    new Map<string, {stoppedAt: Date; location: RecordingLocation | null}>(),
+  );
+  // ネイティブが先に記録した mark リンクの URL（そのリンクが届いても重ねて追加しない）
+  const recordedMarkLinks = useRef<string[]>([]);
+
+  const registerDeferredEvidence = useCallback(async () => {
+    for (const [fileName, options] of deferredEvidence.current) {
+      deferredEvidence.current.delete(fileName);
+      await evidence
+        .register(fileName, options)
+        .catch(error =>
+          alertRecorderError(i18n, t('app.evidenceFailed'), error),
+        );
+      registering.current.delete(fileName);
+    }
+  }, [evidence, i18n, t]);
 
   const loadRecordingFiles = useCallback(async () => {
-    if (!recorderModule) {
+    // 読み込めなかったときは一覧の画面にエラーを表示し、前回の検証結果を残す
+    const listed = await recordingList.refresh();
+    if (!listed) {
+      return;
+    }
+    await recorder.sync();
+    if (!protection.isLocked) {
+      await registerDeferredEvidence();
+    }
+    const files = closedRecordingFiles(
+      listed,
+      recorder.getSnapshot(),
+      registering.current,
+    );
+    if (!files) {
       return;
     }
     try {
-      const files = await recorderModule.getRecordingFiles();
-      setRecordingFiles(files || []);
+      // ロック中は暗号化された証拠ログを読めないので、ロック解除の後に登録する
+      if (!protection.isLocked) {
+        await evidence.reconcile(files);
+      }
+      // ファイルアプリなどで加わった録音を暗号化する（録音したファイルはネイティブが停止時に暗号化する）
+      await protection
+        .protectFiles(files.map(file => file.name))
+        .catch(() => undefined);
+      // ロック中は中身を読めないので検証しない
+      setVerification(
+        protection.isLocked ? {} : await evidence.verifyAll(files),
+      );
     } catch {
-      // エラーは静かに処理（ファイルがない場合など）
-      setRecordingFiles([]);
+      // 証拠ログの検証に失敗しても一覧は表示する
+      setVerification({});
     }
-  }, []);
+  }, [recordingList, recorder, evidence, protection, registerDeferredEvidence]);
+
+  const alertRetentionResult = useCallback(
+    ({removed, failed, freedBytes}: RetentionResult) => {
+      if (removed.length === 0 && failed.length === 0) {
+        return;
+      }
+      Alert.alert(
+        t('app.retentionApplied.title'),
+        [
+          t('app.retentionApplied.message', {
+            count: removed.length,
+            size: i18n.formatFileSize(freedBytes),
+          }),
+          ...(failed.length > 0
+            ? [
+                '',
+                t('app.retentionApplied.failed', {count: failed.length}),
+                ...failed,
+              ]
+            : []),
+        ].join('\n'),
+      );
+    },
+    [i18n, t],
+  );
+
+  // 起動時に自動で適用する設定なら、自動削除のルールに当てはまる録音を削除する。
+  // 印のある録音と証拠ログに登録された録音は確認してから削除する
+  const applyAutomaticRetention = useCallback(async () => {
+    const settings = await loadRetentionSettings();
+    if (!settings.automatic || !hasActiveRules(settings)) {
+      return;
+    }
+    // ロック中は一覧を見て確かめられないので削除しない
+    if (protection.isLocked) {
+      return;
+    }
+    if (!recorder.isAvailable || !library.isAvailable) {
+      return;
+    }
+    const snapshot = recorder.getSnapshot();
+    const files = await recorder.listRecordings();
+    const plan = planRetention(
+      settings,
+      await loadRetentionSources(
+        library,
+        files,
+        snapshot.state === 'recording' ? snapshot.fileName : null,
+      ),
+    );
+    const unattended = plan.candidates.filter(
+      candidate => !candidate.needsConfirmation,
+    );
+    const confirmable = plan.candidates.filter(
+      candidate => candidate.needsConfirmation,
+    );
+    if (unattended.length > 0) {
+      const result = await applyRetention(library, {
+        ...plan,
+        candidates: unattended,
+      });
+      await loadRecordingFiles();
+      alertRetentionResult(result);
+    }
+    if (confirmable.length === 0) {
+      return;
+    }
+    Alert.alert(
+      t('app.retentionConfirm.title', {count: confirmable.length}),
+      t('app.retentionConfirm.message', {
+        titles: confirmable.map(candidate => candidate.title).join('\n'),
+      }),
+      [
+        {text: t('common.cancel'), style: 'cancel'},
+        {
+          text: t('common.delete'),
+          style: 'destructive',
+          onPress: async () => {
+            const result = await applyRetention(library, {
+              ...plan,
+              candidates: confirmable,
+            });
+            await loadRecordingFiles();
+            alertRetentionResult(result);
+          },
+        },
+      ],
+    );
+  }, [
+    recorder,
+    library,
+    protection,
+    loadRecordingFiles,
+    alertRetentionResult,
+    t,
+  ]);
+
+  // 保護モードでロック中ならロック解除を挟んでから開く
+  const openProtected = useCallback(
+    (open: () => void) => {
+      if (!protection.isLocked) {
+        open();
+        return;
+      }
+      afterUnlock.current = open;
+      setShowUnlock(true);
+    },
+    [protection],
+  );
+
+  const handleUnlocked = useCallback(async () => {
+    setShowUnlock(false);
+    await loadRecordingFiles();
+    afterUnlock.current?.();
+    afterUnlock.current = null;
+  }, [loadRecordingFiles]);
 
   const syncRecordingState = useCallback(() => {
-    if (!recorderModule) {
-      setIsRecording(false);
+    recorder.sync();
+  }, [recorder]);
+
+  const startRecording = useCallback(
+    async ({maxDurationSeconds, tags}: StartParams, continueFrom?: string) => {
+      try {
+        await recorder.sync();
+        if (recorder.getSnapshot().state === 'recording') {
+          return;
+        }
+        if (!(await recorder.requestPermission())) {
+          Alert.alert(
+            t('app.permissionRequired.title'),
+            t('app.permissionRequired.message'),
+          );
+          return;
+        }
+        const options: StartOptions = {profile: await loadRecordingProfile()};
+        if (maxDurationSeconds) {
+          options.maxDurationSeconds = maxDurationSeconds;
+        }
+        const segmentMinutes = await loadSegmentMinutes();
+        if (segmentMinutes > 0) {
+          options.segmentSeconds = segmentMinutes * 60;
+        }
+        if (continueFrom) {
+          options.continueFrom = continueFrom;
+        }
+        const fileName = await recorder.start(options);
+        if (tags.length > 0) {
+          await saveMetadata(fileName, {...EMPTY_METADATA, tags});
+        }
+        location.captureStart(fileName).catch(() => undefined);
+      } catch (error) {
+        alertRecorderError(i18n, t('app.startFailed'), error);
+      }
+    },
+    [recorder, location, i18n, t],
+  );
+
+  // 前回の録音が途切れていたら知らせ、続きを録音できるようにする
+  const interruptionShown = useRef(false);
+  const checkInterruptedRecording = useCallback(async () => {
+    if (interruptionShown.current) {
       return;
     }
-    recorderModule
-      .isRecording()
-      .then(setIsRecording)
-      .catch(() => {
-        setIsRecording(false);
+    const interrupted = await recorder.findInterrupted().catch(() => null);
+    if (!interrupted) {
+      return;
+    }
+    interruptionShown.current = true;
+    const resolve = async () => {
+      interruptionShown.current = false;
+      await recorder.dismissInterrupted();
+    };
+    const buttons: AlertButton[] = [
+      {text: t('common.close'), style: 'cancel', onPress: resolve},
+      {
+        text: t('app.interrupted.continue'),
+        onPress: async () => {
+          await resolve();
+          await startRecording(
+            {maxDurationSeconds: null, tags: []},
+            interrupted.fileName,
+          );
+        },
+      },
+    ];
+    if (interrupted.file) {
+      buttons.splice(1, 0, {
+        text: t('app.interrupted.openFile'),
+        onPress: async () => {
+          await resolve();
+          openProtected(() => {
+            setLinkedFileName(interrupted.fileName);
+            setShowFilesModal(true);
+          });
+        },
       });
-  }, []);
+    }
+    Alert.alert(
+      t('app.interrupted.title'),
+      describeInterruption(i18n, interrupted),
+      buttons,
+    );
+  }, [recorder, startRecording, openProtected, i18n, t]);
 
   useEffect(() => {
     const initialize = async () => {
       try {
-        const value = await AsyncStorage.getItem(BACK_TAP_STORAGE_KEY);
-        setShowOnboarding(value !== 'accepted');
+        await i18n.load();
+        const state = await loadOnboardingState();
+        setOnboarding(state);
+        // マイク権限の確認が済むまでは起動のたびに表示する
+        setShowOnboarding(!state.completed.includes('permission'));
         syncRecordingState();
+        await protection.refresh().catch(() => undefined);
         await loadRecordingFiles();
+        await applyAutomaticRetention().catch(() => undefined);
+        await showPendingSavedNotice(i18n);
+        await checkInterruptedRecording();
       } finally {
         // 最低1.5秒はローディングを表示（アニメーションを見せるため）
         setTimeout(() => {
@@ -112,193 +487,226 @@ const App = (): React.JSX.Element => {
     const sub = AppState.addEventListener('change', state => {
       if (state === 'active') {
         syncRecordingState();
-        loadRecordingFiles();
+        showPendingSavedNotice(i18n);
+        checkInterruptedRecording();
+      } else if (state === 'background') {
+        // アプリを離れたら録音の中身を閉じる
+        setShowFilesModal(false);
+        setShowHistory(false);
+        setShowRetention(false);
+        setShowIncidents(false);
+        protection.lock().catch(() => undefined);
       }
     });
     return () => sub.remove();
-  }, [syncRecordingState, loadRecordingFiles]);
+  }, [
+    syncRecordingState,
+    loadRecordingFiles,
+    applyAutomaticRetention,
+    checkInterruptedRecording,
+    protection,
+    i18n,
+  ]);
 
-  const ensurePermission = useCallback(async () => {
-    if (!recorderModule || permissionChecked) {
-      return;
-    }
-    try {
-      const granted = await recorderModule.requestPermission();
-      if (!granted) {
-        Alert.alert(
-          'マイク権限が必要です',
-          '設定アプリでマイク権限を許可してからもう一度お試しください。',
-        );
-      } else {
-        setPermissionChecked(true);
+  // 録音の開始・停止やファイルアプリでの変更をネイティブのイベントで受け取って読み直す
+  useEffect(
+    () =>
+      recorder.subscribeFileChanges(() => {
+        loadRecordingFiles();
+      }),
+    [recorder, loadRecordingFiles],
+  );
+
+  // 録音中の空き容量と分割の切り替えを見回る
+  useEffect(() => recorder.startMonitoring(), [recorder]);
+
+  // 停止時の位置は証拠ログにも載せる（位置の記録がオフなら載せない）
+  const registerEvidence = useCallback(
+    async (fileName: string) => {
+      const stoppedAt = new Date();
+      registering.current.add(fileName);
+      try {
+        const recordingLocation = await location
+          .captureStop(fileName)
+          .catch(() => null);
+        if (protection.isLocked) {
+          deferredEvidence.current.set(fileName, {
+            stoppedAt,
+            location: recordingLocation,
+          });
+          return;
+        }
+        await evidence
+          .register(fileName, {stoppedAt, location: recordingLocation})
+          .catch(error =>
+            alertRecorderError(i18n, t('app.evidenceFailed'), error),
+          );
+      } finally {
+        // 後で登録する録音は、登録するまで一覧の登録・暗号化の対象から外しておく
+        if (!deferredEvidence.current.has(fileName)) {
+          registering.current.delete(fileName);
+        }
       }
-    } catch (error) {
-      Alert.alert('権限の確認に失敗しました', String(error));
-    }
-  }, [permissionChecked]);
-
-  const handleOnboardingContinue = useCallback(async () => {
-    // 審査要件: 権限要求の前に「閉じる/No」で抜けられる導線を置かない
-    // → このモーダルは「続ける」から必ず権限要求へ進む
-    setShowOnboarding(false);
-    await AsyncStorage.setItem(BACK_TAP_STORAGE_KEY, 'accepted');
-    setGuideExpanded(true);
-    await ensurePermission();
-  }, [ensurePermission]);
-
-  const openShortcuts = useCallback(async () => {
-    const shortcutsURL = 'shortcuts://';
-    const supported = await Linking.canOpenURL(shortcutsURL);
-    if (supported) {
-      Linking.openURL(shortcutsURL);
-    } else {
-      Alert.alert(
-        'ショートカットアプリを開けません',
-        'App Storeからショートカットアプリをインストールしてください。',
-      );
-    }
-  }, []);
+    },
+    [location, evidence, protection, i18n, t],
+  );
 
-  const openBackTapSettings = useCallback(async () => {
-    // Appleの非公開URLスキーム。失敗時は設定アプリトップへフォールバック。
-    const backTapURL = 'App-prefs:Accessibility';
-    const settingsURL = 'App-Prefs:';
-    const canOpenSpecific = await Linking.canOpenURL(backTapURL);
-    if (canOpenSpecific) {
-      Linking.openURL(backTapURL);
-      return;
-    }
-    const canOpenSettings = await Linking.canOpenURL(settingsURL);
-    if (canOpenSettings) {
-      Linking.openURL(settingsURL);
-    } else {
-      Alert.alert(
-        '設定アプリを開けません',
-        '手動で設定アプリを開いてください。',
-      );
-    }
+  // 分割の切り替えや空き容量不足での停止でサービスが閉じたファイル
+  useEffect(
+    () =>
+      recorder.subscribeSavedFiles(async fileName => {
+        await registerEvidence(fileName);
+        await loadRecordingFiles();
+        if (recorder.getSnapshot().state !== 'recording') {
+          Alert.alert(
+            t('app.storageStopped.title'),
+            t('app.storageStopped.message', {fileName}),
+          );
+        }
+      }),
+    [recorder, registerEvidence, loadRecordingFiles, t],
+  );
+
+  const updateOnboarding = useCallback((state: OnboardingState) => {
+    setOnboarding(state);
+    saveOnboardingState(state);
   }, []);
 
-  const openRecorderTestGuide = useCallback(() => {
-    ensurePermission();
-    Alert.alert(
-      '録音テストの流れ',
-      [
-        '1. アプリ内のステータスカードで「録音中」と表示されるか確認。',
-        '2. 背面ダブルタップでショートカットを起動し録音開始。',
-        '3. 再度アプリに戻り「録音停止」ボタンで保存できるか確認。',
-      ].join('\n'),
-    );
-  }, [ensurePermission]);
+  const saveRecording = useCallback(async () => {
+    const fileName = await recorder.stop();
+    if (fileName) {
+      await registerEvidence(fileName);
+    }
+    await loadRecordingFiles();
+    return fileName;
+  }, [recorder, registerEvidence, loadRecordingFiles]);
 
   const stopRecording = useCallback(async () => {
-    if (!recorderModule) {
-      Alert.alert('iOS専用機能', '録音機能はiOSデバイスでのみ利用できます。');
-      return;
+    try {
+      const fileName = await saveRecording();
+      if (fileName) {
+        showSavedNotice(i18n, fileName);
+      }
+    } catch (error) {
+      alertRecorderError(i18n, t('app.stopFailed'), error);
     }
+  }, [saveRecording, i18n, t]);
+
+  // ショートカットはアプリを開いてすぐ元の画面へ戻るため、
+  // 保存の確認は次にアプリが前面に来たときに表示する
+  const stopFromShortcut = useCallback(async () => {
     try {
-      const fileName = await recorderModule.stopRecording();
-      setIsRecording(false);
-      await loadRecordingFiles();
-      if (fileName !== 'idle') {
-        Alert.alert(
-          '録音を保存しました',
-          `ファイル名: ${fileName}\n\n「録音ファイル一覧」ボタンで確認できます。`,
-        );
+      const fileName = await saveRecording();
+      if (!fileName) {
+        return;
+      }
+      await AsyncStorage.setItem(SAVED_NOTICE_STORAGE_KEY, fileName);
+      if (AppState.currentState === 'active') {
+        await showPendingSavedNotice(i18n);
       }
     } catch (error) {
-      Alert.alert('録音停止に失敗しました', String(error));
+      alertRecorderError(i18n, t('app.stopFailed'), error);
     }
-  }, [loadRecordingFiles]);
+  }, [saveRecording, i18n, t]);
 
-  const instructions = useMemo(
-    () => [
-      '設定アプリ > アクセシビリティ > タッチ > 背面タップ を開きます。',
-      '「ダブルタップ」に「ショートカット」を割り当てます。',
-      'ショートカットで「URLを開く」を追加し、URLに twotaprecorder://start を入力します。',
-      '停止用に twotaprecorder://stop を割り当てたショートカットを作ると便利です。',
-      '録音停止はこのアプリの「録音停止」ボタンで行います。',
-    ],
-    [],
+  const addLinkedMarker = useCallback(
+    async (label: string, url: string) => {
+      // ネイティブはリンクを受け取った時点の位置で記録している（コールドスタートで JS を待つ間もずれない）
+      const pending = (await recorder.consumePendingMarkers()).filter(item =>
+        isMarkLink(item.url),
+      );
+      try {
+        await importPendingMarkers(pending, t('marker.defaultLabel'));
+      } catch (error) {
+        alertRecorderError(i18n, t('marker.saveFailed'), error);
+        return;
+      }
+      recordedMarkLinks.current.push(...pending.map(item => item.url));
+      const recorded = recordedMarkLinks.current.indexOf(url);
+      if (recorded !== -1) {
+        recordedMarkLinks.current.splice(recorded, 1);
+        return;
+      }
+      // ネイティブが録音を知らなかったとき（開始の途中に届いたときなど）は今の位置に付ける
+      const position = await recorder.currentPosition();
+      if (!position) {
+        Alert.alert(
+          t('app.markerUnavailable.title'),
+          t('app.markerUnavailable.message'),
+        );
+        return;
+      }
+      try {
+        await addMarker({
+          fileName: position.fileName,
+          offsetSeconds: position.elapsed,
+          label: label || t('marker.defaultLabel'),
+          source: 'shortcut',
+        });
+      } catch (error) {
+        alertRecorderError(i18n, t('marker.saveFailed'), error);
+      }
+    },
+    [recorder, i18n, t],
   );
 
-  const settingSlides = useMemo<SettingSlide[]>(
-    () => [
-      {
-        id: 'download',
-        title: '①ショートカットアプリの設定',
-        subtitle: 'ショートカットアプリの準備',
-        description:
-          '※既にインストール済みの場合は②へ\n' +
-          '1. App Storeを開く\n' +
-          '2.「ショートカット」と検索\n' +
-          '3. Apple公式アプリをダウンロード（無料）',
-        actionLabel: 'App Storeを開く',
-        onAction: openShortcuts,
-        image: require('./assets/instructions/how to1.png'),
-      },
-      {
-        id: 'shortcut',
-        title: '②ショートカットの作成',
-        subtitle: '録音開始用のショートカットを作る',
-        description:
-          '1. ショートカットアプリを開く\n' +
-          '2. 右上「＋」→「アクションを追加」\n' +
-          '3.「Web」を選択 →「URLを開く」を選択\n' +
-          '4. 下のURLをコピーして貼り付け\n' +
-          '5. 名前を「録音開始」にして完了',
-        actionLabel: 'ショートカットを開く',
-        onAction: openShortcuts,
-        copyableText: 'twotaprecorder://start',
-        image: require('./assets/instructions/how to2.png'),
-      },
-      {
-        id: 'accessibility',
-        title: '③背面タップを設定',
-        subtitle: '②で作成したショートカットを割り当て',
-        description:
-          '1. 設定 > アクセシビリティ > タッチ\n' +
-          '2.「背面タップ」→「ダブルタップ」\n' +
-          '3. 下にスクロールして「ショートカット」欄へ\n' +
-          '4.「録音開始」を選択（チェックが付けばOK）',
-        actionLabel: '設定を開く',
-        onAction: openBackTapSettings,
-        image: require('./assets/instructions/how to3.png'),
-      },
-      {
-        id: 'test',
-        title: '④動作テスト',
-        subtitle: '正しく録音できるか確認',
-        description:
-          '1. このアプリを閉じてホーム画面へ\n' +
-          '2. iPhoneの背面を2回タップ\n' +
-          '3. アプリを開いて「録音中」と表示されれば成功\n' +
-          '4.「録音停止」ボタンで保存\n\n' +
-          '※録音中は画面右上に赤い点が表示されます',
-        actionLabel: 'テスト手順',
-        onAction: openRecorderTestGuide,
-        image: require('./assets/instructions/how to4.png'),
-      },
-      {
-        id: 'files',
-        title: '⑤録音ファイルの確認',
-        subtitle: '保存した音声を再生する',
-        description:
-          '1.「ファイル」アプリを開く\n' +
-          '2.「このiPhone内」→「2 Tap Recorder」\n' +
-          '3. recording-日時.m4a が録音ファイル\n' +
-          '4. タップして再生できます\n\n' +
-          '※ファイル名の日時は録音開始時刻です',
-        actionLabel: 'ファイルを開く',
-        onAction: () => {
-          Linking.openURL('shareddocuments://');
-        },
-        image: require('./assets/instructions/how to5.png'),
-      },
+  const handleDeepLink = useCallback(
+    async (command: DeepLinkCommand, url: string) => {
+      // 動作テスト中の背面タップはテスト録音に使う
+      if (await selfTest.handleDeepLink(command)) {
+        return;
+      }
+      switch (command.type) {
+        case 'start':
+          await startRecording(command);
+          break;
+        case 'stop':
+          await stopFromShortcut();
+          break;
+        case 'toggle':
+          await recorder.sync();
+          if (recorder.getSnapshot().state === 'recording') {
+            await stopFromShortcut();
+          } else {
+            await startRecording(command);
+          }
+          break;
+        case 'mark':
+          await addLinkedMarker(command.label, url);
+          break;
+        case 'open-library':
+          openProtected(() => {
+            setLinkedFileName(command.fileName);
+            setShowFilesModal(true);
+          });
+          break;
+        case 'open-incident':
+          openProtected(() => {
+            setLinkedIncidentId(command.incidentId);
+            setShowIncidents(true);
+          });
+          break;
+      }
+    },
+    [
+      recorder,
+      selfTest,
+      startRecording,
+      stopFromShortcut,
+      addLinkedMarker,
+      openProtected,
     ],
-    [openBackTapSettings, openRecorderTestGuide, openShortcuts],
   );
 
+  useDeepLinks({
+    onCommand: handleDeepLink,
+    onError: (error, url) =>
+      Alert.alert(
+        t('app.invalidLink'),
+        `${deepLinkErrorMessage(t, error)}\n\n${url}`,
+      ),
+  });
+
   // ローディング画面
   if (isLoading) {
     return (
@@ -321,147 +729,198 @@ const App = (): React.JSX.Element => {
           contentContainerStyle={styles.scrollContent}
           showsVerticalScrollIndicator={false}>
           <View style={styles.statusCard}>
-            <Text style={styles.statusLabel}>現在の状態</Text>
+            <Text style={styles.statusLabel}>{t('app.status.label')}</Text>
             <Text
               style={[
                 styles.statusValue,
                 isRecording && styles.statusValueActive,
               ]}>
-              {isRecording ? '録音中' : '待機中'}
+              {isRecording ? t('app.status.recording') : t('app.status.idle')}
             </Text>
+            {isRecording && <RecordingDashboard />}
             <Pressable
               style={[
                 styles.stopButton,
                 !isRecording && styles.stopButtonDisabled,
               ]}
               onPress={stopRecording}
-              disabled={!isRecording}>
+              disabled={!isRecording}
+              testID="stop-recording-button">
               <Text style={styles.stopButtonText}>
-                {isRecording ? '録音停止' : '録音は待機中'}
+                {isRecording ? t('app.stop') : t('app.stopIdle')}
               </Text>
             </Pressable>
-
-            <View style={styles.safetySection}>
-              <Text style={styles.safetyTitle}>
-                痴漢冤罪の疑いをかけられた場合
+            {isRecording && <BookmarkButton />}
+            <Pressable
+              style={styles.filesButton}
+              onPress={() => openProtected(() => setShowFilesModal(true))}>
+              <Text style={styles.filesButtonText}>
+                {t('app.menu.library')}
               </Text>
-              <View style={styles.safetyList}>
-                <Text style={styles.safetyItem}>
-                  ①駅員に市民を不当拘束する権利はない点を確認する
-                </Text>
-                <Text style={styles.safetyItem}>
-                  ②身分証明書と住所を提示した際、逮捕できない点を確認する
-                </Text>
-                <Text style={styles.safetyItem}>
-                  ③警察には警察手帳の提示と監視カメラの確認を求める
-                </Text>
-                <Text style={styles.safetyItem}>
-                  ④弁護士を呼ぶまで待機して欲しいと伝える
-                </Text>
-                <Text style={styles.safetyItem}>
-                  ⑤駅員や相手との会話を録音するなど証拠を残す
-                </Text>
-              </View>
-            </View>
+            </Pressable>
+            <Pressable
+              style={styles.filesButton}
+              onPress={() => openProtected(() => setShowIncidents(true))}>
+              <Text style={styles.filesButtonText}>
+                {t('app.menu.incidents')}
+              </Text>
+            </Pressable>
+            <Pressable
+              style={styles.filesButton}
+              onPress={() => openProtected(() => setShowHistory(true))}>
+              <Text style={styles.filesButtonText}>
+                {t('app.menu.history')}
+              </Text>
+            </Pressable>
+            <Pressable
+              style={styles.filesButton}
+              onPress={() => setShowSettings(true)}>
+              <Text style={styles.filesButtonText}>
+                {t('app.menu.settings')}
+              </Text>
+            </Pressable>
+            <Pressable
+              style={styles.filesButton}
+              onPress={() => openProtected(() => setShowRetention(true))}>
+              <Text style={styles.filesButtonText}>
+                {t('app.menu.retention')}
+              </Text>
+            </Pressable>
+            <Pressable
+              style={styles.filesButton}
+              onPress={() => openProtected(() => setShowBackup(true))}>
+              <Text style={styles.filesButtonText}>{t('app.menu.backup')}</Text>
+            </Pressable>
+            <Pressable
+              style={styles.filesButton}
+              onPress={() => setShowProtection(true)}>
+              <Text style={styles.filesButtonText}>
+                {protectionStatus.enabled
+                  ? protectionStatus.unlocked
+                    ? t('app.menu.protectionUnlocked')
+                    : t('app.menu.protectionLocked')
+                  : t('app.menu.protection')}
+              </Text>
+            </Pressable>
+
+            <SafetyChecklist
+              isRecording={isRecording}
+              onOpenPhrases={() => setShowPhrases(true)}
+              onOpenContacts={() => setShowContacts(true)}
+            />
           </View>
 
           <View style={styles.settingSection}>
-            <Text style={styles.settingTitle}>2タップレコーダーの使い方</Text>
-            <View style={styles.settingList}>
-              {settingSlides.map(slide => (
-                <View key={slide.id} style={styles.settingItem}>
-                  {slide.image && (
-                    <Image
-                      source={slide.image}
-                      style={styles.settingItemImage}
-                      resizeMode="contain"
-                    />
-                  )}
-                  <View style={styles.settingItemHeader}>
-                    <Text style={styles.settingItemTitle}>{slide.title}</Text>
-                    <Text style={styles.settingItemSubtitle}>{slide.subtitle}</Text>
-                  </View>
-                  <Text style={styles.settingItemDescription}>
-                    {slide.description}
-                  </Text>
-                  {slide.copyableText && (
-                    <Pressable
-                      style={styles.copyButton}
-                      onPress={() => {
-                        Clipboard.setString(slide.copyableText || '');
-                        Alert.alert('コピーしました', slide.copyableText);
-                      }}>
-                      <Text style={styles.copyButtonText}>
-                        {slide.copyableText}
-                      </Text>
-                      <Text style={styles.copyButtonLabel}>タップでコピー</Text>
-                    </Pressable>
-                  )}
-                </View>
-              ))}
+            <Text style={styles.settingTitle}>{t('app.guide.title')}</Text>
+            <View style={styles.settingItem}>
+              <Text style={styles.settingItemTitle}>
+                {isOnboardingComplete(onboarding)
+                  ? t('app.guide.complete')
+                  : t('app.guide.progress', {
+                      done: onboarding.completed.length,
+                      total: ONBOARDING_STEPS.length,
+                    })}
+              </Text>
+              <Text style={styles.settingItemDescription}>
+                {t('app.guide.description')}
+              </Text>
+              <Pressable
+                style={styles.settingItemButton}
+                onPress={() => setShowOnboarding(true)}
+                testID="open-onboarding">
+                <Text style={styles.settingItemButtonText}>
+                  {isOnboardingComplete(onboarding)
+                    ? t('app.guide.review')
+                    : t('app.guide.continue')}
+                </Text>
+              </Pressable>
             </View>
           </View>
         </ScrollView>
       </SafeAreaView>
 
-      <Modal
+      <OnboardingWizard
         visible={showOnboarding}
-        animationType="fade"
-        transparent
-        onRequestClose={() => {
-          // Android back で閉じられるのを防ぐ（要件: 事前メッセージから離脱できない導線）
-        }}>
-        <View style={styles.modalBackdrop}>
-          <View style={styles.modalContent}>
-            <Text style={styles.modalTitle}>
-              マイク権限の確認
-            </Text>
-            <Text style={styles.modalDescription}>
-              録音機能を使用するため、次の画面でマイクへのアクセス許可をお願いします。
-            </Text>
-            <View style={styles.modalActions}>
-              <Pressable
-                style={[styles.modalButton, styles.modalButtonPrimary]}
-                onPress={handleOnboardingContinue}>
-                <Text style={styles.modalButtonPrimaryText}>続ける</Text>
-              </Pressable>
-            </View>
-          </View>
-        </View>
-      </Modal>
-
-      <Modal visible={showFilesModal} animationType="slide" transparent>
-        <View style={styles.modalBackdrop}>
-          <View style={styles.filesModalContent}>
-            <Text style={styles.modalTitle}>録音ファイル一覧</Text>
-            {recordingFiles.length === 0 ? (
-              <Text style={styles.filesEmptyText}>
-                録音ファイルがありません。{'\n'}
-                背面タップで録音を開始してみてください。
-              </Text>
-            ) : (
-              <ScrollView style={styles.filesList}>
-                {recordingFiles.map((file, index) => (
-                  <View key={file.name} style={styles.fileItem}>
-                    <Text style={styles.fileName}>{file.name}</Text>
-                    <Text style={styles.fileInfo}>
-                      サイズ: {Math.round(file.size / 1024)} KB
-                    </Text>
-                    <Text style={styles.fileInfo}>
-                      日時: {new Date(file.date).toLocaleString('ja-JP')}
-                    </Text>
-                  </View>
-                ))}
-              </ScrollView>
-            )}
-            <Pressable
-              style={[styles.modalButton, styles.modalButtonPrimary]}
-              onPress={() => setShowFilesModal(false)}>
-              <Text style={styles.modalButtonPrimaryText}>閉じる</Text>
-            </Pressable>
-          </View>
-        </View>
-      </Modal>
+        state={onboarding}
+        selfTest={selfTest}
+        onStateChange={updateOnboarding}
+        onClose={() => setShowOnboarding(false)}
+        onFilesChanged={loadRecordingFiles}
+      />
+
+      <RecordingLibraryModal
+        visible={showFilesModal}
+        listing={listing}
+        verification={verification}
+        initialFileName={linkedFileName}
+        activeFileName={isRecording ? activeFileName : null}
+        onClose={() => {
+          setShowFilesModal(false);
+          setLinkedFileName(null);
+        }}
+        onFilesChanged={loadRecordingFiles}
+        onSortChange={(sort, order) => {
+          recordingList.setSort(sort, order);
+        }}
+      />
+      <IncidentListModal
+        visible={showIncidents}
+        files={recordingFiles}
+        initialIncidentId={linkedIncidentId}
+        onClose={() => {
+          setShowIncidents(false);
+          setLinkedIncidentId(null);
+        }}
+      />
+      <RecordingHistoryModal
+        visible={showHistory}
+        files={recordingFiles}
+        onClose={() => setShowHistory(false)}
+        onOpenRecording={fileName => {
+          setShowHistory(false);
+          setLinkedFileName(fileName);
+          setShowFilesModal(true);
+        }}
+      />
+      <RecordingSettingsModal
+        visible={showSettings}
+        onClose={() => setShowSettings(false)}
+      />
+      <RetentionSettingsModal
+        visible={showRetention}
+        files={recordingFiles}
+        activeFileName={isRecording ? activeFileName : null}
+        onClose={() => setShowRetention(false)}
+        onDeleted={loadRecordingFiles}
+      />
+      <ProtectionSettingsModal
+        visible={showProtection}
+        fileNames={recordingFiles.map(file => file.name)}
+        onClose={() => setShowProtection(false)}
+        onChanged={loadRecordingFiles}
+      />
+      <BackupModal
+        visible={showBackup}
+        files={recordingFiles}
+        onClose={() => setShowBackup(false)}
+        onRestored={loadRecordingFiles}
+      />
+      <PhraseCardsModal
+        visible={showPhrases}
+        onClose={() => setShowPhrases(false)}
+      />
+      <ContactsModal
+        visible={showContacts}
+        onClose={() => setShowContacts(false)}
+      />
+      <UnlockModal
+        visible={showUnlock}
+        onUnlocked={handleUnlocked}
+        onCancel={() => {
+          setShowUnlock(false);
+          afterUnlock.current = null;
+        }}
+      />
     </ImageBackground>
   );
 };
@@ -503,9 +962,6 @@ const styles = StyleSheet.create({
     marginTop: 12,
     marginBottom: 12,
   },
-  settingList: {
-    gap: 12,
-  },
   settingItem: {
     backgroundColor: 'rgba(8,12,20,0.85)',
     borderRadius: 16,
@@ -513,28 +969,13 @@ const styles = StyleSheet.create({
     borderWidth: 1,
     borderColor: 'rgba(255,255,255,0.06)',
   },
-  settingItemImage: {
-    width: '100%',
-    height: 200,
-    borderRadius: 12,
-    marginBottom: 12,
-  },
-  settingItemHeader: {
-    marginBottom: 8,
-    gap: 4,
-  },
   settingItemTitle: {
     color: '#ffffff',
     fontSize: 16,
     fontWeight: '700',
+    marginBottom: 8,
     fontFamily: 'HiraginoMincho-W6',
   },
-  settingItemSubtitle: {
-    color: '#9fb3d4',
-    fontSize: 13,
-    lineHeight: 18,
-    fontFamily: 'HiraginoMincho-W3',
-  },
   settingItemDescription: {
     color: '#cfd3dd',
     fontSize: 13,
@@ -555,40 +996,6 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     fontFamily: 'HiraginoMincho-W6',
   },
-  copyButton: {
-    backgroundColor: 'rgba(111,177,255,0.15)',
-    borderRadius: 12,
-    borderWidth: 1,
-    borderColor: '#6fb1ff',
-    padding: 12,
-    alignItems: 'center',
-  },
-  copyButtonText: {
-    color: '#6fb1ff',
-    fontSize: 15,
-    fontWeight: '700',
-    fontFamily: 'Menlo',
-  },
-  copyButtonLabel: {
-    color: '#9fb3d4',
-    fontSize: 11,
-    marginTop: 4,
-    fontFamily: 'HiraginoMincho-W3',
-  },
-  title: {
-    color: '#ffffff',
-    fontSize: 28,
-    fontWeight: '700',
-    marginBottom: 8,
-    fontFamily: 'HiraginoMincho-W6',
-  },
-  subtitle: {
-    color: '#cfd3dd',
-    fontSize: 16,
-    lineHeight: 22,
-    marginBottom: 16,
-    fontFamily: 'HiraginoMincho-W3',
-  },
   statusCard: {
     backgroundColor: 'rgba(0,0,0,0.45)',
     borderRadius: 16,
@@ -612,28 +1019,6 @@ const styles = StyleSheet.create({
   statusValueActive: {
     color: '#f85c70',
   },
-  safetySection: {
-    marginTop: 14,
-    paddingTop: 14,
-    borderTopWidth: 1,
-    borderTopColor: 'rgba(255,255,255,0.08)',
-  },
-  safetyTitle: {
-    color: '#D1597B',
-    fontSize: 14,
-    fontWeight: '700',
-    marginBottom: 8,
-    fontFamily: 'HiraginoMincho-W6',
-  },
-  safetyList: {
-    gap: 6,
-  },
-  safetyItem: {
-    color: '#cfd3dd',
-    fontSize: 13,
-    lineHeight: 20,
-    fontFamily: 'HiraginoMincho-W3',
-  },
   stopButton: {
     backgroundColor: '#f85c70',
     borderRadius: 999,
@@ -663,181 +1048,6 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     fontFamily: 'HiraginoMincho-W6',
   },
-  guideToggle: {
-    paddingVertical: 12,
-    marginBottom: 8,
-  },
-  guideToggleText: {
-    color: '#6fb1ff',
-    fontSize: 16,
-    fontWeight: '600',
-    fontFamily: 'HiraginoMincho-W6',
-  },
-  guideCard: {
-    backgroundColor: 'rgba(6,10,18,0.72)',
-    borderRadius: 16,
-    padding: 20,
-    marginBottom: 16,
-  },
-  guideText: {
-    color: '#dde3f7',
-    lineHeight: 22,
-    marginBottom: 8,
-    fontFamily: 'HiraginoMincho-W3',
-  },
-  guideActions: {
-    flexDirection: 'row',
-    justifyContent: 'space-between',
-    marginTop: 8,
-  },
-  guideActionButton: {
-    flex: 1,
-  },
-  guideActionButtonSpacing: {
-    marginRight: 12,
-  },
-  linkButton: {
-    borderRadius: 12,
-    borderWidth: 1,
-    borderColor: '#6fb1ff',
-    paddingVertical: 10,
-    alignItems: 'center',
-    minWidth: 140,
-  },
-  linkButtonText: {
-    color: '#6fb1ff',
-    fontWeight: '600',
-    fontFamily: 'HiraginoMincho-W6',
-  },
-  modalBackdrop: {
-    flex: 1,
-    backgroundColor: 'rgba(0,0,0,0.65)',
-    justifyContent: 'center',
-    alignItems: 'center',
-    padding: 24,
-  },
-  modalContent: {
-    backgroundColor: '#0f1424',
-    borderRadius: 20,
-    padding: 24,
-  },
-  slideModalContent: {
-    backgroundColor: '#0f1424',
-    borderRadius: 24,
-    overflow: 'hidden',
-    width: '100%',
-  },
-  slideModalImage: {
-    height: 180,
-  },
-  slideModalImageInner: {
-    opacity: 0.5,
-  },
-  slideModalOverlay: {
-    flex: 1,
-    justifyContent: 'flex-end',
-    padding: 20,
-    backgroundColor: 'rgba(0,0,0,0.2)',
-  },
-  slideModalTitle: {
-    color: '#fff',
-    fontSize: 22,
-    fontWeight: '700',
-    fontFamily: 'HiraginoMincho-W6',
-  },
-  slideModalSubtitle: {
-    color: '#cfd3dd',
-    marginTop: 6,
-    fontFamily: 'HiraginoMincho-W3',
-  },
-  slideModalDescription: {
-    color: '#cfd3dd',
-    padding: 20,
-    fontSize: 15,
-    lineHeight: 22,
-    fontFamily: 'HiraginoMincho-W3',
-  },
-  modalTitle: {
-    color: '#fff',
-    fontSize: 20,
-    fontWeight: '700',
-    marginBottom: 8,
-    fontFamily: 'HiraginoMincho-W6',
-  },
-  modalDescription: {
-    color: '#cfd3dd',
-    fontSize: 15,
-    lineHeight: 20,
-    marginBottom: 16,
-    fontFamily: 'HiraginoMincho-W3',
-  },
-  modalActions: {
-    flexDirection: 'row',
-    marginTop: 8,
-  },
-  modalButton: {
-    flex: 1,
-    paddingVertical: 12,
-    borderRadius: 12,
-    alignItems: 'center',
-  },
-  modalButtonPrimary: {
-    backgroundColor: '#6fb1ff',
-  },
-  modalButtonPrimaryText: {
-    color: '#0f1424',
-    fontWeight: '700',
-    fontFamily: 'HiraginoMincho-W6',
-  },
-  modalButtonSecondary: {
-    borderWidth: 1,
-    borderColor: '#6fb1ff',
-  },
-  modalButtonSpacing: {
-    marginRight: 12,
-  },
-  modalButtonSecondaryText: {
-    color: '#6fb1ff',
-    fontWeight: '700',
-    fontFamily: 'HiraginoMincho-W6',
-  },
-  filesModalContent: {
-    backgroundColor: '#0f1424',
-    borderRadius: 20,
-    padding: 24,
-    width: '100%',
-    maxHeight: '80%',
-  },
-  filesEmptyText: {
-    color: '#9fb3d4',
-    fontSize: 15,
-    lineHeight: 22,
-    textAlign: 'center',
-    marginVertical: 24,
-    fontFamily: 'HiraginoMincho-W3',
-  },
-  filesList: {
-    marginVertical: 16,
-    maxHeight: 300,
-  },
-  fileItem: {
-    backgroundColor: 'rgba(255,255,255,0.05)',
-    borderRadius: 12,
-    padding: 12,
-    marginBottom: 8,
-  },
-  fileName: {
-    color: '#ffffff',
-    fontSize: 14,
-    fontWeight: '600',
-    marginBottom: 4,
-    fontFamily: 'HiraginoMincho-W6',
-  },
-  fileInfo: {
-    color: '#9fb3d4',
-    fontSize: 12,
-    fontFamily: 'HiraginoMincho-W3',
-  },
 });
 
 export default App;
@@ -2,16 +2,318 @@
  * @format
  */
 
-import 'react-native';
+import {Alert, Linking} from 'react-native';
 import React from 'react';
+import AsyncStorage from '@react-native-async-storage/async-storage';
 import App from '../App';
+import {
+  EvidenceManifest,
+  EvidenceProvider,
+  FakeEvidenceBackend,
+} from '../services/evidence';
+import {I18n, I18nProvider} from '../services/i18n';
+import {EMPTY_METADATA, loadMetadata, saveMetadata} from '../services/library';
+import {
+  GeoFix,
+  LocationCapture,
+  LocationCaptureProvider,
+  saveLocationCapture,
+} from '../services/location';
+import {loadMarkers} from '../services/markers';
+import {
+  FakeRecorderBackend,
+  RecorderProvider,
+  RecorderService,
+} from '../services/recorder';
 
 // Note: import explicitly to use the types shipped with jest.
-import {it} from '@jest/globals';
+import {afterEach, beforeEach, expect, it, jest} from '@jest/globals';
 
 // Note: test renderer must be required after react-native.
-import renderer from 'react-test-renderer';
+import renderer, {act, ReactTestRenderer} from 'react-test-renderer';
 
-it('renders correctly', () => {
-  renderer.create(<App />);
+type Services = {
+  manifest?: EvidenceManifest;
+  location?: LocationCapture;
+};
+
+const renderApp = async (
+  service?: RecorderService,
+  {manifest, location}: Services = {},
+) => {
+  let tree: ReactTestRenderer | undefined;
+  // 文言を日本語で確かめる（Jest の既定ロケールは英語）
+  const i18n = new I18n(() => 'ja');
+  let app = <App />;
+  if (location) {
+    app = (
+      <LocationCaptureProvider capture={location}>
+        {app}
+      </LocationCaptureProvider>
+    );
+  }
+  if (manifest) {
+    app = <EvidenceProvider manifest={manifest}>{app}</EvidenceProvider>;
+  }
+  if (service) {
+    app = <RecorderProvider service={service}>{app}</RecorderProvider>;
+  }
+  await act(async () => {
+    tree = renderer.create(<I18nProvider i18n={i18n}>{app}</I18nProvider>);
+  });
+  // ローディングアニメーションの最低表示時間を進める
+  await act(async () => {
+    jest.advanceTimersByTime(1500);
+  });
+  return tree as ReactTestRenderer;
+};
+
+const hasText = (tree: ReactTestRenderer, text: string) =>
+  tree.root.findAll(node => node.props.children === text).length > 0;
+
+// 背面タップなどのショートカットから続けて開かれた URL
+const openURL = async (...urls: string[]) => {
+  const {calls} = jest.mocked(Linking.addEventListener).mock;
+  const [, handler] = calls[calls.length - 1];
+  await act(async () => {
+    urls.forEach(url => handler({url}));
+  });
+};
+
+const pressStop = async (tree: ReactTestRenderer) => {
+  const [stopButton] = tree.root.findAllByProps({
+    testID: 'stop-recording-button',
+  });
+  await act(async () => {
+    stopButton.props.onPress();
+  });
+};
+
+beforeEach(() => {
+  jest.useFakeTimers();
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+});
+
+it('renders correctly', async () => {
+  const tree = await renderApp();
+  tree.unmount();
+});
+
+it('shows recordings started by a shortcut and stops them', async () => {
+  const backend = new FakeRecorderBackend();
+  await backend.startRecording();
+  const tree = await renderApp(new RecorderService(backend));
+
+  expect(hasText(tree, '録音中')).toBe(true);
+
+  const [stopButton] = tree.root.findAllByProps({
+    testID: 'stop-recording-button',
+  });
+  await act(async () => {
+    stopButton.props.onPress();
+  });
+
+  expect(hasText(tree, '待機中')).toBe(true);
+  expect(backend.files).toHaveLength(1);
+  tree.unmount();
+});
+
+it('adds markers from the mark link at the elapsed time of the recording', async () => {
+  const backend = new FakeRecorderBackend();
+  const tree = await renderApp(new RecorderService(backend));
+  const start = new Date(2024, 2, 5, 8, 30, 15);
+  jest.setSystemTime(start);
+  // 開始の途中に届いたマーカーも録音の先頭に付ける
+  await openURL('twotaprecorder://start', 'twotaprecorder://mark');
+  const fileName = backend.recordingName!;
+
+  jest.setSystemTime(new Date(start.getTime() + 30 * 1000));
+  await openURL('twotaprecorder://mark?label=%E9%A7%85%E5%93%A1');
+  const markedAt = new Date(start.getTime() + 60 * 1000);
+  jest.setSystemTime(markedAt);
+  await openURL('twotaprecorder://mark?label=%E5%8F%A3%E8%AB%96');
+
+  const markers = await loadMarkers(fileName);
+  expect(
+    markers.map(({offsetSeconds, label, source}) => ({
+      offsetSeconds,
+      label,
+      source,
+    })),
+  ).toEqual([
+    {offsetSeconds: 0, label: 'ブックマーク', source: 'shortcut'},
+    {offsetSeconds: 30, label: '駅員', source: 'shortcut'},
+    {offsetSeconds: 60, label: '口論', source: 'shortcut'},
+  ]);
+  expect(markers[2].createdAt).toBe(markedAt.toISOString());
+  tree.unmount();
+});
+
+it('adds mark links at the position the native side recorded when they arrived', async () => {
+  const start = new Date(2024, 2, 5, 8, 30, 15);
+  jest.setSystemTime(start);
+  const backend = new FakeRecorderBackend();
+  // 背面タップで録音を始め、アプリが起動する前にリンクが届いた
+  await backend.startRecording({});
+  const fileName = backend.recordingName!;
+  const first = 'twotaprecorder://mark?label=%E9%A7%85%E5%93%A1';
+  const second = 'twotaprecorder://mark';
+  jest.setSystemTime(new Date(start.getTime() + 30 * 1000));
+  backend.simulateMark('駅員', first);
+  jest.setSystemTime(new Date(start.getTime() + 40 * 1000));
+  backend.simulateMark('', second);
+  jest.mocked(Linking.getInitialURL).mockResolvedValueOnce(first);
+  jest.setSystemTime(new Date(start.getTime() + 90 * 1000));
+
+  const tree = await renderApp(new RecorderService(backend));
+  await openURL(second);
+
+  const markers = await loadMarkers(fileName);
+  expect(
+    markers.map(({offsetSeconds, label, source}) => ({
+      offsetSeconds,
+      label,
+      source,
+    })),
+  ).toEqual([
+    {offsetSeconds: 30, label: '駅員', source: 'shortcut'},
+    {offsetSeconds: 40, label: 'ブックマーク', source: 'shortcut'},
+  ]);
+  expect(markers[0].createdAt).toBe(
+    new Date(start.getTime() + 30 * 1000).toISOString(),
+  );
+  tree.unmount();
+});
+
+it('shows the saved notice for a shortcut stop on the next launch', async () => {
+  const alert = jest.spyOn(Alert, 'alert').mockImplementation(() => {});
+  await AsyncStorage.setItem(
+    'twotaprecorder:pendingSavedNotice',
+    'recording-20240305_083015.m4a',
+  );
+
+  const tree = await renderApp(new RecorderService(new FakeRecorderBackend()));
+
+  expect(alert).toHaveBeenCalledWith(
+    '録音を保存しました',
+    expect.stringContaining('recording-20240305_083015.m4a'),
+  );
+  await expect(
+    AsyncStorage.getItem('twotaprecorder:pendingSavedNotice'),
+  ).resolves.toBeNull();
+  alert.mockRestore();
+  tree.unmount();
+});
+
+it('offers to resume a recording cut off by the app being terminated', async () => {
+  const alert = jest.spyOn(Alert, 'alert').mockImplementation(() => {});
+  const backend = new FakeRecorderBackend();
+  await new RecorderService(backend).start();
+  backend.terminate();
+
+  const tree = await renderApp(new RecorderService(backend));
+
+  expect(alert).toHaveBeenCalledWith(
+    '録音が途中で止まっていました',
+    expect.stringContaining('録音中にアプリが終了した'),
+    expect.arrayContaining([expect.objectContaining({text: '続きを録音'})]),
+  );
+  alert.mockRestore();
+  tree.unmount();
+});
+
+it('logs a recording in the evidence manifest once it is stopped', async () => {
+  const alert = jest.spyOn(Alert, 'alert').mockImplementation(() => {});
+  const backend = new FakeRecorderBackend();
+  const files = new FakeEvidenceBackend();
+  const manifest = new EvidenceManifest(files);
+  const tree = await renderApp(
+    new RecorderService(backend, undefined, backend),
+    {manifest},
+  );
+
+  await openURL('twotaprecorder://start');
+  const fileName = backend.recordingName!;
+  // 録音中にファイルアプリから取り込まれると、書き込み中の録音も一覧に出る
+  files.putRecording(fileName, 'first half');
+  files.putRecording('imported.m4a', 'imported');
+  await act(async () => {
+    backend.addFile({
+      name: 'imported.m4a',
+      path: '/fake/Documents/imported.m4a',
+      size: 8,
+      date: '2024-03-05T00:00:00.000Z',
+    });
+  });
+  files.putRecording(fileName, 'first half and second half');
+  await pressStop(tree);
+
+  const {entries} = await manifest.load();
+  expect(
+    entries.map(({fileName: name, lateRegistration}) => [
+      name,
+      lateRegistration,
+    ]),
+  ).toEqual([
+    ['imported.m4a', true],
+    [fileName, false],
+  ]);
+  await expect(manifest.verifyAll(backend.files)).resolves.toEqual({
+    [fileName]: 'verified',
+    'imported.m4a': 'verified',
+  });
+  alert.mockRestore();
+  tree.unmount();
+});
+
+it('keeps the place and the stop location of a recording found while it ran', async () => {
+  const alert = jest.spyOn(Alert, 'alert').mockImplementation(() => {});
+  await saveLocationCapture(true);
+  const fix = (latitude: number): GeoFix => ({
+    latitude,
+    longitude: 139.7006,
+    accuracy: 12,
+    capturedAt: '2024-03-04T23:30:15.000Z',
+  });
+  const fixes = [fix(35.6896), fix(35.6909)];
+  const location = new LocationCapture({
+    requestLocationPermission: async () => true,
+    getCurrentLocation: async () => fixes.shift()!,
+  });
+  const backend = new FakeRecorderBackend();
+  const files = new FakeEvidenceBackend();
+  const manifest = new EvidenceManifest(files);
+  const tree = await renderApp(
+    new RecorderService(backend, undefined, backend),
+    {manifest, location},
+  );
+
+  await openURL('twotaprecorder://start');
+  const fileName = backend.recordingName!;
+  files.putRecording(fileName, 'audio');
+  // 停止前に見つかって後から登録された録音
+  await manifest.reconcile([
+    {name: fileName, path: fileName, size: 5, date: ''},
+  ]);
+  await act(async () => {
+    const metadata = (await loadMetadata([fileName]))[fileName];
+    await saveMetadata(fileName, {...metadata, place: '新宿駅'});
+  });
+  await pressStop(tree);
+
+  const recorded = {start: fix(35.6896), stop: fix(35.6909)};
+  await expect(loadMetadata([fileName])).resolves.toEqual({
+    [fileName]: {...EMPTY_METADATA, place: '新宿駅', location: recorded},
+  });
+  const {entries} = await manifest.load();
+  expect(entries[entries.length - 1]).toMatchObject({
+    fileName,
+    lateRegistration: false,
+    location: recorded,
+  });
+  alert.mockRestore();
+  tree.unmount();
 });
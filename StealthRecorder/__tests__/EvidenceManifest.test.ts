@@ -0,0 +1,162 @@
+import {describe, expect, it} from '@jest/globals';
+import {
+  EvidenceManifest,
+  FakeEvidenceBackend,
+  GENESIS_HASH,
+  MANIFEST_FILE_NAME,
+  parseLog,
+  sha256Hex,
+} from '../services/evidence';
+
+const FIRST = 'recording-20240305_083015.m4a';
+const SECOND = 'recording-20240306_190000.m4a';
+
+const setup = () => {
+  const backend = new FakeEvidenceBackend();
+  backend.putRecording(FIRST, 'first audio', 42);
+  backend.putRecording(SECOND, 'second audio', 7);
+  const manifest = new EvidenceManifest(
+    backend,
+    () => new Date('2024-03-07T00:00:00Z'),
+  );
+  return {backend, manifest};
+};
+
+const toFile = (name: string) => ({name, path: name, size: 0, date: ''});
+
+describe('sha256Hex', () => {
+  it('matches the standard test vectors', () => {
+    expect(sha256Hex('')).toBe(
+      'e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855',
+    );
+    expect(sha256Hex('abc')).toBe(
+      'ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad',
+    );
+    expect(sha256Hex('あ')).toBe(
+      'dc5a4d3d82f7e15792959dc661538ae0e541ce66494516f5c9cfd9cd3308494d',
+    );
+  });
+});
+
+describe('EvidenceManifest', () => {
+  it('chains entries from the genesis hash', async () => {
+    const {manifest} = setup();
+
+    const first = await manifest.register(FIRST, {
+      stoppedAt: new Date(2024, 2, 5, 8, 30, 57),
+    });
+    const second = await manifest.register(SECOND);
+
+    expect(first).toMatchObject({
+      index: 0,
+      previousHash: GENESIS_HASH,
+      contentHash: sha256Hex('first audio'),
+      durationSeconds: 42,
+      startedAt: new Date(2024, 2, 5, 8, 30, 15).toISOString(),
+      lateRegistration: false,
+    });
+    expect(second?.previousHash).toBe(first?.entryHash);
+
+    const {entries, problems} = await manifest.load();
+    expect(entries).toHaveLength(2);
+    expect(problems).toEqual([]);
+  });
+
+  it('does not register the same file twice', async () => {
+    const {manifest} = setup();
+    await manifest.register(FIRST);
+    await manifest.reconcile([toFile(SECOND), toFile(FIRST)]);
+
+    const {entries} = await manifest.load();
+    expect(entries.map(entry => entry.fileName)).toEqual([FIRST, SECOND]);
+    expect(entries[1].lateRegistration).toBe(true);
+  });
+
+  it('logs the stop of a recording that was found before it stopped', async () => {
+    const {backend, manifest} = setup();
+    backend.putRecording(FIRST, 'first', 21);
+    await manifest.reconcile([toFile(FIRST)]);
+    backend.putRecording(FIRST, 'first audio', 42);
+
+    const stopped = await manifest.register(FIRST, {
+      stoppedAt: new Date(2024, 2, 5, 8, 30, 57),
+    });
+    await manifest.reconcile([toFile(FIRST)]);
+
+    expect(stopped).toMatchObject({
+      index: 1,
+      contentHash: sha256Hex('first audio'),
+      lateRegistration: false,
+    });
+    await expect(manifest.register(FIRST)).resolves.toEqual(stopped);
+    await expect(manifest.verify(FIRST)).resolves.toMatchObject({
+      status: 'verified',
+    });
+  });
+
+  it('logs the recording location and keeps it across a rename', async () => {
+    const {manifest} = setup();
+    const location = {
+      start: {
+        latitude: 35.6896,
+        longitude: 139.7006,
+        accuracy: 12,
+        capturedAt: '2024-03-04T23:30:15.000Z',
+      },
+    };
+
+    const first = await manifest.register(FIRST, {location});
+    const second = await manifest.register(SECOND, {location: null});
+    const renamed = await manifest.recordRename(FIRST, 'renamed.m4a');
+
+    expect(first?.location).toEqual(location);
+    expect(second?.location).toBeUndefined();
+    expect(renamed?.location).toEqual(location);
+    await expect(manifest.load()).resolves.toMatchObject({problems: []});
+  });
+
+  it('flags a file whose content changed after saving', async () => {
+    const {backend, manifest} = setup();
+    await manifest.register(FIRST);
+    await manifest.register(SECOND);
+
+    backend.putRecording(FIRST, 'edited audio', 42);
+
+    await expect(
+      manifest.verifyAll([toFile(FIRST), toFile(SECOND), toFile('other.m4a')]),
+    ).resolves.toEqual({
+      [FIRST]: 'mismatch',
+      [SECOND]: 'verified',
+      'other.m4a': 'unregistered',
+    });
+  });
+
+  it('flags entries after an edited log line as chain_broken', async () => {
+    const {backend, manifest} = setup();
+    await manifest.register(FIRST);
+    await manifest.register(SECOND);
+
+    const log = backend.textFiles.get(MANIFEST_FILE_NAME) as string;
+    backend.textFiles.set(
+      MANIFEST_FILE_NAME,
+      log.replace('"durationSeconds":42', '"durationSeconds":40'),
+    );
+
+    expect(
+      parseLog(backend.textFiles.get(MANIFEST_FILE_NAME) ?? null).problems,
+    ).toEqual([{line: 0, reason: 'entry_hash'}]);
+    await expect(manifest.verify(SECOND)).resolves.toMatchObject({
+      status: 'chain_broken',
+    });
+  });
+
+  it('reports a deleted recording as missing', async () => {
+    const {backend, manifest} = setup();
+    await manifest.register(FIRST);
+    backend.recordings.delete(FIRST);
+
+    await expect(manifest.verify(FIRST)).resolves.toMatchObject({
+      status: 'missing',
+    });
+  });
+});
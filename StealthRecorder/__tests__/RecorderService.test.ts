@@ -0,0 +1,118 @@
+import {describe, expect, it} from '@jest/globals';
+import {
+  FakeRecorderBackend,
+  RecorderError,
+  RecorderService,
+  RecorderState,
+} from '../services/recorder';
+
+const fixedNow = () => new Date(2024, 2, 5, 8, 30, 15);
+
+const createService = () => {
+  const backend = new FakeRecorderBackend({now: fixedNow});
+  const service = new RecorderService(backend);
+  const states: RecorderState[] = [];
+  service.subscribe(snapshot => states.push(snapshot.state));
+  return {backend, service, states};
+};
+
+describe('RecorderService', () => {
+  it('walks through starting → recording → stopping → saved', async () => {
+    const {service, states} = createService();
+
+    await expect(service.start()).resolves.toBe(
+      'recording-20240305_083015.m4a',
+    );
+    await expect(service.stop()).resolves.toBe('recording-20240305_083015.m4a');
+
+    expect(states).toEqual(['starting', 'recording', 'stopping', 'saved']);
+    expect(service.getSnapshot().fileName).toBe(
+      'recording-20240305_083015.m4a',
+    );
+    await expect(service.listRecordings()).resolves.toHaveLength(1);
+  });
+
+  it('moves to failed with a typed code when the native start rejects', async () => {
+    const {backend, service} = createService();
+    backend.failNext('startRecording', new Error('session busy'));
+
+    const error = await service.start().catch(e => e);
+
+    expect(error).toBeInstanceOf(RecorderError);
+    expect(error.code).toBe('start_failed');
+    expect(error.message).toBe('session busy');
+    expect(service.getSnapshot()).toMatchObject({
+      state: 'failed',
+      error: 'start_failed',
+    });
+  });
+
+  it('rejects a second start while one is in flight', async () => {
+    const {service} = createService();
+    const first = service.start();
+
+    await expect(service.start()).rejects.toMatchObject({
+      code: 'invalid_state',
+    });
+    await first;
+  });
+
+  it('returns null when stopping while the native side is idle', async () => {
+    const {service, states} = createService();
+
+    await expect(service.stop()).resolves.toBeNull();
+    expect(service.getSnapshot().state).toBe('idle');
+    expect(states).toEqual([]);
+  });
+
+  it('stops a recording started outside the app', async () => {
+    const {backend, service, states} = createService();
+    await backend.startRecording();
+
+    await expect(service.stop()).resolves.toBe('recording-20240305_083015.m4a');
+    expect(states).toEqual(['recording', 'stopping', 'saved']);
+  });
+
+  it('picks up recordings started outside the app on sync', async () => {
+    const {backend, service} = createService();
+    await backend.startRecording();
+
+    await expect(service.sync()).resolves.toBe('recording');
+
+    await backend.stopRecording();
+    await expect(service.sync()).resolves.toBe('idle');
+  });
+
+  it('stops on its own once maxDurationSeconds has passed', async () => {
+    let now = fixedNow();
+    const backend = new FakeRecorderBackend({now: () => now});
+    const service = new RecorderService(backend);
+
+    await service.start({maxDurationSeconds: 60});
+    expect(backend.recordingOptions).toEqual({maxDurationSeconds: 60});
+
+    now = new Date(now.getTime() + 60 * 1000);
+    await expect(service.sync()).resolves.toBe('idle');
+    await expect(service.listRecordings()).resolves.toHaveLength(1);
+  });
+
+  it('wraps listing failures as list_failed', async () => {
+    const {backend, service} = createService();
+    backend.failNext('getRecordingFiles', 'not bridged');
+
+    await expect(service.listRecordings()).rejects.toMatchObject({
+      code: 'list_failed',
+      message: 'not bridged',
+    });
+  });
+
+  it('reports unavailable without a native module', async () => {
+    const service = new RecorderService(null);
+
+    expect(service.isAvailable).toBe(false);
+    await expect(service.start()).rejects.toMatchObject({
+      code: 'unavailable',
+    });
+    await expect(service.sync()).resolves.toBe('idle');
+  });
+});
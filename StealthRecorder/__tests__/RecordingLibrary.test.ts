@@ -0,0 +1,127 @@
+import {beforeEach, describe, expect, it} from '@jest/globals';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {EvidenceManifest, FakeEvidenceBackend} from '../services/evidence';
+import {Translate, translate} from '../services/i18n';
+import {addMarker} from '../services/markers';
+import {
+  FakeLibraryBackend,
+  RecordingLibrary,
+  normalizeFileName,
+  parseTags,
+} from '../services/library';
+
+const NAME = 'recording-20240305_083015.m4a';
+const en: Translate = (key, params) => translate('en', key, params);
+const file = (name: string) => ({name, path: name, size: 2048, date: ''});
+
+const setup = async () => {
+  const evidenceBackend = new FakeEvidenceBackend();
+  evidenceBackend.putRecording(NAME, 'audio');
+  const evidence = new EvidenceManifest(evidenceBackend);
+  await evidence.register(NAME);
+  const backend = new FakeLibraryBackend([NAME]);
+  return {backend, evidence, library: new RecordingLibrary(backend, evidence)};
+};
+
+beforeEach(async () => {
+  await AsyncStorage.clear();
+});
+
+describe('normalizeFileName', () => {
+  it('keeps the original extension', () => {
+    expect(normalizeFileName('新宿駅', NAME)).toBe('新宿駅.m4a');
+    expect(normalizeFileName(' 新宿駅.M4A ', NAME)).toBe('新宿駅.m4a');
+  });
+
+  it.each(['', '   ', '.hidden', 'a/b', 'a:b'])('rejects %p', input => {
+    expect(() => normalizeFileName(input, NAME)).toThrow(
+      expect.objectContaining({code: 'invalid_name'}),
+    );
+  });
+});
+
+describe('parseTags', () => {
+  it('splits on commas and whitespace and drops duplicates', () => {
+    expect(parseTags('通勤, #山手線　警察、山手線')).toEqual([
+      '通勤',
+      '山手線',
+      '警察',
+    ]);
+  });
+});
+
+describe('RecordingLibrary', () => {
+  it('persists titles and tags by file name', async () => {
+    const {library} = await setup();
+    await library.updateMetadata(NAME, {title: '駅員室', tags: ['証拠']});
+
+    const [item] = await library.loadItems([file(NAME)], {[NAME]: 'verified'});
+
+    expect(item.metadata).toEqual({title: '駅員室', tags: ['証拠']});
+    expect(item.verification).toBe('verified');
+  });
+
+  it('moves metadata and evidence with a rename', async () => {
+    const {backend, evidence, library} = await setup();
+    await library.updateMetadata(NAME, {title: '駅員室', tags: []});
+
+    const next = await library.rename(NAME, '新宿駅', [NAME]);
+
+    expect(next).toBe('新宿駅.m4a');
+    expect(backend.files.has('新宿駅.m4a')).toBe(true);
+    const [item] = await library.loadItems([file(next)]);
+    expect(item.metadata.title).toBe('駅員室');
+    const {entries} = await evidence.load();
+    expect(entries[1]).toMatchObject({
+      fileName: '新宿駅.m4a',
+      renamedFrom: NAME,
+      contentHash: entries[0].contentHash,
+    });
+  });
+
+  it('refuses to rename onto an existing file', async () => {
+    const {library} = await setup();
+
+    await expect(
+      library.rename(NAME, 'other', [NAME, 'other.m4a']),
+    ).rejects.toMatchObject({code: 'name_taken'});
+  });
+
+  it('deletes the file and its metadata', async () => {
+    const {backend, library} = await setup();
+    await library.updateMetadata(NAME, {title: '駅員室', tags: []});
+
+    await library.remove(NAME);
+
+    expect(backend.files.size).toBe(0);
+    const [item] = await library.loadItems([file(NAME)]);
+    expect(item.metadata.title).toBe('');
+  });
+
+  it('shares several files at once', async () => {
+    const {backend, library} = await setup();
+
+    await library.share([NAME, 'other.m4a'], en);
+
+    expect(backend.shared).toEqual([[NAME, 'other.m4a']]);
+  });
+
+  it('attaches a marker list to files that have markers', async () => {
+    const {backend, library} = await setup();
+    await addMarker({
+      fileName: NAME,
+      offsetSeconds: 222,
+      label: '警察手帳',
+      source: 'bookmark',
+    });
+
+    await library.share([NAME, 'other.m4a'], en);
+
+    const path = '/fake/tmp/exports/recording-20240305_083015.markers.txt';
+    expect(backend.shared).toEqual([[NAME, 'other.m4a', path]]);
+    // 見出しと由来は表示言語で書く
+    expect(backend.exports.get(path)).toBe(
+      `Markers for ${NAME}\n\n03:42\t警察手帳\t(Bookmark)\n`,
+    );
+  });
+});
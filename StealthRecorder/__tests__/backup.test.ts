@@ -0,0 +1,330 @@
+import {beforeEach, describe, expect, it} from '@jest/globals';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  BackupError,
+  BackupService,
+  parseBackupArchive,
+  restoredFileName,
+} from '../services/backup';
+import {
+  EvidenceManifest,
+  FakeEvidenceBackend,
+  verifyChain,
+} from '../services/evidence';
+import {utf8Decode, utf8Encode} from '../services/evidence/sha256';
+import {
+  createIncident,
+  loadIncidents,
+  saveIncident,
+} from '../services/incidents';
+import {loadMetadata, saveMetadata} from '../services/library';
+import {addMarker, loadMarkers} from '../services/markers';
+import type {RecordingFile} from '../services/recorder';
+import {parseTranscript, transcriptFileName} from '../services/transcripts';
+import {FakeBackupBackend} from './helpers/fakeBackup';
+import {createZip, readZip} from './helpers/zip';
+
+const FIRST = 'recording-20240301_080000.m4a';
+const SECOND = 'recording-20240305_083015.m4a';
+const CREATED_AT = new Date(2024, 2, 6, 21, 0, 0);
+
+const file = (name: string): RecordingFile => ({
+  name,
+  path: `/fake/Documents/${name}`,
+  size: 5,
+  date: '',
+});
+
+const device = (recordings: Record<string, string> = {}) => {
+  const evidenceBackend = new FakeEvidenceBackend();
+  Object.entries(recordings).forEach(([name, content]) =>
+    evidenceBackend.putRecording(name, content, 60),
+  );
+  const evidence = new EvidenceManifest(evidenceBackend);
+  const backend = new FakeBackupBackend(recordings);
+  const service = new BackupService(backend, evidence, () => CREATED_AT);
+  return {evidenceBackend, evidence, backend, service};
+};
+
+// A で作ったバックアップを B のドキュメントピッカーで選べるようにする
+const carry = (
+  from: FakeBackupBackend,
+  to: FakeBackupBackend,
+  path: string,
+) => {
+  to.files.set(path, from.files.get(path) as Uint8Array);
+  const password = from.passwords.get(path);
+  if (password !== undefined) {
+    to.passwords.set(path, password);
+  }
+};
+
+// 作ったバックアップを復元と同じ手順で開いて検証する
+const openArchive = async (backend: FakeBackupBackend, path: string) =>
+  parseBackupArchive(await backend.openBackupFile(path, null), entryPath =>
+    backend.readArchiveText(path, entryPath),
+  );
+
+const codeOf = async (promise: Promise<unknown>) => {
+  try {
+    await promise;
+  } catch (error) {
+    expect(error).toBeInstanceOf(BackupError);
+    return (error as BackupError).code;
+  }
+  return null;
+};
+
+const createBackup = async (password = '') => {
+  const source = device({[FIRST]: 'audio-1', [SECOND]: 'audio-2'});
+  await source.evidence.register(FIRST, {stoppedAt: new Date(2024, 2, 1, 9)});
+  await source.evidence.register(SECOND);
+  await saveMetadata(SECOND, {title: '車内での口論', tags: ['通勤']});
+  await addMarker({
+    fileName: SECOND,
+    offsetSeconds: 42,
+    label: '身分証の提示',
+    source: 'bookmark',
+  });
+  source.backend.texts.set(
+    transcriptFileName(SECOND),
+    JSON.stringify({
+      fileName: SECOND,
+      engine: 'stub',
+      locale: 'ja-JP',
+      createdAt: CREATED_AT.toISOString(),
+      segments: [{start: 0, end: 1, text: 'こんにちは', confidence: 0.9}],
+    }),
+  );
+  await saveIncident({
+    ...createIncident(new Date(2024, 2, 5, 8, 30)),
+    id: 'incident-1',
+    title: '駅での職務質問',
+    recordingNames: [SECOND],
+  });
+  const result = await source.service.create(
+    [file(SECOND), file(FIRST)],
+    password,
+  );
+  return {source, result, path: source.backend.saved[0]};
+};
+
+beforeEach(async () => {
+  await AsyncStorage.clear();
+});
+
+describe('zip reader', () => {
+  it('reads back what createZip wrote', () => {
+    const zip = createZip([
+      {name: 'a/録音.txt', data: utf8Encode('証拠🎙')},
+      {name: 'b.bin', data: new Uint8Array([0, 255, 128])},
+    ]);
+
+    const entries = readZip(zip);
+    expect(entries.map(entry => entry.name)).toEqual(['a/録音.txt', 'b.bin']);
+    expect(utf8Decode(entries[0].data)).toBe('証拠🎙');
+    expect([...entries[1].data]).toEqual([0, 255, 128]);
+
+    zip[44] += 1;
+    expect(() => readZip(zip)).toThrow(RangeError);
+  });
+});
+
+describe('BackupService', () => {
+  it('writes a complete archive through the document picker', async () => {
+    const {source, result, path} = await createBackup();
+
+    expect(result).toEqual({
+      fileName: 'backup-20240306_210000.zip',
+      recordings: 2,
+      encrypted: false,
+      saved: true,
+    });
+    const archive = await openArchive(source.backend, path);
+    expect(archive.recordings).toEqual([SECOND, FIRST]);
+    expect(archive.metadata[SECOND]).toEqual({
+      title: '車内での口論',
+      tags: ['通勤'],
+    });
+    expect(archive.markers[SECOND]).toHaveLength(1);
+    expect(Object.keys(archive.transcripts)).toEqual([SECOND]);
+    expect(archive.incidents.map(incident => incident.id)).toEqual([
+      'incident-1',
+    ]);
+    expect(archive.manifestText.trim().split('\n')).toHaveLength(2);
+  });
+
+  it('restores everything onto an empty device and carries the evidence over', async () => {
+    const {source, path} = await createBackup();
+    await AsyncStorage.clear();
+    const target = device();
+    carry(source.backend, target.backend, path);
+    target.backend.picked = path;
+
+    const picked = (await target.service.pick()) as string;
+    const report = await target.service.restore(picked, null, []);
+
+    expect(report).toEqual({
+      restored: [FIRST, SECOND],
+      renamed: [],
+      duplicates: [],
+      failed: [],
+      unverified: [],
+      incidents: 1,
+      manifestProblems: 0,
+    });
+    expect(target.backend.recordings.get(SECOND)).toBe('audio-2');
+    expect(target.backend.closed).toEqual([path]);
+    expect((await loadMetadata([SECOND]))[SECOND].title).toBe('車内での口論');
+    expect((await loadMarkers(SECOND))[0].label).toBe('身分証の提示');
+    expect(
+      parseTranscript(
+        target.backend.texts.get(transcriptFileName(SECOND)) as string,
+      ).segments[0].text,
+    ).toBe('こんにちは');
+    expect((await loadIncidents())[0].recordingNames).toEqual([SECOND]);
+
+    const original = (await source.evidence.load()).entries;
+    const {entries, problems} = await target.evidence.load();
+    expect(problems).toEqual([]);
+    expect(verifyChain(entries)).toEqual([]);
+    expect(entries.map(entry => [entry.fileName, entry.contentHash])).toEqual(
+      original.map(entry => [entry.fileName, entry.contentHash]),
+    );
+    expect(entries[0]).toMatchObject({
+      startedAt: original[0].startedAt,
+      stoppedAt: original[0].stoppedAt,
+      restoredFrom: 'backup-20240306_210000.zip',
+    });
+  });
+
+  it('skips recordings that are already on the device and renames conflicts', async () => {
+    const {source, path} = await createBackup();
+    await AsyncStorage.clear();
+    // FIRST と同じ内容が別名で、SECOND と同じ名前で別の内容がある
+    const target = device({
+      'recording-20240301_080000-part01.m4a': 'audio-1',
+      [SECOND]: 'other audio',
+    });
+    await target.evidence.reconcile([
+      file(SECOND),
+      file('recording-20240301_080000-part01.m4a'),
+    ]);
+    carry(source.backend, target.backend, path);
+
+    const report = await target.service.restore(path, null, [
+      file(SECOND),
+      file('recording-20240301_080000-part01.m4a'),
+    ]);
+
+    const renamed = 'recording-20240305_083015-restored.m4a';
+    expect(report.duplicates).toEqual([FIRST]);
+    expect(report.restored).toEqual([renamed]);
+    expect(report.renamed).toEqual([{from: SECOND, to: renamed}]);
+    expect(target.backend.recordings.get(SECOND)).toBe('other audio');
+    expect(target.backend.recordings.get(renamed)).toBe('audio-2');
+    expect((await loadMarkers(renamed))[0].fileName).toBe(renamed);
+    expect((await loadIncidents())[0].recordingNames).toEqual([renamed]);
+    const last = (await target.evidence.load()).entries.pop();
+    expect(last).toMatchObject({fileName: renamed, renamedFrom: SECOND});
+
+    // もう一度復元しても増えない
+    const again = await target.service.restore(path, null, [
+      file(SECOND),
+      file('recording-20240301_080000-part01.m4a'),
+      file(renamed),
+    ]);
+    expect(again.restored).toEqual([]);
+    expect(again.duplicates).toEqual([FIRST, SECOND]);
+    expect(again.incidents).toBe(0);
+  });
+
+  it('requires the password for encrypted backups', async () => {
+    const source = device({[FIRST]: 'audio-1'});
+    expect(await codeOf(source.service.create([file(FIRST)], 'short'))).toBe(
+      'weak_password',
+    );
+    expect(
+      await codeOf(
+        source.service.create([file(FIRST)], 'correct horse', 'wrong horse'),
+      ),
+    ).toBe('password_mismatch');
+    expect(await codeOf(source.service.create([]))).toBe('nothing_to_backup');
+
+    const {
+      source: encrypted,
+      result,
+      path,
+    } = await createBackup('correct horse');
+    expect(result).toMatchObject({
+      fileName: 'backup-20240306_210000.ttrbackup',
+      encrypted: true,
+    });
+    const target = device();
+    carry(encrypted.backend, target.backend, path);
+
+    expect(await codeOf(target.service.restore(path, null, []))).toBe(
+      'password_required',
+    );
+    expect(await codeOf(target.service.restore(path, 'guess', []))).toBe(
+      'wrong_password',
+    );
+    const report = await target.service.restore(path, 'correct horse', []);
+    expect(report.restored).toEqual([FIRST, SECOND]);
+  });
+
+  it('rejects archives that do not match their manifest before importing', async () => {
+    const {source, path} = await createBackup();
+    const entries = readZip(source.backend.files.get(path) as Uint8Array).map(
+      entry =>
+        entry.name === `recordings/${FIRST}`
+          ? {...entry, data: utf8Encode('edited!')}
+          : entry,
+    );
+    await AsyncStorage.clear();
+    const target = device();
+    target.backend.files.set('/picked/tampered.zip', createZip(entries));
+    target.backend.files.set(
+      '/picked/other.zip',
+      createZip([{name: 'notes.txt', data: utf8Encode('hi')}]),
+    );
+    target.backend.files.set('/picked/notes.txt', utf8Encode('hi'));
+
+    expect(
+      await codeOf(target.service.restore('/picked/tampered.zip', null, [])),
+    ).toBe('corrupted');
+    expect(
+      await codeOf(target.service.restore('/picked/other.zip', null, [])),
+    ).toBe('invalid_archive');
+    expect(
+      await codeOf(target.service.restore('/picked/notes.txt', null, [])),
+    ).toBe('invalid_archive');
+    expect(target.backend.recordings.size).toBe(0);
+  });
+
+  it('reports a full disk as too_large and passes other failures through', async () => {
+    const source = device({[FIRST]: 'audio-1'});
+    source.backend.writeArchive = async () => {
+      throw Object.assign(new Error('no_space'), {code: 'no_space'});
+    };
+    expect(await codeOf(source.service.create([file(FIRST)]))).toBe(
+      'too_large',
+    );
+
+    const bug = new TypeError('unexpected');
+    source.backend.hashFile = async () => {
+      throw bug;
+    };
+    await expect(source.service.create([file(FIRST)])).rejects.toBe(bug);
+  });
+
+  it('picks a free name for conflicting recordings', () => {
+    const taken = new Set([
+      'recording-20240305_083015-restored.m4a',
+      'recording-20240305_083015-restored2.m4a',
+    ]);
+    expect(restoredFileName(SECOND, name => taken.has(name))).toBe(
+      'recording-20240305_083015-restored3.m4a',
+    );
+  });
+});
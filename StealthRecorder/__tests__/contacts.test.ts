@@ -0,0 +1,112 @@
+import {beforeEach, describe, expect, it} from '@jest/globals';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  callURL,
+  composeMessage,
+  createContact,
+  deleteContact,
+  isReachable,
+  loadContacts,
+  mailURL,
+  saveContact,
+  smsURL,
+  summarizeIncident,
+} from '../services/contacts';
+import {MessageKey, MessageParams, translate} from '../services/i18n';
+import {createIncident} from '../services/incidents';
+
+const t = (key: MessageKey, params?: MessageParams) =>
+  translate('ja', key, params);
+
+beforeEach(async () => {
+  await AsyncStorage.clear();
+});
+
+describe('contact store', () => {
+  it('orders contacts by kind, then by when they were added', async () => {
+    const family = createContact('family', new Date(2024, 2, 1));
+    const duty = createContact('duty-lawyer', new Date(2024, 2, 2));
+    const lawyer = createContact('lawyer', new Date(2024, 2, 3));
+    await saveContact({...family, name: '母', phone: '090-0000-0000'});
+    await saveContact({...duty, name: '  東京弁護士会  ', phone: '03'});
+    await saveContact({...lawyer, name: '山田弁護士', email: 'y@example.jp'});
+
+    const contacts = await loadContacts();
+    expect(contacts.map(contact => contact.name)).toEqual([
+      '山田弁護士',
+      '東京弁護士会',
+      '母',
+    ]);
+
+    await deleteContact(lawyer.id);
+    await expect(loadContacts()).resolves.toHaveLength(2);
+  });
+
+  it('needs a phone number or an email address', () => {
+    const contact = createContact('family');
+    expect(isReachable(contact)).toBe(false);
+    expect(isReachable({...contact, phone: ' '})).toBe(false);
+    expect(isReachable({...contact, email: 'a@example.jp'})).toBe(true);
+  });
+});
+
+describe('contact links', () => {
+  it('builds call, SMS and mail URLs', () => {
+    expect(callURL('(03) 1234-5678')).toBe('tel:0312345678');
+    expect(smsURL('+81 90-1234-5678', '至急\n連絡を')).toBe(
+      'sms:+819012345678&body=%E8%87%B3%E6%80%A5%0A%E9%80%A3%E7%B5%A1%E3%82%92',
+    );
+    expect(mailURL(' y@example.jp ', 'a b', 'c&d')).toBe(
+      'mailto:y@example.jp?subject=a%20b&body=c%26d',
+    );
+  });
+});
+
+describe('message composer', () => {
+  it('summarizes the incident without its notes', () => {
+    const incident = {
+      ...createIncident(new Date(2024, 2, 5, 8, 30)),
+      title: '通勤中',
+      trainLine: '山手線',
+      carNumber: '4',
+      notes: '個人的なメモ',
+      officers: [
+        {id: '1', name: '', badgeNumber: '', affiliation: '駅員'},
+        {id: '2', name: '', badgeNumber: '', affiliation: '警察官'},
+      ],
+    };
+
+    expect(summarizeIncident(t, incident)).toBe(
+      '通勤中 / 山手線 4号車 / 対応した人 2名',
+    );
+    expect(summarizeIncident(t, {...incident, title: '', officers: []})).toBe(
+      '山手線 4号車',
+    );
+  });
+
+  it('fills in the time, location and summary and skips empty lines', () => {
+    expect(
+      composeMessage(t, {
+        time: '2024年3月5日 8:30',
+        location: '新宿駅',
+        summary: '山手線 4号車',
+        isRecording: true,
+      }).split('\n'),
+    ).toEqual([
+      t('contacts.message.intro'),
+      '日時: 2024年3月5日 8:30',
+      '場所: 新宿駅',
+      '状況: 山手線 4号車',
+      t('contacts.message.recording'),
+    ]);
+
+    expect(
+      composeMessage(t, {
+        time: '2024年3月5日 8:30',
+        location: ' ',
+        summary: '',
+        isRecording: false,
+      }).split('\n'),
+    ).toEqual([t('contacts.message.intro'), '日時: 2024年3月5日 8:30']);
+  });
+});
@@ -0,0 +1,159 @@
+import {describe, expect, it} from '@jest/globals';
+import {
+  DeepLinkCommand,
+  DeepLinkError,
+  DeepLinkErrorCode,
+  parseDeepLink,
+} from '../services/deepLinks';
+import {Locale, deepLinkErrorMessage, translate} from '../services/i18n';
+
+const start = (
+  maxDurationSeconds: number | null = null,
+  tags: string[] = [],
+): DeepLinkCommand => ({type: 'start', maxDurationSeconds, tags});
+
+describe('parseDeepLink', () => {
+  it.each<[string, DeepLinkCommand]>([
+    ['twotaprecorder://start', start()],
+    ['twotaprecorder://start/', start()],
+    ['twotaprecorder:///start', start()],
+    ['TwoTapRecorder://START', start()],
+    ['  twotaprecorder://start  ', start()],
+    ['twotaprecorder://start?', start()],
+    ['twotaprecorder://start#fragment', start()],
+    ['twotaprecorder://start?maxDuration=300', start(300)],
+    ['twotaprecorder://start?maxDuration=90s', start(90)],
+    ['twotaprecorder://start?maxDuration=15m', start(900)],
+    ['twotaprecorder://start?maxDuration=2H', start(7200)],
+    ['twotaprecorder://start?maxDuration=24h', start(86400)],
+    ['twotaprecorder://start?tag=commute', start(null, ['commute'])],
+    [
+      'twotaprecorder://start?tag=commute&tag=%E9%9B%BB%E8%BB%8A',
+      start(null, ['commute', '電車']),
+    ],
+    ['twotaprecorder://start?tag=a,b&tag=a', start(null, ['a', 'b'])],
+    ['twotaprecorder://start?tag=%23work', start(null, ['work'])],
+    ['twotaprecorder://start?tag=', start()],
+    ['twotaprecorder://start?maxDuration=10m&tag=x', start(600, ['x'])],
+    ['twotaprecorder://stop', {type: 'stop'}],
+    ['twotaprecorder:///stop/', {type: 'stop'}],
+    [
+      'twotaprecorder://toggle',
+      {type: 'toggle', maxDurationSeconds: null, tags: []},
+    ],
+    [
+      'twotaprecorder://toggle?maxDuration=1h&tag=night',
+      {type: 'toggle', maxDurationSeconds: 3600, tags: ['night']},
+    ],
+    ['twotaprecorder://mark', {type: 'mark', label: ''}],
+    ['twotaprecorder://mark?label=', {type: 'mark', label: ''}],
+    [
+      'twotaprecorder://mark?label=refused+to+show+ID',
+      {type: 'mark', label: 'refused to show ID'},
+    ],
+    [
+      'twotaprecorder://mark?label=%E8%BA%AB%E5%88%86%E8%A8%BC',
+      {type: 'mark', label: '身分証'},
+    ],
+    ['twotaprecorder://mark?label=a%26b%3Dc', {type: 'mark', label: 'a&b=c'}],
+    [
+      'twotaprecorder://mark?label=%20%20spaced%20%20',
+      {type: 'mark', label: 'spaced'},
+    ],
+    ['twotaprecorder://open-library', {type: 'open-library', fileName: null}],
+    [
+      'twotaprecorder://open-library?file=recording-20240305_083015.m4a',
+      {type: 'open-library', fileName: 'recording-20240305_083015.m4a'},
+    ],
+    [
+      'twotaprecorder://open-incident',
+      {type: 'open-incident', incidentId: null},
+    ],
+    [
+      'twotaprecorder://open-incident?id=lq2x9k-abc',
+      {type: 'open-incident', incidentId: 'lq2x9k-abc'},
+    ],
+    [
+      'twotaprecorder://open-incident?id=',
+      {type: 'open-incident', incidentId: null},
+    ],
+  ])('parses %s', (url, command) => {
+    expect(parseDeepLink(url)).toEqual(command);
+  });
+
+  it.each<[string, DeepLinkErrorCode]>([
+    ['', 'malformed'],
+    ['start', 'malformed'],
+    ['://start', 'malformed'],
+    ['https://example.com/start', 'unsupported_scheme'],
+    ['shortcuts://run-shortcut?name=x', 'unsupported_scheme'],
+    ['twotaprecorders://start', 'unsupported_scheme'],
+    ['twotaprecorder:start', 'malformed'],
+    ['twotaprecorder://start/now', 'malformed'],
+    ['twotaprecorder://', 'missing_action'],
+    ['twotaprecorder:///', 'missing_action'],
+    ['twotaprecorder://?label=x', 'missing_action'],
+    ['twotaprecorder://record', 'unknown_action'],
+    ['twotaprecorder://constructor', 'unknown_action'],
+    ['twotaprecorder://toString', 'unknown_action'],
+    ['twotaprecorder://open_library', 'unknown_action'],
+    ['twotaprecorder://stop?label=x', 'unknown_parameter'],
+    ['twotaprecorder://start?label=x', 'unknown_parameter'],
+    ['twotaprecorder://start?maxduration=10', 'unknown_parameter'],
+    ['twotaprecorder://mark?tag=x', 'unknown_parameter'],
+    ['twotaprecorder://open-incident?file=a.m4a', 'unknown_parameter'],
+    ['twotaprecorder://start?maxDuration=', 'invalid_parameter'],
+    ['twotaprecorder://start?maxDuration=0', 'invalid_parameter'],
+    ['twotaprecorder://start?maxDuration=-5', 'invalid_parameter'],
+    ['twotaprecorder://start?maxDuration=1.5', 'invalid_parameter'],
+    ['twotaprecorder://start?maxDuration=10d', 'invalid_parameter'],
+    ['twotaprecorder://start?maxDuration=25h', 'invalid_parameter'],
+    ['twotaprecorder://start?maxDuration=abc', 'invalid_parameter'],
+    [
+      'twotaprecorder://start?maxDuration=10&maxDuration=20',
+      'invalid_parameter',
+    ],
+    ['twotaprecorder://mark?label=a&label=b', 'invalid_parameter'],
+    [`twotaprecorder://mark?label=${'x'.repeat(101)}`, 'invalid_parameter'],
+    ['twotaprecorder://open-library?file=', 'invalid_parameter'],
+    ['twotaprecorder://open-library?file=../secret', 'invalid_parameter'],
+    ['twotaprecorder://open-library?file=a%2Fb.m4a', 'invalid_parameter'],
+    ['twotaprecorder://open-library?file=.hidden', 'invalid_parameter'],
+    ['twotaprecorder://mark?label=%E0%A4%A', 'malformed'],
+    ['twotaprecorder://start?%zz=1', 'malformed'],
+  ])('rejects %j with %s', (url, code) => {
+    expect(() => parseDeepLink(url)).toThrow(
+      expect.objectContaining({code}) as unknown as Error,
+    );
+  });
+
+  it('names the offending action and parameters in the message', () => {
+    const messageOf = (url: string, locale: Locale) => {
+      try {
+        parseDeepLink(url);
+      } catch (error) {
+        return deepLinkErrorMessage(
+          (key, params) => translate(locale, key, params),
+          error as DeepLinkError,
+        );
+      }
+      return null;
+    };
+
+    expect(messageOf('twotaprecorder://record', 'ja')).toBe(
+      '「record」は対応していない操作です。',
+    );
+    expect(messageOf('twotaprecorder://stop?a=1&b=2', 'ja')).toBe(
+      'stop では a, b を指定できません。',
+    );
+    expect(messageOf('twotaprecorder://record', 'en')).toBe(
+      'The action "record" is not supported.',
+    );
+    expect(
+      messageOf(`twotaprecorder://mark?label=${'x'.repeat(101)}`, 'en'),
+    ).toBe('Keep label to 100 characters or fewer.');
+    expect(messageOf('twotaprecorder://mark?label=a&label=b', 'en')).toBe(
+      'label is given more than once.',
+    );
+  });
+});
@@ -0,0 +1,292 @@
+import {beforeEach, describe, expect, it} from '@jest/globals';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {EvidenceManifest, FakeEvidenceBackend} from '../services/evidence';
+import {
+  EvidenceExporter,
+  buildReportHtml,
+  buildReportText,
+} from '../services/export';
+import {createIncident, saveIncident} from '../services/incidents';
+import type {LibraryItem} from '../services/library';
+import {addMarker} from '../services/markers';
+import {serializeTranscript, transcriptFileName} from '../services/transcripts';
+import {decodeBase64, encodeBase64} from '../utils/base64';
+import {utf8Decode, utf8Encode} from '../services/evidence/sha256';
+import {FakeExportBackend} from './helpers/fakeExport';
+import {crc32, createZip, readZip} from './helpers/zip';
+
+const NAME = 'recording-20240305_083015.m4a';
+const EXPORTED_AT = new Date(2024, 2, 5, 9, 0, 0);
+
+const item = (name: string): LibraryItem => ({
+  name,
+  path: name,
+  size: 5,
+  date: '',
+  metadata: {title: '車内での口論', tags: ['通勤']},
+});
+
+// 書き出した ZIP の名前と中身（テキスト）
+const unzip = (bytes: Uint8Array | undefined) =>
+  new Map(
+    readZip(bytes ?? new Uint8Array()).map(({name, data}) => [
+      name,
+      utf8Decode(data),
+    ]),
+  );
+
+const setup = async () => {
+  const evidenceBackend = new FakeEvidenceBackend();
+  evidenceBackend.putRecording(NAME, 'audio', 125);
+  const evidence = new EvidenceManifest(evidenceBackend);
+  await evidence.register(NAME);
+  const backend = new FakeExportBackend({[NAME]: 'audio'});
+  const exporter = new EvidenceExporter(backend, evidence, () => EXPORTED_AT);
+  return {backend, evidence, exporter};
+};
+
+beforeEach(async () => {
+  await AsyncStorage.clear();
+});
+
+describe('base64', () => {
+  it.each([
+    ['', ''],
+    ['f', 'Zg=='],
+    ['fo', 'Zm8='],
+    ['foo', 'Zm9v'],
+    ['あ', '44GC'],
+  ])('round-trips %j', (text, encoded) => {
+    expect(encodeBase64(utf8Encode(text))).toBe(encoded);
+    expect(decodeBase64(encoded)).toEqual(utf8Encode(text));
+  });
+});
+
+describe('createZip', () => {
+  it('computes the standard CRC-32', () => {
+    expect(crc32(utf8Encode('123456789'))).toBe(0xcbf43926);
+  });
+
+  it('stores entries uncompressed with a central directory', () => {
+    const zip = createZip(
+      [
+        {name: 'a.txt', data: utf8Encode('hello')},
+        {name: '録音/b.txt', data: utf8Encode('world')},
+      ],
+      EXPORTED_AT,
+    );
+    const view = new DataView(zip.buffer);
+    const end = zip.length - 22;
+
+    expect(view.getUint32(end, true)).toBe(0x06054b50);
+    expect(view.getUint16(end + 10, true)).toBe(2);
+    expect(view.getUint32(view.getUint32(end + 16, true), true)).toBe(
+      0x02014b50,
+    );
+    expect(unzip(zip)).toEqual(
+      new Map([
+        ['a.txt', 'hello'],
+        ['録音/b.txt', 'world'],
+      ]),
+    );
+  });
+});
+
+describe('report', () => {
+  it('summarises hashes, markers and linked incidents in Japanese', async () => {
+    const {exporter} = await setup();
+    await addMarker({
+      fileName: NAME,
+      offsetSeconds: 42,
+      label: '身分証の提示を拒否された',
+      source: 'bookmark',
+    });
+    const incident = {
+      ...createIncident(new Date(2024, 2, 5, 8, 29), [NAME]),
+      title: '山手線車内',
+      location: '新宿駅',
+    };
+    await saveIncident(incident);
+    await saveIncident(createIncident(new Date(2024, 2, 6)));
+
+    const content = await exporter.collect([item(NAME)]);
+    const text = buildReportText(content);
+
+    expect(content.incidents.map(({id}) => id)).toEqual([incident.id]);
+    expect(text).toContain('作成日時: 2024-03-05 09:00');
+    expect(text).toContain('■ 録音1: 車内での口論');
+    expect(text).toContain(
+      `SHA-256: ${content.recordings[0].entry?.contentHash}`,
+    );
+    expect(text).toContain('長さ: 02:05');
+    expect(text).toContain('検証結果: 改ざんなし（記録時のハッシュと一致）');
+    expect(text).toContain('  00:42  身分証の提示を拒否された');
+    expect(text).toContain('■ 出来事1: 山手線車内');
+    expect(text).toContain('場所: 新宿駅');
+  });
+
+  it('groups the parts of a split recording into one section', async () => {
+    const parts = [
+      'recording-20240305_083015-part01.m4a',
+      'recording-20240305_083015-part02.m4a',
+    ];
+    const evidenceBackend = new FakeEvidenceBackend();
+    const evidence = new EvidenceManifest(evidenceBackend);
+    for (const name of parts) {
+      evidenceBackend.putRecording(name, name, 1800);
+      await evidence.register(name);
+    }
+    const exporter = new EvidenceExporter(
+      new FakeExportBackend({[parts[0]]: 'a', [parts[1]]: 'b'}),
+      evidence,
+      () => EXPORTED_AT,
+    );
+
+    const text = buildReportText(
+      await exporter.collect([item(parts[1]), item(parts[0])]),
+    );
+
+    expect(text).toContain('録音: 1件（ファイル2個）');
+    expect(text).toContain('■ 録音1: 車内での口論');
+    expect(text).not.toContain('■ 録音2');
+    expect(text).toContain('分割: 2ファイル（録音中に自動で分割）');
+    expect(
+      text.indexOf(`パート1 ファイル名: recordings/${parts[0]}`),
+    ).toBeLessThan(text.indexOf(`パート2 ファイル名: recordings/${parts[1]}`));
+  });
+
+  it('lists the place and the logged location of a recording', async () => {
+    const evidenceBackend = new FakeEvidenceBackend();
+    evidenceBackend.putRecording(NAME, 'audio', 125);
+    const evidence = new EvidenceManifest(evidenceBackend);
+    const start = {
+      latitude: 35.6896,
+      longitude: 139.7006,
+      accuracy: 12.4,
+      capturedAt: new Date(2024, 2, 5, 8, 30, 15).toISOString(),
+    };
+    await evidence.register(NAME, {location: {start}});
+    const exporter = new EvidenceExporter(
+      new FakeExportBackend({[NAME]: 'audio'}),
+      evidence,
+      () => EXPORTED_AT,
+    );
+
+    const text = buildReportText(
+      await exporter.collect([
+        {...item(NAME), metadata: {title: '', tags: [], place: '新宿駅 4号車'}},
+      ]),
+    );
+
+    expect(text).toContain('場所: 新宿駅 4号車');
+    expect(text).toContain(
+      '開始時の位置: 35.68960, 139.70060（±12 m） 2024-03-05 08:30 測位 https://maps.apple.com/?ll=35.6896,139.7006',
+    );
+    expect(text).not.toContain('停止時の位置');
+  });
+
+  it('escapes user text in the HTML report', async () => {
+    const {exporter} = await setup();
+    const content = await exporter.collect([
+      {...item(NAME), metadata: {title: '<script>', tags: []}},
+    ]);
+
+    const html = buildReportHtml(content);
+
+    expect(html).toContain('録音1: &lt;script&gt;');
+    expect(html).not.toContain('<script>');
+  });
+});
+
+describe('EvidenceExporter', () => {
+  it('writes one archive with audio, manifest, markers and reports', async () => {
+    const {backend, evidence, exporter} = await setup();
+    await addMarker({
+      fileName: NAME,
+      offsetSeconds: 5,
+      label: 'test',
+      source: 'bookmark',
+    });
+
+    await exporter.share([item(NAME)]);
+
+    const path = '/fake/tmp/exports/evidence-20240305_090000.zip';
+    expect(backend.shared).toEqual([[path]]);
+    const files = unzip(backend.exports.get(path));
+    const root = 'evidence-20240305_090000';
+    expect(Array.from(files.keys())).toEqual([
+      `${root}/report.txt`,
+      `${root}/report.html`,
+      `${root}/evidence-manifest.jsonl`,
+      `${root}/recordings/${NAME}`,
+      `${root}/markers/recording-20240305_083015.markers.txt`,
+    ]);
+    expect(files.get(`${root}/recordings/${NAME}`)).toBe('audio');
+    expect(files.get(`${root}/evidence-manifest.jsonl`)).toBe(
+      await evidence.readLog(),
+    );
+  });
+
+  it('adds the transcript as text, SRT and WebVTT when one exists', async () => {
+    const {backend, exporter} = await setup();
+    backend.texts.set(
+      transcriptFileName(NAME),
+      serializeTranscript({
+        fileName: NAME,
+        engine: 'stub',
+        locale: 'ja-JP',
+        createdAt: '2024-03-05T00:00:00.000Z',
+        segments: [{start: 1, end: 2.5, text: '降ります', confidence: 0.9}],
+      }),
+    );
+
+    const content = await exporter.collect([item(NAME)]);
+    const files = unzip(
+      backend.exports.get(await exporter.writeBundle([item(NAME)])),
+    );
+
+    const root = 'evidence-20240305_090000';
+    expect(buildReportText(content)).toContain(
+      '文字起こし: transcripts/recording-20240305_083015.srt（端末内で自動作成・1件の発話）',
+    );
+    expect(files.get(`${root}/transcripts/recording-20240305_083015.srt`)).toBe(
+      '1\n00:00:01,000 --> 00:00:02,500\n降ります\n',
+    );
+    expect(files.get(`${root}/transcripts/recording-20240305_083015.vtt`)).toBe(
+      'WEBVTT\n\n00:00:01.000 --> 00:00:02.500\n降ります\n',
+    );
+    expect(
+      files.get(`${root}/transcripts/recording-20240305_083015-transcript.txt`),
+    ).toContain('[00:01] 降ります');
+  });
+
+  it('rejects an empty selection and reports unreadable files', async () => {
+    const {exporter} = await setup();
+
+    await expect(exporter.writeBundle([])).rejects.toMatchObject({
+      code: 'nothing_selected',
+    });
+    await expect(
+      exporter.writeBundle([item('missing.m4a')]),
+    ).rejects.toMatchObject({code: 'read_failed'});
+  });
+
+  it('reports a full disk as too_large', async () => {
+    const {backend, exporter} = await setup();
+    backend.writeArchive = async () => {
+      throw Object.assign(new Error('no_space'), {code: 'no_space'});
+    };
+
+    await expect(exporter.writeBundle([item(NAME)])).rejects.toMatchObject({
+      code: 'too_large',
+    });
+  });
+
+  it('reports unavailable without a native module', async () => {
+    const exporter = new EvidenceExporter(null, new EvidenceManifest(null));
+
+    await expect(exporter.share([item(NAME)])).rejects.toMatchObject({
+      code: 'unavailable',
+    });
+  });
+});
@@ -0,0 +1,156 @@
+import type {BackupBackend, OpenedBackup} from '../../services/backup';
+import {
+  sha256Bytes,
+  toHex,
+  utf8Decode,
+  utf8Encode,
+} from '../../services/evidence/sha256';
+import type {ArchiveEntry} from '../../services/export';
+import {createZip, readZip} from './zip';
+import type {ZipEntry} from './zip';
+
+const nativeError = (code: string) => Object.assign(new Error(code), {code});
+
+/**
+ * Jest 用。録音の中身は文字列で持ち、書き出したファイルはメモリに残す。
+ * パスワード付きのファイルは中身をそのまま持ち、パスワードだけ覚えておく。
+ */
+export class FakeBackupBackend implements BackupBackend {
+  readonly recordings = new Map<string, string>();
+  readonly texts = new Map<string, string>();
+  // パス → ZIP の中身
+  readonly files = new Map<string, Uint8Array>();
+  readonly passwords = new Map<string, string>();
+  saved: string[] = [];
+  // closeBackupFile に渡されたパス
+  closed: string[] = [];
+  // pickBackupFile が返すパス
+  picked: string | null = null;
+
+  constructor(recordings: Record<string, string> = {}) {
+    Object.entries(recordings).forEach(([name, content]) =>
+      this.recordings.set(name, content),
+    );
+  }
+
+  hashFile = async (name: string): Promise<string> =>
+    toHex(sha256Bytes(utf8Encode(this.requireRecording(name))));
+
+  getFileSize = async (name: string): Promise<number> =>
+    utf8Encode(this.requireRecording(name)).length;
+
+  readTextFile = async (name: string): Promise<string | null> =>
+    this.texts.get(name) ?? null;
+
+  writeTextFile = async (name: string, text: string): Promise<void> => {
+    this.texts.set(name, text);
+  };
+
+  writeArchive = async (
+    name: string,
+    entries: ArchiveEntry[],
+  ): Promise<string> => {
+    const files = entries.map(entry => ({
+      name: entry.path,
+      data: utf8Encode(
+        'file' in entry ? this.requireRecording(entry.file) : entry.text,
+      ),
+      modifiedAt: entry.modifiedAt ? new Date(entry.modifiedAt) : undefined,
+    }));
+    const path = `/fake/tmp/exports/${name}`;
+    this.files.set(path, createZip(files));
+    return path;
+  };
+
+  encryptBackupFile = async (
+    path: string,
+    password: string,
+  ): Promise<string> => {
+    const destination = path.replace(/\.zip$/, '.ttrbackup');
+    this.files.set(destination, this.requireFile(path));
+    this.files.delete(path);
+    this.passwords.set(destination, password);
+    return destination;
+  };
+
+  saveBackupFile = async (path: string): Promise<boolean> => {
+    this.requireFile(path);
+    this.saved.push(path);
+    return true;
+  };
+
+  pickBackupFile = async (): Promise<string | null> => this.picked;
+
+  openBackupFile = async (
+    path: string,
+    password: string | null,
+  ): Promise<OpenedBackup> => {
+    const expected = this.passwords.get(path);
+    if (expected !== undefined && !password) {
+      throw nativeError('password_required');
+    }
+    if (expected !== undefined && password !== expected) {
+      throw nativeError('wrong_passcode');
+    }
+    return {
+      path,
+      files: this.readEntries(path).map(entry => ({
+        path: entry.name,
+        size: entry.data.length,
+        sha256: toHex(sha256Bytes(entry.data)),
+      })),
+    };
+  };
+
+  readArchiveText = async (path: string, entryPath: string): Promise<string> =>
+    utf8Decode(this.readEntry(path, entryPath));
+
+  extractArchiveFile = async (
+    path: string,
+    entryPath: string,
+    name: string,
+  ): Promise<void> => {
+    if (this.recordings.has(name)) {
+      throw nativeError('file_exists');
+    }
+    this.recordings.set(name, utf8Decode(this.readEntry(path, entryPath)));
+  };
+
+  closeBackupFile = async (path: string): Promise<void> => {
+    this.closed.push(path);
+  };
+
+  private readEntries(path: string): ZipEntry[] {
+    try {
+      return readZip(this.requireFile(path));
+    } catch (error) {
+      throw error instanceof RangeError
+        ? nativeError('invalid_archive')
+        : error;
+    }
+  }
+
+  private readEntry(path: string, entryPath: string): Uint8Array {
+    const entry = this.readEntries(path).find(({name}) => name === entryPath);
+    if (!entry) {
+      throw nativeError('invalid_archive');
+    }
+    return entry.data;
+  }
+
+  private requireRecording(name: string) {
+    const content = this.recordings.get(name);
+    if (content === undefined) {
+      throw nativeError('file_not_found');
+    }
+    return content;
+  }
+
+  private requireFile(path: string) {
+    const contents = this.files.get(path);
+    if (contents === undefined) {
+      throw nativeError('file_not_found');
+    }
+    return contents;
+  }
+}
@@ -0,0 +1,54 @@
+import {utf8Encode} from '../../services/evidence/sha256';
+import type {ArchiveEntry, ExportBackend} from '../../services/export';
+import {createZip} from './zip';
+
+const nativeError = (code: string) => Object.assign(new Error(code), {code});
+
+/**
+ * Jest 用。録音の中身は文字列で持ち、書き出した ZIP はメモリに残す。
+ */
+export class FakeExportBackend implements ExportBackend {
+  readonly recordings = new Map<string, string>();
+  readonly exports = new Map<string, Uint8Array>();
+  // 文字起こしなど録音の隣に置くテキスト
+  readonly texts = new Map<string, string>();
+  shared: string[][] = [];
+
+  constructor(recordings: Record<string, string> = {}) {
+    Object.entries(recordings).forEach(([name, content]) =>
+      this.recordings.set(name, content),
+    );
+  }
+
+  readTextFile = async (name: string): Promise<string | null> =>
+    this.texts.get(name) ?? null;
+
+  writeArchive = async (
+    name: string,
+    entries: ArchiveEntry[],
+  ): Promise<string> => {
+    const files = entries.map(entry => {
+      const content =
+        'file' in entry ? this.recordings.get(entry.file) : entry.text;
+      if (content === undefined) {
+        throw nativeError('file_not_found');
+      }
+      return {
+        name: entry.path,
+        data: utf8Encode(content),
+        modifiedAt: entry.modifiedAt ? new Date(entry.modifiedAt) : undefined,
+      };
+    });
+    const path = `/fake/tmp/exports/${name}`;
+    this.exports.set(path, createZip(files));
+    return path;
+  };
+
+  shareFiles = async (
+    names: string[],
+    extraPaths: string[],
+  ): Promise<boolean> => {
+    this.shared.push([...names, ...extraPaths]);
+    return true;
+  };
+}
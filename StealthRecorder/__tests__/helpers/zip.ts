@@ -0,0 +1,204 @@
+/* eslint-disable no-bitwise */
+import {utf8Decode, utf8Encode} from '../../services/evidence/sha256';
+
+// 無圧縮（STORED）の ZIP を組み立てる・読み込む。
+// アプリの ZIP はネイティブ（ZipArchive.swift）が録音を読みながら書く。これはテストのフェイクが同じ配置の ZIP を作り、中身を確かめるためのもの
+
+export type ZipEntry = {
+  name: string;
+  data: Uint8Array;
+  modifiedAt?: Date;
+};
+
+// ZIP64 には対応しない
+const MAX_SIZE = 0xffffffff;
+// 汎用フラグ bit 11: ファイル名が UTF-8
+const UTF8_FLAG = 0x0800;
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+export const crc32 = (data: Uint8Array): number => {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+const dosTime = (date: Date) =>
+  (date.getHours() << 11) |
+  (date.getMinutes() << 5) |
+  Math.floor(date.getSeconds() / 2);
+
+const dosDate = (date: Date) =>
+  ((Math.max(date.getFullYear(), 1980) - 1980) << 9) |
+  ((date.getMonth() + 1) << 5) |
+  date.getDate();
+
+class ByteWriter {
+  private chunks: Uint8Array[] = [];
+  length = 0;
+
+  uint16(value: number) {
+    this.bytes(new Uint8Array([value & 0xff, (value >>> 8) & 0xff]));
+  }
+
+  uint32(value: number) {
+    this.bytes(
+      new Uint8Array([
+        value & 0xff,
+        (value >>> 8) & 0xff,
+        (value >>> 16) & 0xff,
+        (value >>> 24) & 0xff,
+      ]),
+    );
+  }
+
+  bytes(data: Uint8Array) {
+    this.chunks.push(data);
+    this.length += data.length;
+  }
+
+  toBytes(): Uint8Array {
+    const result = new Uint8Array(this.length);
+    let offset = 0;
+    this.chunks.forEach(chunk => {
+      result.set(chunk, offset);
+      offset += chunk.length;
+    });
+    return result;
+  }
+}
+
+export const createZip = (
+  entries: ZipEntry[],
+  now = new Date(),
+): Uint8Array => {
+  const body = new ByteWriter();
+  const directory = new ByteWriter();
+
+  entries.forEach(entry => {
+    const name = utf8Encode(entry.name);
+    const crc = crc32(entry.data);
+    const size = entry.data.length;
+    const modified = entry.modifiedAt ?? now;
+    const offset = body.length;
+    if (size > MAX_SIZE || offset > MAX_SIZE) {
+      throw new RangeError('zip_too_large');
+    }
+
+    // ローカルファイルヘッダ
+    body.uint32(0x04034b50);
+    body.uint16(20);
+    body.uint16(UTF8_FLAG);
+    body.uint16(0);
+    body.uint16(dosTime(modified));
+    body.uint16(dosDate(modified));
+    body.uint32(crc);
+    body.uint32(size);
+    body.uint32(size);
+    body.uint16(name.length);
+    body.uint16(0);
+    body.bytes(name);
+    body.bytes(entry.data);
+
+    // セントラルディレクトリ
+    directory.uint32(0x02014b50);
+    directory.uint16(20);
+    directory.uint16(20);
+    directory.uint16(UTF8_FLAG);
+    directory.uint16(0);
+    directory.uint16(dosTime(modified));
+    directory.uint16(dosDate(modified));
+    directory.uint32(crc);
+    directory.uint32(size);
+    directory.uint32(size);
+    directory.uint16(name.length);
+    directory.uint16(0);
+    directory.uint16(0);
+    directory.uint16(0);
+    directory.uint16(0);
+    directory.uint32(0);
+    directory.uint32(offset);
+    directory.bytes(name);
+  });
+
+  const directoryOffset = body.length;
+  body.bytes(directory.toBytes());
+  // セントラルディレクトリの終端
+  body.uint32(0x06054b50);
+  body.uint16(0);
+  body.uint16(0);
+  body.uint16(entries.length);
+  body.uint16(entries.length);
+  body.uint32(directory.length);
+  body.uint32(directoryOffset);
+  body.uint16(0);
+  return body.toBytes();
+};
+
+/**
+ * createZip で作った ZIP（無圧縮）を読み込む。
+ * セントラルディレクトリをたどり、CRC が合わないエントリや圧縮されたエントリがあれば RangeError。
+ */
+export const readZip = (bytes: Uint8Array): ZipEntry[] => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const uint16 = (offset: number) => view.getUint16(offset, true);
+  const uint32 = (offset: number) => view.getUint32(offset, true);
+
+  // 終端レコードは末尾から探す（コメントは付けていないが念のため）
+  let end = bytes.length - 22;
+  while (end >= 0 && uint32(end) !== 0x06054b50) {
+    end--;
+  }
+  if (end < 0) {
+    throw new RangeError('zip_invalid');
+  }
+  const count = uint16(end + 10);
+  let offset = uint32(end + 16);
+
+  const entries: ZipEntry[] = [];
+  for (let i = 0; i < count; i++) {
+    if (offset + 46 > bytes.length || uint32(offset) !== 0x02014b50) {
+      throw new RangeError('zip_invalid');
+    }
+    const method = uint16(offset + 10);
+    const crc = uint32(offset + 16);
+    const size = uint32(offset + 20);
+    const nameLength = uint16(offset + 28);
+    const extraLength = uint16(offset + 30);
+    const commentLength = uint16(offset + 32);
+    const localOffset = uint32(offset + 42);
+    const name = utf8Decode(
+      bytes.subarray(offset + 46, offset + 46 + nameLength),
+    );
+    if (method !== 0 || uint32(offset + 24) !== size) {
+      throw new RangeError('zip_unsupported');
+    }
+    if (localOffset + 30 > bytes.length || uint32(localOffset) !== 0x04034b50) {
+      throw new RangeError('zip_invalid');
+    }
+    const start =
+      localOffset + 30 + uint16(localOffset + 26) + uint16(localOffset + 28);
+    if (start + size > bytes.length) {
+      throw new RangeError('zip_invalid');
+    }
+    const data = bytes.subarray(start, start + size);
+    if (crc32(data) !== crc) {
+      throw new RangeError('zip_invalid');
+    }
+    entries.push({name, data});
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+  return entries;
+};
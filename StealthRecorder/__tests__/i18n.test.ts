@@ -0,0 +1,162 @@
+import {beforeEach, describe, expect, it} from '@jest/globals';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  CATALOGS,
+  DEFAULT_LOCALE,
+  I18n,
+  Locale,
+  MessageKey,
+  SUPPORTED_LOCALES,
+  formatFileSize,
+  loadLocalePreference,
+  libraryErrorMessage,
+  placeholdersOf,
+  protectionErrorMessage,
+  recorderErrorMessage,
+  resolveLocale,
+  translate,
+} from '../services/i18n';
+import {toLibraryError} from '../services/library';
+import {ProtectionError} from '../services/protection';
+import {RecorderError} from '../services/recorder';
+
+beforeEach(async () => {
+  await AsyncStorage.clear();
+});
+
+const reference = CATALOGS[DEFAULT_LOCALE];
+const referenceKeys = Object.keys(reference).sort();
+const otherLocales = SUPPORTED_LOCALES.filter(
+  locale => locale !== DEFAULT_LOCALE,
+);
+
+describe('catalogs', () => {
+  it.each(otherLocales)('%s has exactly the same keys as ja', locale => {
+    const keys = Object.keys(CATALOGS[locale]).sort();
+
+    expect(referenceKeys.filter(key => !keys.includes(key))).toEqual([]);
+    expect(keys.filter(key => !referenceKeys.includes(key))).toEqual([]);
+  });
+
+  it.each(otherLocales)('%s uses the same placeholders as ja', locale => {
+    const catalog = CATALOGS[locale];
+    const mismatched = (referenceKeys as MessageKey[]).filter(
+      key =>
+        placeholdersOf(catalog[key] ?? '').join() !==
+        placeholdersOf(reference[key]).join(),
+    );
+
+    expect(mismatched).toEqual([]);
+  });
+
+  it.each(SUPPORTED_LOCALES)('%s has no empty messages', locale => {
+    const empty = Object.entries(CATALOGS[locale])
+      .filter(([, message]) => message.trim() === '')
+      .map(([key]) => key);
+
+    expect(empty).toEqual([]);
+  });
+});
+
+describe('translate', () => {
+  it('fills in placeholders and leaves unknown ones as they are', () => {
+    expect(translate('en', 'app.guide.progress', {done: 2, total: 6})).toBe(
+      'Setup 2 / 6',
+    );
+    expect(translate('ja', 'app.guide.progress', {done: 2})).toBe(
+      'はじめの設定 2 / {total}',
+    );
+  });
+
+  it('falls back to Japanese, then to the key', () => {
+    const en = CATALOGS.en as Partial<Record<MessageKey, string>>;
+    const saved = en['common.close'];
+    delete en['common.close'];
+    try {
+      expect(translate('en', 'common.close')).toBe('閉じる');
+      expect(translate('en', 'no.such.key' as MessageKey)).toBe('no.such.key');
+    } finally {
+      en['common.close'] = saved;
+    }
+  });
+
+  it('shows errors from the catalog instead of the native message', () => {
+    const t = (key: MessageKey, params?: Record<string, string | number>) =>
+      translate('en', key, params);
+
+    expect(recorderErrorMessage(t, new RecorderError('list_failed'))).toBe(
+      'Could not load the recordings.',
+    );
+    expect(
+      recorderErrorMessage(
+        t,
+        new RecorderError('start_failed', '録音していません'),
+      ),
+    ).toBe('Could not start recording.');
+    expect(
+      libraryErrorMessage(
+        t,
+        toLibraryError({
+          code: 'recording_in_progress',
+          message: '録音中のファイルは削除できません',
+        }),
+      ),
+    ).toBe('This file cannot be changed while it is being recorded.');
+    expect(
+      protectionErrorMessage(
+        t,
+        new ProtectionError('too_many_attempts', {seconds: 30}),
+      ),
+    ).toBe('Too many incorrect passcodes. Try again in 30 seconds.');
+  });
+});
+
+describe('locale', () => {
+  it.each([
+    ['ja-JP', 'ja'],
+    ['ja_JP', 'ja'],
+    ['ja', 'ja'],
+    ['en-US', 'en'],
+    ['fr-FR', 'en'],
+    ['zh-Hans-JP', 'en'],
+    [null, 'ja'],
+  ])('resolves %s to %s', (tag, locale) => {
+    expect(resolveLocale(tag)).toBe(locale);
+  });
+
+  it('follows the device until a language is chosen in the app', async () => {
+    const i18n = new I18n(() => 'en');
+    const locales: Locale[] = [];
+    i18n.subscribe(snapshot => locales.push(snapshot.locale));
+
+    await i18n.load();
+    expect(i18n.getSnapshot()).toEqual({preference: 'system', locale: 'en'});
+    expect(i18n.t('common.close')).toBe('Close');
+
+    await i18n.setPreference('ja');
+    expect(i18n.t('common.close')).toBe('閉じる');
+    expect(locales).toEqual(['en', 'ja']);
+
+    // 次に起動したときも選んだ言語のまま
+    const restarted = new I18n(() => 'en');
+    await restarted.load();
+    expect(restarted.getSnapshot()).toEqual({preference: 'ja', locale: 'ja'});
+
+    await restarted.setPreference('system');
+    expect(restarted.locale).toBe('en');
+  });
+
+  it('ignores a saved value it does not know', async () => {
+    await AsyncStorage.setItem('twotaprecorder:locale', 'fr');
+
+    await expect(loadLocalePreference()).resolves.toBe('system');
+  });
+});
+
+describe('formatFileSize', () => {
+  it('formats kilobytes and megabytes with digit grouping', () => {
+    expect(formatFileSize(2048, 'en')).toBe('2 KB');
+    expect(formatFileSize(1536 * 1024, 'ja')).toBe('1.5 MB');
+    expect(formatFileSize(1234.5 * 1024 * 1024, 'en')).toBe('1,234.5 MB');
+  });
+});
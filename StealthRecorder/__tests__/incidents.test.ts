@@ -0,0 +1,67 @@
+import {beforeEach, describe, expect, it} from '@jest/globals';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  buildTimeline,
+  createIncident,
+  deleteIncident,
+  loadIncidents,
+  saveIncident,
+  updateRecordingLinks,
+} from '../services/incidents';
+
+const RECORDING = 'recording-20240305_083015.m4a';
+
+beforeEach(async () => {
+  await AsyncStorage.clear();
+});
+
+describe('incident store', () => {
+  it('saves, updates and deletes incidents', async () => {
+    const incident = createIncident(new Date(2024, 2, 5, 8, 20));
+    await saveIncident({...incident, location: '新宿駅'});
+    await saveIncident({...incident, location: '新宿駅 駅員室'});
+
+    const [stored] = await loadIncidents();
+    expect(stored.location).toBe('新宿駅 駅員室');
+
+    await deleteIncident(incident.id);
+    await expect(loadIncidents()).resolves.toEqual([]);
+  });
+
+  it('follows renamed and deleted recordings', async () => {
+    const incident = createIncident(new Date(), [RECORDING, 'other.m4a']);
+    await saveIncident(incident);
+
+    await updateRecordingLinks(RECORDING, '新宿駅.m4a');
+    await updateRecordingLinks('other.m4a', null);
+
+    const [stored] = await loadIncidents();
+    expect(stored.recordingNames).toEqual(['新宿駅.m4a']);
+  });
+});
+
+describe('buildTimeline', () => {
+  it('interleaves events with linked recordings by time', () => {
+    const incident = {
+      ...createIncident(new Date(2024, 2, 5, 8, 0), [RECORDING]),
+      timeline: [
+        {
+          id: 'b',
+          time: new Date(2024, 2, 5, 8, 45).toISOString(),
+          description: '警察官が到着',
+        },
+        {
+          id: 'a',
+          time: new Date(2024, 2, 5, 8, 25).toISOString(),
+          description: '駅員に呼び止められた',
+        },
+      ],
+    };
+
+    expect(
+      buildTimeline(incident, []).map(item =>
+        item.kind === 'event' ? item.event.description : item.fileName,
+      ),
+    ).toEqual(['駅員に呼び止められた', RECORDING, '警察官が到着']);
+  });
+});
@@ -0,0 +1,110 @@
+import {beforeEach, describe, expect, it} from '@jest/globals';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {EMPTY_METADATA, loadMetadata, saveMetadata} from '../services/library';
+import {
+  GeoFix,
+  LocationBackend,
+  LocationCapture,
+  formatGeoFix,
+  loadLocationCapture,
+  saveLocationCapture,
+} from '../services/location';
+
+const NAME = 'recording-20240305_083015.m4a';
+
+const fix = (latitude: number, capturedAt: string): GeoFix => ({
+  latitude,
+  longitude: 139.7006,
+  accuracy: 12.4,
+  capturedAt,
+});
+
+const START = fix(35.6896, '2024-03-04T23:30:15.000Z');
+const STOP = fix(35.6909, '2024-03-04T23:45:00.000Z');
+
+// 呼ばれた順に fixes を返す。null は測位の失敗
+const createBackend = (fixes: (GeoFix | null)[], granted = true) => {
+  const backend: LocationBackend = {
+    requestLocationPermission: async () => granted,
+    getCurrentLocation: async () => {
+      const next = fixes.shift();
+      if (!next) {
+        throw new Error('location_unavailable');
+      }
+      return next;
+    },
+  };
+  return backend;
+};
+
+const metadataOf = async (fileName: string) =>
+  (await loadMetadata([fileName]))[fileName];
+
+beforeEach(async () => {
+  await AsyncStorage.clear();
+});
+
+describe('location settings', () => {
+  it('is off until turned on', async () => {
+    await expect(loadLocationCapture()).resolves.toBe(false);
+    await saveLocationCapture(true);
+    await expect(loadLocationCapture()).resolves.toBe(true);
+  });
+});
+
+describe('LocationCapture', () => {
+  it('keeps the start and stop fixes with the existing metadata', async () => {
+    await saveMetadata(NAME, {...EMPTY_METADATA, tags: ['通勤']});
+    const capture = new LocationCapture(
+      createBackend([START, STOP]),
+      async () => true,
+    );
+
+    capture.captureStart(NAME);
+    const location = await capture.captureStop(NAME);
+
+    expect(location).toEqual({start: START, stop: STOP});
+    await expect(metadataOf(NAME)).resolves.toEqual({
+      title: '',
+      tags: ['通勤'],
+      location: {start: START, stop: STOP},
+    });
+  });
+
+  it('keeps recording data when a fix cannot be taken', async () => {
+    const capture = new LocationCapture(
+      createBackend([START, null]),
+      async () => true,
+    );
+
+    await capture.captureStart(NAME);
+    await expect(capture.captureStop(NAME)).resolves.toEqual({start: START});
+    await expect(capture.currentFix()).resolves.toBeNull();
+  });
+
+  it('captures nothing while the setting is off', async () => {
+    const capture = new LocationCapture(
+      createBackend([START, STOP]),
+      async () => false,
+    );
+
+    await capture.captureStart(NAME);
+    await expect(capture.captureStop(NAME)).resolves.toBeNull();
+    await expect(metadataOf(NAME)).resolves.toEqual(EMPTY_METADATA);
+  });
+
+  it('reports the permission and does nothing without a native module', async () => {
+    await expect(
+      new LocationCapture(createBackend([], false)).requestPermission(),
+    ).resolves.toBe(false);
+
+    const capture = new LocationCapture(null, async () => true);
+    expect(capture.isAvailable).toBe(false);
+    await expect(capture.requestPermission()).resolves.toBe(false);
+    await expect(capture.captureStop(NAME)).resolves.toBeNull();
+  });
+
+  it('formats coordinates with their accuracy', () => {
+    expect(formatGeoFix(START)).toBe('35.68960, 139.70060（±12 m）');
+  });
+});
@@ -0,0 +1,164 @@
+import {beforeEach, describe, expect, it} from '@jest/globals';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  addMarker,
+  formatMarkersText,
+  importPendingMarkers,
+  loadMarkers,
+  markersFileName,
+  moveMarkers,
+  removeMarker,
+} from '../services/markers';
+import {FakeRecorderBackend, RecorderService} from '../services/recorder';
+import {Translate, translate} from '../services/i18n';
+
+const NAME = 'recording-20240305_083015.m4a';
+const ja: Translate = (key, params) => translate('ja', key, params);
+
+beforeEach(async () => {
+  await AsyncStorage.clear();
+});
+
+describe('marker store', () => {
+  it('keeps markers ordered by elapsed time', async () => {
+    await addMarker({
+      fileName: NAME,
+      offsetSeconds: 222,
+      label: '警察官に警察手帳の提示を求めた',
+      source: 'checklist',
+      stepId: 'police-handbook',
+    });
+    const first = await addMarker({
+      fileName: NAME,
+      offsetSeconds: 30,
+      label: '身分証明書と住所を提示し、逮捕できない点を確認した',
+      source: 'checklist',
+      stepId: 'show-id',
+    });
+
+    const markers = await loadMarkers(NAME);
+    expect(markers.map(marker => marker.offsetSeconds)).toEqual([30, 222]);
+
+    await removeMarker(NAME, first.id);
+    await expect(loadMarkers(NAME)).resolves.toHaveLength(1);
+  });
+
+  it('keeps every marker added at the same time', async () => {
+    await Promise.all(
+      [3, 1, 2].map(offsetSeconds =>
+        addMarker({
+          fileName: NAME,
+          offsetSeconds,
+          label: `${offsetSeconds}`,
+          source: 'bookmark',
+        }),
+      ),
+    );
+
+    const markers = await loadMarkers(NAME);
+    expect(markers.map(marker => marker.offsetSeconds)).toEqual([1, 2, 3]);
+  });
+
+  it('moves markers to a renamed file', async () => {
+    await addMarker({
+      fileName: NAME,
+      offsetSeconds: 5,
+      label: 'test',
+      source: 'checklist',
+    });
+
+    await moveMarkers(NAME, 'renamed.m4a');
+
+    await expect(loadMarkers(NAME)).resolves.toEqual([]);
+    const [moved] = await loadMarkers('renamed.m4a');
+    expect(moved.fileName).toBe('renamed.m4a');
+  });
+
+  it('keeps markers added to the new name while moving', async () => {
+    await addMarker({
+      fileName: NAME,
+      offsetSeconds: 5,
+      label: 'moved',
+      source: 'bookmark',
+    });
+
+    await Promise.all([
+      moveMarkers(NAME, 'renamed.m4a'),
+      addMarker({
+        fileName: 'renamed.m4a',
+        offsetSeconds: 9,
+        label: 'added',
+        source: 'bookmark',
+      }),
+    ]);
+
+    const markers = await loadMarkers('renamed.m4a');
+    expect(markers.map(marker => marker.label)).toEqual(['moved', 'added']);
+  });
+});
+
+describe('formatMarkersText', () => {
+  it('lists markers with their elapsed time and origin', async () => {
+    const marker = await addMarker({
+      fileName: NAME,
+      offsetSeconds: 3725,
+      label: '駅員を呼んだ',
+      source: 'shortcut',
+    });
+
+    expect(markersFileName(NAME)).toBe('recording-20240305_083015.markers.txt');
+    expect(formatMarkersText(ja, NAME, [marker])).toBe(
+      `${NAME} のマーカー\n\n01:02:05\t駅員を呼んだ\t(ショートカット)\n`,
+    );
+  });
+});
+
+describe('shortcut markers', () => {
+  it('imports markers queued by the mark deep link once', async () => {
+    let now = new Date(2024, 2, 5, 8, 30, 15);
+    const backend = new FakeRecorderBackend({now: () => now});
+    const service = new RecorderService(backend);
+    await service.start();
+    now = new Date(2024, 2, 5, 8, 30, 45);
+    backend.simulateMark('');
+    now = new Date(2024, 2, 5, 8, 31, 15);
+    backend.simulateMark('口論');
+
+    await importPendingMarkers(
+      await service.consumePendingMarkers(),
+      'ブックマーク',
+    );
+
+    const markers = await loadMarkers(NAME);
+    expect(
+      markers.map(({offsetSeconds, label, source}) => ({
+        offsetSeconds,
+        label,
+        source,
+      })),
+    ).toEqual([
+      {offsetSeconds: 30, label: 'ブックマーク', source: 'shortcut'},
+      {offsetSeconds: 60, label: '口論', source: 'shortcut'},
+    ]);
+    expect(markers[1].createdAt).toBe(now.toISOString());
+    await expect(service.consumePendingMarkers()).resolves.toEqual([]);
+  });
+});
+
+describe('RecorderService.currentPosition', () => {
+  it('reports the elapsed seconds of the active recording', async () => {
+    let now = new Date(2024, 2, 5, 8, 30, 15);
+    const service = new RecorderService(
+      new FakeRecorderBackend({now: () => now}),
+    );
+    await expect(service.currentPosition()).resolves.toBeNull();
+
+    await service.start();
+    now = new Date(2024, 2, 5, 8, 33, 57);
+
+    await expect(service.currentPosition()).resolves.toEqual({
+      fileName: NAME,
+      elapsed: 222,
+    });
+  });
+});
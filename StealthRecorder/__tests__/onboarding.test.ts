@@ -0,0 +1,200 @@
+import {beforeEach, describe, expect, it, jest} from '@jest/globals';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {EvidenceManifest, FakeEvidenceBackend} from '../services/evidence';
+import {
+  INITIAL_ONBOARDING_STATE,
+  SelfTest,
+  completeStep,
+  isOnboardingComplete,
+  loadOnboardingState,
+  markStepDone,
+  previousStep,
+  saveOnboardingState,
+} from '../services/onboarding';
+import type {DeepLinkCommand} from '../services/deepLinks';
+import {FakeRecorderBackend, RecorderService} from '../services/recorder';
+
+const START: DeepLinkCommand = {
+  type: 'start',
+  maxDurationSeconds: null,
+  tags: [],
+};
+
+const setup = (
+  options: {permissionGranted?: boolean; now?: () => Date} = {},
+) => {
+  let now = new Date(2024, 2, 5, 8, 30, 0);
+  const backend = new FakeRecorderBackend({
+    permissionGranted: options.permissionGranted,
+    now: options.now ?? (() => now),
+  });
+  const recorder = new RecorderService(backend, () => now);
+  const selfTest = new SelfTest(
+    recorder,
+    new EvidenceManifest(new FakeEvidenceBackend()),
+    {
+      recordSeconds: 3,
+      timeoutMs: 1000,
+      // テスト録音の間に時間を進める
+      wait: async ms => {
+        now = new Date(now.getTime() + ms);
+      },
+    },
+  );
+  return {backend, recorder, selfTest};
+};
+
+const statuses = (selfTest: SelfTest) =>
+  Object.fromEntries(
+    selfTest.getReport().steps.map(step => [step.id, step.status]),
+  );
+
+const fixOf = (selfTest: SelfTest, id: string) =>
+  selfTest.getReport().steps.find(step => step.id === id)?.fix;
+
+beforeEach(async () => {
+  await AsyncStorage.clear();
+});
+
+describe('onboarding progress', () => {
+  it('starts at the permission step and remembers completed steps', async () => {
+    await expect(loadOnboardingState()).resolves.toEqual(
+      INITIAL_ONBOARDING_STATE,
+    );
+
+    let state = completeStep(INITIAL_ONBOARDING_STATE, 'permission');
+    state = completeStep(state, 'shortcut');
+    state = completeStep(state, 'shortcuts-app');
+    expect(state).toEqual({
+      completed: ['permission', 'shortcuts-app', 'shortcut'],
+      current: 'shortcut',
+    });
+    expect(previousStep('shortcut')).toBe('shortcuts-app');
+    expect(previousStep('permission')).toBeNull();
+
+    await saveOnboardingState(state);
+    await expect(loadOnboardingState()).resolves.toEqual(state);
+  });
+
+  it('continues after the permission step for users of the old modal', async () => {
+    await AsyncStorage.setItem('twotaprecorder:hasAcceptedBackTap', 'accepted');
+    await expect(loadOnboardingState()).resolves.toEqual({
+      completed: ['permission'],
+      current: 'shortcuts-app',
+    });
+  });
+
+  it('is complete only when every step is done', () => {
+    const steps = [
+      'permission',
+      'shortcuts-app',
+      'shortcut',
+      'back-tap',
+      'self-test',
+    ] as const;
+    const almost = steps.reduce(markStepDone, INITIAL_ONBOARDING_STATE);
+    expect(isOnboardingComplete(almost)).toBe(false);
+    const done = completeStep(almost, 'files');
+    expect(isOnboardingComplete(done)).toBe(true);
+    expect(done.current).toBe('files');
+  });
+});
+
+describe('SelfTest', () => {
+  it('passes when the back tap opens a start link and a file is saved', async () => {
+    const {backend, recorder, selfTest} = setup();
+    expect(await selfTest.handleDeepLink(START)).toBe(false);
+
+    await selfTest.begin();
+    expect(selfTest.getReport().state).toBe('waiting');
+    expect(statuses(selfTest)).toMatchObject({
+      permission: 'passed',
+      'deep-link': 'running',
+    });
+
+    expect(
+      await selfTest.handleDeepLink({
+        type: 'toggle',
+        maxDurationSeconds: null,
+        tags: [],
+      }),
+    ).toBe(true);
+    expect(selfTest.getReport()).toMatchObject({
+      state: 'passed',
+      fileName: 'recording-20240305_083000.m4a',
+    });
+    expect(statuses(selfTest)).toEqual({
+      permission: 'passed',
+      'deep-link': 'passed',
+      recording: 'passed',
+      file: 'passed',
+    });
+    expect(backend.files[0].size).toBeGreaterThan(0);
+    expect(recorder.getSnapshot().state).toBe('saved');
+  });
+
+  it('explains how to allow the microphone when permission is denied', async () => {
+    const {selfTest} = setup({permissionGranted: false});
+    await selfTest.begin();
+
+    expect(selfTest.getReport().state).toBe('failed');
+    expect(fixOf(selfTest, 'permission')).toEqual({reason: 'permission'});
+    expect(await selfTest.handleDeepLink(START)).toBe(false);
+  });
+
+  it('points at the shortcut URL when a different link arrives', async () => {
+    const {backend, selfTest} = setup();
+    await selfTest.begin();
+
+    expect(await selfTest.handleDeepLink({type: 'stop'})).toBe(true);
+    expect(statuses(selfTest)['deep-link']).toBe('failed');
+    expect(fixOf(selfTest, 'deep-link')).toEqual({
+      reason: 'wrong-link',
+      action: 'stop',
+    });
+    expect(backend.files).toEqual([]);
+  });
+
+  it('points at the back tap settings when nothing arrives', async () => {
+    jest.useFakeTimers();
+    try {
+      const {selfTest} = setup();
+      await selfTest.begin();
+      jest.advanceTimersByTime(1000);
+
+      expect(selfTest.getReport().state).toBe('failed');
+      expect(fixOf(selfTest, 'deep-link')).toEqual({reason: 'timeout'});
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it('reports start failures and empty files with their own fixes', async () => {
+    const failing = setup();
+    await failing.selfTest.begin();
+    failing.backend.freeDiskSpace = 0;
+    await failing.selfTest.handleDeepLink(START);
+    expect(statuses(failing.selfTest).recording).toBe('failed');
+    expect(fixOf(failing.selfTest, 'recording')).toMatchObject({
+      reason: 'recorder',
+      error: {code: 'insufficient_storage'},
+    });
+
+    // 時間が進まない端末ではファイルが空になる
+    const frozen = new Date(2024, 2, 5, 8, 30, 0);
+    const empty = setup({now: () => frozen});
+    await empty.selfTest.begin();
+    await empty.selfTest.handleDeepLink(START);
+    expect(statuses(empty.selfTest).file).toBe('failed');
+    expect(fixOf(empty.selfTest, 'file')).toEqual({reason: 'empty'});
+  });
+
+  it('does not interrupt a recording in progress', async () => {
+    const {recorder, selfTest} = setup();
+    await recorder.start();
+    await selfTest.begin();
+
+    expect(selfTest.getReport().state).toBe('failed');
+    expect(fixOf(selfTest, 'recording')).toEqual({reason: 'busy'});
+  });
+});
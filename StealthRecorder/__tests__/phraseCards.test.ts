@@ -0,0 +1,94 @@
+import {beforeEach, describe, expect, it} from '@jest/globals';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {PHRASE_CARDS} from '../data/phraseCards';
+import {SAFETY_STEPS} from '../data/safetyChecklist';
+import {loadMarkers} from '../services/markers';
+import {
+  PhraseSpeaker,
+  PhraseSpeechBackend,
+  markPhraseCard,
+} from '../services/phrases';
+import {FakeRecorderBackend, RecorderService} from '../services/recorder';
+
+const NAME = 'recording-20240305_083015.m4a';
+
+const createSpeechBackend = () => {
+  const calls: string[] = [];
+  const backend: PhraseSpeechBackend = {
+    speakText: async (text, language) => {
+      calls.push(`speak ${language} ${text}`);
+    },
+    stopSpeaking: async () => {
+      calls.push('stop');
+    },
+  };
+  return {backend, calls};
+};
+
+beforeEach(async () => {
+  await AsyncStorage.clear();
+});
+
+describe('phrase cards', () => {
+  it('has one card with both languages for every checklist step', () => {
+    expect(PHRASE_CARDS.map(card => card.id)).toEqual(
+      SAFETY_STEPS.map(step => step.id),
+    );
+    for (const card of PHRASE_CARDS) {
+      expect(card.text.ja.trim()).not.toBe('');
+      expect(card.text.en.trim()).not.toBe('');
+    }
+  });
+});
+
+describe('PhraseSpeaker', () => {
+  it('stops the current speech and speaks with the voice of the language', async () => {
+    const {backend, calls} = createSpeechBackend();
+    const speaker = new PhraseSpeaker(backend);
+    const card = PHRASE_CARDS[3];
+
+    await speaker.speak(card, 'ja');
+    await speaker.speak(card, 'en');
+
+    expect(calls).toEqual([
+      'stop',
+      `speak ja-JP ${card.text.ja}`,
+      'stop',
+      `speak en-US ${card.text.en}`,
+    ]);
+  });
+
+  it('does nothing without a speech backend', async () => {
+    const speaker = new PhraseSpeaker(null);
+
+    expect(speaker.isAvailable).toBe(false);
+    await expect(speaker.speak(PHRASE_CARDS[0], 'ja')).resolves.toBeUndefined();
+    await expect(speaker.stop()).resolves.toBeUndefined();
+  });
+});
+
+describe('markPhraseCard', () => {
+  it('marks the card used at the current position of the recording', async () => {
+    let now = new Date(2024, 2, 5, 8, 30, 15);
+    const service = new RecorderService(
+      new FakeRecorderBackend({now: () => now}),
+    );
+    const card = PHRASE_CARDS[2];
+
+    await expect(markPhraseCard(service, card, 'label')).resolves.toBeNull();
+
+    await service.start();
+    now = new Date(2024, 2, 5, 8, 31, 0);
+    await markPhraseCard(service, card, 'フレーズカード: 警察手帳');
+
+    const markers = await loadMarkers(NAME);
+    expect(markers).toHaveLength(1);
+    expect(markers[0]).toMatchObject({
+      offsetSeconds: 45,
+      label: 'フレーズカード: 警察手帳',
+      source: 'phrase',
+      phraseId: 'police-handbook',
+    });
+    expect(markers[0].stepId).toBeUndefined();
+  });
+});
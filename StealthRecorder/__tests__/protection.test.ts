@@ -0,0 +1,231 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {beforeEach, describe, expect, it} from '@jest/globals';
+import {MANIFEST_FILE_NAME} from '../services/evidence';
+import {createIncident, saveIncident} from '../services/incidents';
+import {loadMetadata, patchMetadata, saveMetadata} from '../services/library';
+import {addMarker, loadMarkers} from '../services/markers';
+import {
+  FakeProtectionBackend,
+  ProtectionError,
+  ProtectionService,
+  lockoutSeconds,
+  setProtectedStorageBackend,
+  validatePasscode,
+} from '../services/protection';
+
+const NAMES = [
+  'recording-20240301_080000.m4a',
+  'recording-20240301_080000.m4a.transcript.json',
+  'recording-20240302_090000.m4a',
+];
+const PASSCODE = '246810';
+const REASON = '録音ファイルのロックを解除します';
+
+const setup = () => {
+  let now = new Date('2024-03-05T09:00:00.000Z');
+  const backend = new FakeProtectionBackend(NAMES);
+  const service = new ProtectionService(backend, () => now);
+  const advance = (seconds: number) => {
+    now = new Date(now.getTime() + seconds * 1000);
+  };
+  return {backend, service, advance};
+};
+
+const codeOf = async (promise: Promise<unknown>) => {
+  try {
+    await promise;
+  } catch (error) {
+    expect(error).toBeInstanceOf(ProtectionError);
+    return (error as ProtectionError).code;
+  }
+  return null;
+};
+
+const storedText = async () =>
+  JSON.stringify(await AsyncStorage.multiGet(await AsyncStorage.getAllKeys()));
+
+beforeEach(async () => {
+  await AsyncStorage.clear();
+  setProtectedStorageBackend(undefined);
+});
+
+describe('passcode rules', () => {
+  it('accepts 6 to 12 digits', () => {
+    expect(() => validatePasscode('123456')).not.toThrow();
+    expect(() => validatePasscode('123456789012')).not.toThrow();
+    expect(() => validatePasscode('12345')).toThrow(ProtectionError);
+    expect(() => validatePasscode('12345a')).toThrow(ProtectionError);
+  });
+
+  it('doubles the wait after the free attempts, up to an hour', () => {
+    const now = new Date('2024-03-05T09:00:00.000Z');
+    const at = (failures: number) =>
+      lockoutSeconds({failures, lastFailedAt: now.toISOString()}, now);
+
+    expect(at(4)).toBe(0);
+    expect(at(5)).toBe(30);
+    expect(at(6)).toBe(60);
+    expect(at(20)).toBe(3600);
+    expect(
+      lockoutSeconds(
+        {failures: 5, lastFailedAt: now.toISOString()},
+        new Date(now.getTime() + 20_000),
+      ),
+    ).toBe(10);
+  });
+});
+
+describe('ProtectionService', () => {
+  it('encrypts existing recordings and their transcripts when enabled', async () => {
+    const {backend, service} = setup();
+    const statuses: boolean[] = [];
+    service.subscribe(status => statuses.push(status.enabled));
+
+    expect(await codeOf(service.enable(PASSCODE, '000000', false, NAMES))).toBe(
+      'passcode_mismatch',
+    );
+    const count = await service.enable(PASSCODE, PASSCODE, false, [
+      'recording-20240301_080000.m4a',
+      'recording-20240302_090000.m4a',
+    ]);
+
+    expect(count).toBe(2);
+    expect([...backend.encrypted].sort()).toEqual([...NAMES].sort());
+    expect(service.getStatus()).toMatchObject({enabled: true, unlocked: true});
+    expect(statuses).toEqual([true]);
+  });
+
+  it('locks, rejects wrong passcodes and backs off after repeated failures', async () => {
+    const {service, advance} = setup();
+    await service.enable(PASSCODE, PASSCODE, false, []);
+    await service.lock();
+    expect(service.isLocked).toBe(true);
+
+    for (let i = 0; i < 5; i++) {
+      expect(await codeOf(service.unlock('111111'))).toBe('wrong_passcode');
+    }
+    await expect(service.unlock(PASSCODE)).rejects.toMatchObject({
+      code: 'too_many_attempts',
+      params: {seconds: 30},
+    });
+
+    advance(30);
+    await service.unlock(PASSCODE);
+    expect(service.isLocked).toBe(false);
+
+    // 成功すると失敗回数は数え直す
+    await service.lock();
+    expect(await codeOf(service.unlock('111111'))).toBe('wrong_passcode');
+    await service.unlock(PASSCODE);
+  });
+
+  it('unlocks with biometrics only when enabled', async () => {
+    const {service} = setup();
+    await service.enable(PASSCODE, PASSCODE, false, []);
+    await service.lock();
+
+    expect(await codeOf(service.unlockWithBiometrics(REASON))).toBe(
+      'biometrics_failed',
+    );
+    expect(await codeOf(service.setBiometrics(true))).toBe('locked');
+
+    await service.unlock(PASSCODE);
+    await service.setBiometrics(true);
+    await service.lock();
+    await service.unlockWithBiometrics(REASON);
+    expect(service.getStatus()).toMatchObject({
+      unlocked: true,
+      biometricsEnabled: true,
+    });
+  });
+
+  it('leaves the file being recorded until it is saved', async () => {
+    const {backend, service} = setup();
+    expect(await service.protectFile(NAMES[0])).toBe(false);
+
+    await service.enable(PASSCODE, PASSCODE, false, []);
+    backend.recordingFileName = NAMES[2];
+    expect(await service.protectFiles([NAMES[0], NAMES[2]])).toBe(1);
+    expect(backend.encrypted.has(NAMES[2])).toBe(false);
+
+    backend.recordingFileName = null;
+    expect(await service.protectFile(NAMES[2])).toBe(true);
+  });
+
+  it('changes the passcode and decrypts everything when disabled', async () => {
+    const {backend, service} = setup();
+    await service.enable(PASSCODE, PASSCODE, false, [NAMES[0]]);
+
+    expect(
+      await codeOf(service.changePasscode(PASSCODE, '13579', '13579')),
+    ).toBe('invalid_passcode');
+    await service.changePasscode(PASSCODE, '1357924', '1357924');
+    expect(await codeOf(service.disable(PASSCODE))).toBe('wrong_passcode');
+
+    await service.disable('1357924');
+    expect(backend.encrypted.size).toBe(0);
+    expect(service.getStatus().enabled).toBe(false);
+  });
+
+  it('encrypts titles, markers, incidents and the evidence log', async () => {
+    const {backend, service} = setup();
+    backend.files.add(MANIFEST_FILE_NAME);
+    setProtectedStorageBackend(backend);
+    await saveMetadata(NAMES[0], {title: '山手線', tags: ['通勤']});
+    await saveIncident({
+      ...createIncident(new Date('2024-03-01T08:00:00.000Z')),
+      title: '車内での出来事',
+    });
+
+    await service.enable(PASSCODE, PASSCODE, false, []);
+    expect(backend.encrypted.has(MANIFEST_FILE_NAME)).toBe(true);
+    expect(await storedText()).not.toMatch(/山手線|車内での出来事/);
+
+    // ロック中の録音でも、保存済みの値を読まずにマーカーと場所を足せる
+    await service.lock();
+    await addMarker({
+      fileName: NAMES[2],
+      offsetSeconds: 30,
+      label: '降車',
+      source: 'bookmark',
+    });
+    await patchMetadata(NAMES[2], {place: '新宿駅'});
+    expect(await storedText()).not.toMatch(/降車|新宿駅/);
+    expect(await codeOf(loadMarkers(NAMES[2]))).toBe('locked');
+
+    await service.unlock(PASSCODE);
+    await addMarker({
+      fileName: NAMES[2],
+      offsetSeconds: 10,
+      label: '乗車',
+      source: 'bookmark',
+    });
+    expect((await loadMarkers(NAMES[2])).map(marker => marker.label)).toEqual([
+      '乗車',
+      '降車',
+    ]);
+    expect(await loadMetadata([NAMES[0], NAMES[2]])).toMatchObject({
+      [NAMES[0]]: {title: '山手線', tags: ['通勤']},
+      [NAMES[2]]: {title: '', place: '新宿駅'},
+    });
+
+    await service.disable(PASSCODE);
+    expect(await storedText()).toMatch(/山手線/);
+    expect(await storedText()).toMatch(/降車/);
+    expect((await loadMarkers(NAMES[2])).map(marker => marker.label)).toEqual([
+      '乗車',
+      '降車',
+    ]);
+  });
+
+  it('reports unavailable without the native module', async () => {
+    const service = new ProtectionService(null);
+
+    expect(service.isAvailable).toBe(false);
+    expect(await service.refresh()).toMatchObject({enabled: false});
+    expect(await service.protectFile(NAMES[0])).toBe(false);
+    expect(await codeOf(service.enable(PASSCODE, PASSCODE, false, []))).toBe(
+      'unavailable',
+    );
+  });
+});
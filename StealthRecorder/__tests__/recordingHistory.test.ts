@@ -0,0 +1,123 @@
+import {describe, expect, it} from '@jest/globals';
+import {
+  FakeLibraryBackend,
+  LibraryItem,
+  RecordingLibrary,
+  buildRecordingHistory,
+  calendarWeeks,
+} from '../services/library';
+import {EvidenceManifest, FakeEvidenceBackend} from '../services/evidence';
+
+const item = (name: string, size = 1000, title = ''): LibraryItem => ({
+  name,
+  path: `/fake/Documents/${name}`,
+  size,
+  date: '2024-01-01T00:00:00.000Z',
+  metadata: {title, tags: []},
+});
+
+describe('buildRecordingHistory', () => {
+  it('summarises totals, the longest session and months', () => {
+    const history = buildRecordingHistory(
+      [
+        item('recording-20240402_090000.m4a', 500, '面談'),
+        item('recording-20240315_180000-part01.m4a', 2000, '山手線'),
+        item('recording-20240315_180000-part02.m4a', 1000),
+        item('recording-20240301_080000.m4a', 300),
+      ],
+      {
+        'recording-20240402_090000.m4a': 600,
+        'recording-20240315_180000-part01.m4a': 1800,
+        'recording-20240315_180000-part02.m4a': 900,
+        'recording-20240301_080000.m4a': 120,
+      },
+    );
+
+    expect(history).toMatchObject({
+      count: 3,
+      totalSeconds: 3420,
+      totalBytes: 3800,
+      longest: {
+        title: '山手線',
+        fileName: 'recording-20240315_180000-part01.m4a',
+        fileCount: 2,
+        durationSeconds: 2700,
+        size: 3000,
+      },
+    });
+    expect(
+      history.months.map(({key, totalSeconds, recordings}) => [
+        key,
+        totalSeconds,
+        recordings.map(recording => recording.key),
+      ]),
+    ).toEqual([
+      ['2024-04', 600, ['recording-20240402_090000']],
+      [
+        '2024-03',
+        2820,
+        ['recording-20240315_180000', 'recording-20240301_080000'],
+      ],
+    ]);
+  });
+
+  it('counts files without a readable duration as zero seconds', () => {
+    const history = buildRecordingHistory(
+      [item('recording-20240301_080000.m4a'), item('メモ.m4a')],
+      {'recording-20240301_080000.m4a': 60},
+    );
+
+    expect(history.totalSeconds).toBe(60);
+    expect(history.longest?.fileName).toBe('recording-20240301_080000.m4a');
+    // ファイル名から日時が読めなければ作成日時で分類する
+    expect(history.months).toHaveLength(2);
+  });
+
+  it('is empty without recordings', () => {
+    expect(buildRecordingHistory([], {})).toEqual({
+      count: 0,
+      totalSeconds: 0,
+      totalBytes: 0,
+      longest: null,
+      months: [],
+    });
+  });
+});
+
+describe('calendarWeeks', () => {
+  it('lays out a month starting on Sunday', () => {
+    // 2024年3月1日は金曜日
+    const weeks = calendarWeeks(2024, 3);
+
+    expect(weeks).toHaveLength(6);
+    expect(weeks[0]).toEqual([null, null, null, null, null, 1, 2]);
+    expect(weeks[4]).toEqual([24, 25, 26, 27, 28, 29, 30]);
+    expect(weeks[5]).toEqual([31, null, null, null, null, null, null]);
+  });
+
+  it('handles leap years', () => {
+    expect(calendarWeeks(2024, 2).flat()).toContain(29);
+    expect(calendarWeeks(2023, 2).flat()).not.toContain(29);
+  });
+});
+
+describe('RecordingLibrary.loadDurations', () => {
+  it('reads each file and skips the ones that fail', async () => {
+    const library = new RecordingLibrary(
+      {
+        ...new FakeLibraryBackend(['a.m4a', 'b.m4a']),
+        getAudioDuration: async (name: string) => {
+          if (name === 'b.m4a') {
+            throw new Error('corrupt');
+          }
+          return 42;
+        },
+      },
+      new EvidenceManifest(new FakeEvidenceBackend()),
+    );
+
+    await expect(library.loadDurations(['a.m4a', 'b.m4a'])).resolves.toEqual({
+      'a.m4a': 42,
+    });
+  });
+});
@@ -0,0 +1,127 @@
+import {afterEach, beforeEach, describe, expect, it, jest} from '@jest/globals';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  DEFAULT_SILENCE_WARNING_SECONDS,
+  FakeRecorderBackend,
+  RecorderService,
+  RecordingLevels,
+  loadSilenceWarningSeconds,
+  meterFraction,
+  nextSilentSince,
+  saveSilenceWarningSeconds,
+  silentSeconds,
+} from '../services/recorder';
+
+const NAME = 'recording-20240305_083015.m4a';
+
+const levelsAt = (elapsed: number, averagePower: number): RecordingLevels => ({
+  fileName: NAME,
+  elapsed,
+  averagePower,
+  peakPower: averagePower + 10,
+  fileSize: 0,
+});
+
+describe('RecorderService levels', () => {
+  let now: Date;
+  let backend: FakeRecorderBackend;
+  let service: RecorderService;
+
+  beforeEach(() => {
+    now = new Date(2024, 2, 5, 8, 30, 15);
+    backend = new FakeRecorderBackend({now: () => now});
+    service = new RecorderService(backend);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('reads elapsed time, levels and size only while recording', async () => {
+    await expect(service.readLevels()).resolves.toBeNull();
+
+    await service.start();
+    now = new Date(now.getTime() + 10 * 1000);
+
+    await expect(service.readLevels()).resolves.toEqual({
+      fileName: NAME,
+      elapsed: 10,
+      averagePower: -30,
+      peakPower: -20,
+      fileSize: 80000,
+    });
+  });
+
+  it('polls subscribers until the last one leaves', async () => {
+    jest.useFakeTimers();
+    await service.start();
+    const received: (RecordingLevels | null)[] = [];
+
+    const unsubscribe = service.subscribeLevels(levels =>
+      received.push(levels),
+    );
+    await jest.advanceTimersByTimeAsync(500);
+    expect(received.map(levels => levels?.fileName)).toEqual([
+      NAME,
+      NAME,
+      NAME,
+    ]);
+
+    unsubscribe();
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(received).toHaveLength(3);
+    expect(jest.getTimerCount()).toBe(0);
+  });
+
+  it('reports null when the native level query fails', async () => {
+    await service.start();
+    backend.failNext('getRecordingLevels', new Error('bridge'));
+
+    await expect(service.readLevels()).resolves.toBeNull();
+  });
+});
+
+describe('level helpers', () => {
+  it.each([
+    [-160, 0],
+    [-60, 0],
+    [-30, 0.5],
+    [0, 1],
+    [3, 1],
+  ])('maps %d dB to %d', (db, fraction) => {
+    expect(meterFraction(db)).toBeCloseTo(fraction);
+  });
+
+  it('measures how long the input has stayed near silence', () => {
+    let since: number | null = null;
+    since = nextSilentSince(since, levelsAt(1, -20));
+    expect(since).toBeNull();
+
+    since = nextSilentSince(since, levelsAt(2, -55));
+    since = nextSilentSince(since, levelsAt(40, -58));
+    expect(since).toBe(2);
+    expect(silentSeconds(since, levelsAt(40, -58))).toBe(38);
+
+    since = nextSilentSince(since, levelsAt(41, -35));
+    expect(silentSeconds(since, levelsAt(41, -35))).toBe(0);
+  });
+});
+
+describe('silence warning setting', () => {
+  beforeEach(async () => {
+    await AsyncStorage.clear();
+  });
+
+  it('falls back to the default for missing or unknown values', async () => {
+    await expect(loadSilenceWarningSeconds()).resolves.toBe(
+      DEFAULT_SILENCE_WARNING_SECONDS,
+    );
+    await AsyncStorage.setItem('twotaprecorder:silenceWarningSeconds', '7');
+    await expect(loadSilenceWarningSeconds()).resolves.toBe(
+      DEFAULT_SILENCE_WARNING_SECONDS,
+    );
+
+    await saveSilenceWarningSeconds(0);
+    await expect(loadSilenceWarningSeconds()).resolves.toBe(0);
+  });
+});
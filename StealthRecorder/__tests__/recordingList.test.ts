@@ -0,0 +1,194 @@
+import {describe, expect, it} from '@jest/globals';
+import {
+  FakeRecorderBackend,
+  RecorderService,
+  RecordingFile,
+  RecordingList,
+  pageRecordingFiles,
+} from '../services/recorder';
+
+const file = (name: string, size: number, date: string): RecordingFile => ({
+  name,
+  path: `/fake/Documents/${name}`,
+  size,
+  date,
+});
+
+const FILES = [
+  file('recording-20240302_080000.m4a', 300, '2024-03-02T08:00:00.000Z'),
+  file('recording-20240301_080000.m4a', 100, '2024-03-01T08:00:00.000Z'),
+  file('a-renamed.m4a', 200, '2024-03-03T08:00:00.000Z'),
+  file('b-renamed.m4a', 200, '2024-03-03T08:00:00.000Z'),
+];
+
+const namesOf = (files: RecordingFile[]) => files.map(({name}) => name);
+
+const createService = (files: RecordingFile[] = FILES) => {
+  let now = new Date(2024, 2, 5, 8, 30, 0);
+  const backend = new FakeRecorderBackend({files, now: () => now});
+  const service = new RecorderService(backend, () => now, backend);
+  const advance = (seconds: number) => {
+    now = new Date(now.getTime() + seconds * 1000);
+  };
+  return {backend, service, advance};
+};
+
+describe('recording listing', () => {
+  it('sorts by date, name or size and breaks ties by file name', () => {
+    expect(namesOf(pageRecordingFiles(FILES).files)).toEqual([
+      'b-renamed.m4a',
+      'a-renamed.m4a',
+      'recording-20240302_080000.m4a',
+      'recording-20240301_080000.m4a',
+    ]);
+    expect(
+      namesOf(pageRecordingFiles(FILES, {sort: 'date', order: 'asc'}).files),
+    ).toEqual([
+      'recording-20240301_080000.m4a',
+      'recording-20240302_080000.m4a',
+      'a-renamed.m4a',
+      'b-renamed.m4a',
+    ]);
+    expect(
+      namesOf(pageRecordingFiles(FILES, {sort: 'size', order: 'desc'}).files),
+    ).toEqual([
+      'recording-20240302_080000.m4a',
+      'b-renamed.m4a',
+      'a-renamed.m4a',
+      'recording-20240301_080000.m4a',
+    ]);
+  });
+
+  it('returns one page at a time with the total count', async () => {
+    const {service} = createService();
+
+    const first = await service.listRecordingPage({
+      sort: 'name',
+      order: 'asc',
+      limit: 3,
+    });
+    const rest = await service.listRecordingPage({
+      sort: 'name',
+      order: 'asc',
+      offset: 3,
+      limit: 3,
+    });
+
+    expect(first.total).toBe(4);
+    expect(namesOf(first.files)).toEqual([
+      'a-renamed.m4a',
+      'b-renamed.m4a',
+      'recording-20240301_080000.m4a',
+    ]);
+    expect(namesOf(rest.files)).toEqual(['recording-20240302_080000.m4a']);
+    await expect(service.listRecordingPage({offset: 10})).resolves.toEqual({
+      files: [],
+      total: 4,
+    });
+  });
+});
+
+describe('native recorder events', () => {
+  it('follows recordings started and stopped outside the app', async () => {
+    const {backend, service, advance} = createService([]);
+    const states: string[] = [];
+    service.subscribe(snapshot => states.push(snapshot.state));
+
+    // 背面タップのショートカットで開始され、上限時間で止まる
+    await backend.startRecording({maxDurationSeconds: 5});
+    expect(service.getSnapshot()).toMatchObject({
+      state: 'recording',
+      fileName: 'recording-20240305_083000.m4a',
+    });
+    advance(5);
+    await backend.isRecording();
+
+    expect(states).toEqual(['recording', 'idle']);
+  });
+
+  it('leaves its own start and stop to start() and stop()', async () => {
+    const {service} = createService([]);
+    const states: string[] = [];
+    service.subscribe(snapshot => states.push(snapshot.state));
+
+    await service.start();
+    await service.stop();
+
+    expect(states).toEqual(['starting', 'recording', 'stopping', 'saved']);
+  });
+
+  it('notifies file changes, including files added outside the app', async () => {
+    const {backend, service, advance} = createService([]);
+    let changes = 0;
+    const unsubscribe = service.subscribeFileChanges(() => {
+      changes += 1;
+    });
+
+    await service.start();
+    advance(3);
+    await service.stop();
+    backend.addFile(FILES[0]);
+    unsubscribe();
+    backend.addFile(FILES[1]);
+
+    expect(changes).toBe(2);
+  });
+});
+
+describe('RecordingList', () => {
+  it('keeps the last list and reports the error when a reload fails', async () => {
+    const {backend, service} = createService();
+    const list = new RecordingList(service);
+
+    await expect(list.refresh()).resolves.toHaveLength(4);
+    backend.failNext('getRecordingFiles', new Error('permission denied'));
+    await expect(list.refresh()).resolves.toBeNull();
+
+    expect(list.getSnapshot()).toMatchObject({
+      status: 'error',
+      error: {code: 'list_failed', message: 'permission denied'},
+    });
+    expect(list.getSnapshot().files).toHaveLength(4);
+
+    await list.refresh();
+    expect(list.getSnapshot()).toMatchObject({status: 'ready', error: null});
+  });
+
+  it('reloads once more when asked again while loading', async () => {
+    const {backend, service} = createService([]);
+    const list = new RecordingList(service);
+    let calls = 0;
+    const listFiles = backend.getRecordingFiles;
+    backend.getRecordingFiles = options => {
+      calls += 1;
+      return listFiles(options);
+    };
+
+    const first = list.refresh();
+    backend.addFile(FILES[0]);
+    list.refresh();
+    list.refresh();
+
+    await expect(first).resolves.toHaveLength(1);
+    expect(calls).toBe(2);
+  });
+
+  it('reloads in the chosen order', async () => {
+    const {service} = createService();
+    const list = new RecordingList(service);
+
+    await list.setSort('size', 'asc');
+
+    expect(list.getSnapshot()).toMatchObject({sort: 'size', order: 'asc'});
+    expect(namesOf(list.getSnapshot().files)[0]).toBe(
+      'recording-20240301_080000.m4a',
+    );
+  });
+
+  it('stays idle without the native recorder', async () => {
+    const list = new RecordingList(new RecorderService(null));
+
+    await expect(list.refresh()).resolves.toBeNull();
+    expect(list.getSnapshot().status).toBe('idle');
+  });
+});
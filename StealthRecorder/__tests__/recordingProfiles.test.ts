@@ -0,0 +1,65 @@
+import {beforeEach, describe, expect, it} from '@jest/globals';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  FakeRecorderBackend,
+  RECORDING_PROFILES,
+  RecorderService,
+  describeProfileFormat,
+  estimateBytesPerHour,
+  findRecordingProfile,
+  loadRecordingProfile,
+  saveRecordingProfile,
+} from '../services/recorder';
+
+beforeEach(async () => {
+  await AsyncStorage.clear();
+});
+
+describe('recording profiles', () => {
+  it.each([
+    ['long', 14_400_000, 'AAC 32kbps / 16kHz mono'],
+    ['standard', 43_200_000, 'AAC 96kbps / 44.1kHz mono'],
+    ['high', 86_400_000, 'AAC 192kbps / 48kHz stereo'],
+    ['lossless-alac', 190_512_000, 'ALAC 16bit / 44.1kHz mono'],
+    ['lossless-wav', 317_520_000, 'WAV 16bit / 44.1kHz mono'],
+  ])('estimates storage per hour for %s', (id, bytes, format) => {
+    const profile = findRecordingProfile(id)!;
+
+    expect(estimateBytesPerHour(profile)).toBe(bytes);
+    expect(describeProfileFormat(profile, {1: 'mono', 2: 'stereo'})).toBe(
+      format,
+    );
+  });
+
+  it('has unique ids', () => {
+    const ids = RECORDING_PROFILES.map(profile => profile.id);
+    expect(new Set(ids).size).toBe(ids.length);
+  });
+
+  it('saves the chosen profile and falls back to standard', async () => {
+    await expect(loadRecordingProfile()).resolves.toMatchObject({
+      id: 'standard',
+    });
+
+    await saveRecordingProfile(findRecordingProfile('long')!);
+    await expect(loadRecordingProfile()).resolves.toMatchObject({id: 'long'});
+
+    await AsyncStorage.setItem('twotaprecorder:recordingProfile', 'removed');
+    await expect(loadRecordingProfile()).resolves.toMatchObject({
+      id: 'standard',
+    });
+  });
+
+  it('passes the profile to the native start and names WAV files .wav', async () => {
+    const backend = new FakeRecorderBackend({
+      now: () => new Date(2024, 2, 5, 8, 30, 15),
+    });
+    const service = new RecorderService(backend);
+    const profile = findRecordingProfile('lossless-wav')!;
+
+    await expect(service.start({profile})).resolves.toBe(
+      'recording-20240305_083015.wav',
+    );
+    expect(backend.recordingOptions).toEqual({profile});
+  });
+});
@@ -0,0 +1,296 @@
+import {beforeEach, describe, expect, it} from '@jest/globals';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {EvidenceManifest, FakeEvidenceBackend} from '../services/evidence';
+import {createIncident, saveIncident} from '../services/incidents';
+import {
+  FakeLibraryBackend,
+  LibraryItem,
+  RecordingLibrary,
+  loadMetadata,
+  saveMetadata,
+} from '../services/library';
+import {addMarker} from '../services/markers';
+import {
+  DEFAULT_RETENTION_SETTINGS,
+  RetentionSettings,
+  RetentionSources,
+  applyRetention,
+  loadRetentionSettings,
+  loadRetentionSources,
+  planRetention,
+  saveRetentionSettings,
+} from '../services/retention';
+
+const MB = 1024 * 1024;
+const GB = 1024 * MB;
+const NOW = new Date(2024, 2, 20, 12, 0, 0);
+
+const item = (
+  name: string,
+  size = MB,
+  metadata: Partial<LibraryItem['metadata']> = {},
+): LibraryItem => ({
+  name,
+  path: `/fake/Documents/${name}`,
+  size,
+  date: '2024-01-01T00:00:00.000Z',
+  metadata: {title: '', tags: [], ...metadata},
+});
+
+const sources = (
+  items: LibraryItem[],
+  durations: Record<string, number>,
+  extra: Partial<RetentionSources> = {},
+): RetentionSources => ({
+  items,
+  markers: {},
+  incidents: [],
+  durations,
+  ...extra,
+});
+
+const shortRule: RetentionSettings = {
+  ...DEFAULT_RETENTION_SETTINGS,
+  shortRecordings: {enabled: true, maxSeconds: 10, afterDays: 7},
+};
+
+const storageRule = (maxBytes: number): RetentionSettings => ({
+  ...DEFAULT_RETENTION_SETTINGS,
+  storageLimit: {enabled: true, maxBytes},
+});
+
+const keysOf = (settings: RetentionSettings, input: RetentionSources) =>
+  planRetention(settings, input, NOW).candidates.map(
+    candidate => candidate.key,
+  );
+
+beforeEach(async () => {
+  await AsyncStorage.clear();
+});
+
+describe('planRetention', () => {
+  it('selects only old, short recordings without title, tags or markers', () => {
+    const input = sources(
+      [
+        item('recording-20240301_080000.m4a'),
+        item('recording-20240302_080000.m4a'),
+        item('recording-20240318_080000.m4a'),
+        item('recording-20240303_080000.m4a', MB, {title: '動作テスト'}),
+        item('recording-20240304_080000.m4a', MB, {tags: ['山手線']}),
+        item('recording-20240305_080000.m4a'),
+        item('recording-20240306_080000.m4a'),
+      ],
+      {
+        'recording-20240301_080000.m4a': 4,
+        'recording-20240302_080000.m4a': 45,
+        'recording-20240318_080000.m4a': 3,
+        'recording-20240303_080000.m4a': 5,
+        'recording-20240304_080000.m4a': 5,
+        'recording-20240305_080000.m4a': 5,
+      },
+      {
+        markers: {
+          'recording-20240305_080000.m4a': [
+            {
+              id: 'm1',
+              fileName: 'recording-20240305_080000.m4a',
+              offsetSeconds: 1,
+              label: 'ブックマーク',
+              source: 'bookmark',
+              createdAt: NOW.toISOString(),
+            },
+          ],
+        },
+      },
+    );
+
+    // 長い・新しい・印がある・長さが読めない録音は残る
+    expect(keysOf(shortRule, input)).toEqual(['recording-20240301_080000']);
+    expect(keysOf(DEFAULT_RETENTION_SETTINGS, input)).toEqual([]);
+  });
+
+  it('never touches protected, linked or in-progress recordings', () => {
+    const names = [
+      'recording-20240301_080000.m4a',
+      'recording-20240302_080000.m4a',
+      'recording-20240303_080000.m4a',
+    ];
+    const input = sources(
+      [item(names[0], MB, {protected: true}), item(names[1]), item(names[2])],
+      Object.fromEntries(names.map(name => [name, 2])),
+      {
+        incidents: [
+          {
+            ...createIncident(NOW),
+            id: 'incident-1',
+            recordingNames: [names[1]],
+          },
+        ],
+        activeFileName: names[2],
+      },
+    );
+
+    expect(keysOf(shortRule, input)).toEqual([]);
+    expect(keysOf(storageRule(0), input)).toEqual([]);
+    expect(planRetention(storageRule(0), input, NOW).overLimit).toBe(true);
+  });
+
+  it('judges split recordings as one session', () => {
+    const parts = [
+      'recording-20240301_080000-part01.m4a',
+      'recording-20240301_080000-part02.m4a',
+    ];
+    const short = sources(
+      parts.map(name => item(name)),
+      {
+        [parts[0]]: 4,
+        [parts[1]]: 4,
+      },
+    );
+    expect(planRetention(shortRule, short, NOW).candidates).toEqual([
+      {
+        key: 'recording-20240301_080000',
+        title: parts[0],
+        fileNames: parts,
+        startedAt: new Date(2024, 2, 1, 8, 0, 0),
+        durationSeconds: 8,
+        size: 2 * MB,
+        reason: 'short_recording',
+        needsConfirmation: false,
+      },
+    ]);
+
+    // どれか 1 つのパートが保護されていれば全体を残す
+    const protectedPart = sources(
+      [item(parts[0]), item(parts[1], MB, {protected: true})],
+      {[parts[0]]: 4, [parts[1]]: 4},
+    );
+    expect(keysOf(shortRule, protectedPart)).toEqual([]);
+  });
+
+  it('removes the oldest recordings until the total fits the limit', () => {
+    const input = sources(
+      [
+        item('recording-20240310_080000.m4a', 400 * MB),
+        item('recording-20240301_080000.m4a', 400 * MB, {protected: true}),
+        item('recording-20240305_080000.m4a', 400 * MB),
+        item('recording-20240302_080000.m4a', 400 * MB),
+      ],
+      {},
+    );
+
+    const plan = planRetention(storageRule(GB), input, NOW);
+    expect(plan.candidates.map(candidate => candidate.key)).toEqual([
+      'recording-20240302_080000',
+      'recording-20240305_080000',
+    ]);
+    expect(plan.candidates[0].reason).toBe('storage_limit');
+    expect(plan).toMatchObject({
+      totalBytes: 1600 * MB,
+      freedBytes: 800 * MB,
+      overLimit: false,
+    });
+    expect(keysOf(storageRule(2 * GB), input)).toEqual([]);
+  });
+
+  it('asks before deleting marked or registered recordings', () => {
+    const marked = 'recording-20240301_080000.m4a';
+    const registered = 'recording-20240302_080000.m4a';
+    const plain = 'recording-20240303_080000.m4a';
+    const input = sources(
+      [
+        item(marked, 400 * MB),
+        item(registered, 400 * MB),
+        item(plain, 400 * MB),
+      ],
+      {},
+      {
+        markers: {
+          [marked]: [
+            {
+              id: 'm1',
+              fileName: marked,
+              offsetSeconds: 5,
+              label: 'ブックマーク',
+              source: 'bookmark',
+              createdAt: NOW.toISOString(),
+            },
+          ],
+        },
+        registered: [registered],
+      },
+    );
+
+    const plan = planRetention(storageRule(100 * MB), input, NOW);
+    expect(
+      plan.candidates.map(({fileNames, needsConfirmation}) => ({
+        fileNames,
+        needsConfirmation,
+      })),
+    ).toEqual([
+      {fileNames: [marked], needsConfirmation: true},
+      {fileNames: [registered], needsConfirmation: true},
+      {fileNames: [plain], needsConfirmation: false},
+    ]);
+  });
+});
+
+describe('retention settings', () => {
+  it('starts with every rule disabled and ignores unknown values', async () => {
+    await expect(loadRetentionSettings()).resolves.toEqual(
+      DEFAULT_RETENTION_SETTINGS,
+    );
+
+    await saveRetentionSettings({...shortRule, automatic: true});
+    await expect(loadRetentionSettings()).resolves.toEqual({
+      ...shortRule,
+      automatic: true,
+    });
+
+    await AsyncStorage.setItem(
+      'twotaprecorder:retention',
+      JSON.stringify({
+        shortRecordings: {enabled: true, maxSeconds: 1, afterDays: 0},
+        storageLimit: {enabled: 'yes', maxBytes: 123},
+      }),
+    );
+    await expect(loadRetentionSettings()).resolves.toEqual(shortRule);
+  });
+});
+
+describe('applyRetention', () => {
+  it('deletes the previewed recordings with their details', async () => {
+    const old = 'recording-20240301_080000.m4a';
+    const kept = 'recording-20240302_080000.m4a';
+    const backend = new FakeLibraryBackend([old, kept], 3);
+    const evidenceBackend = new FakeEvidenceBackend();
+    evidenceBackend.putRecording(kept, 'audio');
+    const manifest = new EvidenceManifest(evidenceBackend);
+    await manifest.register(kept);
+    const library = new RecordingLibrary(backend, manifest);
+    await saveMetadata(kept, {title: '', tags: [], protected: true});
+    await addMarker({
+      fileName: kept,
+      offsetSeconds: 1,
+      label: 'ブックマーク',
+      source: 'bookmark',
+    });
+    await saveIncident({...createIncident(NOW), recordingNames: []});
+    const files = [old, kept].map(name => ({
+      name,
+      path: name,
+      size: MB,
+      date: '',
+    }));
+
+    const input = await loadRetentionSources(library, files);
+    expect(input.durations).toEqual({[old]: 3, [kept]: 3});
+    expect(input.registered).toEqual([kept]);
+    const plan = planRetention(shortRule, input, NOW);
+    const result = await applyRetention(library, plan);
+
+    expect(result).toEqual({removed: [old], failed: [], freedBytes: MB});
+    expect([...backend.files]).toEqual([kept]);
+    expect((await loadMetadata([kept]))[kept].protected).toBe(true);
+  });
+});
@@ -0,0 +1,194 @@
+import {describe, expect, it} from '@jest/globals';
+import type {Incident} from '../services/incidents';
+import type {LibraryItem} from '../services/library';
+import type {Marker} from '../services/markers';
+import {
+  SearchDocument,
+  buildSearchIndex,
+  collectTags,
+  normalizeText,
+  searchRecordings,
+  tokenize,
+} from '../services/search';
+
+const item = (name: string, title = '', tags: string[] = []): LibraryItem => ({
+  name,
+  path: `/fake/Documents/${name}`,
+  size: 1000,
+  date: '2024-01-01T00:00:00.000Z',
+  metadata: {title, tags},
+});
+
+const marker = (fileName: string, label: string): Marker => ({
+  id: `${fileName}-${label}`,
+  fileName,
+  offsetSeconds: 10,
+  label,
+  source: 'bookmark',
+  createdAt: '2024-03-15T18:00:10.000Z',
+});
+
+const incident = (patch: Partial<Incident>): Incident => ({
+  id: 'incident-1',
+  title: '',
+  occurredAt: '2024-03-15T18:00:00.000Z',
+  location: '',
+  trainLine: '',
+  carNumber: '',
+  officers: [],
+  completedSteps: [],
+  recordingNames: [],
+  timeline: [],
+  notes: '',
+  createdAt: '2024-03-15T18:30:00.000Z',
+  updatedAt: '2024-03-15T18:30:00.000Z',
+  ...patch,
+});
+
+const buildIndex = (): SearchDocument[] =>
+  buildSearchIndex({
+    items: [
+      item('recording-20240402_090000.m4a', '会社の面談', ['職場']),
+      item('recording-20240315_180000-part01.m4a', '新宿駅', [
+        '山手線',
+        '警察',
+      ]),
+      item('recording-20240315_180000-part02.m4a'),
+      item('recording-20240301_080000.m4a'),
+    ],
+    markers: {
+      'recording-20240315_180000-part02.m4a': [
+        marker(
+          'recording-20240315_180000-part02.m4a',
+          '身分証の提示を求められた',
+        ),
+      ],
+    },
+    incidents: [
+      incident({
+        title: '駅員室での聴取',
+        trainLine: 'JR山手線',
+        officers: [
+          {id: 'o1', name: '佐藤', badgeNumber: 'A-123', affiliation: '警察官'},
+        ],
+        timeline: [{id: 't1', time: '18:05', description: '別室へ移動'}],
+        recordingNames: ['recording-20240315_180000-part01.m4a'],
+      }),
+      incident({id: 'incident-2', notes: '関係のない記録'}),
+    ],
+    durations: {
+      'recording-20240402_090000.m4a': 600,
+      'recording-20240315_180000-part01.m4a': 1800,
+      'recording-20240315_180000-part02.m4a': 900,
+    },
+  });
+
+const keys = (index: SearchDocument[], text: string, filters = {}) =>
+  searchRecordings(index, {text, ...filters}).map(hit => hit.document.key);
+
+describe('normalizeText', () => {
+  it('folds width, kana and case', () => {
+    expect(normalizeText('ＪＲ　ヤマノテ線  Ａ－１２３')).toBe(
+      'jr やまのて線 a-123',
+    );
+  });
+
+  it('splits #tags from words', () => {
+    expect(tokenize('新宿 #警察 # 駅')).toEqual({
+      words: ['新宿', '駅'],
+      tags: ['警察'],
+    });
+  });
+});
+
+describe('buildSearchIndex', () => {
+  it('merges segments and attaches markers and linked incidents', () => {
+    const index = buildIndex();
+
+    expect(index.map(document => document.key)).toEqual([
+      'recording-20240402_090000',
+      'recording-20240315_180000',
+      'recording-20240301_080000',
+    ]);
+    const [, split, unknown] = index;
+    expect(split).toMatchObject({
+      fileNames: [
+        'recording-20240315_180000-part01.m4a',
+        'recording-20240315_180000-part02.m4a',
+      ],
+      durationSeconds: 2700,
+      tags: ['山手線', '警察'],
+    });
+    expect(split.startedAt).toEqual(new Date(2024, 2, 15, 18, 0, 0));
+    expect(split.entries.map(entry => entry.field)).toEqual(
+      expect.arrayContaining([
+        'title',
+        'tag',
+        'marker',
+        'incident',
+        'fileName',
+      ]),
+    );
+    expect(split.entries.some(entry => entry.text === '関係のない記録')).toBe(
+      false,
+    );
+    expect(unknown.durationSeconds).toBeNull();
+  });
+});
+
+describe('searchRecordings', () => {
+  const index = buildIndex();
+
+  it('finds recordings by marker labels and incident fields', () => {
+    expect(keys(index, '身分証')).toEqual(['recording-20240315_180000']);
+    expect(keys(index, 'a-123')).toEqual(['recording-20240315_180000']);
+    expect(keys(index, '別室')).toEqual(['recording-20240315_180000']);
+    expect(keys(index, '関係のない')).toEqual([]);
+  });
+
+  it('requires every word and ignores width and kana differences', () => {
+    expect(keys(index, 'ＪＲ 別室')).toEqual(['recording-20240315_180000']);
+    expect(keys(index, '面談 別室')).toEqual([]);
+  });
+
+  it('ranks title matches above file name matches and reports fields', () => {
+    const hits = searchRecordings(index, {text: '山手線'});
+
+    expect(hits).toHaveLength(1);
+    expect(hits[0].matches.map(match => match.field)).toEqual([
+      'tag',
+      'incident',
+    ]);
+
+    expect(keys(index, '2024')).toEqual([
+      'recording-20240402_090000',
+      'recording-20240315_180000',
+      'recording-20240301_080000',
+    ]);
+    expect(keys(index, '面談 2024')[0]).toBe('recording-20240402_090000');
+  });
+
+  it('filters by date range, duration and tags', () => {
+    expect(
+      keys(index, '', {
+        from: new Date(2024, 2, 10),
+        to: new Date(2024, 3, 1),
+      }),
+    ).toEqual(['recording-20240315_180000']);
+    expect(keys(index, '', {minDurationSeconds: 30 * 60})).toEqual([
+      'recording-20240315_180000',
+    ]);
+    expect(keys(index, '', {maxDurationSeconds: 30 * 60})).toEqual([
+      'recording-20240402_090000',
+    ]);
+    expect(keys(index, '', {tags: ['警察']})).toEqual([
+      'recording-20240315_180000',
+    ]);
+    expect(keys(index, '#職場')).toEqual(['recording-20240402_090000']);
+    expect(keys(index, '', {tags: ['警察', '職場']})).toEqual([]);
+  });
+
+  it('lists tags by how often they are used', () => {
+    expect(collectTags(index)).toEqual(['山手線', '職場', '警察']);
+  });
+});
@@ -0,0 +1,170 @@
+import {beforeEach, describe, expect, it} from '@jest/globals';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  FakeRecorderBackend,
+  RecorderService,
+  followingSegment,
+  groupRecordingSegments,
+} from '../services/recorder';
+import {loadSessionJournal} from '../services/recorder/sessionJournal';
+
+const NAME = 'recording-20240305_083015.m4a';
+
+const createClock = () => {
+  let now = new Date(2024, 2, 5, 8, 30, 15);
+  return {
+    now: () => now,
+    advance: (seconds: number) => {
+      now = new Date(now.getTime() + seconds * 1000);
+    },
+  };
+};
+
+// 同じネイティブ側のまま JS だけ起動し直した状態を作る
+const relaunch = (backend: FakeRecorderBackend, now: () => Date) =>
+  new RecorderService(backend, now);
+
+beforeEach(async () => {
+  await AsyncStorage.clear();
+});
+
+describe('session journal', () => {
+  it('is written at start and cleared by a clean stop', async () => {
+    const clock = createClock();
+    const backend = new FakeRecorderBackend({now: clock.now});
+    const service = new RecorderService(backend, clock.now);
+
+    await service.start({maxDurationSeconds: 60});
+    await expect(loadSessionJournal()).resolves.toEqual({
+      fileName: NAME,
+      startedAt: clock.now().toISOString(),
+      expectedEndAt: new Date(clock.now().getTime() + 60000).toISOString(),
+    });
+
+    await service.stop();
+    await expect(loadSessionJournal()).resolves.toBeNull();
+    await expect(service.findInterrupted()).resolves.toBeNull();
+  });
+
+  it('follows the current part when a long recording rolls over', async () => {
+    const clock = createClock();
+    const backend = new FakeRecorderBackend({now: clock.now});
+    const service = new RecorderService(backend, clock.now);
+    await service.start({segmentSeconds: 60});
+
+    clock.advance(60);
+    await service.monitor();
+
+    await expect(loadSessionJournal()).resolves.toMatchObject({
+      fileName: 'recording-20240305_083015-part02.m4a',
+    });
+    await service.stop();
+  });
+});
+
+describe('findInterrupted', () => {
+  it('reports a recording cut off by the app being terminated', async () => {
+    const clock = createClock();
+    const backend = new FakeRecorderBackend({now: clock.now});
+    await new RecorderService(backend, clock.now).start();
+    backend.terminate();
+
+    const service = relaunch(backend, clock.now);
+
+    await expect(service.findInterrupted()).resolves.toMatchObject({
+      fileName: NAME,
+      reason: 'terminated',
+      file: {name: NAME},
+    });
+    await service.dismissInterrupted();
+    await expect(service.findInterrupted()).resolves.toBeNull();
+  });
+
+  it('tells an OS interruption apart from termination', async () => {
+    const clock = createClock();
+    const backend = new FakeRecorderBackend({now: clock.now});
+    const service = new RecorderService(backend, clock.now);
+    await service.start();
+
+    backend.interrupt();
+
+    await expect(service.findInterrupted()).resolves.toMatchObject({
+      reason: 'interrupted',
+      file: {name: NAME},
+    });
+  });
+
+  it('reports a missing partial file as null', async () => {
+    const clock = createClock();
+    const backend = new FakeRecorderBackend({now: clock.now});
+    await new RecorderService(backend, clock.now).start();
+    backend.terminate();
+    backend.files = [];
+
+    await expect(
+      relaunch(backend, clock.now).findInterrupted(),
+    ).resolves.toMatchObject({file: null});
+  });
+
+  it('ignores recordings that are still running', async () => {
+    const clock = createClock();
+    const backend = new FakeRecorderBackend({now: clock.now});
+    await new RecorderService(backend, clock.now).start();
+
+    const service = relaunch(backend, clock.now);
+
+    await expect(service.findInterrupted()).resolves.toBeNull();
+    await expect(loadSessionJournal()).resolves.not.toBeNull();
+  });
+
+  it('treats a maxDuration stop as a clean end', async () => {
+    const clock = createClock();
+    const backend = new FakeRecorderBackend({now: clock.now});
+    await new RecorderService(backend, clock.now).start({
+      maxDurationSeconds: 60,
+    });
+
+    clock.advance(60);
+    const service = relaunch(backend, clock.now);
+
+    await expect(service.findInterrupted()).resolves.toBeNull();
+    await expect(loadSessionJournal()).resolves.toBeNull();
+  });
+});
+
+describe('resuming', () => {
+  it('records into the next part linked to the interrupted file', async () => {
+    const clock = createClock();
+    const backend = new FakeRecorderBackend({now: clock.now});
+    await new RecorderService(backend, clock.now).start();
+    backend.terminate();
+    clock.advance(120);
+
+    const service = relaunch(backend, clock.now);
+    const interrupted = await service.findInterrupted();
+    await service.dismissInterrupted();
+
+    await expect(
+      service.start({continueFrom: interrupted!.fileName}),
+    ).resolves.toBe('recording-20240305_083015-part02.m4a');
+    await service.stop();
+
+    const groups = groupRecordingSegments(await service.listRecordings());
+    expect(groups).toHaveLength(1);
+    expect(groups[0].files.map(({name}) => name)).toEqual([
+      NAME,
+      'recording-20240305_083015-part02.m4a',
+    ]);
+  });
+
+  it('continues the numbering of split recordings', () => {
+    expect(followingSegment(NAME)).toEqual({
+      sessionName: 'recording-20240305_083015',
+      index: 2,
+    });
+    expect(followingSegment('recording-20240305_083015-part04.wav')).toEqual({
+      sessionName: 'recording-20240305_083015',
+      index: 5,
+    });
+  });
+});
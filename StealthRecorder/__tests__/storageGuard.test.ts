@@ -0,0 +1,209 @@
+import {describe, expect, it} from '@jest/globals';
+import {
+  FakeRecorderBackend,
+  RecorderService,
+  STORAGE_FULL_BYTES,
+  classifyFreeSpace,
+  estimateRemainingSeconds,
+  findRecordingProfile,
+  groupRecordingSegments,
+  makeSegmentFileName,
+  parseSegmentName,
+} from '../services/recorder';
+
+const MB = 1024 * 1024;
+
+const createService = () => {
+  let now = new Date(2024, 2, 5, 8, 30, 15);
+  const backend = new FakeRecorderBackend({now: () => now});
+  const service = new RecorderService(backend);
+  const saved: string[] = [];
+  service.subscribeSavedFiles(fileName => saved.push(fileName));
+  const advance = (seconds: number) => {
+    now = new Date(now.getTime() + seconds * 1000);
+  };
+  return {backend, service, saved, advance};
+};
+
+describe('storage thresholds', () => {
+  it.each([
+    [10 * MB, 'full'],
+    [100 * MB, 'critical'],
+    [500 * MB, 'low'],
+    [4096 * MB, 'ok'],
+  ])('classifies %d bytes as %s', (bytes, level) => {
+    expect(classifyFreeSpace(bytes)).toBe(level);
+  });
+
+  it('estimates the remaining time from the profile bitrate', () => {
+    const standard = findRecordingProfile('standard')!;
+    // 96kbps = 12000 バイト/秒
+    expect(
+      estimateRemainingSeconds(STORAGE_FULL_BYTES + 12000 * 60, standard),
+    ).toBe(60);
+    expect(estimateRemainingSeconds(STORAGE_FULL_BYTES / 2, standard)).toBe(0);
+  });
+});
+
+describe('segments', () => {
+  it('parses and builds part file names', () => {
+    const name = makeSegmentFileName('recording-20240305_083015', 3, 'wav');
+
+    expect(name).toBe('recording-20240305_083015-part03.wav');
+    expect(parseSegmentName(name)).toEqual({
+      sessionName: 'recording-20240305_083015',
+      index: 3,
+    });
+    expect(parseSegmentName('recording-20240305_083015.m4a')).toBeNull();
+    expect(parseSegmentName('recording-20240305_083015-part00.m4a')).toBeNull();
+  });
+
+  it('groups parts in part order and keeps the list order', () => {
+    const groups = groupRecordingSegments(
+      [
+        'recording-20240306_100000.m4a',
+        'recording-20240305_083015-part02.m4a',
+        'recording-20240305_083015-part10.m4a',
+        'recording-20240305_083015-part01.m4a',
+        'recording-20240301_120000-part01.m4a',
+      ].map(name => ({name})),
+    );
+
+    expect(
+      groups.map(group => [group.key, group.files.map(({name}) => name)]),
+    ).toEqual([
+      ['recording-20240306_100000', ['recording-20240306_100000.m4a']],
+      [
+        'recording-20240305_083015',
+        [
+          'recording-20240305_083015-part01.m4a',
+          'recording-20240305_083015-part02.m4a',
+          'recording-20240305_083015-part10.m4a',
+        ],
+      ],
+      ['recording-20240301_120000', ['recording-20240301_120000-part01.m4a']],
+    ]);
+  });
+});
+
+describe('RecorderService storage guard', () => {
+  it('refuses to start when the device is full', async () => {
+    const {backend, service} = createService();
+    backend.freeDiskSpace = 10 * MB;
+
+    await expect(service.start()).rejects.toMatchObject({
+      code: 'insufficient_storage',
+    });
+    expect(service.getSnapshot()).toMatchObject({
+      state: 'failed',
+      error: 'insufficient_storage',
+      storage: {level: 'full', freeBytes: 10 * MB},
+    });
+    expect(backend.recordingName).toBeNull();
+  });
+
+  it('starts with a warning level when space is low', async () => {
+    const {backend, service} = createService();
+    backend.freeDiskSpace = 500 * MB;
+
+    await service.start();
+
+    expect(service.getSnapshot()).toMatchObject({
+      state: 'recording',
+      storage: {level: 'low'},
+    });
+    await service.stop();
+  });
+
+  it('stops and saves when space runs out while recording', async () => {
+    const {backend, service, saved} = createService();
+    await service.start();
+
+    backend.freeDiskSpace = 10 * MB;
+    await service.monitor();
+
+    expect(service.getSnapshot().state).toBe('saved');
+    expect(saved).toEqual(['recording-20240305_083015.m4a']);
+    expect(backend.files).toHaveLength(1);
+  });
+
+  it('keeps checking when the native side cannot report free space', async () => {
+    const {backend, service} = createService();
+    backend.failNext('getFreeDiskSpace', new Error('not bridged'));
+
+    await service.start();
+
+    expect(service.getSnapshot()).toMatchObject({
+      state: 'recording',
+      storage: null,
+    });
+    await service.stop();
+  });
+});
+
+describe('RecorderService segments', () => {
+  it('rolls over into numbered parts every segmentSeconds', async () => {
+    const {backend, service, saved, advance} = createService();
+
+    await expect(service.start({segmentSeconds: 600})).resolves.toBe(
+      'recording-20240305_083015-part01.m4a',
+    );
+
+    advance(599);
+    await service.monitor();
+    expect(saved).toEqual([]);
+
+    advance(1);
+    await service.monitor();
+    expect(saved).toEqual(['recording-20240305_083015-part01.m4a']);
+    expect(service.getSnapshot()).toMatchObject({
+      state: 'recording',
+      fileName: 'recording-20240305_083015-part02.m4a',
+    });
+    expect(backend.recordingOptions).toEqual({
+      sessionName: 'recording-20240305_083015',
+      segmentIndex: 2,
+    });
+
+    advance(30);
+    await expect(service.readLevels()).resolves.toMatchObject({
+      elapsed: 630,
+    });
+    await expect(service.stop()).resolves.toBe(
+      'recording-20240305_083015-part02.m4a',
+    );
+    expect(saved).toHaveLength(1);
+    expect(backend.files.map(({name}) => name)).toEqual([
+      'recording-20240305_083015-part02.m4a',
+      'recording-20240305_083015-part01.m4a',
+    ]);
+  });
+
+  it('passes the remaining maxDuration to the next part', async () => {
+    const {backend, service, advance} = createService();
+    await service.start({segmentSeconds: 600, maxDurationSeconds: 900});
+
+    advance(600);
+    await service.monitor();
+
+    expect(backend.recordingOptions).toMatchObject({
+      maxDurationSeconds: 300,
+      segmentIndex: 2,
+    });
+    await service.stop();
+  });
+
+  it('does not split recordings started without segmentSeconds', async () => {
+    const {service, saved, advance} = createService();
+    await service.start();
+
+    advance(24 * 60 * 60);
+    await service.monitor();
+
+    expect(saved).toEqual([]);
+    expect(service.getSnapshot().fileName).toBe(
+      'recording-20240305_083015.m4a',
+    );
+    await service.stop();
+  });
+});
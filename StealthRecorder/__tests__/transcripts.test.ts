@@ -0,0 +1,182 @@
+import {describe, expect, it} from '@jest/globals';
+import {Translate, translate} from '../services/i18n';
+import {
+  FakeTranscriptBackend,
+  OnDeviceTranscriber,
+  StubTranscriber,
+  Transcript,
+  TranscriptService,
+  findSegmentIndex,
+  formatSrt,
+  formatTranscriptText,
+  formatWebVtt,
+  groupWords,
+  parseTranscript,
+  transcriptFileName,
+} from '../services/transcripts';
+
+const NAME = 'recording-20240305_083015.m4a';
+const NOW = new Date('2024-03-05T09:00:00.000Z');
+const ja: Translate = (key, params) => translate('ja', key, params);
+const en: Translate = (key, params) => translate('en', key, params);
+
+const TRANSCRIPT: Transcript = {
+  fileName: NAME,
+  engine: 'stub',
+  locale: 'ja-JP',
+  createdAt: NOW.toISOString(),
+  segments: [
+    {start: 0.5, end: 2.4, text: '録音を開始します', confidence: 0.9},
+    {
+      start: 3661.25,
+      end: 3663,
+      text: '身分証を見せてください',
+      confidence: 0.8,
+    },
+  ],
+};
+
+const setup = () => {
+  const backend = new FakeTranscriptBackend();
+  const transcriber = new StubTranscriber(TRANSCRIPT.segments);
+  const service = new TranscriptService(backend, transcriber, () => NOW);
+  return {backend, transcriber, service};
+};
+
+describe('groupWords', () => {
+  it('splits on pauses and joins Japanese words without spaces', () => {
+    const words = [
+      {text: '次の', start: 0, duration: 0.4, confidence: 0.9},
+      {text: '駅で', start: 0.4, duration: 0.4, confidence: 0.7},
+      {text: '降ります', start: 2, duration: 0.6, confidence: 0.8},
+    ];
+
+    expect(groupWords(words, 'ja-JP')).toEqual([
+      {start: 0, end: 0.8, text: '次の駅で', confidence: 0.8},
+      {start: 2, end: 2.6, text: '降ります', confidence: 0.8},
+    ]);
+    expect(groupWords(words.slice(0, 2), 'en-US')[0].text).toBe('次の 駅で');
+  });
+
+  it('keeps segments short enough for subtitles', () => {
+    const words = Array.from({length: 20}, (_, i) => ({
+      text: 'word',
+      start: i,
+      duration: 0.9,
+      confidence: 1,
+    }));
+
+    const segments = groupWords(words, 'en-US');
+
+    expect(segments.length).toBeGreaterThan(1);
+    segments.forEach(segment =>
+      expect(segment.end - segment.start).toBeLessThanOrEqual(8),
+    );
+  });
+});
+
+describe('formats', () => {
+  it('writes SRT and WebVTT timestamps', () => {
+    expect(formatSrt(TRANSCRIPT)).toBe(
+      '1\n00:00:00,500 --> 00:00:02,400\n録音を開始します\n\n' +
+        '2\n01:01:01,250 --> 01:01:03,000\n身分証を見せてください\n',
+    );
+    expect(formatWebVtt(TRANSCRIPT)).toBe(
+      'WEBVTT\n\n00:00:00.500 --> 00:00:02.400\n録音を開始します\n\n' +
+        '01:01:01.250 --> 01:01:03.000\n身分証を見せてください\n',
+    );
+  });
+
+  it('writes plain text with a header', () => {
+    const text = formatTranscriptText(ja, TRANSCRIPT);
+
+    expect(text).toContain(`録音ファイル: ${NAME}`);
+    expect(formatTranscriptText(en, TRANSCRIPT)).toContain(
+      `Recording: ${NAME}`,
+    );
+    expect(text).toContain('[00:00] 録音を開始します');
+    expect(text).toContain('[01:01:01] 身分証を見せてください');
+  });
+
+  it('finds the segment at a playback position', () => {
+    expect(findSegmentIndex(TRANSCRIPT.segments, 0)).toBe(-1);
+    expect(findSegmentIndex(TRANSCRIPT.segments, 1)).toBe(0);
+    // 発話の合間は直前の発話
+    expect(findSegmentIndex(TRANSCRIPT.segments, 100)).toBe(0);
+    expect(findSegmentIndex(TRANSCRIPT.segments, 3662)).toBe(1);
+  });
+});
+
+describe('TranscriptService', () => {
+  it('stores the transcript next to the recording', async () => {
+    const {backend, transcriber, service} = setup();
+
+    expect(await service.load(NAME)).toBeNull();
+    const transcript = await service.transcribe(NAME);
+
+    expect(transcript).toEqual(TRANSCRIPT);
+    expect(transcriber.requests).toEqual([{fileName: NAME, locale: 'ja-JP'}]);
+    expect(
+      parseTranscript(backend.files.get(transcriptFileName(NAME)) ?? ''),
+    ).toEqual(TRANSCRIPT);
+    expect(await service.load(NAME)).toEqual(TRANSCRIPT);
+
+    await service.remove(NAME);
+    expect(await service.load(NAME)).toBeNull();
+  });
+
+  it('exports each format through the share sheet', async () => {
+    const {backend, service} = setup();
+    await expect(service.share(NAME, 'srt', ja)).rejects.toMatchObject({
+      code: 'not_found',
+    });
+    await service.transcribe(NAME);
+
+    await service.share(NAME, 'srt', ja);
+    await service.share(NAME, 'vtt', ja);
+    await service.share(NAME, 'txt', ja);
+
+    expect(backend.shared).toEqual([
+      ['/fake/tmp/exports/recording-20240305_083015.srt'],
+      ['/fake/tmp/exports/recording-20240305_083015.vtt'],
+      ['/fake/tmp/exports/recording-20240305_083015-transcript.txt'],
+    ]);
+    expect(
+      backend.exports.get('/fake/tmp/exports/recording-20240305_083015.vtt'),
+    ).toBe(formatWebVtt(TRANSCRIPT));
+  });
+
+  it('reports a corrupted transcript file', async () => {
+    const {backend, service} = setup();
+    backend.files.set(transcriptFileName(NAME), '{"fileName": 1}');
+
+    await expect(service.load(NAME)).rejects.toMatchObject({
+      code: 'corrupted',
+    });
+  });
+
+  it('maps native recognition errors', async () => {
+    const transcriber = new OnDeviceTranscriber({
+      transcribeFile: async () => {
+        throw Object.assign(new Error('denied'), {code: 'permission_denied'});
+      },
+    });
+    const service = new TranscriptService(
+      new FakeTranscriptBackend(),
+      transcriber,
+    );
+
+    await expect(service.transcribe(NAME)).rejects.toMatchObject({
+      code: 'permission_denied',
+    });
+  });
+
+  it('reports unavailable without a native module', async () => {
+    const service = new TranscriptService(null, new OnDeviceTranscriber(null));
+
+    expect(service.isAvailable).toBe(false);
+    await expect(service.transcribe(NAME)).rejects.toMatchObject({
+      code: 'unavailable',
+    });
+  });
+});
@@ -0,0 +1,438 @@
+import React, {useState} from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  Modal,
+  Pressable,
+  SafeAreaView,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  View,
+} from 'react-native';
+import {RestoreReport, toBackupError, useBackup} from '../services/backup';
+import {Translate, backupErrorMessage, useI18n} from '../services/i18n';
+import type {RecordingFile} from '../services/recorder';
+
+type BackupModalProps = {
+  visible: boolean;
+  files: RecordingFile[];
+  onClose: () => void;
+  // 復元で録音や出来事の記録が増えたとき
+  onRestored: () => void;
+};
+
+type PasswordFieldProps = {
+  value: string;
+  placeholder: string;
+  onChangeText: (value: string) => void;
+  testID?: string;
+};
+
+const PasswordField = ({
+  value,
+  placeholder,
+  onChangeText,
+  testID,
+}: PasswordFieldProps): React.JSX.Element => (
+  <TextInput
+    style={styles.input}
+    value={value}
+    onChangeText={onChangeText}
+    placeholder={placeholder}
+    placeholderTextColor="#5d6b85"
+    autoCapitalize="none"
+    autoCorrect={false}
+    secureTextEntry
+    testID={testID}
+  />
+);
+
+const describeReport = (t: Translate, report: RestoreReport): string[] => {
+  const lines = [t('backup.report.restored', {count: report.restored.length})];
+  if (report.duplicates.length > 0) {
+    lines.push(
+      t('backup.report.duplicates', {count: report.duplicates.length}),
+    );
+  }
+  report.renamed.forEach(({from, to}) =>
+    lines.push(t('backup.report.renamed', {from, to})),
+  );
+  if (report.incidents > 0) {
+    lines.push(t('backup.report.incidents', {count: report.incidents}));
+  }
+  return lines;
+};
+
+/**
+ * バックアップの作成と復元。録音・タイトルとタグ・マーカー・文字起こし・
+ * 出来事の記録・証拠ログを1つのファイルにまとめ、ファイル App などに保存する。
+ */
+const BackupModal = ({
+  visible,
+  files,
+  onClose,
+  onRestored,
+}: BackupModalProps): React.JSX.Element => {
+  const {t} = useI18n();
+  const backup = useBackup();
+  const [password, setPassword] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [working, setWorking] = useState<'create' | 'restore' | null>(null);
+  // パスワード付きのバックアップを選んだとき
+  const [pendingPath, setPendingPath] = useState<string | null>(null);
+  const [restorePassword, setRestorePassword] = useState('');
+  const [report, setReport] = useState<RestoreReport | null>(null);
+
+  const close = () => {
+    setPassword('');
+    setConfirmation('');
+    setPendingPath(null);
+    setRestorePassword('');
+    setReport(null);
+    onClose();
+  };
+
+  const create = async () => {
+    setWorking('create');
+    try {
+      const result = await backup.create(files, password, confirmation);
+      setPassword('');
+      setConfirmation('');
+      if (result.saved) {
+        Alert.alert(
+          t('backup.saved.title'),
+          t(
+            result.encrypted
+              ? 'backup.saved.encryptedMessage'
+              : 'backup.saved.message',
+            {count: result.recordings, fileName: result.fileName},
+          ),
+        );
+      }
+    } catch (error) {
+      Alert.alert(
+        t('backup.createFailed'),
+        backupErrorMessage(t, toBackupError(error, 'write_failed')),
+      );
+    } finally {
+      setWorking(null);
+    }
+  };
+
+  const restore = async (path: string, withPassword: string | null) => {
+    setWorking('restore');
+    setReport(null);
+    try {
+      const result = await backup.restore(path, withPassword, files);
+      setPendingPath(null);
+      setRestorePassword('');
+      setReport(result);
+      onRestored();
+    } catch (error) {
+      const backupError = toBackupError(error, 'invalid_archive');
+      if (backupError.code === 'password_required') {
+        setPendingPath(path);
+      } else {
+        Alert.alert(
+          t('backup.restoreFailed'),
+          backupErrorMessage(t, backupError),
+        );
+      }
+    } finally {
+      setWorking(null);
+    }
+  };
+
+  const pickAndRestore = async () => {
+    try {
+      const path = await backup.pick();
+      if (path) {
+        await restore(path, null);
+      }
+    } catch (error) {
+      Alert.alert(
+        t('backup.openFailed'),
+        backupErrorMessage(t, toBackupError(error, 'read_failed')),
+      );
+    }
+  };
+
+  return (
+    <Modal visible={visible} animationType="slide" onRequestClose={close}>
+      <SafeAreaView style={styles.container}>
+        <View style={styles.header}>
+          <Text style={styles.title}>{t('app.menu.backup')}</Text>
+          <Pressable onPress={close}>
+            <Text style={styles.headerAction}>{t('common.close')}</Text>
+          </Pressable>
+        </View>
+
+        <ScrollView
+          contentContainerStyle={styles.content}
+          keyboardShouldPersistTaps="handled">
+          {!backup.isAvailable ? (
+            <Text style={styles.hint}>{t('backup.unavailable')}</Text>
+          ) : (
+            <>
+              <Text style={styles.sectionTitle}>
+                {t('backup.create.title')}
+              </Text>
+              <Text style={styles.description}>
+                {t('backup.create.description', {count: files.length})}
+              </Text>
+              <Text style={styles.label}>{t('backup.password')}</Text>
+              <PasswordField
+                value={password}
+                placeholder={t('backup.passwordPlaceholder')}
+                onChangeText={setPassword}
+                testID="backup-password"
+              />
+              {password !== '' && (
+                <PasswordField
+                  value={confirmation}
+                  placeholder={t('backup.confirmationPlaceholder')}
+                  onChangeText={setConfirmation}
+                  testID="backup-confirmation"
+                />
+              )}
+              <Text style={styles.hint}>{t('backup.passwordWarning')}</Text>
+              {working === 'create' ? (
+                <ActivityIndicator color="#6fb1ff" style={styles.loading} />
+              ) : (
+                <Pressable
+                  style={[styles.button, working && styles.buttonDisabled]}
+                  disabled={working !== null}
+                  onPress={create}>
+                  <Text style={styles.buttonText}>
+                    {t('backup.create.action')}
+                  </Text>
+                </Pressable>
+              )}
+
+              <Text style={styles.sectionTitle}>
+                {t('backup.restore.title')}
+              </Text>
+              <Text style={styles.description}>
+                {t('backup.restore.description')}
+              </Text>
+              {pendingPath && (
+                <>
+                  <Text style={styles.label}>
+                    {t('backup.restore.passwordRequired')}
+                  </Text>
+                  <PasswordField
+                    value={restorePassword}
+                    placeholder={t('backup.restore.passwordPlaceholder')}
+                    onChangeText={setRestorePassword}
+                    testID="restore-password"
+                  />
+                </>
+              )}
+              {working === 'restore' ? (
+                <ActivityIndicator color="#6fb1ff" style={styles.loading} />
+              ) : pendingPath ? (
+                <View style={styles.actions}>
+                  <Pressable
+                    style={[
+                      styles.button,
+                      styles.actionButton,
+                      !restorePassword && styles.buttonDisabled,
+                    ]}
+                    disabled={!restorePassword}
+                    onPress={() => restore(pendingPath, restorePassword)}>
+                    <Text style={styles.buttonText}>
+                      {t('backup.restore.action')}
+                    </Text>
+                  </Pressable>
+                  <Pressable
+                    style={[styles.secondaryButton, styles.actionButton]}
+                    onPress={() => {
+                      setPendingPath(null);
+                      setRestorePassword('');
+                    }}>
+                    <Text style={styles.secondaryButtonText}>
+                      {t('common.cancel')}
+                    </Text>
+                  </Pressable>
+                </View>
+              ) : (
+                <Pressable
+                  style={[
+                    styles.secondaryButton,
+                    working && styles.buttonDisabled,
+                  ]}
+                  disabled={working !== null}
+                  onPress={pickAndRestore}>
+                  <Text style={styles.secondaryButtonText}>
+                    {t('backup.restore.pick')}
+                  </Text>
+                </Pressable>
+              )}
+
+              {report && (
+                <View style={styles.report} testID="restore-report">
+                  {describeReport(t, report).map(line => (
+                    <Text key={line} style={styles.reportText}>
+                      {line}
+                    </Text>
+                  ))}
+                  {report.failed.length > 0 && (
+                    <Text style={styles.reportWarning}>
+                      {t('backup.report.failed', {
+                        names: report.failed.join(t('common.listSeparator')),
+                      })}
+                    </Text>
+                  )}
+                  {report.unverified.length > 0 && (
+                    <Text style={styles.reportWarning}>
+                      {t('backup.report.unverified', {
+                        names: report.unverified.join(
+                          t('common.listSeparator'),
+                        ),
+                      })}
+                    </Text>
+                  )}
+                  {report.manifestProblems > 0 && (
+                    <Text style={styles.reportWarning}>
+                      {t('backup.report.manifestProblems', {
+                        count: report.manifestProblems,
+                      })}
+                    </Text>
+                  )}
+                </View>
+              )}
+            </>
+          )}
+        </ScrollView>
+      </SafeAreaView>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#0f1424',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 24,
+    paddingVertical: 16,
+  },
+  title: {
+    color: '#fff',
+    fontSize: 20,
+    fontWeight: '700',
+    fontFamily: 'HiraginoMincho-W6',
+  },
+  headerAction: {
+    color: '#6fb1ff',
+    fontSize: 15,
+    fontWeight: '600',
+    fontFamily: 'HiraginoMincho-W6',
+  },
+  content: {
+    paddingHorizontal: 24,
+    paddingBottom: 48,
+  },
+  sectionTitle: {
+    color: '#D1597B',
+    fontSize: 14,
+    fontWeight: '700',
+    marginTop: 20,
+    marginBottom: 4,
+    fontFamily: 'HiraginoMincho-W6',
+  },
+  description: {
+    color: '#cfd3dd',
+    fontSize: 12,
+    lineHeight: 18,
+    marginBottom: 8,
+    fontFamily: 'HiraginoMincho-W3',
+  },
+  label: {
+    color: '#a3acc3',
+    fontSize: 13,
+    marginTop: 4,
+    marginBottom: 6,
+    fontFamily: 'HiraginoMincho-W3',
+  },
+  hint: {
+    color: '#9fb3d4',
+    fontSize: 11,
+    marginBottom: 8,
+    fontFamily: 'HiraginoMincho-W3',
+  },
+  input: {
+    backgroundColor: 'rgba(255,255,255,0.06)',
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    marginBottom: 8,
+    color: '#ffffff',
+    fontSize: 14,
+  },
+  loading: {
+    marginTop: 12,
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  actionButton: {
+    flex: 1,
+  },
+  button: {
+    marginTop: 8,
+    backgroundColor: '#6fb1ff',
+    borderRadius: 12,
+    paddingVertical: 12,
+    alignItems: 'center',
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  buttonText: {
+    color: '#0f1424',
+    fontWeight: '700',
+    fontFamily: 'HiraginoMincho-W6',
+  },
+  secondaryButton: {
+    marginTop: 8,
+    borderWidth: 1,
+    borderColor: '#6fb1ff',
+    borderRadius: 12,
+    paddingVertical: 12,
+    alignItems: 'center',
+  },
+  secondaryButtonText: {
+    color: '#6fb1ff',
+    fontWeight: '700',
+    fontFamily: 'HiraginoMincho-W6',
+  },
+  report: {
+    marginTop: 16,
+    backgroundColor: 'rgba(255,255,255,0.05)',
+    borderRadius: 12,
+    padding: 12,
+    gap: 4,
+  },
+  reportText: {
+    color: '#7fd6a4',
+    fontSize: 13,
+    lineHeight: 19,
+    fontFamily: 'HiraginoMincho-W3',
+  },
+  reportWarning: {
+    color: '#f85c70',
+    fontSize: 12,
+    lineHeight: 18,
+    fontFamily: 'HiraginoMincho-W3',
+  },
+});
+
+export default BackupModal;
@@ -0,0 +1,74 @@
+import React from 'react';
+import {Alert, Pressable, StyleSheet, Text} from 'react-native';
+import {useI18n} from '../services/i18n';
+import {addMarker} from '../services/markers';
+import {RecordingPosition, useRecorderService} from '../services/recorder';
+import {formatDuration} from '../utils/format';
+
+/**
+ * 録音中に「今」の位置へブックマークを付ける。
+ * ラベル入力を待つ間に時間がずれないよう、タップした時点の位置を使う。
+ */
+const BookmarkButton = (): React.JSX.Element => {
+  const recorder = useRecorderService();
+  const {t} = useI18n();
+
+  const save = async (position: RecordingPosition, label: string) => {
+    try {
+      await addMarker({
+        fileName: position.fileName,
+        offsetSeconds: position.elapsed,
+        label: label.trim() || t('marker.defaultLabel'),
+        source: 'bookmark',
+      });
+    } catch (error) {
+      Alert.alert(t('marker.saveFailed'), String(error));
+    }
+  };
+
+  const handlePress = async () => {
+    const position = await recorder.currentPosition();
+    if (!position) {
+      return;
+    }
+    Alert.prompt(
+      t('bookmark.title', {time: formatDuration(position.elapsed)}),
+      t('bookmark.message'),
+      [
+        {text: t('common.cancel'), style: 'cancel'},
+        {
+          text: t('common.save'),
+          onPress: (label?: string) => save(position, label ?? ''),
+        },
+      ],
+      'plain-text',
+    );
+  };
+
+  return (
+    <Pressable
+      style={styles.button}
+      onPress={handlePress}
+      testID="bookmark-button">
+      <Text style={styles.buttonText}>{t('bookmark.button')}</Text>
+    </Pressable>
+  );
+};
+
+const styles = StyleSheet.create({
+  button: {
+    marginTop: 10,
+    borderWidth: 1,
+    borderColor: '#D1597B',
+    borderRadius: 12,
+    paddingVertical: 10,
+    alignItems: 'center',
+  },
+  buttonText: {
+    color: '#D1597B',
+    fontWeight: '700',
+    fontFamily: 'HiraginoMincho-W6',
+  },
+});
+
+export default BookmarkButton;
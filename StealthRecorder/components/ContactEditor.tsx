@@ -0,0 +1,208 @@
+import React, {useState} from 'react';
+import {
+  Alert,
+  KeyboardTypeOptions,
+  Pressable,
+  StyleSheet,
+  Text,
+  TextInput,
+  View,
+} from 'react-native';
+import {
+  Contact,
+  deleteContact,
+  isReachable,
+  saveContact,
+} from '../services/contacts';
+import {useI18n} from '../services/i18n';
+
+type ContactEditorProps = {
+  contact: Contact;
+  isNew: boolean;
+  onBack: () => void;
+  onSaved: () => void;
+};
+
+type FieldProps = {
+  label: string;
+  value: string;
+  onChangeText: (value: string) => void;
+  keyboardType?: KeyboardTypeOptions;
+};
+
+const Field = ({
+  label,
+  value,
+  onChangeText,
+  keyboardType,
+}: FieldProps): React.JSX.Element => (
+  <View>
+    <Text style={styles.label}>{label}</Text>
+    <TextInput
+      style={styles.input}
+      value={value}
+      onChangeText={onChangeText}
+      keyboardType={keyboardType}
+      autoCapitalize="none"
+      autoCorrect={false}
+    />
+  </View>
+);
+
+const ContactEditor = ({
+  contact,
+  isNew,
+  onBack,
+  onSaved,
+}: ContactEditorProps): React.JSX.Element => {
+  const {t} = useI18n();
+  const [draft, setDraft] = useState<Contact>(contact);
+
+  const update = (patch: Partial<Contact>) =>
+    setDraft(current => ({...current, ...patch}));
+
+  const save = async () => {
+    if (!isReachable(draft)) {
+      Alert.alert(t('contacts.unreachable'));
+      return;
+    }
+    try {
+      await saveContact(draft);
+      onSaved();
+    } catch (error) {
+      Alert.alert(t('contacts.saveFailed'), String(error));
+    }
+  };
+
+  const remove = () =>
+    Alert.alert(
+      t('contacts.deleteConfirm', {
+        name: contact.name || t('contacts.untitled'),
+      }),
+      undefined,
+      [
+        {text: t('common.cancel'), style: 'cancel'},
+        {
+          text: t('contacts.delete.action'),
+          style: 'destructive',
+          onPress: async () => {
+            await deleteContact(contact.id);
+            onSaved();
+          },
+        },
+      ],
+    );
+
+  return (
+    <View>
+      <Pressable style={styles.backButton} onPress={onBack}>
+        <Text style={styles.linkText}>{t('contacts.back')}</Text>
+      </Pressable>
+      <Text style={styles.sectionTitle}>
+        {t(`contacts.kind.${draft.kind}`)}
+      </Text>
+      {draft.kind === 'duty-lawyer' && (
+        <Text style={styles.hint}>{t('contacts.dutyLawyerHint')}</Text>
+      )}
+      <Field
+        label={t('contacts.field.name')}
+        value={draft.name}
+        onChangeText={name => update({name})}
+      />
+      <Field
+        label={t('contacts.field.phone')}
+        value={draft.phone}
+        onChangeText={phone => update({phone})}
+        keyboardType="phone-pad"
+      />
+      <Field
+        label={t('contacts.field.email')}
+        value={draft.email}
+        onChangeText={email => update({email})}
+        keyboardType="email-address"
+      />
+      <Field
+        label={t('contacts.field.note')}
+        value={draft.note}
+        onChangeText={note => update({note})}
+      />
+
+      <Pressable style={styles.primaryButton} onPress={save}>
+        <Text style={styles.primaryButtonText}>{t('common.save')}</Text>
+      </Pressable>
+      {!isNew && (
+        <Pressable style={styles.deleteButton} onPress={remove}>
+          <Text style={styles.deleteText}>{t('contacts.delete')}</Text>
+        </Pressable>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  backButton: {
+    paddingVertical: 6,
+    marginBottom: 8,
+  },
+  linkText: {
+    color: '#6fb1ff',
+    fontSize: 15,
+    fontWeight: '600',
+    fontFamily: 'HiraginoMincho-W6',
+  },
+  sectionTitle: {
+    color: '#D1597B',
+    fontSize: 14,
+    fontWeight: '700',
+    marginTop: 12,
+    marginBottom: 4,
+    fontFamily: 'HiraginoMincho-W6',
+  },
+  hint: {
+    color: '#9fb3d4',
+    fontSize: 12,
+    lineHeight: 18,
+    marginBottom: 4,
+    fontFamily: 'HiraginoMincho-W3',
+  },
+  label: {
+    color: '#a3acc3',
+    fontSize: 13,
+    marginTop: 10,
+    marginBottom: 6,
+    fontFamily: 'HiraginoMincho-W3',
+  },
+  input: {
+    backgroundColor: 'rgba(255,255,255,0.06)',
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    color: '#ffffff',
+    fontSize: 14,
+  },
+  primaryButton: {
+    marginTop: 24,
+    backgroundColor: '#6fb1ff',
+    borderRadius: 12,
+    paddingVertical: 12,
+    alignItems: 'center',
+  },
+  primaryButtonText: {
+    color: '#0f1424',
+    fontWeight: '700',
+    fontFamily: 'HiraginoMincho-W6',
+  },
+  deleteButton: {
+    marginTop: 12,
+    paddingVertical: 10,
+    alignItems: 'center',
+  },
+  deleteText: {
+    color: '#f85c70',
+    fontSize: 13,
+    fontWeight: '600',
+    fontFamily: 'HiraginoMincho-W6',
+  },
+});
+
+export default ContactEditor;
@@ -0,0 +1,280 @@
+import React, {useCallback, useEffect, useState} from 'react';
+import {
+  Alert,
+  Linking,
+  Modal,
+  Pressable,
+  SafeAreaView,
+  ScrollView,
+  StyleSheet,
+  Text,
+  View,
+} from 'react-native';
+import {
+  CONTACT_KINDS,
+  Contact,
+  callURL,
+  createContact,
+  loadContacts,
+} from '../services/contacts';
+import {useI18n} from '../services/i18n';
+import ContactEditor from './ContactEditor';
+import MessageComposer from './MessageComposer';
+
+type ContactsModalProps = {
+  visible: boolean;
+  onClose: () => void;
+};
+
+type Screen =
+  | {kind: 'list'}
+  | {kind: 'edit'; contact: Contact; isNew: boolean}
+  | {kind: 'compose'; contact: Contact};
+
+/**
+ * 弁護士・当番弁護士・家族の連絡先。
+ * ワンタップで電話をかけ、状況をまとめたメッセージを端末のアプリから送る。
+ */
+const ContactsModal = ({
+  visible,
+  onClose,
+}: ContactsModalProps): React.JSX.Element => {
+  const {t} = useI18n();
+  const [contacts, setContacts] = useState<Contact[]>([]);
+  const [screen, setScreen] = useState<Screen>({kind: 'list'});
+
+  const reload = useCallback(async () => {
+    setContacts(await loadContacts());
+  }, []);
+
+  useEffect(() => {
+    if (visible) {
+      reload();
+    }
+  }, [visible, reload]);
+
+  const close = () => {
+    setScreen({kind: 'list'});
+    onClose();
+  };
+
+  const call = async (contact: Contact) => {
+    try {
+      await Linking.openURL(callURL(contact.phone));
+    } catch (error) {
+      Alert.alert(t('contacts.openFailed'), String(error));
+    }
+  };
+
+  const renderContact = (contact: Contact) => (
+    <View key={contact.id} style={styles.item}>
+      <Text style={styles.itemTitle}>
+        {contact.name || t('contacts.untitled')}
+      </Text>
+      {[contact.phone, contact.email, contact.note]
+        .filter(Boolean)
+        .map(line => (
+          <Text key={line} style={styles.itemInfo}>
+            {line}
+          </Text>
+        ))}
+      <View style={styles.itemActions}>
+        {contact.phone !== '' && (
+          <Pressable
+            style={styles.callButton}
+            onPress={() => call(contact)}
+            testID={`call-${contact.id}`}>
+            <Text style={styles.callButtonText}>{t('contacts.call')}</Text>
+          </Pressable>
+        )}
+        <Pressable
+          style={styles.actionButton}
+          onPress={() => setScreen({kind: 'compose', contact})}>
+          <Text style={styles.actionButtonText}>{t('contacts.message')}</Text>
+        </Pressable>
+        <Pressable
+          style={styles.actionButton}
+          onPress={() => setScreen({kind: 'edit', contact, isNew: false})}>
+          <Text style={styles.actionButtonText}>{t('contacts.edit')}</Text>
+        </Pressable>
+      </View>
+    </View>
+  );
+
+  return (
+    <Modal visible={visible} animationType="slide" onRequestClose={close}>
+      <SafeAreaView style={styles.container}>
+        <View style={styles.header}>
+          <Text style={styles.title}>{t('contacts.title')}</Text>
+          <Pressable onPress={close}>
+            <Text style={styles.headerAction}>{t('common.close')}</Text>
+          </Pressable>
+        </View>
+
+        <ScrollView
+          contentContainerStyle={styles.content}
+          keyboardShouldPersistTaps="handled">
+          {screen.kind === 'edit' && (
+            <ContactEditor
+              contact={screen.contact}
+              isNew={screen.isNew}
+              onBack={() => setScreen({kind: 'list'})}
+              onSaved={async () => {
+                setScreen({kind: 'list'});
+                await reload();
+              }}
+            />
+          )}
+          {screen.kind === 'compose' && (
+            <MessageComposer
+              contact={screen.contact}
+              onBack={() => setScreen({kind: 'list'})}
+            />
+          )}
+          {screen.kind === 'list' && (
+            <>
+              <Text style={styles.hint}>{t('contacts.hint')}</Text>
+              {contacts.length === 0 && (
+                <Text style={styles.emptyText}>{t('contacts.empty')}</Text>
+              )}
+              {CONTACT_KINDS.map(kind => (
+                <View key={kind}>
+                  <Text style={styles.sectionTitle}>
+                    {t(`contacts.kind.${kind}`)}
+                  </Text>
+                  {contacts
+                    .filter(contact => contact.kind === kind)
+                    .map(renderContact)}
+                  <Pressable
+                    style={styles.newButton}
+                    onPress={() =>
+                      setScreen({
+                        kind: 'edit',
+                        contact: createContact(kind),
+                        isNew: true,
+                      })
+                    }
+                    testID={`add-contact-${kind}`}>
+                    <Text style={styles.newButtonText}>
+                      {t('contacts.add', {kind: t(`contacts.kind.${kind}`)})}
+                    </Text>
+                  </Pressable>
+                </View>
+              ))}
+            </>
+          )}
+        </ScrollView>
+      </SafeAreaView>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#0f1424',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 24,
+    paddingVertical: 16,
+  },
+  title: {
+    color: '#fff',
+    fontSize: 20,
+    fontWeight: '700',
+    fontFamily: 'HiraginoMincho-W6',
+  },
+  headerAction: {
+    color: '#6fb1ff',
+    fontSize: 15,
+    fontWeight: '600',
+    fontFamily: 'HiraginoMincho-W6',
+  },
+  content: {
+    paddingHorizontal: 24,
+    paddingBottom: 48,
+  },
+  hint: {
+    color: '#9fb3d4',
+    fontSize: 11,
+    lineHeight: 17,
+    fontFamily: 'HiraginoMincho-W3',
+  },
+  emptyText: {
+    color: '#9fb3d4',
+    fontSize: 13,
+    lineHeight: 20,
+    marginTop: 16,
+    fontFamily: 'HiraginoMincho-W3',
+  },
+  sectionTitle: {
+    color: '#D1597B',
+    fontSize: 14,
+    fontWeight: '700',
+    marginTop: 20,
+    marginBottom: 4,
+    fontFamily: 'HiraginoMincho-W6',
+  },
+  item: {
+    backgroundColor: 'rgba(255,255,255,0.05)',
+    borderRadius: 12,
+    padding: 14,
+    marginTop: 8,
+    gap: 4,
+  },
+  itemTitle: {
+    color: '#ffffff',
+    fontSize: 15,
+    fontWeight: '600',
+    fontFamily: 'HiraginoMincho-W6',
+  },
+  itemInfo: {
+    color: '#9fb3d4',
+    fontSize: 12,
+    fontFamily: 'HiraginoMincho-W3',
+  },
+  itemActions: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 8,
+  },
+  callButton: {
+    backgroundColor: '#6fb1ff',
+    borderRadius: 999,
+    paddingVertical: 6,
+    paddingHorizontal: 16,
+  },
+  callButtonText: {
+    color: '#0f1424',
+    fontSize: 13,
+    fontWeight: '700',
+    fontFamily: 'HiraginoMincho-W6',
+  },
+  actionButton: {
+    borderWidth: 1,
+    borderColor: '#6fb1ff',
+    borderRadius: 999,
+    paddingVertical: 6,
+    paddingHorizontal: 14,
+  },
+  actionButtonText: {
+    color: '#6fb1ff',
+    fontSize: 13,
+    fontFamily: 'HiraginoMincho-W6',
+  },
+  newButton: {
+    marginTop: 8,
+    paddingVertical: 8,
+  },
+  newButtonText: {
+    color: '#6fb1ff',
+    fontSize: 14,
+    fontWeight: '600',
+    fontFamily: 'HiraginoMincho-W6',
+  },
+});
+
+export default ContactsModal;
@@ -0,0 +1,493 @@
+import React, {useEffect, useMemo, useState} from 'react';
+import {
+  Alert,
+  Pressable,
+  StyleSheet,
+  Text,
+  TextInput,
+  View,
+} from 'react-native';
+import {SAFETY_STEPS, SafetyStepId} from '../data/safetyChecklist';
+import {useI18n} from '../services/i18n';
+import {
+  Incident,
+  Officer,
+  buildTimeline,
+  deleteIncident,
+  saveIncident,
+} from '../services/incidents';
+import type {RecordingFile} from '../services/recorder';
+import {formatLocalDateTime, parseLocalDateTime} from '../utils/format';
+import {createId} from '../utils/id';
+
+type IncidentEditorProps = {
+  incident: Incident;
+  files: RecordingFile[];
+  onBack: () => void;
+  onSaved: () => void;
+};
+
+type FieldProps = {
+  label: string;
+  value: string;
+  onChangeText: (value: string) => void;
+  placeholder?: string;
+  multiline?: boolean;
+};
+
+const Field = ({
+  label,
+  value,
+  onChangeText,
+  placeholder,
+  multiline,
+}: FieldProps): React.JSX.Element => (
+  <View>
+    <Text style={styles.label}>{label}</Text>
+    <TextInput
+      style={[styles.input, multiline && styles.inputMultiline]}
+      value={value}
+      onChangeText={onChangeText}
+      placeholder={placeholder}
+      placeholderTextColor="#5d6b85"
+      multiline={multiline}
+    />
+  </View>
+);
+
+const IncidentEditor = ({
+  incident,
+  files,
+  onBack,
+  onSaved,
+}: IncidentEditorProps): React.JSX.Element => {
+  const {t, formatDateTime} = useI18n();
+  const [draft, setDraft] = useState<Incident>(incident);
+  const [occurredAtText, setOccurredAtText] = useState(
+    formatLocalDateTime(incident.occurredAt),
+  );
+  const [eventTime, setEventTime] = useState(
+    formatLocalDateTime(incident.occurredAt),
+  );
+  const [eventText, setEventText] = useState('');
+
+  useEffect(() => {
+    setDraft(incident);
+    setOccurredAtText(formatLocalDateTime(incident.occurredAt));
+    setEventTime(formatLocalDateTime(incident.occurredAt));
+  }, [incident]);
+
+  const timeline = useMemo(() => buildTimeline(draft, files), [draft, files]);
+
+  const update = (patch: Partial<Incident>) =>
+    setDraft(current => ({...current, ...patch}));
+
+  const updateOfficer = (id: string, patch: Partial<Officer>) =>
+    update({
+      officers: draft.officers.map(officer =>
+        officer.id === id ? {...officer, ...patch} : officer,
+      ),
+    });
+
+  const toggleStep = (id: SafetyStepId) =>
+    update({
+      completedSteps: draft.completedSteps.includes(id)
+        ? draft.completedSteps.filter(step => step !== id)
+        : [...draft.completedSteps, id],
+    });
+
+  const toggleRecording = (name: string) =>
+    update({
+      recordingNames: draft.recordingNames.includes(name)
+        ? draft.recordingNames.filter(item => item !== name)
+        : [...draft.recordingNames, name],
+    });
+
+  const addEvent = () => {
+    const time = parseLocalDateTime(eventTime);
+    if (!time) {
+      Alert.alert(
+        t('incident.invalidTime.title'),
+        t('incident.invalidTime.message'),
+      );
+      return;
+    }
+    if (!eventText.trim()) {
+      return;
+    }
+    update({
+      timeline: [
+        ...draft.timeline,
+        {
+          id: createId(),
+          time: time.toISOString(),
+          description: eventText.trim(),
+        },
+      ],
+    });
+    setEventText('');
+  };
+
+  const save = async () => {
+    const occurredAt = parseLocalDateTime(occurredAtText);
+    if (!occurredAt) {
+      Alert.alert(
+        t('incident.invalidTime.title'),
+        t('incident.invalidTime.message'),
+      );
+      return;
+    }
+    try {
+      await saveIncident({...draft, occurredAt: occurredAt.toISOString()});
+      onSaved();
+    } catch (error) {
+      Alert.alert(t('incident.saveFailed'), String(error));
+    }
+  };
+
+  const confirmDelete = () => {
+    Alert.alert(
+      t('incident.deleteConfirm.title'),
+      t('incident.deleteConfirm.message'),
+      [
+        {text: t('common.cancel'), style: 'cancel'},
+        {
+          text: t('common.delete'),
+          style: 'destructive',
+          onPress: async () => {
+            await deleteIncident(draft.id);
+            onSaved();
+          },
+        },
+      ],
+    );
+  };
+
+  return (
+    <View>
+      <Pressable onPress={onBack} style={styles.backButton}>
+        <Text style={styles.linkText}>{t('incident.back')}</Text>
+      </Pressable>
+
+      <Text style={styles.sectionTitle}>{t('incident.section.basics')}</Text>
+      <Field
+        label={t('search.field.title')}
+        value={draft.title}
+        onChangeText={title => update({title})}
+        placeholder={t('incident.titlePlaceholder')}
+      />
+      <Field
+        label={t('incident.time')}
+        value={occurredAtText}
+        onChangeText={setOccurredAtText}
+        placeholder="2024-03-05 08:30"
+      />
+      <Field
+        label={t('incident.location')}
+        value={draft.location}
+        onChangeText={location => update({location})}
+        placeholder={t('incident.locationPlaceholder')}
+      />
+      <View style={styles.row}>
+        <View style={styles.rowItem}>
+          <Field
+            label={t('incident.trainLine')}
+            value={draft.trainLine}
+            onChangeText={trainLine => update({trainLine})}
+            placeholder={t('incident.trainLinePlaceholder')}
+          />
+        </View>
+        <View style={styles.rowItem}>
+          <Field
+            label={t('incident.carNumber')}
+            value={draft.carNumber}
+            onChangeText={carNumber => update({carNumber})}
+            placeholder={t('incident.carNumberPlaceholder')}
+          />
+        </View>
+      </View>
+
+      <Text style={styles.sectionTitle}>{t('incident.section.officers')}</Text>
+      {draft.officers.map(officer => (
+        <View key={officer.id} style={styles.card}>
+          <Field
+            label={t('incident.officer.name')}
+            value={officer.name}
+            onChangeText={name => updateOfficer(officer.id, {name})}
+          />
+          <View style={styles.row}>
+            <View style={styles.rowItem}>
+              <Field
+                label={t('incident.officer.affiliation')}
+                value={officer.affiliation}
+                onChangeText={affiliation =>
+                  updateOfficer(officer.id, {affiliation})
+                }
+                placeholder={t('incident.officer.affiliationPlaceholder')}
+              />
+            </View>
+            <View style={styles.rowItem}>
+              <Field
+                label={t('incident.officer.badgeNumber')}
+                value={officer.badgeNumber}
+                onChangeText={badgeNumber =>
+                  updateOfficer(officer.id, {badgeNumber})
+                }
+              />
+            </View>
+          </View>
+          <Pressable
+            onPress={() =>
+              update({
+                officers: draft.officers.filter(item => item.id !== officer.id),
+              })
+            }>
+            <Text style={styles.deleteText}>
+              {t('incident.officer.remove')}
+            </Text>
+          </Pressable>
+        </View>
+      ))}
+      <Pressable
+        style={styles.secondaryButton}
+        onPress={() =>
+          update({
+            officers: [
+              ...draft.officers,
+              {id: createId(), name: '', badgeNumber: '', affiliation: ''},
+            ],
+          })
+        }>
+        <Text style={styles.linkText}>{t('incident.officer.add')}</Text>
+      </Pressable>
+
+      <Text style={styles.sectionTitle}>{t('incident.section.steps')}</Text>
+      {SAFETY_STEPS.map(step => {
+        const done = draft.completedSteps.includes(step.id);
+        return (
+          <Pressable
+            key={step.id}
+            style={styles.checkRow}
+            onPress={() => toggleStep(step.id)}>
+            <Text style={styles.checkMark}>{done ? '☑' : '☐'}</Text>
+            <Text style={styles.checkLabel}>
+              {step.number}
+              {t(`checklist.${step.id}.label`)}
+            </Text>
+          </Pressable>
+        );
+      })}
+
+      <Text style={styles.sectionTitle}>
+        {t('incident.section.recordings')}
+      </Text>
+      {files.length === 0 ? (
+        <Text style={styles.emptyText}>{t('history.empty')}</Text>
+      ) : (
+        files.map(file => (
+          <Pressable
+            key={file.name}
+            style={styles.checkRow}
+            onPress={() => toggleRecording(file.name)}>
+            <Text style={styles.checkMark}>
+              {draft.recordingNames.includes(file.name) ? '☑' : '☐'}
+            </Text>
+            <Text style={styles.checkLabel}>{file.name}</Text>
+          </Pressable>
+        ))
+      )}
+
+      <Text style={styles.sectionTitle}>{t('incident.section.timeline')}</Text>
+      {timeline.length === 0 ? (
+        <Text style={styles.emptyText}>{t('incident.timelineEmpty')}</Text>
+      ) : (
+        timeline.map(item => (
+          <View
+            key={item.kind === 'event' ? item.event.id : item.fileName}
+            style={styles.timelineItem}>
+            <Text style={styles.timelineTime}>{formatDateTime(item.time)}</Text>
+            <View style={styles.timelineBody}>
+              <Text style={styles.timelineText}>
+                {item.kind === 'event'
+                  ? item.event.description
+                  : t('incident.recordingStarted', {fileName: item.fileName})}
+              </Text>
+              {item.kind === 'event' && (
+                <Pressable
+                  onPress={() =>
+                    update({
+                      timeline: draft.timeline.filter(
+                        event => event.id !== item.event.id,
+                      ),
+                    })
+                  }>
+                  <Text style={styles.deleteText}>{t('common.delete')}</Text>
+                </Pressable>
+              )}
+            </View>
+          </View>
+        ))
+      )}
+      <View style={styles.card}>
+        <Field
+          label={t('incident.time')}
+          value={eventTime}
+          onChangeText={setEventTime}
+          placeholder="2024-03-05 08:35"
+        />
+        <Field
+          label={t('incident.event')}
+          value={eventText}
+          onChangeText={setEventText}
+          placeholder={t('incident.eventPlaceholder')}
+        />
+        <Pressable style={styles.secondaryButton} onPress={addEvent}>
+          <Text style={styles.linkText}>{t('incident.addEvent')}</Text>
+        </Pressable>
+      </View>
+
+      <Field
+        label={t('incident.notes')}
+        value={draft.notes}
+        onChangeText={notes => update({notes})}
+        multiline
+      />
+
+      <Pressable style={styles.primaryButton} onPress={save}>
+        <Text style={styles.primaryButtonText}>{t('common.save')}</Text>
+      </Pressable>
+      <Pressable style={styles.deleteButton} onPress={confirmDelete}>
+        <Text style={styles.deleteText}>{t('incident.delete')}</Text>
+      </Pressable>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  backButton: {
+    paddingVertical: 6,
+    marginBottom: 8,
+  },
+  linkText: {
+    color: '#6fb1ff',
+    fontSize: 15,
+    fontWeight: '600',
+    fontFamily: 'HiraginoMincho-W6',
+  },
+  sectionTitle: {
+    color: '#D1597B',
+    fontSize: 14,
+    fontWeight: '700',
+    marginTop: 20,
+    marginBottom: 4,
+    fontFamily: 'HiraginoMincho-W6',
+  },
+  label: {
+    color: '#a3acc3',
+    fontSize: 13,
+    marginTop: 10,
+    marginBottom: 6,
+    fontFamily: 'HiraginoMincho-W3',
+  },
+  input: {
+    backgroundColor: 'rgba(255,255,255,0.06)',
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    color: '#ffffff',
+    fontSize: 14,
+  },
+  inputMultiline: {
+    minHeight: 96,
+    textAlignVertical: 'top',
+  },
+  row: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  rowItem: {
+    flex: 1,
+  },
+  card: {
+    backgroundColor: 'rgba(255,255,255,0.05)',
+    borderRadius: 12,
+    padding: 12,
+    marginTop: 8,
+    gap: 4,
+  },
+  checkRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    paddingVertical: 6,
+    gap: 8,
+  },
+  checkMark: {
+    color: '#6fb1ff',
+    fontSize: 16,
+  },
+  checkLabel: {
+    flex: 1,
+    color: '#cfd3dd',
+    fontSize: 13,
+    lineHeight: 20,
+    fontFamily: 'HiraginoMincho-W3',
+  },
+  emptyText: {
+    color: '#9fb3d4',
+    fontSize: 13,
+    marginVertical: 8,
+    fontFamily: 'HiraginoMincho-W3',
+  },
+  timelineItem: {
+    flexDirection: 'row',
+    gap: 12,
+    paddingVertical: 8,
+    borderLeftWidth: 2,
+    borderLeftColor: '#6fb1ff',
+    paddingLeft: 12,
+  },
+  timelineTime: {
+    color: '#9fb3d4',
+    fontSize: 12,
+    fontFamily: 'Menlo',
+  },
+  timelineBody: {
+    flex: 1,
+    gap: 4,
+  },
+  timelineText: {
+    color: '#ffffff',
+    fontSize: 13,
+    lineHeight: 20,
+    fontFamily: 'HiraginoMincho-W3',
+  },
+  secondaryButton: {
+    marginTop: 8,
+    paddingVertical: 8,
+  },
+  primaryButton: {
+    marginTop: 24,
+    backgroundColor: '#6fb1ff',
+    borderRadius: 12,
+    paddingVertical: 12,
+    alignItems: 'center',
+  },
+  primaryButtonText: {
+    color: '#0f1424',
+    fontWeight: '700',
+    fontFamily: 'HiraginoMincho-W6',
+  },
+  deleteButton: {
+    marginTop: 12,
+    paddingVertical: 10,
+    alignItems: 'center',
+  },
+  deleteText: {
+    color: '#f85c70',
+    fontSize: 13,
+    fontWeight: '600',
+    fontFamily: 'HiraginoMincho-W6',
+  },
+});
+
+export default IncidentEditor;
@@ -0,0 +1,199 @@
+import React, {useCallback, useEffect, useState} from 'react';
+import {
+  Alert,
+  Modal,
+  Pressable,
+  SafeAreaView,
+  ScrollView,
+  StyleSheet,
+  Text,
+  View,
+} from 'react-native';
+import {SAFETY_STEPS} from '../data/safetyChecklist';
+import {useI18n} from '../services/i18n';
+import {Incident, createIncident, loadIncidents} from '../services/incidents';
+import type {RecordingFile} from '../services/recorder';
+import IncidentEditor from './IncidentEditor';
+
+type IncidentListModalProps = {
+  visible: boolean;
+  files: RecordingFile[];
+  // 開いたときに編集画面を表示する記録（twotaprecorder://open-incident?id=...）
+  initialIncidentId?: string | null;
+  onClose: () => void;
+};
+
+const IncidentListModal = ({
+  visible,
+  files,
+  initialIncidentId = null,
+  onClose,
+}: IncidentListModalProps): React.JSX.Element => {
+  const {t, formatDateTime} = useI18n();
+  const [incidents, setIncidents] = useState<Incident[]>([]);
+  const [editing, setEditing] = useState<Incident | null>(null);
+
+  const reload = useCallback(async () => {
+    const loaded = await loadIncidents();
+    setIncidents(loaded);
+    return loaded;
+  }, []);
+
+  useEffect(() => {
+    if (!visible) {
+      return;
+    }
+    reload().then(loaded => {
+      if (!initialIncidentId) {
+        return;
+      }
+      const linked = loaded.find(incident => incident.id === initialIncidentId);
+      if (linked) {
+        setEditing(linked);
+      } else {
+        Alert.alert(
+          t('incidents.notFound.title'),
+          t('incidents.notFound.message'),
+        );
+      }
+    });
+  }, [visible, reload, initialIncidentId, t]);
+
+  const close = () => {
+    setEditing(null);
+    onClose();
+  };
+
+  return (
+    <Modal visible={visible} animationType="slide" onRequestClose={close}>
+      <SafeAreaView style={styles.container}>
+        <View style={styles.header}>
+          <Text style={styles.title}>{t('app.menu.incidents')}</Text>
+          <Pressable onPress={close}>
+            <Text style={styles.headerAction}>{t('common.close')}</Text>
+          </Pressable>
+        </View>
+
+        <ScrollView
+          contentContainerStyle={styles.content}
+          keyboardShouldPersistTaps="handled">
+          {editing ? (
+            <IncidentEditor
+              incident={editing}
+              files={files}
+              onBack={() => setEditing(null)}
+              onSaved={async () => {
+                setEditing(null);
+                await reload();
+              }}
+            />
+          ) : (
+            <>
+              <Pressable
+                style={styles.newButton}
+                onPress={() => setEditing(createIncident())}>
+                <Text style={styles.newButtonText}>{t('incidents.new')}</Text>
+              </Pressable>
+              {incidents.length === 0 ? (
+                <Text style={styles.emptyText}>{t('incidents.empty')}</Text>
+              ) : (
+                incidents.map(incident => (
+                  <Pressable
+                    key={incident.id}
+                    style={styles.item}
+                    onPress={() => setEditing(incident)}>
+                    <Text style={styles.itemTitle}>
+                      {incident.title || t('incidents.untitled')}
+                    </Text>
+                    <Text style={styles.itemInfo}>
+                      {formatDateTime(incident.occurredAt)}
+                      {incident.location ? ` ・ ${incident.location}` : ''}
+                    </Text>
+                    <Text style={styles.itemInfo}>
+                      {t('incidents.summary', {
+                        recordings: incident.recordingNames.length,
+                        done: incident.completedSteps.length,
+                        total: SAFETY_STEPS.length,
+                      })}
+                    </Text>
+                  </Pressable>
+                ))
+              )}
+            </>
+          )}
+        </ScrollView>
+      </SafeAreaView>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#0f1424',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 24,
+    paddingVertical: 16,
+  },
+  title: {
+    color: '#fff',
+    fontSize: 20,
+    fontWeight: '700',
+    fontFamily: 'HiraginoMincho-W6',
+  },
+  headerAction: {
+    color: '#6fb1ff',
+    fontSize: 15,
+    fontWeight: '600',
+    fontFamily: 'HiraginoMincho-W6',
+  },
+  content: {
+    paddingHorizontal: 24,
+    paddingBottom: 48,
+  },
+  newButton: {
+    borderWidth: 1,
+    borderColor: '#6fb1ff',
+    borderRadius: 12,
+    paddingVertical: 12,
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  newButtonText: {
+    color: '#6fb1ff',
+    fontWeight: '700',
+    fontFamily: 'HiraginoMincho-W6',
+  },
+  emptyText: {
+    color: '#9fb3d4',
+    fontSize: 15,
+    lineHeight: 22,
+    textAlign: 'center',
+    marginVertical: 24,
+    fontFamily: 'HiraginoMincho-W3',
+  },
+  item: {
+    backgroundColor: 'rgba(255,255,255,0.05)',
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 8,
+  },
+  itemTitle: {
+    color: '#ffffff',
+    fontSize: 14,
+    fontWeight: '600',
+    marginBottom: 4,
+    fontFamily: 'HiraginoMincho-W6',
+  },
+  itemInfo: {
+    color: '#9fb3d4',
+    fontSize: 12,
+    fontFamily: 'HiraginoMincho-W3',
+  },
+});
+
+export default IncidentListModal;
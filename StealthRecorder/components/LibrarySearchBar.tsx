@@ -0,0 +1,195 @@
+import React from 'react';
+import {Pressable, StyleSheet, Text, TextInput, View} from 'react-native';
+import {useI18n} from '../services/i18n';
+import type {SearchQuery} from '../services/search';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const PERIODS = [
+  {key: 'all', days: null},
+  {key: 'week', days: 7},
+  {key: 'month', days: 30},
+  {key: 'year', days: 365},
+] as const;
+
+const LENGTHS = [
+  {key: 'all', min: null, max: null},
+  {key: 'short', min: null, max: 5 * 60},
+  {key: 'medium', min: 5 * 60, max: 30 * 60},
+  {key: 'long', min: 30 * 60, max: null},
+] as const;
+
+export type LibrarySearchState = {
+  text: string;
+  period: (typeof PERIODS)[number]['key'];
+  length: (typeof LENGTHS)[number]['key'];
+  tags: string[];
+};
+
+export const EMPTY_LIBRARY_SEARCH: LibrarySearchState = {
+  text: '',
+  period: 'all',
+  length: 'all',
+  tags: [],
+};
+
+export const isLibrarySearchActive = (state: LibrarySearchState): boolean =>
+  state.text.trim() !== '' ||
+  state.period !== 'all' ||
+  state.length !== 'all' ||
+  state.tags.length > 0;
+
+export const toSearchQuery = (
+  state: LibrarySearchState,
+  now: Date = new Date(),
+): SearchQuery => {
+  const period = PERIODS.find(option => option.key === state.period);
+  const length = LENGTHS.find(option => option.key === state.length);
+  return {
+    text: state.text,
+    from: period?.days ? new Date(now.getTime() - period.days * DAY_MS) : null,
+    minDurationSeconds: length?.min ?? null,
+    maxDurationSeconds: length?.max ?? null,
+    tags: state.tags,
+  };
+};
+
+type LibrarySearchBarProps = {
+  value: LibrarySearchState;
+  // 絞り込みに出すタグ（正規化済み）
+  tags: string[];
+  onChange: (value: LibrarySearchState) => void;
+};
+
+/**
+ * 録音ファイル一覧の検索欄と、期間・長さ・タグの絞り込み。
+ */
+const LibrarySearchBar = ({
+  value,
+  tags,
+  onChange,
+}: LibrarySearchBarProps): React.JSX.Element => {
+  const {t} = useI18n();
+  const toggleTag = (tag: string) =>
+    onChange({
+      ...value,
+      tags: value.tags.includes(tag)
+        ? value.tags.filter(current => current !== tag)
+        : [...value.tags, tag],
+    });
+
+  return (
+    <View style={styles.container}>
+      <TextInput
+        style={styles.input}
+        value={value.text}
+        onChangeText={text => onChange({...value, text})}
+        placeholder={t('search.placeholder')}
+        placeholderTextColor="#5d6b85"
+        autoCapitalize="none"
+        autoCorrect={false}
+        clearButtonMode="while-editing"
+        testID="library-search"
+      />
+      <View style={styles.chips}>
+        {PERIODS.map(option => (
+          <Pressable
+            key={option.key}
+            style={[
+              styles.chip,
+              option.key === value.period && styles.chipSelected,
+            ]}
+            onPress={() => onChange({...value, period: option.key})}>
+            <Text
+              style={[
+                styles.chipText,
+                option.key === value.period && styles.chipTextSelected,
+              ]}>
+              {t(`search.period.${option.key}`)}
+            </Text>
+          </Pressable>
+        ))}
+      </View>
+      <View style={styles.chips}>
+        {LENGTHS.map(option => (
+          <Pressable
+            key={option.key}
+            style={[
+              styles.chip,
+              option.key === value.length && styles.chipSelected,
+            ]}
+            onPress={() => onChange({...value, length: option.key})}>
+            <Text
+              style={[
+                styles.chipText,
+                option.key === value.length && styles.chipTextSelected,
+              ]}>
+              {t(`search.length.${option.key}`)}
+            </Text>
+          </Pressable>
+        ))}
+      </View>
+      {tags.length > 0 && (
+        <View style={styles.chips}>
+          {tags.map(tag => (
+            <Pressable
+              key={tag}
+              style={[
+                styles.chip,
+                value.tags.includes(tag) && styles.chipSelected,
+              ]}
+              onPress={() => toggleTag(tag)}>
+              <Text
+                style={[
+                  styles.chipText,
+                  value.tags.includes(tag) && styles.chipTextSelected,
+                ]}>
+                #{tag}
+              </Text>
+            </Pressable>
+          ))}
+        </View>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 8,
+    marginBottom: 12,
+  },
+  input: {
+    backgroundColor: 'rgba(255,255,255,0.06)',
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    color: '#ffffff',
+    fontSize: 14,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+  },
+  chip: {
+    borderWidth: 1,
+    borderColor: '#6fb1ff',
+    borderRadius: 999,
+    paddingVertical: 4,
+    paddingHorizontal: 10,
+  },
+  chipSelected: {
+    backgroundColor: '#6fb1ff',
+  },
+  chipText: {
+    color: '#6fb1ff',
+    fontSize: 12,
+    fontFamily: 'HiraginoMincho-W6',
+  },
+  chipTextSelected: {
+    color: '#0f1424',
+  },
+});
+
+export default LibrarySearchBar;
@@ -0,0 +1,218 @@
+import React, {useEffect, useState} from 'react';
+import {
+  Alert,
+  Linking,
+  Pressable,
+  Share,
+  StyleSheet,
+  Text,
+  TextInput,
+  View,
+} from 'react-native';
+import {
+  Contact,
+  MessageChannel,
+  composeMessage,
+  mailURL,
+  smsURL,
+  summarizeIncident,
+} from '../services/contacts';
+import {useI18n} from '../services/i18n';
+import {loadIncidents} from '../services/incidents';
+import {useRecorderService, useRecorderSnapshot} from '../services/recorder';
+
+type MessageComposerProps = {
+  contact: Contact;
+  onBack: () => void;
+};
+
+/**
+ * 連絡先に送るメッセージを用意する。
+ * 日時は開いた時点、場所と状況は最新の出来事の記録から入れ、送る前に書き換えられる。
+ */
+const MessageComposer = ({
+  contact,
+  onBack,
+}: MessageComposerProps): React.JSX.Element => {
+  const {t, formatDateTime} = useI18n();
+  const recorder = useRecorderService();
+  const {state} = useRecorderSnapshot(recorder);
+  const [now] = useState(() => new Date());
+  const [location, setLocation] = useState('');
+  const [summary, setSummary] = useState('');
+  const [incidentTitle, setIncidentTitle] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    // 保護モードのロック中は出来事の記録を読めないので差し込まない
+    loadIncidents()
+      .catch(() => [])
+      .then(([latest]) => {
+        if (cancelled || !latest) {
+          return;
+        }
+        setLocation(current => current || latest.location);
+        setSummary(current => current || summarizeIncident(t, latest));
+        setIncidentTitle(latest.title || t('contacts.untitled'));
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [t]);
+
+  const message = composeMessage(t, {
+    time: formatDateTime(now),
+    location,
+    summary,
+    isRecording: state === 'recording',
+  });
+
+  const send = async (channel: MessageChannel) => {
+    try {
+      if (channel === 'share') {
+        await Share.share({message}, {subject: t('contacts.message.subject')});
+        return;
+      }
+      await Linking.openURL(
+        channel === 'sms'
+          ? smsURL(contact.phone, message)
+          : mailURL(contact.email, t('contacts.message.subject'), message),
+      );
+    } catch (error) {
+      Alert.alert(t('contacts.openFailed'), String(error));
+    }
+  };
+
+  return (
+    <View>
+      <Pressable style={styles.backButton} onPress={onBack}>
+        <Text style={styles.linkText}>{t('contacts.back')}</Text>
+      </Pressable>
+      <Text style={styles.sectionTitle}>
+        {t('contacts.composer.title', {
+          name: contact.name || t('contacts.untitled'),
+        })}
+      </Text>
+      {incidentTitle !== null && (
+        <Text style={styles.hint}>
+          {t('contacts.composer.fromIncident', {title: incidentTitle})}
+        </Text>
+      )}
+
+      <Text style={styles.label}>{t('contacts.composer.location')}</Text>
+      <TextInput
+        style={styles.input}
+        value={location}
+        onChangeText={setLocation}
+      />
+      <Text style={styles.label}>{t('contacts.composer.summary')}</Text>
+      <TextInput
+        style={[styles.input, styles.inputMultiline]}
+        value={summary}
+        onChangeText={setSummary}
+        multiline
+      />
+
+      <Text style={styles.label}>{t('contacts.composer.preview')}</Text>
+      <View style={styles.preview}>
+        <Text style={styles.previewText} testID="contact-message">
+          {message}
+        </Text>
+      </View>
+
+      {contact.phone !== '' && (
+        <Pressable style={styles.primaryButton} onPress={() => send('sms')}>
+          <Text style={styles.primaryButtonText}>
+            {t('contacts.composer.sms')}
+          </Text>
+        </Pressable>
+      )}
+      {contact.email !== '' && (
+        <Pressable style={styles.primaryButton} onPress={() => send('mail')}>
+          <Text style={styles.primaryButtonText}>
+            {t('contacts.composer.mail')}
+          </Text>
+        </Pressable>
+      )}
+      <Pressable style={styles.secondaryButton} onPress={() => send('share')}>
+        <Text style={styles.linkText}>{t('contacts.composer.share')}</Text>
+      </Pressable>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  backButton: {
+    paddingVertical: 6,
+    marginBottom: 8,
+  },
+  linkText: {
+    color: '#6fb1ff',
+    fontSize: 15,
+    fontWeight: '600',
+    fontFamily: 'HiraginoMincho-W6',
+  },
+  sectionTitle: {
+    color: '#D1597B',
+    fontSize: 14,
+    fontWeight: '700',
+    marginTop: 12,
+    marginBottom: 4,
+    fontFamily: 'HiraginoMincho-W6',
+  },
+  hint: {
+    color: '#9fb3d4',
+    fontSize: 12,
+    lineHeight: 18,
+    fontFamily: 'HiraginoMincho-W3',
+  },
+  label: {
+    color: '#a3acc3',
+    fontSize: 13,
+    marginTop: 10,
+    marginBottom: 6,
+    fontFamily: 'HiraginoMincho-W3',
+  },
+  input: {
+    backgroundColor: 'rgba(255,255,255,0.06)',
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    color: '#ffffff',
+    fontSize: 14,
+  },
+  inputMultiline: {
+    minHeight: 72,
+    textAlignVertical: 'top',
+  },
+  preview: {
+    backgroundColor: 'rgba(255,255,255,0.05)',
+    borderRadius: 12,
+    padding: 12,
+  },
+  previewText: {
+    color: '#ffffff',
+    fontSize: 13,
+    lineHeight: 20,
+    fontFamily: 'HiraginoMincho-W3',
+  },
+  primaryButton: {
+    marginTop: 12,
+    backgroundColor: '#6fb1ff',
+    borderRadius: 12,
+    paddingVertical: 12,
+    alignItems: 'center',
+  },
+  primaryButtonText: {
+    color: '#0f1424',
+    fontWeight: '700',
+    fontFamily: 'HiraginoMincho-W6',
+  },
+  secondaryButton: {
+    marginTop: 12,
+    paddingVertical: 10,
+    alignItems: 'center',
+  },
+});
+
+export default MessageComposer;
@@ -0,0 +1,601 @@
+import React, {useEffect} from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  Clipboard,
+  Image,
+  Linking,
+  Modal,
+  Pressable,
+  SafeAreaView,
+  ScrollView,
+  StyleSheet,
+  Text,
+  View,
+} from 'react-native';
+import {ONBOARDING_STEPS, OnboardingStep} from '../data/onboardingSteps';
+import {Translate, recorderErrorMessage, useI18n} from '../services/i18n';
+import {
+  OnboardingState,
+  SelfTest,
+  SelfTestFix,
+  SelfTestStepStatus,
+  completeStep,
+  markStepDone,
+  previousStep,
+  useSelfTestReport,
+} from '../services/onboarding';
+import {useRecorderService} from '../services/recorder';
+
+type OnboardingWizardProps = {
+  visible: boolean;
+  state: OnboardingState;
+  selfTest: SelfTest;
+  onStateChange: (state: OnboardingState) => void;
+  onClose: () => void;
+  // 動作テストで録音を保存したとき
+  onFilesChanged: () => void;
+};
+
+const STATUS_MARKS: Record<SelfTestStepStatus, string> = {
+  pending: '・',
+  running: '…',
+  passed: '✓',
+  failed: '✗',
+};
+
+const fixMessage = (t: Translate, fix: SelfTestFix): string => {
+  switch (fix.reason) {
+    case 'wrong-link':
+      return t('selfTest.fix.wrong-link', {action: fix.action});
+    case 'recorder':
+      return recorderErrorMessage(t, fix.error);
+    default:
+      return t(`selfTest.fix.${fix.reason}`);
+  }
+};
+
+const openShortcuts = async (t: Translate) => {
+  const shortcutsURL = 'shortcuts://';
+  const supported = await Linking.canOpenURL(shortcutsURL);
+  if (supported) {
+    Linking.openURL(shortcutsURL);
+  } else {
+    Alert.alert(
+      t('onboarding.shortcutsUnavailable.title'),
+      t('onboarding.shortcutsUnavailable.message'),
+    );
+  }
+};
+
+const openBackTapSettings = async (t: Translate) => {
+  // Appleの非公開URLスキーム。失敗時は設定アプリトップへフォールバック。
+  const backTapURL = 'App-prefs:Accessibility';
+  const settingsURL = 'App-Prefs:';
+  const canOpenSpecific = await Linking.canOpenURL(backTapURL);
+  if (canOpenSpecific) {
+    Linking.openURL(backTapURL);
+    return;
+  }
+  const canOpenSettings = await Linking.canOpenURL(settingsURL);
+  if (canOpenSettings) {
+    Linking.openURL(settingsURL);
+  } else {
+    Alert.alert(
+      t('onboarding.settingsUnavailable.title'),
+      t('onboarding.settingsUnavailable.message'),
+    );
+  }
+};
+
+const SelfTestPanel = ({selfTest}: {selfTest: SelfTest}): React.JSX.Element => {
+  const {t} = useI18n();
+  const report = useSelfTestReport(selfTest);
+  const busy = report.state === 'waiting' || report.state === 'recording';
+
+  return (
+    <View style={styles.selfTest} testID="self-test">
+      {report.state !== 'idle' &&
+        report.steps.map(step => (
+          <View key={step.id} style={styles.testRow}>
+            <Text
+              style={[
+                styles.testMark,
+                step.status === 'passed' && styles.testPassed,
+                step.status === 'failed' && styles.testFailed,
+              ]}>
+              {STATUS_MARKS[step.status]}
+            </Text>
+            <View style={styles.testBody}>
+              <Text style={styles.testLabel}>
+                {t(`selfTest.step.${step.id}`)}
+              </Text>
+              {step.fix && (
+                <Text style={styles.testFix}>{fixMessage(t, step.fix)}</Text>
+              )}
+            </View>
+          </View>
+        ))}
+
+      {report.state === 'waiting' && (
+        <Text style={styles.testMessage}>{t('selfTest.waiting')}</Text>
+      )}
+      {report.state === 'passed' && (
+        <Text style={[styles.testMessage, styles.testPassed]}>
+          {t('selfTest.passed', {fileName: report.fileName ?? ''})}
+        </Text>
+      )}
+
+      {busy ? (
+        <View style={styles.testActions}>
+          <ActivityIndicator color="#6fb1ff" />
+          {report.state === 'waiting' && (
+            <Pressable onPress={() => selfTest.cancel()}>
+              <Text style={styles.linkText}>{t('selfTest.cancel')}</Text>
+            </Pressable>
+          )}
+        </View>
+      ) : (
+        <Pressable
+          style={styles.actionButton}
+          onPress={() => selfTest.begin()}
+          testID="self-test-start">
+          <Text style={styles.actionButtonText}>
+            {report.state === 'idle'
+              ? t('selfTest.start')
+              : t('selfTest.retry')}
+          </Text>
+        </Pressable>
+      )}
+    </View>
+  );
+};
+
+/**
+ * はじめの設定。マイク権限から背面タップの設定、動作テストまでを 1 ステップずつ進める。
+ * 完了したステップは AsyncStorage に残り、途中で閉じても続きから再開できる。
+ */
+const OnboardingWizard = ({
+  visible,
+  state,
+  selfTest,
+  onStateChange,
+  onClose,
+  onFilesChanged,
+}: OnboardingWizardProps): React.JSX.Element => {
+  const recorder = useRecorderService();
+  const {t} = useI18n();
+  const report = useSelfTestReport(selfTest);
+  const step =
+    ONBOARDING_STEPS.find(item => item.id === state.current) ??
+    ONBOARDING_STEPS[0];
+  const index = ONBOARDING_STEPS.indexOf(step);
+  const isLast = index === ONBOARDING_STEPS.length - 1;
+  // 審査要件: 権限要求の前に「閉じる/No」で抜けられる導線を置かない
+  const permissionAsked = state.completed.includes('permission');
+
+  // 動作テストに通ったらテスト録音を一覧に反映し、ステップを完了にする
+  useEffect(() => {
+    if (report.state === 'passed') {
+      onFilesChanged();
+    }
+  }, [report.state, onFilesChanged]);
+
+  useEffect(() => {
+    if (report.state === 'passed' && !state.completed.includes('self-test')) {
+      onStateChange(markStepDone(state, 'self-test'));
+    }
+  }, [report.state, state, onStateChange]);
+
+  const close = () => {
+    selfTest.cancel();
+    onClose();
+  };
+
+  const goTo = (target: OnboardingStep) => {
+    onStateChange({...state, current: target.id});
+  };
+
+  const requestPermission = async () => {
+    let granted = false;
+    try {
+      granted = await recorder.requestPermission();
+    } catch {
+      granted = false;
+    }
+    if (!granted) {
+      Alert.alert(
+        t('app.permissionRequired.title'),
+        t('app.permissionRequired.message'),
+      );
+    }
+    // 許可されなくても先へ進める（動作テストでもう一度確かめる）
+    onStateChange(completeStep(state, 'permission'));
+  };
+
+  const runAction = () => {
+    switch (step.action) {
+      case 'permission':
+        requestPermission();
+        break;
+      case 'shortcuts':
+        openShortcuts(t);
+        break;
+      case 'settings':
+        openBackTapSettings(t);
+        break;
+      case 'files':
+        Linking.openURL('shareddocuments://');
+        break;
+      case 'self-test':
+        break;
+    }
+  };
+
+  const next = () => {
+    // 動作テストは通ったときだけ完了にする
+    const done = step.id === 'self-test' ? state : markStepDone(state, step.id);
+    if (isLast) {
+      onStateChange(done);
+      close();
+      return;
+    }
+    onStateChange({...done, current: ONBOARDING_STEPS[index + 1].id});
+  };
+
+  const previous = previousStep(step.id);
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      onRequestClose={() => {
+        if (permissionAsked) {
+          close();
+        }
+      }}>
+      <SafeAreaView style={styles.container}>
+        <View style={styles.header}>
+          <Text style={styles.title}>{t('onboarding.title')}</Text>
+          {permissionAsked && (
+            <Pressable onPress={close}>
+              <Text style={styles.headerAction}>{t('common.close')}</Text>
+            </Pressable>
+          )}
+        </View>
+
+        {permissionAsked && (
+          <View style={styles.progress}>
+            {ONBOARDING_STEPS.map(item => {
+              const done = state.completed.includes(item.id);
+              return (
+                <Pressable
+                  key={item.id}
+                  style={[
+                    styles.progressChip,
+                    done && styles.progressChipDone,
+                    item.id === step.id && styles.progressChipCurrent,
+                  ]}
+                  onPress={() => goTo(item)}>
+                  <Text
+                    style={[
+                      styles.progressText,
+                      done && styles.progressTextDone,
+                    ]}>
+                    {done ? '✓' : item.number}
+                  </Text>
+                </Pressable>
+              );
+            })}
+          </View>
+        )}
+
+        <ScrollView contentContainerStyle={styles.content}>
+          {step.image && (
+            <Image
+              source={step.image}
+              style={styles.image}
+              resizeMode="contain"
+            />
+          )}
+          <Text style={styles.stepTitle}>
+            {step.number}
+            {t(`onboarding.${step.id}.title`)}
+          </Text>
+          <Text style={styles.stepSubtitle}>
+            {t(`onboarding.${step.id}.subtitle`)}
+          </Text>
+          <Text style={styles.description}>
+            {t(`onboarding.${step.id}.description`)}
+          </Text>
+
+          {step.copyableText && (
+            <Pressable
+              style={styles.copyButton}
+              onPress={() => {
+                Clipboard.setString(step.copyableText || '');
+                Alert.alert(t('onboarding.copied'), step.copyableText);
+              }}>
+              <Text style={styles.copyButtonText}>{step.copyableText}</Text>
+              <Text style={styles.copyButtonLabel}>
+                {t('onboarding.tapToCopy')}
+              </Text>
+            </Pressable>
+          )}
+
+          {step.action === 'self-test' ? (
+            <SelfTestPanel selfTest={selfTest} />
+          ) : (
+            <Pressable
+              style={
+                step.action === 'permission'
+                  ? styles.primaryButton
+                  : styles.actionButton
+              }
+              onPress={runAction}
+              testID={`onboarding-${step.id}`}>
+              <Text
+                style={
+                  step.action === 'permission'
+                    ? styles.primaryButtonText
+                    : styles.actionButtonText
+                }>
+                {t(`onboarding.${step.id}.action`)}
+              </Text>
+            </Pressable>
+          )}
+        </ScrollView>
+
+        {permissionAsked && (
+          <View style={styles.footer}>
+            <Pressable
+              style={[styles.footerButton, !previous && styles.hidden]}
+              disabled={!previous}
+              onPress={() =>
+                previous && onStateChange({...state, current: previous})
+              }>
+              <Text style={styles.footerSecondaryText}>
+                {t('onboarding.back')}
+              </Text>
+            </Pressable>
+            <Text style={styles.footerCount}>
+              {index + 1} / {ONBOARDING_STEPS.length}
+            </Text>
+            <Pressable
+              style={[styles.footerButton, styles.footerPrimary]}
+              onPress={next}
+              testID="onboarding-next">
+              <Text style={styles.footerPrimaryText}>
+                {isLast
+                  ? t('onboarding.done')
+                  : step.id === 'self-test' && report.state !== 'passed'
+                  ? t('onboarding.later')
+                  : t('onboarding.next')}
+              </Text>
+            </Pressable>
+          </View>
+        )}
+      </SafeAreaView>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#0f1424',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 24,
+    paddingVertical: 16,
+  },
+  title: {
+    color: '#fff',
+    fontSize: 20,
+    fontWeight: '700',
+    fontFamily: 'HiraginoMincho-W6',
+  },
+  headerAction: {
+    color: '#6fb1ff',
+    fontSize: 15,
+    fontWeight: '600',
+    fontFamily: 'HiraginoMincho-W6',
+  },
+  progress: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    gap: 8,
+    paddingHorizontal: 24,
+    marginBottom: 8,
+  },
+  progressChip: {
+    width: 32,
+    height: 32,
+    borderRadius: 999,
+    borderWidth: 1,
+    borderColor: '#5d6b85',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  progressChipDone: {
+    borderColor: '#7fd6a4',
+  },
+  progressChipCurrent: {
+    borderColor: '#6fb1ff',
+    borderWidth: 2,
+  },
+  progressText: {
+    color: '#9fb3d4',
+    fontSize: 13,
+    fontFamily: 'HiraginoMincho-W6',
+  },
+  progressTextDone: {
+    color: '#7fd6a4',
+  },
+  content: {
+    paddingHorizontal: 24,
+    paddingBottom: 48,
+  },
+  image: {
+    width: '100%',
+    height: 200,
+    borderRadius: 12,
+    marginBottom: 12,
+  },
+  stepTitle: {
+    color: '#ffffff',
+    fontSize: 18,
+    fontWeight: '700',
+    fontFamily: 'HiraginoMincho-W6',
+  },
+  stepSubtitle: {
+    color: '#9fb3d4',
+    fontSize: 13,
+    lineHeight: 18,
+    marginTop: 4,
+    marginBottom: 12,
+    fontFamily: 'HiraginoMincho-W3',
+  },
+  description: {
+    color: '#cfd3dd',
+    fontSize: 14,
+    lineHeight: 21,
+    marginBottom: 16,
+    fontFamily: 'HiraginoMincho-W3',
+  },
+  copyButton: {
+    backgroundColor: 'rgba(111,177,255,0.15)',
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#6fb1ff',
+    padding: 12,
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  copyButtonText: {
+    color: '#6fb1ff',
+    fontSize: 15,
+    fontWeight: '700',
+    fontFamily: 'Menlo',
+  },
+  copyButtonLabel: {
+    color: '#9fb3d4',
+    fontSize: 11,
+    marginTop: 4,
+    fontFamily: 'HiraginoMincho-W3',
+  },
+  primaryButton: {
+    backgroundColor: '#6fb1ff',
+    borderRadius: 12,
+    paddingVertical: 12,
+    alignItems: 'center',
+  },
+  primaryButtonText: {
+    color: '#0f1424',
+    fontWeight: '700',
+    fontFamily: 'HiraginoMincho-W6',
+  },
+  actionButton: {
+    alignSelf: 'flex-start',
+    borderRadius: 999,
+    borderWidth: 1,
+    borderColor: '#6fb1ff',
+    paddingVertical: 6,
+    paddingHorizontal: 16,
+  },
+  actionButtonText: {
+    color: '#6fb1ff',
+    fontWeight: '600',
+    fontFamily: 'HiraginoMincho-W6',
+  },
+  selfTest: {
+    gap: 8,
+  },
+  testRow: {
+    flexDirection: 'row',
+    gap: 10,
+  },
+  testMark: {
+    width: 16,
+    color: '#9fb3d4',
+    fontSize: 14,
+    fontFamily: 'HiraginoMincho-W6',
+  },
+  testPassed: {
+    color: '#7fd6a4',
+  },
+  testFailed: {
+    color: '#f85c70',
+  },
+  testBody: {
+    flex: 1,
+  },
+  testLabel: {
+    color: '#ffffff',
+    fontSize: 14,
+    fontFamily: 'HiraginoMincho-W3',
+  },
+  testFix: {
+    color: '#f85c70',
+    fontSize: 12,
+    lineHeight: 18,
+    marginTop: 2,
+    fontFamily: 'HiraginoMincho-W3',
+  },
+  testMessage: {
+    color: '#cfd3dd',
+    fontSize: 13,
+    lineHeight: 19,
+    fontFamily: 'HiraginoMincho-W3',
+  },
+  testActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 16,
+  },
+  linkText: {
+    color: '#6fb1ff',
+    fontSize: 13,
+    fontFamily: 'HiraginoMincho-W6',
+  },
+  footer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 24,
+    paddingVertical: 12,
+    borderTopWidth: 1,
+    borderTopColor: 'rgba(255,255,255,0.06)',
+  },
+  footerButton: {
+    paddingVertical: 10,
+    paddingHorizontal: 16,
+    borderRadius: 12,
+  },
+  footerPrimary: {
+    backgroundColor: '#6fb1ff',
+  },
+  hidden: {
+    opacity: 0,
+  },
+  footerSecondaryText: {
+    color: '#6fb1ff',
+    fontWeight: '700',
+    fontFamily: 'HiraginoMincho-W6',
+  },
+  footerPrimaryText: {
+    color: '#0f1424',
+    fontWeight: '700',
+    fontFamily: 'HiraginoMincho-W6',
+  },
+  footerCount: {
+    color: '#9fb3d4',
+    fontSize: 13,
+    fontFamily: 'Menlo',
+  },
+});
+
+export default OnboardingWizard;
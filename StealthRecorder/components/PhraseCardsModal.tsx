@@ -0,0 +1,262 @@
+import React, {useEffect, useState} from 'react';
+import {
+  Alert,
+  Modal,
+  Pressable,
+  SafeAreaView,
+  ScrollView,
+  StyleSheet,
+  Text,
+  View,
+} from 'react-native';
+import {PHRASE_CARDS, PhraseLanguage} from '../data/phraseCards';
+import type {SafetyStepId} from '../data/safetyChecklist';
+import {LOCALE_NAMES, useI18n} from '../services/i18n';
+import {markPhraseCard, usePhraseSpeaker} from '../services/phrases';
+import {useRecorderService, useRecorderSnapshot} from '../services/recorder';
+
+type PhraseCardsModalProps = {
+  visible: boolean;
+  onClose: () => void;
+};
+
+const otherLanguage = (language: PhraseLanguage): PhraseLanguage =>
+  language === 'ja' ? 'en' : 'ja';
+
+/**
+ * 駅員や警察官に見せる・読み上げるフレーズカード。
+ * 相手が読めるよう日本語を大きく表示し、英語の訳を添える（切り替えもできる）。
+ * 録音中に開いたカードはマーカーに残す。
+ */
+const PhraseCardsModal = ({
+  visible,
+  onClose,
+}: PhraseCardsModalProps): React.JSX.Element => {
+  const {t} = useI18n();
+  const recorder = useRecorderService();
+  const {state} = useRecorderSnapshot(recorder);
+  const speaker = usePhraseSpeaker();
+  const [cardId, setCardId] = useState<SafetyStepId>(PHRASE_CARDS[0].id);
+  const [language, setLanguage] = useState<PhraseLanguage>('ja');
+  const card = PHRASE_CARDS.find(item => item.id === cardId) ?? PHRASE_CARDS[0];
+
+  // 開いたとき・カードを切り替えたときに記録する
+  useEffect(() => {
+    if (!visible) {
+      return;
+    }
+    const title = t(`phrases.${card.id}.title`);
+    markPhraseCard(recorder, card, t('phrases.marker', {title})).catch(error =>
+      Alert.alert(t('marker.saveFailed'), String(error)),
+    );
+  }, [visible, card, recorder, t]);
+
+  const close = () => {
+    speaker.stop().catch(() => undefined);
+    onClose();
+  };
+
+  const speak = async () => {
+    try {
+      await speaker.speak(card, language);
+    } catch (error) {
+      Alert.alert(t('phrases.speechFailed'), String(error));
+    }
+  };
+
+  const select = (id: SafetyStepId) => {
+    speaker.stop().catch(() => undefined);
+    setCardId(id);
+  };
+
+  return (
+    <Modal visible={visible} animationType="slide" onRequestClose={close}>
+      <SafeAreaView style={styles.container}>
+        <View style={styles.header}>
+          <Text style={styles.title}>{t('phrases.title')}</Text>
+          <Pressable onPress={close}>
+            <Text style={styles.headerAction}>{t('common.close')}</Text>
+          </Pressable>
+        </View>
+
+        <View style={styles.chips}>
+          {PHRASE_CARDS.map(item => {
+            const selected = item.id === card.id;
+            return (
+              <Pressable
+                key={item.id}
+                style={[styles.chip, selected && styles.chipSelected]}
+                onPress={() => select(item.id)}
+                testID={`phrase-${item.id}`}>
+                <Text
+                  style={[
+                    styles.chipText,
+                    selected && styles.chipTextSelected,
+                  ]}>
+                  {item.number}
+                  {t(`phrases.${item.id}.title`)}
+                </Text>
+              </Pressable>
+            );
+          })}
+        </View>
+
+        <ScrollView contentContainerStyle={styles.content}>
+          <Text style={styles.hint}>
+            {state === 'recording'
+              ? t('phrases.recordingHint')
+              : t('phrases.hint')}
+          </Text>
+          <Text style={styles.phrase} testID="phrase-text">
+            {card.text[language]}
+          </Text>
+          <Text style={styles.translation}>
+            {card.text[otherLanguage(language)]}
+          </Text>
+        </ScrollView>
+
+        <View style={styles.actions}>
+          {speaker.isAvailable && (
+            <>
+              <Pressable style={styles.primaryButton} onPress={speak}>
+                <Text style={styles.primaryButtonText}>
+                  {t('phrases.speak')}
+                </Text>
+              </Pressable>
+              <Pressable
+                style={styles.secondaryButton}
+                onPress={() => speaker.stop().catch(() => undefined)}>
+                <Text style={styles.secondaryButtonText}>
+                  {t('phrases.stop')}
+                </Text>
+              </Pressable>
+            </>
+          )}
+          <Pressable
+            style={styles.secondaryButton}
+            onPress={() => {
+              speaker.stop().catch(() => undefined);
+              setLanguage(otherLanguage(language));
+            }}
+            testID="phrase-language">
+            <Text style={styles.secondaryButtonText}>
+              ⇄ {LOCALE_NAMES[otherLanguage(language)]}
+            </Text>
+          </Pressable>
+        </View>
+      </SafeAreaView>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#0f1424',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 24,
+    paddingVertical: 16,
+  },
+  title: {
+    color: '#fff',
+    fontSize: 20,
+    fontWeight: '700',
+    fontFamily: 'HiraginoMincho-W6',
+  },
+  headerAction: {
+    color: '#6fb1ff',
+    fontSize: 15,
+    fontWeight: '600',
+    fontFamily: 'HiraginoMincho-W6',
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    paddingHorizontal: 24,
+  },
+  chip: {
+    borderWidth: 1,
+    borderColor: '#6fb1ff',
+    borderRadius: 999,
+    paddingVertical: 6,
+    paddingHorizontal: 14,
+  },
+  chipSelected: {
+    backgroundColor: '#6fb1ff',
+  },
+  chipText: {
+    color: '#6fb1ff',
+    fontSize: 13,
+    fontFamily: 'HiraginoMincho-W6',
+  },
+  chipTextSelected: {
+    color: '#0f1424',
+  },
+  content: {
+    paddingHorizontal: 24,
+    paddingTop: 16,
+    paddingBottom: 48,
+  },
+  hint: {
+    color: '#9fb3d4',
+    fontSize: 11,
+    marginBottom: 16,
+    fontFamily: 'HiraginoMincho-W3',
+  },
+  // 相手に画面を見せて読んでもらう
+  phrase: {
+    color: '#ffffff',
+    fontSize: 30,
+    lineHeight: 46,
+    fontWeight: '700',
+    fontFamily: 'HiraginoMincho-W6',
+  },
+  translation: {
+    color: '#cfd3dd',
+    fontSize: 15,
+    lineHeight: 24,
+    marginTop: 20,
+    fontFamily: 'HiraginoMincho-W3',
+  },
+  actions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 10,
+    paddingHorizontal: 24,
+    paddingVertical: 16,
+    borderTopWidth: 1,
+    borderTopColor: 'rgba(255,255,255,0.08)',
+  },
+  primaryButton: {
+    backgroundColor: '#6fb1ff',
+    borderRadius: 12,
+    paddingVertical: 12,
+    paddingHorizontal: 20,
+  },
+  primaryButtonText: {
+    color: '#0f1424',
+    fontSize: 15,
+    fontWeight: '700',
+    fontFamily: 'HiraginoMincho-W6',
+  },
+  secondaryButton: {
+    borderWidth: 1,
+    borderColor: '#6fb1ff',
+    borderRadius: 12,
+    paddingVertical: 12,
+    paddingHorizontal: 20,
+  },
+  secondaryButtonText: {
+    color: '#6fb1ff',
+    fontSize: 15,
+    fontWeight: '600',
+    fontFamily: 'HiraginoMincho-W6',
+  },
+});
+
+export default PhraseCardsModal;
@@ -0,0 +1,119 @@
+import React, {useState} from 'react';
+import {GestureResponderEvent, StyleSheet, Text, View} from 'react-native';
+import type {Marker} from '../services/markers';
+import {formatDuration} from '../utils/format';
+
+type PlaybackScrubberProps = {
+  position: number;
+  duration: number;
+  onSeek: (seconds: number) => void;
+  // 録音中に残したマーカーをバー上に目盛りとして表示する
+  markers?: Marker[];
+};
+
+const PlaybackScrubber = ({
+  position,
+  duration,
+  onSeek,
+  markers = [],
+}: PlaybackScrubberProps): React.JSX.Element => {
+  const [width, setWidth] = useState(0);
+  // ドラッグ中は指の位置を優先して表示する
+  const [dragPosition, setDragPosition] = useState<number | null>(null);
+
+  const positionAt = (event: GestureResponderEvent) => {
+    if (width <= 0 || duration <= 0) {
+      return 0;
+    }
+    const ratio = Math.max(0, Math.min(event.nativeEvent.locationX / width, 1));
+    return ratio * duration;
+  };
+
+  const shown = dragPosition ?? position;
+  const progress = duration > 0 ? Math.min(shown / duration, 1) : 0;
+
+  return (
+    <View>
+      <View
+        style={styles.track}
+        onLayout={event => setWidth(event.nativeEvent.layout.width)}
+        onStartShouldSetResponder={() => duration > 0}
+        onMoveShouldSetResponder={() => duration > 0}
+        onResponderGrant={event => setDragPosition(positionAt(event))}
+        onResponderMove={event => setDragPosition(positionAt(event))}
+        onResponderRelease={event => {
+          setDragPosition(null);
+          onSeek(positionAt(event));
+        }}
+        onResponderTerminate={() => setDragPosition(null)}>
+        <View style={styles.rail} />
+        {duration > 0 &&
+          markers.map(marker => (
+            <View
+              key={marker.id}
+              style={[
+                styles.tick,
+                {
+                  left: `${
+                    Math.min(marker.offsetSeconds / duration, 1) * 100
+                  }%`,
+                },
+              ]}
+            />
+          ))}
+        <View style={[styles.fill, {width: `${progress * 100}%`}]} />
+        <View style={[styles.thumb, {left: `${progress * 100}%`}]} />
+      </View>
+      <View style={styles.times}>
+        <Text style={styles.time}>{formatDuration(shown)}</Text>
+        <Text style={styles.time}>{formatDuration(duration)}</Text>
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  track: {
+    height: 28,
+    justifyContent: 'center',
+  },
+  rail: {
+    height: 4,
+    borderRadius: 2,
+    backgroundColor: 'rgba(255,255,255,0.15)',
+  },
+  fill: {
+    position: 'absolute',
+    left: 0,
+    height: 4,
+    borderRadius: 2,
+    backgroundColor: '#6fb1ff',
+  },
+  tick: {
+    position: 'absolute',
+    width: 2,
+    height: 12,
+    marginLeft: -1,
+    borderRadius: 1,
+    backgroundColor: '#D1597B',
+  },
+  thumb: {
+    position: 'absolute',
+    width: 14,
+    height: 14,
+    marginLeft: -7,
+    borderRadius: 7,
+    backgroundColor: '#ffffff',
+  },
+  times: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  time: {
+    color: '#9fb3d4',
+    fontSize: 12,
+    fontFamily: 'Menlo',
+  },
+});
+
+export default PlaybackScrubber;
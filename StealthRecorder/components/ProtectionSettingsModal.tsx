@@ -0,0 +1,483 @@
+import React, {useState} from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  Modal,
+  Pressable,
+  SafeAreaView,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  View,
+} from 'react-native';
+import {protectionErrorMessage, useI18n} from '../services/i18n';
+import {
+  toProtectionError,
+  useProtection,
+  useProtectionStatus,
+} from '../services/protection';
+
+type ProtectionSettingsModalProps = {
+  visible: boolean;
+  // 有効にしたときに暗号化する既存の録音
+  fileNames: string[];
+  onClose: () => void;
+  // 有効・解除で録音ファイルの状態が変わったとき
+  onChanged: () => void;
+};
+
+const BIOMETRY_LABELS = {faceID: 'Face ID', touchID: 'Touch ID', none: ''};
+
+// 操作ごとに protection.<action>.done / .failed の文言を使う
+type ProtectionAction = 'enable' | 'changePasscode' | 'disable' | 'biometrics';
+
+type PasscodeFieldProps = {
+  value: string;
+  placeholder: string;
+  onChangeText: (value: string) => void;
+  testID?: string;
+};
+
+const PasscodeField = ({
+  value,
+  placeholder,
+  onChangeText,
+  testID,
+}: PasscodeFieldProps): React.JSX.Element => (
+  <TextInput
+    style={styles.input}
+    value={value}
+    onChangeText={onChangeText}
+    placeholder={placeholder}
+    placeholderTextColor="#5d6b85"
+    keyboardType="number-pad"
+    secureTextEntry
+    maxLength={12}
+    testID={testID}
+  />
+);
+
+/**
+ * 保護モードの設定。有効にすると録音と文字起こしを端末内で暗号化し、
+ * 聞く・共有するときにパスコードか生体認証でのロック解除を求める。
+ */
+const ProtectionSettingsModal = ({
+  visible,
+  fileNames,
+  onClose,
+  onChanged,
+}: ProtectionSettingsModalProps): React.JSX.Element => {
+  const {t} = useI18n();
+  const protection = useProtection();
+  const status = useProtectionStatus(protection);
+  const [passcode, setPasscode] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [current, setCurrent] = useState('');
+  const [useBiometrics, setUseBiometrics] = useState(true);
+  const [working, setWorking] = useState(false);
+  const biometryLabel = BIOMETRY_LABELS[status.biometryType];
+
+  const resetInputs = () => {
+    setPasscode('');
+    setConfirmation('');
+    setCurrent('');
+  };
+
+  const close = () => {
+    resetInputs();
+    onClose();
+  };
+
+  const run = async (
+    action: ProtectionAction,
+    task: () => Promise<string | null>,
+  ) => {
+    setWorking(true);
+    try {
+      const message = await task();
+      resetInputs();
+      if (message) {
+        Alert.alert(t(`protection.${action}.done`), message);
+      }
+    } catch (error) {
+      Alert.alert(
+        t(`protection.${action}.failed`, {biometry: biometryLabel}),
+        protectionErrorMessage(t, toProtectionError(error)),
+      );
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const enable = () =>
+    run('enable', async () => {
+      const count = await protection.enable(
+        passcode,
+        confirmation,
+        useBiometrics && biometryLabel !== '',
+        fileNames,
+      );
+      onChanged();
+      return t('protection.enable.message', {count});
+    });
+
+  const changePasscode = () =>
+    run('changePasscode', async () => {
+      await protection.changePasscode(current, passcode, confirmation);
+      return t('protection.changePasscode.message');
+    });
+
+  const disable = () =>
+    Alert.alert(
+      t('protection.disableConfirm.title'),
+      t('protection.disableConfirm.message'),
+      [
+        {text: t('common.cancel'), style: 'cancel'},
+        {
+          text: t('protection.disableConfirm.action'),
+          style: 'destructive',
+          onPress: () =>
+            run('disable', async () => {
+              await protection.disable(current);
+              onChanged();
+              return null;
+            }),
+        },
+      ],
+    );
+
+  return (
+    <Modal visible={visible} animationType="slide" onRequestClose={close}>
+      <SafeAreaView style={styles.container}>
+        <View style={styles.header}>
+          <Text style={styles.title}>{t('protection.title')}</Text>
+          <Pressable onPress={close}>
+            <Text style={styles.headerAction}>{t('common.close')}</Text>
+          </Pressable>
+        </View>
+
+        <ScrollView
+          contentContainerStyle={styles.content}
+          keyboardShouldPersistTaps="handled">
+          <Text style={styles.description}>{t('protection.description')}</Text>
+
+          {!protection.isAvailable ? (
+            <Text style={styles.hint}>{t('protection.unavailable')}</Text>
+          ) : !status.enabled ? (
+            <>
+              <Text style={styles.sectionTitle}>
+                {t('protection.setup.title')}
+              </Text>
+              <Text style={styles.hint}>{t('protection.setup.hint')}</Text>
+              <PasscodeField
+                value={passcode}
+                placeholder={t('protection.passcode')}
+                onChangeText={setPasscode}
+                testID="protection-passcode"
+              />
+              <PasscodeField
+                value={confirmation}
+                placeholder={t('backup.confirmationPlaceholder')}
+                onChangeText={setConfirmation}
+                testID="protection-confirmation"
+              />
+              {biometryLabel !== '' && (
+                <Pressable
+                  style={[styles.chip, useBiometrics && styles.chipSelected]}
+                  onPress={() => setUseBiometrics(value => !value)}>
+                  <Text
+                    style={[
+                      styles.chipText,
+                      useBiometrics && styles.chipTextSelected,
+                    ]}>
+                    {t('protection.setup.biometrics', {
+                      biometry: biometryLabel,
+                    })}
+                  </Text>
+                </Pressable>
+              )}
+              <Text style={styles.warning}>
+                {t('protection.setup.warning')}
+              </Text>
+              {working ? (
+                <ActivityIndicator color="#6fb1ff" style={styles.loading} />
+              ) : (
+                <Pressable
+                  style={[
+                    styles.button,
+                    (!passcode || !confirmation) && styles.buttonDisabled,
+                  ]}
+                  disabled={!passcode || !confirmation}
+                  onPress={enable}>
+                  <Text style={styles.buttonText}>
+                    {t('protection.setup.action')}
+                  </Text>
+                </Pressable>
+              )}
+            </>
+          ) : (
+            <>
+              <View style={styles.statusRow}>
+                <Text style={styles.statusLabel}>{t('protection.status')}</Text>
+                <Text
+                  style={[
+                    styles.statusValue,
+                    status.unlocked && styles.statusUnlocked,
+                  ]}>
+                  {status.unlocked
+                    ? t('protection.status.unlocked')
+                    : t('protection.status.locked')}
+                </Text>
+              </View>
+              {status.unlocked && (
+                <Pressable
+                  style={styles.secondaryButton}
+                  onPress={() => protection.lock().catch(() => undefined)}>
+                  <Text style={styles.secondaryButtonText}>
+                    {t('protection.lockNow')}
+                  </Text>
+                </Pressable>
+              )}
+
+              {biometryLabel !== '' && (
+                <>
+                  <Text style={styles.sectionTitle}>{biometryLabel}</Text>
+                  <Pressable
+                    style={[
+                      styles.chip,
+                      status.biometricsEnabled && styles.chipSelected,
+                    ]}
+                    onPress={() =>
+                      run('biometrics', async () => {
+                        await protection.setBiometrics(
+                          !status.biometricsEnabled,
+                        );
+                        return null;
+                      })
+                    }>
+                    <Text
+                      style={[
+                        styles.chipText,
+                        status.biometricsEnabled && styles.chipTextSelected,
+                      ]}>
+                      {status.biometricsEnabled
+                        ? t('protection.biometrics.on')
+                        : t('protection.biometrics.off')}
+                    </Text>
+                  </Pressable>
+                  {!status.unlocked && (
+                    <Text style={styles.hint}>
+                      {t('protection.biometrics.hint')}
+                    </Text>
+                  )}
+                </>
+              )}
+
+              <Text style={styles.sectionTitle}>
+                {t('protection.passcode')}
+              </Text>
+              <PasscodeField
+                value={current}
+                placeholder={t('protection.currentPasscode')}
+                onChangeText={setCurrent}
+                testID="protection-current"
+              />
+              <PasscodeField
+                value={passcode}
+                placeholder={t('protection.newPasscode')}
+                onChangeText={setPasscode}
+              />
+              <PasscodeField
+                value={confirmation}
+                placeholder={t('protection.newPasscodeConfirmation')}
+                onChangeText={setConfirmation}
+              />
+              {working ? (
+                <ActivityIndicator color="#6fb1ff" style={styles.loading} />
+              ) : (
+                <>
+                  <Pressable
+                    style={[
+                      styles.button,
+                      (!current || !passcode) && styles.buttonDisabled,
+                    ]}
+                    disabled={!current || !passcode}
+                    onPress={changePasscode}>
+                    <Text style={styles.buttonText}>
+                      {t('protection.changePasscode.action')}
+                    </Text>
+                  </Pressable>
+                  <Pressable
+                    style={[
+                      styles.destructiveButton,
+                      !current && styles.buttonDisabled,
+                    ]}
+                    disabled={!current}
+                    onPress={disable}>
+                    <Text style={styles.destructiveButtonText}>
+                      {t('protection.disable.action')}
+                    </Text>
+                  </Pressable>
+                </>
+              )}
+            </>
+          )}
+        </ScrollView>
+      </SafeAreaView>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#0f1424',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 24,
+    paddingVertical: 16,
+  },
+  title: {
+    color: '#fff',
+    fontSize: 20,
+    fontWeight: '700',
+    fontFamily: 'HiraginoMincho-W6',
+  },
+  headerAction: {
+    color: '#6fb1ff',
+    fontSize: 15,
+    fontWeight: '600',
+    fontFamily: 'HiraginoMincho-W6',
+  },
+  content: {
+    paddingHorizontal: 24,
+    paddingBottom: 48,
+  },
+  description: {
+    color: '#cfd3dd',
+    fontSize: 13,
+    lineHeight: 20,
+    fontFamily: 'HiraginoMincho-W3',
+  },
+  sectionTitle: {
+    color: '#D1597B',
+    fontSize: 14,
+    fontWeight: '700',
+    marginTop: 20,
+    marginBottom: 4,
+    fontFamily: 'HiraginoMincho-W6',
+  },
+  hint: {
+    color: '#9fb3d4',
+    fontSize: 11,
+    marginTop: 4,
+    marginBottom: 8,
+    fontFamily: 'HiraginoMincho-W3',
+  },
+  warning: {
+    color: '#f85c70',
+    fontSize: 12,
+    marginTop: 12,
+    fontFamily: 'HiraginoMincho-W3',
+  },
+  input: {
+    backgroundColor: 'rgba(255,255,255,0.06)',
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    marginBottom: 8,
+    color: '#ffffff',
+    fontSize: 16,
+    letterSpacing: 4,
+    fontFamily: 'Menlo',
+  },
+  chip: {
+    alignSelf: 'flex-start',
+    borderWidth: 1,
+    borderColor: '#6fb1ff',
+    borderRadius: 999,
+    paddingVertical: 4,
+    paddingHorizontal: 12,
+    marginTop: 4,
+  },
+  chipSelected: {
+    backgroundColor: '#6fb1ff',
+  },
+  chipText: {
+    color: '#6fb1ff',
+    fontSize: 12,
+    fontFamily: 'HiraginoMincho-W6',
+  },
+  chipTextSelected: {
+    color: '#0f1424',
+  },
+  statusRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: 20,
+  },
+  statusLabel: {
+    color: '#a3acc3',
+    fontSize: 13,
+    fontFamily: 'HiraginoMincho-W3',
+  },
+  statusValue: {
+    color: '#f85c70',
+    fontSize: 13,
+    fontWeight: '700',
+    fontFamily: 'HiraginoMincho-W6',
+  },
+  statusUnlocked: {
+    color: '#7fd6a4',
+  },
+  loading: {
+    marginTop: 16,
+  },
+  button: {
+    marginTop: 16,
+    backgroundColor: '#6fb1ff',
+    borderRadius: 12,
+    paddingVertical: 12,
+    alignItems: 'center',
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  buttonText: {
+    color: '#0f1424',
+    fontWeight: '700',
+    fontFamily: 'HiraginoMincho-W6',
+  },
+  secondaryButton: {
+    marginTop: 12,
+    borderWidth: 1,
+    borderColor: '#6fb1ff',
+    borderRadius: 12,
+    paddingVertical: 10,
+    alignItems: 'center',
+  },
+  secondaryButtonText: {
+    color: '#6fb1ff',
+    fontWeight: '700',
+    fontFamily: 'HiraginoMincho-W6',
+  },
+  destructiveButton: {
+    marginTop: 12,
+    borderWidth: 1,
+    borderColor: '#f85c70',
+    borderRadius: 12,
+    paddingVertical: 10,
+    alignItems: 'center',
+  },
+  destructiveButtonText: {
+    color: '#f85c70',
+    fontWeight: '700',
+    fontFamily: 'HiraginoMincho-W6',
+  },
+});
+
+export default ProtectionSettingsModal;
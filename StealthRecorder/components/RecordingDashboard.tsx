@@ -0,0 +1,202 @@
+import React, {useEffect, useState} from 'react';
+import {Pressable, StyleSheet, Text, View} from 'react-native';
+import {I18n, useI18n} from '../services/i18n';
+import {
+  DEFAULT_SILENCE_WARNING_SECONDS,
+  SILENCE_WARNING_OPTIONS,
+  StorageStatus,
+  estimateRemainingSeconds,
+  loadRecordingProfile,
+  loadSilenceWarningSeconds,
+  meterFraction,
+  nextSilentSince,
+  parseSegmentName,
+  saveSilenceWarningSeconds,
+  silentSeconds,
+  useRecorderService,
+  useRecorderSnapshot,
+  useRecordingLevels,
+} from '../services/recorder';
+import type {RecordingProfile} from '../services/recorder';
+import {formatDuration} from '../utils/format';
+
+const storageWarning = (
+  {t, formatFileSize}: I18n,
+  storage: StorageStatus | null,
+  profile: RecordingProfile | undefined,
+): string | null => {
+  if (!storage || storage.level === 'ok') {
+    return null;
+  }
+  const remaining = formatDuration(
+    estimateRemainingSeconds(storage.freeBytes, profile),
+  );
+  return storage.level === 'low'
+    ? t('dashboard.storageLow', {
+        free: formatFileSize(storage.freeBytes),
+        remaining,
+      })
+    : t('dashboard.storageCritical', {remaining});
+};
+
+/**
+ * 録音中の経過時間・入力レベル・ファイルサイズ。
+ * ポケットの中などで声が拾えていないときは無音警告、
+ * 端末の空き容量が少ないときは容量の警告を出す。
+ */
+const RecordingDashboard = (): React.JSX.Element => {
+  const recorder = useRecorderService();
+  const i18n = useI18n();
+  const {t} = i18n;
+  const levels = useRecordingLevels(recorder);
+  const {fileName, storage} = useRecorderSnapshot(recorder);
+  const [profile, setProfile] = useState<RecordingProfile>();
+  const [silentSince, setSilentSince] = useState<number | null>(null);
+  const [warningSeconds, setWarningSeconds] = useState(
+    DEFAULT_SILENCE_WARNING_SECONDS,
+  );
+
+  useEffect(() => {
+    loadSilenceWarningSeconds().then(setWarningSeconds);
+    loadRecordingProfile().then(setProfile);
+  }, []);
+
+  useEffect(() => {
+    setSilentSince(current =>
+      levels ? nextSilentSince(current, levels) : null,
+    );
+  }, [levels]);
+
+  const cycleWarning = () => {
+    const index = SILENCE_WARNING_OPTIONS.findIndex(
+      option => option === warningSeconds,
+    );
+    const next =
+      SILENCE_WARNING_OPTIONS[(index + 1) % SILENCE_WARNING_OPTIONS.length];
+    setWarningSeconds(next);
+    saveSilenceWarningSeconds(next);
+  };
+
+  const silent = levels ? silentSeconds(silentSince, levels) : 0;
+  const showWarning = warningSeconds > 0 && silent >= warningSeconds;
+  const segment = fileName ? parseSegmentName(fileName) : null;
+  const storageMessage = storageWarning(i18n, storage, profile);
+
+  return (
+    <View style={styles.dashboard} testID="recording-dashboard">
+      <View style={styles.row}>
+        <Text style={styles.timer}>{formatDuration(levels?.elapsed ?? 0)}</Text>
+        <Text style={styles.size}>
+          {segment ? `${t('dashboard.part', {index: segment.index})} ・ ` : ''}
+          {i18n.formatFileSize(levels?.fileSize ?? 0)}
+        </Text>
+      </View>
+      <View style={styles.meter}>
+        <View
+          style={[
+            styles.meterFill,
+            {
+              width: `${meterFraction(levels?.averagePower ?? -160) * 100}%`,
+            },
+          ]}
+        />
+        <View
+          style={[
+            styles.meterPeak,
+            {left: `${meterFraction(levels?.peakPower ?? -160) * 100}%`},
+          ]}
+        />
+      </View>
+      {showWarning && (
+        <Text style={styles.warning}>
+          {t('dashboard.silent', {seconds: Math.floor(silent)})}
+        </Text>
+      )}
+      {storageMessage && (
+        <Text
+          style={[
+            styles.storage,
+            storage?.level !== 'low' && styles.storageCritical,
+          ]}
+          testID="storage-warning">
+          {storageMessage}
+        </Text>
+      )}
+      <Pressable onPress={cycleWarning}>
+        <Text style={styles.setting}>
+          {warningSeconds > 0
+            ? t('dashboard.silenceWarning', {seconds: warningSeconds})
+            : t('dashboard.silenceWarningOff')}
+        </Text>
+      </Pressable>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  dashboard: {
+    marginBottom: 16,
+  },
+  row: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'baseline',
+    marginBottom: 8,
+  },
+  timer: {
+    color: '#ffffff',
+    fontSize: 28,
+    fontFamily: 'Menlo',
+  },
+  size: {
+    color: '#9fb3d4',
+    fontSize: 12,
+    fontFamily: 'Menlo',
+  },
+  meter: {
+    height: 8,
+    borderRadius: 4,
+    backgroundColor: 'rgba(255,255,255,0.15)',
+    overflow: 'hidden',
+  },
+  meterFill: {
+    position: 'absolute',
+    left: 0,
+    top: 0,
+    bottom: 0,
+    backgroundColor: '#7fd6a4',
+  },
+  meterPeak: {
+    position: 'absolute',
+    top: 0,
+    bottom: 0,
+    width: 2,
+    marginLeft: -1,
+    backgroundColor: '#ffffff',
+  },
+  warning: {
+    color: '#f85c70',
+    fontSize: 13,
+    lineHeight: 19,
+    marginTop: 8,
+    fontFamily: 'HiraginoMincho-W6',
+  },
+  storage: {
+    color: '#D1597B',
+    fontSize: 13,
+    lineHeight: 19,
+    marginTop: 8,
+    fontFamily: 'HiraginoMincho-W6',
+  },
+  storageCritical: {
+    color: '#f85c70',
+  },
+  setting: {
+    color: '#9fb3d4',
+    fontSize: 11,
+    marginTop: 6,
+    fontFamily: 'HiraginoMincho-W3',
+  },
+});
+
+export default RecordingDashboard;
@@ -0,0 +1,493 @@
+import React, {useEffect, useState} from 'react';
+import {
+  Alert,
+  Pressable,
+  StyleSheet,
+  Text,
+  TextInput,
+  View,
+} from 'react-native';
+import {
+  LibraryItem,
+  parseTags,
+  toLibraryError,
+  usePlayback,
+  useRecordingLibrary,
+} from '../services/library';
+import {libraryErrorMessage, useI18n} from '../services/i18n';
+import {formatGeoFix} from '../services/location';
+import {Marker, loadMarkers} from '../services/markers';
+import {formatDuration} from '../utils/format';
+import PlaybackScrubber from './PlaybackScrubber';
+import TranscriptPanel from './TranscriptPanel';
+import VerificationBadge from './VerificationBadge';
+
+type RecordingDetailProps = {
+  item: LibraryItem;
+  existingNames: string[];
+  // 分割録音のパート（パート番号順）。分割されていなければ空か 1 件
+  segmentNames?: string[];
+  onOpenSegment?: (fileName: string) => void;
+  // 録音中のファイル（名前の変更と削除はできない）
+  isRecording?: boolean;
+  onBack: () => void;
+  // 名前変更・削除の後に一覧を読み直す（削除時は null）
+  onChanged: (fileName: string | null) => void;
+};
+
+const RecordingDetail = ({
+  item,
+  existingNames,
+  segmentNames = [],
+  onOpenSegment,
+  isRecording = false,
+  onBack,
+  onChanged,
+}: RecordingDetailProps): React.JSX.Element => {
+  const {t, formatDateTime, formatFileSize} = useI18n();
+  const library = useRecordingLibrary();
+  const {status, duration, toggle, seek} = usePlayback(library, item.name);
+  const [title, setTitle] = useState(item.metadata.title);
+  const [tagText, setTagText] = useState(item.metadata.tags.join(', '));
+  const [place, setPlace] = useState(item.metadata.place ?? '');
+  const [fileName, setFileName] = useState(item.name);
+  const [markers, setMarkers] = useState<Marker[]>([]);
+
+  useEffect(() => {
+    setTitle(item.metadata.title);
+    setTagText(item.metadata.tags.join(', '));
+    setPlace(item.metadata.place ?? '');
+    setFileName(item.name);
+    loadMarkers(item.name).then(setMarkers);
+  }, [item]);
+
+  const handleError = (alertTitle: string, error: unknown) => {
+    Alert.alert(alertTitle, libraryErrorMessage(t, toLibraryError(error)));
+  };
+
+  const saveDetails = async () => {
+    try {
+      await library.updateMetadata(item.name, {
+        ...item.metadata,
+        title: title.trim(),
+        tags: parseTags(tagText),
+        place: place.trim(),
+      });
+      onChanged(item.name);
+    } catch (error) {
+      handleError(t('detail.saveFailed'), error);
+    }
+  };
+
+  const toggleProtected = async () => {
+    try {
+      await library.updateMetadata(item.name, {
+        ...item.metadata,
+        protected: !item.metadata.protected,
+      });
+      onChanged(item.name);
+    } catch (error) {
+      handleError(t('detail.saveFailed'), error);
+    }
+  };
+
+  const rename = async () => {
+    try {
+      const next = await library.rename(item.name, fileName, existingNames);
+      onChanged(next);
+    } catch (error) {
+      handleError(t('detail.renameFailed'), error);
+    }
+  };
+
+  const share = async () => {
+    try {
+      await library.share([item.name], t);
+    } catch (error) {
+      handleError(t('library.shareFailed'), error);
+    }
+  };
+
+  const confirmDelete = () => {
+    Alert.alert(
+      t('detail.deleteConfirm.title'),
+      t('detail.deleteConfirm.message', {fileName: item.name}),
+      [
+        {text: t('common.cancel'), style: 'cancel'},
+        {
+          text: t('common.delete'),
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await library.remove(item.name);
+              onChanged(null);
+            } catch (error) {
+              handleError(t('detail.deleteFailed'), error);
+            }
+          },
+        },
+      ],
+    );
+  };
+
+  return (
+    <View>
+      <Pressable onPress={onBack} style={styles.backButton}>
+        <Text style={styles.backButtonText}>{t('detail.back')}</Text>
+      </Pressable>
+      <Text style={styles.fileName}>{item.metadata.title || item.name}</Text>
+      <Text style={styles.fileInfo}>
+        {formatFileSize(item.size)} ・ {formatDateTime(item.date)}
+      </Text>
+      <VerificationBadge status={item.verification} />
+
+      {segmentNames.length > 1 && (
+        <View style={styles.segments}>
+          <Text style={styles.label}>
+            {t('detail.segments', {count: segmentNames.length})}
+          </Text>
+          <View style={styles.segmentRow}>
+            {segmentNames.map((name, index) => (
+              <Pressable
+                key={name}
+                style={[
+                  styles.segmentChip,
+                  name === item.name && styles.segmentChipActive,
+                ]}
+                onPress={() => onOpenSegment?.(name)}>
+                <Text
+                  style={[
+                    styles.segmentChipText,
+                    name === item.name && styles.segmentChipTextActive,
+                  ]}>
+                  {t('dashboard.part', {index: index + 1})}
+                </Text>
+              </Pressable>
+            ))}
+          </View>
+        </View>
+      )}
+
+      <View style={styles.player}>
+        <Pressable style={styles.playButton} onPress={toggle}>
+          <Text style={styles.playButtonText}>
+            {status.isPlaying ? t('detail.pause') : t('detail.play')}
+          </Text>
+        </Pressable>
+        <PlaybackScrubber
+          position={status.position}
+          duration={duration}
+          onSeek={seek}
+          markers={markers}
+        />
+      </View>
+
+      {markers.length > 0 && (
+        <View style={styles.markers}>
+          <Text style={styles.label}>{t('detail.markers')}</Text>
+          {markers.map(marker => (
+            <Pressable
+              key={marker.id}
+              style={styles.markerRow}
+              onPress={() => seek(marker.offsetSeconds)}>
+              <Text style={styles.markerTime}>
+                {formatDuration(marker.offsetSeconds)}
+              </Text>
+              <Text style={styles.markerLabel}>{marker.label}</Text>
+            </Pressable>
+          ))}
+        </View>
+      )}
+
+      <TranscriptPanel
+        fileName={item.name}
+        position={status.position}
+        onSeek={seek}
+      />
+
+      <Text style={styles.label}>{t('search.field.title')}</Text>
+      <TextInput
+        style={styles.input}
+        value={title}
+        onChangeText={setTitle}
+        placeholder={t('detail.titlePlaceholder')}
+        placeholderTextColor="#5d6b85"
+      />
+      <Text style={styles.label}>{t('detail.tags')}</Text>
+      <TextInput
+        style={styles.input}
+        value={tagText}
+        onChangeText={setTagText}
+        placeholder={t('detail.tagsPlaceholder')}
+        placeholderTextColor="#5d6b85"
+        autoCapitalize="none"
+      />
+      <Text style={styles.label}>{t('detail.place')}</Text>
+      <TextInput
+        style={styles.input}
+        value={place}
+        onChangeText={setPlace}
+        placeholder={t('detail.placePlaceholder')}
+        placeholderTextColor="#5d6b85"
+      />
+      {item.metadata.location?.start && (
+        <Text style={styles.hint}>
+          {t('detail.startLocation', {
+            location: formatGeoFix(item.metadata.location.start),
+          })}
+        </Text>
+      )}
+      {item.metadata.location?.stop && (
+        <Text style={styles.hint}>
+          {t('detail.stopLocation', {
+            location: formatGeoFix(item.metadata.location.stop),
+          })}
+        </Text>
+      )}
+      <Pressable style={styles.primaryButton} onPress={saveDetails}>
+        <Text style={styles.primaryButtonText}>{t('detail.saveDetails')}</Text>
+      </Pressable>
+
+      <Pressable
+        style={[
+          styles.protectChip,
+          item.metadata.protected && styles.protectChipActive,
+        ]}
+        onPress={toggleProtected}
+        testID="protect-recording">
+        <Text
+          style={[
+            styles.protectChipText,
+            item.metadata.protected && styles.protectChipTextActive,
+          ]}>
+          {item.metadata.protected
+            ? `✓ ${t('detail.protected')}`
+            : t('detail.protected')}
+        </Text>
+      </Pressable>
+      <Text style={styles.hint}>{t('detail.protectedHint')}</Text>
+
+      <Text style={styles.label}>{t('search.field.fileName')}</Text>
+      <View style={styles.row}>
+        <TextInput
+          style={[styles.input, styles.rowInput]}
+          value={fileName}
+          onChangeText={setFileName}
+          autoCapitalize="none"
+          autoCorrect={false}
+          editable={!isRecording}
+        />
+        <Pressable
+          style={[styles.secondaryButton, isRecording && styles.buttonDisabled]}
+          disabled={isRecording}
+          onPress={rename}
+          testID="rename-recording">
+          <Text style={styles.secondaryButtonText}>{t('detail.rename')}</Text>
+        </Pressable>
+      </View>
+      {isRecording && (
+        <Text style={styles.hint}>{t('detail.recordingInProgress')}</Text>
+      )}
+
+      <View style={styles.row}>
+        <Pressable
+          style={[styles.secondaryButton, styles.rowButton]}
+          onPress={share}>
+          <Text style={styles.secondaryButtonText}>{t('detail.share')}</Text>
+        </Pressable>
+        <Pressable
+          style={[
+            styles.deleteButton,
+            styles.rowButton,
+            isRecording && styles.buttonDisabled,
+          ]}
+          disabled={isRecording}
+          onPress={confirmDelete}>
+          <Text style={styles.deleteButtonText}>{t('common.delete')}</Text>
+        </Pressable>
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  backButton: {
+    paddingVertical: 6,
+    marginBottom: 8,
+  },
+  backButtonText: {
+    color: '#6fb1ff',
+    fontSize: 15,
+    fontWeight: '600',
+    fontFamily: 'HiraginoMincho-W6',
+  },
+  fileName: {
+    color: '#ffffff',
+    fontSize: 16,
+    fontWeight: '700',
+    marginBottom: 4,
+    fontFamily: 'HiraginoMincho-W6',
+  },
+  fileInfo: {
+    color: '#9fb3d4',
+    fontSize: 12,
+    fontFamily: 'HiraginoMincho-W3',
+  },
+  segments: {
+    marginTop: 8,
+  },
+  segmentRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  segmentChip: {
+    borderWidth: 1,
+    borderColor: '#6fb1ff',
+    borderRadius: 999,
+    paddingVertical: 4,
+    paddingHorizontal: 12,
+  },
+  segmentChipActive: {
+    backgroundColor: '#6fb1ff',
+  },
+  segmentChipText: {
+    color: '#6fb1ff',
+    fontSize: 12,
+    fontFamily: 'HiraginoMincho-W6',
+  },
+  segmentChipTextActive: {
+    color: '#0f1424',
+  },
+  player: {
+    marginVertical: 16,
+    gap: 8,
+  },
+  playButton: {
+    alignSelf: 'flex-start',
+    backgroundColor: '#6fb1ff',
+    borderRadius: 999,
+    paddingVertical: 8,
+    paddingHorizontal: 24,
+  },
+  playButtonText: {
+    color: '#0f1424',
+    fontWeight: '700',
+    fontFamily: 'HiraginoMincho-W6',
+  },
+  markers: {
+    marginBottom: 8,
+  },
+  markerRow: {
+    flexDirection: 'row',
+    gap: 12,
+    paddingVertical: 6,
+  },
+  markerTime: {
+    color: '#6fb1ff',
+    fontSize: 13,
+    fontFamily: 'Menlo',
+  },
+  markerLabel: {
+    flex: 1,
+    color: '#ffffff',
+    fontSize: 13,
+    lineHeight: 18,
+    fontFamily: 'HiraginoMincho-W3',
+  },
+  label: {
+    color: '#a3acc3',
+    fontSize: 13,
+    marginTop: 12,
+    marginBottom: 6,
+    fontFamily: 'HiraginoMincho-W3',
+  },
+  protectChip: {
+    alignSelf: 'flex-start',
+    marginTop: 12,
+    borderWidth: 1,
+    borderColor: '#6fb1ff',
+    borderRadius: 999,
+    paddingVertical: 6,
+    paddingHorizontal: 14,
+  },
+  protectChipActive: {
+    backgroundColor: '#6fb1ff',
+  },
+  protectChipText: {
+    color: '#6fb1ff',
+    fontSize: 13,
+    fontFamily: 'HiraginoMincho-W6',
+  },
+  protectChipTextActive: {
+    color: '#0f1424',
+  },
+  hint: {
+    color: '#9fb3d4',
+    fontSize: 11,
+    marginTop: 4,
+    fontFamily: 'HiraginoMincho-W3',
+  },
+  input: {
+    backgroundColor: 'rgba(255,255,255,0.06)',
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    color: '#ffffff',
+    fontSize: 14,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginTop: 12,
+  },
+  rowInput: {
+    flex: 1,
+  },
+  rowButton: {
+    flex: 1,
+  },
+  primaryButton: {
+    marginTop: 12,
+    backgroundColor: '#6fb1ff',
+    borderRadius: 12,
+    paddingVertical: 10,
+    alignItems: 'center',
+  },
+  primaryButtonText: {
+    color: '#0f1424',
+    fontWeight: '700',
+    fontFamily: 'HiraginoMincho-W6',
+  },
+  secondaryButton: {
+    borderWidth: 1,
+    borderColor: '#6fb1ff',
+    borderRadius: 12,
+    paddingVertical: 10,
+    paddingHorizontal: 16,
+    alignItems: 'center',
+  },
+  secondaryButtonText: {
+    color: '#6fb1ff',
+    fontWeight: '700',
+    fontFamily: 'HiraginoMincho-W6',
+  },
+  deleteButton: {
+    borderWidth: 1,
+    borderColor: '#f85c70',
+    borderRadius: 12,
+    paddingVertical: 10,
+    alignItems: 'center',
+  },
+  deleteButtonText: {
+    color: '#f85c70',
+    fontWeight: '700',
+    fontFamily: 'HiraginoMincho-W6',
+  },
+  buttonDisabled: {
+    opacity: 0.4,
+  },
+});
+
+export default RecordingDetail;
@@ -0,0 +1,381 @@
+import React, {useEffect, useState} from 'react';
+import {
+  ActivityIndicator,
+  Modal,
+  Pressable,
+  SafeAreaView,
+  ScrollView,
+  StyleSheet,
+  Text,
+  View,
+} from 'react-native';
+import {
+  HistoryMonth,
+  RecordingHistory,
+  buildRecordingHistory,
+  calendarWeeks,
+  useRecordingLibrary,
+} from '../services/library';
+import {MessageKey, useI18n} from '../services/i18n';
+import type {RecordingFile} from '../services/recorder';
+import {formatDuration} from '../utils/format';
+
+type RecordingHistoryModalProps = {
+  visible: boolean;
+  // 録音ファイル一覧と同じもの（App で読み込んだ一覧）
+  files: RecordingFile[];
+  onClose: () => void;
+  // 録音をタップしたときに録音ファイル一覧で開く
+  onOpenRecording: (fileName: string) => void;
+};
+
+const WEEKDAYS: MessageKey[] = [
+  'history.weekday.sun',
+  'history.weekday.mon',
+  'history.weekday.tue',
+  'history.weekday.wed',
+  'history.weekday.thu',
+  'history.weekday.fri',
+  'history.weekday.sat',
+];
+
+const MonthSection = ({
+  month,
+  onOpenRecording,
+}: {
+  month: HistoryMonth;
+  onOpenRecording: (fileName: string) => void;
+}): React.JSX.Element => {
+  const {t, formatDateTime, formatFileSize} = useI18n();
+  const [selectedDay, setSelectedDay] = useState<number | null>(null);
+  const countByDay = new Map<number, number>();
+  month.recordings.forEach(recording => {
+    const day = recording.startedAt.getDate();
+    countByDay.set(day, (countByDay.get(day) ?? 0) + 1);
+  });
+  const recordings =
+    selectedDay === null
+      ? month.recordings
+      : month.recordings.filter(
+          recording => recording.startedAt.getDate() === selectedDay,
+        );
+
+  return (
+    <View style={styles.month}>
+      <Text style={styles.sectionTitle}>
+        {t('history.month', {year: month.year, month: month.month})}
+      </Text>
+      <Text style={styles.hint}>
+        {t('history.monthSummary', {
+          count: month.recordings.length,
+          duration: formatDuration(month.totalSeconds),
+          size: formatFileSize(month.totalBytes),
+        })}
+      </Text>
+
+      <View style={styles.calendar}>
+        <View style={styles.week}>
+          {WEEKDAYS.map(weekday => (
+            <Text key={weekday} style={styles.weekday}>
+              {t(weekday)}
+            </Text>
+          ))}
+        </View>
+        {calendarWeeks(month.year, month.month).map((week, i) => (
+          <View key={i} style={styles.week}>
+            {week.map((day, j) => {
+              const count = day ? countByDay.get(day) ?? 0 : 0;
+              return (
+                <Pressable
+                  key={j}
+                  style={[
+                    styles.day,
+                    count > 0 && styles.dayRecorded,
+                    day !== null && day === selectedDay && styles.daySelected,
+                  ]}
+                  disabled={count === 0}
+                  onPress={() =>
+                    setSelectedDay(current => (current === day ? null : day))
+                  }>
+                  <Text
+                    style={[styles.dayText, count > 0 && styles.dayTextActive]}>
+                    {day ?? ''}
+                  </Text>
+                  {count > 1 && <Text style={styles.dayCount}>{count}</Text>}
+                </Pressable>
+              );
+            })}
+          </View>
+        ))}
+      </View>
+
+      {recordings.map(recording => (
+        <Pressable
+          key={recording.key}
+          style={styles.recording}
+          onPress={() => onOpenRecording(recording.fileName)}>
+          <Text style={styles.recordingTitle}>{recording.title}</Text>
+          <Text style={styles.recordingInfo}>
+            {formatDateTime(recording.startedAt)} ・{' '}
+            {formatDuration(recording.durationSeconds)} ・{' '}
+            {formatFileSize(recording.size)}
+            {recording.fileCount > 1
+              ? ` ・ ${t('library.parts', {count: recording.fileCount})}`
+              : ''}
+          </Text>
+        </Pressable>
+      ))}
+    </View>
+  );
+};
+
+/**
+ * 録音の履歴（月ごとのカレンダーと一覧）と合計時間などの統計。
+ * 録音ファイル一覧と同じファイルから毎回計算するので、数字は端末内のファイルと一致する。
+ */
+const RecordingHistoryModal = ({
+  visible,
+  files,
+  onClose,
+  onOpenRecording,
+}: RecordingHistoryModalProps): React.JSX.Element => {
+  const {t, formatDate, formatFileSize} = useI18n();
+  const library = useRecordingLibrary();
+  const [history, setHistory] = useState<RecordingHistory | null>(null);
+
+  useEffect(() => {
+    if (!visible) {
+      return;
+    }
+    let cancelled = false;
+    const load = async () => {
+      setHistory(null);
+      const items = await library.loadItems(files);
+      const durations = library.isAvailable
+        ? await library.loadDurations(files.map(file => file.name))
+        : {};
+      if (!cancelled) {
+        setHistory(buildRecordingHistory(items, durations));
+      }
+    };
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [visible, files, library]);
+
+  return (
+    <Modal visible={visible} animationType="slide" onRequestClose={onClose}>
+      <SafeAreaView style={styles.container}>
+        <View style={styles.header}>
+          <Text style={styles.title}>{t('history.title')}</Text>
+          <Pressable onPress={onClose}>
+            <Text style={styles.headerAction}>{t('common.close')}</Text>
+          </Pressable>
+        </View>
+
+        <ScrollView contentContainerStyle={styles.content}>
+          {!history ? (
+            <ActivityIndicator color="#6fb1ff" style={styles.loading} />
+          ) : history.count === 0 ? (
+            <Text style={styles.emptyText}>{t('history.empty')}</Text>
+          ) : (
+            <>
+              <View style={styles.stats}>
+                <View style={styles.stat}>
+                  <Text style={styles.statValue}>{history.count}</Text>
+                  <Text style={styles.statLabel}>
+                    {t('history.stat.count')}
+                  </Text>
+                </View>
+                <View style={styles.stat}>
+                  <Text style={styles.statValue}>
+                    {formatDuration(history.totalSeconds)}
+                  </Text>
+                  <Text style={styles.statLabel}>
+                    {t('history.stat.total')}
+                  </Text>
+                </View>
+                <View style={styles.stat}>
+                  <Text style={styles.statValue}>
+                    {formatDuration(history.longest?.durationSeconds ?? 0)}
+                  </Text>
+                  <Text style={styles.statLabel}>
+                    {t('history.stat.longest')}
+                  </Text>
+                </View>
+                <View style={styles.stat}>
+                  <Text style={styles.statValue}>
+                    {formatFileSize(history.totalBytes)}
+                  </Text>
+                  <Text style={styles.statLabel}>{t('history.stat.size')}</Text>
+                </View>
+              </View>
+              {history.longest && (
+                <Pressable
+                  onPress={() => onOpenRecording(history.longest!.fileName)}>
+                  <Text style={styles.hint}>
+                    {t('history.longest', {
+                      title: history.longest.title,
+                      date: formatDate(history.longest.startedAt),
+                    })}
+                  </Text>
+                </Pressable>
+              )}
+              {history.months.map(month => (
+                <MonthSection
+                  key={month.key}
+                  month={month}
+                  onOpenRecording={onOpenRecording}
+                />
+              ))}
+            </>
+          )}
+        </ScrollView>
+      </SafeAreaView>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#0f1424',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 24,
+    paddingVertical: 16,
+  },
+  title: {
+    color: '#fff',
+    fontSize: 20,
+    fontWeight: '700',
+    fontFamily: 'HiraginoMincho-W6',
+  },
+  headerAction: {
+    color: '#6fb1ff',
+    fontSize: 15,
+    fontWeight: '600',
+    fontFamily: 'HiraginoMincho-W6',
+  },
+  content: {
+    paddingHorizontal: 24,
+    paddingBottom: 48,
+  },
+  loading: {
+    marginVertical: 24,
+  },
+  emptyText: {
+    color: '#9fb3d4',
+    fontSize: 15,
+    textAlign: 'center',
+    marginVertical: 24,
+    fontFamily: 'HiraginoMincho-W3',
+  },
+  stats: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 8,
+  },
+  stat: {
+    flexGrow: 1,
+    flexBasis: '45%',
+    backgroundColor: 'rgba(255,255,255,0.05)',
+    borderRadius: 12,
+    padding: 12,
+  },
+  statValue: {
+    color: '#ffffff',
+    fontSize: 20,
+    fontFamily: 'Menlo',
+  },
+  statLabel: {
+    color: '#9fb3d4',
+    fontSize: 12,
+    marginTop: 4,
+    fontFamily: 'HiraginoMincho-W3',
+  },
+  month: {
+    marginTop: 8,
+  },
+  sectionTitle: {
+    color: '#D1597B',
+    fontSize: 14,
+    fontWeight: '700',
+    marginTop: 16,
+    marginBottom: 4,
+    fontFamily: 'HiraginoMincho-W6',
+  },
+  hint: {
+    color: '#9fb3d4',
+    fontSize: 11,
+    marginBottom: 8,
+    fontFamily: 'HiraginoMincho-W3',
+  },
+  calendar: {
+    marginBottom: 8,
+  },
+  week: {
+    flexDirection: 'row',
+  },
+  weekday: {
+    flex: 1,
+    textAlign: 'center',
+    color: '#5d6b85',
+    fontSize: 11,
+    marginBottom: 4,
+    fontFamily: 'HiraginoMincho-W3',
+  },
+  day: {
+    flex: 1,
+    aspectRatio: 1,
+    margin: 2,
+    borderRadius: 8,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  dayRecorded: {
+    backgroundColor: 'rgba(111,177,255,0.2)',
+  },
+  daySelected: {
+    borderWidth: 1,
+    borderColor: '#6fb1ff',
+  },
+  dayText: {
+    color: '#5d6b85',
+    fontSize: 12,
+    fontFamily: 'Menlo',
+  },
+  dayTextActive: {
+    color: '#ffffff',
+  },
+  dayCount: {
+    color: '#6fb1ff',
+    fontSize: 9,
+    fontFamily: 'Menlo',
+  },
+  recording: {
+    backgroundColor: 'rgba(255,255,255,0.05)',
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 8,
+  },
+  recordingTitle: {
+    color: '#ffffff',
+    fontSize: 14,
+    fontWeight: '600',
+    marginBottom: 4,
+    fontFamily: 'HiraginoMincho-W6',
+  },
+  recordingInfo: {
+    color: '#9fb3d4',
+    fontSize: 12,
+    fontFamily: 'HiraginoMincho-W3',
+  },
+});
+
+export default RecordingHistoryModal;
@@ -0,0 +1,608 @@
+import React, {useCallback, useEffect, useMemo, useState} from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  Modal,
+  Pressable,
+  SafeAreaView,
+  ScrollView,
+  StyleSheet,
+  Text,
+  View,
+} from 'react-native';
+import type {VerificationStatus} from '../services/evidence';
+import {toExportError, useEvidenceExporter} from '../services/export';
+import {
+  MessageKey,
+  exportErrorMessage,
+  libraryErrorMessage,
+  recorderErrorMessage,
+  useI18n,
+} from '../services/i18n';
+import {loadIncidents} from '../services/incidents';
+import {
+  LibraryItem,
+  toLibraryError,
+  useRecordingLibrary,
+} from '../services/library';
+import {formatGeoFix} from '../services/location';
+import {loadMarkers} from '../services/markers';
+import {
+  RecorderError,
+  RecordingListSnapshot,
+  RecordingSortKey,
+  SortOrder,
+  groupRecordingSegments,
+} from '../services/recorder';
+import {
+  SearchDocument,
+  SearchField,
+  buildSearchIndex,
+  collectTags,
+  searchRecordings,
+} from '../services/search';
+import LibrarySearchBar, {
+  EMPTY_LIBRARY_SEARCH,
+  LibrarySearchState,
+  isLibrarySearchActive,
+  toSearchQuery,
+} from './LibrarySearchBar';
+import RecordingDetail from './RecordingDetail';
+import VerificationBadge from './VerificationBadge';
+
+type RecordingLibraryModalProps = {
+  visible: boolean;
+  listing: RecordingListSnapshot;
+  verification: Record<string, VerificationStatus>;
+  // 開いたときに詳細を表示する録音（twotaprecorder://open-library?file=...）
+  initialFileName?: string | null;
+  // 録音中のファイル（名前の変更と削除をさせない）
+  activeFileName?: string | null;
+  onClose: () => void;
+  // ファイルの変更後に App 側で一覧と検証結果を読み直す
+  onFilesChanged: () => Promise<void>;
+  onSortChange: (sort: RecordingSortKey, order: SortOrder) => void;
+};
+
+const SORT_OPTIONS: {
+  label: MessageKey;
+  sort: RecordingSortKey;
+  order: SortOrder;
+}[] = [
+  {label: 'library.sort.newest', sort: 'date', order: 'desc'},
+  {label: 'library.sort.oldest', sort: 'date', order: 'asc'},
+  {label: 'library.sort.name', sort: 'name', order: 'asc'},
+  {label: 'library.sort.largest', sort: 'size', order: 'desc'},
+];
+
+const FIELD_LABELS: Record<SearchField, MessageKey> = {
+  title: 'search.field.title',
+  tag: 'search.field.tag',
+  marker: 'search.field.marker',
+  incident: 'search.field.incident',
+  fileName: 'search.field.fileName',
+  place: 'search.field.place',
+};
+
+// 入力した駅名・路線がなければ開始時の位置を出す
+const placeOf = ({metadata}: LibraryItem): string => {
+  const fix = metadata.location?.start ?? metadata.location?.stop;
+  return metadata.place || (fix ? formatGeoFix(fix) : '');
+};
+
+const RecordingLibraryModal = ({
+  visible,
+  listing,
+  verification,
+  initialFileName = null,
+  activeFileName = null,
+  onClose,
+  onFilesChanged,
+  onSortChange,
+}: RecordingLibraryModalProps): React.JSX.Element => {
+  const {files} = listing;
+  const {t, formatDateTime, formatFileSize} = useI18n();
+  const library = useRecordingLibrary();
+  const exporter = useEvidenceExporter();
+  const [items, setItems] = useState<LibraryItem[]>([]);
+  const [openName, setOpenName] = useState<string | null>(null);
+  const [selecting, setSelecting] = useState(false);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [exporting, setExporting] = useState(false);
+  const [search, setSearch] =
+    useState<LibrarySearchState>(EMPTY_LIBRARY_SEARCH);
+  const [searchIndex, setSearchIndex] = useState<SearchDocument[]>([]);
+
+  const reloadItems = useCallback(async () => {
+    setItems(await library.loadItems(files, verification));
+  }, [library, files, verification]);
+
+  useEffect(() => {
+    if (visible) {
+      reloadItems();
+    }
+  }, [visible, reloadItems]);
+
+  // マーカーと出来事の記録、録音の長さも含めて検索できるようにする
+  useEffect(() => {
+    if (!visible || items.length === 0) {
+      return;
+    }
+    let cancelled = false;
+    const load = async () => {
+      const names = items.map(item => item.name);
+      const [markerLists, incidents, durations] = await Promise.all([
+        Promise.all(names.map(name => loadMarkers(name))),
+        loadIncidents(),
+        library.isAvailable ? library.loadDurations(names) : {},
+      ]);
+      if (!cancelled) {
+        setSearchIndex(
+          buildSearchIndex({
+            items,
+            markers: Object.fromEntries(
+              names.map((name, i) => [name, markerLists[i]]),
+            ),
+            incidents,
+            durations,
+          }),
+        );
+      }
+    };
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [visible, items, library]);
+
+  useEffect(() => {
+    if (visible && initialFileName) {
+      setOpenName(initialFileName);
+    }
+  }, [visible, initialFileName]);
+
+  // 分割録音のパートは 1 つの録音としてまとめて表示する
+  const groups = useMemo(() => groupRecordingSegments(items), [items]);
+
+  const searching = isLibrarySearchActive(search);
+  const hits = useMemo(
+    () =>
+      searching ? searchRecordings(searchIndex, toSearchQuery(search)) : [],
+    [searching, searchIndex, search],
+  );
+  const visibleGroups = useMemo(() => {
+    if (!searching) {
+      return groups;
+    }
+    const byKey = new Map(groups.map(group => [group.key, group]));
+    return hits.flatMap(hit => byKey.get(hit.document.key) ?? []);
+  }, [searching, groups, hits]);
+  const matchesByKey = useMemo(
+    () => new Map(hits.map(hit => [hit.document.key, hit.matches])),
+    [hits],
+  );
+
+  const openItem = useMemo(
+    () => items.find(item => item.name === openName) ?? null,
+    [items, openName],
+  );
+
+  const openSegments = useMemo(
+    () =>
+      groups
+        .find(group => group.files.some(item => item.name === openName))
+        ?.files.map(item => item.name) ?? [],
+    [groups, openName],
+  );
+
+  const close = () => {
+    library.stopPlayback().catch(() => undefined);
+    setOpenName(null);
+    setSelecting(false);
+    setSelected(new Set());
+    setSearch(EMPTY_LIBRARY_SEARCH);
+    onClose();
+  };
+
+  const toggleSelected = (names: string[]) => {
+    setSelected(current => {
+      const next = new Set(current);
+      if (names.every(name => next.has(name))) {
+        names.forEach(name => next.delete(name));
+      } else {
+        names.forEach(name => next.add(name));
+      }
+      return next;
+    });
+  };
+
+  const shareSelected = async () => {
+    try {
+      await library.share(Array.from(selected), t);
+      setSelecting(false);
+      setSelected(new Set());
+    } catch (error) {
+      Alert.alert(
+        t('library.shareFailed'),
+        libraryErrorMessage(t, toLibraryError(error)),
+      );
+    }
+  };
+
+  // 録音・ハッシュ記録・マーカー・出来事の記録を1つの ZIP にまとめて共有する
+  const exportSelected = async () => {
+    setExporting(true);
+    try {
+      await exporter.share(items.filter(item => selected.has(item.name)));
+      setSelecting(false);
+      setSelected(new Set());
+    } catch (error) {
+      Alert.alert(
+        t('library.exportFailed'),
+        exportErrorMessage(t, toExportError(error, 'write_failed')),
+      );
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const handleChanged = async (fileName: string | null) => {
+    setOpenName(fileName);
+    await onFilesChanged();
+    await reloadItems();
+  };
+
+  return (
+    <Modal visible={visible} animationType="slide" onRequestClose={close}>
+      <SafeAreaView style={styles.container}>
+        <View style={styles.header}>
+          <Text style={styles.title}>{t('library.title')}</Text>
+          <Pressable onPress={close}>
+            <Text style={styles.headerAction}>{t('common.close')}</Text>
+          </Pressable>
+        </View>
+
+        <ScrollView contentContainerStyle={styles.content}>
+          {openItem ? (
+            <RecordingDetail
+              item={openItem}
+              existingNames={items.map(item => item.name)}
+              segmentNames={openSegments}
+              onOpenSegment={setOpenName}
+              isRecording={openItem.name === activeFileName}
+              onBack={() => setOpenName(null)}
+              onChanged={handleChanged}
+            />
+          ) : listing.status === 'error' && items.length === 0 ? (
+            <ListingError error={listing.error} retry={onFilesChanged} />
+          ) : items.length === 0 ? (
+            listing.status === 'loading' ? (
+              <ActivityIndicator style={styles.loading} color="#6fb1ff" />
+            ) : (
+              <Text style={styles.emptyText}>{t('library.empty')}</Text>
+            )
+          ) : (
+            <>
+              {listing.status === 'error' && (
+                <ListingError error={listing.error} retry={onFilesChanged} />
+              )}
+              <View style={styles.toolbar}>
+                <Pressable
+                  onPress={() => {
+                    setSelecting(!selecting);
+                    setSelected(new Set());
+                  }}>
+                  <Text style={styles.headerAction}>
+                    {selecting ? t('common.cancel') : t('library.select')}
+                  </Text>
+                </Pressable>
+              </View>
+              <LibrarySearchBar
+                value={search}
+                tags={collectTags(searchIndex)}
+                onChange={setSearch}
+              />
+              {!searching && (
+                <View style={[styles.chips, styles.sortChips]}>
+                  {SORT_OPTIONS.map(option => {
+                    const active =
+                      option.sort === listing.sort &&
+                      option.order === listing.order;
+                    return (
+                      <Pressable
+                        key={option.label}
+                        style={[styles.chip, active && styles.chipSelected]}
+                        onPress={() => onSortChange(option.sort, option.order)}>
+                        <Text
+                          style={[
+                            styles.chipText,
+                            active && styles.chipTextSelected,
+                          ]}>
+                          {t(option.label)}
+                        </Text>
+                      </Pressable>
+                    );
+                  })}
+                </View>
+              )}
+              {searching && visibleGroups.length === 0 && (
+                <Text style={styles.emptyText}>{t('library.noMatches')}</Text>
+              )}
+              {visibleGroups.map(group => {
+                const [item] = group.files;
+                // タイトル以外で一致した箇所を 1 つだけ添える
+                const match = matchesByKey
+                  .get(group.key)
+                  ?.find(
+                    ({field}) => field === 'marker' || field === 'incident',
+                  );
+                const names = group.files.map(file => file.name);
+                const isSelected = names.every(name => selected.has(name));
+                const size = group.files.reduce(
+                  (total, file) => total + file.size,
+                  0,
+                );
+                // パートのうち 1 つでも検証に通らなければそれを表示する
+                const status =
+                  group.files.find(file => file.verification !== 'verified')
+                    ?.verification ?? item.verification;
+                return (
+                  <Pressable
+                    key={group.key}
+                    style={[styles.fileItem, isSelected && styles.fileSelected]}
+                    onPress={() =>
+                      selecting ? toggleSelected(names) : setOpenName(item.name)
+                    }>
+                    <Text style={styles.fileName}>
+                      {selecting ? (isSelected ? '☑ ' : '☐ ') : ''}
+                      {item.metadata.title || item.name}
+                    </Text>
+                    {item.metadata.title ? (
+                      <Text style={styles.fileInfo}>{item.name}</Text>
+                    ) : null}
+                    <Text style={styles.fileInfo}>
+                      {formatFileSize(size)} ・ {formatDateTime(item.date)}
+                      {group.files.length > 1
+                        ? ` ・ ${t('library.parts', {
+                            count: group.files.length,
+                          })}`
+                        : ''}
+                      {group.files.some(file => file.metadata.protected)
+                        ? ` ・ ${t('library.protected')}`
+                        : ''}
+                    </Text>
+                    {placeOf(item) !== '' && (
+                      <Text style={styles.fileInfo}>📍 {placeOf(item)}</Text>
+                    )}
+                    {item.metadata.tags.length > 0 && (
+                      <Text style={styles.tags}>
+                        {item.metadata.tags.map(tag => `#${tag}`).join(' ')}
+                      </Text>
+                    )}
+                    {match && (
+                      <Text style={styles.match} numberOfLines={1}>
+                        {t(FIELD_LABELS[match.field])}: {match.text}
+                      </Text>
+                    )}
+                    <VerificationBadge status={status} />
+                  </Pressable>
+                );
+              })}
+            </>
+          )}
+        </ScrollView>
+
+        {selecting && (
+          <View style={styles.selectionActions}>
+            <Pressable
+              style={[
+                styles.shareButton,
+                (selected.size === 0 || exporting) &&
+                  styles.shareButtonDisabled,
+              ]}
+              disabled={selected.size === 0 || exporting}
+              onPress={shareSelected}>
+              <Text style={styles.shareButtonText}>
+                {t('library.shareCount', {count: selected.size})}
+              </Text>
+            </Pressable>
+            <Pressable
+              style={[
+                styles.exportButton,
+                (selected.size === 0 || exporting) &&
+                  styles.shareButtonDisabled,
+              ]}
+              disabled={selected.size === 0 || exporting}
+              onPress={exportSelected}>
+              {exporting ? (
+                <ActivityIndicator color="#6fb1ff" />
+              ) : (
+                <Text style={styles.exportButtonText}>
+                  {t('library.exportPackage')}
+                </Text>
+              )}
+            </Pressable>
+          </View>
+        )}
+      </SafeAreaView>
+    </Modal>
+  );
+};
+
+// 一覧を読み込めなかったとき。直前に読み込めた一覧があればその上に表示する
+const ListingError = ({
+  error,
+  retry,
+}: {
+  error: RecorderError | null;
+  retry: () => Promise<void>;
+}): React.JSX.Element => {
+  const {t} = useI18n();
+  return (
+    <View style={styles.errorBox}>
+      <Text style={styles.errorText}>
+        {t('library.listFailed')}
+        {error && `\n${recorderErrorMessage(t, error)}`}
+      </Text>
+      <Pressable onPress={retry}>
+        <Text style={styles.headerAction}>{t('library.reload')}</Text>
+      </Pressable>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#0f1424',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 24,
+    paddingVertical: 16,
+  },
+  title: {
+    color: '#fff',
+    fontSize: 20,
+    fontWeight: '700',
+    fontFamily: 'HiraginoMincho-W6',
+  },
+  headerAction: {
+    color: '#6fb1ff',
+    fontSize: 15,
+    fontWeight: '600',
+    fontFamily: 'HiraginoMincho-W6',
+  },
+  content: {
+    paddingHorizontal: 24,
+    paddingBottom: 48,
+  },
+  toolbar: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    marginBottom: 12,
+  },
+  loading: {
+    marginVertical: 24,
+  },
+  errorBox: {
+    borderWidth: 1,
+    borderColor: '#f85c70',
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 12,
+    gap: 8,
+  },
+  errorText: {
+    color: '#f85c70',
+    fontSize: 13,
+    lineHeight: 20,
+    fontFamily: 'HiraginoMincho-W3',
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+  },
+  sortChips: {
+    marginBottom: 12,
+  },
+  chip: {
+    borderWidth: 1,
+    borderColor: '#6fb1ff',
+    borderRadius: 999,
+    paddingVertical: 4,
+    paddingHorizontal: 10,
+  },
+  chipSelected: {
+    backgroundColor: '#6fb1ff',
+  },
+  chipText: {
+    color: '#6fb1ff',
+    fontSize: 12,
+    fontFamily: 'HiraginoMincho-W6',
+  },
+  chipTextSelected: {
+    color: '#0f1424',
+  },
+  emptyText: {
+    color: '#9fb3d4',
+    fontSize: 15,
+    lineHeight: 22,
+    textAlign: 'center',
+    marginVertical: 24,
+    fontFamily: 'HiraginoMincho-W3',
+  },
+  fileItem: {
+    backgroundColor: 'rgba(255,255,255,0.05)',
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 8,
+    borderWidth: 1,
+    borderColor: 'transparent',
+  },
+  fileSelected: {
+    borderColor: '#6fb1ff',
+  },
+  fileName: {
+    color: '#ffffff',
+    fontSize: 14,
+    fontWeight: '600',
+    marginBottom: 4,
+    fontFamily: 'HiraginoMincho-W6',
+  },
+  fileInfo: {
+    color: '#9fb3d4',
+    fontSize: 12,
+    fontFamily: 'HiraginoMincho-W3',
+  },
+  tags: {
+    color: '#6fb1ff',
+    fontSize: 12,
+    marginTop: 4,
+    fontFamily: 'HiraginoMincho-W3',
+  },
+  match: {
+    color: '#7fd6a4',
+    fontSize: 12,
+    marginTop: 4,
+    fontFamily: 'HiraginoMincho-W3',
+  },
+  selectionActions: {
+    flexDirection: 'row',
+    gap: 12,
+    margin: 24,
+  },
+  shareButton: {
+    flex: 1,
+    backgroundColor: '#6fb1ff',
+    borderRadius: 12,
+    paddingVertical: 12,
+    alignItems: 'center',
+  },
+  shareButtonDisabled: {
+    opacity: 0.5,
+  },
+  shareButtonText: {
+    color: '#0f1424',
+    fontWeight: '700',
+    fontFamily: 'HiraginoMincho-W6',
+  },
+  exportButton: {
+    flex: 1,
+    borderWidth: 1,
+    borderColor: '#6fb1ff',
+    borderRadius: 12,
+    paddingVertical: 12,
+    alignItems: 'center',
+  },
+  exportButtonText: {
+    color: '#6fb1ff',
+    fontWeight: '700',
+    fontFamily: 'HiraginoMincho-W6',
+  },
+});
+
+export default RecordingLibraryModal;
@@ -0,0 +1,353 @@
+import React, {useEffect, useState} from 'react';
+import {
+  Alert,
+  Modal,
+  Pressable,
+  SafeAreaView,
+  ScrollView,
+  StyleSheet,
+  Text,
+  View,
+} from 'react-native';
+import {LOCALE_NAMES, LOCALE_PREFERENCES, useI18n} from '../services/i18n';
+import {
+  loadLocationCapture,
+  saveLocationCapture,
+  useLocationCapture,
+} from '../services/location';
+import {
+  DEFAULT_SEGMENT_MINUTES,
+  DEFAULT_SILENCE_WARNING_SECONDS,
+  RECORDING_PROFILES,
+  RecordingProfile,
+  SEGMENT_MINUTES_OPTIONS,
+  SILENCE_WARNING_OPTIONS,
+  describeProfileFormat,
+  estimateBytesPerHour,
+  loadRecordingProfile,
+  loadSegmentMinutes,
+  loadSilenceWarningSeconds,
+  saveRecordingProfile,
+  saveSegmentMinutes,
+  saveSilenceWarningSeconds,
+} from '../services/recorder';
+
+type RecordingSettingsModalProps = {
+  visible: boolean;
+  onClose: () => void;
+};
+
+/**
+ * 録音品質のプリセット・無音警告・自動分割・位置の記録と表示言語の設定。
+ * 録音の設定は次の録音から反映される。
+ */
+const RecordingSettingsModal = ({
+  visible,
+  onClose,
+}: RecordingSettingsModalProps): React.JSX.Element => {
+  const i18n = useI18n();
+  const {t, formatFileSize} = i18n;
+  const {preference} = i18n.getSnapshot();
+  const [profile, setProfile] = useState<RecordingProfile | null>(null);
+  const [silenceSeconds, setSilenceSeconds] = useState(
+    DEFAULT_SILENCE_WARNING_SECONDS,
+  );
+  const [segmentMinutes, setSegmentMinutes] = useState(DEFAULT_SEGMENT_MINUTES);
+  const location = useLocationCapture();
+  const [captureLocation, setCaptureLocation] = useState(false);
+
+  useEffect(() => {
+    if (visible) {
+      loadRecordingProfile().then(setProfile);
+      loadSilenceWarningSeconds().then(setSilenceSeconds);
+      loadSegmentMinutes().then(setSegmentMinutes);
+      loadLocationCapture().then(setCaptureLocation);
+    }
+  }, [visible]);
+
+  const selectProfile = (next: RecordingProfile) => {
+    setProfile(next);
+    saveRecordingProfile(next);
+  };
+
+  const selectSilence = (seconds: number) => {
+    setSilenceSeconds(seconds);
+    saveSilenceWarningSeconds(seconds);
+  };
+
+  const selectSegment = (minutes: number) => {
+    setSegmentMinutes(minutes);
+    saveSegmentMinutes(minutes);
+  };
+
+  // オンにするときに位置情報の利用許可を求める（マイクの許可と同じ流れ）
+  const selectLocation = async (enabled: boolean) => {
+    if (enabled && !(await location.requestPermission())) {
+      Alert.alert(
+        t('settings.locationPermission.title'),
+        t('settings.locationPermission.message'),
+      );
+      return;
+    }
+    setCaptureLocation(enabled);
+    saveLocationCapture(enabled);
+  };
+
+  return (
+    <Modal visible={visible} animationType="slide" onRequestClose={onClose}>
+      <SafeAreaView style={styles.container}>
+        <View style={styles.header}>
+          <Text style={styles.title}>{t('settings.title')}</Text>
+          <Pressable onPress={onClose}>
+            <Text style={styles.headerAction}>{t('common.close')}</Text>
+          </Pressable>
+        </View>
+
+        <ScrollView contentContainerStyle={styles.content}>
+          <Text style={styles.sectionTitle}>{t('settings.quality')}</Text>
+          <Text style={styles.hint}>{t('settings.qualityHint')}</Text>
+          {RECORDING_PROFILES.map(item => {
+            const selected = item.id === profile?.id;
+            return (
+              <Pressable
+                key={item.id}
+                style={[styles.option, selected && styles.optionSelected]}
+                onPress={() => selectProfile(item)}
+                testID={`profile-${item.id}`}>
+                <View style={styles.optionHeader}>
+                  <Text style={styles.optionLabel}>
+                    {selected ? '● ' : '○ '}
+                    {t(`profile.${item.id}.label`)}
+                  </Text>
+                  <Text style={styles.optionSize}>
+                    {t('settings.perHour', {
+                      size: formatFileSize(estimateBytesPerHour(item)),
+                    })}
+                  </Text>
+                </View>
+                <Text style={styles.optionDescription}>
+                  {t(`profile.${item.id}.description`)}
+                </Text>
+                <Text style={styles.optionFormat}>
+                  {describeProfileFormat(item, {
+                    1: t('settings.mono'),
+                    2: t('settings.stereo'),
+                  })}
+                </Text>
+              </Pressable>
+            );
+          })}
+
+          <Text style={styles.sectionTitle}>{t('settings.silence')}</Text>
+          <Text style={styles.hint}>{t('settings.silenceHint')}</Text>
+          <View style={styles.chips}>
+            {SILENCE_WARNING_OPTIONS.map(seconds => (
+              <Pressable
+                key={seconds}
+                style={[
+                  styles.chip,
+                  seconds === silenceSeconds && styles.chipSelected,
+                ]}
+                onPress={() => selectSilence(seconds)}>
+                <Text
+                  style={[
+                    styles.chipText,
+                    seconds === silenceSeconds && styles.chipTextSelected,
+                  ]}>
+                  {seconds > 0
+                    ? t('settings.seconds', {seconds})
+                    : t('common.off')}
+                </Text>
+              </Pressable>
+            ))}
+          </View>
+
+          <Text style={styles.sectionTitle}>{t('settings.segment')}</Text>
+          <Text style={styles.hint}>{t('settings.segmentHint')}</Text>
+          <View style={styles.chips}>
+            {SEGMENT_MINUTES_OPTIONS.map(minutes => (
+              <Pressable
+                key={minutes}
+                style={[
+                  styles.chip,
+                  minutes === segmentMinutes && styles.chipSelected,
+                ]}
+                onPress={() => selectSegment(minutes)}>
+                <Text
+                  style={[
+                    styles.chipText,
+                    minutes === segmentMinutes && styles.chipTextSelected,
+                  ]}>
+                  {minutes > 0
+                    ? t('settings.everyMinutes', {minutes})
+                    : t('common.off')}
+                </Text>
+              </Pressable>
+            ))}
+          </View>
+
+          {location.isAvailable && (
+            <>
+              <Text style={styles.sectionTitle}>{t('settings.location')}</Text>
+              <Text style={styles.hint}>{t('settings.locationHint')}</Text>
+              <View style={styles.chips}>
+                {[false, true].map(enabled => (
+                  <Pressable
+                    key={String(enabled)}
+                    style={[
+                      styles.chip,
+                      enabled === captureLocation && styles.chipSelected,
+                    ]}
+                    onPress={() => selectLocation(enabled)}
+                    testID={`location-${enabled ? 'on' : 'off'}`}>
+                    <Text
+                      style={[
+                        styles.chipText,
+                        enabled === captureLocation && styles.chipTextSelected,
+                      ]}>
+                      {enabled ? t('common.on') : t('common.off')}
+                    </Text>
+                  </Pressable>
+                ))}
+              </View>
+            </>
+          )}
+
+          <Text style={styles.sectionTitle}>{t('settings.language')}</Text>
+          <Text style={styles.hint}>{t('settings.languageHint')}</Text>
+          <View style={styles.chips}>
+            {LOCALE_PREFERENCES.map(option => (
+              <Pressable
+                key={option}
+                style={[
+                  styles.chip,
+                  option === preference && styles.chipSelected,
+                ]}
+                onPress={() => i18n.setPreference(option)}
+                testID={`language-${option}`}>
+                <Text
+                  style={[
+                    styles.chipText,
+                    option === preference && styles.chipTextSelected,
+                  ]}>
+                  {option === 'system'
+                    ? t('settings.languageSystem')
+                    : LOCALE_NAMES[option]}
+                </Text>
+              </Pressable>
+            ))}
+          </View>
+        </ScrollView>
+      </SafeAreaView>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#0f1424',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 24,
+    paddingVertical: 16,
+  },
+  title: {
+    color: '#fff',
+    fontSize: 20,
+    fontWeight: '700',
+    fontFamily: 'HiraginoMincho-W6',
+  },
+  headerAction: {
+    color: '#6fb1ff',
+    fontSize: 15,
+    fontWeight: '600',
+    fontFamily: 'HiraginoMincho-W6',
+  },
+  content: {
+    paddingHorizontal: 24,
+    paddingBottom: 48,
+  },
+  sectionTitle: {
+    color: '#D1597B',
+    fontSize: 14,
+    fontWeight: '700',
+    marginTop: 16,
+    marginBottom: 4,
+    fontFamily: 'HiraginoMincho-W6',
+  },
+  hint: {
+    color: '#9fb3d4',
+    fontSize: 11,
+    marginBottom: 8,
+    fontFamily: 'HiraginoMincho-W3',
+  },
+  option: {
+    backgroundColor: 'rgba(255,255,255,0.05)',
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 8,
+    borderWidth: 1,
+    borderColor: 'transparent',
+  },
+  optionSelected: {
+    borderColor: '#6fb1ff',
+  },
+  optionHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'baseline',
+    marginBottom: 4,
+  },
+  optionLabel: {
+    color: '#ffffff',
+    fontSize: 14,
+    fontWeight: '600',
+    fontFamily: 'HiraginoMincho-W6',
+  },
+  optionSize: {
+    color: '#7fd6a4',
+    fontSize: 12,
+    fontFamily: 'Menlo',
+  },
+  optionDescription: {
+    color: '#cfd3dd',
+    fontSize: 12,
+    lineHeight: 18,
+    fontFamily: 'HiraginoMincho-W3',
+  },
+  optionFormat: {
+    color: '#9fb3d4',
+    fontSize: 11,
+    marginTop: 4,
+    fontFamily: 'Menlo',
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    borderWidth: 1,
+    borderColor: '#6fb1ff',
+    borderRadius: 999,
+    paddingVertical: 6,
+    paddingHorizontal: 14,
+  },
+  chipSelected: {
+    backgroundColor: '#6fb1ff',
+  },
+  chipText: {
+    color: '#6fb1ff',
+    fontSize: 13,
+    fontFamily: 'HiraginoMincho-W6',
+  },
+  chipTextSelected: {
+    color: '#0f1424',
+  },
+});
+
+export default RecordingSettingsModal;
@@ -0,0 +1,538 @@
+import React, {useEffect, useMemo, useState} from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  Modal,
+  Pressable,
+  SafeAreaView,
+  ScrollView,
+  StyleSheet,
+  Text,
+  View,
+} from 'react-native';
+import {MessageKey, useI18n} from '../services/i18n';
+import {useRecordingLibrary} from '../services/library';
+import type {RecordingFile} from '../services/recorder';
+import {
+  AFTER_DAYS_OPTIONS,
+  RetentionReason,
+  RetentionSettings,
+  RetentionSources,
+  SHORT_SECONDS_OPTIONS,
+  STORAGE_LIMIT_OPTIONS,
+  applyRetention,
+  hasActiveRules,
+  loadRetentionSettings,
+  loadRetentionSources,
+  planRetention,
+  saveRetentionSettings,
+} from '../services/retention';
+import {formatDuration} from '../utils/format';
+
+type RetentionSettingsModalProps = {
+  visible: boolean;
+  // 録音ファイル一覧と同じもの（App で読み込んだ一覧）
+  files: RecordingFile[];
+  // 録音中のファイル（削除の対象にしない）
+  activeFileName: string | null;
+  onClose: () => void;
+  // 録音を削除したとき
+  onDeleted: () => void;
+};
+
+const REASON_LABELS: Record<RetentionReason, MessageKey> = {
+  short_recording: 'retention.short.title',
+  storage_limit: 'retention.storage.title',
+};
+
+const formatGigabytes = (bytes: number) => `${bytes / (1024 * 1024 * 1024)}GB`;
+
+type ChipsProps<T extends number> = {
+  options: readonly T[];
+  value: T;
+  format: (value: T) => string;
+  onSelect: (value: T) => void;
+};
+
+const Chips = <T extends number>({
+  options,
+  value,
+  format,
+  onSelect,
+}: ChipsProps<T>): React.JSX.Element => (
+  <View style={styles.chips}>
+    {options.map(option => (
+      <Pressable
+        key={option}
+        style={[styles.chip, option === value && styles.chipSelected]}
+        onPress={() => onSelect(option)}>
+        <Text
+          style={[
+            styles.chipText,
+            option === value && styles.chipTextSelected,
+          ]}>
+          {format(option)}
+        </Text>
+      </Pressable>
+    ))}
+  </View>
+);
+
+type ToggleProps = {
+  label: string;
+  value: boolean;
+  onToggle: () => void;
+  testID?: string;
+};
+
+const Toggle = ({
+  label,
+  value,
+  onToggle,
+  testID,
+}: ToggleProps): React.JSX.Element => (
+  <Pressable style={styles.toggle} onPress={onToggle} testID={testID}>
+    <Text style={styles.toggleLabel}>
+      {value ? '☑ ' : '☐ '}
+      {label}
+    </Text>
+  </Pressable>
+);
+
+/**
+ * 自動削除のルールと、いま適用したら削除される録音のプレビュー。
+ * 「自動削除しない」にした録音と出来事の記録にリンクした録音はどのルールでも削除しない。
+ */
+const RetentionSettingsModal = ({
+  visible,
+  files,
+  activeFileName,
+  onClose,
+  onDeleted,
+}: RetentionSettingsModalProps): React.JSX.Element => {
+  const {t, formatDateTime, formatFileSize} = useI18n();
+  const library = useRecordingLibrary();
+  const [settings, setSettings] = useState<RetentionSettings | null>(null);
+  const [sources, setSources] = useState<RetentionSources | null>(null);
+  const [deleting, setDeleting] = useState(false);
+
+  useEffect(() => {
+    if (visible) {
+      loadRetentionSettings().then(setSettings);
+    }
+  }, [visible]);
+
+  useEffect(() => {
+    if (!visible) {
+      return;
+    }
+    let cancelled = false;
+    setSources(null);
+    loadRetentionSources(library, files, activeFileName).then(loaded => {
+      if (!cancelled) {
+        setSources(loaded);
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [visible, files, activeFileName, library]);
+
+  const plan = useMemo(
+    () => (settings && sources ? planRetention(settings, sources) : null),
+    [settings, sources],
+  );
+
+  const update = (next: RetentionSettings) => {
+    // ルールをすべて無効にしたら自動で適用する意味もない
+    const saved = hasActiveRules(next) ? next : {...next, automatic: false};
+    setSettings(saved);
+    saveRetentionSettings(saved);
+  };
+
+  const toggleAutomatic = () => {
+    if (!settings || !plan) {
+      return;
+    }
+    if (settings.automatic) {
+      update({...settings, automatic: false});
+      return;
+    }
+    Alert.alert(
+      t('retention.automaticConfirm.title'),
+      t('retention.automaticConfirm.message', {count: plan.candidates.length}),
+      [
+        {text: t('common.cancel'), style: 'cancel'},
+        {
+          text: t('retention.automaticConfirm.action'),
+          style: 'destructive',
+          onPress: () => update({...settings, automatic: true}),
+        },
+      ],
+    );
+  };
+
+  const deleteNow = () => {
+    if (!plan || plan.candidates.length === 0) {
+      return;
+    }
+    Alert.alert(
+      t('retention.deleteConfirm.title', {count: plan.candidates.length}),
+      t('retention.deleteConfirm.message', {
+        size: formatFileSize(plan.freedBytes),
+      }),
+      [
+        {text: t('common.cancel'), style: 'cancel'},
+        {
+          text: t('common.delete'),
+          style: 'destructive',
+          onPress: async () => {
+            setDeleting(true);
+            try {
+              const result = await applyRetention(library, plan);
+              if (result.failed.length > 0) {
+                Alert.alert(
+                  t('retention.deleteFailed'),
+                  result.failed.join('\n'),
+                );
+              }
+            } finally {
+              setDeleting(false);
+              onDeleted();
+            }
+          },
+        },
+      ],
+    );
+  };
+
+  return (
+    <Modal visible={visible} animationType="slide" onRequestClose={onClose}>
+      <SafeAreaView style={styles.container}>
+        <View style={styles.header}>
+          <Text style={styles.title}>{t('app.menu.retention')}</Text>
+          <Pressable onPress={onClose}>
+            <Text style={styles.headerAction}>{t('common.close')}</Text>
+          </Pressable>
+        </View>
+
+        <ScrollView contentContainerStyle={styles.content}>
+          {!settings ? (
+            <ActivityIndicator color="#6fb1ff" style={styles.loading} />
+          ) : (
+            <>
+              <Text style={styles.description}>
+                {t('retention.description')}
+              </Text>
+
+              <Text style={styles.sectionTitle}>
+                {t('retention.short.title')}
+              </Text>
+              <Toggle
+                label={t('retention.short.toggle')}
+                value={settings.shortRecordings.enabled}
+                onToggle={() =>
+                  update({
+                    ...settings,
+                    shortRecordings: {
+                      ...settings.shortRecordings,
+                      enabled: !settings.shortRecordings.enabled,
+                    },
+                  })
+                }
+                testID="retention-short"
+              />
+              <Text style={styles.hint}>{t('retention.short.hint')}</Text>
+              <Text style={styles.label}>
+                {t('retention.short.maxSeconds')}
+              </Text>
+              <Chips
+                options={SHORT_SECONDS_OPTIONS}
+                value={settings.shortRecordings.maxSeconds}
+                format={seconds => t('settings.seconds', {seconds})}
+                onSelect={maxSeconds =>
+                  update({
+                    ...settings,
+                    shortRecordings: {...settings.shortRecordings, maxSeconds},
+                  })
+                }
+              />
+              <Text style={styles.label}>{t('retention.short.afterDays')}</Text>
+              <Chips
+                options={AFTER_DAYS_OPTIONS}
+                value={settings.shortRecordings.afterDays}
+                format={days => t('retention.days', {days})}
+                onSelect={afterDays =>
+                  update({
+                    ...settings,
+                    shortRecordings: {...settings.shortRecordings, afterDays},
+                  })
+                }
+              />
+
+              <Text style={styles.sectionTitle}>
+                {t('retention.storage.title')}
+              </Text>
+              <Toggle
+                label={t('retention.storage.toggle')}
+                value={settings.storageLimit.enabled}
+                onToggle={() =>
+                  update({
+                    ...settings,
+                    storageLimit: {
+                      ...settings.storageLimit,
+                      enabled: !settings.storageLimit.enabled,
+                    },
+                  })
+                }
+                testID="retention-storage"
+              />
+              <Chips
+                options={STORAGE_LIMIT_OPTIONS}
+                value={settings.storageLimit.maxBytes}
+                format={formatGigabytes}
+                onSelect={maxBytes =>
+                  update({
+                    ...settings,
+                    storageLimit: {...settings.storageLimit, maxBytes},
+                  })
+                }
+              />
+
+              <Text style={styles.sectionTitle}>{t('retention.preview')}</Text>
+              {!plan ? (
+                <ActivityIndicator color="#6fb1ff" style={styles.loading} />
+              ) : (
+                <>
+                  <Text style={styles.hint}>
+                    {t('retention.total', {
+                      size: formatFileSize(plan.totalBytes),
+                    })}
+                    {plan.candidates.length > 0
+                      ? ` ・ ${t('retention.freed', {
+                          count: plan.candidates.length,
+                          size: formatFileSize(plan.freedBytes),
+                        })}`
+                      : ''}
+                  </Text>
+                  {plan.overLimit && (
+                    <Text style={styles.warning}>
+                      {t('retention.overLimit')}
+                    </Text>
+                  )}
+                  {plan.candidates.length === 0 ? (
+                    <Text style={styles.emptyText}>
+                      {hasActiveRules(settings)
+                        ? t('retention.noCandidates')
+                        : t('retention.noRules')}
+                    </Text>
+                  ) : (
+                    plan.candidates.map(candidate => (
+                      <View
+                        key={candidate.key}
+                        style={styles.candidate}
+                        testID="retention-candidate">
+                        <Text style={styles.candidateTitle}>
+                          {candidate.title}
+                        </Text>
+                        <Text style={styles.candidateInfo}>
+                          {formatDateTime(candidate.startedAt)} ・{' '}
+                          {candidate.durationSeconds === null
+                            ? t('retention.unknownLength')
+                            : formatDuration(candidate.durationSeconds)}{' '}
+                          ・ {formatFileSize(candidate.size)}
+                          {candidate.fileNames.length > 1
+                            ? ` ・ ${t('library.parts', {
+                                count: candidate.fileNames.length,
+                              })}`
+                            : ''}
+                        </Text>
+                        <Text style={styles.candidateReason}>
+                          {t(REASON_LABELS[candidate.reason])}
+                        </Text>
+                      </View>
+                    ))
+                  )}
+                  {deleting ? (
+                    <ActivityIndicator color="#f85c70" style={styles.loading} />
+                  ) : (
+                    <Pressable
+                      style={[
+                        styles.deleteButton,
+                        plan.candidates.length === 0 && styles.buttonDisabled,
+                      ]}
+                      disabled={plan.candidates.length === 0}
+                      onPress={deleteNow}>
+                      <Text style={styles.deleteButtonText}>
+                        {t('retention.deleteNow')}
+                      </Text>
+                    </Pressable>
+                  )}
+
+                  <Text style={styles.sectionTitle}>
+                    {t('retention.automatic.title')}
+                  </Text>
+                  <Toggle
+                    label={t('retention.automatic.toggle')}
+                    value={settings.automatic}
+                    onToggle={toggleAutomatic}
+                    testID="retention-automatic"
+                  />
+                  <Text style={styles.hint}>
+                    {t('retention.automatic.hint')}
+                  </Text>
+                </>
+              )}
+            </>
+          )}
+        </ScrollView>
+      </SafeAreaView>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#0f1424',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 24,
+    paddingVertical: 16,
+  },
+  title: {
+    color: '#fff',
+    fontSize: 20,
+    fontWeight: '700',
+    fontFamily: 'HiraginoMincho-W6',
+  },
+  headerAction: {
+    color: '#6fb1ff',
+    fontSize: 15,
+    fontWeight: '600',
+    fontFamily: 'HiraginoMincho-W6',
+  },
+  content: {
+    paddingHorizontal: 24,
+    paddingBottom: 48,
+  },
+  loading: {
+    marginTop: 12,
+  },
+  description: {
+    color: '#cfd3dd',
+    fontSize: 12,
+    lineHeight: 18,
+    fontFamily: 'HiraginoMincho-W3',
+  },
+  sectionTitle: {
+    color: '#D1597B',
+    fontSize: 14,
+    fontWeight: '700',
+    marginTop: 20,
+    marginBottom: 4,
+    fontFamily: 'HiraginoMincho-W6',
+  },
+  label: {
+    color: '#a3acc3',
+    fontSize: 13,
+    marginTop: 4,
+    marginBottom: 6,
+    fontFamily: 'HiraginoMincho-W3',
+  },
+  hint: {
+    color: '#9fb3d4',
+    fontSize: 11,
+    marginBottom: 8,
+    fontFamily: 'HiraginoMincho-W3',
+  },
+  warning: {
+    color: '#f85c70',
+    fontSize: 12,
+    marginBottom: 8,
+    fontFamily: 'HiraginoMincho-W3',
+  },
+  emptyText: {
+    color: '#5d6b85',
+    fontSize: 13,
+    marginVertical: 8,
+    fontFamily: 'HiraginoMincho-W3',
+  },
+  toggle: {
+    paddingVertical: 6,
+  },
+  toggleLabel: {
+    color: '#ffffff',
+    fontSize: 14,
+    fontFamily: 'HiraginoMincho-W6',
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 4,
+  },
+  chip: {
+    borderWidth: 1,
+    borderColor: '#6fb1ff',
+    borderRadius: 999,
+    paddingVertical: 6,
+    paddingHorizontal: 14,
+  },
+  chipSelected: {
+    backgroundColor: '#6fb1ff',
+  },
+  chipText: {
+    color: '#6fb1ff',
+    fontSize: 13,
+    fontFamily: 'HiraginoMincho-W6',
+  },
+  chipTextSelected: {
+    color: '#0f1424',
+  },
+  candidate: {
+    backgroundColor: 'rgba(255,255,255,0.05)',
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 8,
+  },
+  candidateTitle: {
+    color: '#ffffff',
+    fontSize: 14,
+    fontWeight: '600',
+    fontFamily: 'HiraginoMincho-W6',
+  },
+  candidateInfo: {
+    color: '#9fb3d4',
+    fontSize: 12,
+    marginTop: 4,
+    fontFamily: 'HiraginoMincho-W3',
+  },
+  candidateReason: {
+    color: '#f85c70',
+    fontSize: 11,
+    marginTop: 4,
+    fontFamily: 'HiraginoMincho-W6',
+  },
+  deleteButton: {
+    marginTop: 8,
+    borderWidth: 1,
+    borderColor: '#f85c70',
+    borderRadius: 12,
+    paddingVertical: 12,
+    alignItems: 'center',
+  },
+  deleteButtonText: {
+    color: '#f85c70',
+    fontWeight: '700',
+    fontFamily: 'HiraginoMincho-W6',
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+});
+
+export default RetentionSettingsModal;
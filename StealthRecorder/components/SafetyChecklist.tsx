@@ -0,0 +1,190 @@
+import React, {useEffect, useState} from 'react';
+import {Alert, Pressable, StyleSheet, Text, View} from 'react-native';
+import {SAFETY_STEPS, SafetyStep, SafetyStepId} from '../data/safetyChecklist';
+import {useI18n} from '../services/i18n';
+import {Marker, addMarker, loadMarkers} from '../services/markers';
+import {useRecorderService, useRecorderSnapshot} from '../services/recorder';
+import {formatDuration} from '../utils/format';
+
+type SafetyChecklistProps = {
+  isRecording: boolean;
+  onOpenPhrases: () => void;
+  onOpenContacts: () => void;
+};
+
+/**
+ * 痴漢冤罪の疑いをかけられた場合の手順。
+ * 録音中にタップすると、その時点の経過時間でマーカーを残す。
+ */
+const SafetyChecklist = ({
+  isRecording,
+  onOpenPhrases,
+  onOpenContacts,
+}: SafetyChecklistProps): React.JSX.Element => {
+  const recorder = useRecorderService();
+  const {t} = useI18n();
+  const {fileName} = useRecorderSnapshot(recorder);
+  const [stepMarkers, setStepMarkers] = useState<
+    Partial<Record<SafetyStepId, Marker>>
+  >({});
+  // 録音していないときはチェックリストとしてだけ使う
+  const [checked, setChecked] = useState<SafetyStepId[]>([]);
+
+  useEffect(() => {
+    if (!isRecording || !fileName) {
+      setStepMarkers({});
+      return;
+    }
+    // 保護モードのロック中は読めないので、この画面で付けたマーカーだけを表示する
+    loadMarkers(fileName)
+      .then(markers => {
+        const byStep: Partial<Record<SafetyStepId, Marker>> = {};
+        markers.forEach(marker => {
+          if (marker.stepId) {
+            byStep[marker.stepId] = marker;
+          }
+        });
+        setStepMarkers(byStep);
+      })
+      .catch(() => setStepMarkers({}));
+  }, [isRecording, fileName]);
+
+  const handlePress = async (step: SafetyStep) => {
+    if (!isRecording) {
+      setChecked(current =>
+        current.includes(step.id)
+          ? current.filter(id => id !== step.id)
+          : [...current, step.id],
+      );
+      return;
+    }
+    const position = await recorder.currentPosition();
+    if (!position) {
+      return;
+    }
+    try {
+      const marker = await addMarker({
+        fileName: position.fileName,
+        offsetSeconds: position.elapsed,
+        label: t(`checklist.${step.id}.marker`),
+        source: 'checklist',
+        stepId: step.id,
+      });
+      setStepMarkers(current => ({...current, [step.id]: marker}));
+    } catch (error) {
+      Alert.alert(t('marker.saveFailed'), String(error));
+    }
+  };
+
+  return (
+    <View style={styles.safetySection}>
+      <Text style={styles.safetyTitle}>{t('checklist.title')}</Text>
+      {isRecording && (
+        <Text style={styles.safetyHint}>{t('checklist.hint')}</Text>
+      )}
+      <View style={styles.safetyList}>
+        {SAFETY_STEPS.map(step => {
+          const marker = stepMarkers[step.id];
+          const done = marker !== undefined || checked.includes(step.id);
+          return (
+            <Pressable
+              key={step.id}
+              style={styles.safetyRow}
+              onPress={() => handlePress(step)}>
+              <Text style={[styles.safetyItem, done && styles.safetyItemDone]}>
+                {step.number}
+                {t(`checklist.${step.id}.label`)}
+              </Text>
+              {marker ? (
+                <Text style={styles.safetyTime}>
+                  ✓ {formatDuration(marker.offsetSeconds)}
+                </Text>
+              ) : (
+                done && <Text style={styles.safetyTime}>✓</Text>
+              )}
+            </Pressable>
+          );
+        })}
+      </View>
+      <View style={styles.links}>
+        <Pressable
+          style={styles.linkButton}
+          onPress={onOpenPhrases}
+          testID="open-phrase-cards">
+          <Text style={styles.linkButtonText}>{t('phrases.open')}</Text>
+        </Pressable>
+        <Pressable
+          style={styles.linkButton}
+          onPress={onOpenContacts}
+          testID="open-contacts">
+          <Text style={styles.linkButtonText}>{t('contacts.open')}</Text>
+        </Pressable>
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  safetySection: {
+    marginTop: 14,
+    paddingTop: 14,
+    borderTopWidth: 1,
+    borderTopColor: 'rgba(255,255,255,0.08)',
+  },
+  safetyTitle: {
+    color: '#D1597B',
+    fontSize: 14,
+    fontWeight: '700',
+    marginBottom: 8,
+    fontFamily: 'HiraginoMincho-W6',
+  },
+  safetyHint: {
+    color: '#9fb3d4',
+    fontSize: 11,
+    marginBottom: 8,
+    fontFamily: 'HiraginoMincho-W3',
+  },
+  safetyList: {
+    gap: 6,
+  },
+  safetyRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: 8,
+  },
+  safetyItem: {
+    flex: 1,
+    color: '#cfd3dd',
+    fontSize: 13,
+    lineHeight: 20,
+    fontFamily: 'HiraginoMincho-W3',
+  },
+  safetyItemDone: {
+    color: '#7fd6a4',
+  },
+  safetyTime: {
+    color: '#7fd6a4',
+    fontSize: 12,
+    lineHeight: 20,
+    fontFamily: 'Menlo',
+  },
+  links: {
+    marginTop: 10,
+    gap: 8,
+  },
+  linkButton: {
+    borderWidth: 1,
+    borderColor: '#D1597B',
+    borderRadius: 12,
+    paddingVertical: 10,
+    alignItems: 'center',
+  },
+  linkButtonText: {
+    color: '#D1597B',
+    fontSize: 14,
+    fontWeight: '600',
+    fontFamily: 'HiraginoMincho-W6',
+  },
+});
+
+export default SafetyChecklist;
@@ -0,0 +1,231 @@
+import React, {useEffect, useState} from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  Pressable,
+  StyleSheet,
+  Text,
+  View,
+} from 'react-native';
+import {MessageKey, transcriptErrorMessage, useI18n} from '../services/i18n';
+import {
+  Transcript,
+  TranscriptFormat,
+  findSegmentIndex,
+  toTranscriptError,
+  useTranscripts,
+} from '../services/transcripts';
+import {formatDuration} from '../utils/format';
+
+type TranscriptPanelProps = {
+  fileName: string;
+  // 再生位置（秒）。読み上げ中の発話を強調する
+  position: number;
+  onSeek: (seconds: number) => void;
+};
+
+const EXPORT_FORMATS: {format: TranscriptFormat; label: MessageKey}[] = [
+  {format: 'txt', label: 'transcript.format.txt'},
+  {format: 'srt', label: 'transcript.format.srt'},
+  {format: 'vtt', label: 'transcript.format.vtt'},
+];
+
+/**
+ * 録音の文字起こし。端末内の音声認識で作成し、再生位置に合わせて該当する発話を強調する。
+ */
+const TranscriptPanel = ({
+  fileName,
+  position,
+  onSeek,
+}: TranscriptPanelProps): React.JSX.Element | null => {
+  const {t} = useI18n();
+  const transcripts = useTranscripts();
+  const [transcript, setTranscript] = useState<Transcript | null>(null);
+  const [working, setWorking] = useState(false);
+
+  useEffect(() => {
+    setTranscript(null);
+    if (!transcripts.isAvailable) {
+      return;
+    }
+    transcripts
+      .load(fileName)
+      .then(setTranscript)
+      .catch(() => setTranscript(null));
+  }, [transcripts, fileName]);
+
+  if (!transcripts.isAvailable) {
+    return null;
+  }
+
+  const transcribe = async () => {
+    setWorking(true);
+    try {
+      setTranscript(await transcripts.transcribe(fileName));
+    } catch (error) {
+      Alert.alert(
+        t('transcript.failed'),
+        transcriptErrorMessage(t, toTranscriptError(error)),
+      );
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const share = async (format: TranscriptFormat) => {
+    try {
+      await transcripts.share(fileName, format, t);
+    } catch (error) {
+      Alert.alert(
+        t('library.shareFailed'),
+        transcriptErrorMessage(t, toTranscriptError(error)),
+      );
+    }
+  };
+
+  const activeIndex = transcript
+    ? findSegmentIndex(transcript.segments, position)
+    : -1;
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.label}>{t('transcript.title')}</Text>
+      {working ? (
+        <View style={styles.working}>
+          <ActivityIndicator color="#6fb1ff" />
+          <Text style={styles.hint}>{t('transcript.working')}</Text>
+        </View>
+      ) : !transcript ? (
+        <>
+          <Text style={styles.hint}>{t('transcript.hint')}</Text>
+          <Pressable style={styles.button} onPress={transcribe}>
+            <Text style={styles.buttonText}>{t('transcript.action')}</Text>
+          </Pressable>
+        </>
+      ) : (
+        <>
+          {transcript.segments.length === 0 ? (
+            <Text style={styles.hint}>{t('transcript.empty')}</Text>
+          ) : (
+            transcript.segments.map((segment, index) => (
+              <Pressable
+                key={`${segment.start}-${index}`}
+                style={[
+                  styles.segment,
+                  index === activeIndex && styles.segmentActive,
+                ]}
+                onPress={() => onSeek(segment.start)}>
+                <Text style={styles.segmentTime}>
+                  {formatDuration(segment.start)}
+                </Text>
+                <Text
+                  style={[
+                    styles.segmentText,
+                    segment.confidence < 0.5 && styles.segmentUncertain,
+                  ]}>
+                  {segment.text}
+                </Text>
+              </Pressable>
+            ))
+          )}
+          <View style={styles.actions}>
+            {EXPORT_FORMATS.map(({format, label}) => (
+              <Pressable
+                key={format}
+                style={styles.chip}
+                onPress={() => share(format)}>
+                <Text style={styles.chipText}>{t(label)}</Text>
+              </Pressable>
+            ))}
+            <Pressable style={styles.chip} onPress={transcribe}>
+              <Text style={styles.chipText}>{t('transcript.redo')}</Text>
+            </Pressable>
+          </View>
+        </>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: 8,
+  },
+  label: {
+    color: '#a3acc3',
+    fontSize: 13,
+    marginTop: 12,
+    marginBottom: 6,
+    fontFamily: 'HiraginoMincho-W3',
+  },
+  hint: {
+    color: '#9fb3d4',
+    fontSize: 12,
+    lineHeight: 18,
+    fontFamily: 'HiraginoMincho-W3',
+  },
+  working: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  button: {
+    marginTop: 8,
+    borderWidth: 1,
+    borderColor: '#6fb1ff',
+    borderRadius: 12,
+    paddingVertical: 10,
+    alignItems: 'center',
+  },
+  buttonText: {
+    color: '#6fb1ff',
+    fontWeight: '700',
+    fontFamily: 'HiraginoMincho-W6',
+  },
+  segment: {
+    flexDirection: 'row',
+    gap: 12,
+    paddingVertical: 6,
+    paddingHorizontal: 8,
+    borderRadius: 8,
+  },
+  segmentActive: {
+    backgroundColor: 'rgba(111,177,255,0.2)',
+  },
+  segmentTime: {
+    color: '#6fb1ff',
+    fontSize: 13,
+    fontFamily: 'Menlo',
+  },
+  segmentText: {
+    flex: 1,
+    color: '#ffffff',
+    fontSize: 13,
+    lineHeight: 18,
+    fontFamily: 'HiraginoMincho-W3',
+  },
+  // 認識の確からしさが低い部分
+  segmentUncertain: {
+    color: '#9fb3d4',
+  },
+  actions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginTop: 8,
+  },
+  chip: {
+    borderWidth: 1,
+    borderColor: '#6fb1ff',
+    borderRadius: 999,
+    paddingVertical: 4,
+    paddingHorizontal: 12,
+  },
+  chipText: {
+    color: '#6fb1ff',
+    fontSize: 12,
+    fontFamily: 'HiraginoMincho-W6',
+  },
+});
+
+export default TranscriptPanel;
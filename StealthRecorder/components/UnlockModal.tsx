@@ -0,0 +1,227 @@
+import React, {useCallback, useEffect, useRef, useState} from 'react';
+import {
+  ActivityIndicator,
+  Modal,
+  Pressable,
+  StyleSheet,
+  Text,
+  TextInput,
+  View,
+} from 'react-native';
+import {protectionErrorMessage, useI18n} from '../services/i18n';
+import {
+  toProtectionError,
+  useProtection,
+  useProtectionStatus,
+} from '../services/protection';
+
+type UnlockModalProps = {
+  visible: boolean;
+  onUnlocked: () => void;
+  onCancel: () => void;
+};
+
+const BIOMETRY_LABELS = {faceID: 'Face ID', touchID: 'Touch ID', none: ''};
+
+/**
+ * 保護モードのロック解除。生体認証が有効なら開いたときに自動で求める。
+ */
+const UnlockModal = ({
+  visible,
+  onUnlocked,
+  onCancel,
+}: UnlockModalProps): React.JSX.Element => {
+  const {t} = useI18n();
+  const protection = useProtection();
+  const status = useProtectionStatus(protection);
+  const [passcode, setPasscode] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [working, setWorking] = useState(false);
+  // 開いている間に生体認証を求めたか（開くたびに 1 回だけ求める）
+  const prompted = useRef(false);
+
+  const attempt = useCallback(
+    async (task: () => Promise<void>) => {
+      setWorking(true);
+      setError(null);
+      try {
+        await task();
+        setPasscode('');
+        onUnlocked();
+      } catch (unlockError) {
+        setError(protectionErrorMessage(t, toProtectionError(unlockError)));
+      } finally {
+        setWorking(false);
+      }
+    },
+    [onUnlocked, t],
+  );
+
+  const unlockWithBiometrics = useCallback(
+    () =>
+      attempt(() =>
+        protection.unlockWithBiometrics(t('unlock.biometricsReason')),
+      ),
+    [attempt, protection, t],
+  );
+
+  useEffect(() => {
+    if (!visible) {
+      prompted.current = false;
+      return;
+    }
+    if (status.biometricsEnabled && !prompted.current) {
+      prompted.current = true;
+      unlockWithBiometrics();
+    }
+  }, [visible, status.biometricsEnabled, unlockWithBiometrics]);
+
+  const cancel = () => {
+    setPasscode('');
+    setError(null);
+    onCancel();
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="fade"
+      transparent
+      onRequestClose={cancel}>
+      <View style={styles.backdrop}>
+        <View style={styles.content}>
+          <Text style={styles.title}>{t('unlock.title')}</Text>
+          <Text style={styles.description}>{t('unlock.description')}</Text>
+          <TextInput
+            style={styles.input}
+            value={passcode}
+            onChangeText={setPasscode}
+            placeholder={t('protection.passcode')}
+            placeholderTextColor="#5d6b85"
+            keyboardType="number-pad"
+            secureTextEntry
+            autoFocus={!status.biometricsEnabled}
+            testID="unlock-passcode"
+          />
+          {error && <Text style={styles.error}>{error}</Text>}
+          {working ? (
+            <ActivityIndicator color="#6fb1ff" style={styles.loading} />
+          ) : (
+            <>
+              <Pressable
+                style={[styles.button, !passcode && styles.buttonDisabled]}
+                disabled={!passcode}
+                onPress={() => attempt(() => protection.unlock(passcode))}>
+                <Text style={styles.buttonText}>{t('unlock.action')}</Text>
+              </Pressable>
+              {status.biometricsEnabled && (
+                <Pressable
+                  style={styles.secondaryButton}
+                  onPress={unlockWithBiometrics}>
+                  <Text style={styles.secondaryButtonText}>
+                    {t('unlock.withBiometrics', {
+                      biometry:
+                        BIOMETRY_LABELS[status.biometryType] ||
+                        t('unlock.biometrics'),
+                    })}
+                  </Text>
+                </Pressable>
+              )}
+              <Pressable style={styles.cancelButton} onPress={cancel}>
+                <Text style={styles.cancelButtonText}>
+                  {t('common.cancel')}
+                </Text>
+              </Pressable>
+            </>
+          )}
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  backdrop: {
+    flex: 1,
+    backgroundColor: 'rgba(0,0,0,0.7)',
+    justifyContent: 'center',
+    padding: 24,
+  },
+  content: {
+    backgroundColor: '#0f1424',
+    borderRadius: 16,
+    padding: 24,
+  },
+  title: {
+    color: '#fff',
+    fontSize: 20,
+    fontWeight: '700',
+    marginBottom: 8,
+    fontFamily: 'HiraginoMincho-W6',
+  },
+  description: {
+    color: '#9fb3d4',
+    fontSize: 13,
+    lineHeight: 20,
+    marginBottom: 16,
+    fontFamily: 'HiraginoMincho-W3',
+  },
+  input: {
+    backgroundColor: 'rgba(255,255,255,0.06)',
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    color: '#ffffff',
+    fontSize: 18,
+    letterSpacing: 4,
+    fontFamily: 'Menlo',
+  },
+  error: {
+    color: '#f85c70',
+    fontSize: 12,
+    marginTop: 8,
+    fontFamily: 'HiraginoMincho-W3',
+  },
+  loading: {
+    marginTop: 16,
+  },
+  button: {
+    marginTop: 16,
+    backgroundColor: '#6fb1ff',
+    borderRadius: 12,
+    paddingVertical: 12,
+    alignItems: 'center',
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  buttonText: {
+    color: '#0f1424',
+    fontWeight: '700',
+    fontFamily: 'HiraginoMincho-W6',
+  },
+  secondaryButton: {
+    marginTop: 8,
+    borderWidth: 1,
+    borderColor: '#6fb1ff',
+    borderRadius: 12,
+    paddingVertical: 12,
+    alignItems: 'center',
+  },
+  secondaryButtonText: {
+    color: '#6fb1ff',
+    fontWeight: '700',
+    fontFamily: 'HiraginoMincho-W6',
+  },
+  cancelButton: {
+    marginTop: 8,
+    paddingVertical: 10,
+    alignItems: 'center',
+  },
+  cancelButtonText: {
+    color: '#9fb3d4',
+    fontFamily: 'HiraginoMincho-W3',
+  },
+});
+
+export default UnlockModal;
@@ -0,0 +1,50 @@
+import React from 'react';
+import {StyleSheet, Text} from 'react-native';
+import type {VerificationStatus} from '../services/evidence';
+import {useI18n} from '../services/i18n';
+
+type VerificationBadgeProps = {
+  status?: VerificationStatus;
+};
+
+const VerificationBadge = ({
+  status,
+}: VerificationBadgeProps): React.JSX.Element | null => {
+  const {t} = useI18n();
+  if (!status) {
+    return null;
+  }
+  return (
+    <Text
+      style={[
+        styles.badge,
+        status === 'verified' ? styles.badgeOk : styles.badgeWarning,
+      ]}>
+      {t(`verification.${status}`)}
+    </Text>
+  );
+};
+
+const styles = StyleSheet.create({
+  badge: {
+    alignSelf: 'flex-start',
+    fontSize: 11,
+    fontWeight: '700',
+    borderRadius: 999,
+    overflow: 'hidden',
+    paddingVertical: 2,
+    paddingHorizontal: 8,
+    marginTop: 6,
+    fontFamily: 'HiraginoMincho-W6',
+  },
+  badgeOk: {
+    color: '#7fd6a4',
+    backgroundColor: 'rgba(127,214,164,0.15)',
+  },
+  badgeWarning: {
+    color: '#f85c70',
+    backgroundColor: 'rgba(248,92,112,0.15)',
+  },
+});
+
+export default VerificationBadge;
@@ -0,0 +1,66 @@
+import type {ImageSourcePropType} from 'react-native';
+
+export type OnboardingStepId =
+  | 'permission'
+  | 'shortcuts-app'
+  | 'shortcut'
+  | 'back-tap'
+  | 'self-test'
+  | 'files';
+
+// ボタンで開く先（self-test は画面内の動作テスト）
+export type OnboardingAction =
+  | 'permission'
+  | 'shortcuts'
+  | 'settings'
+  | 'self-test'
+  | 'files';
+
+// 見出し・説明・ボタンの文言はカタログの onboarding.<id>.* にある
+export type OnboardingStep = {
+  id: OnboardingStepId;
+  number: string;
+  action: OnboardingAction;
+  copyableText?: string;
+  image?: ImageSourcePropType;
+};
+
+// はじめの設定（マイク権限 → 背面タップの設定 → 動作テスト）
+export const ONBOARDING_STEPS: OnboardingStep[] = [
+  {
+    id: 'permission',
+    number: '⓪',
+    action: 'permission',
+  },
+  {
+    id: 'shortcuts-app',
+    number: '①',
+    action: 'shortcuts',
+    image: require('../assets/instructions/how to1.png'),
+  },
+  {
+    id: 'shortcut',
+    number: '②',
+    action: 'shortcuts',
+    copyableText: 'twotaprecorder://toggle',
+    image: require('../assets/instructions/how to2.png'),
+  },
+  {
+    id: 'back-tap',
+    number: '③',
+    action: 'settings',
+    image: require('../assets/instructions/how to3.png'),
+  },
+  {
+    id: 'self-test',
+    number: '④',
+    action: 'self-test',
+    image: require('../assets/instructions/how to4.png'),
+  },
+  {
+    id: 'files',
+    number: '⑤',
+    action: 'files',
+    image: require('../assets/instructions/how to5.png'),
+  },
+];
@@ -0,0 +1,56 @@
+import type {SafetyStepId} from './safetyChecklist';
+
+export type PhraseLanguage = 'ja' | 'en';
+
+/**
+ * 相手に見せる・読み上げる文。安全チェックリストの手順ごとに 1 枚。
+ * 文は表示言語にかかわらず日本語と英語の両方を持つ（見出しはカタログの phrases.<id>.title）。
+ */
+export type PhraseCard = {
+  id: SafetyStepId;
+  number: string;
+  text: Record<PhraseLanguage, string>;
+};
+
+export const PHRASE_CARDS: PhraseCard[] = [
+  {
+    id: 'no-detention',
+    number: '①',
+    text: {
+      ja: '私はやっていません。私をここに留める法的な根拠を教えていただけますか。任意でしたら、同行はお断りします。',
+      en: 'I did not do this. Could you tell me the legal basis for keeping me here? If this is voluntary, I decline to go with you.',
+    },
+  },
+  {
+    id: 'show-id',
+    number: '②',
+    text: {
+      ja: '身分証明書と住所をお見せします。逃げたり証拠を隠したりするおそれはありませんので、この場を離れさせてください。',
+      en: 'Here are my ID and my address. I will not run away or hide any evidence, so please let me leave.',
+    },
+  },
+  {
+    id: 'police-handbook',
+    number: '③',
+    text: {
+      ja: '恐れ入りますが、警察手帳を見せていただけますか。また、車内と駅の防犯カメラの映像を確認してください。',
+      en: 'Excuse me, could you please show me your police ID? Please also check the security camera footage from the train and the station.',
+    },
+  },
+  {
+    id: 'wait-for-lawyer',
+    number: '④',
+    text: {
+      ja: '弁護士と話すまで、質問にはお答えできません。当番弁護士を呼んでください。弁護士が来るまで待たせてください。',
+      en: 'I will not answer questions until I have spoken with a lawyer. Please call the duty lawyer (tōban bengoshi). I will wait here until the lawyer arrives.',
+    },
+  },
+  {
+    id: 'keep-evidence',
+    number: '⑤',
+    text: {
+      ja: '記録のため、この会話を録音しています。ご了承ください。',
+      en: 'For the record, I am recording this conversation. Thank you for understanding.',
+    },
+  },
+];
@@ -0,0 +1,36 @@
+export type SafetyStepId =
+  | 'no-detention'
+  | 'show-id'
+  | 'police-handbook'
+  | 'wait-for-lawyer'
+  | 'keep-evidence';
+
+// 手順の文言と、録音中にタップしたときのマーカー名はカタログの checklist.<id>.* にある
+export type SafetyStep = {
+  id: SafetyStepId;
+  number: string;
+};
+
+// 痴漢冤罪の疑いをかけられた場合の5つの手順
+export const SAFETY_STEPS: SafetyStep[] = [
+  {
+    id: 'no-detention',
+    number: '①',
+  },
+  {
+    id: 'show-id',
+    number: '②',
+  },
+  {
+    id: 'police-handbook',
+    number: '③',
+  },
+  {
+    id: 'wait-for-lawyer',
+    number: '④',
+  },
+  {
+    id: 'keep-evidence',
+    number: '⑤',
+  },
+];
@@ -1,7 +1,7 @@
 #import "AppDelegate.h"
 
 #import <React/RCTBundleURLProvider.h>
-#import <React/RCTBridgeModule.h>
+#import <React/RCTLinkingManager.h>
 #import "StealthRecorder-Swift.h"
 
 @implementation AppDelegate
@@ -31,19 +31,14 @@
 #endif
 }
 
+// twotaprecorder:// の解釈と実行は JS 側のルーター（services/deepLinks）が行う。
+// mark だけは受け取った時点の録音位置をネイティブで残しておく
 - (BOOL)application:(UIApplication *)app
             openURL:(NSURL *)url
             options:(NSDictionary<UIApplicationOpenURLOptionsKey,id> *)options
 {
-  if ([[url.scheme lowercaseString] isEqualToString:@"twotaprecorder"]) {
-    NSString *action = url.host ?: url.lastPathComponent;
-    if (action.length == 0 && url.pathComponents.count > 1) {
-      action = url.pathComponents[1];
-    }
-    [[RecorderManager sharedInstance] handleShortcutWithAction:action];
-    return YES;
-  }
-  return [super application:app openURL:url options:options];
+  [RecorderManager handleMarkLink:url];
+  return [RCTLinkingManager application:app openURL:url options:options];
 }
 
 @end
@@ -1,10 +1,15 @@
 import Foundation
 import AVFoundation
+import CoreLocation
+import CryptoKit
 import React
+import Speech
+import UIKit
+import UniformTypeIdentifiers
 
 @objc(RecorderManager)
 @objcMembers
-public class RecorderManager: NSObject {
+public class RecorderManager: RCTEventEmitter {
   private static let fileDateFormatter: DateFormatter = {
     let formatter = DateFormatter()
     formatter.dateFormat = "yyyyMMdd_HHmmss"
@@ -15,17 +20,63 @@ public class RecorderManager: NSObject {
   // 全インスタンスで共有するためstatic変数に変更
   private static let audioSession = AVAudioSession.sharedInstance()
   private static var audioRecorder: AVAudioRecorder?
+  private static var audioPlayer: AVAudioPlayer?
+  // 暗号化された録音はメモリ上で復号して再生するため player.url が使えない
+  private static var playingURL: URL?
+  private static let audioExtensions: Set<String> = ["m4a", "wav"]
+  // 電話などで中断されて保存した直近の録音（JS の途切れ検出に使う）
+  private static var interruptedFileName: String?
+  private static var interruptionObserver: NSObjectProtocol?
+  // 文字起こしは 1 件ずつ（実行中のタスクを保持しておかないと途中で解放される）
+  private static var recognitionTask: SFSpeechRecognitionTask?
+  // フレーズカードの読み上げ
+  private static let speechSynthesizer = AVSpeechSynthesizer()
+  // 録音の開始・停止時の位置（設定でオンにしたときだけ使う）
+  private static let locationHandler = LocationHandler()
+  private static let locationManager: CLLocationManager = {
+    let manager = CLLocationManager()
+    manager.desiredAccuracy = kCLLocationAccuracyBest
+    manager.delegate = locationHandler
+    return manager
+  }()
+  // 表示中のドキュメントピッカーの delegate（弱参照なので保持しておく）
+  private static var documentPickerHandler: DocumentPickerHandler?
+  // 上限時間で止まった録音を知るための delegate（弱参照なので保持しておく）
+  private static let recorderDelegate = RecorderDelegate()
+  // イベントを送るインスタンス（RN のブリッジが作る）。JS が購読している間だけ送る
+  private static weak var emitter: RecorderManager?
+  private static var hasListeners = false
+  // ファイルアプリなどでの Documents の変化を見張る
+  private static var directorySource: DispatchSourceFileSystemObject?
+  private static var pendingFilesChanged: DispatchWorkItem?
+  // 証拠ログや文字起こしの書き込みでは知らせないよう、録音ファイル名の一覧で比べる
+  private static var watchedAudioFileNames: Set<String> = []
 
-  public static let shared = RecorderManager()
-
-  @objc public static func sharedInstance() -> RecorderManager {
-    return RecorderManager.shared
+  override init() {
+    super.init()
+    RecorderManager.emitter = self
   }
 
-  @objc public static func requiresMainQueueSetup() -> Bool {
+  @objc public override static func requiresMainQueueSetup() -> Bool {
     return true
   }
 
+  // JS 側（services/recorder/nativeRecorder.ts）の EVENT_NAMES と揃える
+  public override func supportedEvents() -> [String]! {
+    ["recordingStarted", "recordingStopped", "recordingFilesChanged"]
+  }
+
+  public override func startObserving() {
+    RecorderManager.hasListeners = true
+    RecorderManager.watchDocuments()
+  }
+
+  public override func stopObserving() {
+    RecorderManager.hasListeners = false
+    RecorderManager.directorySource?.cancel()
+    RecorderManager.directorySource = nil
+  }
+
   @objc public func requestPermission(
     _ resolve: @escaping RCTPromiseResolveBlock,
     rejecter reject: @escaping RCTPromiseRejectBlock
@@ -38,17 +89,67 @@ public class RecorderManager: NSObject {
   }
 
   @objc public func startRecording(
-    _ resolve: @escaping RCTPromiseResolveBlock,
+    _ options: NSDictionary,
+    resolver resolve: @escaping RCTPromiseResolveBlock,
     rejecter reject: @escaping RCTPromiseRejectBlock
   ) {
     do {
-      let fileName = try RecorderManager.beginRecording()
+      let fileName = try RecorderManager.beginRecording(options)
       resolve(fileName)
     } catch {
       reject("recording_error", error.localizedDescription, error)
     }
   }
 
+  // 分割録音の切り替え。オーディオセッションを閉じずに次のファイルへ移る
+  // （セッションを閉じるとバックグラウンドのアプリが停止されるため）
+  @objc public func rolloverRecording(
+    _ options: NSDictionary,
+    resolver resolve: @escaping RCTPromiseResolveBlock,
+    rejecter reject: @escaping RCTPromiseRejectBlock
+  ) {
+    guard let recorder = RecorderManager.audioRecorder, recorder.isRecording else {
+      reject("recording_error", "録音していません", nil)
+      return
+    }
+    // 先に外しておき、delegate が停止として知らせないようにする
+    RecorderManager.audioRecorder = nil
+    recorder.stop()
+    RecorderManager.sealClosedRecording(recorder.url)
+    let savedFileName = recorder.url.lastPathComponent
+    do {
+      let fileName = try RecorderManager.beginRecording(options)
+      RecorderManager.scheduleFilesChangedCheck()
+      resolve(["savedFileName": savedFileName, "fileName": fileName])
+    } catch {
+      reject("recording_error", error.localizedDescription, error)
+    }
+  }
+
+  // 録音を保存する Documents のボリュームの空き容量（バイト）
+  @objc public func getFreeDiskSpace(
+    _ resolve: @escaping RCTPromiseResolveBlock,
+    rejecter reject: @escaping RCTPromiseRejectBlock
+  ) {
+    do {
+      let values = try RecorderManager.documentsDirectory()
+        .resourceValues(forKeys: [.volumeAvailableCapacityForImportantUsageKey])
+      resolve(values.volumeAvailableCapacityForImportantUsage ?? 0)
+    } catch {
+      reject("io_error", error.localizedDescription, error)
+    }
+  }
+
+  @objc public func consumePendingMarkers(
+    _ resolve: @escaping RCTPromiseResolveBlock,
+    rejecter reject: @escaping RCTPromiseRejectBlock
+  ) {
+    let defaults = UserDefaults.standard
+    let markers = defaults.array(forKey: RecorderManager.pendingMarkersKey) ?? []
+    defaults.removeObject(forKey: RecorderManager.pendingMarkersKey)
+    resolve(markers)
+  }
+
   @objc public func stopRecording(
     _ resolve: @escaping RCTPromiseResolveBlock,
     rejecter reject: @escaping RCTPromiseRejectBlock
@@ -64,81 +165,1115 @@ public class RecorderManager: NSObject {
     resolve(RecorderManager.audioRecorder?.isRecording ?? false)
   }
 
-  @objc public func getRecordingFiles(
+  // 録音中のファイル名と経過秒数（マーカーの位置に使う）
+  @objc public func getRecordingStatus(
+    _ resolve: @escaping RCTPromiseResolveBlock,
+    rejecter reject: @escaping RCTPromiseRejectBlock
+  ) {
+    guard let recorder = RecorderManager.audioRecorder, recorder.isRecording else {
+      resolve([
+        "isRecording": false,
+        "fileName": NSNull(),
+        "elapsed": 0,
+        "interruptedFileName": RecorderManager.interruptedFileName ?? NSNull(),
+      ])
+      return
+    }
+    resolve([
+      "isRecording": true,
+      "fileName": recorder.url.lastPathComponent,
+      "elapsed": recorder.currentTime,
+    ])
+  }
+
+  // 録音中のダッシュボード用。録音していなければ nil
+  @objc public func getRecordingLevels(
     _ resolve: @escaping RCTPromiseResolveBlock,
     rejecter reject: @escaping RCTPromiseRejectBlock
   ) {
-    let fileManager = FileManager.default
-    guard let documentsURL = fileManager.urls(for: .documentDirectory, in: .userDomainMask).first else {
-      resolve([])
+    guard let recorder = RecorderManager.audioRecorder, recorder.isRecording else {
+      resolve(nil)
       return
     }
-    
-    NSLog("[Recorder] Documents directory: %@", documentsURL.path)
-    
+    recorder.updateMeters()
+    let attributes = try? FileManager.default.attributesOfItem(atPath: recorder.url.path)
+    resolve([
+      "fileName": recorder.url.lastPathComponent,
+      "elapsed": recorder.currentTime,
+      "averagePower": recorder.averagePower(forChannel: 0),
+      "peakPower": recorder.peakPower(forChannel: 0),
+      "fileSize": attributes?[.size] as? Int64 ?? 0,
+    ])
+  }
+
+  // options は JS の RecordingListOptions（services/recorder/types.ts）。
+  // 並べ替えは services/recorder/listing.ts の sortRecordingFiles と揃える
+  @objc public func getRecordingFiles(
+    _ options: NSDictionary,
+    resolver resolve: @escaping RCTPromiseResolveBlock,
+    rejecter reject: @escaping RCTPromiseRejectBlock
+  ) {
     do {
-      let files = try fileManager.contentsOfDirectory(at: documentsURL, includingPropertiesForKeys: [.creationDateKey, .fileSizeKey], options: [])
-      let audioFiles = files
-        .filter { $0.pathExtension == "m4a" }
-        .compactMap { url -> [String: Any]? in
+      let fileManager = FileManager.default
+      let urls = try fileManager.contentsOfDirectory(
+        at: try RecorderManager.documentsDirectory(),
+        includingPropertiesForKeys: [.creationDateKey, .fileSizeKey],
+        options: [.skipsHiddenFiles]
+      )
+      let files = urls
+        .filter { RecorderManager.audioExtensions.contains($0.pathExtension.lowercased()) }
+        .map { url -> (name: String, path: String, size: Int64, date: Date) in
           let attributes = try? fileManager.attributesOfItem(atPath: url.path)
-          let size = attributes?[.size] as? Int64 ?? 0
+          let size = RecordingVault.plaintextSize(url) ?? attributes?[.size] as? Int64 ?? 0
           let date = attributes?[.creationDate] as? Date ?? Date()
-          return [
-            "name": url.lastPathComponent,
-            "path": url.path,
-            "size": size,
-            "date": ISO8601DateFormatter().string(from: date)
-          ]
+          return (url.lastPathComponent, url.path, size, date)
+        }
+      let sort = options["sort"] as? String ?? "date"
+      let ascending = (options["order"] as? String) == "asc"
+      let sorted = files.sorted { a, b in
+        let order: ComparisonResult
+        switch sort {
+        case "name":
+          order = a.name.compare(b.name, options: .literal)
+        case "size":
+          order = a.size == b.size ? .orderedSame : (a.size < b.size ? .orderedAscending : .orderedDescending)
+        default:
+          order = a.date.compare(b.date)
         }
-        .sorted { ($0["date"] as? String ?? "") > ($1["date"] as? String ?? "") }
-      
-      NSLog("[Recorder] Found %d audio files", audioFiles.count)
-      resolve(audioFiles)
+        // 同じ値どうしはファイル名で並べ、ページの境目がずれないようにする
+        let resolved = order == .orderedSame ? a.name.compare(b.name, options: .literal) : order
+        return ascending ? resolved == .orderedAscending : resolved == .orderedDescending
+      }
+      let offset = min(max((options["offset"] as? NSNumber)?.intValue ?? 0, 0), sorted.count)
+      let limit = (options["limit"] as? NSNumber).map { max($0.intValue, 0) } ?? sorted.count
+      let formatter = ISO8601DateFormatter()
+      let page = sorted[offset..<min(offset + limit, sorted.count)].map { file -> [String: Any] in
+        [
+          "name": file.name,
+          "path": file.path,
+          "size": file.size,
+          "date": formatter.string(from: file.date),
+        ]
+      }
+      resolve(["files": page, "total": files.count])
     } catch {
       NSLog("[Recorder] Error listing files: %@", error.localizedDescription)
-      resolve([])
+      reject("list_failed", error.localizedDescription, error)
     }
   }
 
-  @objc public func handleShortcut(withAction action: String?) {
-    guard let action else {
-      NSLog("[Recorder] handleShortcut: action is nil")
-      return
+  // MARK: - 証拠ログ用のファイル操作
+
+  @objc public func hashFile(
+    _ name: String,
+    resolver resolve: @escaping RCTPromiseResolveBlock,
+    rejecter reject: @escaping RCTPromiseRejectBlock
+  ) {
+    DispatchQueue.global(qos: .userInitiated).async {
+      do {
+        let url = try RecorderManager.documentFileURL(name)
+        // 保護モードでも証拠ログのハッシュは元の音声に対して計算する
+        var hasher = SHA256()
+        try RecordingVault.readPlaintext(url) { hasher.update(data: $0) }
+        resolve(RecorderManager.hex(hasher.finalize()))
+      } catch {
+        RecorderManager.rejectFileError(reject, error, code: "file_not_found")
+      }
+    }
+  }
+
+  @objc public func getFileSize(
+    _ name: String,
+    resolver resolve: @escaping RCTPromiseResolveBlock,
+    rejecter reject: @escaping RCTPromiseRejectBlock
+  ) {
+    do {
+      let url = try RecorderManager.documentFileURL(name)
+      let attributes = try FileManager.default.attributesOfItem(atPath: url.path)
+      resolve(RecordingVault.plaintextSize(url) ?? attributes[.size] as? Int64 ?? 0)
+    } catch {
+      reject("file_not_found", error.localizedDescription, error)
+    }
+  }
+
+  @objc public func getAudioDuration(
+    _ name: String,
+    resolver resolve: @escaping RCTPromiseResolveBlock,
+    rejecter reject: @escaping RCTPromiseRejectBlock
+  ) {
+    do {
+      let url = try RecorderManager.documentFileURL(name)
+      if RecordingVault.isEncrypted(url) {
+        let player = try AVAudioPlayer(data: try RecordingVault.plaintextData(url))
+        resolve(player.duration)
+        return
+      }
+      let file = try AVAudioFile(forReading: url)
+      let sampleRate = file.processingFormat.sampleRate
+      resolve(sampleRate > 0 ? Double(file.length) / sampleRate : 0)
+    } catch {
+      RecorderManager.rejectFileError(reject, error, code: "file_not_found")
+    }
+  }
+
+  @objc public func getDeviceInfo(
+    _ resolve: @escaping RCTPromiseResolveBlock,
+    rejecter reject: @escaping RCTPromiseRejectBlock
+  ) {
+    var systemInfo = utsname()
+    uname(&systemInfo)
+    let model = withUnsafeBytes(of: &systemInfo.machine) { buffer in
+      String(decoding: buffer.prefix(while: { $0 != 0 }), as: UTF8.self)
+    }
+    DispatchQueue.main.async {
+      resolve([
+        "model": model,
+        "systemName": UIDevice.current.systemName,
+        "systemVersion": UIDevice.current.systemVersion,
+        "appVersion": Bundle.main.infoDictionary?["CFBundleShortVersionString"] as? String ?? "",
+      ])
+    }
+  }
+
+  @objc public func readTextFile(
+    _ name: String,
+    resolver resolve: @escaping RCTPromiseResolveBlock,
+    rejecter reject: @escaping RCTPromiseRejectBlock
+  ) {
+    do {
+      let url = try RecorderManager.documentFileURL(name)
+      guard FileManager.default.fileExists(atPath: url.path) else {
+        resolve(nil)
+        return
+      }
+      resolve(String(decoding: try RecordingVault.plaintextData(url), as: UTF8.self))
+    } catch {
+      RecorderManager.rejectFileError(reject, error, code: "io_error")
+    }
+  }
+
+  @objc public func appendTextFile(
+    _ name: String,
+    text: String,
+    resolver resolve: @escaping RCTPromiseResolveBlock,
+    rejecter reject: @escaping RCTPromiseRejectBlock
+  ) {
+    do {
+      let url = try RecorderManager.documentFileURL(name)
+      let data = Data(text.utf8)
+      if RecordingVault.isEnabled {
+        // 追記ごとに暗号化して足す（ロック中でも前の中身を読まずに済む）
+        try RecordingVault.appendSealed(data, to: url)
+      } else if FileManager.default.fileExists(atPath: url.path) {
+        let handle = try FileHandle(forWritingTo: url)
+        defer { try? handle.close() }
+        try handle.seekToEnd()
+        try handle.write(contentsOf: data)
+      } else {
+        try data.write(to: url, options: .atomic)
+      }
+      resolve(nil)
+    } catch {
+      RecorderManager.rejectFileError(reject, error, code: "io_error")
+    }
+  }
+
+  // 文字起こしなど録音の隣に置くファイル用（上書き保存）
+  @objc public func writeTextFile(
+    _ name: String,
+    text: String,
+    resolver resolve: @escaping RCTPromiseResolveBlock,
+    rejecter reject: @escaping RCTPromiseRejectBlock
+  ) {
+    do {
+      let url = try RecorderManager.documentFileURL(name)
+      let data = Data(text.utf8)
+      try (RecordingVault.isEnabled ? RecordingVault.sealData(data) : data).write(to: url, options: .atomic)
+      resolve(nil)
+    } catch {
+      reject("io_error", error.localizedDescription, error)
     }
-    NSLog("[Recorder] handleShortcut: action = %@", action)
-    switch action.lowercased() {
-    case "start":
-      // マイク権限を確認してから録音開始
-      RecorderManager.audioSession.requestRecordPermission { granted in
-        NSLog("[Recorder] Permission granted: %@", granted ? "YES" : "NO")
-        if granted {
-          DispatchQueue.main.async {
-            do {
-              let fileName = try RecorderManager.beginRecording()
-              NSLog("[Recorder] Recording started: %@", fileName)
-            } catch {
-              NSLog("[Recorder] Recording failed: %@", error.localizedDescription)
+  }
+
+  // MARK: - 文字起こし
+
+  // 端末内の音声認識のみを使う（requiresOnDeviceRecognition）。単語ごとの結果を返し、まとめ方は JS 側で決める
+  @objc public func transcribeFile(
+    _ name: String,
+    locale: String,
+    resolver resolve: @escaping RCTPromiseResolveBlock,
+    rejecter reject: @escaping RCTPromiseRejectBlock
+  ) {
+    SFSpeechRecognizer.requestAuthorization { status in
+      DispatchQueue.main.async {
+        guard status == .authorized else {
+          reject("permission_denied", "音声認識が許可されていません", nil)
+          return
+        }
+        guard let recognizer = SFSpeechRecognizer(locale: Locale(identifier: locale)),
+              recognizer.supportsOnDeviceRecognition else {
+          reject("unsupported_locale", "端末内での文字起こしに対応していません: \(locale)", nil)
+          return
+        }
+        let url: URL
+        var temporaryURL: URL?
+        do {
+          url = try RecorderManager.documentFileURL(name)
+          if RecordingVault.isEncrypted(url) {
+            temporaryURL = try RecordingVault.decryptToTemporaryFile(url)
+          }
+        } catch {
+          RecorderManager.rejectFileError(reject, error, code: "io_error")
+          return
+        }
+        let request = SFSpeechURLRecognitionRequest(url: temporaryURL ?? url)
+        request.requiresOnDeviceRecognition = true
+        request.shouldReportPartialResults = false
+        if #available(iOS 16.0, *) {
+          request.addsPunctuation = true
+        }
+        RecorderManager.recognitionTask?.cancel()
+        var finished = false
+        RecorderManager.recognitionTask = recognizer.recognitionTask(with: request) { result, error in
+          guard !finished else { return }
+          if error != nil || result?.isFinal == true, let temporaryURL {
+            try? FileManager.default.removeItem(at: temporaryURL)
+          }
+          if let error {
+            finished = true
+            RecorderManager.recognitionTask = nil
+            // 発話が見つからない場合もエラーになるので空の結果として返す
+            if (error as NSError).code == 1110 {
+              resolve([])
+            } else {
+              reject("transcription_failed", error.localizedDescription, error)
             }
+            return
           }
+          guard let result, result.isFinal else { return }
+          finished = true
+          RecorderManager.recognitionTask = nil
+          resolve(result.bestTranscription.segments.map { segment in
+            [
+              "text": segment.substring,
+              "start": segment.timestamp,
+              "duration": segment.duration,
+              "confidence": segment.confidence,
+            ]
+          })
         }
       }
-    case "stop":
-      let result = RecorderManager.stopRecordingInternal()
-      NSLog("[Recorder] Recording stopped: %@", result)
-    default:
-      NSLog("[Recorder] Unknown action: %@", action)
-      break
     }
   }
 
+  // MARK: - 保護モード（RecordingVault）
+
+  @objc public func getProtectionStatus(
+    _ resolve: @escaping RCTPromiseResolveBlock,
+    rejecter reject: @escaping RCTPromiseRejectBlock
+  ) {
+    resolve(RecorderManager.protectionStatus())
+  }
+
+  @objc public func enableProtection(
+    _ passcode: String,
+    useBiometrics: Bool,
+    resolver resolve: @escaping RCTPromiseResolveBlock,
+    rejecter reject: @escaping RCTPromiseRejectBlock
+  ) {
+    DispatchQueue.global(qos: .userInitiated).async {
+      do {
+        try RecordingVault.enable(passcode: passcode, useBiometrics: useBiometrics)
+        resolve(RecorderManager.protectionStatus())
+      } catch {
+        RecorderManager.rejectFileError(reject, error, code: "io_error")
+      }
+    }
+  }
+
+  @objc public func unlockProtection(
+    _ passcode: String,
+    resolver resolve: @escaping RCTPromiseResolveBlock,
+    rejecter reject: @escaping RCTPromiseRejectBlock
+  ) {
+    DispatchQueue.global(qos: .userInitiated).async {
+      do {
+        try RecordingVault.unlock(passcode: passcode)
+        resolve(RecorderManager.protectionStatus())
+      } catch {
+        RecorderManager.rejectFileError(reject, error, code: "io_error")
+      }
+    }
+  }
+
+  @objc public func unlockProtectionWithBiometrics(
+    _ reason: String,
+    resolver resolve: @escaping RCTPromiseResolveBlock,
+    rejecter reject: @escaping RCTPromiseRejectBlock
+  ) {
+    DispatchQueue.global(qos: .userInitiated).async {
+      do {
+        try RecordingVault.unlockWithBiometrics(reason: reason)
+        resolve(RecorderManager.protectionStatus())
+      } catch {
+        RecorderManager.rejectFileError(reject, error, code: "biometrics_failed")
+      }
+    }
+  }
+
+  @objc public func lockProtection(
+    _ resolve: @escaping RCTPromiseResolveBlock,
+    rejecter reject: @escaping RCTPromiseRejectBlock
+  ) {
+    DispatchQueue.main.async {
+      // 復号した音声をメモリに残さない
+      if let url = RecorderManager.playingURL, RecordingVault.isEncrypted(url) {
+        RecorderManager.stopPlaybackInternal()
+      }
+      RecordingVault.lock()
+      resolve(RecorderManager.protectionStatus())
+    }
+  }
+
+  @objc public func changeProtectionPasscode(
+    _ current: String,
+    next: String,
+    resolver resolve: @escaping RCTPromiseResolveBlock,
+    rejecter reject: @escaping RCTPromiseRejectBlock
+  ) {
+    DispatchQueue.global(qos: .userInitiated).async {
+      do {
+        try RecordingVault.changePasscode(current: current, next: next)
+        resolve(RecorderManager.protectionStatus())
+      } catch {
+        RecorderManager.rejectFileError(reject, error, code: "io_error")
+      }
+    }
+  }
+
+  @objc public func setProtectionBiometrics(
+    _ enabled: Bool,
+    resolver resolve: @escaping RCTPromiseResolveBlock,
+    rejecter reject: @escaping RCTPromiseRejectBlock
+  ) {
+    do {
+      try RecordingVault.setBiometrics(enabled)
+      resolve(RecorderManager.protectionStatus())
+    } catch {
+      RecorderManager.rejectFileError(reject, error, code: "biometrics_failed")
+    }
+  }
+
+  // Documents 内の暗号化ファイルをすべて元に戻してから鍵を削除する
+  @objc public func disableProtection(
+    _ passcode: String,
+    resolver resolve: @escaping RCTPromiseResolveBlock,
+    rejecter reject: @escaping RCTPromiseRejectBlock
+  ) {
+    DispatchQueue.global(qos: .userInitiated).async {
+      do {
+        try RecordingVault.disable(passcode: passcode, directory: try RecorderManager.documentsDirectory())
+        resolve(RecorderManager.protectionStatus())
+      } catch {
+        RecorderManager.rejectFileError(reject, error, code: "io_error")
+      }
+    }
+  }
+
+  // 暗号化したら true。録音中のファイルは暗号化しない
+  @objc public func encryptFile(
+    _ name: String,
+    resolver resolve: @escaping RCTPromiseResolveBlock,
+    rejecter reject: @escaping RCTPromiseRejectBlock
+  ) {
+    DispatchQueue.main.async {
+      do {
+        let url = try RecorderManager.documentFileURL(name)
+        if RecorderManager.audioRecorder?.url == url {
+          reject("recording_in_progress", "録音中のファイルは暗号化できません", nil)
+          return
+        }
+        DispatchQueue.global(qos: .userInitiated).async {
+          do {
+            resolve(try RecordingVault.encryptFile(url))
+          } catch {
+            RecorderManager.rejectFileError(reject, error, code: "io_error")
+          }
+        }
+      } catch {
+        reject("io_error", error.localizedDescription, error)
+      }
+    }
+  }
+
+  // AsyncStorage に置くタイトル・マーカーなどの暗号化（base64 の暗号文を返す）。ロック中でもできる
+  @objc public func sealText(
+    _ text: String,
+    resolver resolve: @escaping RCTPromiseResolveBlock,
+    rejecter reject: @escaping RCTPromiseRejectBlock
+  ) {
+    do {
+      guard RecordingVault.isEnabled else {
+        throw RecordingVault.VaultError.notEnabled
+      }
+      resolve(try RecordingVault.sealData(Data(text.utf8)).base64EncodedString())
+    } catch {
+      RecorderManager.rejectFileError(reject, error, code: "io_error")
+    }
+  }
+
+  @objc public func openSealedText(
+    _ sealed: String,
+    resolver resolve: @escaping RCTPromiseResolveBlock,
+    rejecter reject: @escaping RCTPromiseRejectBlock
+  ) {
+    do {
+      guard let data = Data(base64Encoded: sealed) else {
+        throw RecordingVault.VaultError.corrupted
+      }
+      resolve(String(decoding: try RecordingVault.openData(data), as: UTF8.self))
+    } catch {
+      RecorderManager.rejectFileError(reject, error, code: "io_error")
+    }
+  }
+
+  // MARK: - ライブラリ（再生・名前変更・削除・共有）
+
+  @objc public func startPlayback(
+    _ name: String,
+    resolver resolve: @escaping RCTPromiseResolveBlock,
+    rejecter reject: @escaping RCTPromiseRejectBlock
+  ) {
+    DispatchQueue.main.async {
+      do {
+        let url = try RecorderManager.documentFileURL(name)
+        if let player = RecorderManager.audioPlayer, RecorderManager.playingURL == url {
+          player.play()
+          resolve(player.duration)
+          return
+        }
+        RecorderManager.audioPlayer?.stop()
+        // 録音中はセッション設定を変えずにそのまま再生する
+        if RecorderManager.audioRecorder?.isRecording != true {
+          try RecorderManager.audioSession.setCategory(.playback, mode: .default, options: [])
+          try RecorderManager.audioSession.setActive(true, options: [])
+        }
+        let player = RecordingVault.isEncrypted(url)
+          ? try AVAudioPlayer(data: try RecordingVault.plaintextData(url))
+          : try AVAudioPlayer(contentsOf: url)
+        player.prepareToPlay()
+        player.play()
+        RecorderManager.audioPlayer = player
+        RecorderManager.playingURL = url
+        resolve(player.duration)
+      } catch {
+        RecorderManager.rejectFileError(reject, error, code: "playback_error")
+      }
+    }
+  }
+
+  @objc public func pausePlayback(
+    _ resolve: @escaping RCTPromiseResolveBlock,
+    rejecter reject: @escaping RCTPromiseRejectBlock
+  ) {
+    DispatchQueue.main.async {
+      RecorderManager.audioPlayer?.pause()
+      resolve(nil)
+    }
+  }
+
+  @objc public func seekPlayback(
+    _ seconds: Double,
+    resolver resolve: @escaping RCTPromiseResolveBlock,
+    rejecter reject: @escaping RCTPromiseRejectBlock
+  ) {
+    DispatchQueue.main.async {
+      if let player = RecorderManager.audioPlayer {
+        player.currentTime = max(0, min(seconds, player.duration))
+      }
+      resolve(nil)
+    }
+  }
+
+  @objc public func stopPlayback(
+    _ resolve: @escaping RCTPromiseResolveBlock,
+    rejecter reject: @escaping RCTPromiseRejectBlock
+  ) {
+    DispatchQueue.main.async {
+      RecorderManager.stopPlaybackInternal()
+      resolve(nil)
+    }
+  }
+
+  @objc public func getPlaybackStatus(
+    _ resolve: @escaping RCTPromiseResolveBlock,
+    rejecter reject: @escaping RCTPromiseRejectBlock
+  ) {
+    DispatchQueue.main.async {
+      guard let player = RecorderManager.audioPlayer else {
+        resolve(["fileName": NSNull(), "isPlaying": false, "position": 0, "duration": 0])
+        return
+      }
+      resolve([
+        "fileName": RecorderManager.playingURL?.lastPathComponent ?? NSNull(),
+        "isPlaying": player.isPlaying,
+        "position": player.currentTime,
+        "duration": player.duration,
+      ])
+    }
+  }
+
+  @objc public func renameFile(
+    _ from: String,
+    to: String,
+    resolver resolve: @escaping RCTPromiseResolveBlock,
+    rejecter reject: @escaping RCTPromiseRejectBlock
+  ) {
+    DispatchQueue.main.async {
+      do {
+        let source = try RecorderManager.documentFileURL(from)
+        let destination = try RecorderManager.documentFileURL(to)
+        if RecorderManager.audioRecorder?.url == source {
+          reject("recording_in_progress", "録音中のファイルは名前を変更できません", nil)
+          return
+        }
+        if FileManager.default.fileExists(atPath: destination.path) {
+          reject("name_taken", "同じ名前のファイルが既にあります", nil)
+          return
+        }
+        if RecorderManager.playingURL == source {
+          RecorderManager.stopPlaybackInternal()
+        }
+        try FileManager.default.moveItem(at: source, to: destination)
+        resolve(nil)
+      } catch {
+        reject("io_error", error.localizedDescription, error)
+      }
+    }
+  }
+
+  @objc public func deleteFile(
+    _ name: String,
+    resolver resolve: @escaping RCTPromiseResolveBlock,
+    rejecter reject: @escaping RCTPromiseRejectBlock
+  ) {
+    DispatchQueue.main.async {
+      do {
+        let url = try RecorderManager.documentFileURL(name)
+        if RecorderManager.audioRecorder?.url == url {
+          reject("recording_in_progress", "録音中のファイルは削除できません", nil)
+          return
+        }
+        if RecorderManager.playingURL == url {
+          RecorderManager.stopPlaybackInternal()
+        }
+        try FileManager.default.removeItem(at: url)
+        resolve(nil)
+      } catch {
+        reject("io_error", error.localizedDescription, error)
+      }
+    }
+  }
+
+  // extraPaths は writeExportFile で作った一時ファイル（マーカーなど）
+  @objc public func shareFiles(
+    _ names: [String],
+    extraPaths: [String],
+    resolver resolve: @escaping RCTPromiseResolveBlock,
+    rejecter reject: @escaping RCTPromiseRejectBlock
+  ) {
+    DispatchQueue.main.async {
+      do {
+        let exportDirectory = try RecorderManager.exportDirectory().standardizedFileURL.path
+        let extraURLs = extraPaths
+          .map { URL(fileURLWithPath: $0).standardizedFileURL }
+          .filter { $0.path.hasPrefix(exportDirectory) }
+        // 暗号化された録音は共有用の一時領域へ復号してから渡す
+        let recordingURLs = try names.map { name -> URL in
+          let url = try RecorderManager.documentFileURL(name)
+          guard RecordingVault.isEncrypted(url) else {
+            return url
+          }
+          let destination = try RecorderManager.exportDirectory().appendingPathComponent(name)
+          try RecordingVault.plaintextData(url).write(to: destination, options: .atomic)
+          return destination
+        }
+        let urls = recordingURLs + extraURLs
+        guard let presenter = RCTPresentedViewController() else {
+          reject("share_error", "共有画面を表示できません", nil)
+          return
+        }
+        let controller = UIActivityViewController(activityItems: urls, applicationActivities: nil)
+        controller.completionWithItemsHandler = { _, completed, _, _ in
+          resolve(completed)
+        }
+        // iPad ではポップオーバーの表示元が必要
+        controller.popoverPresentationController?.sourceView = presenter.view
+        presenter.present(controller, animated: true)
+      } catch {
+        RecorderManager.rejectFileError(reject, error, code: "share_error")
+      }
+    }
+  }
+
+  @objc public func writeExportFile(
+    _ name: String,
+    contents: String,
+    encoding: String,
+    resolver resolve: @escaping RCTPromiseResolveBlock,
+    rejecter reject: @escaping RCTPromiseRejectBlock
+  ) {
+    do {
+      guard !name.isEmpty, !name.contains("/") else {
+        reject("io_error", "不正なファイル名です: \(name)", nil)
+        return
+      }
+      let data: Data?
+      if encoding == "base64" {
+        data = Data(base64Encoded: contents)
+      } else {
+        data = contents.data(using: .utf8)
+      }
+      guard let data else {
+        reject("io_error", "内容を変換できません", nil)
+        return
+      }
+      let url = try RecorderManager.exportDirectory().appendingPathComponent(name)
+      try data.write(to: url, options: .atomic)
+      resolve(url.path)
+    } catch {
+      reject("io_error", error.localizedDescription, error)
+    }
+  }
+
+  // 書き出し・バックアップの ZIP を一時領域に作る。entries は JS の ArchiveEntry（services/export/types.ts）
+  @objc public func writeArchive(
+    _ name: String,
+    entries: [NSDictionary],
+    resolver resolve: @escaping RCTPromiseResolveBlock,
+    rejecter reject: @escaping RCTPromiseRejectBlock
+  ) {
+    guard !name.isEmpty, !name.contains("/") else {
+      reject("io_error", "不正なファイル名です: \(name)", nil)
+      return
+    }
+    DispatchQueue.global(qos: .userInitiated).async {
+      var destination: URL?
+      do {
+        let url = try RecorderManager.exportDirectory().appendingPathComponent(name)
+        destination = url
+        try ZipArchive.write(try entries.map(RecorderManager.archiveEntry), to: url)
+        resolve(url.path)
+      } catch {
+        if let destination {
+          try? FileManager.default.removeItem(at: destination)
+        }
+        RecorderManager.rejectArchiveError(reject, error, code: "io_error")
+      }
+    }
+  }
+
+  // MARK: - フレーズカードの読み上げ
+
+  @objc public func speakText(
+    _ text: String,
+    language: String,
+    resolver resolve: @escaping RCTPromiseResolveBlock,
+    rejecter reject: @escaping RCTPromiseRejectBlock
+  ) {
+    DispatchQueue.main.async {
+      guard let voice = AVSpeechSynthesisVoice(language: language) else {
+        reject("speech_unavailable", "\(language) の音声がありません", nil)
+        return
+      }
+      // 録音中は playAndRecord のままスピーカーから読み上げる（声も録音に残る）
+      if RecorderManager.audioRecorder?.isRecording != true {
+        do {
+          try RecorderManager.audioSession.setCategory(.playback, mode: .spokenAudio, options: [])
+          try RecorderManager.audioSession.setActive(true, options: [])
+        } catch {
+          reject("speech_unavailable", error.localizedDescription, error)
+          return
+        }
+      }
+      let utterance = AVSpeechUtterance(string: text)
+      utterance.voice = voice
+      // 相手が聞き取りやすいよう少しゆっくり読む
+      utterance.rate = AVSpeechUtteranceDefaultSpeechRate * 0.9
+      RecorderManager.speechSynthesizer.speak(utterance)
+      resolve(nil)
+    }
+  }
+
+  @objc public func stopSpeaking(
+    _ resolve: @escaping RCTPromiseResolveBlock,
+    rejecter reject: @escaping RCTPromiseRejectBlock
+  ) {
+    DispatchQueue.main.async {
+      RecorderManager.speechSynthesizer.stopSpeaking(at: .immediate)
+      resolve(nil)
+    }
+  }
+
+  // MARK: - 位置情報（録音の開始・停止時）
+
+  // 直近の測位がこの秒数以内ならそのまま使う（停止を待たせないため）
+  private static let recentLocationSeconds: TimeInterval = 30
+  private static let locationTimeoutSeconds: TimeInterval = 10
+
+  private static var locationAuthorization: CLAuthorizationStatus {
+    if #available(iOS 14.0, *) {
+      return locationManager.authorizationStatus
+    }
+    return CLLocationManager.authorizationStatus()
+  }
+
+  private static func isLocationAuthorized(_ status: CLAuthorizationStatus) -> Bool {
+    status == .authorizedWhenInUse || status == .authorizedAlways
+  }
+
+  @objc public func requestLocationPermission(
+    _ resolve: @escaping RCTPromiseResolveBlock,
+    rejecter reject: @escaping RCTPromiseRejectBlock
+  ) {
+    DispatchQueue.main.async {
+      guard RecorderManager.locationAuthorization == .notDetermined else {
+        resolve(RecorderManager.isLocationAuthorized(RecorderManager.locationAuthorization))
+        return
+      }
+      RecorderManager.locationHandler.onAuthorization = { status in
+        resolve(RecorderManager.isLocationAuthorized(status))
+      }
+      RecorderManager.locationManager.requestWhenInUseAuthorization()
+    }
+  }
+
+  @objc public func getCurrentLocation(
+    _ resolve: @escaping RCTPromiseResolveBlock,
+    rejecter reject: @escaping RCTPromiseRejectBlock
+  ) {
+    DispatchQueue.main.async {
+      guard RecorderManager.isLocationAuthorized(RecorderManager.locationAuthorization) else {
+        reject("location_denied", "位置情報の利用が許可されていません", nil)
+        return
+      }
+      let manager = RecorderManager.locationManager
+      if let recent = manager.location,
+         -recent.timestamp.timeIntervalSinceNow < RecorderManager.recentLocationSeconds {
+        resolve(RecorderManager.locationPayload(recent))
+        return
+      }
+      RecorderManager.locationHandler.waitForLocation(
+        timeout: RecorderManager.locationTimeoutSeconds
+      ) { location in
+        guard let location = location else {
+          reject("location_unavailable", "現在地を取得できませんでした", nil)
+          return
+        }
+        resolve(RecorderManager.locationPayload(location))
+      }
+      manager.requestLocation()
+    }
+  }
+
+  private static func locationPayload(_ location: CLLocation) -> [String: Any] {
+    let formatter = ISO8601DateFormatter()
+    formatter.formatOptions = [.withInternetDateTime, .withFractionalSeconds]
+    return [
+      "latitude": location.coordinate.latitude,
+      "longitude": location.coordinate.longitude,
+      // 水平方向の誤差（メートル）
+      "accuracy": location.horizontalAccuracy,
+      "capturedAt": formatter.string(from: location.timestamp),
+    ]
+  }
+
+  // MARK: - バックアップ
+
+  // writeArchive で作ったバックアップをパスワードで暗号化し、元の ZIP は消す
+  @objc public func encryptBackupFile(
+    _ path: String,
+    password: String,
+    resolver resolve: @escaping RCTPromiseResolveBlock,
+    rejecter reject: @escaping RCTPromiseRejectBlock
+  ) {
+    DispatchQueue.global(qos: .userInitiated).async {
+      var destination: URL?
+      do {
+        let url = try RecorderManager.exportFileURL(path)
+        let sealed = url.deletingPathExtension().appendingPathExtension("ttrbackup")
+        destination = sealed
+        try RecordingVault.sealFile(url, to: sealed, password: password)
+        try? FileManager.default.removeItem(at: url)
+        resolve(sealed.path)
+      } catch {
+        if let destination {
+          try? FileManager.default.removeItem(at: destination)
+        }
+        RecorderManager.rejectArchiveError(reject, error, code: "io_error")
+      }
+    }
+  }
+
+  // 保存先（ファイル App・iCloud Drive など）をユーザーに選んでもらう。キャンセルなら false
+  @objc public func saveBackupFile(
+    _ path: String,
+    resolver resolve: @escaping RCTPromiseResolveBlock,
+    rejecter reject: @escaping RCTPromiseRejectBlock
+  ) {
+    DispatchQueue.main.async {
+      do {
+        let url = try RecorderManager.exportFileURL(path)
+        let picker: UIDocumentPickerViewController
+        if #available(iOS 14.0, *) {
+          picker = UIDocumentPickerViewController(forExporting: [url], asCopy: true)
+        } else {
+          picker = UIDocumentPickerViewController(url: url, in: .exportToService)
+        }
+        RecorderManager.presentDocumentPicker(picker, reject: reject) { urls in
+          resolve(urls != nil)
+        }
+      } catch {
+        reject("io_error", error.localizedDescription, error)
+      }
+    }
+  }
+
+  // 復元するバックアップを選んでもらう。アプリの一時領域へコピーしたパスを返し、キャンセルなら null
+  @objc public func pickBackupFile(
+    _ resolve: @escaping RCTPromiseResolveBlock,
+    rejecter reject: @escaping RCTPromiseRejectBlock
+  ) {
+    DispatchQueue.main.async {
+      let picker: UIDocumentPickerViewController
+      if #available(iOS 14.0, *) {
+        picker = UIDocumentPickerViewController(forOpeningContentTypes: [.zip, .data], asCopy: true)
+      } else {
+        picker = UIDocumentPickerViewController(documentTypes: ["public.zip-archive", "public.data"], in: .import)
+      }
+      picker.allowsMultipleSelection = false
+      RecorderManager.presentDocumentPicker(picker, reject: reject) { urls in
+        resolve(urls?.first?.path ?? NSNull())
+      }
+    }
+  }
+
+  // 選んだバックアップを開き、中のファイルの一覧（大きさと SHA-256）を返す。
+  // パスワード付きなら一時領域へ復号する。ZIP はメモリに載せずに読み、CRC も確かめる
+  @objc public func openBackupFile(
+    _ path: String,
+    password: String?,
+    resolver resolve: @escaping RCTPromiseResolveBlock,
+    rejecter reject: @escaping RCTPromiseRejectBlock
+  ) {
+    DispatchQueue.global(qos: .userInitiated).async {
+      var decrypted: URL?
+      do {
+        var url = URL(fileURLWithPath: path)
+        if RecordingVault.isPasswordSealed(url) {
+          guard let password, !password.isEmpty else {
+            reject("password_required", "パスワードが必要です", nil)
+            return
+          }
+          let destination = try RecorderManager.exportDirectory()
+            .appendingPathComponent("restore-\(UUID().uuidString).zip")
+          decrypted = destination
+          try RecordingVault.openFile(url, to: destination, password: password)
+          url = destination
+        }
+        let handle = try FileHandle(forReadingFrom: url)
+        defer { try? handle.close() }
+        let files = try ZipArchive.items(in: handle).map { item -> [String: Any] in
+          var hasher = SHA256()
+          try ZipArchive.read(item, from: handle) { hasher.update(data: $0) }
+          return [
+            "path": item.path,
+            "size": NSNumber(value: item.size),
+            "sha256": RecorderManager.hex(hasher.finalize()),
+          ]
+        }
+        resolve(["path": url.path, "files": files])
+      } catch {
+        if let decrypted {
+          try? FileManager.default.removeItem(at: decrypted)
+        }
+        RecorderManager.rejectArchiveError(reject, error, code: "invalid_archive")
+      }
+    }
+  }
+
+  // openBackupFile で開いた ZIP の中のテキスト（backup.json・メタデータなど）
+  @objc public func readArchiveText(
+    _ path: String,
+    entryPath: String,
+    resolver resolve: @escaping RCTPromiseResolveBlock,
+    rejecter reject: @escaping RCTPromiseRejectBlock
+  ) {
+    DispatchQueue.global(qos: .userInitiated).async {
+      do {
+        let handle = try FileHandle(forReadingFrom: URL(fileURLWithPath: path))
+        defer { try? handle.close() }
+        var data = Data()
+        try ZipArchive.read(try ZipArchive.item(entryPath, in: handle), from: handle) { data.append($0) }
+        resolve(String(decoding: data, as: UTF8.self))
+      } catch {
+        RecorderManager.rejectArchiveError(reject, error, code: "invalid_archive")
+      }
+    }
+  }
+
+  // 復元する録音を ZIP から Documents に取り出す。同じ名前のファイルは上書きしない
+  @objc public func extractArchiveFile(
+    _ path: String,
+    entryPath: String,
+    name: String,
+    resolver resolve: @escaping RCTPromiseResolveBlock,
+    rejecter reject: @escaping RCTPromiseRejectBlock
+  ) {
+    DispatchQueue.global(qos: .userInitiated).async {
+      do {
+        let url = try RecorderManager.documentFileURL(name)
+        guard RecorderManager.audioExtensions.contains(url.pathExtension.lowercased()) else {
+          reject("io_error", "録音ファイルではありません: \(name)", nil)
+          return
+        }
+        guard !FileManager.default.fileExists(atPath: url.path) else {
+          reject("file_exists", "同じ名前のファイルがあります: \(name)", nil)
+          return
+        }
+        // 書き終えてから移す（一覧に書きかけのファイルを出さない）
+        let temporary = url.deletingLastPathComponent().appendingPathComponent(".\(name).restore-tmp")
+        FileManager.default.createFile(atPath: temporary.path, contents: nil)
+        do {
+          let input = try FileHandle(forReadingFrom: URL(fileURLWithPath: path))
+          defer { try? input.close() }
+          let output = try FileHandle(forWritingTo: temporary)
+          defer { try? output.close() }
+          try ZipArchive.read(try ZipArchive.item(entryPath, in: input), from: input) {
+            try output.write(contentsOf: $0)
+          }
+          try FileManager.default.moveItem(at: temporary, to: url)
+        } catch {
+          try? FileManager.default.removeItem(at: temporary)
+          throw error
+        }
+        resolve(nil)
+      } catch {
+        RecorderManager.rejectArchiveError(reject, error, code: "io_error")
+      }
+    }
+  }
+
+  // openBackupFile で復号した一時ファイルを消す（選んだバックアップそのものは残す）
+  @objc public func closeBackupFile(
+    _ path: String,
+    resolver resolve: @escaping RCTPromiseResolveBlock,
+    rejecter reject: @escaping RCTPromiseRejectBlock
+  ) {
+    if let url = try? RecorderManager.exportFileURL(path) {
+      try? FileManager.default.removeItem(at: url)
+    }
+    resolve(nil)
+  }
+
+  private static func presentDocumentPicker(
+    _ picker: UIDocumentPickerViewController,
+    reject: RCTPromiseRejectBlock,
+    completion: @escaping ([URL]?) -> Void
+  ) {
+    guard let presenter = RCTPresentedViewController() else {
+      reject("io_error", "ファイルの選択画面を表示できません", nil)
+      return
+    }
+    let handler = DocumentPickerHandler { urls in
+      documentPickerHandler = nil
+      completion(urls)
+    }
+    documentPickerHandler = handler
+    picker.delegate = handler
+    presenter.present(picker, animated: true)
+  }
+
+  // writeExportFile・writeArchive で作った一時ファイルに限る
+  private static func exportFileURL(_ path: String) throws -> URL {
+    let url = URL(fileURLWithPath: path).standardizedFileURL
+    guard url.path.hasPrefix(try exportDirectory().standardizedFileURL.path) else {
+      throw NSError(domain: "RecorderManager", code: 1, userInfo: [NSLocalizedDescriptionKey: "不正なパスです: \(path)"])
+    }
+    return url
+  }
+
+  private static func protectionStatus() -> [String: Any] {
+    [
+      "enabled": RecordingVault.isEnabled,
+      "unlocked": RecordingVault.isUnlocked,
+      "biometryType": RecordingVault.biometryType,
+      "biometricsEnabled": RecordingVault.biometricsEnabled,
+    ]
+  }
+
+  // 保護モードのエラー（ロック中・パスコード違いなど）は JS で見分けられるコードで返す
+  private static func rejectFileError(
+    _ reject: RCTPromiseRejectBlock,
+    _ error: Error,
+    code: String
+  ) {
+    if let vaultError = error as? RecordingVault.VaultError {
+      reject(vaultError.code, vaultError.localizedDescription, error)
+    } else {
+      reject(code, error.localizedDescription, error)
+    }
+  }
+
+  private static func hex(_ digest: SHA256.Digest) -> String {
+    digest.map { String(format: "%02x", $0) }.joined()
+  }
+
+  // ZIP の作成・読み込みのエラー。空き容量不足は no_space で返す
+  private static func rejectArchiveError(
+    _ reject: RCTPromiseRejectBlock,
+    _ error: Error,
+    code: String
+  ) {
+    let nsError = error as NSError
+    if let archiveError = error as? ZipArchive.ArchiveError {
+      reject(archiveError.code, archiveError.localizedDescription, error)
+    } else if (nsError.domain == NSCocoaErrorDomain && nsError.code == NSFileWriteOutOfSpaceError)
+      || (nsError.domain == NSPOSIXErrorDomain && nsError.code == Int(ENOSPC)) {
+      reject("no_space", error.localizedDescription, error)
+    } else {
+      rejectFileError(reject, error, code: code)
+    }
+  }
+
+  // path・text・file・modifiedAt（ISO 8601）。file は Documents の録音名
+  private static func archiveEntry(_ entry: NSDictionary) throws -> ZipArchive.Entry {
+    guard let path = entry["path"] as? String, !path.isEmpty else {
+      throw NSError(domain: "RecorderManager", code: 1, userInfo: [NSLocalizedDescriptionKey: "ZIP のファイル名がありません"])
+    }
+    let source: ZipArchive.Source
+    if let file = entry["file"] as? String {
+      source = .file(try documentFileURL(file))
+    } else {
+      source = .text(entry["text"] as? String ?? "")
+    }
+    let formatter = ISO8601DateFormatter()
+    formatter.formatOptions = [.withInternetDateTime, .withFractionalSeconds]
+    let modifiedAt = (entry["modifiedAt"] as? String).flatMap(formatter.date(from:)) ?? Date()
+    return ZipArchive.Entry(path: path, source: source, modifiedAt: modifiedAt)
+  }
+
   private static func stopRecordingInternal() -> String {
     guard let recorder = audioRecorder, recorder.isRecording else {
       return "idle"
     }
+    // 先に外しておき、delegate が上限時間での停止と取り違えないようにする
+    audioRecorder = nil
     recorder.stop()
+    sealClosedRecording(recorder.url)
     let fileName = recorder.url.lastPathComponent
-    audioRecorder = nil
+    emit("recordingStopped", ["fileName": fileName, "reason": "stopped"])
+    scheduleFilesChangedCheck()
     do {
       try audioSession.setActive(false, options: [.notifyOthersOnDeactivation])
     } catch {
@@ -147,21 +1282,196 @@ public class RecorderManager: NSObject {
     return fileName
   }
 
-  private static func beginRecording() throws -> String {
+  // 保護モードなら閉じた録音をその場で暗号化し、平文のまま残さない。
+  // 暗号化は公開鍵だけで済むのでロック中でもできる（証拠ログへの登録はロック解除の後に元の音声で行う）
+  private static func sealClosedRecording(_ url: URL) {
+    guard RecordingVault.isEnabled else {
+      return
+    }
+    do {
+      try RecordingVault.encryptFile(url)
+    } catch {
+      NSLog("[Recorder] Failed to encrypt %@: %@", url.lastPathComponent, error.localizedDescription)
+    }
+  }
+
+  // MARK: - ショートカットからのマーカー
+
+  private static let pendingMarkersKey = "twotaprecorder.pendingMarkers"
+
+  // JS が起動・復帰するのを待つ間に位置がずれないよう、mark リンクを受け取った時点の位置を残す。
+  // JS のルーターが同じ URL を受け取ったときに consumePendingMarkers で取り込む
+  @objc public static func handleMarkLink(_ url: URL) {
+    guard url.scheme?.lowercased() == "twotaprecorder" else {
+      return
+    }
+    let action = url.host ?? url.pathComponents.first(where: { $0 != "/" })
+    guard action?.lowercased() == "mark" else {
+      return
+    }
+    guard let recorder = audioRecorder, recorder.isRecording else {
+      NSLog("[Recorder] mark ignored: not recording")
+      return
+    }
+    let components = URLComponents(url: url, resolvingAgainstBaseURL: false)
+    let label = components?.queryItems?.first(where: { $0.name == "label" })?.value ?? ""
+    let marker: [String: Any] = [
+      "fileName": recorder.url.lastPathComponent,
+      "offsetSeconds": recorder.currentTime,
+      "label": label.trimmingCharacters(in: .whitespacesAndNewlines),
+      "createdAt": ISO8601DateFormatter().string(from: Date()),
+      "url": url.absoluteString,
+    ]
+    let defaults = UserDefaults.standard
+    var markers = defaults.array(forKey: pendingMarkersKey) ?? []
+    markers.append(marker)
+    defaults.set(markers, forKey: pendingMarkersKey)
+  }
+
+  private static func exportDirectory() throws -> URL {
+    let directory = FileManager.default.temporaryDirectory.appendingPathComponent("exports", isDirectory: true)
+    try FileManager.default.createDirectory(at: directory, withIntermediateDirectories: true)
+    return directory
+  }
+
+  private static func stopPlaybackInternal() {
+    audioPlayer?.stop()
+    audioPlayer = nil
+    playingURL = nil
+  }
+
+  // options は JS の NativeStartOptions（services/recorder/types.ts）
+  private static func beginRecording(_ options: NSDictionary) throws -> String {
     if let recorder = audioRecorder, recorder.isRecording {
       return recorder.url.lastPathComponent
     }
 
+    let maxDuration = (options["maxDurationSeconds"] as? NSNumber)?.doubleValue
+    let segmentIndex = (options["segmentIndex"] as? NSNumber)?.intValue
     try configureSession()
-    let url = try makeRecorderURL()
-    let recorder = try AVAudioRecorder(url: url, settings: recordingSettings())
+    observeInterruptions()
+    interruptedFileName = nil
+    let (settings, fileExtension) = recordingSettings(options["profile"] as? NSDictionary)
+    let url = try makeRecorderURL(
+      fileExtension: fileExtension,
+      sessionName: options["sessionName"] as? String,
+      segmentIndex: segmentIndex
+    )
+    let recorder = try AVAudioRecorder(url: url, settings: settings)
+    recorder.delegate = recorderDelegate
     recorder.isMeteringEnabled = true
     recorder.prepareToRecord()
-    recorder.record()
+    if let maxDuration, maxDuration > 0 {
+      // 指定時間で AVAudioRecorder 自身が停止・保存する
+      recorder.record(forDuration: maxDuration)
+    } else {
+      recorder.record()
+    }
     audioRecorder = recorder
+    emit("recordingStarted", ["fileName": url.lastPathComponent])
     return url.lastPathComponent
   }
 
+  // record(forDuration:) の上限で AVAudioRecorder が自分で止まったとき
+  fileprivate static func recorderDidFinish(_ recorder: AVAudioRecorder) {
+    guard audioRecorder === recorder else {
+      return
+    }
+    audioRecorder = nil
+    sealClosedRecording(recorder.url)
+    try? audioSession.setActive(false, options: [.notifyOthersOnDeactivation])
+    emit("recordingStopped", ["fileName": recorder.url.lastPathComponent, "reason": "finished"])
+    scheduleFilesChangedCheck()
+  }
+
+  private static func emit(_ name: String, _ body: [String: Any] = [:]) {
+    DispatchQueue.main.async {
+      guard hasListeners, let emitter else {
+        return
+      }
+      emitter.sendEvent(withName: name, body: body)
+    }
+  }
+
+  // 録音ファイルが増えた・消えたら（録音の保存・削除・ファイルアプリでの追加など）まとめて 1 回知らせる
+  private static func watchDocuments() {
+    guard directorySource == nil, let directory = try? documentsDirectory() else {
+      return
+    }
+    watchedAudioFileNames = audioFileNames(in: directory)
+    let descriptor = open(directory.path, O_EVTONLY)
+    guard descriptor >= 0 else {
+      return
+    }
+    let source = DispatchSource.makeFileSystemObjectSource(
+      fileDescriptor: descriptor,
+      eventMask: [.write, .rename, .delete],
+      queue: .main
+    )
+    source.setEventHandler {
+      scheduleFilesChangedCheck()
+    }
+    source.setCancelHandler {
+      close(descriptor)
+    }
+    source.resume()
+    directorySource = source
+  }
+
+  // 録音中のファイルは閉じるまで知らせない（書き込み途中のファイルを証拠ログに登録させないため）。
+  // ファイルを閉じてもディレクトリの変更にはならないので、録音を止めた側から呼ぶ
+  private static func scheduleFilesChangedCheck() {
+    guard directorySource != nil, let directory = try? documentsDirectory() else {
+      return
+    }
+    pendingFilesChanged?.cancel()
+    let work = DispatchWorkItem {
+      let names = audioFileNames(in: directory)
+      guard names != watchedAudioFileNames else {
+        return
+      }
+      watchedAudioFileNames = names
+      emit("recordingFilesChanged")
+    }
+    pendingFilesChanged = work
+    DispatchQueue.main.asyncAfter(deadline: .now() + 0.3, execute: work)
+  }
+
+  private static func audioFileNames(in directory: URL) -> Set<String> {
+    let names = (try? FileManager.default.contentsOfDirectory(atPath: directory.path)) ?? []
+    let recordingName = audioRecorder?.url.lastPathComponent
+    return Set(names.filter {
+      $0 != recordingName && audioExtensions.contains(($0 as NSString).pathExtension.lowercased())
+    })
+  }
+
+  // 中断されたままの AVAudioRecorder はファイルを閉じないため、中断が始まった時点で保存する
+  private static func observeInterruptions() {
+    guard interruptionObserver == nil else {
+      return
+    }
+    interruptionObserver = NotificationCenter.default.addObserver(
+      forName: AVAudioSession.interruptionNotification,
+      object: audioSession,
+      queue: .main
+    ) { notification in
+      guard
+        let rawType = notification.userInfo?[AVAudioSessionInterruptionTypeKey] as? UInt,
+        AVAudioSession.InterruptionType(rawValue: rawType) == .began,
+        let recorder = audioRecorder
+      else {
+        return
+      }
+      audioRecorder = nil
+      recorder.stop()
+      sealClosedRecording(recorder.url)
+      interruptedFileName = recorder.url.lastPathComponent
+      NSLog("[Recorder] Interrupted: %@", recorder.url.lastPathComponent)
+      emit("recordingStopped", ["fileName": recorder.url.lastPathComponent, "reason": "interrupted"])
+      scheduleFilesChangedCheck()
+    }
+  }
+
   private static func configureSession() throws {
     try audioSession.setCategory(
       .playAndRecord,
@@ -171,23 +1481,142 @@ public class RecorderManager: NSObject {
     try audioSession.setActive(true, options: [])
   }
 
-  private static func makeRecorderURL() throws -> URL {
-    let documents = FileManager.default.urls(for: .documentDirectory, in: .userDomainMask)
-    guard let directory = documents.first else {
+  private static func documentsDirectory() throws -> URL {
+    guard let directory = FileManager.default.urls(for: .documentDirectory, in: .userDomainMask).first else {
       throw NSError(domain: "RecorderManager", code: 0, userInfo: [NSLocalizedDescriptionKey: "Documentsディレクトリを取得できません"])
     }
-    let timestamp = fileDateFormatter.string(from: Date())
-    let filename = "recording-\(timestamp).m4a"
+    return directory
+  }
+
+  // JSから渡されたファイル名はDocuments直下のみに限定する
+  private static func documentFileURL(_ name: String) throws -> URL {
+    guard !name.isEmpty, !name.contains("/"), name != "..", name != "." else {
+      throw NSError(domain: "RecorderManager", code: 1, userInfo: [NSLocalizedDescriptionKey: "不正なファイル名です: \(name)"])
+    }
+    return try documentsDirectory().appendingPathComponent(name)
+  }
+
+  // 分割録音は recording-yyyyMMdd_HHmmss-part01.m4a のようにパート番号を付ける
+  private static func makeRecorderURL(
+    fileExtension: String,
+    sessionName: String? = nil,
+    segmentIndex: Int? = nil
+  ) throws -> URL {
+    let directory = try documentsDirectory()
+    let baseName = sessionName ?? "recording-\(fileDateFormatter.string(from: Date()))"
+    guard !baseName.contains("/"), !baseName.hasPrefix(".") else {
+      throw NSError(domain: "RecorderManager", code: 1, userInfo: [NSLocalizedDescriptionKey: "不正なファイル名です: \(baseName)"])
+    }
+    guard let segmentIndex, segmentIndex > 0 else {
+      return directory.appendingPathComponent("\(baseName).\(fileExtension)")
+    }
+    let filename = "\(baseName)-part\(String(format: "%02d", segmentIndex)).\(fileExtension)"
     return directory.appendingPathComponent(filename)
   }
 
-  private static func recordingSettings() -> [String: Any] {
-    [
-      AVFormatIDKey: Int(kAudioFormatMPEG4AAC),
-      AVSampleRateKey: 44100,
-      AVNumberOfChannelsKey: 1,
-      AVEncoderAudioQualityKey: AVAudioQuality.high.rawValue,
-    ]
+  // JS の RecordingProfile（services/recorder/profiles.ts）から録音設定と拡張子を決める
+  private static func recordingSettings(_ profile: NSDictionary?) -> ([String: Any], String) {
+    let sampleRate = (profile?["sampleRate"] as? NSNumber)?.doubleValue ?? 44100
+    let channels = (profile?["channels"] as? NSNumber)?.intValue ?? 1
+    let bitDepth = (profile?["bitDepth"] as? NSNumber)?.intValue ?? 16
+    switch profile?["format"] as? String {
+    case "wav":
+      return ([
+        AVFormatIDKey: Int(kAudioFormatLinearPCM),
+        AVSampleRateKey: sampleRate,
+        AVNumberOfChannelsKey: channels,
+        AVLinearPCMBitDepthKey: bitDepth,
+        AVLinearPCMIsFloatKey: false,
+        AVLinearPCMIsBigEndianKey: false,
+      ], "wav")
+    case "alac":
+      return ([
+        AVFormatIDKey: Int(kAudioFormatAppleLossless),
+        AVSampleRateKey: sampleRate,
+        AVNumberOfChannelsKey: channels,
+        AVEncoderBitDepthHintKey: bitDepth,
+      ], "m4a")
+    default:
+      var settings: [String: Any] = [
+        AVFormatIDKey: Int(kAudioFormatMPEG4AAC),
+        AVSampleRateKey: sampleRate,
+        AVNumberOfChannelsKey: channels,
+        AVEncoderAudioQualityKey: AVAudioQuality.high.rawValue,
+      ]
+      if let bitRate = (profile?["bitRate"] as? NSNumber)?.intValue {
+        settings[AVEncoderBitRateKey] = bitRate
+      }
+      return (settings, "m4a")
+    }
+  }
+}
+
+// AVAudioRecorder の停止を RecorderManager に渡す
+private final class RecorderDelegate: NSObject, AVAudioRecorderDelegate {
+  func audioRecorderDidFinishRecording(_ recorder: AVAudioRecorder, successfully flag: Bool) {
+    RecorderManager.recorderDidFinish(recorder)
   }
 }
 
+// CLLocationManager の結果を待っている呼び出しに渡す（メインスレッドで使う）
+private final class LocationHandler: NSObject, CLLocationManagerDelegate {
+  var onAuthorization: ((CLAuthorizationStatus) -> Void)?
+  private var waiting: [UUID: (CLLocation?) -> Void] = [:]
+
+  func waitForLocation(timeout: TimeInterval, completion: @escaping (CLLocation?) -> Void) {
+    let id = UUID()
+    waiting[id] = completion
+    DispatchQueue.main.asyncAfter(deadline: .now() + timeout) { [weak self] in
+      self?.waiting.removeValue(forKey: id)?(nil)
+    }
+  }
+
+  private func finish(_ location: CLLocation?) {
+    let completions = waiting.values
+    waiting.removeAll()
+    completions.forEach { $0(location) }
+  }
+
+  private func authorizationChanged(_ status: CLAuthorizationStatus) {
+    guard status != .notDetermined, let callback = onAuthorization else {
+      return
+    }
+    onAuthorization = nil
+    callback(status)
+  }
+
+  func locationManager(_ manager: CLLocationManager, didUpdateLocations locations: [CLLocation]) {
+    finish(locations.last)
+  }
+
+  func locationManager(_ manager: CLLocationManager, didFailWithError error: Error) {
+    finish(nil)
+  }
+
+  @available(iOS 14.0, *)
+  func locationManagerDidChangeAuthorization(_ manager: CLLocationManager) {
+    authorizationChanged(manager.authorizationStatus)
+  }
+
+  // iOS 13 ではこちらだけが呼ばれる
+  func locationManager(_ manager: CLLocationManager, didChangeAuthorization status: CLAuthorizationStatus) {
+    authorizationChanged(status)
+  }
+}
+
+// UIDocumentPickerViewController の結果を Promise に渡す
+private final class DocumentPickerHandler: NSObject, UIDocumentPickerDelegate {
+  private let completion: ([URL]?) -> Void
+
+  init(completion: @escaping ([URL]?) -> Void) {
+    self.completion = completion
+  }
+
+  func documentPicker(_ controller: UIDocumentPickerViewController, didPickDocumentsAt urls: [URL]) {
+    completion(urls)
+  }
+
+  func documentPickerWasCancelled(_ controller: UIDocumentPickerViewController) {
+    completion(nil)
+  }
+}
@@ -0,0 +1,612 @@
+import CommonCrypto
+import CryptoKit
+import Foundation
+import LocalAuthentication
+import Security
+
+// 保護モードの暗号化。
+// 録音は端末内の公開鍵で暗号化するので、ロック中（画面ロック中の録音など）でも保存できる。
+// 復号に使う秘密鍵はパスコードから導いた鍵で包んでキーチェーンに置き、ロック解除中だけメモリに持つ。
+//
+// ファイル形式: "TTRVAULT" | version(1) | 一時公開鍵(32) | 元のサイズ(8, LE) | 1MB ごとの AES-GCM（nonce + 暗号文 + tag）
+// 各チャンクはヘッダとチャンク番号を追加認証データに含めるので、入れ替え・切り詰めを検出できる。
+// 証拠ログのように追記するファイルは、追記ごとの暗号文を続けて並べる（ロック中でも前の中身を読まずに足せる）。
+enum RecordingVault {
+  enum VaultError: LocalizedError {
+    case notEnabled
+    case alreadyEnabled
+    case locked
+    case wrongPasscode
+    case corrupted
+    case biometricsUnavailable
+    case keychain(OSStatus)
+
+    var code: String {
+      switch self {
+      case .notEnabled: return "not_enabled"
+      case .alreadyEnabled: return "already_enabled"
+      case .locked: return "locked"
+      case .wrongPasscode: return "wrong_passcode"
+      case .corrupted: return "corrupted"
+      case .biometricsUnavailable: return "biometrics_failed"
+      case .keychain: return "io_error"
+      }
+    }
+
+    var errorDescription: String? {
+      switch self {
+      case .notEnabled: return "保護モードが有効になっていません"
+      case .alreadyEnabled: return "保護モードは既に有効です"
+      case .locked: return "保護モードのロックを解除してください"
+      case .wrongPasscode: return "パスコードが違います"
+      case .corrupted: return "暗号化されたファイルを読み込めません"
+      case .biometricsUnavailable: return "生体認証でロックを解除できませんでした"
+      case .keychain(let status): return "キーチェーンの操作に失敗しました (\(status))"
+      }
+    }
+  }
+
+  private static let magic = Data("TTRVAULT".utf8)
+  private static let version: UInt8 = 1
+  private static let headerSize = 8 + 1 + 32 + 8
+  private static let chunkSize = 1 << 20
+  // AES-GCM の nonce(12) と tag(16)
+  private static let chunkOverhead = 28
+  private static let saltSize = 16
+  private static let pbkdfRounds: UInt32 = 310_000
+  private static let keychainService = "twotaprecorder.vault"
+  private static let publicKeyAccount = "publicKey"
+  private static let wrappedKeyAccount = "wrappedPrivateKey"
+  private static let biometricKeyAccount = "biometricPrivateKey"
+  private static let biometricsDefaultsKey = "twotaprecorder.vault.biometrics"
+
+  // ロック解除中だけ保持する
+  private static var privateKey: Curve25519.KeyAgreement.PrivateKey?
+
+  static var isEnabled: Bool {
+    (try? keychainData(publicKeyAccount)) != nil
+  }
+
+  static var isUnlocked: Bool {
+    privateKey != nil
+  }
+
+  static var biometricsEnabled: Bool {
+    UserDefaults.standard.bool(forKey: biometricsDefaultsKey)
+  }
+
+  static var biometryType: String {
+    let context = LAContext()
+    guard context.canEvaluatePolicy(.deviceOwnerAuthenticationWithBiometrics, error: nil) else {
+      return "none"
+    }
+    switch context.biometryType {
+    case .faceID: return "faceID"
+    case .touchID: return "touchID"
+    default: return "none"
+    }
+  }
+
+  // MARK: - 鍵の管理
+
+  static func enable(passcode: String, useBiometrics: Bool) throws {
+    guard !isEnabled else {
+      throw VaultError.alreadyEnabled
+    }
+    let key = Curve25519.KeyAgreement.PrivateKey()
+    try storeWrappedKey(key, passcode: passcode)
+    try setKeychainData(publicKeyAccount, key.publicKey.rawRepresentation)
+    privateKey = key
+    if useBiometrics {
+      try setBiometrics(true)
+    }
+  }
+
+  static func unlock(passcode: String) throws {
+    privateKey = try unwrapKey(passcode: passcode)
+  }
+
+  // キーチェーンの取り出し時に Face ID / Touch ID を求める（メインスレッド以外で呼ぶ）
+  static func unlockWithBiometrics(reason: String) throws {
+    guard isEnabled else {
+      throw VaultError.notEnabled
+    }
+    guard biometricsEnabled else {
+      throw VaultError.biometricsUnavailable
+    }
+    let context = LAContext()
+    context.localizedReason = reason
+    guard let raw = try? keychainData(biometricKeyAccount, context: context) else {
+      throw VaultError.biometricsUnavailable
+    }
+    privateKey = try Curve25519.KeyAgreement.PrivateKey(rawRepresentation: raw)
+  }
+
+  static func lock() {
+    privateKey = nil
+  }
+
+  static func changePasscode(current: String, next: String) throws {
+    let key = try unwrapKey(passcode: current)
+    try storeWrappedKey(key, passcode: next)
+    privateKey = key
+  }
+
+  static func setBiometrics(_ enabled: Bool) throws {
+    deleteKeychainData(biometricKeyAccount)
+    if enabled {
+      guard let key = privateKey else {
+        throw VaultError.locked
+      }
+      var error: Unmanaged<CFError>?
+      guard let access = SecAccessControlCreateWithFlags(
+        nil,
+        kSecAttrAccessibleWhenPasscodeSetThisDeviceOnly,
+        .biometryCurrentSet,
+        &error
+      ) else {
+        throw VaultError.biometricsUnavailable
+      }
+      try setKeychainData(biometricKeyAccount, key.rawRepresentation, access: access)
+    }
+    UserDefaults.standard.set(enabled, forKey: biometricsDefaultsKey)
+  }
+
+  // 保護を解除する。directory 内の暗号化ファイルはすべて元に戻す
+  static func disable(passcode: String, directory: URL) throws {
+    privateKey = try unwrapKey(passcode: passcode)
+    let files = try FileManager.default.contentsOfDirectory(at: directory, includingPropertiesForKeys: nil)
+    for url in files where isEncrypted(url) {
+      try replace(url) { output in
+        try decrypt(url) { try output.write(contentsOf: $0) }
+      }
+    }
+    deleteKeychainData(biometricKeyAccount)
+    deleteKeychainData(wrappedKeyAccount)
+    deleteKeychainData(publicKeyAccount)
+    UserDefaults.standard.removeObject(forKey: biometricsDefaultsKey)
+    privateKey = nil
+  }
+
+  // MARK: - ファイル
+
+  static func isEncrypted(_ url: URL) -> Bool {
+    guard let handle = try? FileHandle(forReadingFrom: url) else {
+      return false
+    }
+    defer { try? handle.close() }
+    return (try? handle.read(upToCount: magic.count)) == magic
+  }
+
+  // 元のファイルのサイズ（暗号化されていなければ nil）
+  static func plaintextSize(_ url: URL) -> Int64? {
+    guard let handle = try? FileHandle(forReadingFrom: url) else {
+      return nil
+    }
+    defer { try? handle.close() }
+    guard let header = try? handle.read(upToCount: headerSize),
+          header.count == headerSize,
+          header.prefix(magic.count) == magic else {
+      return nil
+    }
+    return Int64(readLength(header))
+  }
+
+  // 暗号化したら true。既に暗号化済み・ファイルがない場合は false
+  @discardableResult
+  static func encryptFile(_ url: URL) throws -> Bool {
+    guard FileManager.default.fileExists(atPath: url.path), !isEncrypted(url) else {
+      return false
+    }
+    let attributes = try FileManager.default.attributesOfItem(atPath: url.path)
+    let length = UInt64(attributes[.size] as? Int64 ?? 0)
+    let input = try FileHandle(forReadingFrom: url)
+    defer { try? input.close() }
+    try replace(url) { output in
+      try encrypt(length: length, read: { try input.read(upToCount: $0) ?? Data() }) {
+        try output.write(contentsOf: $0)
+      }
+    }
+    return true
+  }
+
+  // 平文を chunk ごとに渡す。暗号化されていないファイルはそのまま読む
+  static func readPlaintext(_ url: URL, _ body: (Data) throws -> Void) throws {
+    if isEncrypted(url) {
+      try decrypt(url, body)
+      return
+    }
+    let handle = try FileHandle(forReadingFrom: url)
+    defer { try? handle.close() }
+    while let chunk = try handle.read(upToCount: chunkSize), !chunk.isEmpty {
+      try body(chunk)
+    }
+  }
+
+  static func plaintextData(_ url: URL) throws -> Data {
+    var data = Data()
+    try readPlaintext(url) { data.append($0) }
+    return data
+  }
+
+  // AVAudioFile・音声認識など URL が必要な API 用に一時ファイルへ復号する
+  static func decryptToTemporaryFile(_ url: URL) throws -> URL {
+    let destination = FileManager.default.temporaryDirectory
+      .appendingPathComponent("vault-\(UUID().uuidString)")
+      .appendingPathExtension(url.pathExtension)
+    FileManager.default.createFile(atPath: destination.path, contents: nil)
+    let output = try FileHandle(forWritingTo: destination)
+    defer { try? output.close() }
+    try decrypt(url) { try output.write(contentsOf: $0) }
+    return destination
+  }
+
+  // 文字起こしなどのテキストファイル用（メモリ上で暗号化）
+  static func sealData(_ data: Data) throws -> Data {
+    var sealed = Data()
+    try encrypt(length: UInt64(data.count), read: reader(data)) { sealed.append($0) }
+    return sealed
+  }
+
+  // sealData で暗号化したものをメモリ上で復号する
+  static func openData(_ sealed: Data) throws -> Data {
+    var data = Data()
+    let read = reader(sealed)
+    try decrypt(read: { read($0) }) { data.append($0) }
+    return data
+  }
+
+  // 暗号化して末尾に足す。暗号化していないファイルは先に全体を暗号化する
+  static func appendSealed(_ data: Data, to url: URL) throws {
+    guard FileManager.default.fileExists(atPath: url.path) else {
+      try sealData(data).write(to: url, options: .atomic)
+      return
+    }
+    try encryptFile(url)
+    let handle = try FileHandle(forWritingTo: url)
+    defer { try? handle.close() }
+    try handle.seekToEnd()
+    try handle.write(contentsOf: try sealData(data))
+  }
+
+  // MARK: - バックアップのパスワード暗号化
+
+  // 保護モードの鍵とは別に、バックアップごとのパスワードから鍵を作る（別の端末でも復元できるように）
+  // 形式: "TTRBACKUP" | version(2) | salt(16) | 元のサイズ(8, LE) | 1MB ごとの AES-GCM（録音の暗号化と同じ）
+  // version 1 はファイル全体を 1 回で暗号化していた古い形式で、読み込みだけに対応する
+  private static let backupMagic = Data("TTRBACKUP".utf8)
+  private static let backupVersion: UInt8 = 2
+  private static let legacyBackupVersion: UInt8 = 1
+
+  static func isPasswordSealed(_ url: URL) -> Bool {
+    guard let handle = try? FileHandle(forReadingFrom: url) else {
+      return false
+    }
+    defer { try? handle.close() }
+    return (try? handle.read(upToCount: backupMagic.count)) == backupMagic
+  }
+
+  static func sealFile(_ source: URL, to destination: URL, password: String) throws {
+    var salt = Data(count: saltSize)
+    let status = salt.withUnsafeMutableBytes {
+      SecRandomCopyBytes(kSecRandomDefault, saltSize, $0.baseAddress!)
+    }
+    guard status == errSecSuccess else {
+      throw VaultError.keychain(status)
+    }
+    let attributes = try FileManager.default.attributesOfItem(atPath: source.path)
+    let length = UInt64(attributes[.size] as? Int64 ?? 0)
+    let header = backupMagic + Data([backupVersion]) + salt + littleEndian(length)
+    let key = try passcodeKey(password, salt: salt)
+
+    let input = try FileHandle(forReadingFrom: source)
+    defer { try? input.close() }
+    FileManager.default.createFile(atPath: destination.path, contents: nil)
+    let output = try FileHandle(forWritingTo: destination)
+    defer { try? output.close() }
+    try output.write(contentsOf: header)
+    try sealChunks(key: key, header: header, length: length, read: { try input.read(upToCount: $0) ?? Data() }) {
+      try output.write(contentsOf: $0)
+    }
+  }
+
+  static func openFile(_ source: URL, to destination: URL, password: String) throws {
+    let input = try FileHandle(forReadingFrom: source)
+    defer { try? input.close() }
+    let prefixSize = backupMagic.count + 1 + saltSize
+    guard let prefix = try input.read(upToCount: prefixSize),
+          prefix.count == prefixSize,
+          prefix.starts(with: backupMagic) else {
+      throw VaultError.corrupted
+    }
+    let key = try passcodeKey(password, salt: Data(prefix.suffix(saltSize)))
+    FileManager.default.createFile(atPath: destination.path, contents: nil)
+    let output = try FileHandle(forWritingTo: destination)
+    defer { try? output.close() }
+
+    switch prefix[prefix.startIndex + backupMagic.count] {
+    case backupVersion:
+      guard let length = try input.read(upToCount: 8), length.count == 8 else {
+        throw VaultError.corrupted
+      }
+      // 最初のチャンクを開けなければパスワード違い
+      try openChunks(read: { try input.read(upToCount: $0) }, key: key, header: prefix + length, length: littleEndianValue(length), firstFailure: .wrongPasscode) {
+        try output.write(contentsOf: $0)
+      }
+    case legacyBackupVersion:
+      let plaintext: Data
+      do {
+        plaintext = try AES.GCM.open(
+          AES.GCM.SealedBox(combined: try input.readToEnd() ?? Data()),
+          using: key,
+          authenticating: prefix
+        )
+      } catch {
+        throw VaultError.wrongPasscode
+      }
+      try output.write(contentsOf: plaintext)
+    default:
+      throw VaultError.corrupted
+    }
+  }
+
+  // MARK: - 暗号化の本体
+
+  private static func encrypt(
+    length: UInt64,
+    read: (Int) throws -> Data,
+    write: (Data) throws -> Void
+  ) throws {
+    guard let publicKeyData = try keychainData(publicKeyAccount) else {
+      throw VaultError.notEnabled
+    }
+    let publicKey = try Curve25519.KeyAgreement.PublicKey(rawRepresentation: publicKeyData)
+    let ephemeral = Curve25519.KeyAgreement.PrivateKey()
+    var header = magic
+    header.append(version)
+    header.append(ephemeral.publicKey.rawRepresentation)
+    header.append(littleEndian(length))
+    let key = try fileKey(ephemeral.sharedSecretFromKeyAgreement(with: publicKey), header: header)
+    try write(header)
+    try sealChunks(key: key, header: header, length: length, read: read, write: write)
+  }
+
+  private static func decrypt(_ url: URL, _ body: (Data) throws -> Void) throws {
+    let handle = try FileHandle(forReadingFrom: url)
+    defer { try? handle.close() }
+    try decrypt(read: { try handle.read(upToCount: $0) }, body)
+  }
+
+  // 追記した暗号文が続いていれば、終わりまで順に復号する
+  private static func decrypt(read: (Int) throws -> Data?, _ body: (Data) throws -> Void) throws {
+    guard let privateKey else {
+      throw VaultError.locked
+    }
+    var next = try read(headerSize)
+    repeat {
+      guard let header = next,
+            header.count == headerSize,
+            header.prefix(magic.count) == magic,
+            header[header.startIndex + magic.count] == version else {
+        throw VaultError.corrupted
+      }
+      let keyStart = header.startIndex + magic.count + 1
+      let ephemeral = try Curve25519.KeyAgreement.PublicKey(
+        rawRepresentation: header.subdata(in: keyStart..<(keyStart + 32))
+      )
+      let key = try fileKey(privateKey.sharedSecretFromKeyAgreement(with: ephemeral), header: header)
+      try openChunks(read: read, key: key, header: header, length: readLength(header), body: body)
+      next = try read(headerSize)
+    } while next?.isEmpty == false
+  }
+
+  // 1MB ごとに AES-GCM で包む。ヘッダとチャンク番号を追加認証データに含める
+  private static func sealChunks(
+    key: SymmetricKey,
+    header: Data,
+    length: UInt64,
+    read: (Int) throws -> Data,
+    write: (Data) throws -> Void
+  ) throws {
+    var index: UInt64 = 0
+    var remaining = length
+    repeat {
+      let chunk = try read(Int(min(UInt64(chunkSize), remaining)))
+      guard chunk.count == Int(min(UInt64(chunkSize), remaining)) else {
+        throw VaultError.corrupted
+      }
+      let sealed = try AES.GCM.seal(chunk, using: key, authenticating: header + littleEndian(index))
+      guard let combined = sealed.combined else {
+        throw VaultError.corrupted
+      }
+      try write(combined)
+      remaining -= UInt64(chunk.count)
+      index += 1
+    } while remaining > 0
+  }
+
+  private static func openChunks(
+    read: (Int) throws -> Data?,
+    key: SymmetricKey,
+    header: Data,
+    length: UInt64,
+    firstFailure: VaultError = .corrupted,
+    body: (Data) throws -> Void
+  ) throws {
+    var index: UInt64 = 0
+    var remaining = length
+    repeat {
+      let size = Int(min(UInt64(chunkSize), remaining))
+      guard let sealed = try read(size + chunkOverhead),
+            sealed.count == size + chunkOverhead else {
+        throw VaultError.corrupted
+      }
+      let chunk: Data
+      do {
+        chunk = try AES.GCM.open(
+          AES.GCM.SealedBox(combined: sealed),
+          using: key,
+          authenticating: header + littleEndian(index)
+        )
+      } catch {
+        throw index == 0 ? firstFailure : VaultError.corrupted
+      }
+      try body(chunk)
+      remaining -= UInt64(size)
+      index += 1
+    } while remaining > 0
+  }
+
+  private static func fileKey(_ secret: SharedSecret, header: Data) throws -> SymmetricKey {
+    secret.hkdfDerivedSymmetricKey(
+      using: SHA256.self,
+      salt: Data("twotaprecorder.vault.file".utf8),
+      sharedInfo: header,
+      outputByteCount: 32
+    )
+  }
+
+  // 同じフォルダの一時ファイルに書いてから置き換える（途中で落ちても元のファイルは残る）
+  private static func replace(_ url: URL, _ write: (FileHandle) throws -> Void) throws {
+    let temporary = url.deletingLastPathComponent()
+      .appendingPathComponent(".\(url.lastPathComponent).vault-tmp")
+    FileManager.default.createFile(atPath: temporary.path, contents: nil)
+    do {
+      let output = try FileHandle(forWritingTo: temporary)
+      defer { try? output.close() }
+      try write(output)
+    } catch {
+      try? FileManager.default.removeItem(at: temporary)
+      throw error
+    }
+    _ = try FileManager.default.replaceItemAt(url, withItemAt: temporary)
+  }
+
+  // メモリ上のデータを先頭から順に渡す
+  private static func reader(_ data: Data) -> (Int) -> Data {
+    var offset = data.startIndex
+    return { count in
+      let end = min(offset + count, data.endIndex)
+      defer { offset = end }
+      return data.subdata(in: offset..<end)
+    }
+  }
+
+  private static func littleEndian(_ value: UInt64) -> Data {
+    withUnsafeBytes(of: value.littleEndian) { Data($0) }
+  }
+
+  private static func readLength(_ header: Data) -> UInt64 {
+    let start = header.startIndex + magic.count + 1 + 32
+    return littleEndianValue(header.subdata(in: start..<(start + 8)))
+  }
+
+  private static func littleEndianValue(_ data: Data) -> UInt64 {
+    data.enumerated().reduce(UInt64(0)) {
+      $0 | (UInt64($1.element) << (8 * UInt64($1.offset)))
+    }
+  }
+
+  // MARK: - パスコードで包む
+
+  private static func storeWrappedKey(_ key: Curve25519.KeyAgreement.PrivateKey, passcode: String) throws {
+    var salt = Data(count: saltSize)
+    let status = salt.withUnsafeMutableBytes {
+      SecRandomCopyBytes(kSecRandomDefault, saltSize, $0.baseAddress!)
+    }
+    guard status == errSecSuccess else {
+      throw VaultError.keychain(status)
+    }
+    let sealed = try AES.GCM.seal(key.rawRepresentation, using: try passcodeKey(passcode, salt: salt))
+    guard let combined = sealed.combined else {
+      throw VaultError.corrupted
+    }
+    try setKeychainData(wrappedKeyAccount, salt + combined)
+  }
+
+  private static func unwrapKey(passcode: String) throws -> Curve25519.KeyAgreement.PrivateKey {
+    guard let wrapped = try keychainData(wrappedKeyAccount), wrapped.count > saltSize else {
+      throw VaultError.notEnabled
+    }
+    let salt = wrapped.prefix(saltSize)
+    do {
+      let raw = try AES.GCM.open(
+        AES.GCM.SealedBox(combined: wrapped.dropFirst(saltSize)),
+        using: try passcodeKey(passcode, salt: Data(salt))
+      )
+      return try Curve25519.KeyAgreement.PrivateKey(rawRepresentation: raw)
+    } catch {
+      throw VaultError.wrongPasscode
+    }
+  }
+
+  private static func passcodeKey(_ passcode: String, salt: Data) throws -> SymmetricKey {
+    let password = Array(passcode.utf8)
+    var derived = [UInt8](repeating: 0, count: 32)
+    let status = salt.withUnsafeBytes { saltBytes in
+      CCKeyDerivationPBKDF(
+        CCPBKDFAlgorithm(kCCPBKDF2),
+        password.map { Int8(bitPattern: $0) },
+        password.count,
+        saltBytes.bindMemory(to: UInt8.self).baseAddress,
+        salt.count,
+        CCPseudoRandomAlgorithm(kCCPRFHmacAlgSHA256),
+        pbkdfRounds,
+        &derived,
+        derived.count
+      )
+    }
+    guard status == kCCSuccess else {
+      throw VaultError.corrupted
+    }
+    return SymmetricKey(data: derived)
+  }
+
+  // MARK: - キーチェーン
+
+  private static func baseQuery(_ account: String) -> [String: Any] {
+    [
+      kSecClass as String: kSecClassGenericPassword,
+      kSecAttrService as String: keychainService,
+      kSecAttrAccount as String: account,
+    ]
+  }
+
+  private static func keychainData(_ account: String, context: LAContext? = nil) throws -> Data? {
+    var query = baseQuery(account)
+    query[kSecReturnData as String] = true
+    query[kSecMatchLimit as String] = kSecMatchLimitOne
+    if let context {
+      query[kSecUseAuthenticationContext as String] = context
+    }
+    var result: AnyObject?
+    let status = SecItemCopyMatching(query as CFDictionary, &result)
+    if status == errSecItemNotFound {
+      return nil
+    }
+    guard status == errSecSuccess else {
+      throw VaultError.keychain(status)
+    }
+    return result as? Data
+  }
+
+  private static func setKeychainData(_ account: String, _ data: Data, access: SecAccessControl? = nil) throws {
+    deleteKeychainData(account)
+    var query = baseQuery(account)
+    query[kSecValueData as String] = data
+    if let access {
+      query[kSecAttrAccessControl as String] = access
+    } else {
+      // 画面ロック中の録音停止でも暗号化できるよう、起動後最初のロック解除以降は読めるようにする
+      query[kSecAttrAccessible as String] = kSecAttrAccessibleAfterFirstUnlockThisDeviceOnly
+    }
+    let status = SecItemAdd(query as CFDictionary, nil)
+    guard status == errSecSuccess else {
+      throw VaultError.keychain(status)
+    }
+  }
+
+  private static func deleteKeychainData(_ account: String) {
+    SecItemDelete(baseQuery(account) as CFDictionary)
+  }
+}
@@ -0,0 +1,372 @@
+import Foundation
+
+// 書き出し・バックアップ用の無圧縮（STORED）ZIP。音声は圧縮が効かないため十分。
+// 録音は 1MB ずつ読みながら書く・取り出すのでメモリに載せない。4GB を超えるファイル・アーカイブは ZIP64 を使う。
+// Jest のフェイクは同じ配置の ZIP を services/export/zip.ts で作る。
+enum ZipArchive {
+  enum Source {
+    case text(String)
+    // Documents の録音。保護モードで暗号化されていれば復号しながら読む
+    case file(URL)
+  }
+
+  struct Entry {
+    let path: String
+    let source: Source
+    let modifiedAt: Date
+  }
+
+  // 読み込んだアーカイブの 1 ファイル
+  struct Item {
+    let path: String
+    let size: UInt64
+    let crc: UInt32
+    let headerOffset: UInt64
+  }
+
+  enum ArchiveError: LocalizedError {
+    case missing(String)
+    case changed(String)
+    case invalid
+
+    var code: String {
+      switch self {
+      case .missing: return "file_not_found"
+      case .changed: return "io_error"
+      case .invalid: return "invalid_archive"
+      }
+    }
+
+    var errorDescription: String? {
+      switch self {
+      case .missing(let name): return "ファイルが見つかりません: \(name)"
+      case .changed(let name): return "書き出し中にファイルが変更されました: \(name)"
+      case .invalid: return "ZIP ファイルを読み込めません"
+      }
+    }
+  }
+
+  private static let zip64Limit: UInt64 = 0xffff_ffff
+  // 汎用フラグ bit 11: ファイル名が UTF-8
+  private static let utf8Flag: UInt16 = 0x0800
+  private static let chunkSize = 1 << 20
+  // セントラルディレクトリはメモリに読むので上限を設ける
+  private static let maxDirectorySize: UInt64 = 64 << 20
+
+  private static let crcTable: [UInt32] = (0..<256).map { n -> UInt32 in
+    (0..<8).reduce(UInt32(n)) { c, _ in c & 1 == 1 ? 0xedb8_8320 ^ (c >> 1) : c >> 1 }
+  }
+
+  static func write(_ entries: [Entry], to url: URL) throws {
+    FileManager.default.createFile(atPath: url.path, contents: nil)
+    let output = try FileHandle(forWritingTo: url)
+    defer { try? output.close() }
+
+    var directory = Data()
+    for entry in entries {
+      let name = Data(entry.path.utf8)
+      let size = try plaintextSize(entry.source)
+      let offset = try output.offset()
+      let (time, date) = dosDateTime(entry.modifiedAt)
+      let large = size >= zip64Limit
+
+      // ローカルファイルヘッダ。CRC は中身を書いてから埋める
+      var header = Data()
+      header.append(uint32: 0x0403_4b50)
+      header.append(uint16: large ? 45 : 20)
+      header.append(uint16: utf8Flag)
+      header.append(uint16: 0)
+      header.append(uint16: time)
+      header.append(uint16: date)
+      header.append(uint32: 0)
+      header.append(uint32: large ? UInt32(zip64Limit) : UInt32(size))
+      header.append(uint32: large ? UInt32(zip64Limit) : UInt32(size))
+      header.append(uint16: UInt16(name.count))
+      header.append(uint16: large ? 20 : 0)
+      header.append(name)
+      if large {
+        header.append(uint16: 0x0001)
+        header.append(uint16: 16)
+        header.append(uint64: size)
+        header.append(uint64: size)
+      }
+      try output.write(contentsOf: header)
+
+      var crc: UInt32 = 0xffff_ffff
+      var written: UInt64 = 0
+      try read(entry.source) { chunk in
+        crc = update(crc, chunk)
+        written += UInt64(chunk.count)
+        try output.write(contentsOf: chunk)
+      }
+      // 書いている間に録音が変わった場合はサイズが合わなくなる
+      guard written == size else {
+        throw ArchiveError.changed(entry.path)
+      }
+      crc ^= 0xffff_ffff
+      let end = try output.offset()
+      try output.seek(toOffset: offset + 14)
+      var crcField = Data()
+      crcField.append(uint32: crc)
+      try output.write(contentsOf: crcField)
+      try output.seek(toOffset: end)
+
+      // セントラルディレクトリ。4GB を超える値は ZIP64 拡張フィールドに入れる
+      var extra = Data()
+      if large {
+        extra.append(uint64: size)
+        extra.append(uint64: size)
+      }
+      if offset >= zip64Limit {
+        extra.append(uint64: offset)
+      }
+      if !extra.isEmpty {
+        var field = Data()
+        field.append(uint16: 0x0001)
+        field.append(uint16: UInt16(extra.count))
+        extra = field + extra
+      }
+      let version: UInt16 = extra.isEmpty ? 20 : 45
+      directory.append(uint32: 0x0201_4b50)
+      directory.append(uint16: version)
+      directory.append(uint16: version)
+      directory.append(uint16: utf8Flag)
+      directory.append(uint16: 0)
+      directory.append(uint16: time)
+      directory.append(uint16: date)
+      directory.append(uint32: crc)
+      directory.append(uint32: UInt32(min(size, zip64Limit)))
+      directory.append(uint32: UInt32(min(size, zip64Limit)))
+      directory.append(uint16: UInt16(name.count))
+      directory.append(uint16: UInt16(extra.count))
+      directory.append(uint16: 0)
+      directory.append(uint16: 0)
+      directory.append(uint16: 0)
+      directory.append(uint32: 0)
+      directory.append(uint32: UInt32(min(offset, zip64Limit)))
+      directory.append(name)
+      directory.append(extra)
+    }
+
+    let directoryOffset = try output.offset()
+    let directorySize = UInt64(directory.count)
+    let count = UInt64(entries.count)
+    var end = Data()
+    if count >= 0xffff || directoryOffset >= zip64Limit || directorySize >= zip64Limit {
+      // ZIP64 のセントラルディレクトリ終端とその位置
+      end.append(uint32: 0x0606_4b50)
+      end.append(uint64: 44)
+      end.append(uint16: 45)
+      end.append(uint16: 45)
+      end.append(uint32: 0)
+      end.append(uint32: 0)
+      end.append(uint64: count)
+      end.append(uint64: count)
+      end.append(uint64: directorySize)
+      end.append(uint64: directoryOffset)
+      end.append(uint32: 0x0706_4b50)
+      end.append(uint32: 0)
+      end.append(uint64: directoryOffset + directorySize)
+      end.append(uint32: 1)
+    }
+    // セントラルディレクトリの終端
+    end.append(uint32: 0x0605_4b50)
+    end.append(uint16: 0)
+    end.append(uint16: 0)
+    end.append(uint16: UInt16(min(count, 0xffff)))
+    end.append(uint16: UInt16(min(count, 0xffff)))
+    end.append(uint32: UInt32(min(directorySize, zip64Limit)))
+    end.append(uint32: UInt32(min(directoryOffset, zip64Limit)))
+    end.append(uint16: 0)
+    try output.write(contentsOf: directory + end)
+  }
+
+  // セントラルディレクトリをたどってファイルの一覧を返す。圧縮されたエントリがあれば invalid
+  static func items(in handle: FileHandle) throws -> [Item] {
+    let fileSize = try handle.seekToEnd()
+    guard fileSize >= 22 else {
+      throw ArchiveError.invalid
+    }
+    // 終端レコードは末尾から探す（コメントは最大 65535 バイト）
+    let tailSize = min(fileSize, 22 + 0xffff)
+    try handle.seek(toOffset: fileSize - tailSize)
+    let tail = try handle.read(upToCount: Int(tailSize)) ?? Data()
+    guard tail.count == Int(tailSize),
+          let end = stride(from: tail.count - 22, through: 0, by: -1)
+            .first(where: { tail.uint32(at: $0) == 0x0605_4b50 }) else {
+      throw ArchiveError.invalid
+    }
+    var count = UInt64(tail.uint16(at: end + 10))
+    var directorySize = UInt64(tail.uint32(at: end + 12))
+    var directoryOffset = UInt64(tail.uint32(at: end + 16))
+    if end >= 20, tail.uint32(at: end - 20) == 0x0706_4b50 {
+      try handle.seek(toOffset: tail.uint64(at: end - 12))
+      guard let record = try handle.read(upToCount: 56),
+            record.count == 56,
+            record.uint32(at: 0) == 0x0606_4b50 else {
+        throw ArchiveError.invalid
+      }
+      count = record.uint64(at: 32)
+      directorySize = record.uint64(at: 40)
+      directoryOffset = record.uint64(at: 48)
+    }
+    guard directorySize <= min(maxDirectorySize, fileSize), directoryOffset <= fileSize - directorySize else {
+      throw ArchiveError.invalid
+    }
+    try handle.seek(toOffset: directoryOffset)
+    let directory = try handle.read(upToCount: Int(directorySize)) ?? Data()
+    guard directory.count == Int(directorySize) else {
+      throw ArchiveError.invalid
+    }
+
+    var items: [Item] = []
+    var offset = 0
+    for _ in 0..<count {
+      guard offset + 46 <= directory.count, directory.uint32(at: offset) == 0x0201_4b50 else {
+        throw ArchiveError.invalid
+      }
+      let method = directory.uint16(at: offset + 10)
+      var compressedSize = UInt64(directory.uint32(at: offset + 20))
+      var size = UInt64(directory.uint32(at: offset + 24))
+      var headerOffset = UInt64(directory.uint32(at: offset + 42))
+      let nameStart = offset + 46
+      let extraStart = nameStart + Int(directory.uint16(at: offset + 28))
+      let extraEnd = extraStart + Int(directory.uint16(at: offset + 30))
+      guard extraEnd <= directory.count else {
+        throw ArchiveError.invalid
+      }
+      // ZIP64 拡張フィールドには 0xffffffff にした値だけが順に入る
+      var extra = extraStart
+      while extra + 4 <= extraEnd {
+        let fieldEnd = min(extra + 4 + Int(directory.uint16(at: extra + 2)), extraEnd)
+        if directory.uint16(at: extra) == 0x0001 {
+          var field = extra + 4
+          if size == zip64Limit, field + 8 <= fieldEnd {
+            size = directory.uint64(at: field)
+            field += 8
+          }
+          if compressedSize == zip64Limit, field + 8 <= fieldEnd {
+            compressedSize = directory.uint64(at: field)
+            field += 8
+          }
+          if headerOffset == zip64Limit, field + 8 <= fieldEnd {
+            headerOffset = directory.uint64(at: field)
+          }
+        }
+        extra = fieldEnd
+      }
+      // ローカルヘッダはセントラルディレクトリより前にある
+      guard method == 0, compressedSize == size, headerOffset < directoryOffset else {
+        throw ArchiveError.invalid
+      }
+      items.append(Item(
+        path: String(decoding: directory.subdata(in: nameStart..<extraStart), as: UTF8.self),
+        size: size,
+        crc: directory.uint32(at: offset + 16),
+        headerOffset: headerOffset
+      ))
+      offset = extraEnd + Int(directory.uint16(at: offset + 32))
+    }
+    return items
+  }
+
+  static func item(_ path: String, in handle: FileHandle) throws -> Item {
+    guard let item = try items(in: handle).first(where: { $0.path == path }) else {
+      throw ArchiveError.invalid
+    }
+    return item
+  }
+
+  // 中身を 1MB ずつ渡す。最後に CRC を確かめ、合わなければ invalid
+  static func read(_ item: Item, from handle: FileHandle, _ body: (Data) throws -> Void) throws {
+    try handle.seek(toOffset: item.headerOffset)
+    guard let header = try handle.read(upToCount: 30),
+          header.count == 30,
+          header.uint32(at: 0) == 0x0403_4b50 else {
+      throw ArchiveError.invalid
+    }
+    try handle.seek(toOffset: item.headerOffset + 30 + UInt64(header.uint16(at: 26)) + UInt64(header.uint16(at: 28)))
+    var crc: UInt32 = 0xffff_ffff
+    var remaining = item.size
+    while remaining > 0 {
+      guard let chunk = try handle.read(upToCount: Int(min(UInt64(chunkSize), remaining))),
+            !chunk.isEmpty else {
+        throw ArchiveError.invalid
+      }
+      crc = update(crc, chunk)
+      remaining -= UInt64(chunk.count)
+      try body(chunk)
+    }
+    guard crc ^ 0xffff_ffff == item.crc else {
+      throw ArchiveError.invalid
+    }
+  }
+
+  private static func plaintextSize(_ source: Source) throws -> UInt64 {
+    switch source {
+    case .text(let text):
+      return UInt64(text.utf8.count)
+    case .file(let url):
+      guard FileManager.default.fileExists(atPath: url.path) else {
+        throw ArchiveError.missing(url.lastPathComponent)
+      }
+      if let size = RecordingVault.plaintextSize(url) {
+        return UInt64(size)
+      }
+      let attributes = try FileManager.default.attributesOfItem(atPath: url.path)
+      return UInt64(attributes[.size] as? Int64 ?? 0)
+    }
+  }
+
+  private static func read(_ source: Source, _ body: (Data) throws -> Void) throws {
+    switch source {
+    case .text(let text):
+      try body(Data(text.utf8))
+    case .file(let url):
+      try RecordingVault.readPlaintext(url, body)
+    }
+  }
+
+  private static func update(_ crc: UInt32, _ data: Data) -> UInt32 {
+    data.withUnsafeBytes { bytes in
+      bytes.reduce(crc) { crcTable[Int(($0 ^ UInt32($1)) & 0xff)] ^ ($0 >> 8) }
+    }
+  }
+
+  private static func dosDateTime(_ date: Date) -> (time: UInt16, date: UInt16) {
+    let parts = Calendar.current.dateComponents([.year, .month, .day, .hour, .minute, .second], from: date)
+    let time = (parts.hour ?? 0) << 11 | (parts.minute ?? 0) << 5 | (parts.second ?? 0) / 2
+    let day = (max(parts.year ?? 1980, 1980) - 1980) << 9 | (parts.month ?? 1) << 5 | (parts.day ?? 1)
+    return (UInt16(time), UInt16(day))
+  }
+}
+
+private extension Data {
+  func uint16(at offset: Int) -> UInt16 {
+    littleEndian(at: offset)
+  }
+
+  func uint32(at offset: Int) -> UInt32 {
+    littleEndian(at: offset)
+  }
+
+  func uint64(at offset: Int) -> UInt64 {
+    littleEndian(at: offset)
+  }
+
+  private func littleEndian<T: FixedWidthInteger>(at offset: Int) -> T {
+    (0..<MemoryLayout<T>.size).reduce(T(0)) { $0 | T(self[startIndex + offset + $1]) << (8 * $1) }
+  }
+
+  mutating func append(uint16 value: UInt16) {
+    Swift.withUnsafeBytes(of: value.littleEndian) { append(contentsOf: $0) }
+  }
+
+  mutating func append(uint32 value: UInt32) {
+    Swift.withUnsafeBytes(of: value.littleEndian) { append(contentsOf: $0) }
+  }
+
+  mutating func append(uint64 value: UInt64) {
+    Swift.withUnsafeBytes(of: value.littleEndian) { append(contentsOf: $0) }
+  }
+}
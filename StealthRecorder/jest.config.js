@@ -1,3 +1,6 @@
 module.exports = {
   preset: 'react-native',
+  setupFiles: ['./jest.setup.js'],
+  // フェイクや ZIP の読み書きなど、テストから使う補助のファイル
+  testPathIgnorePatterns: ['/node_modules/', '/__tests__/helpers/'],
 };
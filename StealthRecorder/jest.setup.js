@@ -0,0 +1,15 @@
+/* eslint-env jest */
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock'),
+);
+
+// react-native の既定のモックは購読を返さないため、解除できる形にする
+jest.mock('react-native/Libraries/Linking/Linking', () => ({
+  openURL: jest.fn(),
+  canOpenURL: jest.fn(() => Promise.resolve(true)),
+  openSettings: jest.fn(),
+  addEventListener: jest.fn(() => ({remove: jest.fn()})),
+  getInitialURL: jest.fn(() => Promise.resolve(null)),
+  sendIntent: jest.fn(),
+}));
@@ -0,0 +1,32 @@
+import React, {createContext, useContext} from 'react';
+import {useEvidenceManifest} from '../evidence/EvidenceContext';
+import {BackupService} from './BackupService';
+import {getNativeBackupBackend} from './nativeBackup';
+
+let defaultService: BackupService | null = null;
+
+const BackupContext = createContext<BackupService | null>(null);
+
+type BackupProviderProps = {
+  service: BackupService;
+  children: React.ReactNode;
+};
+
+export const BackupProvider = ({
+  service,
+  children,
+}: BackupProviderProps): React.JSX.Element => (
+  <BackupContext.Provider value={service}>{children}</BackupContext.Provider>
+);
+
+export const useBackup = (): BackupService => {
+  const provided = useContext(BackupContext);
+  const evidence = useEvidenceManifest();
+  if (provided) {
+    return provided;
+  }
+  if (!defaultService) {
+    defaultService = new BackupService(getNativeBackupBackend(), evidence);
+  }
+  return defaultService;
+};
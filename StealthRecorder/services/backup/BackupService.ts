@@ -0,0 +1,332 @@
+import type {EvidenceManifest} from '../evidence/EvidenceManifest';
+import {parseLog} from '../evidence/chain';
+import type {EvidenceEntry} from '../evidence/types';
+import {importIncidents, loadIncidents} from '../incidents/incidentStore';
+import {loadMetadata, saveMetadata} from '../library/metadataStore';
+import {importMarkers, loadMarkers} from '../markers/markerStore';
+import type {Marker} from '../markers/types';
+import type {RecordingFile} from '../recorder/types';
+import {
+  parseTranscript,
+  serializeTranscript,
+  transcriptFileName,
+} from '../transcripts/transcriptFile';
+import {
+  backupBaseName,
+  buildBackupEntries,
+  parseBackupArchive,
+  recordingEntryPath,
+} from './archive';
+import {BackupError, fromNativeError} from './errors';
+import type {
+  BackupArchive,
+  BackupBackend,
+  BackupContent,
+  BackupResult,
+  OpenedBackup,
+  RestoreReport,
+} from './types';
+
+const MIN_PASSWORD_LENGTH = 8;
+
+// 空ならパスワードなし
+export const validateBackupPassword = (
+  password: string,
+  confirmation: string,
+): void => {
+  if (password === '') {
+    return;
+  }
+  if (password.length < MIN_PASSWORD_LENGTH) {
+    throw new BackupError('weak_password');
+  }
+  if (password !== confirmation) {
+    throw new BackupError('password_mismatch');
+  }
+};
+
+// 同じ名前の別の録音があるとき: recording-….m4a → recording-…-restored.m4a
+export const restoredFileName = (
+  name: string,
+  taken: (candidate: string) => boolean,
+): string => {
+  const dot = name.lastIndexOf('.');
+  const base = name.slice(0, dot);
+  const extension = name.slice(dot);
+  for (let i = 1; ; i++) {
+    const candidate = `${base}-restored${i > 1 ? i : ''}${extension}`;
+    if (!taken(candidate)) {
+      return candidate;
+    }
+  }
+};
+
+/**
+ * 録音・タイトルとタグ・マーカー・文字起こし・出来事の記録・証拠ログを
+ * 1つのアーカイブにまとめ、ユーザーが選んだ場所へ保存する。
+ * 復元では backup.json の一覧と照合してから取り込み、同じ内容の録音は重ねない。
+ */
+export class BackupService {
+  private readonly backend: BackupBackend | null;
+  private readonly evidence: EvidenceManifest;
+  private readonly now: () => Date;
+
+  constructor(
+    backend: BackupBackend | null,
+    evidence: EvidenceManifest,
+    now: () => Date = () => new Date(),
+  ) {
+    this.backend = backend;
+    this.evidence = evidence;
+    this.now = now;
+  }
+
+  get isAvailable(): boolean {
+    return this.backend !== null;
+  }
+
+  /**
+   * バックアップを作ってドキュメントピッカーで保存する。
+   * password を指定すると端末の外でも開けないよう暗号化する。
+   */
+  async create(
+    files: RecordingFile[],
+    password = '',
+    confirmation = password,
+  ): Promise<BackupResult> {
+    const backend = this.requireBackend();
+    if (files.length === 0) {
+      throw new BackupError('nothing_to_backup');
+    }
+    validateBackupPassword(password, confirmation);
+
+    const createdAt = this.now();
+    const names = files.map(file => file.name);
+    const recordings: BackupContent['recordings'] = new Map();
+    const transcripts: Record<string, string> = {};
+    const markers: Record<string, Marker[]> = {};
+    // 録音は JS に読み込まず、大きさとハッシュだけネイティブ側で数える
+    try {
+      for (const name of names) {
+        recordings.set(name, {
+          size: await backend.getFileSize(name),
+          sha256: await backend.hashFile(name),
+        });
+      }
+    } catch (error) {
+      throw fromNativeError(error, 'read_failed');
+    }
+    for (const name of names) {
+      const transcript = await backend
+        .readTextFile(transcriptFileName(name))
+        .catch(() => null);
+      if (transcript) {
+        transcripts[name] = transcript;
+      }
+      const list = await loadMarkers(name);
+      if (list.length > 0) {
+        markers[name] = list;
+      }
+    }
+
+    const entries = buildBackupEntries({
+      createdAt,
+      recordings,
+      transcripts,
+      metadata: await loadMetadata(names),
+      markers,
+      incidents: await loadIncidents(),
+      manifestText: await this.evidence.readLog(),
+    });
+
+    let path: string;
+    try {
+      path = await backend.writeArchive(
+        `${backupBaseName(createdAt)}.zip`,
+        entries,
+      );
+      if (password) {
+        path = await backend.encryptBackupFile(path, password);
+      }
+    } catch (error) {
+      throw fromNativeError(error, 'write_failed');
+    }
+
+    let saved: boolean;
+    try {
+      saved = await backend.saveBackupFile(path);
+    } catch (error) {
+      throw fromNativeError(error, 'write_failed');
+    }
+    return {
+      fileName: path.slice(path.lastIndexOf('/') + 1),
+      recordings: names.length,
+      encrypted: password !== '',
+      saved,
+    };
+  }
+
+  // 復元するバックアップを選んでもらう。キャンセルなら null
+  async pick(): Promise<string | null> {
+    try {
+      return await this.requireBackend().pickBackupFile();
+    } catch (error) {
+      throw fromNativeError(error, 'read_failed');
+    }
+  }
+
+  /**
+   * バックアップを検証してから取り込む。
+   * パスワード付きのバックアップで password がなければ BackupError('password_required')。
+   * localFiles は端末にある録音（重複と名前の衝突の判定に使う）。
+   */
+  async restore(
+    path: string,
+    password: string | null,
+    localFiles: RecordingFile[],
+  ): Promise<RestoreReport> {
+    const backend = this.requireBackend();
+    let opened: OpenedBackup;
+    try {
+      opened = await backend.openBackupFile(path, password);
+    } catch (error) {
+      throw fromNativeError(error, 'invalid_archive');
+    }
+    try {
+      const archive = await parseBackupArchive(opened, entryPath =>
+        backend.readArchiveText(opened.path, entryPath).catch(error => {
+          throw fromNativeError(error, 'invalid_archive');
+        }),
+      );
+      return await this.importArchive(
+        archive,
+        path.slice(path.lastIndexOf('/') + 1),
+        localFiles,
+      );
+    } finally {
+      await backend.closeBackupFile(opened.path).catch(() => undefined);
+    }
+  }
+
+  private async importArchive(
+    archive: BackupArchive,
+    backupName: string,
+    localFiles: RecordingFile[],
+  ): Promise<RestoreReport> {
+    const backend = this.requireBackend();
+    // 端末にある録音の内容は証拠ログのハッシュで見分ける（保護モードでロック中でも使える）
+    const {entries} = await this.evidence.load();
+    const localNames = new Set(localFiles.map(file => file.name));
+    const localHashes = new Map<string, string>();
+    entries.forEach(entry => {
+      if (localNames.has(entry.fileName)) {
+        localHashes.set(entry.contentHash, entry.fileName);
+      }
+    });
+
+    // 名前変更で同じファイル名が再登場しうるため最後の行を使う
+    const log = parseLog(archive.manifestText);
+    const logged = new Map<string, EvidenceEntry>();
+    log.entries.forEach(entry => logged.set(entry.fileName, entry));
+    const report: RestoreReport = {
+      restored: [],
+      renamed: [],
+      duplicates: [],
+      failed: [],
+      unverified: [],
+      incidents: 0,
+      manifestProblems: log.problems.length,
+    };
+    // バックアップ内の名前 → 端末での名前（出来事の記録のリンクを付け替える）
+    const names = new Map<string, string>();
+
+    // 古い録音から順に取り込み、証拠ログも録音順に連結する
+    for (const name of [...archive.recordings].sort()) {
+      const hash = archive.recordingHashes.get(name) as string;
+      const existing = localHashes.get(hash);
+      if (existing) {
+        names.set(name, existing);
+        report.duplicates.push(name);
+        continue;
+      }
+      const target = localNames.has(name)
+        ? restoredFileName(name, candidate => localNames.has(candidate))
+        : name;
+      try {
+        await backend.extractArchiveFile(
+          archive.path,
+          recordingEntryPath(name),
+          target,
+        );
+      } catch {
+        report.failed.push(name);
+        continue;
+      }
+      localNames.add(target);
+      localHashes.set(hash, target);
+      names.set(name, target);
+      report.restored.push(target);
+      if (target !== name) {
+        report.renamed.push({from: name, to: target});
+      }
+      await this.restoreDetails(archive, name, target);
+
+      const original = logged.get(name);
+      if (original && original.contentHash !== hash) {
+        report.unverified.push(target);
+      }
+      await (original && original.contentHash === hash
+        ? this.evidence.recordRestore(original, target, backupName)
+        : this.evidence.register(target, {late: true})
+      ).catch(() => undefined);
+    }
+
+    report.incidents = await importIncidents(
+      archive.incidents.map(incident => ({
+        ...incident,
+        recordingNames: incident.recordingNames.map(
+          name => names.get(name) ?? name,
+        ),
+      })),
+    );
+    return report;
+  }
+
+  // タイトルとタグ・マーカー・文字起こし。取り込めなくても録音の復元は続ける
+  private async restoreDetails(
+    archive: BackupArchive,
+    name: string,
+    target: string,
+  ): Promise<void> {
+    const backend = this.requireBackend();
+    const metadata = archive.metadata[name];
+    if (metadata) {
+      await saveMetadata(target, metadata);
+    }
+    const markers = archive.markers[name];
+    if (markers) {
+      await importMarkers(target, markers);
+    }
+    const transcript = archive.transcripts[name];
+    if (transcript) {
+      try {
+        await backend.writeTextFile(
+          transcriptFileName(target),
+          serializeTranscript({
+            ...parseTranscript(transcript),
+            fileName: target,
+          }),
+        );
+      } catch {
+        // 文字起こしは録音から作り直せる
+      }
+    }
+  }
+
+  private requireBackend(): BackupBackend {
+    if (!this.backend) {
+      throw new BackupError('unavailable');
+    }
+    return this.backend;
+  }
+}
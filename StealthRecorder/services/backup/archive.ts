@@ -0,0 +1,193 @@
+import {MANIFEST_FILE_NAME} from '../evidence/EvidenceManifest';
+import {sha256Bytes, toHex, utf8Encode} from '../evidence/sha256';
+import type {ArchiveEntry} from '../export/types';
+import type {Incident} from '../incidents/types';
+import type {RecordingMetadata} from '../library/types';
+import type {Marker} from '../markers/types';
+import {BackupError} from './errors';
+import type {
+  BackupArchive,
+  BackupContent,
+  BackupFileRecord,
+  BackupManifest,
+  OpenedBackup,
+} from './types';
+
+export const BACKUP_FORMAT = 'twotaprecorder-backup';
+const BACKUP_VERSION = 1;
+
+// アーカイブ内の配置
+const BACKUP_MANIFEST = 'backup.json';
+const RECORDINGS_DIR = 'recordings';
+const TRANSCRIPTS_DIR = 'transcripts';
+const METADATA_FILE = 'metadata.json';
+const MARKERS_FILE = 'markers.json';
+const INCIDENTS_FILE = 'incidents.json';
+
+const RECORDING_NAME_PATTERN = /^[^/\\.][^/\\]*\.(m4a|wav)$/i;
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+// backup-20240305_083015（録音ファイル名と同じ時刻表記）
+export const backupBaseName = (date: Date): string =>
+  `backup-${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(
+    date.getDate(),
+  )}_${pad(date.getHours())}${pad(date.getMinutes())}${pad(date.getSeconds())}`;
+
+const json = (value: unknown) => `${JSON.stringify(value, null, 2)}\n`;
+
+export const recordingEntryPath = (name: string): string =>
+  `${RECORDINGS_DIR}/${name}`;
+
+/**
+ * アーカイブに入れるファイルを並べる。
+ * backup.json にほかの全ファイルの大きさと SHA-256 を書き、復元時の検証に使う。
+ * 録音はネイティブ側で数えた値を書き、中身はファイル名で渡す。
+ */
+export const buildBackupEntries = (content: BackupContent): ArchiveEntry[] => {
+  const records: BackupFileRecord[] = [];
+  const entries: ArchiveEntry[] = [];
+  const text = (path: string, value: string) => {
+    const data = utf8Encode(value);
+    records.push({path, size: data.length, sha256: toHex(sha256Bytes(data))});
+    entries.push({path, text: value});
+  };
+
+  const recordings = [...content.recordings.keys()];
+  content.recordings.forEach((digest, name) => {
+    const path = recordingEntryPath(name);
+    records.push({path, ...digest});
+    entries.push({path, file: name});
+    const transcript = content.transcripts[name];
+    if (transcript) {
+      text(`${TRANSCRIPTS_DIR}/${name}.json`, transcript);
+    }
+  });
+  text(METADATA_FILE, json(content.metadata));
+  text(MARKERS_FILE, json(content.markers));
+  text(INCIDENTS_FILE, json(content.incidents));
+  text(MANIFEST_FILE_NAME, content.manifestText);
+
+  const manifest: BackupManifest = {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    createdAt: content.createdAt.toISOString(),
+    recordings,
+    files: records,
+  };
+  const modifiedAt = content.createdAt.toISOString();
+  return [{path: BACKUP_MANIFEST, text: json(manifest)}, ...entries].map(
+    entry => ({...entry, modifiedAt}),
+  );
+};
+
+const isFileRecord = (value: unknown): value is BackupFileRecord => {
+  const record = value as Partial<BackupFileRecord> | null;
+  return (
+    typeof record?.path === 'string' &&
+    typeof record.size === 'number' &&
+    typeof record.sha256 === 'string'
+  );
+};
+
+const parseManifest = (text: string): BackupManifest => {
+  let value: Partial<BackupManifest>;
+  try {
+    value = JSON.parse(text);
+  } catch {
+    throw new BackupError('invalid_archive');
+  }
+  if (
+    value.format !== BACKUP_FORMAT ||
+    !Array.isArray(value.files) ||
+    !value.files.every(isFileRecord) ||
+    !Array.isArray(value.recordings) ||
+    typeof value.createdAt !== 'string'
+  ) {
+    throw new BackupError('invalid_archive');
+  }
+  if (value.version !== BACKUP_VERSION) {
+    throw new BackupError('unsupported_version');
+  }
+  return value as BackupManifest;
+};
+
+/**
+ * 開いたバックアップの中身を backup.json の一覧と突き合わせる。
+ * 一覧にあるファイルが欠けている・大きさやハッシュが違う場合は
+ * BackupError('corrupted') で、何も取り込まないようにする。
+ * readText は ZIP の中のテキストを読む（録音は読まない）。
+ */
+export const parseBackupArchive = async (
+  {path, files}: OpenedBackup,
+  readText: (entryPath: string) => Promise<string>,
+): Promise<BackupArchive> => {
+  const listed = new Map(files.map(file => [file.path, file]));
+  if (!listed.has(BACKUP_MANIFEST)) {
+    throw new BackupError('invalid_archive');
+  }
+  const manifest = parseManifest(await readText(BACKUP_MANIFEST));
+
+  // 一覧にないファイルは使わない
+  const verified = new Set<string>();
+  manifest.files.forEach(record => {
+    const file = listed.get(record.path);
+    if (!file || file.size !== record.size || file.sha256 !== record.sha256) {
+      throw new BackupError(
+        'corrupted',
+        `バックアップ内の「${record.path}」が一覧と一致しません。ファイルが壊れている可能性があるため、何も取り込んでいません。`,
+      );
+    }
+    verified.add(record.path);
+  });
+
+  const readJson = async <T>(entryPath: string, fallback: T): Promise<T> => {
+    if (!verified.has(entryPath)) {
+      return fallback;
+    }
+    try {
+      return JSON.parse(await readText(entryPath)) as T;
+    } catch (error) {
+      throw error instanceof SyntaxError ? new BackupError('corrupted') : error;
+    }
+  };
+
+  const transcripts: Record<string, string> = {};
+  for (const name of manifest.recordings) {
+    if (
+      !RECORDING_NAME_PATTERN.test(name) ||
+      !verified.has(recordingEntryPath(name))
+    ) {
+      throw new BackupError('corrupted');
+    }
+    const transcript = `${TRANSCRIPTS_DIR}/${name}.json`;
+    if (verified.has(transcript)) {
+      transcripts[name] = await readText(transcript);
+    }
+  }
+
+  const hashes = new Map(
+    manifest.files.map(record => [record.path, record.sha256]),
+  );
+  return {
+    path,
+    createdAt: new Date(manifest.createdAt),
+    recordings: manifest.recordings,
+    transcripts,
+    metadata: await readJson<Record<string, RecordingMetadata>>(
+      METADATA_FILE,
+      {},
+    ),
+    markers: await readJson<Record<string, Marker[]>>(MARKERS_FILE, {}),
+    incidents: await readJson<Incident[]>(INCIDENTS_FILE, []),
+    manifestText: verified.has(MANIFEST_FILE_NAME)
+      ? await readText(MANIFEST_FILE_NAME)
+      : '',
+    recordingHashes: new Map(
+      manifest.recordings.map(name => [
+        name,
+        hashes.get(recordingEntryPath(name)) as string,
+      ]),
+    ),
+  };
+};
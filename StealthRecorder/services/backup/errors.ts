@@ -0,0 +1,68 @@
+import type {BackupErrorCode} from './types';
+
+// ログ向けの既定の文言。画面にはカタログ（backupError.*）の文言を出す
+const DEFAULT_MESSAGES: Record<BackupErrorCode, string> = {
+  unavailable: 'バックアップはiOSデバイスでのみ利用できます。',
+  nothing_to_backup: 'バックアップする録音がありません。',
+  weak_password: 'パスワードは8文字以上で入力してください。',
+  password_mismatch: '確認用のパスワードが一致しません。',
+  password_required:
+    'このバックアップはパスワードで保護されています。パスワードを入力してください。',
+  wrong_password: 'パスワードが違います。',
+  locked: 'バックアップするには保護モードのロックを解除してください。',
+  read_failed: '録音ファイルを読み込めませんでした。',
+  too_large: '端末の空き容量が足りないためバックアップを作成できませんでした。',
+  write_failed: 'バックアップファイルを作成できませんでした。',
+  invalid_archive: 'このアプリのバックアップファイルではありません。',
+  unsupported_version:
+    'より新しいバージョンのアプリで作成されたバックアップです。アプリを更新してください。',
+  corrupted:
+    'バックアップの中身が一覧と一致しません。ファイルが壊れている可能性があるため、何も取り込んでいません。',
+};
+
+// ネイティブの reject コードとの対応
+const NATIVE_CODES: Record<string, BackupErrorCode> = {
+  password_required: 'password_required',
+  // パスワードの照合は保護モードと同じ仕組みを使う
+  wrong_passcode: 'wrong_password',
+  locked: 'locked',
+  corrupted: 'corrupted',
+  invalid_archive: 'invalid_archive',
+  file_not_found: 'read_failed',
+  no_space: 'too_large',
+};
+
+export class BackupError extends Error {
+  readonly code: BackupErrorCode;
+
+  constructor(code: BackupErrorCode, message?: string) {
+    super(message || DEFAULT_MESSAGES[code]);
+    this.name = 'BackupError';
+    this.code = code;
+  }
+}
+
+export const toBackupError = (
+  error: unknown,
+  fallback: BackupErrorCode,
+): BackupError => {
+  if (error instanceof BackupError) {
+    return error;
+  }
+  const nativeCode = (error as {code?: unknown} | null)?.code;
+  if (typeof nativeCode === 'string' && NATIVE_CODES[nativeCode]) {
+    return new BackupError(NATIVE_CODES[nativeCode]);
+  }
+  return new BackupError(fallback);
+};
+
+// サービス内で使う。ネイティブの reject（code 付き）だけを BackupError にし、
+// JS の不具合などはそのまま投げ直せるように返す
+export const fromNativeError = (
+  error: unknown,
+  fallback: BackupErrorCode,
+): unknown =>
+  error instanceof BackupError ||
+  typeof (error as {code?: unknown} | null)?.code === 'string'
+    ? toBackupError(error, fallback)
+    : error;
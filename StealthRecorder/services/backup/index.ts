@@ -0,0 +1,25 @@
+export {
+  BackupService,
+  restoredFileName,
+  validateBackupPassword,
+} from './BackupService';
+export {BackupProvider, useBackup} from './BackupContext';
+export {BackupError, toBackupError} from './errors';
+export {getNativeBackupBackend} from './nativeBackup';
+export {
+  BACKUP_FORMAT,
+  backupBaseName,
+  buildBackupEntries,
+  parseBackupArchive,
+} from './archive';
+export type {
+  BackupArchive,
+  BackupBackend,
+  BackupContent,
+  BackupErrorCode,
+  BackupFileRecord,
+  BackupManifest,
+  BackupResult,
+  OpenedBackup,
+  RestoreReport,
+} from './types';
@@ -0,0 +1,5 @@
+import {NativeModules} from 'react-native';
+import type {BackupBackend} from './types';
+
+export const getNativeBackupBackend = (): BackupBackend | null =>
+  NativeModules.RecorderManager ?? null;
@@ -0,0 +1,116 @@
+import type {ArchiveEntry} from '../export/types';
+import type {Incident} from '../incidents/types';
+import type {RecordingMetadata} from '../library/types';
+import type {Marker} from '../markers/types';
+
+// backup.json に書く、アーカイブ内のファイルごとの大きさとハッシュ
+export type BackupFileRecord = {
+  path: string;
+  size: number;
+  sha256: string;
+};
+
+export type BackupManifest = {
+  format: 'twotaprecorder-backup';
+  version: 1;
+  createdAt: string;
+  // 入っている録音のファイル名
+  recordings: string[];
+  files: BackupFileRecord[];
+};
+
+// アーカイブの中身（録音は大きさとハッシュだけ持ち、中身はネイティブ側が ZIP に書く）
+export type BackupContent = {
+  createdAt: Date;
+  recordings: Map<string, Omit<BackupFileRecord, 'path'>>;
+  // 録音ファイル名ごとの文字起こし（保存形式の JSON）
+  transcripts: Record<string, string>;
+  metadata: Record<string, RecordingMetadata>;
+  markers: Record<string, Marker[]>;
+  incidents: Incident[];
+  manifestText: string;
+};
+
+// openBackupFile で開いた ZIP。files はネイティブ側で数えた大きさと SHA-256
+export type OpenedBackup = {
+  path: string;
+  files: BackupFileRecord[];
+};
+
+// 読み込んで検証したバックアップ（録音は ZIP に入れたまま、取り込むときに取り出す）
+export type BackupArchive = Omit<BackupContent, 'recordings'> & {
+  // 開いた ZIP のパス
+  path: string;
+  recordings: string[];
+  // 録音ファイル名ごとの SHA-256（backup.json の値）
+  recordingHashes: Map<string, string>;
+};
+
+export type BackupResult = {
+  fileName: string;
+  recordings: number;
+  encrypted: boolean;
+  // 保存先の選択をキャンセルしたら false
+  saved: boolean;
+};
+
+export type RestoreReport = {
+  // 新しく取り込んだ録音（取り込んだ後の名前）
+  restored: string[];
+  // 同じ名前の別の録音があったため名前を変えて取り込んだもの
+  renamed: {from: string; to: string}[];
+  // 同じ内容（ハッシュ）の録音が既にあったため取り込まなかったもの
+  duplicates: string[];
+  failed: string[];
+  // 証拠ログに記録された元の音声と内容が一致しないもの（取り込みはする）
+  unverified: string[];
+  incidents: number;
+  // バックアップ内の証拠ログで壊れている行の数
+  manifestProblems: number;
+};
+
+export type BackupBackend = {
+  // 録音の SHA-256 と大きさ（保護モードでも元の音声について計算する）
+  hashFile: (name: string) => Promise<string>;
+  getFileSize: (name: string) => Promise<number>;
+  readTextFile: (name: string) => Promise<string | null>;
+  writeTextFile: (name: string, text: string) => Promise<void>;
+  // ZIP を一時領域に作って絶対パスを返す。録音はネイティブ側が読みながら書く
+  writeArchive: (name: string, entries: ArchiveEntry[]) => Promise<string>;
+  // パスワードで暗号化したファイルのパスを返す（元のファイルは消える）
+  encryptBackupFile: (path: string, password: string) => Promise<string>;
+  // ドキュメントピッカーで保存先を選ぶ。キャンセルなら false
+  saveBackupFile: (path: string) => Promise<boolean>;
+  // ドキュメントピッカーで選んだファイルのパス。キャンセルなら null
+  pickBackupFile: () => Promise<string | null>;
+  // 暗号化されていればパスワードで一時ファイルへ復号し、中のファイルの一覧を返す
+  openBackupFile: (
+    path: string,
+    password: string | null,
+  ) => Promise<OpenedBackup>;
+  readArchiveText: (path: string, entryPath: string) => Promise<string>;
+  // ZIP の中の録音を Documents に書く。同じ名前があれば file_exists で失敗する
+  extractArchiveFile: (
+    path: string,
+    entryPath: string,
+    name: string,
+  ) => Promise<void>;
+  // openBackupFile で復号した一時ファイルを消す
+  closeBackupFile: (path: string) => Promise<void>;
+};
+
+export type BackupErrorCode =
+  | 'unavailable'
+  | 'nothing_to_backup'
+  | 'weak_password'
+  | 'password_mismatch'
+  | 'password_required'
+  | 'wrong_password'
+  | 'locked'
+  | 'read_failed'
+  | 'too_large'
+  | 'write_failed'
+  | 'invalid_archive'
+  // より新しいバージョンのアプリで作成されたバックアップ
+  | 'unsupported_version'
+  | 'corrupted';
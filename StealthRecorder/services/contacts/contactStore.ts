@@ -0,0 +1,69 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {createId} from '../../utils/id';
+import type {Contact, ContactKind} from './types';
+
+const STORAGE_KEY = 'twotaprecorder:contacts';
+
+// 一覧での並び順
+export const CONTACT_KINDS: ContactKind[] = ['lawyer', 'duty-lawyer', 'family'];
+
+export const createContact = (
+  kind: ContactKind,
+  now: Date = new Date(),
+): Contact => ({
+  id: createId(),
+  kind,
+  name: '',
+  phone: '',
+  email: '',
+  note: '',
+  createdAt: now.toISOString(),
+});
+
+export const loadContacts = async (): Promise<Contact[]> => {
+  const value = await AsyncStorage.getItem(STORAGE_KEY);
+  if (!value) {
+    return [];
+  }
+  try {
+    const contacts = JSON.parse(value) as Contact[];
+    return contacts.sort(
+      (a, b) =>
+        CONTACT_KINDS.indexOf(a.kind) - CONTACT_KINDS.indexOf(b.kind) ||
+        a.createdAt.localeCompare(b.createdAt),
+    );
+  } catch {
+    return [];
+  }
+};
+
+const writeContacts = (contacts: Contact[]) =>
+  AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(contacts));
+
+export const saveContact = async (contact: Contact): Promise<Contact> => {
+  const saved = {
+    ...contact,
+    name: contact.name.trim(),
+    phone: contact.phone.trim(),
+    email: contact.email.trim(),
+    note: contact.note.trim(),
+  };
+  const contacts = await loadContacts();
+  const index = contacts.findIndex(item => item.id === contact.id);
+  if (index >= 0) {
+    contacts[index] = saved;
+  } else {
+    contacts.push(saved);
+  }
+  await writeContacts(contacts);
+  return saved;
+};
+
+export const deleteContact = async (id: string): Promise<void> => {
+  const contacts = await loadContacts();
+  await writeContacts(contacts.filter(item => item.id !== id));
+};
+
+// 電話・メッセージのどちらにも使えない連絡先は保存しない
+export const isReachable = (contact: Contact): boolean =>
+  contact.phone.trim() !== '' || contact.email.trim() !== '';
@@ -0,0 +1,16 @@
+export {
+  CONTACT_KINDS,
+  createContact,
+  deleteContact,
+  isReachable,
+  loadContacts,
+  saveContact,
+} from './contactStore';
+export {callURL, mailURL, normalizePhone, smsURL} from './links';
+export {composeMessage, summarizeIncident} from './message';
+export type {
+  Contact,
+  ContactKind,
+  MessageChannel,
+  MessageContext,
+} from './types';
@@ -0,0 +1,15 @@
+// 090-1234-5678 や (03) 1234 5678 を発信できる形にする
+export const normalizePhone = (phone: string): string =>
+  phone.replace(/[^\d+*#]/g, '');
+
+export const callURL = (phone: string): string =>
+  `tel:${normalizePhone(phone)}`;
+
+// iOS のメッセージは sms:番号&body= の形で本文を受け取る
+export const smsURL = (phone: string, body: string): string =>
+  `sms:${normalizePhone(phone)}&body=${encodeURIComponent(body)}`;
+
+export const mailURL = (email: string, subject: string, body: string): string =>
+  `mailto:${email.trim()}?subject=${encodeURIComponent(
+    subject,
+  )}&body=${encodeURIComponent(body)}`;
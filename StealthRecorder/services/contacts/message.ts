@@ -0,0 +1,43 @@
+import type {Translate} from '../i18n/types';
+import type {Incident} from '../incidents/types';
+import type {MessageContext} from './types';
+
+/**
+ * 出来事の記録から、連絡先に伝える状況の要約を作る。
+ * 路線・号車・対応した人数だけを短くまとめ、メモは含めない。
+ */
+export const summarizeIncident = (t: Translate, incident: Incident): string => {
+  const parts: string[] = [];
+  if (incident.title.trim()) {
+    parts.push(incident.title.trim());
+  }
+  const line = incident.trainLine.trim();
+  const car = incident.carNumber.trim();
+  if (line && car) {
+    parts.push(t('contacts.summary.train', {line, car}));
+  } else if (line || car) {
+    parts.push(line || t('contacts.summary.car', {car}));
+  }
+  if (incident.officers.length > 0) {
+    parts.push(
+      t('contacts.summary.officers', {count: incident.officers.length}),
+    );
+  }
+  return parts.join(' / ');
+};
+
+// 空の項目は行ごと省く
+export const composeMessage = (
+  t: Translate,
+  {time, location, summary, isRecording}: MessageContext,
+): string =>
+  [
+    t('contacts.message.intro'),
+    t('contacts.message.time', {time}),
+    location.trim() &&
+      t('contacts.message.location', {location: location.trim()}),
+    summary.trim() && t('contacts.message.summary', {summary: summary.trim()}),
+    isRecording && t('contacts.message.recording'),
+  ]
+    .filter((line): line is string => Boolean(line))
+    .join('\n');
@@ -0,0 +1,23 @@
+// duty-lawyer: 弁護士会の当番弁護士センター
+export type ContactKind = 'lawyer' | 'duty-lawyer' | 'family';
+
+export type Contact = {
+  id: string;
+  kind: ContactKind;
+  name: string;
+  phone: string;
+  email: string;
+  note: string;
+  createdAt: string;
+};
+
+// 送信はすべて端末の SMS・メール・共有画面に任せる（独自のサーバーは使わない）
+export type MessageChannel = 'sms' | 'mail' | 'share';
+
+export type MessageContext = {
+  // 表示言語で書いた送信時点の日時
+  time: string;
+  location: string;
+  summary: string;
+  isRecording: boolean;
+};
@@ -0,0 +1,36 @@
+import type {DeepLinkErrorCode, InvalidParameterReason} from './types';
+
+// ログ向けの既定の文言。画面にはカタログ（deepLinkError.*）の文言を出す
+const DEFAULT_MESSAGES: Record<DeepLinkErrorCode, string> = {
+  unsupported_scheme: 'twotaprecorder:// で始まるURLではありません。',
+  malformed: 'URLの形式が正しくありません。',
+  missing_action: 'URLに操作（start / stop など）が指定されていません。',
+  unknown_action: '対応していない操作です。',
+  unknown_parameter: '対応していないパラメータが含まれています。',
+  invalid_parameter: 'パラメータの値が正しくありません。',
+};
+
+// 文言の {name} に差し込む値
+export type DeepLinkErrorParams = Record<string, string | number>;
+
+type DeepLinkErrorDetail = {
+  params?: DeepLinkErrorParams;
+  reason?: InvalidParameterReason | null;
+};
+
+export class DeepLinkError extends Error {
+  readonly code: DeepLinkErrorCode;
+  readonly params: DeepLinkErrorParams;
+  readonly reason: InvalidParameterReason | null;
+
+  constructor(
+    code: DeepLinkErrorCode,
+    {params = {}, reason = null}: DeepLinkErrorDetail = {},
+  ) {
+    super(DEFAULT_MESSAGES[code]);
+    this.name = 'DeepLinkError';
+    this.code = code;
+    this.params = params;
+    this.reason = reason;
+  }
+}
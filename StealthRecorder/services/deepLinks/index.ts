@@ -0,0 +1,12 @@
+export {DeepLinkError} from './errors';
+export type {DeepLinkErrorParams} from './errors';
+export {parseDeepLink} from './parseDeepLink';
+export {useDeepLinks} from './useDeepLinks';
+export {DEEP_LINK_SCHEME} from './types';
+export type {
+  DeepLinkAction,
+  DeepLinkCommand,
+  DeepLinkErrorCode,
+  InvalidParameterReason,
+  StartParams,
+} from './types';
@@ -0,0 +1,182 @@
+import {parseTags} from '../library/metadataStore';
+import {DeepLinkError} from './errors';
+import {
+  DEEP_LINK_SCHEME,
+  DeepLinkAction,
+  DeepLinkCommand,
+  StartParams,
+} from './types';
+
+// 録音の上限（24時間）
+const MAX_DURATION_SECONDS = 24 * 60 * 60;
+const MAX_LABEL_LENGTH = 100;
+
+const UNIT_SECONDS: Record<string, number> = {s: 1, m: 60, h: 3600};
+
+type Query = Map<string, string[]>;
+
+// URLSearchParams は React Native では未実装のため自前で分解する
+const parseQuery = (query: string): Query => {
+  const params: Query = new Map();
+  query
+    .split('&')
+    .filter(Boolean)
+    .forEach(pair => {
+      const separator = pair.indexOf('=');
+      const [rawKey, rawValue] =
+        separator < 0
+          ? [pair, '']
+          : [pair.slice(0, separator), pair.slice(separator + 1)];
+      let key: string;
+      let value: string;
+      try {
+        key = decodeURIComponent(rawKey.replace(/\+/g, ' '));
+        value = decodeURIComponent(rawValue.replace(/\+/g, ' '));
+      } catch {
+        throw new DeepLinkError('malformed');
+      }
+      params.set(key, [...(params.get(key) ?? []), value]);
+    });
+  return params;
+};
+
+const ALLOWED_PARAMS: Record<DeepLinkAction, string[]> = {
+  start: ['maxDuration', 'tag'],
+  stop: [],
+  toggle: ['maxDuration', 'tag'],
+  mark: ['label'],
+  'open-library': ['file'],
+  'open-incident': ['id'],
+};
+
+// 繰り返し指定できるパラメータ
+const REPEATABLE = new Set(['tag']);
+
+const isAction = (value: string): value is DeepLinkAction =>
+  Object.prototype.hasOwnProperty.call(ALLOWED_PARAMS, value);
+
+const single = (params: Query, key: string): string | null => {
+  const values = params.get(key);
+  if (!values) {
+    return null;
+  }
+  if (values.length > 1 && !REPEATABLE.has(key)) {
+    throw new DeepLinkError('invalid_parameter', {
+      params: {parameter: key},
+      reason: 'duplicate',
+    });
+  }
+  return values[0];
+};
+
+// 90 / 90s / 15m / 2h
+const parseDuration = (value: string): number => {
+  const match = /^(\d+)([smh]?)$/.exec(value.trim().toLowerCase());
+  const seconds = match
+    ? Number(match[1]) * UNIT_SECONDS[match[2] || 's']
+    : NaN;
+  if (!(seconds > 0 && seconds <= MAX_DURATION_SECONDS)) {
+    throw new DeepLinkError('invalid_parameter', {reason: 'duration'});
+  }
+  return seconds;
+};
+
+const parseStartParams = (params: Query): StartParams => {
+  const maxDuration = single(params, 'maxDuration');
+  return {
+    maxDurationSeconds:
+      maxDuration === null ? null : parseDuration(maxDuration),
+    tags: parseTags((params.get('tag') ?? []).join(',')),
+  };
+};
+
+const parseFileName = (value: string | null): string | null => {
+  if (value === null) {
+    return null;
+  }
+  const name = value.trim();
+  if (!name || name.includes('/') || name.startsWith('.')) {
+    throw new DeepLinkError('invalid_parameter', {reason: 'file'});
+  }
+  return name;
+};
+
+const parseLabel = (value: string | null): string => {
+  const label = (value ?? '').trim();
+  if (label.length > MAX_LABEL_LENGTH) {
+    throw new DeepLinkError('invalid_parameter', {
+      params: {max: MAX_LABEL_LENGTH},
+      reason: 'label_length',
+    });
+  }
+  return label;
+};
+
+/**
+ * twotaprecorder://<操作>?<パラメータ> を型付きのコマンドにする。
+ * 操作はホスト部分（twotaprecorder://start）でもパス（twotaprecorder:///start）でもよい。
+ * 解釈できない URL は DeepLinkError を投げる。
+ */
+export const parseDeepLink = (url: string): DeepLinkCommand => {
+  const match = /^([a-z][a-z0-9+.-]*):(.*)$/i.exec(url.trim());
+  if (!match) {
+    throw new DeepLinkError('malformed');
+  }
+  const [, scheme, rest] = match;
+  if (scheme.toLowerCase() !== DEEP_LINK_SCHEME) {
+    throw new DeepLinkError('unsupported_scheme');
+  }
+  if (!rest.startsWith('//')) {
+    throw new DeepLinkError('malformed');
+  }
+
+  const withoutFragment = rest.slice(2).split('#')[0];
+  const queryStart = withoutFragment.indexOf('?');
+  const path =
+    queryStart < 0 ? withoutFragment : withoutFragment.slice(0, queryStart);
+  const query = queryStart < 0 ? '' : withoutFragment.slice(queryStart + 1);
+
+  const segments = path.split('/').filter(Boolean);
+  if (segments.length === 0) {
+    throw new DeepLinkError('missing_action');
+  }
+  if (segments.length > 1) {
+    throw new DeepLinkError('malformed');
+  }
+  const action = segments[0].toLowerCase();
+  if (!isAction(action)) {
+    throw new DeepLinkError('unknown_action', {
+      params: {action: segments[0]},
+    });
+  }
+
+  const params = parseQuery(query);
+  const unknown = Array.from(params.keys()).filter(
+    key => !ALLOWED_PARAMS[action].includes(key),
+  );
+  if (unknown.length > 0) {
+    throw new DeepLinkError('unknown_parameter', {
+      params: {action, parameters: unknown.join(', ')},
+    });
+  }
+
+  switch (action) {
+    case 'start':
+    case 'toggle':
+      return {type: action, ...parseStartParams(params)};
+    case 'stop':
+      return {type: 'stop'};
+    case 'mark':
+      return {type: 'mark', label: parseLabel(single(params, 'label'))};
+    case 'open-library':
+      return {
+        type: 'open-library',
+        fileName: parseFileName(single(params, 'file')),
+      };
+    case 'open-incident':
+      return {
+        type: 'open-incident',
+        incidentId: single(params, 'id')?.trim() || null,
+      };
+  }
+};
@@ -0,0 +1,32 @@
+export const DEEP_LINK_SCHEME = 'twotaprecorder';
+
+export type StartParams = {
+  maxDurationSeconds: number | null;
+  tags: string[];
+};
+
+export type DeepLinkCommand =
+  | ({type: 'start'} & StartParams)
+  | {type: 'stop'}
+  // 待機中なら開始、録音中なら停止して保存
+  | ({type: 'toggle'} & StartParams)
+  | {type: 'mark'; label: string}
+  | {type: 'open-library'; fileName: string | null}
+  | {type: 'open-incident'; incidentId: string | null};
+
+export type DeepLinkAction = DeepLinkCommand['type'];
+
+export type DeepLinkErrorCode =
+  | 'unsupported_scheme'
+  | 'malformed'
+  | 'missing_action'
+  | 'unknown_action'
+  | 'unknown_parameter'
+  | 'invalid_parameter';
+
+// invalid_parameter の詳しい理由（表示する文言を選ぶのに使う）
+export type InvalidParameterReason =
+  | 'duplicate'
+  | 'duration'
+  | 'file'
+  | 'label_length';
@@ -0,0 +1,50 @@
+import {useEffect, useRef} from 'react';
+import {Linking} from 'react-native';
+import {DeepLinkError} from './errors';
+import {parseDeepLink} from './parseDeepLink';
+import type {DeepLinkCommand} from './types';
+
+type DeepLinkHandlers = {
+  onCommand: (command: DeepLinkCommand, url: string) => void | Promise<void>;
+  onError: (error: DeepLinkError, url: string) => void;
+};
+
+/**
+ * 起動時の URL と起動中に届いた URL を解釈してハンドラへ渡す。
+ * ハンドラは毎回最新のものを使うため、再購読は起きない。
+ * 続けて届いた URL は前のコマンドが終わってから渡す（録音の開始直後に届いたマーカーを落とさない）。
+ */
+export const useDeepLinks = (handlers: DeepLinkHandlers): void => {
+  const handlersRef = useRef(handlers);
+  handlersRef.current = handlers;
+
+  useEffect(() => {
+    let queue: Promise<void> = Promise.resolve();
+    const handleUrl = (url: string | null) => {
+      if (!url) {
+        return;
+      }
+      let command: DeepLinkCommand;
+      try {
+        command = parseDeepLink(url);
+      } catch (error) {
+        handlersRef.current.onError(
+          error instanceof DeepLinkError
+            ? error
+            : new DeepLinkError('malformed'),
+          url,
+        );
+        return;
+      }
+      queue = queue
+        .then(() => handlersRef.current.onCommand(command, url))
+        .catch(() => undefined);
+    };
+
+    Linking.getInitialURL()
+      .then(handleUrl)
+      .catch(() => undefined);
+    const sub = Linking.addEventListener('url', ({url}) => handleUrl(url));
+    return () => sub.remove();
+  }, []);
+};
@@ -0,0 +1,31 @@
+import React, {createContext, useContext} from 'react';
+import {EvidenceManifest} from './EvidenceManifest';
+import {getNativeEvidenceBackend} from './nativeEvidence';
+
+let defaultManifest: EvidenceManifest | null = null;
+
+const getDefaultEvidenceManifest = (): EvidenceManifest => {
+  if (!defaultManifest) {
+    defaultManifest = new EvidenceManifest(getNativeEvidenceBackend());
+  }
+  return defaultManifest;
+};
+
+const EvidenceContext = createContext<EvidenceManifest | null>(null);
+
+type EvidenceProviderProps = {
+  manifest: EvidenceManifest;
+  children: React.ReactNode;
+};
+
+export const EvidenceProvider = ({
+  manifest,
+  children,
+}: EvidenceProviderProps): React.JSX.Element => (
+  <EvidenceContext.Provider value={manifest}>
+    {children}
+  </EvidenceContext.Provider>
+);
+
+export const useEvidenceManifest = (): EvidenceManifest =>
+  useContext(EvidenceContext) ?? getDefaultEvidenceManifest();
@@ -0,0 +1,268 @@
+import type {RecordingLocation} from '../location/types';
+import {parseRecordingFileName} from '../recorder/fileNames';
+import type {RecordingFile} from '../recorder/types';
+import {appendEntry, parseLog, serializeEntry} from './chain';
+import type {
+  ChainProblem,
+  EvidenceBackend,
+  EvidenceEntry,
+  VerificationResult,
+  VerificationStatus,
+} from './types';
+
+// 録音ファイルと同じ Documents に置く追記専用ログ
+export const MANIFEST_FILE_NAME = 'evidence-manifest.jsonl';
+
+type RegisterOptions = {
+  stoppedAt?: Date;
+  late?: boolean;
+  location?: RecordingLocation | null;
+};
+
+// 名前変更で同じファイル名が再登場しうるため最後の行を使う
+const findLatestIndex = (entries: EvidenceEntry[], fileName: string) => {
+  for (let i = entries.length - 1; i >= 0; i--) {
+    if (entries[i].fileName === fileName) {
+      return i;
+    }
+  }
+  return -1;
+};
+
+const findLatest = (entries: EvidenceEntry[], fileName: string) =>
+  entries[findLatestIndex(entries, fileName)] as EvidenceEntry | undefined;
+
+export class EvidenceManifest {
+  private readonly backend: EvidenceBackend | null;
+  private readonly now: () => Date;
+  // 追記が並行するとチェーンが分岐するため直列化する
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(
+    backend: EvidenceBackend | null,
+    now: () => Date = () => new Date(),
+  ) {
+    this.backend = backend;
+    this.now = now;
+  }
+
+  get isAvailable(): boolean {
+    return this.backend !== null;
+  }
+
+  async load(): Promise<{entries: EvidenceEntry[]; problems: ChainProblem[]}> {
+    if (!this.backend) {
+      return {entries: [], problems: []};
+    }
+    return parseLog(await this.backend.readTextFile(MANIFEST_FILE_NAME));
+  }
+
+  // 書き出し用にログをそのまま返す
+  async readLog(): Promise<string> {
+    if (!this.backend) {
+      return '';
+    }
+    return (await this.backend.readTextFile(MANIFEST_FILE_NAME)) ?? '';
+  }
+
+  /**
+   * 保存された録音のハッシュ等をログへ追記する。
+   * 既に登録済みのファイルは再登録せず既存の行を返す。
+   * ただし後から見つけて登録した録音は、停止時の登録（停止時刻・位置）で改めて追記する。
+   */
+  register(
+    fileName: string,
+    options: RegisterOptions = {},
+  ): Promise<EvidenceEntry | null> {
+    return this.enqueue(() => this.registerNow(fileName, options));
+  }
+
+  /**
+   * ファイル名の変更を記録する。
+   * 旧名の行はそのまま残し、同じハッシュを新しい名前で連結する。
+   */
+  recordRename(from: string, to: string): Promise<EvidenceEntry | null> {
+    return this.enqueue(async () => {
+      const backend = this.backend;
+      if (!backend) {
+        return null;
+      }
+      const {entries} = await this.load();
+      const previous = findLatest(entries, from);
+      if (!previous) {
+        return this.registerNow(to, {late: true});
+      }
+      const entry = appendEntry(entries, {
+        version: previous.version,
+        fileName: to,
+        contentHash: previous.contentHash,
+        size: previous.size,
+        startedAt: previous.startedAt,
+        stoppedAt: previous.stoppedAt,
+        durationSeconds: previous.durationSeconds,
+        device: previous.device,
+        loggedAt: this.now().toISOString(),
+        lateRegistration: previous.lateRegistration,
+        renamedFrom: from,
+        location: previous.location,
+      });
+      await backend.appendTextFile(MANIFEST_FILE_NAME, serializeEntry(entry));
+      return entry;
+    });
+  }
+
+  /**
+   * バックアップから復元した録音を記録する。
+   * バックアップ側の証拠ログの行（録音時刻・端末・ハッシュ）を引き継ぎ、復元した名前で連結する。
+   */
+  recordRestore(
+    original: EvidenceEntry,
+    fileName: string,
+    backupName: string,
+  ): Promise<EvidenceEntry | null> {
+    return this.enqueue(async () => {
+      const backend = this.backend;
+      if (!backend) {
+        return null;
+      }
+      const {entries} = await this.load();
+      const entry = appendEntry(entries, {
+        version: original.version,
+        fileName,
+        contentHash: original.contentHash,
+        size: original.size,
+        startedAt: original.startedAt,
+        stoppedAt: original.stoppedAt,
+        durationSeconds: original.durationSeconds,
+        device: original.device,
+        loggedAt: this.now().toISOString(),
+        lateRegistration: original.lateRegistration,
+        renamedFrom:
+          fileName !== original.fileName ? original.fileName : undefined,
+        restoredFrom: backupName,
+        location: original.location,
+      });
+      await backend.appendTextFile(MANIFEST_FILE_NAME, serializeEntry(entry));
+      return entry;
+    });
+  }
+
+  // ショートカット停止などでログに載っていないファイルを後から登録する
+  reconcile(files: RecordingFile[]): Promise<EvidenceEntry[]> {
+    return this.enqueue(async () => {
+      const {entries} = await this.load();
+      const known = new Set(entries.map(entry => entry.fileName));
+      const added: EvidenceEntry[] = [];
+      // 古い録音から順に連結する
+      for (const file of [...files].reverse()) {
+        if (!known.has(file.name)) {
+          const entry = await this.registerNow(file.name, {late: true});
+          if (entry) {
+            added.push(entry);
+          }
+        }
+      }
+      return added;
+    });
+  }
+
+  async verify(fileName: string): Promise<VerificationResult> {
+    const {entries, problems} = await this.load();
+    return this.verifyAgainst(fileName, entries, problems);
+  }
+
+  async verifyAll(
+    files: RecordingFile[],
+  ): Promise<Record<string, VerificationStatus>> {
+    const {entries, problems} = await this.load();
+    const statuses: Record<string, VerificationStatus> = {};
+    for (const file of files) {
+      const result = await this.verifyAgainst(file.name, entries, problems);
+      statuses[file.name] = result.status;
+    }
+    return statuses;
+  }
+
+  private async verifyAgainst(
+    fileName: string,
+    entries: EvidenceEntry[],
+    problems: ChainProblem[],
+  ): Promise<VerificationResult> {
+    const position = findLatestIndex(entries, fileName);
+    if (!this.backend || position < 0) {
+      return {fileName, status: 'unregistered'};
+    }
+    const entry = entries[position];
+    // 該当行より前でチェーンが壊れていれば行そのものを信用できない
+    if (problems.some(problem => problem.line <= position)) {
+      return {
+        fileName,
+        status: 'chain_broken',
+        expectedHash: entry.contentHash,
+      };
+    }
+    let actualHash: string;
+    try {
+      actualHash = await this.backend.hashFile(fileName);
+    } catch {
+      return {fileName, status: 'missing', expectedHash: entry.contentHash};
+    }
+    return {
+      fileName,
+      status: actualHash === entry.contentHash ? 'verified' : 'mismatch',
+      expectedHash: entry.contentHash,
+      actualHash,
+    };
+  }
+
+  private async registerNow(
+    fileName: string,
+    {stoppedAt, late = false, location}: RegisterOptions,
+  ): Promise<EvidenceEntry | null> {
+    const backend = this.backend;
+    if (!backend) {
+      return null;
+    }
+    const {entries} = await this.load();
+    const existing = findLatest(entries, fileName);
+    if (existing && (late || !existing.lateRegistration)) {
+      return existing;
+    }
+
+    const [contentHash, size, durationSeconds, device] = await Promise.all([
+      backend.hashFile(fileName),
+      backend.getFileSize(fileName),
+      backend.getAudioDuration(fileName),
+      backend.getDeviceInfo(),
+    ]);
+    const loggedAt = this.now();
+    const stopped = stoppedAt ?? null;
+    const started =
+      parseRecordingFileName(fileName) ??
+      new Date((stopped ?? loggedAt).getTime() - durationSeconds * 1000);
+    const stoppedTime =
+      stopped ?? new Date(started.getTime() + durationSeconds * 1000);
+
+    const entry = appendEntry(entries, {
+      version: 1,
+      fileName,
+      contentHash,
+      size,
+      startedAt: started.toISOString(),
+      stoppedAt: stoppedTime.toISOString(),
+      durationSeconds,
+      device,
+      loggedAt: loggedAt.toISOString(),
+      lateRegistration: late,
+      location: location ?? undefined,
+    });
+    await backend.appendTextFile(MANIFEST_FILE_NAME, serializeEntry(entry));
+    return entry;
+  }
+
+  private enqueue<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.queue.then(task);
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+}
@@ -0,0 +1,87 @@
+import {sha256Hex} from './sha256';
+import type {ChainProblem, EvidenceEntry} from './types';
+
+export const GENESIS_HASH = '0'.repeat(64);
+
+type UnsignedEntry = Omit<
+  EvidenceEntry,
+  'index' | 'previousHash' | 'entryHash'
+>;
+
+// キー順に依存しない JSON（ハッシュ計算用）
+export const canonicalize = (value: unknown): string => {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalize).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const record = value as Record<string, unknown>;
+    return `{${Object.keys(record)
+      .filter(key => record[key] !== undefined)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${canonicalize(record[key])}`)
+      .join(',')}}`;
+  }
+  return JSON.stringify(value);
+};
+
+export const computeEntryHash = (entry: Omit<EvidenceEntry, 'entryHash'>) =>
+  sha256Hex(canonicalize(entry));
+
+export const appendEntry = (
+  entries: EvidenceEntry[],
+  unsigned: UnsignedEntry,
+): EvidenceEntry => {
+  const last = entries[entries.length - 1];
+  const body = {
+    ...unsigned,
+    index: entries.length,
+    previousHash: last ? last.entryHash : GENESIS_HASH,
+  };
+  return {...body, entryHash: computeEntryHash(body)};
+};
+
+export const serializeEntry = (entry: EvidenceEntry): string =>
+  `${canonicalize(entry)}\n`;
+
+/**
+ * ログ全体を読み込み、壊れている行を報告する。
+ * 解析できない行は entries に含めない。
+ */
+export const parseLog = (
+  text: string | null,
+): {entries: EvidenceEntry[]; problems: ChainProblem[]} => {
+  const entries: EvidenceEntry[] = [];
+  const problems: ChainProblem[] = [];
+  if (!text) {
+    return {entries, problems};
+  }
+  text
+    .split('\n')
+    .filter(line => line.trim().length > 0)
+    .forEach((line, lineIndex) => {
+      try {
+        entries.push(JSON.parse(line) as EvidenceEntry);
+      } catch {
+        problems.push({line: lineIndex, reason: 'parse'});
+      }
+    });
+  return {entries, problems: [...problems, ...verifyChain(entries)]};
+};
+
+export const verifyChain = (entries: EvidenceEntry[]): ChainProblem[] => {
+  const problems: ChainProblem[] = [];
+  entries.forEach((entry, i) => {
+    const expectedPrevious = i === 0 ? GENESIS_HASH : entries[i - 1].entryHash;
+    if (entry.index !== i) {
+      problems.push({line: i, reason: 'index'});
+    }
+    if (entry.previousHash !== expectedPrevious) {
+      problems.push({line: i, reason: 'previous_hash'});
+    }
+    const {entryHash, ...body} = entry;
+    if (computeEntryHash(body) !== entryHash) {
+      problems.push({line: i, reason: 'entry_hash'});
+    }
+  });
+  return problems;
+};
@@ -0,0 +1,48 @@
+import {sha256Hex} from './sha256';
+import type {DeviceInfo, EvidenceBackend} from './types';
+
+const FAKE_DEVICE: DeviceInfo = {
+  model: 'iPhone15,2',
+  systemName: 'iOS',
+  systemVersion: '17.4',
+  appVersion: '1.0.0',
+};
+
+/**
+ * Jest 用のメモリ上のファイル領域。
+ * 録音ファイルの中身は文字列で持ち、そのハッシュを返す。
+ */
+export class FakeEvidenceBackend implements EvidenceBackend {
+  readonly recordings = new Map<string, {content: string; duration: number}>();
+  readonly textFiles = new Map<string, string>();
+
+  putRecording(name: string, content: string, duration = 1) {
+    this.recordings.set(name, {content, duration});
+  }
+
+  hashFile = async (name: string): Promise<string> =>
+    sha256Hex(this.requireRecording(name).content);
+
+  getFileSize = async (name: string): Promise<number> =>
+    this.requireRecording(name).content.length;
+
+  getAudioDuration = async (name: string): Promise<number> =>
+    this.requireRecording(name).duration;
+
+  getDeviceInfo = async (): Promise<DeviceInfo> => FAKE_DEVICE;
+
+  readTextFile = async (name: string): Promise<string | null> =>
+    this.textFiles.get(name) ?? null;
+
+  appendTextFile = async (name: string, text: string): Promise<void> => {
+    this.textFiles.set(name, (this.textFiles.get(name) ?? '') + text);
+  };
+
+  private requireRecording(name: string) {
+    const recording = this.recordings.get(name);
+    if (!recording) {
+      throw new Error(`file_not_found: ${name}`);
+    }
+    return recording;
+  }
+}
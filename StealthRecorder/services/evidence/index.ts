@@ -0,0 +1,14 @@
+export {EvidenceManifest, MANIFEST_FILE_NAME} from './EvidenceManifest';
+export {EvidenceProvider, useEvidenceManifest} from './EvidenceContext';
+export {FakeEvidenceBackend} from './fakeEvidence';
+export {getNativeEvidenceBackend} from './nativeEvidence';
+export {GENESIS_HASH, canonicalize, parseLog, verifyChain} from './chain';
+export {sha256Hex} from './sha256';
+export type {
+  ChainProblem,
+  DeviceInfo,
+  EvidenceBackend,
+  EvidenceEntry,
+  VerificationResult,
+  VerificationStatus,
+} from './types';
@@ -0,0 +1,6 @@
+import {NativeModules} from 'react-native';
+import type {EvidenceBackend} from './types';
+
+// ファイル操作は録音と同じ RecorderManager が担う
+export const getNativeEvidenceBackend = (): EvidenceBackend | null =>
+  NativeModules.RecorderManager ?? null;
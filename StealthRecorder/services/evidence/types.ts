@@ -0,0 +1,64 @@
+import type {RecordingLocation} from '../location/types';
+
+export type DeviceInfo = {
+  model: string;
+  systemName: string;
+  systemVersion: string;
+  appVersion: string;
+};
+
+/**
+ * 証拠ログ（evidence-manifest.jsonl）の1行。
+ * entryHash は entryHash 以外の全項目から計算し、
+ * previousHash で直前の行と連結する。
+ */
+export type EvidenceEntry = {
+  version: 1;
+  index: number;
+  fileName: string;
+  contentHash: string;
+  size: number;
+  startedAt: string;
+  stoppedAt: string;
+  durationSeconds: number;
+  device: DeviceInfo;
+  loggedAt: string;
+  // 停止時ではなく後から登録した（ショートカット停止など）
+  lateRegistration: boolean;
+  // ライブラリで名前を変更した場合の旧ファイル名
+  renamedFrom?: string;
+  // バックアップから復元した場合のバックアップファイル名
+  restoredFrom?: string;
+  // 位置の記録をオンにしていたときの開始・停止時の位置
+  location?: RecordingLocation;
+  previousHash: string;
+  entryHash: string;
+};
+
+export type EvidenceBackend = {
+  hashFile: (name: string) => Promise<string>;
+  getFileSize: (name: string) => Promise<number>;
+  getAudioDuration: (name: string) => Promise<number>;
+  getDeviceInfo: () => Promise<DeviceInfo>;
+  readTextFile: (name: string) => Promise<string | null>;
+  appendTextFile: (name: string, text: string) => Promise<void>;
+};
+
+export type ChainProblem = {
+  line: number;
+  reason: 'parse' | 'index' | 'previous_hash' | 'entry_hash';
+};
+
+export type VerificationStatus =
+  | 'verified'
+  | 'mismatch'
+  | 'unregistered'
+  | 'missing'
+  | 'chain_broken';
+
+export type VerificationResult = {
+  fileName: string;
+  status: VerificationStatus;
+  expectedHash?: string;
+  actualHash?: string;
+};
@@ -0,0 +1,116 @@
+import type {EvidenceManifest} from '../evidence/EvidenceManifest';
+import {parseLog} from '../evidence/chain';
+import type {EvidenceEntry} from '../evidence/types';
+import {loadIncidents} from '../incidents/incidentStore';
+import type {LibraryItem} from '../library/types';
+import {loadMarkers} from '../markers/markerStore';
+import {
+  parseTranscript,
+  transcriptFileName,
+} from '../transcripts/transcriptFile';
+import type {Transcript} from '../transcripts/types';
+import {buildBundleEntries, bundleBaseName} from './bundle';
+import {ExportError, toExportError} from './errors';
+import type {ExportBackend, ExportContent} from './types';
+
+export class EvidenceExporter {
+  private readonly backend: ExportBackend | null;
+  private readonly evidence: EvidenceManifest;
+  private readonly now: () => Date;
+
+  constructor(
+    backend: ExportBackend | null,
+    evidence: EvidenceManifest,
+    now: () => Date = () => new Date(),
+  ) {
+    this.backend = backend;
+    this.evidence = evidence;
+    this.now = now;
+  }
+
+  get isAvailable(): boolean {
+    return this.backend !== null;
+  }
+
+  /**
+   * 選んだ録音のハッシュ・マーカー・文字起こし・リンクされた出来事の記録を集める。
+   * 検証結果は一覧表示時のものではなく、書き出す時点で計算し直す。
+   */
+  async collect(items: LibraryItem[]): Promise<ExportContent> {
+    const manifestText = await this.evidence.readLog();
+    const latest = new Map<string, EvidenceEntry>();
+    parseLog(manifestText).entries.forEach(entry =>
+      latest.set(entry.fileName, entry),
+    );
+    const verification = await this.evidence.verifyAll(items);
+    const names = new Set(items.map(item => item.name));
+    const incidents = (await loadIncidents()).filter(incident =>
+      incident.recordingNames.some(name => names.has(name)),
+    );
+
+    const recordings = [];
+    for (const item of items) {
+      recordings.push({
+        item,
+        entry: latest.get(item.name) ?? null,
+        verification: verification[item.name],
+        markers: await loadMarkers(item.name),
+        transcript: await this.loadTranscript(item.name),
+      });
+    }
+    return {exportedAt: this.now(), recordings, incidents, manifestText};
+  }
+
+  /**
+   * ZIP を一時領域に書き出してパスを返す。
+   * 録音はネイティブ側が読みながら書くので、JS には読み込まない。
+   */
+  async writeBundle(items: LibraryItem[]): Promise<string> {
+    const backend = this.requireBackend();
+    if (items.length === 0) {
+      throw new ExportError('nothing_selected');
+    }
+    const content = await this.collect(items);
+    const entries = buildBundleEntries(content);
+    try {
+      return await backend.writeArchive(
+        `${bundleBaseName(content.exportedAt)}.zip`,
+        entries,
+      );
+    } catch (error) {
+      throw toExportError(error, 'write_failed');
+    }
+  }
+
+  // 共有シートで弁護士などへ送る
+  async share(items: LibraryItem[]): Promise<boolean> {
+    const path = await this.writeBundle(items);
+    try {
+      return await this.requireBackend().shareFiles([], [path]);
+    } catch (error) {
+      throw toExportError(error, 'share_failed');
+    }
+  }
+
+  // 読めない文字起こしは書き出しに含めない（音声と証拠ログが優先）
+  private async loadTranscript(fileName: string): Promise<Transcript | null> {
+    if (!this.backend) {
+      return null;
+    }
+    try {
+      const text = await this.backend.readTextFile(
+        transcriptFileName(fileName),
+      );
+      return text === null ? null : parseTranscript(text);
+    } catch {
+      return null;
+    }
+  }
+
+  private requireBackend(): ExportBackend {
+    if (!this.backend) {
+      throw new ExportError('unavailable');
+    }
+    return this.backend;
+  }
+}
@@ -0,0 +1,32 @@
+import React, {createContext, useContext} from 'react';
+import {useEvidenceManifest} from '../evidence/EvidenceContext';
+import {EvidenceExporter} from './EvidenceExporter';
+import {getNativeExportBackend} from './nativeExport';
+
+let defaultExporter: EvidenceExporter | null = null;
+
+const ExportContext = createContext<EvidenceExporter | null>(null);
+
+type ExportProviderProps = {
+  exporter: EvidenceExporter;
+  children: React.ReactNode;
+};
+
+export const ExportProvider = ({
+  exporter,
+  children,
+}: ExportProviderProps): React.JSX.Element => (
+  <ExportContext.Provider value={exporter}>{children}</ExportContext.Provider>
+);
+
+export const useEvidenceExporter = (): EvidenceExporter => {
+  const provided = useContext(ExportContext);
+  const evidence = useEvidenceManifest();
+  if (provided) {
+    return provided;
+  }
+  if (!defaultExporter) {
+    defaultExporter = new EvidenceExporter(getNativeExportBackend(), evidence);
+  }
+  return defaultExporter;
+};
@@ -0,0 +1,79 @@
+import {MANIFEST_FILE_NAME} from '../evidence/EvidenceManifest';
+import {translate} from '../i18n/translate';
+import type {Translate} from '../i18n/types';
+import {formatMarkersText, markersFileName} from '../markers/exportMarkers';
+import {
+  TRANSCRIPT_FORMATS,
+  formatTranscript,
+  transcriptExportName,
+} from '../transcripts/formats';
+import {
+  MARKERS_DIR,
+  RECORDINGS_DIR,
+  TRANSCRIPTS_DIR,
+  buildReportHtml,
+  buildReportText,
+} from './report';
+import type {ArchiveEntry, ExportContent} from './types';
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+// 報告書（report.ts）と同じく、証拠一式のテキストは日本語で書く
+const ja: Translate = (key, params) => translate('ja', key, params);
+
+// evidence-20240305_083015（録音ファイル名と同じ時刻表記）
+export const bundleBaseName = (date: Date): string =>
+  `evidence-${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(
+    date.getDate(),
+  )}_${pad(date.getHours())}${pad(date.getMinutes())}${pad(date.getSeconds())}`;
+
+/**
+ * アーカイブに入れるファイルを並べる。すべて bundleBaseName のフォルダに入れる。
+ * 録音はファイル名だけを渡し、中身はネイティブ側が ZIP に書く。
+ */
+export const buildBundleEntries = (content: ExportContent): ArchiveEntry[] => {
+  const root = bundleBaseName(content.exportedAt);
+  const modifiedAt = content.exportedAt.toISOString();
+  const text = (name: string, value: string): ArchiveEntry => ({
+    path: `${root}/${name}`,
+    text: value,
+    modifiedAt,
+  });
+
+  const entries: ArchiveEntry[] = [
+    text('report.txt', buildReportText(content)),
+    text('report.html', buildReportHtml(content)),
+    text(MANIFEST_FILE_NAME, content.manifestText),
+  ];
+  content.recordings.forEach(({item, markers, transcript}) => {
+    entries.push({
+      path: `${root}/${RECORDINGS_DIR}/${item.name}`,
+      file: item.name,
+      modifiedAt: item.date ? new Date(item.date).toISOString() : undefined,
+    });
+    if (markers.length > 0) {
+      entries.push(
+        text(
+          `${MARKERS_DIR}/${markersFileName(item.name)}`,
+          formatMarkersText(ja, item.name, markers),
+        ),
+      );
+    }
+    if (transcript) {
+      TRANSCRIPT_FORMATS.forEach(format =>
+        entries.push(
+          text(
+            `${TRANSCRIPTS_DIR}/${transcriptExportName(item.name, format)}`,
+            formatTranscript(ja, transcript, format),
+          ),
+        ),
+      );
+    }
+  });
+  if (content.incidents.length > 0) {
+    entries.push(
+      text('incidents.json', `${JSON.stringify(content.incidents, null, 2)}\n`),
+    );
+  }
+  return entries;
+};
@@ -0,0 +1,44 @@
+import type {ExportErrorCode} from './types';
+
+// ログ向けの既定の文言。画面にはカタログ（exportError.*）の文言を出す
+const DEFAULT_MESSAGES: Record<ExportErrorCode, string> = {
+  unavailable: '書き出しはiOSデバイスでのみ利用できます。',
+  nothing_selected: '書き出す録音を選んでください。',
+  read_failed: '録音ファイルを読み込めませんでした。',
+  too_large: '端末の空き容量が足りないため書き出せませんでした。',
+  write_failed: '書き出しファイルを作成できませんでした。',
+  share_failed: '共有画面を表示できませんでした。',
+};
+
+// ネイティブの reject コードとの対応
+const NATIVE_CODES: Record<string, ExportErrorCode> = {
+  file_not_found: 'read_failed',
+  // 保護モードのロック中・復号できない録音
+  locked: 'read_failed',
+  corrupted: 'read_failed',
+  no_space: 'too_large',
+};
+
+export class ExportError extends Error {
+  readonly code: ExportErrorCode;
+
+  constructor(code: ExportErrorCode, message?: string) {
+    super(message || DEFAULT_MESSAGES[code]);
+    this.name = 'ExportError';
+    this.code = code;
+  }
+}
+
+export const toExportError = (
+  error: unknown,
+  fallback: ExportErrorCode,
+): ExportError => {
+  if (error instanceof ExportError) {
+    return error;
+  }
+  const nativeCode = (error as {code?: unknown} | null)?.code;
+  if (typeof nativeCode === 'string' && NATIVE_CODES[nativeCode]) {
+    return new ExportError(NATIVE_CODES[nativeCode]);
+  }
+  return new ExportError(fallback);
+};
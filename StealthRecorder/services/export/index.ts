@@ -0,0 +1,13 @@
+export {EvidenceExporter} from './EvidenceExporter';
+export {ExportProvider, useEvidenceExporter} from './ExportContext';
+export {ExportError, toExportError} from './errors';
+export {getNativeExportBackend} from './nativeExport';
+export {buildBundleEntries, bundleBaseName} from './bundle';
+export {buildReportHtml, buildReportText} from './report';
+export type {
+  ArchiveEntry,
+  ExportBackend,
+  ExportContent,
+  ExportErrorCode,
+  ExportRecording,
+} from './types';
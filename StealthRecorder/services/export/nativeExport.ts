@@ -0,0 +1,5 @@
+import {NativeModules} from 'react-native';
+import type {ExportBackend} from './types';
+
+export const getNativeExportBackend = (): ExportBackend | null =>
+  NativeModules.RecorderManager ?? null;
@@ -0,0 +1,311 @@
+import {SAFETY_STEPS} from '../../data/safetyChecklist';
+import {
+  formatDuration,
+  formatFileSize,
+  formatLocalDateTime,
+} from '../../utils/format';
+import type {VerificationStatus} from '../evidence/types';
+import {translate} from '../i18n/translate';
+import {buildTimeline} from '../incidents/timeline';
+import type {Incident} from '../incidents/types';
+import {formatGeoFix, mapURL} from '../location/format';
+import type {GeoFix} from '../location/types';
+import {groupRecordingSegments} from '../recorder/segments';
+import {transcriptExportName} from '../transcripts/formats';
+import type {ExportContent, ExportRecording} from './types';
+
+// アーカイブ内の配置
+export const RECORDINGS_DIR = 'recordings';
+export const MARKERS_DIR = 'markers';
+export const TRANSCRIPTS_DIR = 'transcripts';
+
+const VERIFICATION_LABELS: Record<VerificationStatus, string> = {
+  verified: '改ざんなし（記録時のハッシュと一致）',
+  mismatch: '要確認（記録時のハッシュと一致しません）',
+  unregistered: '証拠ログ未登録',
+  missing: '要確認（ファイルが見つかりません）',
+  chain_broken: '要確認（証拠ログの連結が壊れています）',
+};
+
+type Section = {
+  heading: string;
+  rows: [string, string][];
+  // 見出し付きの箇条書き（マーカー・経過など）
+  lists: {title: string; items: string[]}[];
+};
+
+const locationText = (fix: GeoFix): string =>
+  `${formatGeoFix(fix)} ${formatLocalDateTime(fix.capturedAt)} 測位 ${mapURL(
+    fix,
+  )}`;
+
+// 1 ファイル分の行。分割録音ではラベルの前に「パートN 」を付ける
+const fileRows = (
+  recording: ExportRecording,
+  prefix: string,
+): [string, string][] => {
+  const {item, entry, verification, transcript} = recording;
+  const rows: [string, string][] = [
+    ['ファイル名', `${RECORDINGS_DIR}/${item.name}`],
+  ];
+  if (entry) {
+    rows.push(
+      ['録音開始', formatLocalDateTime(entry.startedAt)],
+      ['録音終了', formatLocalDateTime(entry.stoppedAt)],
+      ['長さ', formatDuration(entry.durationSeconds)],
+    );
+  }
+  rows.push(['サイズ', formatFileSize(item.size)]);
+  if (entry) {
+    rows.push(
+      ['SHA-256', entry.contentHash],
+      [
+        '証拠ログ',
+        `${entry.index + 1}行目（${formatLocalDateTime(entry.loggedAt)} 記録）`,
+      ],
+      [
+        '記録方法',
+        entry.lateRegistration
+          ? '後から記録（ショートカットでの停止など）'
+          : '録音停止時に記録',
+      ],
+      [
+        '記録端末',
+        `${entry.device.model} (${entry.device.systemName} ${entry.device.systemVersion})`,
+      ],
+    );
+    if (entry.renamedFrom) {
+      rows.push(['変更前の名前', entry.renamedFrom]);
+    }
+    if (entry.restoredFrom) {
+      rows.push(['復元元のバックアップ', entry.restoredFrom]);
+    }
+  }
+  // 証拠ログに載っている位置を優先する（停止後に書き換えられないため）
+  const location = entry?.location ?? item.metadata.location;
+  if (location?.start) {
+    rows.push(['開始時の位置', locationText(location.start)]);
+  }
+  if (location?.stop) {
+    rows.push(['停止時の位置', locationText(location.stop)]);
+  }
+  rows.push(['検証結果', VERIFICATION_LABELS[verification]]);
+  if (transcript) {
+    rows.push([
+      '文字起こし',
+      `${TRANSCRIPTS_DIR}/${transcriptExportName(
+        item.name,
+        'srt',
+      )}（端末内で自動作成・${transcript.segments.length}件の発話）`,
+    ]);
+  }
+  return rows.map(([label, value]) => [`${prefix}${label}`, value]);
+};
+
+// 分割録音のパートは 1 つの録音としてまとめる
+const groupRecordings = (recordings: ExportRecording[]): ExportRecording[][] =>
+  groupRecordingSegments(
+    recordings.map(recording => ({name: recording.item.name, recording})),
+  ).map(group => group.files.map(file => file.recording));
+
+const recordingSection = (parts: ExportRecording[], index: number): Section => {
+  const {item} = parts[0];
+  const isSplit = parts.length > 1;
+  const rows: [string, string][] = [];
+  if (item.metadata.tags.length > 0) {
+    rows.push(['タグ', item.metadata.tags.map(tag => `#${tag}`).join(' ')]);
+  }
+  if (item.metadata.place) {
+    rows.push(['場所', item.metadata.place]);
+  }
+  if (isSplit) {
+    rows.push(['分割', `${parts.length}ファイル（録音中に自動で分割）`]);
+  }
+  parts.forEach((part, i) =>
+    rows.push(...fileRows(part, isSplit ? `パート${i + 1} ` : '')),
+  );
+  const lists = parts
+    .map((part, i) => ({
+      title: isSplit
+        ? `パート${i + 1} のマーカー（パート開始からの経過時間）`
+        : 'マーカー（録音開始からの経過時間）',
+      items: part.markers.map(
+        marker => `${formatDuration(marker.offsetSeconds)}  ${marker.label}`,
+      ),
+    }))
+    .filter(list => list.items.length > 0);
+  return {
+    heading: `録音${index + 1}: ${item.metadata.title || item.name}`,
+    rows,
+    lists,
+  };
+};
+
+const incidentSection = (
+  incident: Incident,
+  index: number,
+  content: ExportContent,
+): Section => {
+  const rows: [string, string][] = [
+    ['発生日時', formatLocalDateTime(incident.occurredAt)],
+  ];
+  if (incident.location) {
+    rows.push(['場所', incident.location]);
+  }
+  if (incident.trainLine || incident.carNumber) {
+    rows.push([
+      '路線・車両',
+      [incident.trainLine, incident.carNumber].filter(Boolean).join(' / '),
+    ]);
+  }
+  const lists: Section['lists'] = [];
+  if (incident.officers.length > 0) {
+    lists.push({
+      title: '対応した人物',
+      items: incident.officers.map(officer =>
+        [
+          officer.name || '（氏名不明）',
+          officer.affiliation,
+          officer.badgeNumber && `番号 ${officer.badgeNumber}`,
+        ]
+          .filter(Boolean)
+          .join(' ・ '),
+      ),
+    });
+  }
+  if (incident.completedSteps.length > 0) {
+    lists.push({
+      title: '実施した手順',
+      // 報告書は表示言語にかかわらず日本語で書く
+      items: SAFETY_STEPS.filter(step =>
+        incident.completedSteps.includes(step.id),
+      ).map(
+        step =>
+          `${step.number}${translate('ja', `checklist.${step.id}.label`)}`,
+      ),
+    });
+  }
+  const files = content.recordings.map(recording => recording.item);
+  const timeline = buildTimeline(incident, files);
+  if (timeline.length > 0) {
+    lists.push({
+      title: '経過',
+      items: timeline.map(item =>
+        item.kind === 'event'
+          ? `${formatLocalDateTime(item.time)}  ${item.event.description}`
+          : `${formatLocalDateTime(item.time)}  録音開始（${item.fileName}）`,
+      ),
+    });
+  }
+  if (incident.notes) {
+    lists.push({title: 'メモ', items: incident.notes.split('\n')});
+  }
+  return {
+    heading: `出来事${index + 1}: ${incident.title || '（タイトルなし）'}`,
+    rows,
+    lists,
+  };
+};
+
+const ABOUT = [
+  `${RECORDINGS_DIR}/ に録音ファイルを保存時のまま収めています。`,
+  'evidence-manifest.jsonl は録音の保存時に追記したハッシュの記録で、各行が直前の行のハッシュを含んでいます。',
+  '録音ファイルの SHA-256 を計算し、下記の値と一致すれば記録後に変更されていないことを確認できます（例: shasum -a 256 ファイル名）。',
+  `${MARKERS_DIR}/ には録音中に付けたマーカー、incidents.json には出来事の記録の全項目を収めています。`,
+];
+
+const buildSections = (content: ExportContent): Section[] => [
+  ...groupRecordings(content.recordings).map(recordingSection),
+  ...content.incidents.map((incident, i) =>
+    incidentSection(incident, i, content),
+  ),
+];
+
+export const REPORT_TITLE = '録音証拠 資料レポート';
+
+const countLine = (content: ExportContent): string => {
+  const groups = groupRecordings(content.recordings).length;
+  const files =
+    groups === content.recordings.length
+      ? ''
+      : `（ファイル${content.recordings.length}個）`;
+  return `録音: ${groups}件${files} / 出来事の記録: ${content.incidents.length}件`;
+};
+
+export const buildReportText = (content: ExportContent): string => {
+  const lines = [
+    REPORT_TITLE,
+    `作成日時: ${formatLocalDateTime(content.exportedAt)}`,
+    countLine(content),
+    '',
+    '【この資料について】',
+    ...ABOUT.map(line => `・${line}`),
+  ];
+  buildSections(content).forEach(section => {
+    lines.push('', `■ ${section.heading}`);
+    section.rows.forEach(([label, value]) => lines.push(`${label}: ${value}`));
+    section.lists.forEach(list => {
+      lines.push(`${list.title}:`);
+      list.items.forEach(item => lines.push(`  ${item}`));
+    });
+  });
+  lines.push('');
+  return lines.join('\n');
+};
+
+const escapeHtml = (text: string) =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+export const buildReportHtml = (content: ExportContent): string => {
+  const sections = buildSections(content)
+    .map(
+      section => `<section>
+<h2>${escapeHtml(section.heading)}</h2>
+<table>
+${section.rows
+  .map(
+    ([label, value]) =>
+      `<tr><th>${escapeHtml(label)}</th><td>${escapeHtml(value)}</td></tr>`,
+  )
+  .join('\n')}
+</table>
+${section.lists
+  .map(
+    list => `<h3>${escapeHtml(list.title)}</h3>
+<ul>
+${list.items.map(item => `<li>${escapeHtml(item)}</li>`).join('\n')}
+</ul>`,
+  )
+  .join('\n')}
+</section>`,
+    )
+    .join('\n');
+  return `<!DOCTYPE html>
+<html lang="ja">
+<head>
+<meta charset="utf-8">
+<title>${REPORT_TITLE}</title>
+<style>
+body { font-family: sans-serif; max-width: 760px; margin: 2em auto; line-height: 1.6; }
+th { text-align: left; vertical-align: top; padding-right: 1em; white-space: nowrap; }
+td { word-break: break-all; }
+section { border-top: 1px solid #ccc; margin-top: 1.5em; }
+</style>
+</head>
+<body>
+<h1>${REPORT_TITLE}</h1>
+<p>作成日時: ${escapeHtml(formatLocalDateTime(content.exportedAt))}<br>
+${escapeHtml(countLine(content))}</p>
+<h2>この資料について</h2>
+<ul>
+${ABOUT.map(line => `<li>${escapeHtml(line)}</li>`).join('\n')}
+</ul>
+${sections}
+</body>
+</html>
+`;
+};
@@ -0,0 +1,48 @@
+import type {EvidenceEntry, VerificationStatus} from '../evidence/types';
+import type {Incident} from '../incidents/types';
+import type {LibraryItem} from '../library/types';
+import type {Marker} from '../markers/types';
+import type {Transcript} from '../transcripts/types';
+
+export type ExportRecording = {
+  item: LibraryItem;
+  // 証拠ログ上の最新の行。未登録なら null
+  entry: EvidenceEntry | null;
+  verification: VerificationStatus;
+  markers: Marker[];
+  // 文字起こしがなければ null
+  transcript: Transcript | null;
+};
+
+// レポートとアーカイブの元になる情報（音声本体以外）
+export type ExportContent = {
+  exportedAt: Date;
+  recordings: ExportRecording[];
+  // 選んだ録音にリンクされている出来事の記録
+  incidents: Incident[];
+  manifestText: string;
+};
+
+/**
+ * ZIP に入れる 1 ファイル。file は Documents の録音名で、ネイティブ側が読みながら書く
+ * （音声を JS に渡さない）。modifiedAt は ISO 8601。
+ */
+export type ArchiveEntry = {
+  path: string;
+  modifiedAt?: string;
+} & ({text: string} | {file: string});
+
+export type ExportBackend = {
+  readTextFile: (name: string) => Promise<string | null>;
+  // ZIP を一時領域に作ってパスを返す
+  writeArchive: (name: string, entries: ArchiveEntry[]) => Promise<string>;
+  shareFiles: (names: string[], extraPaths: string[]) => Promise<boolean>;
+};
+
+export type ExportErrorCode =
+  | 'unavailable'
+  | 'nothing_selected'
+  | 'read_failed'
+  | 'too_large'
+  | 'write_failed'
+  | 'share_failed';
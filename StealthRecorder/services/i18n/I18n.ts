@@ -0,0 +1,70 @@
+import {detectDeviceLocale} from './detectLocale';
+import {formatDate, formatDateTime, formatFileSize} from './format';
+import {loadLocalePreference, saveLocalePreference} from './localeSettings';
+import {translate} from './translate';
+import type {
+  I18nListener,
+  I18nSnapshot,
+  Locale,
+  LocalePreference,
+  MessageKey,
+  MessageParams,
+} from './types';
+
+/**
+ * 表示言語の設定。アプリ内で選んだ言語がなければ端末の言語設定に合わせる。
+ */
+export class I18n {
+  private readonly deviceLocale: () => Locale;
+  private snapshot: I18nSnapshot;
+  private listeners = new Set<I18nListener>();
+
+  constructor(deviceLocale: () => Locale = detectDeviceLocale) {
+    this.deviceLocale = deviceLocale;
+    this.snapshot = {preference: 'system', locale: deviceLocale()};
+  }
+
+  getSnapshot = (): I18nSnapshot => this.snapshot;
+
+  subscribe = (listener: I18nListener): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  get locale(): Locale {
+    return this.snapshot.locale;
+  }
+
+  t = (key: MessageKey, params?: MessageParams): string =>
+    translate(this.snapshot.locale, key, params);
+
+  formatDateTime = (value: string | Date): string =>
+    formatDateTime(value, this.snapshot.locale);
+
+  formatDate = (value: string | Date): string =>
+    formatDate(value, this.snapshot.locale);
+
+  formatFileSize = (bytes: number): string =>
+    formatFileSize(bytes, this.snapshot.locale);
+
+  // 保存した設定を読み込む（端末の言語設定も読み直す）
+  async load(): Promise<I18nSnapshot> {
+    this.apply(await loadLocalePreference().catch(() => 'system' as const));
+    return this.snapshot;
+  }
+
+  async setPreference(preference: LocalePreference): Promise<void> {
+    this.apply(preference);
+    await saveLocalePreference(preference);
+  }
+
+  private apply(preference: LocalePreference) {
+    this.snapshot = {
+      preference,
+      locale: preference === 'system' ? this.deviceLocale() : preference,
+    };
+    this.listeners.forEach(listener => listener(this.snapshot));
+  }
+}
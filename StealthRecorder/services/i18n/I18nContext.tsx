@@ -0,0 +1,35 @@
+import React, {createContext, useContext, useSyncExternalStore} from 'react';
+import {I18n} from './I18n';
+
+let defaultI18n: I18n | null = null;
+
+const I18nContext = createContext<I18n | null>(null);
+
+type I18nProviderProps = {
+  i18n: I18n;
+  children: React.ReactNode;
+};
+
+export const I18nProvider = ({
+  i18n,
+  children,
+}: I18nProviderProps): React.JSX.Element => (
+  <I18nContext.Provider value={i18n}>{children}</I18nContext.Provider>
+);
+
+/**
+ * 表示言語の文言と書式。言語を切り替えると使っている画面が描き直される。
+ */
+export const useI18n = (): I18n => {
+  const i18n = useContext(I18nContext) ?? getDefaultI18n();
+  // 言語の変更で描き直すために購読する（t などは i18n から直接読む）
+  useSyncExternalStore(i18n.subscribe, i18n.getSnapshot);
+  return i18n;
+};
+
+export const getDefaultI18n = (): I18n => {
+  if (!defaultI18n) {
+    defaultI18n = new I18n();
+  }
+  return defaultI18n;
+};
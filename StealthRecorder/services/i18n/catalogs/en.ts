@@ -0,0 +1,643 @@
+import type {Catalog} from '../types';
+
+// 英語の文言（キーは ja.ts と同じ）
+export const en: Catalog = {
+  'common.close': 'Close',
+  'common.cancel': 'Cancel',
+  'common.save': 'Save',
+  'common.on': 'On',
+  'common.off': 'Off',
+  'common.delete': 'Delete',
+  'common.listSeparator': ', ',
+
+  'app.iosOnly': 'iOS only',
+  'app.saved.title': 'Recording saved',
+  'app.saved.message': 'File name: {fileName}\n\nOpen "Recordings" to find it.',
+  'app.interrupted.title': 'A recording was cut short',
+  'app.interrupted.byCall':
+    'The recording was interrupted by a call or similar.',
+  'app.interrupted.byExit':
+    'The app was closed while recording, so the recording stopped partway.',
+  'app.interrupted.startedAt': 'Started: {time}',
+  'app.interrupted.partialFile': 'Partial file: {fileName} ({size})',
+  'app.interrupted.fileMissing': 'The file {fileName} no longer exists.',
+  'app.interrupted.continueHint':
+    'Choose "Continue recording" to keep recording into a new file as part of the same recording.',
+  'app.interrupted.continue': 'Continue recording',
+  'app.interrupted.openFile': 'View file',
+  'app.retentionApplied.title': 'Auto-delete rules applied',
+  'app.retentionApplied.message': 'Deleted {count} recordings ({size}).',
+  'app.retentionApplied.failed': 'Could not delete these {count}:',
+  'app.retentionConfirm.title':
+    '{count} recordings match the auto-delete rules',
+  'app.retentionConfirm.message':
+    'These have a title, tags or markers, or are registered in the evidence log. Delete them?\n\n{titles}\n\nDeleted recordings cannot be restored.',
+  'app.permissionRequired.title': 'Microphone access needed',
+  'app.permissionRequired.message':
+    'Allow microphone access in the Settings app, then try again.',
+  'app.startFailed': 'Could not start recording',
+  'app.stopFailed': 'Could not stop recording',
+  'app.evidenceFailed': 'Could not write to the evidence log',
+  'app.storageStopped.title': 'Recording stopped: storage is full',
+  'app.storageStopped.message':
+    'File name: {fileName}\n\nEverything up to this point has been saved. Delete files you no longer need, then record again.',
+  'app.markerUnavailable.title': 'Cannot add a marker',
+  'app.markerUnavailable.message': 'Markers can only be added while recording.',
+  'app.invalidLink': 'This link cannot be used',
+  'app.status.label': 'Status',
+  'app.status.recording': 'Recording',
+  'app.status.idle': 'Standing by',
+  'app.stop': 'Stop recording',
+  'app.stopIdle': 'Not recording',
+  'app.menu.library': 'Recordings',
+  'app.menu.incidents': 'Incident records',
+  'app.menu.history': 'Recording history and stats',
+  'app.menu.settings': 'Recording settings',
+  'app.menu.retention': 'Auto-delete rules',
+  'app.menu.backup': 'Backup and restore',
+  'app.menu.protection': 'Protected mode (encryption)',
+  'app.menu.protectionLocked': 'Protected mode (locked)',
+  'app.menu.protectionUnlocked': 'Protected mode (unlocked)',
+  'app.guide.title': 'How to use 2 Tap Recorder',
+  'app.guide.complete': 'Setup is complete',
+  'app.guide.progress': 'Setup {done} / {total}',
+  'app.guide.description':
+    'Set up a shortcut and Back Tap so you can start and stop recording by tapping the back of your iPhone, then check it with a test.',
+  'app.guide.review': 'View setup steps',
+  'app.guide.continue': 'Continue setup',
+
+  'recorderError.unavailable': 'Recording is only available on iOS devices.',
+  'recorderError.permission_denied':
+    'Allow microphone access in the Settings app, then try again.',
+  'recorderError.start_failed': 'Could not start recording.',
+  'recorderError.stop_failed': 'Could not stop recording.',
+  'recorderError.list_failed': 'Could not load the recordings.',
+  'recorderError.insufficient_storage':
+    'There is not enough free storage to record. Delete files you no longer need, then try again.',
+  'recorderError.invalid_state': 'This cannot be done right now.',
+  'recorderError.unknown': 'An unknown error occurred.',
+
+  'deepLinkError.unsupported_scheme':
+    'The URL does not start with twotaprecorder://.',
+  'deepLinkError.malformed': 'The URL is not valid.',
+  'deepLinkError.missing_action':
+    'The URL does not say what to do (start, stop, etc.).',
+  'deepLinkError.unknown_action': 'The action "{action}" is not supported.',
+  'deepLinkError.unknown_parameter': '{action} does not accept {parameters}.',
+  'deepLinkError.invalid_parameter': 'A parameter value is not valid.',
+  'deepLinkError.invalid_parameter.duplicate':
+    '{parameter} is given more than once.',
+  'deepLinkError.invalid_parameter.duration':
+    'Set maxDuration between 1 second and 24 hours (for example 300, 15m or 2h).',
+  'deepLinkError.invalid_parameter.file': 'The file value is not valid.',
+  'deepLinkError.invalid_parameter.label_length':
+    'Keep label to {max} characters or fewer.',
+
+  'libraryError.unavailable': 'The library is only available on iOS devices.',
+  'libraryError.invalid_name':
+    'The file name contains characters that cannot be used.',
+  'libraryError.name_taken': 'A file with this name already exists.',
+  'libraryError.recording_in_progress':
+    'This file cannot be changed while it is being recorded.',
+  'libraryError.io_failed': 'The file operation failed.',
+
+  'transcriptError.unavailable':
+    'Transcription is only available on iOS devices.',
+  'transcriptError.permission_denied':
+    'Speech recognition is not allowed. Allow it in the Settings app.',
+  'transcriptError.unsupported_locale':
+    'This device cannot transcribe on the device.',
+  'transcriptError.not_found': 'There is no transcript.',
+  'transcriptError.corrupted': 'Could not read the transcript file.',
+  'transcriptError.transcription_failed': 'Transcription failed.',
+  'transcriptError.io_failed': 'Could not save the transcript file.',
+
+  'exportError.unavailable': 'Exporting is only available on iOS devices.',
+  'exportError.nothing_selected': 'Choose the recordings to export.',
+  'exportError.read_failed': 'Could not read the recording files.',
+  'exportError.too_large': 'There is not enough free space to export.',
+  'exportError.write_failed': 'Could not create the export file.',
+  'exportError.share_failed': 'Could not show the share sheet.',
+
+  'backupError.unavailable': 'Backups are only available on iOS devices.',
+  'backupError.nothing_to_backup': 'There are no recordings to back up.',
+  'backupError.weak_password': 'Use a password of at least 8 characters.',
+  'backupError.password_mismatch': 'The passwords do not match.',
+  'backupError.password_required':
+    'This backup is protected with a password. Enter the password.',
+  'backupError.wrong_password': 'The password is incorrect.',
+  'backupError.locked': 'Unlock protected mode to create a backup.',
+  'backupError.read_failed': 'Could not read the recording files.',
+  'backupError.too_large':
+    'There is not enough free space to create the backup.',
+  'backupError.write_failed': 'Could not create the backup file.',
+  'backupError.invalid_archive': 'This is not a backup file from this app.',
+  'backupError.unsupported_version':
+    'This backup was made with a newer version of the app. Update the app.',
+  'backupError.corrupted':
+    'The backup contents do not match its list. The file may be damaged, so nothing was imported.',
+
+  'protectionError.unavailable':
+    'Protected mode is only available on iOS devices.',
+  'protectionError.invalid_passcode': 'Enter a passcode of 6 to 12 digits.',
+  'protectionError.passcode_mismatch': 'The passcodes do not match.',
+  'protectionError.wrong_passcode': 'The passcode is incorrect.',
+  'protectionError.too_many_attempts':
+    'Too many incorrect passcodes. Try again in {seconds} seconds.',
+  'protectionError.locked': 'Unlock protected mode to open recordings.',
+  'protectionError.biometrics_failed': 'Could not unlock with biometrics.',
+  'protectionError.already_enabled': 'Protected mode is already on.',
+  'protectionError.not_enabled': 'Protected mode is not on.',
+  'protectionError.io_failed': 'The protected mode operation failed.',
+
+  'marker.defaultLabel': 'Bookmark',
+  'marker.saveFailed': 'Could not save the marker',
+  'marker.source.checklist': 'Checklist',
+  'marker.source.bookmark': 'Bookmark',
+  'marker.source.shortcut': 'Shortcut',
+  'marker.source.phrase': 'Phrase card',
+  'marker.export.title': 'Markers for {fileName}',
+  'bookmark.button': 'Bookmark',
+  'bookmark.title': 'Bookmark at {time}',
+  'bookmark.message': 'Add a note if you like (you can leave it empty)',
+
+  'onboarding.title': 'Setup',
+  'onboarding.back': '‹ Back',
+  'onboarding.next': 'Next ›',
+  'onboarding.later': 'Later',
+  'onboarding.done': 'Done',
+  'onboarding.copied': 'Copied',
+  'onboarding.tapToCopy': 'Tap to copy',
+  'onboarding.shortcutsUnavailable.title': 'Cannot open Shortcuts',
+  'onboarding.shortcutsUnavailable.message':
+    'Install the Shortcuts app from the App Store.',
+  'onboarding.settingsUnavailable.title': 'Cannot open Settings',
+  'onboarding.settingsUnavailable.message': 'Open the Settings app yourself.',
+  'onboarding.permission.title': 'Microphone access',
+  'onboarding.permission.subtitle': 'Recording needs access to the microphone',
+  'onboarding.permission.description':
+    'On the next screen, please allow access to the microphone so the app can record.',
+  'onboarding.permission.action': 'Continue',
+  'onboarding.shortcuts-app.title': 'Get the Shortcuts app',
+  'onboarding.shortcuts-app.subtitle': 'Prepare the Shortcuts app',
+  'onboarding.shortcuts-app.description':
+    'If it is already installed, go to the next step.\n' +
+    '1. Open the App Store\n' +
+    '2. Search for "Shortcuts"\n' +
+    "3. Download Apple's official app (free)",
+  'onboarding.shortcuts-app.action': 'Open the App Store',
+  'onboarding.shortcut.title': 'Create the shortcut',
+  'onboarding.shortcut.subtitle':
+    'Make a shortcut that starts and stops recording',
+  'onboarding.shortcut.description':
+    '1. Open the Shortcuts app\n' +
+    '2. Tap "+" at the top right, then "Add Action"\n' +
+    '3. Choose "Web", then "Open URLs"\n' +
+    '4. Copy the URL below and paste it in\n' +
+    '5. Name it "Toggle recording" and tap Done\n\n' +
+    'The first run starts recording; the second stops and saves it.\n' +
+    'To start and stop separately, create one shortcut for twotaprecorder://start and another for twotaprecorder://stop.',
+  'onboarding.shortcut.action': 'Open Shortcuts',
+  'onboarding.back-tap.title': 'Set up Back Tap',
+  'onboarding.back-tap.subtitle': 'Assign the shortcut from step ②',
+  'onboarding.back-tap.description':
+    '1. Settings > Accessibility > Touch\n' +
+    '2. "Back Tap" > "Double Tap"\n' +
+    '3. Scroll down to the "Shortcuts" section\n' +
+    '4. Choose "Toggle recording" (a checkmark appears)',
+  'onboarding.back-tap.action': 'Open Settings',
+  'onboarding.self-test.title': 'Test it',
+  'onboarding.self-test.subtitle': 'Check that Back Tap starts a recording',
+  'onboarding.self-test.description':
+    '1. Tap "Start test"\n' +
+    '2. Go to the Home Screen and tap the back of your iPhone twice\n' +
+    '3. The app opens and saves a few seconds of test recording\n' +
+    '4. Each check shows its result and how to fix it if something went wrong\n\n' +
+    'You can delete the test recording with the auto-delete rules.',
+  'onboarding.self-test.action': 'Start test',
+  'onboarding.files.title': 'Find your recordings',
+  'onboarding.files.subtitle': 'Play back saved audio',
+  'onboarding.files.description':
+    '1. Open the Files app\n' +
+    '2. "On My iPhone" > "2 Tap Recorder"\n' +
+    '3. recording-<date and time>.m4a files are your recordings\n' +
+    '(long recordings are split into -part01, -part02, …)\n' +
+    '4. Tap one to play it\n\n' +
+    'The date and time in the file name is when recording started.',
+  'onboarding.files.action': 'Open Files',
+
+  'selfTest.start': 'Start test',
+  'selfTest.retry': 'Test again',
+  'selfTest.cancel': 'Cancel test',
+  'selfTest.waiting':
+    'Go to the Home Screen and tap the back of your iPhone twice.',
+  'selfTest.passed': 'Back Tap recording works. Test recording: {fileName}',
+  'selfTest.step.permission': 'Microphone access',
+  'selfTest.step.deep-link': 'Back Tap opens the app',
+  'selfTest.step.recording': 'Recording starts',
+  'selfTest.step.file': 'Test recording is saved',
+  'selfTest.fix.permission':
+    'Turn on "2 Tap Recorder" in Settings > Privacy & Security > Microphone, then test again.',
+  'selfTest.fix.busy':
+    'You cannot test while recording. Stop the recording, then test again.',
+  'selfTest.fix.timeout':
+    'Back Tap did not open the app. In Settings > Accessibility > Touch > Back Tap > "Double Tap", check that the "Toggle recording" shortcut is selected. If a confirmation appears when the shortcut runs, choose "Always Allow".',
+  'selfTest.fix.wrong-link':
+    'The shortcut URL is twotaprecorder://{action}. In the Shortcuts app, change the "Open URLs" URL to twotaprecorder://toggle (or twotaprecorder://start).',
+  'selfTest.fix.missing':
+    'The test recording file was not found. Check the free storage on your device, then test again.',
+  'selfTest.fix.empty':
+    'The test recording file was empty. Check that no other app, such as a call, is using the microphone, then test again.',
+
+  'checklist.title': 'If you are accused of groping',
+  'checklist.hint':
+    'Tap a step when you do it to mark the time in the recording',
+  'checklist.no-detention.label':
+    'Confirm that station staff have no right to detain you',
+  'checklist.no-detention.marker':
+    'Confirmed station staff have no right to detain me',
+  'checklist.show-id.label':
+    'Confirm that you cannot be arrested once you show ID and your address',
+  'checklist.show-id.marker':
+    'Showed ID and address; confirmed I cannot be arrested',
+  'checklist.police-handbook.label':
+    'Ask police to show their badge and to check the security cameras',
+  'checklist.police-handbook.marker': 'Asked the officer to show their badge',
+  'checklist.wait-for-lawyer.label': 'Say you will wait until a lawyer arrives',
+  'checklist.wait-for-lawyer.marker': 'Said I will wait for a lawyer',
+  'checklist.keep-evidence.label':
+    'Keep evidence, such as recording your conversations with staff and the other party',
+  'checklist.keep-evidence.marker':
+    'Kept evidence such as recording the conversation',
+
+  'phrases.open': 'Show phrase cards',
+  'phrases.title': 'Phrase cards',
+  'phrases.hint': 'Show this screen to the other person, or have it read aloud',
+  'phrases.recordingHint':
+    'Recording: each card you open is marked with the time',
+  'phrases.speak': 'Read aloud',
+  'phrases.stop': 'Stop',
+  'phrases.speechFailed': 'Could not read aloud',
+  'phrases.marker': 'Showed phrase card "{title}"',
+  'phrases.no-detention.title': 'Ask why you are held',
+  'phrases.show-id.title': 'Show ID and leave',
+  'phrases.police-handbook.title': 'Police ID and cameras',
+  'phrases.wait-for-lawyer.title': 'Wait for a lawyer',
+  'phrases.keep-evidence.title': 'Say you are recording',
+
+  'contacts.open': 'Lawyer & emergency contacts',
+  'contacts.title': 'Lawyer & emergency contacts',
+  'contacts.hint':
+    'Stored on this device only. Messages are sent from SMS, Mail or the share sheet; this app uses no server.',
+  'contacts.empty':
+    'No contacts yet. Save your lawyer and family here so you can call or message them right away.',
+  'contacts.add': '+ Add {kind}',
+  'contacts.kind.lawyer': 'Lawyer',
+  'contacts.kind.duty-lawyer': 'Duty lawyer',
+  'contacts.kind.family': 'Family / trusted person',
+  'contacts.dutyLawyerHint':
+    'If you are arrested, you can call a duty lawyer (tōban bengoshi) once for free. Save the number of the bar association where you live.',
+  'contacts.call': 'Call',
+  'contacts.message': 'Message',
+  'contacts.edit': 'Edit',
+  'contacts.back': '‹ Back to list',
+  'contacts.field.name': 'Name',
+  'contacts.field.phone': 'Phone number',
+  'contacts.field.email': 'Email address',
+  'contacts.field.note': 'Note (office, hours, etc.)',
+  'contacts.unreachable': 'Enter a phone number or an email address',
+  'contacts.delete': 'Delete this contact',
+  'contacts.deleteConfirm': 'Delete "{name}"?',
+  'contacts.delete.action': 'Delete',
+  'contacts.saveFailed': 'Could not save the contact',
+  'contacts.openFailed': 'Could not open',
+  'contacts.composer.title': 'Message to {name}',
+  'contacts.composer.location': 'Location (station, line, etc.)',
+  'contacts.composer.summary': 'Situation',
+  'contacts.composer.fromIncident':
+    'Filled in from your latest incident "{title}"',
+  'contacts.composer.preview': 'Message to send',
+  'contacts.composer.sms': 'Send by SMS',
+  'contacts.composer.mail': 'Send by email',
+  'contacts.composer.share': 'Send with another app',
+  'contacts.message.subject': 'Urgent: I have been stopped at a station',
+  'contacts.message.intro':
+    'I have been accused of groping and stopped at a station. Please contact me as soon as possible.',
+  'contacts.message.time': 'Time: {time}',
+  'contacts.message.location': 'Location: {location}',
+  'contacts.message.summary': 'Situation: {summary}',
+  'contacts.message.recording': 'I am recording this situation now.',
+  'contacts.summary.train': '{line}, car {car}',
+  'contacts.summary.car': 'car {car}',
+  'contacts.summary.officers': '{count} people involved',
+  'contacts.untitled': '(No name)',
+  'library.title': 'Recordings',
+  'library.empty':
+    'No recordings yet.\nTry starting a recording with Back Tap.',
+  'library.noMatches': 'No recordings match.',
+  'library.select': 'Select to share',
+  'library.sort.newest': 'Newest',
+  'library.sort.oldest': 'Oldest',
+  'library.sort.name': 'Name',
+  'library.sort.largest': 'Largest',
+  'library.parts': 'split into {count} files',
+  'library.protected': 'kept from auto-delete',
+  'library.shareCount': 'Share {count}',
+  'library.exportPackage': 'Evidence package (ZIP)',
+  'library.shareFailed': 'Could not share',
+  'library.exportFailed': 'Could not create the evidence package',
+  'library.listFailed': 'Could not load the list of recordings.',
+  'library.reload': 'Reload',
+
+  'search.placeholder': 'Search titles, places, markers and incident records',
+  'search.field.title': 'Title',
+  'search.field.tag': 'Tag',
+  'search.field.place': 'Place',
+  'search.field.marker': 'Marker',
+  'search.field.incident': 'Incident record',
+  'search.field.fileName': 'File name',
+  'search.period.all': 'Any time',
+  'search.period.week': 'Last 7 days',
+  'search.period.month': 'Last 30 days',
+  'search.period.year': 'Last year',
+  'search.length.all': 'Any length',
+  'search.length.short': 'Under 5 min',
+  'search.length.medium': '5–30 min',
+  'search.length.long': 'Over 30 min',
+
+  'verification.verified': '✓ Not tampered with',
+  'verification.mismatch': '⚠ Hash mismatch',
+  'verification.unregistered': 'Not in evidence log',
+  'verification.missing': '⚠ File missing',
+  'verification.chain_broken': '⚠ Evidence log damaged',
+
+  'dashboard.part': 'Part {index}',
+  'dashboard.silent':
+    '⚠ Almost no sound for {seconds}+ seconds. Check that the microphone is not covered.',
+  'dashboard.silenceWarning':
+    'Silence warning: after {seconds} seconds (tap to change)',
+  'dashboard.silenceWarningOff': 'Silence warning: off (tap to change)',
+  'dashboard.storageLow':
+    'Storage is running low ({free} left, about {remaining} of recording)',
+  'dashboard.storageCritical':
+    '⚠ Storage is almost full. Recording will stop and be saved in about {remaining}',
+
+  'settings.title': 'Recording settings',
+  'settings.quality': 'Quality',
+  'settings.qualityHint': 'Applies from the next recording',
+  'settings.perHour': 'about {size}/hour',
+  'settings.mono': 'mono',
+  'settings.stereo': 'stereo',
+  'settings.silence': 'Silence warning',
+  'settings.silenceHint':
+    'Warns you when almost no sound is picked up for a while during recording',
+  'settings.seconds': '{seconds} s',
+  'settings.segment': 'Auto split',
+  'settings.segmentHint':
+    'Saves long recordings into a new file at regular intervals. If one file is damaged, the other parts are kept.',
+  'settings.everyMinutes': 'Every {minutes} min',
+  'settings.location': 'Location',
+  'settings.locationHint':
+    'When on, the location (latitude, longitude and accuracy) at the start and stop of each recording is saved with the recording and in the evidence log. It never leaves this device.',
+  'settings.locationPermission.title': 'Location access is not allowed',
+  'settings.locationPermission.message':
+    'In the Settings app, go to Privacy and set location access for this app to "While Using the App".',
+  'settings.language': 'Language',
+  'settings.languageHint':
+    'Evidence reports are always written in Japanese, whatever the language here',
+  'settings.languageSystem': 'Device setting',
+
+  'profile.long.label': 'Long / conversation',
+  'profile.long.description':
+    'For recording for hours, e.g. in a station office. Good enough to make out voices.',
+  'profile.standard.label': 'Standard',
+  'profile.standard.description':
+    'For everyday recording. A balance of quality and size.',
+  'profile.high.label': 'High quality',
+  'profile.high.description':
+    'To capture surrounding sound in detail. Records in stereo.',
+  'profile.lossless-alac.label': 'Lossless (ALAC)',
+  'profile.lossless-alac.description':
+    'Compresses without losing quality. Uses a lot of storage.',
+  'profile.lossless-wav.label': 'Lossless (WAV)',
+  'profile.lossless-wav.description':
+    'Uncompressed. Opens directly in most editors, but uses the most storage.',
+
+  'detail.back': '‹ Back to list',
+  'detail.segments': 'Split recording ({count} files)',
+  'detail.play': 'Play',
+  'detail.pause': 'Pause',
+  'detail.markers': 'Markers (tap to jump)',
+  'detail.titlePlaceholder': 'e.g. Yamanote Line, Shinjuku station office',
+  'detail.tags': 'Tags (comma-separated)',
+  'detail.tagsPlaceholder': 'e.g. Yamanote Line, police',
+  'detail.place': 'Place (station, line, etc.)',
+  'detail.placePlaceholder': 'e.g. Shinjuku, Yamanote Line, car 4',
+  'detail.startLocation': 'Location at start: {location}',
+  'detail.stopLocation': 'Location at stop: {location}',
+  'detail.saveDetails': 'Save title, tags and place',
+  'detail.saveFailed': 'Could not save',
+  'detail.protectedHint':
+    'When on, no auto-delete rule will delete this recording.',
+  'detail.rename': 'Rename',
+  'detail.renameFailed': 'Could not rename',
+  'detail.recordingInProgress':
+    'A recording in progress cannot be renamed or deleted.',
+  'detail.share': 'Share',
+  'detail.deleteConfirm.title': 'Delete this recording?',
+  'detail.deleteConfirm.message':
+    '{fileName}\n\nDeleted recordings cannot be recovered.',
+  'detail.deleteFailed': 'Could not delete',
+  'detail.protected': 'Keep from auto-delete',
+
+  'history.title': 'Recording history',
+  'history.empty': 'No recordings yet.',
+  'history.stat.count': 'Recordings',
+  'history.stat.total': 'Total time',
+  'history.stat.longest': 'Longest',
+  'history.stat.size': 'Storage used',
+  'history.longest': 'Longest recording: {title} ({date})',
+  'history.month': '{month}/{year}',
+  'history.monthSummary': '{count} recordings ・ {duration} ・ {size}',
+  'history.weekday.sun': 'S',
+  'history.weekday.mon': 'M',
+  'history.weekday.tue': 'T',
+  'history.weekday.wed': 'W',
+  'history.weekday.thu': 'T',
+  'history.weekday.fri': 'F',
+  'history.weekday.sat': 'S',
+
+  'retention.description':
+    'Deletes recordings that match the rules so test recordings do not get mixed in with evidence. Recordings marked "Keep from auto-delete" in Recordings and recordings linked to an incident record are never deleted by any rule.',
+  'retention.short.title': 'Short recordings',
+  'retention.short.toggle': 'Delete short recordings with nothing added',
+  'retention.short.hint':
+    'Applies to recordings with no title, tags or markers',
+  'retention.short.maxSeconds': 'Shorter than',
+  'retention.short.afterDays': 'After recording',
+  'retention.days': '{days} days',
+  'retention.storage.title': 'Storage limit',
+  'retention.storage.toggle':
+    'Delete the oldest recordings when over the limit',
+  'retention.preview': 'Recordings to be deleted (preview)',
+  'retention.total': 'Total recordings {size}',
+  'retention.freed': 'delete {count} ({size})',
+  'retention.overLimit':
+    'Recordings that are never deleted already exceed the storage limit.',
+  'retention.noCandidates': 'Nothing would be deleted right now.',
+  'retention.noRules': 'No rules are turned on.',
+  'retention.unknownLength': 'length unknown',
+  'retention.deleteNow': 'Delete now',
+  'retention.automatic.title': 'Apply automatically',
+  'retention.automatic.toggle': 'Delete automatically when the app opens',
+  'retention.automatic.hint': 'Check the preview above before turning this on',
+  'retention.automaticConfirm.title': 'Delete automatically on launch?',
+  'retention.automaticConfirm.message':
+    'Every time the app opens, recordings that match the rules will be deleted. Recordings with marks or in the evidence log are deleted only after you confirm, and nothing is deleted while protected mode is locked.\n\nCurrently matching: {count}',
+  'retention.automaticConfirm.action': 'Turn on',
+  'retention.deleteConfirm.title': 'Delete {count} recordings?',
+  'retention.deleteConfirm.message':
+    'This frees {size}.\n\nDeleted recordings cannot be recovered.',
+  'retention.deleteFailed': 'Some recordings could not be deleted',
+
+  'backup.unavailable': 'Backup is not available on this device.',
+  'backup.create.title': 'Create a backup',
+  'backup.create.description':
+    'Puts {count} recordings together with their titles, tags, markers, transcripts, incident records and the evidence log into one file and saves it where you choose. In case you lose this device, save it somewhere else (such as iCloud Drive or a computer).',
+  'backup.password': 'Password (optional, 8 characters or more)',
+  'backup.passwordPlaceholder': 'Leave blank for no password',
+  'backup.confirmationPlaceholder': 'Enter again',
+  'backup.passwordWarning':
+    'If you forget the password, the backup cannot be restored.',
+  'backup.create.action': 'Save backup',
+  'backup.saved.title': 'Backup saved',
+  'backup.saved.message': 'Saved {count} recordings to "{fileName}".',
+  'backup.saved.encryptedMessage':
+    'Saved {count} recordings to "{fileName}".\n\nThe password is needed to restore it.',
+  'backup.createFailed': 'Could not create the backup',
+  'backup.restore.title': 'Restore from a backup',
+  'backup.restore.description':
+    'The contents are checked against their list before anything is imported. Recordings already on this device are skipped.',
+  'backup.restore.passwordRequired': 'This backup is protected with a password',
+  'backup.restore.passwordPlaceholder': 'Password',
+  'backup.restore.action': 'Restore',
+  'backup.restore.pick': 'Choose a file to restore',
+  'backup.restoreFailed': 'Could not restore',
+  'backup.openFailed': 'Could not open the file',
+  'backup.report.restored': 'Imported {count} recordings.',
+  'backup.report.duplicates':
+    'Skipped {count} recordings that are already on this device.',
+  'backup.report.renamed':
+    'Imported "{from}" as "{to}" because a different recording has the same name.',
+  'backup.report.incidents': 'Added {count} incident records.',
+  'backup.report.failed': 'Recordings that could not be imported: {names}',
+  'backup.report.unverified':
+    'Recordings that do not match the evidence log: {names}',
+  'backup.report.manifestProblems':
+    'The evidence log in the backup has {count} inconsistencies.',
+
+  'incidents.new': '+ New record',
+  'incidents.empty':
+    'No records yet.\nKeep the place, the people involved and the recordings together in one record.',
+  'incidents.untitled': '(Untitled)',
+  'incidents.summary': '{recordings} recordings ・ steps {done}/{total}',
+  'incidents.notFound.title': 'Record not found',
+  'incidents.notFound.message': 'It may have been deleted.',
+
+  'incident.back': '‹ Back to list',
+  'incident.section.basics': 'Details',
+  'incident.titlePlaceholder': 'e.g. Accused on a Yamanote Line train',
+  'incident.time': 'Date and time',
+  'incident.location': 'Place (station, platform, etc.)',
+  'incident.locationPlaceholder': 'e.g. Shinjuku station office',
+  'incident.trainLine': 'Line',
+  'incident.trainLinePlaceholder': 'e.g. JR Yamanote Line',
+  'incident.carNumber': 'Car',
+  'incident.carNumberPlaceholder': 'e.g. Car 3',
+  'incident.section.officers': 'Station staff and police officers',
+  'incident.officer.name': 'Name',
+  'incident.officer.affiliation': 'Affiliation',
+  'incident.officer.affiliationPlaceholder': 'e.g. Shinjuku Police Station',
+  'incident.officer.badgeNumber': 'Badge or staff number',
+  'incident.officer.remove': 'Remove this person',
+  'incident.officer.add': '+ Add a person',
+  'incident.section.steps': 'Steps taken',
+  'incident.section.recordings': 'Recordings',
+  'incident.section.timeline': 'Timeline',
+  'incident.timelineEmpty': 'Events you add are shown here in order.',
+  'incident.recordingStarted': 'Recording started: {fileName}',
+  'incident.event': 'What happened',
+  'incident.eventPlaceholder': 'e.g. Asked to go to the station office',
+  'incident.addEvent': '+ Add to timeline',
+  'incident.notes': 'Notes',
+  'incident.invalidTime.title': 'The date and time are not valid',
+  'incident.invalidTime.message': 'e.g. 2024-03-05 08:30',
+  'incident.saveFailed': 'Could not save',
+  'incident.delete': 'Delete this record',
+  'incident.deleteConfirm.title': 'Delete this record?',
+  'incident.deleteConfirm.message': 'The recordings will not be deleted.',
+
+  'protection.title': 'Protected mode',
+  'protection.description':
+    'Encrypts recordings and transcripts on this device. You can still record while locked, but listening and sharing require unlocking. The app locks automatically when closed.',
+  'protection.unavailable': 'Protected mode is not available on this device.',
+  'protection.setup.title': 'Set a passcode',
+  'protection.setup.hint': '6 to 12 digits',
+  'protection.passcode': 'Passcode',
+  'protection.setup.biometrics': 'Also unlock with {biometry}',
+  'protection.setup.warning':
+    'If you forget the passcode, the recordings cannot be recovered.',
+  'protection.setup.action': 'Turn on and encrypt',
+  'protection.status': 'Status',
+  'protection.status.unlocked': 'Unlocked',
+  'protection.status.locked': 'Locked',
+  'protection.lockNow': 'Lock now',
+  'protection.biometrics.on': 'On',
+  'protection.biometrics.off': 'Off',
+  'protection.biometrics.hint': 'Unlock to turn this on',
+  'protection.currentPasscode': 'Current passcode',
+  'protection.newPasscode': 'New passcode',
+  'protection.newPasscodeConfirmation': 'New passcode (again)',
+  'protection.changePasscode.action': 'Change passcode',
+  'protection.disable.action':
+    'Turn off protected mode (current passcode required)',
+  'protection.disableConfirm.title': 'Turn off protected mode?',
+  'protection.disableConfirm.message':
+    'All recordings and transcripts will be decrypted and stored unencrypted again.',
+  'protection.disableConfirm.action': 'Turn off',
+  'protection.enable.done': 'Protected mode is on',
+  'protection.enable.failed': 'Could not turn on protected mode',
+  'protection.enable.message':
+    'Encrypted {count} recordings. If you forget the passcode, you will not be able to listen to them.',
+  'protection.changePasscode.done': 'Passcode changed',
+  'protection.changePasscode.failed': 'Could not change the passcode',
+  'protection.changePasscode.message': 'The passcode has been changed.',
+  'protection.disable.done': 'Protected mode is off',
+  'protection.disable.failed': 'Could not turn off protected mode',
+  'protection.biometrics.done': '{biometry} setting changed',
+  'protection.biometrics.failed': 'Could not change the {biometry} setting',
+
+  'unlock.title': 'Unlock',
+  'unlock.description':
+    'Protected mode is on. Enter your passcode to open recordings.',
+  'unlock.action': 'Unlock',
+  'unlock.withBiometrics': 'Unlock with {biometry}',
+  'unlock.biometrics': 'biometrics',
+  'unlock.biometricsReason': 'Unlock your recordings',
+
+  'transcript.title': 'Transcript (tap to jump)',
+  'transcript.working':
+    'Transcribing on this device. Long recordings take a few minutes',
+  'transcript.hint':
+    'Uses on-device speech recognition. The audio never leaves this device',
+  'transcript.action': 'Transcribe',
+  'transcript.empty': 'No speech was found.',
+  'transcript.redo': 'Redo',
+  'transcript.failed': 'Could not transcribe',
+  'transcript.format.txt': 'Text',
+  'transcript.format.srt': 'SRT',
+  'transcript.format.vtt': 'WebVTT',
+  'transcript.export.fileName': 'Recording: {fileName}',
+  'transcript.export.createdAt': 'Created: {createdAt}',
+  'transcript.export.engine': 'Engine: {engine} ({locale})',
+};
@@ -0,0 +1,16 @@
+import type {Catalog, Locale} from '../types';
+import {en} from './en';
+import {ja} from './ja';
+
+// 文言が見つからないとき・端末の言語が分からないときの言語
+export const DEFAULT_LOCALE: Locale = 'ja';
+
+export const SUPPORTED_LOCALES: Locale[] = ['ja', 'en'];
+
+// 言語の名前は表示言語にかかわらずその言語で書く
+export const LOCALE_NAMES: Record<Locale, string> = {
+  ja: '日本語',
+  en: 'English',
+};
+
+export const CATALOGS: Record<Locale, Catalog> = {ja, en};
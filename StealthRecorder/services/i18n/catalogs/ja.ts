@@ -0,0 +1,637 @@
+/**
+ * 日本語の文言。キーの一覧はこのカタログが基準になる（MessageKey）。
+ * 文言を足すときは en.ts にも同じキーを足す（足りないとテストが落ちる）。
+ */
+export const ja = {
+  'common.close': '閉じる',
+  'common.cancel': 'キャンセル',
+  'common.save': '保存',
+  'common.on': 'オン',
+  'common.off': 'オフ',
+  'common.delete': '削除',
+  'common.listSeparator': '、',
+
+  'app.iosOnly': 'iOS専用機能',
+  'app.saved.title': '録音を保存しました',
+  'app.saved.message':
+    'ファイル名: {fileName}\n\n「録音ファイル一覧」ボタンで確認できます。',
+  'app.interrupted.title': '録音が途中で止まっていました',
+  'app.interrupted.byCall': '電話などで録音が中断されました。',
+  'app.interrupted.byExit':
+    '録音中にアプリが終了したため、録音が途中で止まっています。',
+  'app.interrupted.startedAt': '開始: {time}',
+  'app.interrupted.partialFile': '途中までのファイル: {fileName}（{size}）',
+  'app.interrupted.fileMissing': 'ファイル {fileName} は残っていません。',
+  'app.interrupted.continueHint':
+    '「続きを録音」を選ぶと、同じ録音の続きとして新しいファイルに録音します。',
+  'app.interrupted.continue': '続きを録音',
+  'app.interrupted.openFile': 'ファイルを確認',
+  'app.retentionApplied.title': '自動削除のルールを適用しました',
+  'app.retentionApplied.message': '{count}件の録音（{size}）を削除しました。',
+  'app.retentionApplied.failed': '次の{count}件は削除できませんでした:',
+  'app.retentionConfirm.title': '自動削除の対象が{count}件あります',
+  'app.retentionConfirm.message':
+    'タイトル・タグ・マーカーがあるか、証拠ログに登録されている録音です。削除しますか？\n\n{titles}\n\n削除した録音は元に戻せません。',
+  'app.permissionRequired.title': 'マイク権限が必要です',
+  'app.permissionRequired.message':
+    '設定アプリでマイク権限を許可してからもう一度お試しください。',
+  'app.startFailed': '録音を開始できませんでした',
+  'app.stopFailed': '録音停止に失敗しました',
+  'app.evidenceFailed': '証拠ログの記録に失敗しました',
+  'app.storageStopped.title': '空き容量が不足したため録音を停止しました',
+  'app.storageStopped.message':
+    'ファイル名: {fileName}\n\n録音はここまで保存されています。不要なファイルを削除してから録音し直してください。',
+  'app.markerUnavailable.title': 'マーカーを付けられません',
+  'app.markerUnavailable.message': '録音中のみ追加できます。',
+  'app.invalidLink': 'このリンクは使えません',
+  'app.status.label': '現在の状態',
+  'app.status.recording': '録音中',
+  'app.status.idle': '待機中',
+  'app.stop': '録音停止',
+  'app.stopIdle': '録音は待機中',
+  'app.menu.library': '録音ファイル一覧',
+  'app.menu.incidents': '出来事の記録',
+  'app.menu.history': '録音の履歴と統計',
+  'app.menu.settings': '録音設定',
+  'app.menu.retention': '自動削除のルール',
+  'app.menu.backup': 'バックアップと復元',
+  'app.menu.protection': '保護モード（暗号化）',
+  'app.menu.protectionLocked': '保護モード（ロック中）',
+  'app.menu.protectionUnlocked': '保護モード（ロック解除中）',
+  'app.guide.title': '2タップレコーダーの使い方',
+  'app.guide.complete': 'はじめの設定は完了しています',
+  'app.guide.progress': 'はじめの設定 {done} / {total}',
+  'app.guide.description':
+    '背面タップで録音を開始・停止できるよう、ショートカットと背面タップを設定し、動作テストで確かめます。',
+  'app.guide.review': '設定の手順を見る',
+  'app.guide.continue': '続きから設定する',
+
+  'recorderError.unavailable': '録音機能はiOSデバイスでのみ利用できます。',
+  'recorderError.permission_denied':
+    '設定アプリでマイク権限を許可してからもう一度お試しください。',
+  'recorderError.start_failed': '録音を開始できませんでした。',
+  'recorderError.stop_failed': '録音を停止できませんでした。',
+  'recorderError.list_failed': '録音ファイルを読み込めませんでした。',
+  'recorderError.insufficient_storage':
+    '端末の空き容量が不足しているため録音できません。不要なファイルを削除してからもう一度お試しください。',
+  'recorderError.invalid_state': '現在の状態ではこの操作を行えません。',
+  'recorderError.unknown': '不明なエラーが発生しました。',
+
+  'deepLinkError.unsupported_scheme':
+    'twotaprecorder:// で始まるURLではありません。',
+  'deepLinkError.malformed': 'URLの形式が正しくありません。',
+  'deepLinkError.missing_action':
+    'URLに操作（start / stop など）が指定されていません。',
+  'deepLinkError.unknown_action': '「{action}」は対応していない操作です。',
+  'deepLinkError.unknown_parameter':
+    '{action} では {parameters} を指定できません。',
+  'deepLinkError.invalid_parameter': 'パラメータの値が正しくありません。',
+  'deepLinkError.invalid_parameter.duplicate':
+    '{parameter} が複数指定されています。',
+  'deepLinkError.invalid_parameter.duration':
+    'maxDuration は 1秒〜24時間で指定してください（例: 300, 15m, 2h）。',
+  'deepLinkError.invalid_parameter.file': 'file の値が正しくありません。',
+  'deepLinkError.invalid_parameter.label_length':
+    'label は{max}文字以内で指定してください。',
+
+  'libraryError.unavailable': 'ライブラリ機能はiOSデバイスでのみ利用できます。',
+  'libraryError.invalid_name': 'ファイル名に使えない文字が含まれています。',
+  'libraryError.name_taken': '同じ名前のファイルが既にあります。',
+  'libraryError.recording_in_progress': '録音中のファイルは操作できません。',
+  'libraryError.io_failed': 'ファイルの操作に失敗しました。',
+
+  'transcriptError.unavailable': '文字起こしはiOSデバイスでのみ利用できます。',
+  'transcriptError.permission_denied':
+    '音声認識が許可されていません。設定アプリで音声認識を許可してください。',
+  'transcriptError.unsupported_locale':
+    'この端末では端末内での文字起こしに対応していません。',
+  'transcriptError.not_found': '文字起こしがありません。',
+  'transcriptError.corrupted': '文字起こしのファイルを読み込めませんでした。',
+  'transcriptError.transcription_failed': '文字起こしに失敗しました。',
+  'transcriptError.io_failed': '文字起こしのファイルを保存できませんでした。',
+
+  'exportError.unavailable': '書き出しはiOSデバイスでのみ利用できます。',
+  'exportError.nothing_selected': '書き出す録音を選んでください。',
+  'exportError.read_failed': '録音ファイルを読み込めませんでした。',
+  'exportError.too_large': '端末の空き容量が足りないため書き出せませんでした。',
+  'exportError.write_failed': '書き出しファイルを作成できませんでした。',
+  'exportError.share_failed': '共有画面を表示できませんでした。',
+
+  'backupError.unavailable': 'バックアップはiOSデバイスでのみ利用できます。',
+  'backupError.nothing_to_backup': 'バックアップする録音がありません。',
+  'backupError.weak_password': 'パスワードは8文字以上で入力してください。',
+  'backupError.password_mismatch': '確認用のパスワードが一致しません。',
+  'backupError.password_required':
+    'このバックアップはパスワードで保護されています。パスワードを入力してください。',
+  'backupError.wrong_password': 'パスワードが違います。',
+  'backupError.locked':
+    'バックアップするには保護モードのロックを解除してください。',
+  'backupError.read_failed': '録音ファイルを読み込めませんでした。',
+  'backupError.too_large':
+    '端末の空き容量が足りないためバックアップを作成できませんでした。',
+  'backupError.write_failed': 'バックアップファイルを作成できませんでした。',
+  'backupError.invalid_archive':
+    'このアプリのバックアップファイルではありません。',
+  'backupError.unsupported_version':
+    'より新しいバージョンのアプリで作成されたバックアップです。アプリを更新してください。',
+  'backupError.corrupted':
+    'バックアップの中身が一覧と一致しません。ファイルが壊れている可能性があるため、何も取り込んでいません。',
+
+  'protectionError.unavailable': '保護モードはiOSデバイスでのみ利用できます。',
+  'protectionError.invalid_passcode':
+    'パスコードは数字6〜12桁で入力してください。',
+  'protectionError.passcode_mismatch': '確認用のパスコードが一致しません。',
+  'protectionError.wrong_passcode': 'パスコードが違います。',
+  'protectionError.too_many_attempts':
+    'パスコードの入力に続けて失敗したため、{seconds}秒後にもう一度お試しください。',
+  'protectionError.locked':
+    '録音を開くには保護モードのロックを解除してください。',
+  'protectionError.biometrics_failed':
+    '生体認証でロックを解除できませんでした。',
+  'protectionError.already_enabled': '保護モードは既に有効です。',
+  'protectionError.not_enabled': '保護モードが有効になっていません。',
+  'protectionError.io_failed': '保護モードの操作に失敗しました。',
+
+  'marker.defaultLabel': 'ブックマーク',
+  'marker.saveFailed': 'マーカーを保存できませんでした',
+  'marker.source.checklist': 'チェックリスト',
+  'marker.source.bookmark': 'ブックマーク',
+  'marker.source.shortcut': 'ショートカット',
+  'marker.source.phrase': 'フレーズカード',
+  'marker.export.title': '{fileName} のマーカー',
+  'bookmark.button': 'ブックマーク',
+  'bookmark.title': '{time} にブックマーク',
+  'bookmark.message': 'メモを入力できます（空欄でも保存されます）',
+
+  'onboarding.title': 'はじめの設定',
+  'onboarding.back': '‹ 戻る',
+  'onboarding.next': '次へ ›',
+  'onboarding.later': 'あとで',
+  'onboarding.done': '完了',
+  'onboarding.copied': 'コピーしました',
+  'onboarding.tapToCopy': 'タップでコピー',
+  'onboarding.shortcutsUnavailable.title': 'ショートカットアプリを開けません',
+  'onboarding.shortcutsUnavailable.message':
+    'App Storeからショートカットアプリをインストールしてください。',
+  'onboarding.settingsUnavailable.title': '設定アプリを開けません',
+  'onboarding.settingsUnavailable.message':
+    '手動で設定アプリを開いてください。',
+  'onboarding.permission.title': 'マイク権限の確認',
+  'onboarding.permission.subtitle': '録音にはマイクへのアクセスが必要です',
+  'onboarding.permission.description':
+    '録音機能を使用するため、次の画面でマイクへのアクセス許可をお願いします。',
+  'onboarding.permission.action': '続ける',
+  'onboarding.shortcuts-app.title': 'ショートカットアプリの設定',
+  'onboarding.shortcuts-app.subtitle': 'ショートカットアプリの準備',
+  'onboarding.shortcuts-app.description':
+    '※既にインストール済みの場合は次へ\n' +
+    '1. App Storeを開く\n' +
+    '2.「ショートカット」と検索\n' +
+    '3. Apple公式アプリをダウンロード（無料）',
+  'onboarding.shortcuts-app.action': 'App Storeを開く',
+  'onboarding.shortcut.title': 'ショートカットの作成',
+  'onboarding.shortcut.subtitle': '開始・停止を切り替えるショートカットを作る',
+  'onboarding.shortcut.description':
+    '1. ショートカットアプリを開く\n' +
+    '2. 右上「＋」→「アクションを追加」\n' +
+    '3.「Web」を選択 →「URLを開く」を選択\n' +
+    '4. 下のURLをコピーして貼り付け\n' +
+    '5. 名前を「録音切り替え」にして完了\n\n' +
+    '※1回目で録音開始、2回目で停止して保存します\n' +
+    '※開始と停止を分けたい場合は twotaprecorder://start と twotaprecorder://stop を別々に作成',
+  'onboarding.shortcut.action': 'ショートカットを開く',
+  'onboarding.back-tap.title': '背面タップを設定',
+  'onboarding.back-tap.subtitle': '②で作成したショートカットを割り当て',
+  'onboarding.back-tap.description':
+    '1. 設定 > アクセシビリティ > タッチ\n' +
+    '2.「背面タップ」→「ダブルタップ」\n' +
+    '3. 下にスクロールして「ショートカット」欄へ\n' +
+    '4.「録音切り替え」を選択（チェックが付けばOK）',
+  'onboarding.back-tap.action': '設定を開く',
+  'onboarding.self-test.title': '動作テスト',
+  'onboarding.self-test.subtitle': '背面タップで録音できるか確認',
+  'onboarding.self-test.description':
+    '1.「テストを開始」を押す\n' +
+    '2. ホーム画面に戻り、iPhoneの背面を2回タップ\n' +
+    '3. アプリが開き、数秒のテスト録音を保存します\n' +
+    '4. 項目ごとの結果と、うまくいかなかったときの直し方を表示します\n\n' +
+    '※テスト録音は「自動削除のルール」で削除できます',
+  'onboarding.self-test.action': 'テストを開始',
+  'onboarding.files.title': '録音ファイルの確認',
+  'onboarding.files.subtitle': '保存した音声を再生する',
+  'onboarding.files.description':
+    '1.「ファイル」アプリを開く\n' +
+    '2.「このiPhone内」→「2 Tap Recorder」\n' +
+    '3. recording-日時.m4a が録音ファイル\n' +
+    '（長時間の録音は -part01, -part02 … に分かれます）\n' +
+    '4. タップして再生できます\n\n' +
+    '※ファイル名の日時は録音開始時刻です',
+  'onboarding.files.action': 'ファイルを開く',
+
+  'selfTest.start': 'テストを開始',
+  'selfTest.retry': 'もう一度テスト',
+  'selfTest.cancel': 'テストを中止',
+  'selfTest.waiting': 'ホーム画面に戻り、iPhoneの背面を2回タップしてください。',
+  'selfTest.passed': '背面タップで録音できました。テスト録音: {fileName}',
+  'selfTest.step.permission': 'マイクの使用許可',
+  'selfTest.step.deep-link': '背面タップでアプリが開く',
+  'selfTest.step.recording': '録音の開始',
+  'selfTest.step.file': 'テスト録音の保存',
+  'selfTest.fix.permission':
+    '設定 > プライバシーとセキュリティ > マイク で「2タップレコーダー」をオンにしてから、もう一度テストしてください。',
+  'selfTest.fix.busy':
+    '録音中はテストできません。録音を停止してから、もう一度テストしてください。',
+  'selfTest.fix.timeout':
+    '背面タップでアプリが開きませんでした。設定 > アクセシビリティ > タッチ > 背面タップ >「ダブルタップ」で、ショートカット「録音切り替え」が選ばれているか確認してください。ショートカットの実行時に確認が表示された場合は「常に許可」を選んでください。',
+  'selfTest.fix.wrong-link':
+    'ショートカットの URL が twotaprecorder://{action} になっています。ショートカットアプリで「URLを開く」の URL を twotaprecorder://toggle（または twotaprecorder://start）に直してください。',
+  'selfTest.fix.missing':
+    'テスト録音のファイルが見つかりませんでした。端末の空き容量を確認して、もう一度テストしてください。',
+  'selfTest.fix.empty':
+    'テスト録音のファイルが空でした。通話中などほかのアプリがマイクを使っていないか確認して、もう一度テストしてください。',
+
+  'checklist.title': '痴漢冤罪の疑いをかけられた場合',
+  'checklist.hint': '実施した手順をタップすると録音に時刻が記録されます',
+  'checklist.no-detention.label':
+    '駅員に市民を不当拘束する権利はない点を確認する',
+  'checklist.no-detention.marker': '駅員に不当拘束の権利がないことを確認した',
+  'checklist.show-id.label':
+    '身分証明書と住所を提示した際、逮捕できない点を確認する',
+  'checklist.show-id.marker':
+    '身分証明書と住所を提示し、逮捕できない点を確認した',
+  'checklist.police-handbook.label':
+    '警察には警察手帳の提示と監視カメラの確認を求める',
+  'checklist.police-handbook.marker': '警察官に警察手帳の提示を求めた',
+  'checklist.wait-for-lawyer.label': '弁護士を呼ぶまで待機して欲しいと伝える',
+  'checklist.wait-for-lawyer.marker': '弁護士を呼ぶまで待つよう伝えた',
+  'checklist.keep-evidence.label': '駅員や相手との会話を録音するなど証拠を残す',
+  'checklist.keep-evidence.marker': '会話の録音など証拠を残した',
+
+  'phrases.open': 'フレーズカードを表示',
+  'phrases.title': 'フレーズカード',
+  'phrases.hint': '画面を相手に見せるか、読み上げてください',
+  'phrases.recordingHint': '録音中：開いたカードと時刻がマーカーに残ります',
+  'phrases.speak': '読み上げる',
+  'phrases.stop': '止める',
+  'phrases.speechFailed': '読み上げられませんでした',
+  'phrases.marker': 'フレーズカード「{title}」を表示',
+  'phrases.no-detention.title': '留める根拠を尋ねる',
+  'phrases.show-id.title': '身分証を見せて立ち去る',
+  'phrases.police-handbook.title': '警察手帳とカメラ',
+  'phrases.wait-for-lawyer.title': '弁護士を待つ',
+  'phrases.keep-evidence.title': '録音していると伝える',
+
+  'contacts.open': '弁護士・緊急連絡先',
+  'contacts.title': '弁護士・緊急連絡先',
+  'contacts.hint':
+    '端末の中だけに保存します。メッセージは SMS・メール・共有画面から送り、このアプリのサーバーは使いません。',
+  'contacts.empty':
+    'まだ連絡先がありません。弁護士や家族の連絡先を登録しておくと、すぐに電話やメッセージを送れます。',
+  'contacts.add': '＋ {kind}を追加',
+  'contacts.kind.lawyer': '弁護士',
+  'contacts.kind.duty-lawyer': '当番弁護士',
+  'contacts.kind.family': '家族・信頼できる人',
+  'contacts.dutyLawyerHint':
+    '逮捕されたときは、弁護士会の当番弁護士を無料で 1 回呼べます。お住まいの地域の弁護士会の番号を登録しておいてください。',
+  'contacts.call': '電話',
+  'contacts.message': 'メッセージ',
+  'contacts.edit': '編集',
+  'contacts.back': '‹ 一覧へ戻る',
+  'contacts.field.name': '名前',
+  'contacts.field.phone': '電話番号',
+  'contacts.field.email': 'メールアドレス',
+  'contacts.field.note': 'メモ（事務所名・受付時間など）',
+  'contacts.unreachable': '電話番号かメールアドレスを入力してください',
+  'contacts.delete': 'この連絡先を削除',
+  'contacts.deleteConfirm': '「{name}」を削除しますか？',
+  'contacts.delete.action': '削除',
+  'contacts.saveFailed': '連絡先を保存できませんでした',
+  'contacts.openFailed': '開けませんでした',
+  'contacts.composer.title': '{name}へのメッセージ',
+  'contacts.composer.location': '場所（駅名・路線など）',
+  'contacts.composer.summary': '状況',
+  'contacts.composer.fromIncident':
+    '最新の出来事の記録「{title}」から入力しました',
+  'contacts.composer.preview': '送るメッセージ',
+  'contacts.composer.sms': 'SMS で送る',
+  'contacts.composer.mail': 'メールで送る',
+  'contacts.composer.share': 'ほかのアプリで送る',
+  'contacts.message.subject': '至急：駅で対応を求められています',
+  'contacts.message.intro':
+    '駅で痴漢を疑われ、対応を求められています。至急連絡をお願いします。',
+  'contacts.message.time': '日時: {time}',
+  'contacts.message.location': '場所: {location}',
+  'contacts.message.summary': '状況: {summary}',
+  'contacts.message.recording': '現在、この状況を録音しています。',
+  'contacts.summary.train': '{line} {car}号車',
+  'contacts.summary.car': '{car}号車',
+  'contacts.summary.officers': '対応した人 {count}名',
+  'contacts.untitled': '（名前なし）',
+  'library.title': '録音ファイル一覧',
+  'library.empty':
+    '録音ファイルがありません。\n背面タップで録音を開始してみてください。',
+  'library.noMatches': '条件に合う録音がありません。',
+  'library.select': '選択して共有',
+  'library.sort.newest': '新しい順',
+  'library.sort.oldest': '古い順',
+  'library.sort.name': '名前順',
+  'library.sort.largest': 'サイズの大きい順',
+  'library.parts': '{count}ファイルに分割',
+  'library.protected': '自動削除しない',
+  'library.shareCount': '{count}件を共有',
+  'library.exportPackage': '証拠パッケージ（ZIP）',
+  'library.shareFailed': '共有できませんでした',
+  'library.exportFailed': '証拠パッケージを作成できませんでした',
+  'library.listFailed': '録音ファイルの一覧を読み込めませんでした。',
+  'library.reload': 'もう一度読み込む',
+
+  'search.placeholder': 'タイトル・場所・マーカー・出来事の記録を検索',
+  'search.field.title': 'タイトル',
+  'search.field.tag': 'タグ',
+  'search.field.place': '場所',
+  'search.field.marker': 'マーカー',
+  'search.field.incident': '出来事の記録',
+  'search.field.fileName': 'ファイル名',
+  'search.period.all': 'すべて',
+  'search.period.week': '7日以内',
+  'search.period.month': '30日以内',
+  'search.period.year': '1年以内',
+  'search.length.all': 'すべて',
+  'search.length.short': '5分未満',
+  'search.length.medium': '5〜30分',
+  'search.length.long': '30分以上',
+
+  'verification.verified': '✓ 改ざんなし',
+  'verification.mismatch': '⚠ ハッシュ不一致',
+  'verification.unregistered': '証拠ログ未登録',
+  'verification.missing': '⚠ ファイルなし',
+  'verification.chain_broken': '⚠ 証拠ログ破損',
+
+  'dashboard.part': 'パート{index}',
+  'dashboard.silent':
+    '⚠ {seconds}秒以上ほとんど音が入っていません。マイクがふさがれていないか確認してください。',
+  'dashboard.silenceWarning': '無音警告: {seconds}秒続いたら（タップで変更）',
+  'dashboard.silenceWarningOff': '無音警告: オフ（タップで変更）',
+  'dashboard.storageLow':
+    '空き容量が少なくなっています（残り{free}・あと約{remaining}録音できます）',
+  'dashboard.storageCritical':
+    '⚠ 空き容量がほとんどありません。あと約{remaining}で録音を自動停止して保存します',
+
+  'settings.title': '録音設定',
+  'settings.quality': '音質',
+  'settings.qualityHint': '次に録音を開始したときから反映されます',
+  'settings.perHour': '約{size}/時間',
+  'settings.mono': 'モノラル',
+  'settings.stereo': 'ステレオ',
+  'settings.silence': '無音警告',
+  'settings.silenceHint':
+    '録音中に音がほとんど入らない状態が続いたら知らせます',
+  'settings.seconds': '{seconds}秒',
+  'settings.segment': '自動分割',
+  'settings.segmentHint':
+    '長時間の録音を一定時間ごとに別のファイルへ分けて保存します。途中でファイルが壊れても他の部分は残ります',
+  'settings.everyMinutes': '{minutes}分ごと',
+  'settings.location': '位置の記録',
+  'settings.locationHint':
+    'オンにすると、録音の開始・停止時の位置（緯度・経度と誤差）を録音の記録と証拠ログに残します。位置は端末の外へ送信されません。',
+  'settings.locationPermission.title': '位置情報の利用が許可されていません',
+  'settings.locationPermission.message':
+    '「設定」アプリのプライバシーから、このアプリの位置情報の利用を「このAppの使用中のみ」にしてください。',
+  'settings.language': '表示言語',
+  'settings.languageHint':
+    '証拠の報告書は表示言語にかかわらず日本語で作成します',
+  'settings.languageSystem': '端末の設定に合わせる',
+
+  'profile.long.label': '長時間・会話向け',
+  'profile.long.description':
+    '駅事務室などで何時間も録音する場合に。声の聞き取りに十分な音質です。',
+  'profile.standard.label': '標準',
+  'profile.standard.description':
+    '普段の録音に。音質と容量のバランスが取れています。',
+  'profile.high.label': '高音質',
+  'profile.high.description':
+    '周囲の音も含めて細かく残したい場合に。ステレオで録音します。',
+  'profile.lossless-alac.label': 'ロスレス（ALAC）',
+  'profile.lossless-alac.description':
+    '音声を劣化させずに圧縮します。容量を多く使います。',
+  'profile.lossless-wav.label': 'ロスレス（WAV）',
+  'profile.lossless-wav.description':
+    '非圧縮で保存します。多くの編集ソフトでそのまま開けますが、容量が最も大きくなります。',
+
+  'detail.back': '‹ 一覧へ戻る',
+  'detail.segments': '分割録音（{count}ファイル）',
+  'detail.play': '再生',
+  'detail.pause': '一時停止',
+  'detail.markers': 'マーカー（タップで移動）',
+  'detail.titlePlaceholder': '例: 山手線 新宿駅 駅員室',
+  'detail.tags': 'タグ（カンマ区切り）',
+  'detail.tagsPlaceholder': '例: 山手線, 警察',
+  'detail.place': '場所（駅名・路線など）',
+  'detail.placePlaceholder': '例: 新宿駅 山手線 4号車',
+  'detail.startLocation': '開始時の位置: {location}',
+  'detail.stopLocation': '停止時の位置: {location}',
+  'detail.saveDetails': 'タイトル・タグ・場所を保存',
+  'detail.saveFailed': '保存に失敗しました',
+  'detail.protectedHint':
+    'オンにすると、自動削除のどのルールでもこの録音を削除しません。',
+  'detail.rename': '変更',
+  'detail.renameFailed': '名前を変更できませんでした',
+  'detail.recordingInProgress':
+    '録音中のファイルは名前の変更と削除ができません。',
+  'detail.share': '共有',
+  'detail.deleteConfirm.title': '録音を削除しますか？',
+  'detail.deleteConfirm.message':
+    '{fileName}\n\n削除した録音は元に戻せません。',
+  'detail.deleteFailed': '削除できませんでした',
+  'detail.protected': '自動削除しない',
+
+  'history.title': '録音の履歴',
+  'history.empty': '録音ファイルがありません。',
+  'history.stat.count': '録音',
+  'history.stat.total': '合計時間',
+  'history.stat.longest': '最長',
+  'history.stat.size': '使用容量',
+  'history.longest': '最長の録音: {title}（{date}）',
+  'history.month': '{year}年{month}月',
+  'history.monthSummary': '{count}件 ・ {duration} ・ {size}',
+  'history.weekday.sun': '日',
+  'history.weekday.mon': '月',
+  'history.weekday.tue': '火',
+  'history.weekday.wed': '水',
+  'history.weekday.thu': '木',
+  'history.weekday.fri': '金',
+  'history.weekday.sat': '土',
+
+  'retention.description':
+    '動作テストなどの録音が証拠の録音に紛れないよう、ルールに当てはまる録音を削除します。録音ファイル一覧で「自動削除しない」にした録音と、出来事の記録にリンクした録音はどのルールでも削除しません。',
+  'retention.short.title': '短い録音',
+  'retention.short.toggle': '印のない短い録音を削除する',
+  'retention.short.hint': 'タイトル・タグ・マーカーのどれもない録音が対象です',
+  'retention.short.maxSeconds': 'この長さより短い',
+  'retention.short.afterDays': '録音してから',
+  'retention.days': '{days}日後',
+  'retention.storage.title': '容量の上限',
+  'retention.storage.toggle': '上限を超えたら古い録音から削除する',
+  'retention.preview': '削除される録音（プレビュー）',
+  'retention.total': '録音の合計 {size}',
+  'retention.freed': '{count}件 {size}を削除',
+  'retention.overLimit': '削除しない録音だけで容量の上限を超えています。',
+  'retention.noCandidates': 'いま削除される録音はありません。',
+  'retention.noRules': 'ルールが有効になっていません。',
+  'retention.unknownLength': '長さ不明',
+  'retention.deleteNow': '今すぐ削除する',
+  'retention.automatic.title': '自動で適用',
+  'retention.automatic.toggle': 'アプリの起動時に自動で削除する',
+  'retention.automatic.hint':
+    '上のプレビューで対象を確かめてから有効にしてください',
+  'retention.automaticConfirm.title': '起動時に自動で削除しますか？',
+  'retention.automaticConfirm.message':
+    'アプリを開くたびに、ルールに当てはまる録音を削除します。印のある録音と証拠ログに登録された録音は削除の前に確認し、保護モードでロック中は削除しません。\n\n現在の対象: {count}件',
+  'retention.automaticConfirm.action': '有効にする',
+  'retention.deleteConfirm.title': '{count}件の録音を削除しますか？',
+  'retention.deleteConfirm.message':
+    '{size}を空けます。\n\n削除した録音は元に戻せません。',
+  'retention.deleteFailed': '一部の録音を削除できませんでした',
+
+  'backup.unavailable': 'この端末ではバックアップを使えません。',
+  'backup.create.title': 'バックアップを作成',
+  'backup.create.description':
+    '{count}件の録音と、タイトル・タグ・マーカー・文字起こし・出来事の記録・証拠ログを1つのファイルにまとめ、保存先を選んで保存します。端末をなくしたときに備えて、端末の外（iCloud Drive やパソコンなど）に保存してください。',
+  'backup.password': 'パスワード（任意・8文字以上）',
+  'backup.passwordPlaceholder': 'パスワードを付けない場合は空欄',
+  'backup.confirmationPlaceholder': 'もう一度入力',
+  'backup.passwordWarning':
+    'パスワードを忘れるとバックアップを復元できません。',
+  'backup.create.action': 'バックアップを保存',
+  'backup.saved.title': 'バックアップを保存しました',
+  'backup.saved.message': '{count}件の録音を「{fileName}」に保存しました。',
+  'backup.saved.encryptedMessage':
+    '{count}件の録音を「{fileName}」に保存しました。\n\n復元にはパスワードが必要です。',
+  'backup.createFailed': 'バックアップを作成できませんでした',
+  'backup.restore.title': 'バックアップから復元',
+  'backup.restore.description':
+    '中身が一覧と一致するか確かめてから取り込みます。端末に同じ内容の録音があるものは取り込みません。',
+  'backup.restore.passwordRequired':
+    'このバックアップはパスワードで保護されています',
+  'backup.restore.passwordPlaceholder': 'パスワード',
+  'backup.restore.action': '復元する',
+  'backup.restore.pick': 'ファイルを選んで復元',
+  'backup.restoreFailed': '復元できませんでした',
+  'backup.openFailed': 'ファイルを開けませんでした',
+  'backup.report.restored': '{count}件の録音を取り込みました。',
+  'backup.report.duplicates':
+    '{count}件は同じ内容の録音が端末にあるため取り込みませんでした。',
+  'backup.report.renamed':
+    '同じ名前の別の録音があるため「{from}」を「{to}」として取り込みました。',
+  'backup.report.incidents': '出来事の記録を{count}件追加しました。',
+  'backup.report.failed': '取り込めなかった録音: {names}',
+  'backup.report.unverified':
+    '証拠ログに記録された内容と一致しない録音: {names}',
+  'backup.report.manifestProblems':
+    'バックアップ内の証拠ログに{count}件の不整合があります。',
+
+  'incidents.new': '＋ 新しい記録を作成',
+  'incidents.empty':
+    'まだ記録がありません。\n場所や対応した人物、録音をまとめて残せます。',
+  'incidents.untitled': '（タイトルなし）',
+  'incidents.summary': '録音 {recordings}件 ・ 手順 {done}/{total}',
+  'incidents.notFound.title': '記録が見つかりません',
+  'incidents.notFound.message': '削除された可能性があります。',
+
+  'incident.back': '‹ 一覧へ戻る',
+  'incident.section.basics': '基本情報',
+  'incident.titlePlaceholder': '例: 山手線 車内での申告',
+  'incident.time': '日時',
+  'incident.location': '場所（駅・ホームなど）',
+  'incident.locationPlaceholder': '例: 新宿駅 駅員室',
+  'incident.trainLine': '路線',
+  'incident.trainLinePlaceholder': '例: JR山手線',
+  'incident.carNumber': '号車',
+  'incident.carNumberPlaceholder': '例: 3号車',
+  'incident.section.officers': '対応した駅員・警察官',
+  'incident.officer.name': '氏名',
+  'incident.officer.affiliation': '所属',
+  'incident.officer.affiliationPlaceholder': '例: 新宿警察署',
+  'incident.officer.badgeNumber': '手帳・職員番号',
+  'incident.officer.remove': 'この人物を削除',
+  'incident.officer.add': '＋ 人物を追加',
+  'incident.section.steps': '実施した手順',
+  'incident.section.recordings': '録音',
+  'incident.section.timeline': 'タイムライン',
+  'incident.timelineEmpty': '出来事を追加すると時系列で表示されます。',
+  'incident.recordingStarted': '録音開始: {fileName}',
+  'incident.event': '出来事',
+  'incident.eventPlaceholder': '例: 駅員室へ移動するよう求められた',
+  'incident.addEvent': '＋ タイムラインに追加',
+  'incident.notes': 'メモ',
+  'incident.invalidTime.title': '日時の形式が正しくありません',
+  'incident.invalidTime.message': '例: 2024-03-05 08:30',
+  'incident.saveFailed': '保存に失敗しました',
+  'incident.delete': 'この記録を削除',
+  'incident.deleteConfirm.title': 'この記録を削除しますか？',
+  'incident.deleteConfirm.message': '録音ファイルは削除されません。',
+
+  'protection.title': '保護モード',
+  'protection.description':
+    '録音と文字起こしを端末内で暗号化します。ロック中も録音はできますが、聞く・共有するにはロック解除が必要です。アプリを閉じると自動でロックされます。',
+  'protection.unavailable': 'この端末では保護モードを使えません。',
+  'protection.setup.title': 'パスコードを設定',
+  'protection.setup.hint': '数字6〜12桁',
+  'protection.passcode': 'パスコード',
+  'protection.setup.biometrics': '{biometry}でも解除する',
+  'protection.setup.warning': 'パスコードを忘れると録音を復元できません。',
+  'protection.setup.action': '有効にして暗号化する',
+  'protection.status': '状態',
+  'protection.status.unlocked': 'ロック解除中',
+  'protection.status.locked': 'ロック中',
+  'protection.lockNow': '今すぐロック',
+  'protection.biometrics.on': '使う',
+  'protection.biometrics.off': '使わない',
+  'protection.biometrics.hint': '有効にするにはロックを解除してください',
+  'protection.currentPasscode': '現在のパスコード',
+  'protection.newPasscode': '新しいパスコード',
+  'protection.newPasscodeConfirmation': '新しいパスコード（確認）',
+  'protection.changePasscode.action': 'パスコードを変更',
+  'protection.disable.action': '保護モードを解除（現在のパスコードが必要）',
+  'protection.disableConfirm.title': '保護モードを解除しますか？',
+  'protection.disableConfirm.message':
+    'すべての録音と文字起こしを復号して、暗号化されていない状態に戻します。',
+  'protection.disableConfirm.action': '解除する',
+  'protection.enable.done': '保護モードを有効にしました',
+  'protection.enable.failed': '保護モードを有効にできませんでした',
+  'protection.enable.message':
+    '{count}件の録音を暗号化しました。パスコードを忘れると録音を聞けなくなります。',
+  'protection.changePasscode.done': 'パスコードを変更しました',
+  'protection.changePasscode.failed': 'パスコードを変更できませんでした',
+  'protection.changePasscode.message': 'パスコードを変更しました。',
+  'protection.disable.done': '保護モードを解除しました',
+  'protection.disable.failed': '保護モードを解除できませんでした',
+  'protection.biometrics.done': '{biometry}の設定を変更しました',
+  'protection.biometrics.failed': '{biometry}の設定を変更できませんでした',
+
+  'unlock.title': 'ロックを解除',
+  'unlock.description':
+    '保護モードが有効です。録音を開くにはパスコードを入力してください。',
+  'unlock.action': 'ロック解除',
+  'unlock.withBiometrics': '{biometry}で解除',
+  'unlock.biometrics': '生体認証',
+  'unlock.biometricsReason': '録音ファイルのロックを解除します',
+
+  'transcript.title': '文字起こし（タップで移動）',
+  'transcript.working':
+    '端末内で文字起こししています。長い録音は数分かかります',
+  'transcript.hint':
+    '端末内の音声認識で文字に起こします。音声は端末の外へ送信されません',
+  'transcript.action': '文字起こしする',
+  'transcript.empty': '発話が見つかりませんでした。',
+  'transcript.redo': '作り直す',
+  'transcript.failed': '文字起こしできませんでした',
+  'transcript.format.txt': 'テキスト',
+  'transcript.format.srt': 'SRT',
+  'transcript.format.vtt': 'WebVTT',
+  'transcript.export.fileName': '録音ファイル: {fileName}',
+  'transcript.export.createdAt': '作成日時: {createdAt}',
+  'transcript.export.engine': 'エンジン: {engine}（{locale}）',
+};
+
+export type MessageKey = keyof typeof ja;
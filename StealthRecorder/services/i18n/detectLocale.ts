@@ -0,0 +1,24 @@
+import {NativeModules} from 'react-native';
+import {DEFAULT_LOCALE} from './catalogs';
+import type {Locale} from './types';
+
+// ja-JP・ja_JP・ja-Hira-JP などは日本語、それ以外は英語
+export const resolveLocale = (tag: string | null | undefined): Locale => {
+  if (!tag) {
+    return DEFAULT_LOCALE;
+  }
+  return tag.toLowerCase().startsWith('ja') ? 'ja' : 'en';
+};
+
+/**
+ * 端末の言語設定。iOS では SettingsManager（設定アプリの「言語と地域」）、
+ * 取得できなければ Intl の既定ロケールを使う。
+ */
+export const detectDeviceLocale = (): Locale => {
+  const settings = NativeModules.SettingsManager?.settings;
+  const tag: string | undefined =
+    settings?.AppleLanguages?.[0] ??
+    settings?.AppleLocale ??
+    Intl.DateTimeFormat().resolvedOptions().locale;
+  return resolveLocale(tag);
+};
@@ -0,0 +1,44 @@
+import type {BackupError} from '../backup/errors';
+import type {DeepLinkError} from '../deepLinks/errors';
+import type {ExportError} from '../export/errors';
+import type {LibraryError} from '../library/errors';
+import type {ProtectionError} from '../protection/errors';
+import type {RecorderError} from '../recorder/errors';
+import type {TranscriptError} from '../transcripts/errors';
+import type {Translate} from './types';
+
+// エラーの message（ネイティブの reject メッセージなど）は表示せず、コードから表示言語の文言を作る
+
+export const recorderErrorMessage = (
+  t: Translate,
+  error: RecorderError,
+): string => t(`recorderError.${error.code}`);
+
+export const deepLinkErrorMessage = (
+  t: Translate,
+  {code, params, reason}: DeepLinkError,
+): string =>
+  code === 'invalid_parameter' && reason
+    ? t(`deepLinkError.invalid_parameter.${reason}`, params)
+    : t(`deepLinkError.${code}`, params);
+
+export const libraryErrorMessage = (
+  t: Translate,
+  error: LibraryError,
+): string => t(`libraryError.${error.code}`);
+
+export const transcriptErrorMessage = (
+  t: Translate,
+  error: TranscriptError,
+): string => t(`transcriptError.${error.code}`);
+
+export const exportErrorMessage = (t: Translate, error: ExportError): string =>
+  t(`exportError.${error.code}`);
+
+export const backupErrorMessage = (t: Translate, error: BackupError): string =>
+  t(`backupError.${error.code}`);
+
+export const protectionErrorMessage = (
+  t: Translate,
+  error: ProtectionError,
+): string => t(`protectionError.${error.code}`, error.params);
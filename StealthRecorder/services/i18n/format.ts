@@ -0,0 +1,41 @@
+import type {Locale} from './types';
+
+// Intl に渡すロケール（日付の並びと午前・午後の表記が変わる）
+const INTL_LOCALES: Record<Locale, string> = {
+  ja: 'ja-JP',
+  en: 'en-US',
+};
+
+const toDate = (value: string | Date): Date | null => {
+  const date = typeof value === 'string' ? new Date(value) : value;
+  return Number.isNaN(date.getTime()) ? null : date;
+};
+
+const DATE_OPTIONS: Intl.DateTimeFormatOptions = {
+  year: 'numeric',
+  month: 'short',
+  day: 'numeric',
+};
+
+// 2024年3月5日 8:30 / Mar 5, 2024, 8:30 AM
+export const formatDateTime = (value: string | Date, locale: Locale): string =>
+  toDate(value)?.toLocaleString(INTL_LOCALES[locale], {
+    ...DATE_OPTIONS,
+    hour: 'numeric',
+    minute: '2-digit',
+  }) ?? '';
+
+// 2024年3月5日 / Mar 5, 2024
+export const formatDate = (value: string | Date, locale: Locale): string =>
+  toDate(value)?.toLocaleDateString(INTL_LOCALES[locale], DATE_OPTIONS) ?? '';
+
+// 1,234.5 MB のように桁区切りを付ける
+export const formatFileSize = (bytes: number, locale: Locale): string => {
+  const number = new Intl.NumberFormat(INTL_LOCALES[locale], {
+    maximumFractionDigits: 1,
+    minimumFractionDigits: bytes >= 1024 * 1024 ? 1 : 0,
+  });
+  return bytes >= 1024 * 1024
+    ? `${number.format(bytes / (1024 * 1024))} MB`
+    : `${number.format(Math.round(bytes / 1024))} KB`;
+};
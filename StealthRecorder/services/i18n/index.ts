@@ -0,0 +1,35 @@
+export {
+  CATALOGS,
+  DEFAULT_LOCALE,
+  LOCALE_NAMES,
+  SUPPORTED_LOCALES,
+} from './catalogs';
+export {detectDeviceLocale, resolveLocale} from './detectLocale';
+export {
+  backupErrorMessage,
+  deepLinkErrorMessage,
+  exportErrorMessage,
+  libraryErrorMessage,
+  protectionErrorMessage,
+  recorderErrorMessage,
+  transcriptErrorMessage,
+} from './errorMessages';
+export {formatDate, formatDateTime, formatFileSize} from './format';
+export {I18n} from './I18n';
+export {I18nProvider, getDefaultI18n, useI18n} from './I18nContext';
+export {
+  LOCALE_PREFERENCES,
+  loadLocalePreference,
+  saveLocalePreference,
+} from './localeSettings';
+export {placeholdersOf, translate} from './translate';
+export type {
+  Catalog,
+  I18nListener,
+  I18nSnapshot,
+  Locale,
+  LocalePreference,
+  MessageKey,
+  MessageParams,
+  Translate,
+} from './types';
@@ -0,0 +1,19 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import type {LocalePreference} from './types';
+
+const STORAGE_KEY = 'twotaprecorder:locale';
+
+export const LOCALE_PREFERENCES: LocalePreference[] = ['system', 'ja', 'en'];
+
+export const loadLocalePreference = async (): Promise<LocalePreference> => {
+  const value = await AsyncStorage.getItem(STORAGE_KEY);
+  return (
+    LOCALE_PREFERENCES.find(preference => preference === value) ?? 'system'
+  );
+};
+
+export const saveLocalePreference = async (
+  preference: LocalePreference,
+): Promise<void> => {
+  await AsyncStorage.setItem(STORAGE_KEY, preference);
+};
@@ -0,0 +1,24 @@
+import {CATALOGS, DEFAULT_LOCALE} from './catalogs';
+import type {Locale, MessageKey, MessageParams} from './types';
+
+const PLACEHOLDER = /\{(\w+)\}/g;
+
+/**
+ * カタログから文言を取り出し、{name} を params の値に置き換える。
+ * 見つからなければ日本語、それもなければキーをそのまま返す。
+ */
+export const translate = (
+  locale: Locale,
+  key: MessageKey,
+  params: MessageParams = {},
+): string => {
+  const template =
+    CATALOGS[locale][key] ?? CATALOGS[DEFAULT_LOCALE][key] ?? key;
+  return template.replace(PLACEHOLDER, (match, name: string) =>
+    name in params ? String(params[name]) : match,
+  );
+};
+
+// 文言に含まれる {name} の一覧（カタログどうしの食い違いを調べるのに使う）
+export const placeholdersOf = (template: string): string[] =>
+  Array.from(template.matchAll(PLACEHOLDER), ([, name]) => name).sort();
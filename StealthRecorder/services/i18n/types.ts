@@ -0,0 +1,22 @@
+import type {MessageKey} from './catalogs/ja';
+
+export type {MessageKey};
+
+export type Locale = 'ja' | 'en';
+
+// system は端末の言語設定に合わせる
+export type LocalePreference = Locale | 'system';
+
+export type MessageParams = Record<string, string | number>;
+
+export type Catalog = Record<MessageKey, string>;
+
+export type Translate = (key: MessageKey, params?: MessageParams) => string;
+
+export type I18nSnapshot = {
+  preference: LocalePreference;
+  // preference と端末の言語設定から決めた表示言語
+  locale: Locale;
+};
+
+export type I18nListener = (snapshot: I18nSnapshot) => void;
@@ -0,0 +1,109 @@
+import {createId} from '../../utils/id';
+import {
+  readProtectedItem,
+  writeProtectedItem,
+} from '../protection/protectedStorage';
+import type {ProtectedStore} from '../protection/types';
+import type {Incident} from './types';
+
+const STORAGE_KEY = 'twotaprecorder:incidents';
+
+// 出来事の記録はロック解除中にだけ書くので、追記した部分はない
+export const INCIDENT_STORE: ProtectedStore = {
+  prefix: STORAGE_KEY,
+  merge: ([value]) => value,
+};
+
+export const createIncident = (
+  now: Date = new Date(),
+  recordingNames: string[] = [],
+): Incident => ({
+  id: createId(),
+  title: '',
+  occurredAt: now.toISOString(),
+  location: '',
+  trainLine: '',
+  carNumber: '',
+  officers: [],
+  completedSteps: [],
+  recordingNames,
+  timeline: [],
+  notes: '',
+  createdAt: now.toISOString(),
+  updatedAt: now.toISOString(),
+});
+
+export const loadIncidents = async (): Promise<Incident[]> => {
+  const value = await readProtectedItem(STORAGE_KEY, INCIDENT_STORE.merge);
+  if (!value) {
+    return [];
+  }
+  try {
+    const incidents = JSON.parse(value) as Incident[];
+    return incidents.sort((a, b) => b.occurredAt.localeCompare(a.occurredAt));
+  } catch {
+    return [];
+  }
+};
+
+const writeIncidents = (incidents: Incident[]) =>
+  writeProtectedItem(STORAGE_KEY, JSON.stringify(incidents));
+
+export const saveIncident = async (
+  incident: Incident,
+  now: Date = new Date(),
+): Promise<Incident> => {
+  const saved = {...incident, updatedAt: now.toISOString()};
+  const incidents = await loadIncidents();
+  const index = incidents.findIndex(item => item.id === incident.id);
+  if (index >= 0) {
+    incidents[index] = saved;
+  } else {
+    incidents.push(saved);
+  }
+  await writeIncidents(incidents);
+  return saved;
+};
+
+export const deleteIncident = async (id: string): Promise<void> => {
+  const incidents = await loadIncidents();
+  await writeIncidents(incidents.filter(item => item.id !== id));
+};
+
+/**
+ * バックアップから復元した出来事の記録を加える。
+ * 同じ id の記録が端末にあれば端末側を残す。加えた件数を返す。
+ */
+export const importIncidents = async (
+  incoming: Incident[],
+): Promise<number> => {
+  const incidents = await loadIncidents();
+  const known = new Set(incidents.map(item => item.id));
+  const added = incoming.filter(item => !known.has(item.id));
+  if (added.length > 0) {
+    await writeIncidents([...incidents, ...added]);
+  }
+  return added.length;
+};
+
+// ライブラリでの名前変更・削除に合わせてリンクを更新する
+export const updateRecordingLinks = async (
+  from: string,
+  to: string | null,
+): Promise<void> => {
+  const incidents = await loadIncidents();
+  let changed = false;
+  const updated = incidents.map(incident => {
+    if (!incident.recordingNames.includes(from)) {
+      return incident;
+    }
+    changed = true;
+    const recordingNames = incident.recordingNames
+      .map(name => (name === from ? to : name))
+      .filter((name): name is string => name !== null);
+    return {...incident, recordingNames};
+  });
+  if (changed) {
+    await writeIncidents(updated);
+  }
+};
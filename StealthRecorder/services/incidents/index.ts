@@ -0,0 +1,10 @@
+export {
+  createIncident,
+  deleteIncident,
+  importIncidents,
+  loadIncidents,
+  saveIncident,
+  updateRecordingLinks,
+} from './incidentStore';
+export {buildTimeline} from './timeline';
+export type {Incident, Officer, TimelineEvent, TimelineItem} from './types';
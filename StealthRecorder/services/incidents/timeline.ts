@@ -0,0 +1,29 @@
+import {parseRecordingFileName} from '../recorder/fileNames';
+import type {RecordingFile} from '../recorder/types';
+import type {Incident, TimelineItem} from './types';
+
+/**
+ * 手入力の出来事とリンクされた録音の開始時刻を時系列に並べる。
+ * 録音の時刻はファイル名から、取れなければファイルの作成日時を使う。
+ */
+export const buildTimeline = (
+  incident: Incident,
+  files: RecordingFile[],
+): TimelineItem[] => {
+  const recordings: TimelineItem[] = incident.recordingNames.map(fileName => {
+    const started = parseRecordingFileName(fileName);
+    const file = files.find(item => item.name === fileName);
+    const time = started
+      ? started.toISOString()
+      : file?.date || incident.occurredAt;
+    return {kind: 'recording', time, fileName};
+  });
+  const events: TimelineItem[] = incident.timeline.map(event => ({
+    kind: 'event',
+    time: event.time,
+    event,
+  }));
+  return [...events, ...recordings].sort(
+    (a, b) => new Date(a.time).getTime() - new Date(b.time).getTime(),
+  );
+};
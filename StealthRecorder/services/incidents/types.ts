@@ -0,0 +1,36 @@
+import type {SafetyStepId} from '../../data/safetyChecklist';
+
+export type Officer = {
+  id: string;
+  name: string;
+  badgeNumber: string;
+  // 駅員・警察官など
+  affiliation: string;
+};
+
+export type TimelineEvent = {
+  id: string;
+  time: string;
+  description: string;
+};
+
+export type Incident = {
+  id: string;
+  title: string;
+  occurredAt: string;
+  location: string;
+  trainLine: string;
+  carNumber: string;
+  officers: Officer[];
+  completedSteps: SafetyStepId[];
+  recordingNames: string[];
+  timeline: TimelineEvent[];
+  notes: string;
+  createdAt: string;
+  updatedAt: string;
+};
+
+// タイムライン表示用。録音はリンクされたファイルから自動で並べる
+export type TimelineItem =
+  | {kind: 'event'; time: string; event: TimelineEvent}
+  | {kind: 'recording'; time: string; fileName: string};
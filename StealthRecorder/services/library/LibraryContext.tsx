@@ -0,0 +1,32 @@
+import React, {createContext, useContext} from 'react';
+import {useEvidenceManifest} from '../evidence/EvidenceContext';
+import {RecordingLibrary} from './RecordingLibrary';
+import {getNativeLibraryBackend} from './nativeLibrary';
+
+let defaultLibrary: RecordingLibrary | null = null;
+
+const LibraryContext = createContext<RecordingLibrary | null>(null);
+
+type LibraryProviderProps = {
+  library: RecordingLibrary;
+  children: React.ReactNode;
+};
+
+export const LibraryProvider = ({
+  library,
+  children,
+}: LibraryProviderProps): React.JSX.Element => (
+  <LibraryContext.Provider value={library}>{children}</LibraryContext.Provider>
+);
+
+export const useRecordingLibrary = (): RecordingLibrary => {
+  const provided = useContext(LibraryContext);
+  const evidence = useEvidenceManifest();
+  if (provided) {
+    return provided;
+  }
+  if (!defaultLibrary) {
+    defaultLibrary = new RecordingLibrary(getNativeLibraryBackend(), evidence);
+  }
+  return defaultLibrary;
+};
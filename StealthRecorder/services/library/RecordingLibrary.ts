@@ -0,0 +1,195 @@
+import type {EvidenceManifest} from '../evidence/EvidenceManifest';
+import type {VerificationStatus} from '../evidence/types';
+import type {Translate} from '../i18n/types';
+import {updateRecordingLinks} from '../incidents/incidentStore';
+import {formatMarkersText, markersFileName} from '../markers/exportMarkers';
+import {loadMarkers, moveMarkers, removeMarkers} from '../markers/markerStore';
+import type {RecordingFile} from '../recorder/types';
+import {transcriptFileName} from '../transcripts/transcriptFile';
+import {LibraryError, toLibraryError} from './errors';
+import {
+  loadMetadata,
+  moveMetadata,
+  removeMetadata,
+  saveMetadata,
+} from './metadataStore';
+import type {
+  LibraryBackend,
+  LibraryItem,
+  PlaybackStatus,
+  RecordingMetadata,
+} from './types';
+
+const INVALID_NAME_CHARACTERS = /[/\\:*?"<>|]/;
+
+const extensionOf = (fileName: string) => {
+  const dot = fileName.lastIndexOf('.');
+  return dot > 0 ? fileName.slice(dot) : '';
+};
+
+/**
+ * 入力された名前を元ファイルと同じ拡張子のファイル名にする。
+ * 使えない名前の場合は LibraryError('invalid_name')。
+ */
+export const normalizeFileName = (input: string, original: string): string => {
+  const extension = extensionOf(original);
+  let base = input.trim();
+  if (extension && base.toLowerCase().endsWith(extension.toLowerCase())) {
+    base = base.slice(0, -extension.length).trim();
+  }
+  if (!base || base.startsWith('.') || INVALID_NAME_CHARACTERS.test(base)) {
+    throw new LibraryError('invalid_name');
+  }
+  return `${base}${extension}`;
+};
+
+export class RecordingLibrary {
+  private readonly backend: LibraryBackend | null;
+  private readonly evidence: EvidenceManifest;
+
+  constructor(backend: LibraryBackend | null, evidence: EvidenceManifest) {
+    this.backend = backend;
+    this.evidence = evidence;
+  }
+
+  get isAvailable(): boolean {
+    return this.backend !== null;
+  }
+
+  async loadItems(
+    files: RecordingFile[],
+    verification: Record<string, VerificationStatus> = {},
+  ): Promise<LibraryItem[]> {
+    const metadata = await loadMetadata(files.map(file => file.name));
+    return files.map(file => ({
+      ...file,
+      metadata: metadata[file.name],
+      verification: verification[file.name],
+    }));
+  }
+
+  updateMetadata(fileName: string, metadata: RecordingMetadata) {
+    return saveMetadata(fileName, metadata);
+  }
+
+  async rename(
+    fileName: string,
+    input: string,
+    existing: string[],
+  ): Promise<string> {
+    const backend = this.requireBackend();
+    const next = normalizeFileName(input, fileName);
+    if (next === fileName) {
+      return fileName;
+    }
+    if (existing.includes(next)) {
+      throw new LibraryError('name_taken');
+    }
+    try {
+      await backend.renameFile(fileName, next);
+    } catch (error) {
+      throw toLibraryError(error);
+    }
+    await moveMetadata(fileName, next);
+    await moveMarkers(fileName, next);
+    // 文字起こしは録音の隣のファイルなので一緒に名前を変える（なければ何もしない）
+    await backend
+      .renameFile(transcriptFileName(fileName), transcriptFileName(next))
+      .catch(() => undefined);
+    await updateRecordingLinks(fileName, next);
+    await this.evidence.recordRename(fileName, next);
+    return next;
+  }
+
+  // 証拠ログは追記専用のため、削除してもログの行は残る
+  async remove(fileName: string): Promise<void> {
+    const backend = this.requireBackend();
+    try {
+      await backend.deleteFile(fileName);
+    } catch (error) {
+      throw toLibraryError(error);
+    }
+    await removeMetadata(fileName);
+    await removeMarkers(fileName);
+    await backend
+      .deleteFile(transcriptFileName(fileName))
+      .catch(() => undefined);
+    await updateRecordingLinks(fileName, null);
+  }
+
+  // マーカーがある録音はマーカー一覧のテキスト（t の言語）も一緒に共有する
+  async share(fileNames: string[], t: Translate): Promise<boolean> {
+    const backend = this.requireBackend();
+    try {
+      const extraPaths: string[] = [];
+      for (const fileName of fileNames) {
+        const markers = await loadMarkers(fileName);
+        if (markers.length > 0) {
+          extraPaths.push(
+            await backend.writeExportFile(
+              markersFileName(fileName),
+              formatMarkersText(t, fileName, markers),
+              'utf8',
+            ),
+          );
+        }
+      }
+      return await backend.shareFiles(fileNames, extraPaths);
+    } catch (error) {
+      throw toLibraryError(error);
+    }
+  }
+
+  play(fileName: string): Promise<number> {
+    return this.requireBackend().startPlayback(fileName);
+  }
+
+  pause(): Promise<void> {
+    return this.requireBackend().pausePlayback();
+  }
+
+  seek(seconds: number): Promise<void> {
+    return this.requireBackend().seekPlayback(seconds);
+  }
+
+  stopPlayback(): Promise<void> {
+    return this.backend ? this.backend.stopPlayback() : Promise.resolve();
+  }
+
+  playbackStatus(): Promise<PlaybackStatus> {
+    return this.requireBackend().getPlaybackStatus();
+  }
+
+  duration(fileName: string): Promise<number> {
+    return this.requireBackend().getAudioDuration(fileName);
+  }
+
+  /**
+   * ファイルごとの長さ（秒）をまとめて読む。読めなかったファイルは含めない。
+   */
+  async loadDurations(fileNames: string[]): Promise<Record<string, number>> {
+    const backend = this.requireBackend();
+    const durations: Record<string, number> = {};
+    for (const fileName of fileNames) {
+      try {
+        durations[fileName] = await backend.getAudioDuration(fileName);
+      } catch {
+        // 壊れたファイルなどは統計から外す
+      }
+    }
+    return durations;
+  }
+
+  // 証拠ログに登録されている録音のファイル名（名前を変える前の名前も含む）
+  async loadRegisteredNames(): Promise<string[]> {
+    const {entries} = await this.evidence.load();
+    return [...new Set(entries.map(entry => entry.fileName))];
+  }
+
+  private requireBackend(): LibraryBackend {
+    if (!this.backend) {
+      throw new LibraryError('unavailable');
+    }
+    return this.backend;
+  }
+}
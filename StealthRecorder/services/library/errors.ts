@@ -0,0 +1,37 @@
+import type {LibraryErrorCode} from './types';
+
+// ログ向けの既定の文言。画面にはカタログ（libraryError.*）の文言を出す
+const DEFAULT_MESSAGES: Record<LibraryErrorCode, string> = {
+  unavailable: 'ライブラリ機能はiOSデバイスでのみ利用できます。',
+  invalid_name: 'ファイル名に使えない文字が含まれています。',
+  name_taken: '同じ名前のファイルが既にあります。',
+  recording_in_progress: '録音中のファイルは操作できません。',
+  io_failed: 'ファイルの操作に失敗しました。',
+};
+
+// ネイティブの reject コードとの対応
+const NATIVE_CODES: Record<string, LibraryErrorCode> = {
+  name_taken: 'name_taken',
+  recording_in_progress: 'recording_in_progress',
+};
+
+export class LibraryError extends Error {
+  readonly code: LibraryErrorCode;
+
+  constructor(code: LibraryErrorCode, message?: string) {
+    super(message || DEFAULT_MESSAGES[code]);
+    this.name = 'LibraryError';
+    this.code = code;
+  }
+}
+
+export const toLibraryError = (error: unknown): LibraryError => {
+  if (error instanceof LibraryError) {
+    return error;
+  }
+  const nativeCode = (error as {code?: unknown} | null)?.code;
+  if (typeof nativeCode === 'string' && NATIVE_CODES[nativeCode]) {
+    return new LibraryError(NATIVE_CODES[nativeCode]);
+  }
+  return new LibraryError('io_failed');
+};
@@ -0,0 +1,82 @@
+import type {LibraryBackend, PlaybackStatus} from './types';
+
+/**
+ * Jest 用のライブラリバックエンド。
+ * ファイル一覧は FakeRecorderBackend と共有できるよう外から渡す。
+ */
+export class FakeLibraryBackend implements LibraryBackend {
+  readonly files: Set<string>;
+  shared: string[][] = [];
+  readonly exports = new Map<string, string>();
+  private status: PlaybackStatus = {
+    fileName: null,
+    isPlaying: false,
+    position: 0,
+    duration: 0,
+  };
+  private readonly duration: number;
+
+  constructor(files: string[] = [], duration = 60) {
+    this.files = new Set(files);
+    this.duration = duration;
+  }
+
+  renameFile = async (from: string, to: string): Promise<void> => {
+    if (!this.files.has(from)) {
+      throw new Error(`file_not_found: ${from}`);
+    }
+    if (this.files.has(to)) {
+      throw Object.assign(new Error('exists'), {code: 'name_taken'});
+    }
+    this.files.delete(from);
+    this.files.add(to);
+  };
+
+  deleteFile = async (name: string): Promise<void> => {
+    this.files.delete(name);
+  };
+
+  shareFiles = async (
+    names: string[],
+    extraPaths: string[],
+  ): Promise<boolean> => {
+    this.shared.push([...names, ...extraPaths]);
+    return true;
+  };
+
+  writeExportFile = async (name: string, contents: string): Promise<string> => {
+    const path = `/fake/tmp/exports/${name}`;
+    this.exports.set(path, contents);
+    return path;
+  };
+
+  startPlayback = async (name: string): Promise<number> => {
+    const position = this.status.fileName === name ? this.status.position : 0;
+    this.status = {
+      fileName: name,
+      isPlaying: true,
+      position,
+      duration: this.duration,
+    };
+    return this.duration;
+  };
+
+  pausePlayback = async (): Promise<void> => {
+    this.status = {...this.status, isPlaying: false};
+  };
+
+  seekPlayback = async (seconds: number): Promise<void> => {
+    this.status = {
+      ...this.status,
+      position: Math.max(0, Math.min(seconds, this.status.duration)),
+    };
+  };
+
+  stopPlayback = async (): Promise<void> => {
+    this.status = {fileName: null, isPlaying: false, position: 0, duration: 0};
+  };
+
+  getPlaybackStatus = async (): Promise<PlaybackStatus> => this.status;
+
+  getAudioDuration = async (): Promise<number> => this.duration;
+}
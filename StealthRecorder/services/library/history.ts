@@ -0,0 +1,129 @@
+import {parseRecordingFileName} from '../recorder/fileNames';
+import {groupRecordingSegments} from '../recorder/segments';
+import type {LibraryItem} from './types';
+
+// 1 回の録音（分割録音はパートをまとめて 1 件）
+export type HistoryRecording = {
+  key: string;
+  title: string;
+  // 最初のパートのファイル名（一覧で開くときに使う）
+  fileName: string;
+  fileCount: number;
+  startedAt: Date;
+  durationSeconds: number;
+  size: number;
+};
+
+export type HistoryMonth = {
+  // 2024-03 形式
+  key: string;
+  year: number;
+  // 1 〜 12
+  month: number;
+  totalSeconds: number;
+  totalBytes: number;
+  // 新しい順
+  recordings: HistoryRecording[];
+};
+
+export type RecordingHistory = {
+  count: number;
+  totalSeconds: number;
+  totalBytes: number;
+  longest: HistoryRecording | null;
+  // 新しい月から順
+  months: HistoryMonth[];
+};
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+// ファイル名の日時（録音開始）を優先し、読めなければ作成日時を使う
+const startedAtOf = (item: LibraryItem): Date =>
+  parseRecordingFileName(item.name) ?? new Date(item.date);
+
+/**
+ * 録音ファイル一覧（ライブラリと同じもの）から履歴と統計を作る。
+ * durations はファイルごとの長さ（秒）。読めなかったファイルは 0 秒として数える。
+ */
+export const buildRecordingHistory = (
+  items: LibraryItem[],
+  durations: Record<string, number>,
+): RecordingHistory => {
+  const recordings = groupRecordingSegments(items)
+    .map(({key, files}): HistoryRecording => {
+      const [first] = files;
+      return {
+        key,
+        title: first.metadata.title || first.name,
+        fileName: first.name,
+        fileCount: files.length,
+        startedAt: startedAtOf(first),
+        durationSeconds: files.reduce(
+          (total, file) => total + (durations[file.name] ?? 0),
+          0,
+        ),
+        size: files.reduce((total, file) => total + file.size, 0),
+      };
+    })
+    .sort((a, b) => b.startedAt.getTime() - a.startedAt.getTime());
+
+  const months: HistoryMonth[] = [];
+  recordings.forEach(recording => {
+    const year = recording.startedAt.getFullYear();
+    const month = recording.startedAt.getMonth() + 1;
+    const key = `${year}-${pad(month)}`;
+    let current = months[months.length - 1];
+    if (!current || current.key !== key) {
+      current = {
+        key,
+        year,
+        month,
+        totalSeconds: 0,
+        totalBytes: 0,
+        recordings: [],
+      };
+      months.push(current);
+    }
+    current.totalSeconds += recording.durationSeconds;
+    current.totalBytes += recording.size;
+    current.recordings.push(recording);
+  });
+
+  return {
+    count: recordings.length,
+    totalSeconds: months.reduce(
+      (total, month) => total + month.totalSeconds,
+      0,
+    ),
+    totalBytes: months.reduce((total, month) => total + month.totalBytes, 0),
+    longest: recordings.reduce<HistoryRecording | null>(
+      (longest, recording) =>
+        !longest || recording.durationSeconds > longest.durationSeconds
+          ? recording
+          : longest,
+      null,
+    ),
+    months,
+  };
+};
+
+/**
+ * 月のカレンダー（日曜始まり）。前月の分は null で埋め、週ごとに 7 日ずつ並べる。
+ */
+export const calendarWeeks = (
+  year: number,
+  month: number,
+): (number | null)[][] => {
+  const leading = new Date(year, month - 1, 1).getDay();
+  const days = new Date(year, month, 0).getDate();
+  const cells: (number | null)[] = [
+    ...Array.from({length: leading}, () => null),
+    ...Array.from({length: days}, (_, i) => i + 1),
+  ];
+  const weeks: (number | null)[][] = [];
+  for (let i = 0; i < cells.length; i += 7) {
+    const week = cells.slice(i, i + 7);
+    weeks.push([...week, ...Array.from({length: 7 - week.length}, () => null)]);
+  }
+  return weeks;
+};
@@ -0,0 +1,22 @@
+export {RecordingLibrary, normalizeFileName} from './RecordingLibrary';
+export {LibraryProvider, useRecordingLibrary} from './LibraryContext';
+export {LibraryError, toLibraryError} from './errors';
+export {FakeLibraryBackend} from './fakeLibrary';
+export {getNativeLibraryBackend} from './nativeLibrary';
+export {
+  EMPTY_METADATA,
+  loadMetadata,
+  parseTags,
+  patchMetadata,
+  saveMetadata,
+} from './metadataStore';
+export {buildRecordingHistory, calendarWeeks} from './history';
+export {usePlayback} from './usePlayback';
+export type {HistoryMonth, HistoryRecording, RecordingHistory} from './history';
+export type {
+  LibraryBackend,
+  LibraryErrorCode,
+  LibraryItem,
+  PlaybackStatus,
+  RecordingMetadata,
+} from './types';
@@ -0,0 +1,110 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  appendProtectedItem,
+  readProtectedItems,
+  writeProtectedItem,
+} from '../protection/protectedStorage';
+import type {ProtectedStore} from '../protection/types';
+import type {RecordingMetadata} from './types';
+
+const KEY_PREFIX = 'twotaprecorder:recording:';
+
+export const EMPTY_METADATA: RecordingMetadata = {title: '', tags: []};
+
+const keyFor = (fileName: string) => `${KEY_PREFIX}${fileName}`;
+
+const parse = (value: string | null): RecordingMetadata => {
+  if (!value) {
+    return EMPTY_METADATA;
+  }
+  try {
+    return {...EMPTY_METADATA, ...JSON.parse(value)};
+  } catch {
+    return EMPTY_METADATA;
+  }
+};
+
+const parsePart = (part: string): Partial<RecordingMetadata> => {
+  try {
+    return JSON.parse(part);
+  } catch {
+    return {};
+  }
+};
+
+// 後から足した部分で上書きする。位置は開始・停止を別々に足すので中まで重ねる
+const mergeMetadata = (parts: string[]) =>
+  JSON.stringify(
+    parts.map(parsePart).reduce<Partial<RecordingMetadata>>(
+      (merged, part) =>
+        merged.location && part.location
+          ? {
+              ...merged,
+              ...part,
+              location: {...merged.location, ...part.location},
+            }
+          : {...merged, ...part},
+      {},
+    ),
+  );
+
+// 保護モードでは暗号化する（停止時の位置はロック中でも追記できる）
+export const METADATA_STORE: ProtectedStore = {
+  prefix: KEY_PREFIX,
+  merge: mergeMetadata,
+};
+
+export const loadMetadata = async (
+  fileNames: string[],
+): Promise<Record<string, RecordingMetadata>> => {
+  if (fileNames.length === 0) {
+    return {};
+  }
+  const values = await readProtectedItems(fileNames.map(keyFor), mergeMetadata);
+  const result: Record<string, RecordingMetadata> = {};
+  values.forEach((value, i) => {
+    result[fileNames[i]] = parse(value);
+  });
+  return result;
+};
+
+export const saveMetadata = async (
+  fileName: string,
+  metadata: RecordingMetadata,
+): Promise<void> => {
+  await writeProtectedItem(keyFor(fileName), JSON.stringify(metadata));
+};
+
+// 保存済みの値を読まずに一部の項目を書く（ロック中の録音の位置など）
+export const patchMetadata = async (
+  fileName: string,
+  patch: Partial<RecordingMetadata>,
+): Promise<void> => {
+  await appendProtectedItem(
+    keyFor(fileName),
+    JSON.stringify(patch),
+    mergeMetadata,
+  );
+};
+
+export const removeMetadata = async (fileName: string): Promise<void> => {
+  await AsyncStorage.removeItem(keyFor(fileName));
+};
+
+// 暗号化したままの値を移す
+export const moveMetadata = async (from: string, to: string): Promise<void> => {
+  const value = await AsyncStorage.getItem(keyFor(from));
+  if (value !== null) {
+    await AsyncStorage.setItem(keyFor(to), value);
+    await AsyncStorage.removeItem(keyFor(from));
+  }
+};
+
+// 「通勤, #山手線　証拠」のような入力をタグ配列にする
+export const parseTags = (input: string): string[] => {
+  const tags = input
+    .split(/[,、，\s]+/)
+    .map(tag => tag.replace(/^#/, '').trim())
+    .filter(tag => tag.length > 0);
+  return Array.from(new Set(tags));
+};
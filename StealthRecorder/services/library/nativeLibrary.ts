@@ -0,0 +1,5 @@
+import {NativeModules} from 'react-native';
+import type {LibraryBackend} from './types';
+
+export const getNativeLibraryBackend = (): LibraryBackend | null =>
+  NativeModules.RecorderManager ?? null;
@@ -0,0 +1,52 @@
+import type {VerificationStatus} from '../evidence/types';
+import type {RecordingLocation} from '../location/types';
+import type {RecordingFile} from '../recorder/types';
+
+// ユーザーが付けるタイトルとタグ（AsyncStorage にファイル名単位で保存）
+export type RecordingMetadata = {
+  title: string;
+  tags: string[];
+  // 自動削除のルールの対象外にする
+  protected?: boolean;
+  // 駅名・路線など（ユーザーが入力する）
+  place?: string;
+  // 位置の記録をオンにしていたときの開始・停止時の位置
+  location?: RecordingLocation;
+};
+
+export type LibraryItem = RecordingFile & {
+  metadata: RecordingMetadata;
+  verification?: VerificationStatus;
+};
+
+export type PlaybackStatus = {
+  fileName: string | null;
+  isPlaying: boolean;
+  position: number;
+  duration: number;
+};
+
+export type LibraryBackend = {
+  renameFile: (from: string, to: string) => Promise<void>;
+  deleteFile: (name: string) => Promise<void>;
+  shareFiles: (names: string[], extraPaths: string[]) => Promise<boolean>;
+  // 一時領域に書き出して絶対パスを返す（共有・書き出し用）
+  writeExportFile: (
+    name: string,
+    contents: string,
+    encoding: 'utf8' | 'base64',
+  ) => Promise<string>;
+  startPlayback: (name: string) => Promise<number>;
+  pausePlayback: () => Promise<void>;
+  seekPlayback: (seconds: number) => Promise<void>;
+  stopPlayback: () => Promise<void>;
+  getPlaybackStatus: () => Promise<PlaybackStatus>;
+  getAudioDuration: (name: string) => Promise<number>;
+};
+
+export type LibraryErrorCode =
+  | 'unavailable'
+  | 'invalid_name'
+  | 'name_taken'
+  | 'recording_in_progress'
+  | 'io_failed';
@@ -0,0 +1,79 @@
+import {useCallback, useEffect, useState} from 'react';
+import type {RecordingLibrary} from './RecordingLibrary';
+import type {PlaybackStatus} from './types';
+
+const POLL_INTERVAL_MS = 250;
+
+const IDLE_STATUS: PlaybackStatus = {
+  fileName: null,
+  isPlaying: false,
+  position: 0,
+  duration: 0,
+};
+
+/**
+ * 指定ファイルの再生状態。再生中はネイティブの位置をポーリングする。
+ * 別のファイルが再生中の場合は停止中として扱う。
+ */
+export const usePlayback = (library: RecordingLibrary, fileName: string) => {
+  const [status, setStatus] = useState<PlaybackStatus>(IDLE_STATUS);
+  // 再生前でもスクラバーを描けるようファイルの長さを先に取得する
+  const [fileDuration, setFileDuration] = useState(0);
+
+  const refresh = useCallback(async () => {
+    if (!library.isAvailable) {
+      return;
+    }
+    const next = await library.playbackStatus();
+    setStatus(next.fileName === fileName ? next : IDLE_STATUS);
+  }, [library, fileName]);
+
+  useEffect(() => {
+    if (!library.isAvailable) {
+      return;
+    }
+    library
+      .duration(fileName)
+      .then(setFileDuration)
+      .catch(() => setFileDuration(0));
+  }, [library, fileName]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  useEffect(() => {
+    if (!status.isPlaying) {
+      return;
+    }
+    const timer = setInterval(refresh, POLL_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [status.isPlaying, refresh]);
+
+  const toggle = useCallback(async () => {
+    if (status.isPlaying) {
+      await library.pause();
+    } else {
+      await library.play(fileName);
+    }
+    await refresh();
+  }, [library, fileName, status.isPlaying, refresh]);
+
+  const seek = useCallback(
+    async (seconds: number) => {
+      if (status.fileName !== fileName) {
+        await library.play(fileName);
+      }
+      await library.seek(seconds);
+      await refresh();
+    },
+    [library, fileName, status.fileName, refresh],
+  );
+
+  return {
+    status,
+    duration: status.duration || fileDuration,
+    toggle,
+    seek,
+  };
+};
@@ -0,0 +1,94 @@
+import {loadMetadata, patchMetadata} from '../library/metadataStore';
+import {loadLocationCapture} from './locationSettings';
+import type {GeoFix, LocationBackend, RecordingLocation} from './types';
+
+/**
+ * 録音の開始・停止時の位置を録音のメタデータに残す（設定でオンにしたときだけ）。
+ * 位置が取れなくても録音は止めない。
+ */
+export class LocationCapture {
+  private readonly backend: LocationBackend | null;
+  private readonly loadEnabled: () => Promise<boolean>;
+  // 開始時の位置を書き終えてから停止時の位置を書く
+  private queue: Promise<unknown> = Promise.resolve();
+  // この起動で取った位置（ロック中は暗号化したメタデータを読めないため）
+  private captured = new Map<string, RecordingLocation>();
+
+  constructor(
+    backend: LocationBackend | null,
+    loadEnabled: () => Promise<boolean> = loadLocationCapture,
+  ) {
+    this.backend = backend;
+    this.loadEnabled = loadEnabled;
+  }
+
+  get isAvailable(): boolean {
+    return this.backend !== null;
+  }
+
+  async requestPermission(): Promise<boolean> {
+    if (!this.backend) {
+      return false;
+    }
+    return this.backend.requestLocationPermission();
+  }
+
+  async isEnabled(): Promise<boolean> {
+    return this.backend !== null && (await this.loadEnabled());
+  }
+
+  // 許可がない・測位できないときは null
+  async currentFix(): Promise<GeoFix | null> {
+    if (!this.backend) {
+      return null;
+    }
+    try {
+      return await this.backend.getCurrentLocation();
+    } catch {
+      return null;
+    }
+  }
+
+  // 録音を待たせないよう、開始時の位置は裏で取得して書き込む
+  captureStart(fileName: string): Promise<RecordingLocation | null> {
+    return this.enqueue(() => this.captureNow(fileName, 'start'));
+  }
+
+  /**
+   * 停止時の位置を書き込み、その録音の位置（開始・停止）を返す。
+   * 証拠ログに載せるため、書き込みが終わるまで待つ。
+   */
+  captureStop(fileName: string): Promise<RecordingLocation | null> {
+    return this.enqueue(() => this.captureNow(fileName, 'stop'));
+  }
+
+  private async captureNow(
+    fileName: string,
+    point: keyof RecordingLocation,
+  ): Promise<RecordingLocation | null> {
+    if (!(await this.isEnabled())) {
+      return null;
+    }
+    const fix = await this.currentFix();
+    if (fix) {
+      this.captured.set(fileName, {
+        ...this.captured.get(fileName),
+        [point]: fix,
+      });
+      // 読まずに足すので、保護モードのロック中でも書ける
+      await patchMetadata(fileName, {location: {[point]: fix}});
+    }
+    try {
+      const metadata = (await loadMetadata([fileName]))[fileName];
+      return metadata.location ?? null;
+    } catch {
+      return this.captured.get(fileName) ?? null;
+    }
+  }
+
+  private enqueue<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.queue.then(task);
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+}
@@ -0,0 +1,32 @@
+import React, {createContext, useContext} from 'react';
+import {LocationCapture} from './LocationCapture';
+import {getNativeLocationBackend} from './nativeLocation';
+
+let defaultCapture: LocationCapture | null = null;
+
+const LocationCaptureContext = createContext<LocationCapture | null>(null);
+
+type LocationCaptureProviderProps = {
+  capture: LocationCapture;
+  children: React.ReactNode;
+};
+
+export const LocationCaptureProvider = ({
+  capture,
+  children,
+}: LocationCaptureProviderProps): React.JSX.Element => (
+  <LocationCaptureContext.Provider value={capture}>
+    {children}
+  </LocationCaptureContext.Provider>
+);
+
+export const useLocationCapture = (): LocationCapture => {
+  const provided = useContext(LocationCaptureContext);
+  if (provided) {
+    return provided;
+  }
+  if (!defaultCapture) {
+    defaultCapture = new LocationCapture(getNativeLocationBackend());
+  }
+  return defaultCapture;
+};
@@ -0,0 +1,11 @@
+import type {GeoFix} from './types';
+
+// 35.68950, 139.69170（±12 m）
+export const formatGeoFix = (fix: GeoFix): string =>
+  `${fix.latitude.toFixed(5)}, ${fix.longitude.toFixed(5)}（±${Math.round(
+    fix.accuracy,
+  )} m）`;
+
+// 書き出しのレポートから地図で開けるように
+export const mapURL = (fix: GeoFix): string =>
+  `https://maps.apple.com/?ll=${fix.latitude},${fix.longitude}`;
@@ -0,0 +1,6 @@
+export {LocationCapture} from './LocationCapture';
+export {LocationCaptureProvider, useLocationCapture} from './LocationContext';
+export {formatGeoFix, mapURL} from './format';
+export {loadLocationCapture, saveLocationCapture} from './locationSettings';
+export {getNativeLocationBackend} from './nativeLocation';
+export type {GeoFix, LocationBackend, RecordingLocation} from './types';
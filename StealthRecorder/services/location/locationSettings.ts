@@ -0,0 +1,11 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+const STORAGE_KEY = 'twotaprecorder:locationCapture';
+
+// 位置の記録は明示的にオンにしたときだけ行う
+export const loadLocationCapture = async (): Promise<boolean> =>
+  (await AsyncStorage.getItem(STORAGE_KEY)) === 'true';
+
+export const saveLocationCapture = async (enabled: boolean): Promise<void> => {
+  await AsyncStorage.setItem(STORAGE_KEY, String(enabled));
+};
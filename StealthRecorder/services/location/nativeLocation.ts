@@ -0,0 +1,6 @@
+import {NativeModules} from 'react-native';
+import type {LocationBackend} from './types';
+
+// iOS 以外（および Jest）では RecorderManager は存在しない
+export const getNativeLocationBackend = (): LocationBackend | null =>
+  NativeModules.RecorderManager ?? null;
@@ -0,0 +1,19 @@
+// 1 回の測位。accuracy は水平方向の誤差（メートル）
+export type GeoFix = {
+  latitude: number;
+  longitude: number;
+  accuracy: number;
+  capturedAt: string;
+};
+
+// 録音の開始・停止時の位置。取得できなかった側は持たない
+export type RecordingLocation = {
+  start?: GeoFix;
+  stop?: GeoFix;
+};
+
+export type LocationBackend = {
+  requestLocationPermission: () => Promise<boolean>;
+  // 許可がない・取得できないときは reject する
+  getCurrentLocation: () => Promise<GeoFix>;
+};
@@ -0,0 +1,27 @@
+import {formatDuration} from '../../utils/format';
+import type {Translate} from '../i18n/types';
+import type {Marker} from './types';
+
+// recording-20240305_083015.m4a → recording-20240305_083015.markers.txt
+export const markersFileName = (fileName: string): string =>
+  `${fileName.replace(/\.[^.]+$/, '')}.markers.txt`;
+
+/**
+ * 共有・書き出し用のマーカー一覧（録音の経過時間順）。
+ */
+export const formatMarkersText = (
+  t: Translate,
+  fileName: string,
+  markers: Marker[],
+): string =>
+  [
+    t('marker.export.title', {fileName}),
+    '',
+    ...markers.map(
+      marker =>
+        `${formatDuration(marker.offsetSeconds)}\t${marker.label}\t(${t(
+          `marker.source.${marker.source}`,
+        )})`,
+    ),
+    '',
+  ].join('\n');
@@ -0,0 +1,11 @@
+export {
+  addMarker,
+  importMarkers,
+  importPendingMarkers,
+  loadMarkers,
+  moveMarkers,
+  removeMarker,
+  removeMarkers,
+} from './markerStore';
+export {formatMarkersText, markersFileName} from './exportMarkers';
+export type {Marker, MarkerSource} from './types';
@@ -0,0 +1,158 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {createId} from '../../utils/id';
+import {
+  appendProtectedItem,
+  readProtectedItem,
+  writeProtectedItem,
+} from '../protection/protectedStorage';
+import type {ProtectedStore} from '../protection/types';
+import type {PendingMarker} from '../recorder/types';
+import type {Marker} from './types';
+
+const KEY_PREFIX = 'twotaprecorder:markers:';
+
+const keyFor = (fileName: string) => `${KEY_PREFIX}${fileName}`;
+
+const parse = (value: string | null): Marker[] => {
+  if (!value) {
+    return [];
+  }
+  try {
+    return JSON.parse(value) as Marker[];
+  } catch {
+    return [];
+  }
+};
+
+const byOffset = (a: Marker, b: Marker) => a.offsetSeconds - b.offsetSeconds;
+
+const mergeMarkers = (parts: string[]) =>
+  JSON.stringify(parts.flatMap(parse).sort(byOffset));
+
+// 保護モードでは暗号化する（録音中に足したマーカーはロック中でも追記できる）
+export const MARKER_STORE: ProtectedStore = {
+  prefix: KEY_PREFIX,
+  merge: mergeMarkers,
+};
+
+// 読み込んでから書き戻すまでに別の書き込みが挟まると片方が消えるため、ファイルごとに直列化する
+const queues = new Map<string, Promise<unknown>>();
+
+const enqueue = <T>(fileName: string, task: () => Promise<T>): Promise<T> => {
+  const result = (queues.get(fileName) ?? Promise.resolve()).then(task);
+  const settled = result.catch(() => undefined);
+  queues.set(fileName, settled);
+  settled.then(() => {
+    if (queues.get(fileName) === settled) {
+      queues.delete(fileName);
+    }
+  });
+  return result;
+};
+
+// 複数のファイルにまたがる操作は、名前順にそれぞれのキューを取ってから行う
+// （順番を決めておけば互いに待ち合うことがない）
+const enqueueAll = <T>(
+  fileNames: string[],
+  task: () => Promise<T>,
+): Promise<T> =>
+  [...new Set(fileNames)]
+    .sort()
+    .reduceRight<() => Promise<T>>(
+      (next, fileName) => () => enqueue(fileName, next),
+      task,
+    )();
+
+export const loadMarkers = async (fileName: string): Promise<Marker[]> =>
+  parse(await readProtectedItem(keyFor(fileName), mergeMarkers)).sort(byOffset);
+
+export const addMarker = (
+  marker: Omit<Marker, 'id' | 'createdAt'>,
+  now: Date = new Date(),
+): Promise<Marker> =>
+  enqueue(marker.fileName, async () => {
+    const created: Marker = {
+      ...marker,
+      id: createId(),
+      createdAt: now.toISOString(),
+    };
+    await appendProtectedItem(
+      keyFor(marker.fileName),
+      JSON.stringify([created]),
+      mergeMarkers,
+    );
+    return created;
+  });
+
+// twotaprecorder://mark でネイティブが記録したマーカーを、記録した時刻のまま保存する
+export const importPendingMarkers = async (
+  pending: PendingMarker[],
+  defaultLabel: string,
+): Promise<Marker[]> => {
+  const imported: Marker[] = [];
+  for (const item of pending) {
+    imported.push(
+      await addMarker(
+        {
+          fileName: item.fileName,
+          offsetSeconds: item.offsetSeconds,
+          label: item.label || defaultLabel,
+          source: 'shortcut',
+        },
+        new Date(item.createdAt),
+      ),
+    );
+  }
+  return imported;
+};
+
+export const removeMarker = (fileName: string, id: string): Promise<void> =>
+  enqueue(fileName, async () => {
+    const markers = await loadMarkers(fileName);
+    await writeProtectedItem(
+      keyFor(fileName),
+      JSON.stringify(markers.filter(marker => marker.id !== id)),
+    );
+  });
+
+// ライブラリでの名前変更に合わせてマーカーを移す
+export const moveMarkers = (from: string, to: string): Promise<void> =>
+  enqueueAll([from, to], async () => {
+    const markers = await loadMarkers(from);
+    if (markers.length === 0) {
+      return;
+    }
+    const existing = await loadMarkers(to);
+    await writeProtectedItem(
+      keyFor(to),
+      JSON.stringify(
+        [
+          ...existing,
+          ...markers.map(marker => ({...marker, fileName: to})),
+        ].sort(byOffset),
+      ),
+    );
+    await AsyncStorage.removeItem(keyFor(from));
+  });
+
+// バックアップから復元したマーカーを加える（同じ id は重ねない）
+export const importMarkers = (
+  fileName: string,
+  markers: Marker[],
+): Promise<void> =>
+  enqueue(fileName, async () => {
+    const current = await loadMarkers(fileName);
+    const known = new Set(current.map(marker => marker.id));
+    const added = markers
+      .filter(marker => !known.has(marker.id))
+      .map(marker => ({...marker, fileName}));
+    if (added.length > 0) {
+      await writeProtectedItem(
+        keyFor(fileName),
+        JSON.stringify([...current, ...added].sort(byOffset)),
+      );
+    }
+  });
+
+export const removeMarkers = (fileName: string): Promise<void> =>
+  enqueue(fileName, () => AsyncStorage.removeItem(keyFor(fileName)));
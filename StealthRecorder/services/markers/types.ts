@@ -0,0 +1,18 @@
+import type {SafetyStepId} from '../../data/safetyChecklist';
+
+// checklist: 安全チェックリスト / bookmark: アプリ内 / shortcut: twotaprecorder://mark
+// phrase: フレーズカードを開いた
+export type MarkerSource = 'checklist' | 'bookmark' | 'shortcut' | 'phrase';
+
+export type Marker = {
+  id: string;
+  fileName: string;
+  // 録音開始からの経過秒数
+  offsetSeconds: number;
+  label: string;
+  source: MarkerSource;
+  stepId?: SafetyStepId;
+  // phrase のとき、開いたカード（チェックリストの手順と同じ id）
+  phraseId?: SafetyStepId;
+  createdAt: string;
+};
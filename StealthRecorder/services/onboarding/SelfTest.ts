@@ -0,0 +1,228 @@
+import type {DeepLinkCommand} from '../deepLinks/types';
+import type {EvidenceManifest} from '../evidence/EvidenceManifest';
+import type {RecorderService} from '../recorder/RecorderService';
+import {toRecorderError} from '../recorder/errors';
+import type {
+  SelfTestFix,
+  SelfTestListener,
+  SelfTestReport,
+  SelfTestStep,
+  SelfTestStepId,
+  SelfTestStepStatus,
+} from './types';
+
+// テスト録音の長さ
+export const SELF_TEST_RECORD_SECONDS = 3;
+// 背面タップを待つ時間
+export const SELF_TEST_TIMEOUT_MS = 2 * 60 * 1000;
+
+// 画面に並べる順
+const STEP_IDS: SelfTestStepId[] = [
+  'permission',
+  'deep-link',
+  'recording',
+  'file',
+];
+
+const initialSteps = (): SelfTestStep[] =>
+  STEP_IDS.map(id => ({id, status: 'pending', fix: null}));
+
+const IDLE_REPORT: SelfTestReport = {
+  state: 'idle',
+  steps: initialSteps(),
+  fileName: null,
+};
+
+type SelfTestOptions = {
+  recordSeconds?: number;
+  timeoutMs?: number;
+  // テストでは待たずに進める
+  wait?: (ms: number) => Promise<void>;
+};
+
+const sleep = (ms: number) =>
+  new Promise<void>(resolve => setTimeout(resolve, ms));
+
+/**
+ * はじめの設定の動作テスト。
+ * 背面タップ（ショートカット）から start / toggle のディープリンクが届くのを待ち、
+ * 短いテスト録音が保存されるところまでを項目ごとに確かめる。
+ */
+export class SelfTest {
+  private readonly recorder: RecorderService;
+  private readonly evidence: EvidenceManifest;
+  private readonly recordSeconds: number;
+  private readonly timeoutMs: number;
+  private readonly wait: (ms: number) => Promise<void>;
+  private report: SelfTestReport = IDLE_REPORT;
+  private listeners = new Set<SelfTestListener>();
+  private timer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(
+    recorder: RecorderService,
+    evidence: EvidenceManifest,
+    {
+      recordSeconds = SELF_TEST_RECORD_SECONDS,
+      timeoutMs = SELF_TEST_TIMEOUT_MS,
+      wait = sleep,
+    }: SelfTestOptions = {},
+  ) {
+    this.recorder = recorder;
+    this.evidence = evidence;
+    this.recordSeconds = recordSeconds;
+    this.timeoutMs = timeoutMs;
+    this.wait = wait;
+  }
+
+  getReport = (): SelfTestReport => this.report;
+
+  subscribe = (listener: SelfTestListener): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  get isWaiting(): boolean {
+    return this.report.state === 'waiting';
+  }
+
+  // マイク権限を確かめてから背面タップを待つ
+  async begin(): Promise<void> {
+    this.clearTimer();
+    this.report = {...IDLE_REPORT, state: 'waiting'};
+    this.setStep('permission', 'running');
+    let granted = false;
+    try {
+      granted = await this.recorder.requestPermission();
+    } catch {
+      granted = false;
+    }
+    if (!granted) {
+      this.fail('permission', {reason: 'permission'});
+      return;
+    }
+    this.setStep('permission', 'passed');
+
+    await this.recorder.sync();
+    if (this.recorder.getSnapshot().state === 'recording') {
+      this.fail('recording', {reason: 'busy'});
+      return;
+    }
+    this.setStep('deep-link', 'running');
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      if (this.isWaiting) {
+        this.fail('deep-link', {reason: 'timeout'});
+      }
+    }, this.timeoutMs);
+  }
+
+  /**
+   * テスト中に届いたディープリンクを受け取り、テスト録音まで進める。
+   * テスト中でなければ false を返す（いつもどおり処理する）。
+   */
+  async handleDeepLink(command: DeepLinkCommand): Promise<boolean> {
+    if (!this.isWaiting) {
+      return false;
+    }
+    this.clearTimer();
+    if (command.type !== 'start' && command.type !== 'toggle') {
+      this.fail('deep-link', {reason: 'wrong-link', action: command.type});
+      return true;
+    }
+    this.setStep('deep-link', 'passed');
+    await this.record();
+    return true;
+  }
+
+  // 背面タップを待っている間だけ中止できる
+  cancel() {
+    this.clearTimer();
+    if (this.isWaiting) {
+      this.report = IDLE_REPORT;
+      this.emit();
+    }
+  }
+
+  private async record(): Promise<void> {
+    this.report = {...this.report, state: 'recording'};
+    this.setStep('recording', 'running');
+    let fileName: string;
+    try {
+      // 戻ってこなくても止まるよう、ネイティブ側でも上限を付ける
+      fileName = await this.recorder.start({
+        maxDurationSeconds: this.recordSeconds * 2,
+      });
+    } catch (error) {
+      this.fail('recording', {
+        reason: 'recorder',
+        error: toRecorderError(error, 'start_failed'),
+      });
+      return;
+    }
+    this.setStep('recording', 'passed');
+    this.setStep('file', 'running');
+
+    await this.wait(this.recordSeconds * 1000);
+    let saved: string | null;
+    try {
+      saved = (await this.recorder.stop()) ?? fileName;
+    } catch (error) {
+      this.fail('file', {
+        reason: 'recorder',
+        error: toRecorderError(error, 'stop_failed'),
+      });
+      return;
+    }
+    await this.evidence
+      .register(saved, {stoppedAt: new Date()})
+      .catch(() => undefined);
+    const files = await this.recorder.listRecordings().catch(() => []);
+    const file = files.find(item => item.name === saved);
+    if (!file) {
+      this.fail('file', {reason: 'missing'});
+      return;
+    }
+    if (file.size === 0) {
+      this.fail('file', {reason: 'empty'});
+      return;
+    }
+    this.setStep('file', 'passed');
+    this.report = {...this.report, state: 'passed', fileName: saved};
+    this.emit();
+  }
+
+  private fail(id: SelfTestStepId, fix: SelfTestFix) {
+    this.clearTimer();
+    this.report = {
+      ...this.report,
+      state: 'failed',
+      steps: this.report.steps.map(step =>
+        step.id === id ? {...step, status: 'failed', fix} : step,
+      ),
+    };
+    this.emit();
+  }
+
+  private setStep(id: SelfTestStepId, status: SelfTestStepStatus) {
+    this.report = {
+      ...this.report,
+      steps: this.report.steps.map(step =>
+        step.id === id ? {...step, status, fix: null} : step,
+      ),
+    };
+    this.emit();
+  }
+
+  private clearTimer() {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private emit() {
+    this.listeners.forEach(listener => listener(this.report));
+  }
+}
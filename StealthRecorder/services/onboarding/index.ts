@@ -0,0 +1,25 @@
+export {
+  SELF_TEST_RECORD_SECONDS,
+  SELF_TEST_TIMEOUT_MS,
+  SelfTest,
+} from './SelfTest';
+export {
+  INITIAL_ONBOARDING_STATE,
+  completeStep,
+  isOnboardingComplete,
+  loadOnboardingState,
+  markStepDone,
+  nextStep,
+  previousStep,
+  saveOnboardingState,
+} from './onboardingStore';
+export {useSelfTestReport} from './useSelfTestReport';
+export type {
+  OnboardingState,
+  SelfTestReport,
+  SelfTestFix,
+  SelfTestState,
+  SelfTestStep,
+  SelfTestStepId,
+  SelfTestStepStatus,
+} from './types';
@@ -0,0 +1,80 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {ONBOARDING_STEPS, OnboardingStepId} from '../../data/onboardingSteps';
+import type {OnboardingState} from './types';
+
+const STORAGE_KEY = 'twotaprecorder:onboarding';
+// 以前の「続ける」だけのマイク権限モーダルで同意済みかどうか
+const LEGACY_ACCEPTED_KEY = 'twotaprecorder:hasAcceptedBackTap';
+
+const STEP_IDS = ONBOARDING_STEPS.map(step => step.id);
+
+export const INITIAL_ONBOARDING_STATE: OnboardingState = {
+  completed: [],
+  current: 'permission',
+};
+
+const isStepId = (value: unknown): value is OnboardingStepId =>
+  STEP_IDS.includes(value as OnboardingStepId);
+
+const sortSteps = (ids: OnboardingStepId[]): OnboardingStepId[] =>
+  STEP_IDS.filter(id => ids.includes(id));
+
+export const loadOnboardingState = async (): Promise<OnboardingState> => {
+  const [[, value], [, legacy]] = await AsyncStorage.multiGet([
+    STORAGE_KEY,
+    LEGACY_ACCEPTED_KEY,
+  ]);
+  if (value) {
+    try {
+      const stored = JSON.parse(value) as Partial<OnboardingState>;
+      return {
+        completed: sortSteps(
+          Array.isArray(stored.completed)
+            ? stored.completed.filter(isStepId)
+            : [],
+        ),
+        current: isStepId(stored.current)
+          ? stored.current
+          : INITIAL_ONBOARDING_STATE.current,
+      };
+    } catch {
+      // 壊れていれば最初から
+    }
+  }
+  // 以前のバージョンでマイク権限を確認済みなら、その先から始める
+  return legacy === 'accepted'
+    ? {completed: ['permission'], current: 'shortcuts-app'}
+    : INITIAL_ONBOARDING_STATE;
+};
+
+export const saveOnboardingState = async (
+  state: OnboardingState,
+): Promise<void> => {
+  await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(state));
+};
+
+export const nextStep = (id: OnboardingStepId): OnboardingStepId | null =>
+  STEP_IDS[STEP_IDS.indexOf(id) + 1] ?? null;
+
+export const previousStep = (id: OnboardingStepId): OnboardingStepId | null =>
+  STEP_IDS[STEP_IDS.indexOf(id) - 1] ?? null;
+
+export const markStepDone = (
+  state: OnboardingState,
+  id: OnboardingStepId,
+): OnboardingState => ({
+  ...state,
+  completed: sortSteps([...state.completed, id]),
+});
+
+// ステップを完了にして次のステップへ進める（最後のステップならそのまま）
+export const completeStep = (
+  state: OnboardingState,
+  id: OnboardingStepId,
+): OnboardingState => ({
+  ...markStepDone(state, id),
+  current: nextStep(id) ?? id,
+});
+
+export const isOnboardingComplete = (state: OnboardingState): boolean =>
+  STEP_IDS.every(id => state.completed.includes(id));
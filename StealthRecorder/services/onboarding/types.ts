@@ -0,0 +1,47 @@
+import type {OnboardingStepId} from '../../data/onboardingSteps';
+import type {DeepLinkCommand} from '../deepLinks/types';
+import type {RecorderError} from '../recorder/errors';
+
+// はじめの設定の進み具合（AsyncStorage に保存）
+export type OnboardingState = {
+  // ONBOARDING_STEPS の順
+  completed: OnboardingStepId[];
+  // 次に開いたときに表示するステップ
+  current: OnboardingStepId;
+};
+
+export type SelfTestStepId = 'permission' | 'deep-link' | 'recording' | 'file';
+
+export type SelfTestStepStatus = 'pending' | 'running' | 'passed' | 'failed';
+
+/**
+ * 失敗したときの直し方（文言は表示言語に合わせて画面側で選ぶ）
+ * wrong-link: 届いたディープリンクの操作 / recorder: 録音機能のエラー
+ */
+export type SelfTestFix =
+  | {reason: 'permission' | 'busy' | 'timeout' | 'missing' | 'empty'}
+  | {reason: 'wrong-link'; action: DeepLinkCommand['type']}
+  | {reason: 'recorder'; error: RecorderError};
+
+export type SelfTestStep = {
+  id: SelfTestStepId;
+  status: SelfTestStepStatus;
+  fix: SelfTestFix | null;
+};
+
+// idle: 未実施 / waiting: 背面タップ待ち / recording: テスト録音中
+export type SelfTestState =
+  | 'idle'
+  | 'waiting'
+  | 'recording'
+  | 'passed'
+  | 'failed';
+
+export type SelfTestReport = {
+  state: SelfTestState;
+  steps: SelfTestStep[];
+  // 保存したテスト録音
+  fileName: string | null;
+};
+
+export type SelfTestListener = (report: SelfTestReport) => void;
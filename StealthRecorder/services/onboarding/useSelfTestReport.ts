@@ -0,0 +1,6 @@
+import {useSyncExternalStore} from 'react';
+import type {SelfTest} from './SelfTest';
+import type {SelfTestReport} from './types';
+
+export const useSelfTestReport = (selfTest: SelfTest): SelfTestReport =>
+  useSyncExternalStore(selfTest.subscribe, selfTest.getReport);
@@ -0,0 +1,32 @@
+import React, {createContext, useContext} from 'react';
+import {PhraseSpeaker} from './PhraseSpeaker';
+import {getNativePhraseSpeechBackend} from './nativePhrases';
+
+let defaultSpeaker: PhraseSpeaker | null = null;
+
+const PhraseSpeakerContext = createContext<PhraseSpeaker | null>(null);
+
+type PhraseSpeakerProviderProps = {
+  speaker: PhraseSpeaker;
+  children: React.ReactNode;
+};
+
+export const PhraseSpeakerProvider = ({
+  speaker,
+  children,
+}: PhraseSpeakerProviderProps): React.JSX.Element => (
+  <PhraseSpeakerContext.Provider value={speaker}>
+    {children}
+  </PhraseSpeakerContext.Provider>
+);
+
+export const usePhraseSpeaker = (): PhraseSpeaker => {
+  const provided = useContext(PhraseSpeakerContext);
+  if (provided) {
+    return provided;
+  }
+  if (!defaultSpeaker) {
+    defaultSpeaker = new PhraseSpeaker(getNativePhraseSpeechBackend());
+  }
+  return defaultSpeaker;
+};
@@ -0,0 +1,39 @@
+import type {PhraseCard, PhraseLanguage} from '../../data/phraseCards';
+import type {PhraseSpeechBackend} from './types';
+
+// 読み上げに使う声
+const VOICE_LANGUAGES: Record<PhraseLanguage, string> = {
+  ja: 'ja-JP',
+  en: 'en-US',
+};
+
+/**
+ * フレーズカードの読み上げ。録音中でも止めずに話す（読み上げた声も録音に残る）。
+ */
+export class PhraseSpeaker {
+  private readonly backend: PhraseSpeechBackend | null;
+
+  constructor(backend: PhraseSpeechBackend | null) {
+    this.backend = backend;
+  }
+
+  get isAvailable(): boolean {
+    return this.backend !== null;
+  }
+
+  // 読み上げ中の文があれば止めてから読み上げる
+  async speak(card: PhraseCard, language: PhraseLanguage): Promise<void> {
+    if (!this.backend) {
+      return;
+    }
+    await this.backend.stopSpeaking();
+    await this.backend.speakText(
+      card.text[language],
+      VOICE_LANGUAGES[language],
+    );
+  }
+
+  async stop(): Promise<void> {
+    await this.backend?.stopSpeaking();
+  }
+}
@@ -0,0 +1,5 @@
+export {PhraseSpeaker} from './PhraseSpeaker';
+export {PhraseSpeakerProvider, usePhraseSpeaker} from './PhraseContext';
+export {getNativePhraseSpeechBackend} from './nativePhrases';
+export {markPhraseCard} from './phraseMarker';
+export type {PhraseSpeechBackend} from './types';
@@ -0,0 +1,6 @@
+import {NativeModules} from 'react-native';
+import type {PhraseSpeechBackend} from './types';
+
+// iOS 以外（および Jest）では RecorderManager は存在しない
+export const getNativePhraseSpeechBackend = (): PhraseSpeechBackend | null =>
+  NativeModules.RecorderManager ?? null;
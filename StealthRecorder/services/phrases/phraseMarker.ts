@@ -0,0 +1,26 @@
+import type {PhraseCard} from '../../data/phraseCards';
+import {addMarker} from '../markers/markerStore';
+import type {Marker} from '../markers/types';
+import type {RecorderService} from '../recorder/RecorderService';
+
+/**
+ * 録音中にカードを開いたら、どのカードを使ったかをその時点のマーカーに残す。
+ * 録音していなければ何もしない。
+ */
+export const markPhraseCard = async (
+  recorder: RecorderService,
+  card: PhraseCard,
+  label: string,
+): Promise<Marker | null> => {
+  const position = await recorder.currentPosition();
+  if (!position) {
+    return null;
+  }
+  return addMarker({
+    fileName: position.fileName,
+    offsetSeconds: position.elapsed,
+    label,
+    source: 'phrase',
+    phraseId: card.id,
+  });
+};
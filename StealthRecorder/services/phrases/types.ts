@@ -0,0 +1,6 @@
+// 端末の音声合成（RecorderManager の AVSpeechSynthesizer）
+export type PhraseSpeechBackend = {
+  // language は BCP 47（ja-JP など）。その言語の声がなければ reject する
+  speakText: (text: string, language: string) => Promise<void>;
+  stopSpeaking: () => Promise<void>;
+};
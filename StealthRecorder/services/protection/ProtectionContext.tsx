@@ -0,0 +1,38 @@
+import React, {createContext, useContext, useSyncExternalStore} from 'react';
+import {ProtectionService} from './ProtectionService';
+import {getNativeProtectionBackend} from './nativeProtection';
+import type {ProtectionStatus} from './types';
+
+let defaultService: ProtectionService | null = null;
+
+const ProtectionContext = createContext<ProtectionService | null>(null);
+
+type ProtectionProviderProps = {
+  service: ProtectionService;
+  children: React.ReactNode;
+};
+
+export const ProtectionProvider = ({
+  service,
+  children,
+}: ProtectionProviderProps): React.JSX.Element => (
+  <ProtectionContext.Provider value={service}>
+    {children}
+  </ProtectionContext.Provider>
+);
+
+export const useProtection = (): ProtectionService => {
+  const provided = useContext(ProtectionContext);
+  if (provided) {
+    return provided;
+  }
+  if (!defaultService) {
+    defaultService = new ProtectionService(getNativeProtectionBackend());
+  }
+  return defaultService;
+};
+
+export const useProtectionStatus = (
+  service: ProtectionService,
+): ProtectionStatus =>
+  useSyncExternalStore(service.subscribe, service.getStatus);
@@ -0,0 +1,224 @@
+import {MANIFEST_FILE_NAME} from '../evidence/EvidenceManifest';
+import {INCIDENT_STORE} from '../incidents/incidentStore';
+import {METADATA_STORE} from '../library/metadataStore';
+import {MARKER_STORE} from '../markers/markerStore';
+import {transcriptFileName} from '../transcripts/transcriptFile';
+import {ProtectionError, toProtectionError} from './errors';
+import {
+  clearPasscodeAttempts,
+  loadPasscodeAttempts,
+  lockoutSeconds,
+  recordPasscodeFailure,
+  validatePasscode,
+} from './passcode';
+import {sealProtectedItems, unsealProtectedItems} from './protectedStorage';
+import type {
+  ProtectionBackend,
+  ProtectionListener,
+  ProtectionStatus,
+} from './types';
+
+const DISABLED: ProtectionStatus = {
+  enabled: false,
+  unlocked: false,
+  biometryType: 'none',
+  biometricsEnabled: false,
+};
+
+// タイトル・タグ・場所・位置、マーカー、出来事の記録
+const PROTECTED_STORES = [METADATA_STORE, MARKER_STORE, INCIDENT_STORE];
+
+/**
+ * 保護モード（録音・文字起こし・証拠ログと、録音に付けた情報の暗号化）。
+ * 暗号化・復号はネイティブ側で行い、ここではロック状態の管理と、
+ * 有効にしたとき・解除するときに既存のファイルと値を暗号化・復号する順番を受け持つ。
+ */
+export class ProtectionService {
+  private readonly backend: ProtectionBackend | null;
+  private readonly now: () => Date;
+  private status: ProtectionStatus = DISABLED;
+  private listeners = new Set<ProtectionListener>();
+
+  constructor(
+    backend: ProtectionBackend | null,
+    now: () => Date = () => new Date(),
+  ) {
+    this.backend = backend;
+    this.now = now;
+  }
+
+  get isAvailable(): boolean {
+    return this.backend !== null;
+  }
+
+  // 保護モードが有効でロック中（録音の中身を読めない）
+  get isLocked(): boolean {
+    return this.status.enabled && !this.status.unlocked;
+  }
+
+  getStatus = (): ProtectionStatus => this.status;
+
+  subscribe = (listener: ProtectionListener): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  async refresh(): Promise<ProtectionStatus> {
+    if (!this.backend) {
+      return this.status;
+    }
+    return this.run(backend => backend.getProtectionStatus());
+  }
+
+  /**
+   * 保護モードを有効にして、既存の録音（と文字起こし）・証拠ログ・
+   * 録音に付けた情報を暗号化する。暗号化した録音の数を返す。
+   */
+  async enable(
+    passcode: string,
+    confirmation: string,
+    useBiometrics: boolean,
+    fileNames: string[],
+  ): Promise<number> {
+    validatePasscode(passcode);
+    if (passcode !== confirmation) {
+      throw new ProtectionError('passcode_mismatch');
+    }
+    await this.run(backend =>
+      backend.enableProtection(passcode, useBiometrics),
+    );
+    await clearPasscodeAttempts();
+    await this.sealExisting();
+    return this.protectFiles(fileNames);
+  }
+
+  async unlock(passcode: string): Promise<void> {
+    await this.withAttempts(() =>
+      this.run(backend => backend.unlockProtection(passcode)),
+    );
+  }
+
+  // reason は Face ID / Touch ID の確認画面に出る説明（表示言語の文言を渡す）
+  async unlockWithBiometrics(reason: string): Promise<void> {
+    await this.run(backend => backend.unlockProtectionWithBiometrics(reason));
+  }
+
+  async lock(): Promise<void> {
+    if (this.status.enabled) {
+      await this.run(backend => backend.lockProtection());
+    }
+  }
+
+  async changePasscode(
+    current: string,
+    next: string,
+    confirmation: string,
+  ): Promise<void> {
+    validatePasscode(next);
+    if (next !== confirmation) {
+      throw new ProtectionError('passcode_mismatch');
+    }
+    await this.withAttempts(() =>
+      this.run(backend => backend.changeProtectionPasscode(current, next)),
+    );
+  }
+
+  async setBiometrics(enabled: boolean): Promise<void> {
+    await this.run(backend => backend.setProtectionBiometrics(enabled));
+  }
+
+  // すべてのファイルと値を復号して保護モードを解除する
+  async disable(passcode: string): Promise<void> {
+    await this.withAttempts(() =>
+      this.run(async backend => {
+        // 値の復号に鍵がいるので、先にロックを解除する
+        await backend.unlockProtection(passcode);
+        await unsealProtectedItems(backend, PROTECTED_STORES);
+        return backend.disableProtection(passcode);
+      }),
+    );
+  }
+
+  /**
+   * 保存した録音を暗号化する。保護モードが無効なら何もしない。
+   * 証拠ログへの登録（元の音声のハッシュ計算）が済んでから呼ぶこと。
+   */
+  async protectFile(fileName: string): Promise<boolean> {
+    const backend = this.backend;
+    if (!backend || !this.status.enabled) {
+      return false;
+    }
+    try {
+      const encrypted = await backend.encryptFile(fileName);
+      await backend.encryptFile(transcriptFileName(fileName));
+      return encrypted;
+    } catch (error) {
+      // 録音中のファイルは停止後に暗号化する
+      if (
+        (error as {code?: unknown} | null)?.code === 'recording_in_progress'
+      ) {
+        return false;
+      }
+      throw toProtectionError(error);
+    }
+  }
+
+  async protectFiles(fileNames: string[]): Promise<number> {
+    let count = 0;
+    for (const fileName of fileNames) {
+      if (await this.protectFile(fileName)) {
+        count++;
+      }
+    }
+    return count;
+  }
+
+  // 有効にする前に保存した値と証拠ログを暗号化する
+  private async sealExisting(): Promise<void> {
+    const backend = this.backend;
+    if (!backend) {
+      return;
+    }
+    try {
+      await sealProtectedItems(backend, PROTECTED_STORES);
+      await backend.encryptFile(MANIFEST_FILE_NAME);
+    } catch (error) {
+      throw toProtectionError(error);
+    }
+  }
+
+  private async withAttempts(task: () => Promise<unknown>): Promise<void> {
+    const wait = lockoutSeconds(await loadPasscodeAttempts(), this.now());
+    if (wait > 0) {
+      throw new ProtectionError('too_many_attempts', {seconds: wait});
+    }
+    try {
+      await task();
+    } catch (error) {
+      if (error instanceof ProtectionError && error.code === 'wrong_passcode') {
+        await recordPasscodeFailure(this.now());
+      }
+      throw error;
+    }
+    await clearPasscodeAttempts();
+  }
+
+  private async run(
+    task: (backend: ProtectionBackend) => Promise<ProtectionStatus>,
+  ): Promise<ProtectionStatus> {
+    if (!this.backend) {
+      throw new ProtectionError('unavailable');
+    }
+    let next: ProtectionStatus;
+    try {
+      next = await task(this.backend);
+    } catch (error) {
+      throw toProtectionError(error);
+    }
+    this.status = next;
+    this.listeners.forEach(listener => listener(next));
+    return next;
+  }
+}
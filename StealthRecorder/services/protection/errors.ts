@@ -0,0 +1,52 @@
+import type {ProtectionErrorCode} from './types';
+
+// ログ向けの既定の文言。画面にはカタログ（protectionError.*）の文言を出す
+const DEFAULT_MESSAGES: Record<ProtectionErrorCode, string> = {
+  unavailable: '保護モードはiOSデバイスでのみ利用できます。',
+  invalid_passcode: 'パスコードは数字6〜12桁で入力してください。',
+  passcode_mismatch: '確認用のパスコードが一致しません。',
+  wrong_passcode: 'パスコードが違います。',
+  too_many_attempts:
+    'パスコードの入力に続けて失敗したため、しばらく入力できません。',
+  locked: '録音を開くには保護モードのロックを解除してください。',
+  biometrics_failed: '生体認証でロックを解除できませんでした。',
+  already_enabled: '保護モードは既に有効です。',
+  not_enabled: '保護モードが有効になっていません。',
+  io_failed: '保護モードの操作に失敗しました。',
+};
+
+// ネイティブの reject コードとの対応
+const NATIVE_CODES: Record<string, ProtectionErrorCode> = {
+  wrong_passcode: 'wrong_passcode',
+  locked: 'locked',
+  biometrics_failed: 'biometrics_failed',
+  already_enabled: 'already_enabled',
+  not_enabled: 'not_enabled',
+};
+
+export class ProtectionError extends Error {
+  readonly code: ProtectionErrorCode;
+  // 文言の {name} に差し込む値（too_many_attempts の seconds など）
+  readonly params: Record<string, string | number>;
+
+  constructor(
+    code: ProtectionErrorCode,
+    params: Record<string, string | number> = {},
+  ) {
+    super(DEFAULT_MESSAGES[code]);
+    this.name = 'ProtectionError';
+    this.code = code;
+    this.params = params;
+  }
+}
+
+export const toProtectionError = (error: unknown): ProtectionError => {
+  if (error instanceof ProtectionError) {
+    return error;
+  }
+  const nativeCode = (error as {code?: unknown} | null)?.code;
+  if (typeof nativeCode === 'string' && NATIVE_CODES[nativeCode]) {
+    return new ProtectionError(NATIVE_CODES[nativeCode]);
+  }
+  return new ProtectionError('io_failed');
+};
@@ -0,0 +1,133 @@
+import type {ProtectionBackend, ProtectionStatus} from './types';
+
+const nativeError = (code: string) => Object.assign(new Error(code), {code});
+
+/**
+ * Jest 用。暗号化したファイル名だけを覚えておく。
+ * テキストは暗号文の代わりに連番を返し、中身はこちらで持っておく。
+ */
+export class FakeProtectionBackend implements ProtectionBackend {
+  readonly files: Set<string>;
+  readonly encrypted = new Set<string>();
+  readonly sealed = new Map<string, string>();
+  recordingFileName: string | null = null;
+  biometryType: ProtectionStatus['biometryType'] = 'faceID';
+  private passcode: string | null = null;
+  private unlocked = false;
+  private biometrics = false;
+
+  constructor(files: string[] = []) {
+    this.files = new Set(files);
+  }
+
+  getProtectionStatus = async (): Promise<ProtectionStatus> => ({
+    enabled: this.passcode !== null,
+    unlocked: this.unlocked,
+    biometryType: this.biometryType,
+    biometricsEnabled: this.biometrics,
+  });
+
+  enableProtection = async (
+    passcode: string,
+    useBiometrics: boolean,
+  ): Promise<ProtectionStatus> => {
+    if (this.passcode !== null) {
+      throw nativeError('already_enabled');
+    }
+    this.passcode = passcode;
+    this.unlocked = true;
+    this.biometrics = useBiometrics;
+    return this.getProtectionStatus();
+  };
+
+  unlockProtection = async (passcode: string): Promise<ProtectionStatus> => {
+    this.checkPasscode(passcode);
+    this.unlocked = true;
+    return this.getProtectionStatus();
+  };
+
+  unlockProtectionWithBiometrics = async (): Promise<ProtectionStatus> => {
+    if (!this.biometrics) {
+      throw nativeError('biometrics_failed');
+    }
+    this.unlocked = true;
+    return this.getProtectionStatus();
+  };
+
+  lockProtection = async (): Promise<ProtectionStatus> => {
+    this.unlocked = false;
+    return this.getProtectionStatus();
+  };
+
+  changeProtectionPasscode = async (
+    current: string,
+    next: string,
+  ): Promise<ProtectionStatus> => {
+    this.checkPasscode(current);
+    this.passcode = next;
+    this.unlocked = true;
+    return this.getProtectionStatus();
+  };
+
+  setProtectionBiometrics = async (
+    enabled: boolean,
+  ): Promise<ProtectionStatus> => {
+    if (enabled && !this.unlocked) {
+      throw nativeError('locked');
+    }
+    this.biometrics = enabled;
+    return this.getProtectionStatus();
+  };
+
+  disableProtection = async (passcode: string): Promise<ProtectionStatus> => {
+    this.checkPasscode(passcode);
+    this.encrypted.clear();
+    this.passcode = null;
+    this.unlocked = false;
+    this.biometrics = false;
+    return this.getProtectionStatus();
+  };
+
+  encryptFile = async (name: string): Promise<boolean> => {
+    if (this.passcode === null) {
+      throw nativeError('not_enabled');
+    }
+    if (name === this.recordingFileName) {
+      throw nativeError('recording_in_progress');
+    }
+    if (!this.files.has(name) || this.encrypted.has(name)) {
+      return false;
+    }
+    this.encrypted.add(name);
+    return true;
+  };
+
+  sealText = async (text: string): Promise<string> => {
+    if (this.passcode === null) {
+      throw nativeError('not_enabled');
+    }
+    const sealed = `sealed-${this.sealed.size}`;
+    this.sealed.set(sealed, text);
+    return sealed;
+  };
+
+  openSealedText = async (sealed: string): Promise<string> => {
+    if (!this.unlocked) {
+      throw nativeError('locked');
+    }
+    const text = this.sealed.get(sealed);
+    if (text === undefined) {
+      throw nativeError('corrupted');
+    }
+    return text;
+  };
+
+  private checkPasscode(passcode: string) {
+    if (this.passcode === null) {
+      throw nativeError('not_enabled');
+    }
+    if (passcode !== this.passcode) {
+      throw nativeError('wrong_passcode');
+    }
+  }
+}
@@ -0,0 +1,21 @@
+export {ProtectionService} from './ProtectionService';
+export {
+  ProtectionProvider,
+  useProtection,
+  useProtectionStatus,
+} from './ProtectionContext';
+export {ProtectionError, toProtectionError} from './errors';
+export {FakeProtectionBackend} from './fakeProtection';
+export {getNativeProtectionBackend} from './nativeProtection';
+export {FREE_ATTEMPTS, lockoutSeconds, validatePasscode} from './passcode';
+export {setProtectedStorageBackend} from './protectedStorage';
+export type {PasscodeAttempts} from './passcode';
+export type {
+  BiometryType,
+  MergeParts,
+  ProtectedStore,
+  ProtectionBackend,
+  ProtectionErrorCode,
+  ProtectionListener,
+  ProtectionStatus,
+} from './types';
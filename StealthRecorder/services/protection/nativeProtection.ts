@@ -0,0 +1,5 @@
+import {NativeModules} from 'react-native';
+import type {ProtectionBackend} from './types';
+
+export const getNativeProtectionBackend = (): ProtectionBackend | null =>
+  NativeModules.RecorderManager ?? null;
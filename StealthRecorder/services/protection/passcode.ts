@@ -0,0 +1,71 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {ProtectionError} from './errors';
+
+const ATTEMPTS_STORAGE_KEY = 'twotaprecorder:protectionAttempts';
+
+// この回数までは待ち時間なしで入力できる
+export const FREE_ATTEMPTS = 5;
+const BASE_LOCKOUT_SECONDS = 30;
+const MAX_LOCKOUT_SECONDS = 60 * 60;
+
+export type PasscodeAttempts = {
+  failures: number;
+  lastFailedAt: string | null;
+};
+
+const NO_ATTEMPTS: PasscodeAttempts = {failures: 0, lastFailedAt: null};
+
+// 数字 6〜12 桁。違えば ProtectionError('invalid_passcode')
+export const validatePasscode = (passcode: string): void => {
+  if (!/^\d{6,12}$/.test(passcode)) {
+    throw new ProtectionError('invalid_passcode');
+  }
+};
+
+/**
+ * 続けて失敗したときの待ち時間（秒）。
+ * FREE_ATTEMPTS 回を超えると 30 秒から倍々に延び、最長 1 時間。
+ */
+export const lockoutSeconds = (
+  {failures, lastFailedAt}: PasscodeAttempts,
+  now: Date,
+): number => {
+  if (failures < FREE_ATTEMPTS || !lastFailedAt) {
+    return 0;
+  }
+  const wait = Math.min(
+    BASE_LOCKOUT_SECONDS * 2 ** (failures - FREE_ATTEMPTS),
+    MAX_LOCKOUT_SECONDS,
+  );
+  const elapsed = (now.getTime() - new Date(lastFailedAt).getTime()) / 1000;
+  return Math.max(0, Math.ceil(wait - elapsed));
+};
+
+export const loadPasscodeAttempts = async (): Promise<PasscodeAttempts> => {
+  const value = await AsyncStorage.getItem(ATTEMPTS_STORAGE_KEY);
+  if (!value) {
+    return NO_ATTEMPTS;
+  }
+  try {
+    const parsed = JSON.parse(value) as Partial<PasscodeAttempts>;
+    return {
+      failures: typeof parsed.failures === 'number' ? parsed.failures : 0,
+      lastFailedAt:
+        typeof parsed.lastFailedAt === 'string' ? parsed.lastFailedAt : null,
+    };
+  } catch {
+    return NO_ATTEMPTS;
+  }
+};
+
+export const recordPasscodeFailure = async (
+  now: Date,
+): Promise<PasscodeAttempts> => {
+  const {failures} = await loadPasscodeAttempts();
+  const next = {failures: failures + 1, lastFailedAt: now.toISOString()};
+  await AsyncStorage.setItem(ATTEMPTS_STORAGE_KEY, JSON.stringify(next));
+  return next;
+};
+
+export const clearPasscodeAttempts = (): Promise<void> =>
+  AsyncStorage.removeItem(ATTEMPTS_STORAGE_KEY);
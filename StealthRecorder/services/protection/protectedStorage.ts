@@ -0,0 +1,180 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {ProtectionError, toProtectionError} from './errors';
+import {getNativeProtectionBackend} from './nativeProtection';
+import type {MergeParts, ProtectedStore, ProtectionBackend} from './types';
+
+// 暗号化した値の印。続けて暗号文（base64）を 1 行に 1 つずつ並べる
+const SEALED_PREFIX = 'ttrvault:';
+
+let storageBackend: ProtectionBackend | null | undefined;
+
+const currentBackend = (): ProtectionBackend | null => {
+  if (storageBackend === undefined) {
+    storageBackend = getNativeProtectionBackend();
+  }
+  return storageBackend;
+};
+
+// Jest 用。undefined を渡すとネイティブに戻す
+export const setProtectedStorageBackend = (
+  backend: ProtectionBackend | null | undefined,
+): void => {
+  storageBackend = backend;
+};
+
+const isSealed = (value: string) => value.startsWith(SEALED_PREFIX);
+
+const isSealing = async (backend: ProtectionBackend | null) => {
+  if (!backend) {
+    return false;
+  }
+  try {
+    return (await backend.getProtectionStatus()).enabled;
+  } catch (error) {
+    throw toProtectionError(error);
+  }
+};
+
+const seal = async (backend: ProtectionBackend, text: string) => {
+  try {
+    return await backend.sealText(text);
+  } catch (error) {
+    throw toProtectionError(error);
+  }
+};
+
+// 暗号化した値はロック中に読めない（ProtectionError の locked）
+const openParts = async (
+  backend: ProtectionBackend | null,
+  value: string | null,
+): Promise<string[]> => {
+  if (value === null) {
+    return [];
+  }
+  if (!isSealed(value)) {
+    return [value];
+  }
+  if (!backend) {
+    throw new ProtectionError('unavailable');
+  }
+  try {
+    return await Promise.all(
+      value
+        .slice(SEALED_PREFIX.length)
+        .split('\n')
+        .map(part => backend.openSealedText(part)),
+    );
+  } catch (error) {
+    throw toProtectionError(error);
+  }
+};
+
+const toValue = (parts: string[], merge: MergeParts) =>
+  parts.length > 0 ? merge(parts) : null;
+
+export const readProtectedItem = async (
+  key: string,
+  merge: MergeParts,
+): Promise<string | null> => {
+  const backend = currentBackend();
+  return toValue(
+    await openParts(backend, await AsyncStorage.getItem(key)),
+    merge,
+  );
+};
+
+export const readProtectedItems = async (
+  keys: string[],
+  merge: MergeParts,
+): Promise<(string | null)[]> => {
+  const backend = currentBackend();
+  const pairs = await AsyncStorage.multiGet(keys);
+  return Promise.all(
+    pairs.map(async ([, value]) =>
+      toValue(await openParts(backend, value), merge),
+    ),
+  );
+};
+
+// 保護モードなら暗号化して置き換える
+export const writeProtectedItem = async (
+  key: string,
+  value: string,
+): Promise<void> => {
+  const backend = currentBackend();
+  await AsyncStorage.setItem(
+    key,
+    backend && (await isSealing(backend))
+      ? `${SEALED_PREFIX}${await seal(backend, value)}`
+      : value,
+  );
+};
+
+/**
+ * 値に部分を足す。保護モードでは保存済みの値を読まずに暗号文を並べるので、
+ * ロック中の録音でもマーカーや位置を書ける（読むときに merge で重ねる）。
+ */
+export const appendProtectedItem = async (
+  key: string,
+  part: string,
+  merge: MergeParts,
+): Promise<void> => {
+  const backend = currentBackend();
+  const current = await AsyncStorage.getItem(key);
+  if (!backend || !(await isSealing(backend))) {
+    await AsyncStorage.setItem(
+      key,
+      merge([...(await openParts(backend, current)), part]),
+    );
+    return;
+  }
+  const sealed = await seal(backend, part);
+  if (current === null) {
+    await AsyncStorage.setItem(key, `${SEALED_PREFIX}${sealed}`);
+  } else if (isSealed(current)) {
+    await AsyncStorage.setItem(key, `${current}\n${sealed}`);
+  } else {
+    await AsyncStorage.setItem(
+      key,
+      `${SEALED_PREFIX}${await seal(backend, current)}\n${sealed}`,
+    );
+  }
+};
+
+const storeKeys = async (stores: ProtectedStore[]) =>
+  (await AsyncStorage.getAllKeys()).flatMap(key => {
+    const store = stores.find(item => key.startsWith(item.prefix));
+    return store ? [{key, store}] : [];
+  });
+
+// 保護モードを有効にしたときに、保存済みの値を暗号化する
+export const sealProtectedItems = async (
+  backend: ProtectionBackend,
+  stores: ProtectedStore[],
+): Promise<void> => {
+  for (const {key} of await storeKeys(stores)) {
+    const value = await AsyncStorage.getItem(key);
+    if (value !== null && !isSealed(value)) {
+      await AsyncStorage.setItem(
+        key,
+        `${SEALED_PREFIX}${await seal(backend, value)}`,
+      );
+    }
+  }
+};
+
+// 保護モードを解除する前に元に戻す（鍵を消す前、ロック解除中に呼ぶ）
+export const unsealProtectedItems = async (
+  backend: ProtectionBackend,
+  stores: ProtectedStore[],
+): Promise<void> => {
+  for (const {key, store} of await storeKeys(stores)) {
+    const value = await AsyncStorage.getItem(key);
+    if (value !== null && isSealed(value)) {
+      await AsyncStorage.setItem(
+        key,
+        store.merge(await openParts(backend, value)),
+      );
+    }
+  }
+};
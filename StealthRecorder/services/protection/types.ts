@@ -0,0 +1,55 @@
+export type BiometryType = 'faceID' | 'touchID' | 'none';
+
+export type ProtectionStatus = {
+  enabled: boolean;
+  // 復号用の鍵がメモリにある（ライブラリ・再生・書き出しができる）
+  unlocked: boolean;
+  biometryType: BiometryType;
+  biometricsEnabled: boolean;
+};
+
+export type ProtectionListener = (status: ProtectionStatus) => void;
+
+export type ProtectionBackend = {
+  getProtectionStatus: () => Promise<ProtectionStatus>;
+  enableProtection: (
+    passcode: string,
+    useBiometrics: boolean,
+  ) => Promise<ProtectionStatus>;
+  unlockProtection: (passcode: string) => Promise<ProtectionStatus>;
+  unlockProtectionWithBiometrics: (reason: string) => Promise<ProtectionStatus>;
+  lockProtection: () => Promise<ProtectionStatus>;
+  changeProtectionPasscode: (
+    current: string,
+    next: string,
+  ) => Promise<ProtectionStatus>;
+  setProtectionBiometrics: (enabled: boolean) => Promise<ProtectionStatus>;
+  // Documents 内の暗号化ファイルを元に戻してから鍵を削除する
+  disableProtection: (passcode: string) => Promise<ProtectionStatus>;
+  // 暗号化したら true。既に暗号化済み・ファイルがなければ false
+  encryptFile: (name: string) => Promise<boolean>;
+  // AsyncStorage に置く値の暗号化（base64 の暗号文）。暗号化はロック中でもできる
+  sealText: (text: string) => Promise<string>;
+  openSealedText: (sealed: string) => Promise<string>;
+};
+
+// 追記した部分を順に重ねて 1 つの値にする
+export type MergeParts = (parts: string[]) => string;
+
+// 保護モードで暗号化する AsyncStorage の値（キーの接頭辞と、追記した部分のまとめ方）
+export type ProtectedStore = {
+  prefix: string;
+  merge: MergeParts;
+};
+
+export type ProtectionErrorCode =
+  | 'unavailable'
+  | 'invalid_passcode'
+  | 'passcode_mismatch'
+  | 'wrong_passcode'
+  | 'too_many_attempts'
+  | 'locked'
+  | 'biometrics_failed'
+  | 'already_enabled'
+  | 'not_enabled'
+  | 'io_failed';
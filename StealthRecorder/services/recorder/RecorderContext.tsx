@@ -0,0 +1,64 @@
+import React, {
+  createContext,
+  useContext,
+  useEffect,
+  useState,
+  useSyncExternalStore,
+} from 'react';
+import {RecorderService} from './RecorderService';
+import type {RecordingList, RecordingListSnapshot} from './RecordingList';
+import {
+  getNativeRecorderBackend,
+  getNativeRecorderEvents,
+} from './nativeRecorder';
+import type {RecorderSnapshot, RecordingLevels} from './types';
+
+let defaultService: RecorderService | null = null;
+
+const getDefaultRecorderService = (): RecorderService => {
+  if (!defaultService) {
+    defaultService = new RecorderService(
+      getNativeRecorderBackend(),
+      () => new Date(),
+      getNativeRecorderEvents(),
+    );
+  }
+  return defaultService;
+};
+
+const RecorderContext = createContext<RecorderService | null>(null);
+
+type RecorderProviderProps = {
+  service: RecorderService;
+  children: React.ReactNode;
+};
+
+export const RecorderProvider = ({
+  service,
+  children,
+}: RecorderProviderProps): React.JSX.Element => (
+  <RecorderContext.Provider value={service}>
+    {children}
+  </RecorderContext.Provider>
+);
+
+export const useRecorderService = (): RecorderService =>
+  useContext(RecorderContext) ?? getDefaultRecorderService();
+
+export const useRecorderSnapshot = (
+  service: RecorderService,
+): RecorderSnapshot =>
+  useSyncExternalStore(service.subscribe, service.getSnapshot);
+
+export const useRecordingLevels = (
+  service: RecorderService,
+): RecordingLevels | null => {
+  const [levels, setLevels] = useState<RecordingLevels | null>(null);
+  useEffect(() => service.subscribeLevels(setLevels), [service]);
+  return levels;
+};
+
+export const useRecordingListSnapshot = (
+  list: RecordingList,
+): RecordingListSnapshot =>
+  useSyncExternalStore(list.subscribe, list.getSnapshot);
@@ -0,0 +1,569 @@
+import {RecorderError, toRecorderError} from './errors';
+import {DEFAULT_LIST_OPTIONS} from './listing';
+import {followingSegment, parseSegmentName} from './segments';
+import {
+  SessionJournal,
+  clearSessionJournal,
+  loadSessionJournal,
+  saveSessionJournal,
+} from './sessionJournal';
+import {canTransition, isSettled} from './stateMachine';
+import {classifyFreeSpace} from './storage';
+import type {
+  InterruptedRecording,
+  LevelListener,
+  NativeStartOptions,
+  PendingMarker,
+  RecorderBackend,
+  RecorderErrorCode,
+  RecorderEvent,
+  RecorderEventSource,
+  RecorderListener,
+  RecorderSnapshot,
+  RecorderState,
+  RecordingFile,
+  RecordingLevels,
+  RecordingListOptions,
+  RecordingPage,
+  RecordingPosition,
+  SegmentListener,
+  StartOptions,
+  StorageStatus,
+} from './types';
+
+// ネイティブが録音していなかった場合に stopRecording が返す値
+const IDLE_RESULT = 'idle';
+// 経過時間とレベルメーターの更新間隔
+const LEVEL_INTERVAL_MS = 250;
+// 録音中に空き容量と分割の切り替えを確認する間隔
+const MONITOR_INTERVAL_MS = 5000;
+
+// 分割録音中のセッション
+type SegmentSession = {
+  segmentSeconds: number;
+  options: NativeStartOptions;
+  sessionName: string | null;
+  index: number;
+  // 閉じた分割ファイルの合計秒数
+  elapsedBefore: number;
+};
+
+export class RecorderService {
+  private readonly backend: RecorderBackend | null;
+  private readonly now: () => Date;
+  private snapshot: RecorderSnapshot = {
+    state: 'idle',
+    fileName: null,
+    error: null,
+    storage: null,
+  };
+  private listeners = new Set<RecorderListener>();
+  private levelListeners = new Set<LevelListener>();
+  private savedListeners = new Set<SegmentListener>();
+  private fileListeners = new Set<() => void>();
+  private levelTimer: ReturnType<typeof setInterval> | null = null;
+  private monitorTimer: ReturnType<typeof setInterval> | null = null;
+  private monitorUsers = 0;
+  private monitoring = false;
+  private session: SegmentSession | null = null;
+
+  constructor(
+    backend: RecorderBackend | null,
+    now: () => Date = () => new Date(),
+    events: RecorderEventSource | null = null,
+  ) {
+    this.backend = backend;
+    this.now = now;
+    events?.subscribe(this.handleEvent);
+  }
+
+  get isAvailable(): boolean {
+    return this.backend !== null;
+  }
+
+  getSnapshot = (): RecorderSnapshot => this.snapshot;
+
+  subscribe = (listener: RecorderListener): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  /**
+   * 録音中の経過時間・入力レベル・ファイルサイズを定期的に受け取る。
+   * 購読者がいる間だけネイティブへ問い合わせる。録音していなければ null。
+   */
+  subscribeLevels = (listener: LevelListener): (() => void) => {
+    this.levelListeners.add(listener);
+    if (!this.levelTimer) {
+      this.levelTimer = setInterval(this.pollLevels, LEVEL_INTERVAL_MS);
+    }
+    this.pollLevels();
+    return () => {
+      this.levelListeners.delete(listener);
+      if (this.levelListeners.size === 0 && this.levelTimer) {
+        clearInterval(this.levelTimer);
+        this.levelTimer = null;
+      }
+    };
+  };
+
+  /**
+   * サービスが自分で閉じたファイル（分割の切り替え・容量不足での停止）を受け取る。
+   * stop() が返すファイルは含まない。
+   */
+  subscribeSavedFiles = (listener: SegmentListener): (() => void) => {
+    this.savedListeners.add(listener);
+    return () => {
+      this.savedListeners.delete(listener);
+    };
+  };
+
+  /**
+   * 録音ファイルが増えた・消えたときに呼ばれる（ネイティブのイベントが届く場合のみ）。
+   * アプリの外（背面タップ・ファイルアプリ）での変化も含む。
+   */
+  subscribeFileChanges = (listener: () => void): (() => void) => {
+    this.fileListeners.add(listener);
+    return () => {
+      this.fileListeners.delete(listener);
+    };
+  };
+
+  // 分割録音中の elapsed は最初のパートからの通算秒数
+  async readLevels(): Promise<RecordingLevels | null> {
+    if (!this.backend || this.snapshot.state !== 'recording') {
+      return null;
+    }
+    try {
+      const levels = await this.backend.getRecordingLevels();
+      return levels && this.session
+        ? {...levels, elapsed: levels.elapsed + this.session.elapsedBefore}
+        : levels;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * 空き容量を確認してスナップショットに反映する。
+   * ネイティブが対応していない・失敗した場合は null。
+   */
+  async checkStorage(): Promise<StorageStatus | null> {
+    const storage = await this.readStorage();
+    if (storage) {
+      this.update({storage});
+    }
+    return storage;
+  }
+
+  /**
+   * monitor() を MONITOR_INTERVAL_MS ごとに呼ぶ。
+   * アプリが動いている間だけ有効にし、返り値の関数で止める。
+   */
+  startMonitoring = (): (() => void) => {
+    this.monitorUsers += 1;
+    if (!this.monitorTimer) {
+      this.monitorTimer = setInterval(() => {
+        this.monitor();
+      }, MONITOR_INTERVAL_MS);
+    }
+    return () => {
+      this.monitorUsers -= 1;
+      if (this.monitorUsers === 0 && this.monitorTimer) {
+        clearInterval(this.monitorTimer);
+        this.monitorTimer = null;
+      }
+    };
+  };
+
+  /**
+   * 録音中の見回り。録音していなければ何もしない。
+   * 空き容量が尽きそうなら停止して保存し、分割時間を過ぎたら次のパートへ切り替える。
+   */
+  async monitor(): Promise<void> {
+    const backend = this.backend;
+    if (!backend || this.snapshot.state !== 'recording' || this.monitoring) {
+      return;
+    }
+    this.monitoring = true;
+    try {
+      const storage = await this.checkStorage();
+      if (storage?.level === 'full') {
+        // 書き込めなくなって録音が壊れる前に保存する
+        const fileName = await this.stop();
+        if (fileName) {
+          this.notifySaved(fileName);
+        }
+        return;
+      }
+      const session = this.session;
+      if (!session) {
+        return;
+      }
+      const status = await backend.getRecordingStatus();
+      if (status.isRecording && status.elapsed >= session.segmentSeconds) {
+        await this.rollOver(backend, session, status.elapsed);
+      }
+    } catch {
+      // 次の見回りでもう一度確かめる
+    } finally {
+      this.monitoring = false;
+    }
+  }
+
+  async requestPermission(): Promise<boolean> {
+    const backend = this.requireBackend();
+    try {
+      return await backend.requestPermission();
+    } catch (error) {
+      throw toRecorderError(error, 'permission_denied');
+    }
+  }
+
+  async start(options: StartOptions = {}): Promise<string> {
+    const backend = this.requireBackend();
+    if (!isSettled(this.snapshot.state)) {
+      throw new RecorderError('invalid_state');
+    }
+    this.transition('starting', {fileName: null});
+    const storage = await this.readStorage();
+    if (storage?.level === 'full') {
+      return this.fail(
+        new RecorderError('insufficient_storage'),
+        'start_failed',
+        {storage},
+      );
+    }
+    try {
+      const {segmentSeconds, continueFrom, ...nativeOptions} = options;
+      const continued = continueFrom ? followingSegment(continueFrom) : null;
+      const index = continued?.index ?? 1;
+      const fileName = await backend.startRecording(
+        continued
+          ? {
+              ...nativeOptions,
+              sessionName: continued.sessionName,
+              segmentIndex: index,
+            }
+          : segmentSeconds
+          ? {...nativeOptions, segmentIndex: index}
+          : nativeOptions,
+      );
+      this.session = segmentSeconds
+        ? {
+            segmentSeconds,
+            options: nativeOptions,
+            sessionName: parseSegmentName(fileName)?.sessionName ?? null,
+            index,
+            elapsedBefore: 0,
+          }
+        : null;
+      this.transition('recording', {fileName, storage});
+      const startedAt = this.now();
+      await this.writeJournal({
+        fileName,
+        startedAt: startedAt.toISOString(),
+        expectedEndAt: options.maxDurationSeconds
+          ? new Date(
+              startedAt.getTime() + options.maxDurationSeconds * 1000,
+            ).toISOString()
+          : null,
+      });
+      return fileName;
+    } catch (error) {
+      return this.fail(error, 'start_failed');
+    }
+  }
+
+  /**
+   * 録音を停止して保存したファイル名を返す。
+   * ネイティブ側が録音していなかった場合は null。
+   */
+  async stop(): Promise<string | null> {
+    const backend = this.requireBackend();
+    if (
+      this.snapshot.state === 'starting' ||
+      this.snapshot.state === 'stopping'
+    ) {
+      throw new RecorderError('invalid_state');
+    }
+    // ショートカット経由の録音は JS 側が未同期のこともあるため、
+    // 待機中ならネイティブの状態を確かめ、録音していなければ何も変えない
+    if (
+      this.snapshot.state !== 'recording' &&
+      (await this.sync()) !== 'recording'
+    ) {
+      return null;
+    }
+    this.transition('stopping', {});
+    try {
+      const result = await backend.stopRecording();
+      await clearSessionJournal().catch(() => undefined);
+      if (result === IDLE_RESULT) {
+        this.transition('idle', {fileName: null});
+        return null;
+      }
+      this.transition('saved', {fileName: result});
+      return result;
+    } catch (error) {
+      return this.fail(error, 'stop_failed');
+    }
+  }
+
+  /**
+   * ネイティブの録音状態に合わせる。
+   * 背面タップなどアプリ外から開始・停止された録音を反映するために使う。
+   */
+  async sync(): Promise<RecorderState> {
+    if (!this.backend) {
+      return this.snapshot.state;
+    }
+    const {state} = this.snapshot;
+    if (state === 'starting' || state === 'stopping') {
+      return state;
+    }
+    try {
+      const status = await this.backend.getRecordingStatus();
+      if (status.isRecording && state !== 'recording') {
+        this.transition('recording', {fileName: status.fileName});
+      } else if (!status.isRecording && state === 'recording') {
+        this.transition('idle', {});
+      }
+    } catch {
+      if (state === 'recording') {
+        this.transition('idle', {});
+      }
+    }
+    return this.snapshot.state;
+  }
+
+  /**
+   * 録音中なら現在のファイル名と経過秒数を返す。録音していなければ null。
+   */
+  async currentPosition(): Promise<RecordingPosition | null> {
+    if (!this.backend) {
+      return null;
+    }
+    try {
+      const status = await this.backend.getRecordingStatus();
+      return status.isRecording && status.fileName
+        ? {fileName: status.fileName, elapsed: status.elapsed}
+        : null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * twotaprecorder://mark でネイティブが記録したマーカーを受け取る（受け取った分はネイティブから消える）。
+   */
+  async consumePendingMarkers(): Promise<PendingMarker[]> {
+    if (!this.backend) {
+      return [];
+    }
+    try {
+      return await this.backend.consumePendingMarkers();
+    } catch {
+      return [];
+    }
+  }
+
+  /**
+   * 前回の録音が正常に停止しないまま終わっていれば、その録音と残っているファイルを返す。
+   * まだ録音中、または maxDurationSeconds で予定どおり止まった場合は null。
+   * 利用者が確認するまで記録は残すので、確認後に dismissInterrupted() を呼ぶ。
+   */
+  async findInterrupted(): Promise<InterruptedRecording | null> {
+    if (!this.backend) {
+      return null;
+    }
+    const journal = await loadSessionJournal();
+    if (!journal) {
+      return null;
+    }
+    let interruptedFileName: string | null;
+    try {
+      const status = await this.backend.getRecordingStatus();
+      if (status.isRecording) {
+        return null;
+      }
+      interruptedFileName = status.interruptedFileName ?? null;
+    } catch {
+      return null;
+    }
+    if (
+      journal.expectedEndAt &&
+      Date.parse(journal.expectedEndAt) <= this.now().getTime()
+    ) {
+      await clearSessionJournal();
+      return null;
+    }
+    const files = await this.listRecordings().catch(() => []);
+    return {
+      fileName: journal.fileName,
+      startedAt: journal.startedAt,
+      reason:
+        interruptedFileName === journal.fileName ? 'interrupted' : 'terminated',
+      file: files.find(file => file.name === journal.fileName) ?? null,
+    };
+  }
+
+  async dismissInterrupted(): Promise<void> {
+    await clearSessionJournal();
+  }
+
+  // 並べ替えたすべての録音ファイル（既定は新しい順）
+  async listRecordings(
+    options: Omit<RecordingListOptions, 'offset' | 'limit'> = {},
+  ): Promise<RecordingFile[]> {
+    const {files} = await this.listRecordingPage(options);
+    return files;
+  }
+
+  /**
+   * 録音ファイルを並べ替えて offset から limit 件だけ返す。
+   * 読み込めなかった場合は list_failed の RecorderError を投げる。
+   */
+  async listRecordingPage(
+    options: RecordingListOptions = {},
+  ): Promise<RecordingPage> {
+    const backend = this.requireBackend();
+    try {
+      const page = await backend.getRecordingFiles({
+        ...DEFAULT_LIST_OPTIONS,
+        ...options,
+      });
+      return {files: page?.files ?? [], total: page?.total ?? 0};
+    } catch (error) {
+      throw toRecorderError(error, 'list_failed');
+    }
+  }
+
+  private async rollOver(
+    backend: RecorderBackend,
+    session: SegmentSession,
+    elapsed: number,
+  ) {
+    const elapsedBefore = session.elapsedBefore + elapsed;
+    const {maxDurationSeconds} = session.options;
+    const remaining =
+      maxDurationSeconds === undefined
+        ? undefined
+        : maxDurationSeconds - elapsedBefore;
+    if (remaining !== undefined && remaining <= 0) {
+      // ネイティブが自分で停止する
+      return;
+    }
+    const index = session.index + 1;
+    const {savedFileName, fileName} = await backend.rolloverRecording({
+      ...session.options,
+      ...(remaining !== undefined ? {maxDurationSeconds: remaining} : {}),
+      ...(session.sessionName ? {sessionName: session.sessionName} : {}),
+      segmentIndex: index,
+    });
+    // 切り替えの間に停止された場合は新しいパートを stop() の結果に任せる
+    if (this.session === session && this.snapshot.state === 'recording') {
+      this.session = {...session, index, elapsedBefore};
+      this.update({fileName});
+      const journal = await loadSessionJournal().catch(() => null);
+      if (journal) {
+        await this.writeJournal({...journal, fileName});
+      }
+    }
+    this.notifySaved(savedFileName);
+  }
+
+  private async readStorage(): Promise<StorageStatus | null> {
+    if (!this.backend) {
+      return null;
+    }
+    try {
+      const freeBytes = await this.backend.getFreeDiskSpace();
+      return {level: classifyFreeSpace(freeBytes), freeBytes};
+    } catch {
+      return null;
+    }
+  }
+
+  // 記録に失敗しても録音は続ける（次回起動時に途切れを検出できないだけ）
+  private async writeJournal(journal: SessionJournal) {
+    await saveSessionJournal(journal).catch(() => undefined);
+  }
+
+  private handleEvent = (event: RecorderEvent) => {
+    const {state, fileName} = this.snapshot;
+    switch (event.type) {
+      case 'started':
+        // 背面タップなどアプリの外から始まった録音（自分で始めた録音は start() が反映する）
+        if (isSettled(state)) {
+          this.transition('recording', {fileName: event.fileName});
+        }
+        break;
+      case 'stopped':
+        // 上限時間や中断でネイティブが止めた録音。stop() 中の停止は stop() に任せる
+        if (
+          state === 'recording' &&
+          (fileName === null || fileName === event.fileName)
+        ) {
+          this.transition('idle', {});
+        }
+        break;
+      case 'files-changed':
+        this.fileListeners.forEach(listener => listener());
+        break;
+    }
+  };
+
+  private notifySaved(fileName: string) {
+    this.savedListeners.forEach(listener => listener(fileName));
+  }
+
+  private pollLevels = async () => {
+    const levels = await this.readLevels();
+    this.levelListeners.forEach(listener => listener(levels));
+  };
+
+  private requireBackend(): RecorderBackend {
+    if (!this.backend) {
+      throw new RecorderError('unavailable');
+    }
+    return this.backend;
+  }
+
+  private fail(
+    error: unknown,
+    code: RecorderErrorCode,
+    patch: Partial<Omit<RecorderSnapshot, 'state'>> = {},
+  ): never {
+    const recorderError = toRecorderError(error, code);
+    this.transition('failed', {...patch, error: recorderError.code});
+    throw recorderError;
+  }
+
+  private transition(
+    state: RecorderState,
+    patch: Partial<Omit<RecorderSnapshot, 'state'>>,
+  ) {
+    if (!canTransition(this.snapshot.state, state)) {
+      throw new RecorderError('invalid_state');
+    }
+    this.snapshot = {
+      ...this.snapshot,
+      error: state === 'failed' ? this.snapshot.error : null,
+      ...patch,
+      state,
+    };
+    if (state !== 'recording') {
+      this.session = null;
+    }
+    this.listeners.forEach(listener => listener(this.snapshot));
+  }
+
+  // 状態を変えずにスナップショットの一部だけ更新する
+  private update(patch: Partial<Omit<RecorderSnapshot, 'state'>>) {
+    this.snapshot = {...this.snapshot, ...patch};
+    this.listeners.forEach(listener => listener(this.snapshot));
+  }
+}
@@ -0,0 +1,105 @@
+import type {RecorderError} from './errors';
+import {toRecorderError} from './errors';
+import {DEFAULT_LIST_OPTIONS} from './listing';
+import type {RecorderService} from './RecorderService';
+import type {RecordingFile, RecordingSortKey, SortOrder} from './types';
+
+/**
+ * idle: まだ読み込んでいない（録音機能が使えない場合もこのまま）
+ * loading: 読み込み中 / ready: 読み込めた / error: 直近の読み込みに失敗した
+ */
+export type RecordingListStatus = 'idle' | 'loading' | 'ready' | 'error';
+
+export type RecordingListSnapshot = {
+  status: RecordingListStatus;
+  // 読み込みに失敗しても直前に読み込めた一覧は残す
+  files: RecordingFile[];
+  error: RecorderError | null;
+  sort: RecordingSortKey;
+  order: SortOrder;
+};
+
+export type RecordingListListener = (snapshot: RecordingListSnapshot) => void;
+
+/**
+ * 録音ファイル一覧の読み込み状態。
+ * 読み込み中に refresh() が重なった場合は、終わってからもう一度だけ読み直す。
+ */
+export class RecordingList {
+  private readonly recorder: RecorderService;
+  private snapshot: RecordingListSnapshot = {
+    status: 'idle',
+    files: [],
+    error: null,
+    ...DEFAULT_LIST_OPTIONS,
+  };
+  private listeners = new Set<RecordingListListener>();
+  private running: Promise<RecordingFile[] | null> | null = null;
+  private stale = false;
+
+  constructor(recorder: RecorderService) {
+    this.recorder = recorder;
+  }
+
+  getSnapshot = (): RecordingListSnapshot => this.snapshot;
+
+  subscribe = (listener: RecordingListListener): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  /**
+   * 一覧を読み直して返す。
+   * 録音機能が使えない・読み込めなかった場合は null（エラーはスナップショットに残る）。
+   */
+  refresh = (): Promise<RecordingFile[] | null> => {
+    if (this.running) {
+      this.stale = true;
+      return this.running;
+    }
+    this.running = this.loadUntilFresh().finally(() => {
+      this.running = null;
+    });
+    return this.running;
+  };
+
+  setSort(sort: RecordingSortKey, order: SortOrder) {
+    this.update({sort, order});
+    return this.refresh();
+  }
+
+  private async loadUntilFresh(): Promise<RecordingFile[] | null> {
+    let files: RecordingFile[] | null;
+    do {
+      this.stale = false;
+      files = await this.load();
+    } while (this.stale);
+    return files;
+  }
+
+  private async load(): Promise<RecordingFile[] | null> {
+    if (!this.recorder.isAvailable) {
+      return null;
+    }
+    this.update({status: 'loading'});
+    const {sort, order} = this.snapshot;
+    try {
+      const files = await this.recorder.listRecordings({sort, order});
+      this.update({status: 'ready', files, error: null});
+      return files;
+    } catch (error) {
+      this.update({
+        status: 'error',
+        error: toRecorderError(error, 'list_failed'),
+      });
+      return null;
+    }
+  }
+
+  private update(patch: Partial<RecordingListSnapshot>) {
+    this.snapshot = {...this.snapshot, ...patch};
+    this.listeners.forEach(listener => listener(this.snapshot));
+  }
+}
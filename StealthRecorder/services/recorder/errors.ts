@@ -0,0 +1,45 @@
+import type {RecorderErrorCode} from './types';
+
+// ログ向けの既定の文言。画面にはカタログ（recorderError.*）の文言を出す
+const DEFAULT_MESSAGES: Record<RecorderErrorCode, string> = {
+  unavailable: '録音機能はiOSデバイスでのみ利用できます。',
+  permission_denied:
+    '設定アプリでマイク権限を許可してからもう一度お試しください。',
+  start_failed: '録音を開始できませんでした。',
+  stop_failed: '録音を停止できませんでした。',
+  list_failed: '録音ファイルを読み込めませんでした。',
+  insufficient_storage:
+    '端末の空き容量が不足しているため録音できません。不要なファイルを削除してからもう一度お試しください。',
+  invalid_state: '現在の状態ではこの操作を行えません。',
+  unknown: '不明なエラーが発生しました。',
+};
+
+export class RecorderError extends Error {
+  readonly code: RecorderErrorCode;
+
+  constructor(code: RecorderErrorCode, message?: string) {
+    super(message || DEFAULT_MESSAGES[code]);
+    this.name = 'RecorderError';
+    this.code = code;
+  }
+}
+
+/**
+ * ネイティブから投げられた任意の値を RecorderError に揃える。
+ * ネイティブ側の reject メッセージはログ用に message に残す（画面にはコードの文言を出す）。
+ */
+export const toRecorderError = (
+  error: unknown,
+  fallback: RecorderErrorCode = 'unknown',
+): RecorderError => {
+  if (error instanceof RecorderError) {
+    return error;
+  }
+  if (error instanceof Error && error.message) {
+    return new RecorderError(fallback, error.message);
+  }
+  if (typeof error === 'string' && error.length > 0) {
+    return new RecorderError(fallback, error);
+  }
+  return new RecorderError(fallback);
+};
@@ -0,0 +1,293 @@
+import {makeRecordingBaseName, makeRecordingFileName} from './fileNames';
+import {pageRecordingFiles} from './listing';
+import {estimateBytesPerSecond, fileExtensionFor} from './profiles';
+import {makeSegmentFileName} from './segments';
+import type {
+  NativeStartOptions,
+  PendingMarker,
+  RecorderBackend,
+  RecorderEvent,
+  RecorderEventListener,
+  RecorderEventSource,
+  RecorderStopReason,
+  RecordingFile,
+  RecordingLevels,
+  RecordingListOptions,
+  RecordingPage,
+  RecordingStatus,
+  SegmentRollover,
+} from './types';
+
+type FakeRecorderOptions = {
+  permissionGranted?: boolean;
+  files?: RecordingFile[];
+  now?: () => Date;
+};
+
+type FakeMethod = keyof RecorderBackend;
+
+type FakeRecording = {
+  name: string;
+  startedAt: Date;
+  options: NativeStartOptions;
+};
+
+// AAC 64kbps 相当
+const FAKE_BYTES_PER_SECOND = 8000;
+
+/**
+ * iOS ブリッジなしで UI を動かすためのメモリ上の録音バックエンド。
+ * ネイティブと同じく録音とファイルの変化をイベントで知らせる。
+ */
+export class FakeRecorderBackend
+  implements RecorderBackend, RecorderEventSource
+{
+  permissionGranted: boolean;
+  files: RecordingFile[];
+  // getRecordingLevels が返す入力レベル（dBFS）
+  inputLevel = {averagePower: -30, peakPower: -20};
+  // getFreeDiskSpace が返す空き容量（バイト）
+  freeDiskSpace = 64 * 1024 * 1024 * 1024;
+  pendingMarkers: PendingMarker[] = [];
+  private current: FakeRecording | null = null;
+  private interruptedFileName: string | null = null;
+  private failures = new Map<FakeMethod, unknown>();
+  private eventListeners = new Set<RecorderEventListener>();
+  private readonly now: () => Date;
+
+  constructor(options: FakeRecorderOptions = {}) {
+    this.permissionGranted = options.permissionGranted ?? true;
+    this.files = options.files ? [...options.files] : [];
+    this.now = options.now ?? (() => new Date());
+  }
+
+  // 次回の呼び出しだけ指定したエラーで失敗させる
+  failNext(method: FakeMethod, error: unknown) {
+    this.failures.set(method, error);
+  }
+
+  subscribe = (listener: RecorderEventListener): (() => void) => {
+    this.eventListeners.add(listener);
+    return () => {
+      this.eventListeners.delete(listener);
+    };
+  };
+
+  // ファイルアプリなどアプリの外から追加されたファイル
+  addFile(file: RecordingFile) {
+    this.files = [file, ...this.files];
+    this.emit({type: 'files-changed'});
+  }
+
+  // 電話などによる中断。ネイティブと同じく録音を保存して止める
+  interrupt() {
+    if (this.current) {
+      this.interruptedFileName = this.save('interrupted');
+    }
+  }
+
+  // 録音中のアプリ終了。途中までのファイルだけが残る
+  terminate() {
+    if (this.current) {
+      this.save(null);
+    }
+    this.interruptedFileName = null;
+  }
+
+  // ネイティブが twotaprecorder://mark を受け取ったときの記録を再現する（録音中のみ）
+  simulateMark(label: string, url = 'twotaprecorder://mark') {
+    if (!this.current) {
+      return;
+    }
+    const now = this.now();
+    this.pendingMarkers.push({
+      fileName: this.current.name,
+      offsetSeconds: (now.getTime() - this.current.startedAt.getTime()) / 1000,
+      label,
+      createdAt: now.toISOString(),
+      url,
+    });
+  }
+
+  get recordingName(): string | null {
+    return this.current?.name ?? null;
+  }
+
+  get recordingOptions(): NativeStartOptions | null {
+    return this.current?.options ?? null;
+  }
+
+  requestPermission = async (): Promise<boolean> => {
+    this.throwIfFailing('requestPermission');
+    return this.permissionGranted;
+  };
+
+  startRecording = async (
+    options: NativeStartOptions = {},
+  ): Promise<string> => {
+    this.throwIfFailing('startRecording');
+    this.expireIfNeeded();
+    if (!this.current) {
+      this.begin(options);
+    }
+    return this.current!.name;
+  };
+
+  rolloverRecording = async (
+    options: NativeStartOptions,
+  ): Promise<SegmentRollover> => {
+    this.throwIfFailing('rolloverRecording');
+    this.expireIfNeeded();
+    if (!this.current) {
+      throw new Error('録音していません');
+    }
+    const savedFileName = this.save(null);
+    this.begin(options);
+    return {savedFileName, fileName: this.current!.name};
+  };
+
+  stopRecording = async (): Promise<string> => {
+    this.throwIfFailing('stopRecording');
+    this.expireIfNeeded();
+    return this.current ? this.save('stopped') : 'idle';
+  };
+
+  isRecording = async (): Promise<boolean> => {
+    this.throwIfFailing('isRecording');
+    this.expireIfNeeded();
+    return this.current !== null;
+  };
+
+  getRecordingStatus = async (): Promise<RecordingStatus> => {
+    this.throwIfFailing('getRecordingStatus');
+    this.expireIfNeeded();
+    if (!this.current) {
+      return {
+        isRecording: false,
+        fileName: null,
+        elapsed: 0,
+        interruptedFileName: this.interruptedFileName,
+      };
+    }
+    return {
+      isRecording: true,
+      fileName: this.current.name,
+      elapsed: (this.now().getTime() - this.current.startedAt.getTime()) / 1000,
+    };
+  };
+
+  getRecordingLevels = async (): Promise<RecordingLevels | null> => {
+    this.throwIfFailing('getRecordingLevels');
+    const status = await this.getRecordingStatus();
+    if (!status.isRecording || !status.fileName) {
+      return null;
+    }
+    return {
+      fileName: status.fileName,
+      elapsed: status.elapsed,
+      ...this.inputLevel,
+      fileSize: Math.round(
+        status.elapsed *
+          (this.current?.options.profile
+            ? estimateBytesPerSecond(this.current.options.profile)
+            : FAKE_BYTES_PER_SECOND),
+      ),
+    };
+  };
+
+  getRecordingFiles = async (
+    options: RecordingListOptions,
+  ): Promise<RecordingPage> => {
+    this.throwIfFailing('getRecordingFiles');
+    // ネイティブと同じく書き込み中のファイルも一覧に出る
+    const files = this.current
+      ? [this.toRecordingFile(this.current), ...this.files]
+      : this.files;
+    return pageRecordingFiles(files, options);
+  };
+
+  getFreeDiskSpace = async (): Promise<number> => {
+    this.throwIfFailing('getFreeDiskSpace');
+    return this.freeDiskSpace;
+  };
+
+  consumePendingMarkers = async (): Promise<PendingMarker[]> => {
+    this.throwIfFailing('consumePendingMarkers');
+    const markers = this.pendingMarkers;
+    this.pendingMarkers = [];
+    return markers;
+  };
+
+  private begin(options: NativeStartOptions) {
+    const startedAt = this.now();
+    this.interruptedFileName = null;
+    const extension = fileExtensionFor(options.profile?.format ?? 'aac');
+    this.current = {
+      name: options.segmentIndex
+        ? makeSegmentFileName(
+            options.sessionName ?? makeRecordingBaseName(startedAt),
+            options.segmentIndex,
+            extension,
+          )
+        : makeRecordingFileName(startedAt, extension),
+      startedAt,
+      options,
+    };
+    this.emit({type: 'started', fileName: this.current.name});
+  }
+
+  // maxDurationSeconds を過ぎた録音はネイティブと同じく保存済みにする
+  private expireIfNeeded() {
+    const max = this.current?.options.maxDurationSeconds;
+    if (
+      this.current &&
+      max !== undefined &&
+      this.now().getTime() - this.current.startedAt.getTime() >= max * 1000
+    ) {
+      this.save('finished');
+    }
+  }
+
+  // reason が null なら録音は続いている（分割の切り替え）
+  private save(reason: RecorderStopReason | null): string {
+    const {name} = this.current!;
+    this.files = [this.toRecordingFile(this.current!), ...this.files];
+    this.current = null;
+    if (reason) {
+      this.emit({type: 'stopped', fileName: name, reason});
+    }
+    this.emit({type: 'files-changed'});
+    return name;
+  }
+
+  private toRecordingFile({
+    name,
+    startedAt,
+    options,
+  }: FakeRecording): RecordingFile {
+    const elapsed = (this.now().getTime() - startedAt.getTime()) / 1000;
+    return {
+      name,
+      path: `/fake/Documents/${name}`,
+      size: Math.round(
+        elapsed *
+          (options.profile
+            ? estimateBytesPerSecond(options.profile)
+            : FAKE_BYTES_PER_SECOND),
+      ),
+      date: startedAt.toISOString(),
+    };
+  }
+
+  private emit(event: RecorderEvent) {
+    this.eventListeners.forEach(listener => listener(event));
+  }
+
+  private throwIfFailing(method: FakeMethod) {
+    if (this.failures.has(method)) {
+      const error = this.failures.get(method);
+      this.failures.delete(method);
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,27 @@
+const pad = (value: number) => String(value).padStart(2, '0');
+
+const FILE_NAME_PATTERN =
+  /^recording-(\d{4})(\d{2})(\d{2})_(\d{2})(\d{2})(\d{2})/;
+
+// 拡張子を除いた recording-yyyyMMdd_HHmmss（分割録音ではセッション名になる）
+export const makeRecordingBaseName = (date: Date): string =>
+  `recording-${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(
+    date.getDate(),
+  )}_${pad(date.getHours())}${pad(date.getMinutes())}${pad(date.getSeconds())}`;
+
+// RecorderManager.swift と同じ recording-yyyyMMdd_HHmmss.m4a 形式（WAV は .wav）
+export const makeRecordingFileName = (date: Date, extension = 'm4a'): string =>
+  `${makeRecordingBaseName(date)}.${extension}`;
+
+/**
+ * ファイル名から録音開始時刻（端末のローカル時刻）を取り出す。
+ * 形式が違う場合は null。
+ */
+export const parseRecordingFileName = (name: string): Date | null => {
+  const match = FILE_NAME_PATTERN.exec(name);
+  if (!match) {
+    return null;
+  }
+  const [, year, month, day, hours, minutes, seconds] = match.map(Number);
+  return new Date(year, month - 1, day, hours, minutes, seconds);
+};
@@ -0,0 +1,106 @@
+export {RecorderService} from './RecorderService';
+export {RecordingList} from './RecordingList';
+export {RecorderError, toRecorderError} from './errors';
+export {FakeRecorderBackend} from './fakeRecorder';
+export {
+  makeRecordingBaseName,
+  makeRecordingFileName,
+  parseRecordingFileName,
+} from './fileNames';
+export {
+  DEFAULT_LIST_OPTIONS,
+  pageRecordingFiles,
+  sortRecordingFiles,
+} from './listing';
+export {
+  getNativeRecorderBackend,
+  getNativeRecorderEvents,
+} from './nativeRecorder';
+export {
+  RecorderProvider,
+  useRecorderService,
+  useRecorderSnapshot,
+  useRecordingLevels,
+  useRecordingListSnapshot,
+} from './RecorderContext';
+export {
+  SILENCE_THRESHOLD_DB,
+  meterFraction,
+  nextSilentSince,
+  silentSeconds,
+} from './levels';
+export {
+  DEFAULT_RECORDING_PROFILE_ID,
+  RECORDING_PROFILES,
+  describeProfileFormat,
+  estimateBytesPerHour,
+  estimateBytesPerSecond,
+  fileExtensionFor,
+  findRecordingProfile,
+} from './profiles';
+export {loadRecordingProfile, saveRecordingProfile} from './profileSettings';
+export {isSettled} from './stateMachine';
+export {
+  followingSegment,
+  groupRecordingSegments,
+  makeSegmentFileName,
+  parseSegmentName,
+} from './segments';
+export {
+  DEFAULT_SEGMENT_MINUTES,
+  SEGMENT_MINUTES_OPTIONS,
+  loadSegmentMinutes,
+  saveSegmentMinutes,
+} from './segmentSettings';
+export {
+  STORAGE_CRITICAL_BYTES,
+  STORAGE_FULL_BYTES,
+  STORAGE_LOW_BYTES,
+  classifyFreeSpace,
+  estimateRemainingSeconds,
+} from './storage';
+export {
+  DEFAULT_SILENCE_WARNING_SECONDS,
+  SILENCE_WARNING_OPTIONS,
+  loadSilenceWarningSeconds,
+  saveSilenceWarningSeconds,
+} from './silenceSettings';
+export type {
+  AudioFormat,
+  RecordingProfile,
+  RecordingProfileId,
+} from './profiles';
+export type {
+  RecordingListListener,
+  RecordingListSnapshot,
+  RecordingListStatus,
+} from './RecordingList';
+export type {RecordingGroup, SegmentName} from './segments';
+export type {SessionJournal} from './sessionJournal';
+export type {
+  InterruptedRecording,
+  LevelListener,
+  NativeStartOptions,
+  PendingMarker,
+  RecorderBackend,
+  RecorderErrorCode,
+  RecorderEvent,
+  RecorderEventListener,
+  RecorderEventSource,
+  RecorderSnapshot,
+  RecorderState,
+  RecorderStopReason,
+  RecordingFile,
+  RecordingLevels,
+  RecordingListOptions,
+  RecordingPage,
+  RecordingPosition,
+  RecordingSortKey,
+  RecordingStatus,
+  SegmentListener,
+  SegmentRollover,
+  SortOrder,
+  StartOptions,
+  StorageLevel,
+  StorageStatus,
+} from './types';
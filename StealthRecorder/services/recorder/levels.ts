@@ -0,0 +1,27 @@
+import type {RecordingLevels} from './types';
+
+// メーターの表示範囲。これより小さい値は 0 として描く
+const METER_FLOOR_DB = -60;
+// 平均レベルがこれ未満なら無音とみなす（ポケットの中の衣擦れ程度）
+export const SILENCE_THRESHOLD_DB = -50;
+
+// dBFS をレベルバー用の 0〜1 に変換する
+export const meterFraction = (db: number): number =>
+  Math.max(0, Math.min(1, (db - METER_FLOOR_DB) / -METER_FLOOR_DB));
+
+/**
+ * 無音が始まった録音上の時刻（秒）。音が入れば null に戻る。
+ * 経過時間はネイティブの値を使うため、ポーリングが遅れても長さがずれない。
+ */
+export const nextSilentSince = (
+  silentSince: number | null,
+  levels: RecordingLevels,
+): number | null =>
+  levels.averagePower < SILENCE_THRESHOLD_DB
+    ? silentSince ?? levels.elapsed
+    : null;
+
+export const silentSeconds = (
+  silentSince: number | null,
+  levels: RecordingLevels,
+): number => (silentSince === null ? 0 : levels.elapsed - silentSince);
@@ -0,0 +1,53 @@
+import type {
+  RecordingFile,
+  RecordingListOptions,
+  RecordingPage,
+  RecordingSortKey,
+  SortOrder,
+} from './types';
+
+export const DEFAULT_LIST_OPTIONS: Required<
+  Pick<RecordingListOptions, 'sort' | 'order'>
+> = {
+  sort: 'date',
+  order: 'desc',
+};
+
+const compareBy: Record<
+  RecordingSortKey,
+  (a: RecordingFile, b: RecordingFile) => number
+> = {
+  date: (a, b) => Date.parse(a.date) - Date.parse(b.date),
+  name: (a, b) => (a.name < b.name ? -1 : a.name > b.name ? 1 : 0),
+  size: (a, b) => a.size - b.size,
+};
+
+/**
+ * ネイティブ（RecorderManager.getRecordingFiles）と同じ順に並べる。
+ * 同じ値どうしはファイル名で並べ、ページの境目がずれないようにする。
+ */
+export const sortRecordingFiles = (
+  files: RecordingFile[],
+  sort: RecordingSortKey = DEFAULT_LIST_OPTIONS.sort,
+  order: SortOrder = DEFAULT_LIST_OPTIONS.order,
+): RecordingFile[] => {
+  const direction = order === 'asc' ? 1 : -1;
+  return [...files].sort(
+    (a, b) => direction * (compareBy[sort](a, b) || compareBy.name(a, b)),
+  );
+};
+
+export const pageRecordingFiles = (
+  files: RecordingFile[],
+  {sort, order, offset = 0, limit}: RecordingListOptions = {},
+): RecordingPage => {
+  const sorted = sortRecordingFiles(files, sort, order);
+  const start = Math.max(0, offset);
+  return {
+    files:
+      limit === undefined
+        ? sorted.slice(start)
+        : sorted.slice(start, start + Math.max(0, limit)),
+    total: files.length,
+  };
+};
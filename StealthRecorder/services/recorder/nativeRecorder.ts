@@ -0,0 +1,37 @@
+import {NativeEventEmitter, NativeModules} from 'react-native';
+import type {
+  RecorderBackend,
+  RecorderEvent,
+  RecorderEventSource,
+} from './types';
+
+// RecorderManager.supportedEvents と揃える
+const EVENT_NAMES = {
+  recordingStarted: 'started',
+  recordingStopped: 'stopped',
+  recordingFilesChanged: 'files-changed',
+} as const;
+
+// iOS 以外（および Jest）では RecorderManager は存在しない
+export const getNativeRecorderBackend = (): RecorderBackend | null =>
+  NativeModules.RecorderManager ?? null;
+
+export const getNativeRecorderEvents = (): RecorderEventSource | null => {
+  const manager = NativeModules.RecorderManager;
+  if (!manager) {
+    return null;
+  }
+  const emitter = new NativeEventEmitter(manager);
+  return {
+    subscribe: listener => {
+      const subscriptions = (
+        Object.keys(EVENT_NAMES) as (keyof typeof EVENT_NAMES)[]
+      ).map(name =>
+        emitter.addListener(name, body =>
+          listener({...body, type: EVENT_NAMES[name]} as RecorderEvent),
+        ),
+      );
+      return () => subscriptions.forEach(subscription => subscription.remove());
+    },
+  };
+};
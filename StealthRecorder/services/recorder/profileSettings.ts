@@ -0,0 +1,22 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  DEFAULT_RECORDING_PROFILE_ID,
+  RecordingProfile,
+  findRecordingProfile,
+} from './profiles';
+
+const STORAGE_KEY = 'twotaprecorder:recordingProfile';
+
+export const loadRecordingProfile = async (): Promise<RecordingProfile> => {
+  const id = await AsyncStorage.getItem(STORAGE_KEY);
+  return (
+    (id && findRecordingProfile(id)) ||
+    findRecordingProfile(DEFAULT_RECORDING_PROFILE_ID)!
+  );
+};
+
+export const saveRecordingProfile = async (
+  profile: RecordingProfile,
+): Promise<void> => {
+  await AsyncStorage.setItem(STORAGE_KEY, profile.id);
+};
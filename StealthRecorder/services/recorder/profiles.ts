@@ -0,0 +1,110 @@
+// 録音の形式。ALAC は m4a コンテナ、WAV は非圧縮 PCM
+export type AudioFormat = 'aac' | 'alac' | 'wav';
+
+export type RecordingProfileId =
+  | 'long'
+  | 'standard'
+  | 'high'
+  | 'lossless-alac'
+  | 'lossless-wav';
+
+/**
+ * 録音品質のプリセット。startRecording でそのままネイティブへ渡す。
+ * 名前と説明は表示言語のカタログ（profile.<id>.*）にある。
+ */
+export type RecordingProfile = {
+  id: RecordingProfileId;
+  format: AudioFormat;
+  sampleRate: number;
+  channels: 1 | 2;
+  // AAC のビットレート（bps）。可逆形式では null
+  bitRate: number | null;
+  // 可逆形式の量子化ビット数
+  bitDepth: 16 | 24;
+};
+
+export const RECORDING_PROFILES: RecordingProfile[] = [
+  {
+    id: 'long',
+    format: 'aac',
+    sampleRate: 16000,
+    channels: 1,
+    bitRate: 32000,
+    bitDepth: 16,
+  },
+  {
+    id: 'standard',
+    format: 'aac',
+    sampleRate: 44100,
+    channels: 1,
+    bitRate: 96000,
+    bitDepth: 16,
+  },
+  {
+    id: 'high',
+    format: 'aac',
+    sampleRate: 48000,
+    channels: 2,
+    bitRate: 192000,
+    bitDepth: 16,
+  },
+  {
+    id: 'lossless-alac',
+    format: 'alac',
+    sampleRate: 44100,
+    channels: 1,
+    bitRate: null,
+    bitDepth: 16,
+  },
+  {
+    id: 'lossless-wav',
+    format: 'wav',
+    sampleRate: 44100,
+    channels: 1,
+    bitRate: null,
+    bitDepth: 16,
+  },
+];
+
+export const DEFAULT_RECORDING_PROFILE_ID: RecordingProfileId = 'standard';
+
+// 音声によって変わるため目安。会話の録音でおよそ 6 割程度になる
+const ALAC_RATIO = 0.6;
+
+export const findRecordingProfile = (id: string): RecordingProfile | null =>
+  RECORDING_PROFILES.find(profile => profile.id === id) ?? null;
+
+export const fileExtensionFor = (format: AudioFormat): string =>
+  format === 'wav' ? 'wav' : 'm4a';
+
+const pcmBytesPerSecond = (profile: RecordingProfile) =>
+  (profile.sampleRate * profile.channels * profile.bitDepth) / 8;
+
+export const estimateBytesPerSecond = (profile: RecordingProfile): number => {
+  switch (profile.format) {
+    case 'aac':
+      return (profile.bitRate ?? 0) / 8;
+    case 'alac':
+      return pcmBytesPerSecond(profile) * ALAC_RATIO;
+    case 'wav':
+      return pcmBytesPerSecond(profile);
+  }
+};
+
+export const estimateBytesPerHour = (profile: RecordingProfile): number =>
+  Math.round(estimateBytesPerSecond(profile) * 3600);
+
+// AAC 96kbps / 48kHz ステレオ など、設定画面の補足表示。
+// チャンネル名は表示言語の文言を呼び出し側から渡す
+export const describeProfileFormat = (
+  profile: RecordingProfile,
+  channelNames: Record<RecordingProfile['channels'], string>,
+): string => {
+  const rate = `${profile.sampleRate / 1000}kHz`;
+  const channels = channelNames[profile.channels];
+  const codec =
+    profile.format === 'aac'
+      ? `AAC ${(profile.bitRate ?? 0) / 1000}kbps`
+      : `${profile.format.toUpperCase()} ${profile.bitDepth}bit`;
+  return `${codec} / ${rate} ${channels}`;
+};
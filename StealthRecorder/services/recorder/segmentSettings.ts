@@ -0,0 +1,20 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+const STORAGE_KEY = 'twotaprecorder:segmentMinutes';
+
+// 0 は分割しない
+export const SEGMENT_MINUTES_OPTIONS = [0, 15, 30, 60] as const;
+export const DEFAULT_SEGMENT_MINUTES = 30;
+
+export const loadSegmentMinutes = async (): Promise<number> => {
+  const value = await AsyncStorage.getItem(STORAGE_KEY);
+  const minutes = Number(value);
+  return value !== null &&
+    (SEGMENT_MINUTES_OPTIONS as readonly number[]).includes(minutes)
+    ? minutes
+    : DEFAULT_SEGMENT_MINUTES;
+};
+
+export const saveSegmentMinutes = async (minutes: number): Promise<void> => {
+  await AsyncStorage.setItem(STORAGE_KEY, String(minutes));
+};
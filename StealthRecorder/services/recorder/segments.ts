@@ -0,0 +1,79 @@
+/**
+ * 長時間録音の分割ファイル。
+ * 1 回の録音は recording-yyyyMMdd_HHmmss-part01.m4a, -part02.m4a … と続き、
+ * -partNN より前の部分（セッション名）が同じものを 1 つの録音として扱う。
+ * 中断後に続きを録音した場合は recording-yyyyMMdd_HHmmss.m4a の後に -part02 が続く。
+ */
+
+const SEGMENT_PATTERN = /^(.+)-part(\d+)\.[^.]+$/;
+const EXTENSION_PATTERN = /\.[^.]+$/;
+
+export type SegmentName = {
+  sessionName: string;
+  index: number;
+};
+
+export type RecordingGroup<T extends {name: string}> = {
+  // セッション名（分割されていない録音は拡張子を除いたファイル名）
+  key: string;
+  // パート番号順
+  files: T[];
+};
+
+export const parseSegmentName = (fileName: string): SegmentName | null => {
+  const match = SEGMENT_PATTERN.exec(fileName);
+  if (!match) {
+    return null;
+  }
+  const index = Number(match[2]);
+  return index > 0 ? {sessionName: match[1], index} : null;
+};
+
+// パート番号のないファイルは 1 番目のパートとみなす
+const sessionOf = (fileName: string): SegmentName =>
+  parseSegmentName(fileName) ?? {
+    sessionName: fileName.replace(EXTENSION_PATTERN, ''),
+    index: 1,
+  };
+
+// 途切れた録音の続きを録音するときの次のパート
+export const followingSegment = (fileName: string): SegmentName => {
+  const {sessionName, index} = sessionOf(fileName);
+  return {sessionName, index: index + 1};
+};
+
+// RecorderManager.swift と同じ形式
+export const makeSegmentFileName = (
+  sessionName: string,
+  index: number,
+  extension = 'm4a',
+): string =>
+  `${sessionName}-part${String(index).padStart(2, '0')}.${extension}`;
+
+/**
+ * 分割ファイルをセッションごとにまとめる。
+ * 並び順は各グループが最初に現れた位置に合わせる（一覧の並び順を保つ）。
+ */
+export const groupRecordingSegments = <T extends {name: string}>(
+  files: T[],
+): RecordingGroup<T>[] => {
+  const groups: RecordingGroup<T>[] = [];
+  const byKey = new Map<string, RecordingGroup<T>>();
+  files.forEach(file => {
+    const key = sessionOf(file.name).sessionName;
+    const existing = byKey.get(key);
+    if (existing) {
+      existing.files.push(file);
+      return;
+    }
+    const group = {key, files: [file]};
+    byKey.set(key, group);
+    groups.push(group);
+  });
+  groups.forEach(group =>
+    group.files.sort(
+      (a, b) => sessionOf(a.name).index - sessionOf(b.name).index,
+    ),
+  );
+  return groups;
+};
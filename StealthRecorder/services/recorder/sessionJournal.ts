@@ -0,0 +1,37 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+/**
+ * 録音中のセッションの記録。開始時に書き、正常に停止したら消す。
+ * 次に起動したときに残っていれば、アプリの終了や電話などで録音が途切れたことになる。
+ */
+export type SessionJournal = {
+  // 録音中のファイル（分割録音では現在のパート）
+  fileName: string;
+  startedAt: string;
+  // maxDurationSeconds でネイティブが自動停止する予定の時刻
+  expectedEndAt: string | null;
+};
+
+const STORAGE_KEY = 'twotaprecorder:sessionJournal';
+
+export const loadSessionJournal = async (): Promise<SessionJournal | null> => {
+  const value = await AsyncStorage.getItem(STORAGE_KEY);
+  if (!value) {
+    return null;
+  }
+  try {
+    return JSON.parse(value) as SessionJournal;
+  } catch {
+    return null;
+  }
+};
+
+export const saveSessionJournal = async (
+  journal: SessionJournal,
+): Promise<void> => {
+  await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(journal));
+};
+
+export const clearSessionJournal = async (): Promise<void> => {
+  await AsyncStorage.removeItem(STORAGE_KEY);
+};
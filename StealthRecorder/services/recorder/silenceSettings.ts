@@ -0,0 +1,22 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+const STORAGE_KEY = 'twotaprecorder:silenceWarningSeconds';
+
+// 0 は警告しない
+export const SILENCE_WARNING_OPTIONS = [0, 15, 30, 60, 120] as const;
+export const DEFAULT_SILENCE_WARNING_SECONDS = 30;
+
+export const loadSilenceWarningSeconds = async (): Promise<number> => {
+  const value = await AsyncStorage.getItem(STORAGE_KEY);
+  const seconds = Number(value);
+  return value !== null &&
+    (SILENCE_WARNING_OPTIONS as readonly number[]).includes(seconds)
+    ? seconds
+    : DEFAULT_SILENCE_WARNING_SECONDS;
+};
+
+export const saveSilenceWarningSeconds = async (
+  seconds: number,
+): Promise<void> => {
+  await AsyncStorage.setItem(STORAGE_KEY, String(seconds));
+};
@@ -0,0 +1,19 @@
+import type {RecorderState} from './types';
+
+const TRANSITIONS: Record<RecorderState, readonly RecorderState[]> = {
+  idle: ['starting', 'recording'],
+  starting: ['recording', 'failed', 'idle'],
+  recording: ['stopping', 'idle'],
+  stopping: ['saved', 'failed', 'idle'],
+  saved: ['starting', 'recording', 'idle'],
+  failed: ['starting', 'recording', 'idle'],
+};
+
+export const canTransition = (
+  from: RecorderState,
+  to: RecorderState,
+): boolean => from === to || TRANSITIONS[from].includes(to);
+
+// 新しい録音を開始できる状態
+export const isSettled = (state: RecorderState): boolean =>
+  state === 'idle' || state === 'saved' || state === 'failed';
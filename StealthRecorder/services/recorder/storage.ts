@@ -0,0 +1,41 @@
+import {estimateBytesPerSecond} from './profiles';
+import type {RecordingProfile} from './profiles';
+import type {StorageLevel} from './types';
+
+const MB = 1024 * 1024;
+
+// これを下回ると録音を始めない・録音中なら停止して保存する
+export const STORAGE_FULL_BYTES = 50 * MB;
+export const STORAGE_CRITICAL_BYTES = 200 * MB;
+export const STORAGE_LOW_BYTES = 1024 * MB;
+
+// プロファイル未指定時のネイティブ既定（AAC 44.1kHz モノラル）相当
+const DEFAULT_BYTES_PER_SECOND = 16000;
+
+export const classifyFreeSpace = (freeBytes: number): StorageLevel => {
+  if (freeBytes < STORAGE_FULL_BYTES) {
+    return 'full';
+  }
+  if (freeBytes < STORAGE_CRITICAL_BYTES) {
+    return 'critical';
+  }
+  if (freeBytes < STORAGE_LOW_BYTES) {
+    return 'low';
+  }
+  return 'ok';
+};
+
+/**
+ * 空き容量であと何秒録音できるかの目安。
+ * 停止する閾値（STORAGE_FULL_BYTES）までを録音に使える分として数える。
+ */
+export const estimateRemainingSeconds = (
+  freeBytes: number,
+  profile?: RecordingProfile,
+): number => {
+  const usable = Math.max(0, freeBytes - STORAGE_FULL_BYTES);
+  const bytesPerSecond = profile
+    ? estimateBytesPerSecond(profile)
+    : DEFAULT_BYTES_PER_SECOND;
+  return Math.floor(usable / bytesPerSecond);
+};
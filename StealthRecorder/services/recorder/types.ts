@@ -0,0 +1,185 @@
+import type {RecordingProfile} from './profiles';
+
+export type RecordingFile = {
+  name: string;
+  path: string;
+  size: number;
+  date: string;
+};
+
+export type RecordingSortKey = 'date' | 'name' | 'size';
+
+export type SortOrder = 'asc' | 'desc';
+
+export type RecordingListOptions = {
+  // 既定は録音日時の新しい順
+  sort?: RecordingSortKey;
+  order?: SortOrder;
+  offset?: number;
+  // 省略時は offset 以降をすべて返す
+  limit?: number;
+};
+
+export type RecordingPage = {
+  files: RecordingFile[];
+  // ページに分ける前の全件数（続きがあるかの判定に使う）
+  total: number;
+};
+
+export type RecordingStatus = {
+  isRecording: boolean;
+  fileName: string | null;
+  // 録音開始からの経過秒数
+  elapsed: number;
+  // 電話などで OS に中断され、ネイティブが保存した直近の録音
+  interruptedFileName?: string | null;
+};
+
+export type RecordingPosition = {
+  fileName: string;
+  elapsed: number;
+};
+
+// AVAudioRecorder のメーター値（dBFS、無音 -160 〜 最大 0）
+export type RecordingLevels = {
+  fileName: string;
+  elapsed: number;
+  averagePower: number;
+  peakPower: number;
+  fileSize: number;
+};
+
+export type StartOptions = {
+  // 指定した秒数で自動的に停止する
+  maxDurationSeconds?: number;
+  // 省略時はネイティブの既定（AAC 44.1kHz モノラル）
+  profile?: RecordingProfile;
+  // 指定した秒数ごとに新しい分割ファイルへ切り替える（RecorderService が管理）
+  segmentSeconds?: number;
+  // 途切れた録音の続きとして、このファイルの次のパートに録音する
+  continueFrom?: string;
+};
+
+// ネイティブへ渡す開始オプション。分割時はセッション名とパート番号を付ける
+export type NativeStartOptions = Omit<
+  StartOptions,
+  'segmentSeconds' | 'continueFrom'
+> & {
+  // 省略時はネイティブが録音開始時刻から作る
+  sessionName?: string;
+  segmentIndex?: number;
+};
+
+export type SegmentRollover = {
+  // 閉じて保存した分割ファイル
+  savedFileName: string;
+  // 続きを録音している分割ファイル
+  fileName: string;
+};
+
+// twotaprecorder://mark を受け取った時点でネイティブが記録したマーカー
+export type PendingMarker = {
+  fileName: string;
+  offsetSeconds: number;
+  // 空ならマーカーの既定の名前を使う
+  label: string;
+  createdAt: string;
+  // 記録のもとになった URL（JS のルーターに届く URL と同じ文字列）
+  url: string;
+};
+
+export type StorageLevel = 'ok' | 'low' | 'critical' | 'full';
+
+export type StorageStatus = {
+  level: StorageLevel;
+  freeBytes: number;
+};
+
+/**
+ * ネイティブ側（RecorderManager）が公開するメソッド。
+ * Jest ではこのインターフェースを満たすフェイクに差し替える。
+ */
+export type RecorderBackend = {
+  requestPermission: () => Promise<boolean>;
+  startRecording: (options: NativeStartOptions) => Promise<string>;
+  // 録音を止めずに（オーディオセッションを保ったまま）次の分割ファイルへ切り替える
+  rolloverRecording: (options: NativeStartOptions) => Promise<SegmentRollover>;
+  stopRecording: () => Promise<string>;
+  isRecording: () => Promise<boolean>;
+  getRecordingStatus: () => Promise<RecordingStatus>;
+  getRecordingLevels: () => Promise<RecordingLevels | null>;
+  getRecordingFiles: (options: RecordingListOptions) => Promise<RecordingPage>;
+  // 録音を保存するボリュームの空き容量（バイト）
+  getFreeDiskSpace: () => Promise<number>;
+  // 受け取った分はネイティブから消える
+  consumePendingMarkers: () => Promise<PendingMarker[]>;
+};
+
+/**
+ * ネイティブが知らせる録音とファイルの変化。
+ * 背面タップやファイルアプリなど、アプリの操作以外での変化も届く。
+ */
+export type RecorderEvent =
+  | {type: 'started'; fileName: string}
+  // finished: maxDurationSeconds で止まった / interrupted: 電話などで中断された
+  | {type: 'stopped'; fileName: string; reason: RecorderStopReason}
+  | {type: 'files-changed'};
+
+export type RecorderStopReason = 'stopped' | 'finished' | 'interrupted';
+
+export type RecorderEventListener = (event: RecorderEvent) => void;
+
+// ネイティブのイベント（RCTEventEmitter）の購読口
+export type RecorderEventSource = {
+  subscribe: (listener: RecorderEventListener) => () => void;
+};
+
+/**
+ * 録音の状態遷移:
+ * idle → starting → recording → stopping → saved / failed
+ */
+export type RecorderState =
+  | 'idle'
+  | 'starting'
+  | 'recording'
+  | 'stopping'
+  | 'saved'
+  | 'failed';
+
+export type RecorderErrorCode =
+  | 'unavailable'
+  | 'permission_denied'
+  | 'start_failed'
+  | 'stop_failed'
+  | 'list_failed'
+  | 'insufficient_storage'
+  | 'invalid_state'
+  | 'unknown';
+
+export type RecorderSnapshot = {
+  state: RecorderState;
+  // 録音中または直前に保存したファイル名
+  fileName: string | null;
+  error: RecorderErrorCode | null;
+  // 直近に確認した空き容量（確認できていなければ null）
+  storage: StorageStatus | null;
+};
+
+export type RecorderListener = (snapshot: RecorderSnapshot) => void;
+
+export type LevelListener = (levels: RecordingLevels | null) => void;
+
+/**
+ * 正常に停止しないまま終わった録音。
+ * interrupted: 電話などで OS に中断された / terminated: 録音中にアプリが終了した
+ */
+export type InterruptedRecording = {
+  fileName: string;
+  startedAt: string;
+  reason: 'interrupted' | 'terminated';
+  // 残っている録音ファイル（見つからなければ null）
+  file: RecordingFile | null;
+};
+
+// 分割録音で 1 つのファイルを閉じたときに呼ばれる
+export type SegmentListener = (fileName: string) => void;
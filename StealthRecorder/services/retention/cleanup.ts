@@ -0,0 +1,60 @@
+import {loadIncidents} from '../incidents/incidentStore';
+import type {RecordingLibrary} from '../library/RecordingLibrary';
+import {loadMarkers} from '../markers/markerStore';
+import type {RecordingFile} from '../recorder/types';
+import type {RetentionPlan, RetentionResult, RetentionSources} from './types';
+
+/**
+ * 判定に使う情報をまとめて読む。
+ * 保護モードでロック中など長さを読めない録音は、短い録音のルールの対象にならない。
+ */
+export const loadRetentionSources = async (
+  library: RecordingLibrary,
+  files: RecordingFile[],
+  activeFileName: string | null = null,
+): Promise<RetentionSources> => {
+  const names = files.map(file => file.name);
+  const [items, markerLists, incidents, durations, registered] =
+    await Promise.all([
+      library.loadItems(files),
+      Promise.all(names.map(name => loadMarkers(name))),
+      loadIncidents(),
+      library.isAvailable ? library.loadDurations(names) : {},
+      library.loadRegisteredNames(),
+    ]);
+  return {
+    items,
+    markers: Object.fromEntries(names.map((name, i) => [name, markerLists[i]])),
+    incidents,
+    durations,
+    activeFileName,
+    registered,
+  };
+};
+
+/**
+ * プレビューした計画どおりに削除する。
+ * 削除できなかったファイルは failed に入れて残りを続ける。
+ */
+export const applyRetention = async (
+  library: RecordingLibrary,
+  plan: RetentionPlan,
+): Promise<RetentionResult> => {
+  const result: RetentionResult = {removed: [], failed: [], freedBytes: 0};
+  for (const candidate of plan.candidates) {
+    let removedAll = true;
+    for (const fileName of candidate.fileNames) {
+      try {
+        await library.remove(fileName);
+        result.removed.push(fileName);
+      } catch {
+        result.failed.push(fileName);
+        removedAll = false;
+      }
+    }
+    if (removedAll) {
+      result.freedBytes += candidate.size;
+    }
+  }
+  return result;
+};
@@ -0,0 +1,19 @@
+export {applyRetention, loadRetentionSources} from './cleanup';
+export {planRetention} from './planRetention';
+export {
+  AFTER_DAYS_OPTIONS,
+  DEFAULT_RETENTION_SETTINGS,
+  SHORT_SECONDS_OPTIONS,
+  STORAGE_LIMIT_OPTIONS,
+  hasActiveRules,
+  loadRetentionSettings,
+  saveRetentionSettings,
+} from './retentionSettings';
+export type {
+  RetentionCandidate,
+  RetentionPlan,
+  RetentionReason,
+  RetentionResult,
+  RetentionSettings,
+  RetentionSources,
+} from './types';
@@ -0,0 +1,137 @@
+import type {LibraryItem} from '../library/types';
+import {parseRecordingFileName} from '../recorder/fileNames';
+import {groupRecordingSegments} from '../recorder/segments';
+import type {
+  RetentionCandidate,
+  RetentionPlan,
+  RetentionReason,
+  RetentionSettings,
+  RetentionSources,
+} from './types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ファイル名の日時（録音開始）を優先し、読めなければ作成日時を使う
+const startedAtOf = (item: LibraryItem): Date =>
+  parseRecordingFileName(item.name) ?? new Date(item.date);
+
+type Session = Omit<RetentionCandidate, 'reason'> & {
+  exempt: boolean;
+  // タイトル・タグ・マーカーのどれもない
+  unmarked: boolean;
+};
+
+/**
+ * ルールに当てはまる録音を選ぶ（何も削除しない）。
+ * 分割録音はパートをまとめて判定し、どれか 1 つでも保護されていれば全体を残す。
+ * 長さを読めなかった録音は短い録音のルールでは削除しない。
+ * 印のある録音と証拠ログに登録された録音は needsConfirmation を立てて返す。
+ */
+export const planRetention = (
+  settings: RetentionSettings,
+  {
+    items,
+    markers,
+    incidents,
+    durations,
+    activeFileName,
+    registered = [],
+  }: RetentionSources,
+  now: Date = new Date(),
+): RetentionPlan => {
+  const linked = new Set(
+    incidents.flatMap(incident => incident.recordingNames),
+  );
+  const evidence = new Set(registered);
+  const sessions = groupRecordingSegments(items)
+    .map(({key, files}): Session => {
+      const [first] = files;
+      const known = files.every(file => durations[file.name] !== undefined);
+      const unmarked = files.every(
+        file =>
+          !file.metadata.title &&
+          file.metadata.tags.length === 0 &&
+          (markers[file.name] ?? []).length === 0,
+      );
+      return {
+        key,
+        title: first.metadata.title || first.name,
+        fileNames: files.map(file => file.name),
+        startedAt: startedAtOf(first),
+        durationSeconds: known
+          ? files.reduce((total, file) => total + durations[file.name], 0)
+          : null,
+        size: files.reduce((total, file) => total + file.size, 0),
+        exempt: files.some(
+          file =>
+            file.metadata.protected === true ||
+            linked.has(file.name) ||
+            file.name === activeFileName,
+        ),
+        unmarked,
+        needsConfirmation:
+          !unmarked || files.some(file => evidence.has(file.name)),
+      };
+    })
+    .sort((a, b) => a.startedAt.getTime() - b.startedAt.getTime());
+
+  const selected = new Map<string, RetentionReason>();
+  const {shortRecordings, storageLimit} = settings;
+  if (shortRecordings.enabled) {
+    const cutoff = now.getTime() - shortRecordings.afterDays * DAY_MS;
+    sessions.forEach(session => {
+      if (
+        !session.exempt &&
+        session.unmarked &&
+        session.durationSeconds !== null &&
+        session.durationSeconds < shortRecordings.maxSeconds &&
+        session.startedAt.getTime() <= cutoff
+      ) {
+        selected.set(session.key, 'short_recording');
+      }
+    });
+  }
+
+  const totalBytes = sessions.reduce(
+    (total, session) => total + session.size,
+    0,
+  );
+  const freed = () =>
+    sessions
+      .filter(session => selected.has(session.key))
+      .reduce((total, session) => total + session.size, 0);
+  let overLimit = false;
+  if (storageLimit.enabled) {
+    let remaining = totalBytes - freed();
+    for (const session of sessions) {
+      if (remaining <= storageLimit.maxBytes) {
+        break;
+      }
+      if (!session.exempt && !selected.has(session.key)) {
+        selected.set(session.key, 'storage_limit');
+        remaining -= session.size;
+      }
+    }
+    overLimit = remaining > storageLimit.maxBytes;
+  }
+
+  return {
+    candidates: sessions
+      .filter(session => selected.has(session.key))
+      .map(
+        (session): RetentionCandidate => ({
+          key: session.key,
+          title: session.title,
+          fileNames: session.fileNames,
+          startedAt: session.startedAt,
+          durationSeconds: session.durationSeconds,
+          size: session.size,
+          reason: selected.get(session.key) as RetentionReason,
+          needsConfirmation: session.needsConfirmation,
+        }),
+      ),
+    totalBytes,
+    freedBytes: freed(),
+    overLimit,
+  };
+};
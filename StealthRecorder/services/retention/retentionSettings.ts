@@ -0,0 +1,68 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import type {RetentionSettings} from './types';
+
+const STORAGE_KEY = 'twotaprecorder:retention';
+
+const GB = 1024 * 1024 * 1024;
+
+export const SHORT_SECONDS_OPTIONS = [10, 30, 60] as const;
+export const AFTER_DAYS_OPTIONS = [1, 7, 30] as const;
+export const STORAGE_LIMIT_OPTIONS = [1 * GB, 2 * GB, 5 * GB, 10 * GB] as const;
+
+export const DEFAULT_RETENTION_SETTINGS: RetentionSettings = {
+  shortRecordings: {enabled: false, maxSeconds: 10, afterDays: 7},
+  storageLimit: {enabled: false, maxBytes: 5 * GB},
+  automatic: false,
+};
+
+const pick = <T extends number>(
+  options: readonly T[],
+  value: unknown,
+  fallback: T,
+): T => (options.includes(value as T) ? (value as T) : fallback);
+
+export const loadRetentionSettings = async (): Promise<RetentionSettings> => {
+  const defaults = DEFAULT_RETENTION_SETTINGS;
+  let stored: Partial<RetentionSettings> = {};
+  try {
+    stored = JSON.parse(
+      (await AsyncStorage.getItem(STORAGE_KEY)) ?? '{}',
+    ) as Partial<RetentionSettings>;
+  } catch {
+    return defaults;
+  }
+  return {
+    shortRecordings: {
+      enabled: stored.shortRecordings?.enabled === true,
+      maxSeconds: pick(
+        SHORT_SECONDS_OPTIONS,
+        stored.shortRecordings?.maxSeconds,
+        defaults.shortRecordings.maxSeconds,
+      ),
+      afterDays: pick(
+        AFTER_DAYS_OPTIONS,
+        stored.shortRecordings?.afterDays,
+        defaults.shortRecordings.afterDays,
+      ),
+    },
+    storageLimit: {
+      enabled: stored.storageLimit?.enabled === true,
+      maxBytes: pick(
+        STORAGE_LIMIT_OPTIONS,
+        stored.storageLimit?.maxBytes,
+        defaults.storageLimit.maxBytes,
+      ),
+    },
+    automatic: stored.automatic === true,
+  };
+};
+
+export const saveRetentionSettings = async (
+  settings: RetentionSettings,
+): Promise<void> => {
+  await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+};
+
+// ルールが 1 つも有効でなければ何も削除しない
+export const hasActiveRules = (settings: RetentionSettings): boolean =>
+  settings.shortRecordings.enabled || settings.storageLimit.enabled;
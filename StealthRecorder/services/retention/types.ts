@@ -0,0 +1,71 @@
+import type {Incident} from '../incidents/types';
+import type {LibraryItem} from '../library/types';
+import type {Marker} from '../markers/types';
+
+/**
+ * 自動削除のルール。どのルールも既定では無効。
+ * 「自動削除しない」にした録音と出来事の記録にリンクした録音は、どのルールでも削除しない。
+ */
+export type RetentionSettings = {
+  // 印のない短い録音（動作テストなど）を一定日数後に削除する
+  shortRecordings: {
+    enabled: boolean;
+    // この秒数より短い録音が対象
+    maxSeconds: number;
+    // 録音からこの日数が経ったら削除する
+    afterDays: number;
+  };
+  // 録音の合計がこの大きさを超えたら古い録音から削除する
+  storageLimit: {
+    enabled: boolean;
+    maxBytes: number;
+  };
+  // アプリの起動時に適用する（プレビューで確かめてから有効にする）。
+  // ロック中は適用せず、needsConfirmation の録音は確認してから削除する
+  automatic: boolean;
+};
+
+export type RetentionSources = {
+  items: LibraryItem[];
+  // ファイル名ごとのマーカー
+  markers: Record<string, Marker[]>;
+  incidents: Incident[];
+  // ファイル名ごとの長さ（秒）。読めなかったファイルは含めない
+  durations: Record<string, number>;
+  // 録音中のファイル（削除しない）
+  activeFileName?: string | null;
+  // 証拠ログに登録されている録音のファイル名
+  registered?: string[];
+};
+
+export type RetentionReason = 'short_recording' | 'storage_limit';
+
+// 削除する 1 回の録音（分割録音はパートをまとめて 1 件）
+export type RetentionCandidate = {
+  key: string;
+  title: string;
+  // パート番号順
+  fileNames: string[];
+  startedAt: Date;
+  // 長さを読めなかったパートがあれば null
+  durationSeconds: number | null;
+  size: number;
+  reason: RetentionReason;
+  // タイトル・タグ・マーカーのある録音か証拠ログに登録された録音（起動時の自動削除では確認してから削除する）
+  needsConfirmation: boolean;
+};
+
+export type RetentionPlan = {
+  // 古い順
+  candidates: RetentionCandidate[];
+  totalBytes: number;
+  freedBytes: number;
+  // 削除しても容量の上限を超える（残りが保護された録音だけになった）
+  overLimit: boolean;
+};
+
+export type RetentionResult = {
+  removed: string[];
+  failed: string[];
+  freedBytes: number;
+};
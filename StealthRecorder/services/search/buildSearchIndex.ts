@@ -0,0 +1,76 @@
+import type {Incident} from '../incidents/types';
+import type {LibraryItem} from '../library/types';
+import type {Marker} from '../markers/types';
+import {parseRecordingFileName} from '../recorder/fileNames';
+import {groupRecordingSegments} from '../recorder/segments';
+import {normalizeText} from './normalize';
+import type {SearchDocument, SearchEntry, SearchField} from './types';
+
+export type SearchSources = {
+  items: LibraryItem[];
+  // ファイル名ごとのマーカー
+  markers: Record<string, Marker[]>;
+  incidents: Incident[];
+  // ファイル名ごとの長さ（秒）
+  durations: Record<string, number>;
+};
+
+const entry = (field: SearchField, text: string): SearchEntry | null => {
+  const normalized = normalizeText(text);
+  return normalized ? {field, text, normalized} : null;
+};
+
+const incidentTexts = (incident: Incident): string[] => [
+  incident.title,
+  incident.location,
+  incident.trainLine,
+  incident.carNumber,
+  incident.notes,
+  ...incident.officers.flatMap(officer => [
+    officer.name,
+    officer.affiliation,
+    officer.badgeNumber,
+  ]),
+  ...incident.timeline.map(event => event.description),
+];
+
+/**
+ * 録音（ファイル名・タイトル・タグ・場所）、マーカー、リンクされた出来事の記録から検索用の一覧を作る。
+ */
+export const buildSearchIndex = ({
+  items,
+  markers,
+  incidents,
+  durations,
+}: SearchSources): SearchDocument[] =>
+  groupRecordingSegments(items).map(({key, files}) => {
+    const [first] = files;
+    const fileNames = files.map(file => file.name);
+    const linked = incidents.filter(incident =>
+      incident.recordingNames.some(name => fileNames.includes(name)),
+    );
+    const entries = [
+      entry('title', first.metadata.title),
+      ...first.metadata.tags.map(tag => entry('tag', tag)),
+      entry('place', first.metadata.place ?? ''),
+      ...files.flatMap(file =>
+        (markers[file.name] ?? []).map(marker => entry('marker', marker.label)),
+      ),
+      ...linked.flatMap(incident =>
+        incidentTexts(incident).map(text => entry('incident', text)),
+      ),
+      ...fileNames.map(name => entry('fileName', name)),
+    ].filter((value): value is SearchEntry => value !== null);
+    const known = files.filter(file => durations[file.name] !== undefined);
+    return {
+      key,
+      fileNames,
+      startedAt: parseRecordingFileName(first.name) ?? new Date(first.date),
+      durationSeconds:
+        known.length === files.length
+          ? files.reduce((total, file) => total + durations[file.name], 0)
+          : null,
+      tags: first.metadata.tags.map(normalizeText),
+      entries,
+    };
+  });
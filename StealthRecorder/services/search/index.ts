@@ -0,0 +1,12 @@
+export {buildSearchIndex} from './buildSearchIndex';
+export {normalizeText, tokenize} from './normalize';
+export {collectTags, searchRecordings} from './search';
+export type {SearchSources} from './buildSearchIndex';
+export type {
+  SearchDocument,
+  SearchEntry,
+  SearchField,
+  SearchFilters,
+  SearchHit,
+  SearchQuery,
+} from './types';
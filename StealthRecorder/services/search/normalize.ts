@@ -0,0 +1,40 @@
+/**
+ * 検索用に表記ゆれを揃える。
+ * 全角英数字→半角、カタカナ→ひらがな、英字は小文字、空白はまとめて 1 つにする。
+ * （Hermes で String.prototype.normalize に頼らないよう自前で変換する）
+ */
+export const normalizeText = (text: string): string => {
+  let result = '';
+  for (const char of text) {
+    const code = char.charCodeAt(0);
+    if (code >= 0xff01 && code <= 0xff5e) {
+      // 全角 ASCII
+      result += String.fromCharCode(code - 0xfee0);
+    } else if (code >= 0x30a1 && code <= 0x30f6) {
+      // カタカナ
+      result += String.fromCharCode(code - 0x60);
+    } else if (code === 0x3000) {
+      result += ' ';
+    } else {
+      result += char;
+    }
+  }
+  return result.toLowerCase().replace(/\s+/g, ' ').trim();
+};
+
+// 空白区切りの検索語。# で始まる語はタグとして扱う
+export const tokenize = (text: string): {words: string[]; tags: string[]} => {
+  const words: string[] = [];
+  const tags: string[] = [];
+  normalizeText(text)
+    .split(' ')
+    .filter(Boolean)
+    .forEach(token => {
+      if (token.startsWith('#') && token.length > 1) {
+        tags.push(token.slice(1));
+      } else if (token !== '#') {
+        words.push(token);
+      }
+    });
+  return {words, tags};
+};
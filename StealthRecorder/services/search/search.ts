@@ -0,0 +1,107 @@
+import {tokenize} from './normalize';
+import type {
+  SearchDocument,
+  SearchField,
+  SearchFilters,
+  SearchHit,
+  SearchQuery,
+} from './types';
+
+const FIELD_WEIGHTS: Record<SearchField, number> = {
+  title: 5,
+  tag: 4,
+  place: 4,
+  marker: 3,
+  incident: 2,
+  fileName: 1,
+};
+
+const passesFilters = (
+  document: SearchDocument,
+  {from, to, minDurationSeconds, maxDurationSeconds}: SearchFilters,
+  tags: string[],
+): boolean => {
+  const time = document.startedAt.getTime();
+  if ((from && time < from.getTime()) || (to && time >= to.getTime())) {
+    return false;
+  }
+  const hasDurationFilter =
+    (minDurationSeconds ?? null) !== null ||
+    (maxDurationSeconds ?? null) !== null;
+  if (hasDurationFilter) {
+    const duration = document.durationSeconds;
+    if (
+      duration === null ||
+      (minDurationSeconds != null && duration < minDurationSeconds) ||
+      (maxDurationSeconds != null && duration >= maxDurationSeconds)
+    ) {
+      return false;
+    }
+  }
+  return tags.every(tag => document.tags.includes(tag));
+};
+
+/**
+ * 検索語すべてを含む録音を、一致した項目の重みの合計が大きい順に返す。
+ * 検索語がなければ条件に合う録音を新しい順に返す。
+ * 長さの条件は minDurationSeconds 以上 maxDurationSeconds 未満。
+ */
+export const searchRecordings = (
+  documents: SearchDocument[],
+  query: SearchQuery,
+): SearchHit[] => {
+  const {words, tags} = tokenize(query.text);
+  const filterTags = [...tokenize((query.tags ?? []).join(' ')).words, ...tags];
+  const hits: SearchHit[] = [];
+  documents.forEach(document => {
+    if (!passesFilters(document, query, filterTags)) {
+      return;
+    }
+    const matched = document.entries.filter(entry =>
+      words.some(word => entry.normalized.includes(word)),
+    );
+    const allFound = words.every(word =>
+      matched.some(entry => entry.normalized.includes(word)),
+    );
+    if (!allFound) {
+      return;
+    }
+    const seen = new Set<string>();
+    const matches = matched
+      .sort((a, b) => FIELD_WEIGHTS[b.field] - FIELD_WEIGHTS[a.field])
+      .filter(entry => {
+        const id = `${entry.field}:${entry.normalized}`;
+        if (seen.has(id)) {
+          return false;
+        }
+        seen.add(id);
+        return true;
+      })
+      .map(({field, text}) => ({field, text}));
+    hits.push({
+      document,
+      // 同じ項目に何度一致しても重みは 1 回分
+      score: Array.from(new Set(matches.map(match => match.field))).reduce(
+        (total, field) => total + FIELD_WEIGHTS[field],
+        0,
+      ),
+      matches,
+    });
+  });
+  return hits.sort(
+    (a, b) =>
+      b.score - a.score ||
+      b.document.startedAt.getTime() - a.document.startedAt.getTime(),
+  );
+};
+
+// 絞り込みに使えるタグ（多い順）
+export const collectTags = (documents: SearchDocument[]): string[] => {
+  const counts = new Map<string, number>();
+  documents.forEach(document =>
+    document.tags.forEach(tag => counts.set(tag, (counts.get(tag) ?? 0) + 1)),
+  );
+  return Array.from(counts.entries())
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .map(([tag]) => tag);
+};
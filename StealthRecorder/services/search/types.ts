@@ -0,0 +1,48 @@
+// どこに一致したか（重み付けと結果の表示に使う）
+export type SearchField =
+  | 'title'
+  | 'tag'
+  | 'place'
+  | 'marker'
+  | 'incident'
+  | 'fileName';
+
+export type SearchEntry = {
+  field: SearchField;
+  text: string;
+  normalized: string;
+};
+
+// 検索対象の 1 件。分割録音はパートをまとめて 1 件
+export type SearchDocument = {
+  key: string;
+  // パート番号順。先頭を一覧で開く
+  fileNames: string[];
+  startedAt: Date;
+  // 長さが読めなかった場合は null（長さの絞り込みでは除外する）
+  durationSeconds: number | null;
+  // 正規化済み
+  tags: string[];
+  entries: SearchEntry[];
+};
+
+export type SearchFilters = {
+  // from 以上 to 未満
+  from?: Date | null;
+  to?: Date | null;
+  minDurationSeconds?: number | null;
+  maxDurationSeconds?: number | null;
+  // すべてのタグを含むものに絞る
+  tags?: string[];
+};
+
+export type SearchQuery = SearchFilters & {
+  text: string;
+};
+
+export type SearchHit = {
+  document: SearchDocument;
+  score: number;
+  // 一致した項目（重い順、同じ項目は 1 回だけ）
+  matches: {field: SearchField; text: string}[];
+};
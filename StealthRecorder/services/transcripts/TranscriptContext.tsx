@@ -0,0 +1,39 @@
+import React, {createContext, useContext} from 'react';
+import {OnDeviceTranscriber} from './onDeviceTranscriber';
+import {
+  getNativeSpeechBackend,
+  getNativeTranscriptBackend,
+} from './nativeTranscripts';
+import {TranscriptService} from './TranscriptService';
+
+let defaultService: TranscriptService | null = null;
+
+const TranscriptContext = createContext<TranscriptService | null>(null);
+
+type TranscriptProviderProps = {
+  service: TranscriptService;
+  children: React.ReactNode;
+};
+
+export const TranscriptProvider = ({
+  service,
+  children,
+}: TranscriptProviderProps): React.JSX.Element => (
+  <TranscriptContext.Provider value={service}>
+    {children}
+  </TranscriptContext.Provider>
+);
+
+export const useTranscripts = (): TranscriptService => {
+  const provided = useContext(TranscriptContext);
+  if (provided) {
+    return provided;
+  }
+  if (!defaultService) {
+    defaultService = new TranscriptService(
+      getNativeTranscriptBackend(),
+      new OnDeviceTranscriber(getNativeSpeechBackend()),
+    );
+  }
+  return defaultService;
+};
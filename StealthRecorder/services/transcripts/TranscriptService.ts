@@ -0,0 +1,122 @@
+import type {Translate} from '../i18n/types';
+import {TranscriptError, toTranscriptError} from './errors';
+import {formatTranscript, transcriptExportName} from './formats';
+import {
+  parseTranscript,
+  serializeTranscript,
+  transcriptFileName,
+} from './transcriptFile';
+import type {
+  Transcriber,
+  Transcript,
+  TranscriptBackend,
+  TranscriptFormat,
+} from './types';
+
+export const DEFAULT_TRANSCRIPT_LOCALE = 'ja-JP';
+
+export class TranscriptService {
+  private readonly backend: TranscriptBackend | null;
+  private readonly transcriber: Transcriber;
+  private readonly now: () => Date;
+
+  constructor(
+    backend: TranscriptBackend | null,
+    transcriber: Transcriber,
+    now: () => Date = () => new Date(),
+  ) {
+    this.backend = backend;
+    this.transcriber = transcriber;
+    this.now = now;
+  }
+
+  get isAvailable(): boolean {
+    return this.backend !== null && this.transcriber.isAvailable;
+  }
+
+  // 文字起こしがなければ null
+  async load(fileName: string): Promise<Transcript | null> {
+    let text: string | null;
+    try {
+      text = await this.requireBackend().readTextFile(
+        transcriptFileName(fileName),
+      );
+    } catch (error) {
+      throw toTranscriptError(error, 'io_failed');
+    }
+    return text === null ? null : parseTranscript(text);
+  }
+
+  /**
+   * 文字起こしして録音の隣に保存する。既にあれば作り直す。
+   */
+  async transcribe(
+    fileName: string,
+    locale: string = DEFAULT_TRANSCRIPT_LOCALE,
+  ): Promise<Transcript> {
+    const backend = this.requireBackend();
+    if (!this.transcriber.isAvailable) {
+      throw new TranscriptError('unavailable');
+    }
+    let segments;
+    try {
+      segments = await this.transcriber.transcribe(fileName, locale);
+    } catch (error) {
+      throw toTranscriptError(error);
+    }
+    const transcript: Transcript = {
+      fileName,
+      engine: this.transcriber.engine,
+      locale,
+      createdAt: this.now().toISOString(),
+      segments,
+    };
+    try {
+      await backend.writeTextFile(
+        transcriptFileName(fileName),
+        serializeTranscript(transcript),
+      );
+    } catch (error) {
+      throw toTranscriptError(error, 'io_failed');
+    }
+    return transcript;
+  }
+
+  async remove(fileName: string): Promise<void> {
+    try {
+      await this.requireBackend().deleteFile(transcriptFileName(fileName));
+    } catch (error) {
+      throw toTranscriptError(error, 'io_failed');
+    }
+  }
+
+  // テキスト・SRT・WebVTT に書き出して共有シートを開く（テキストの見出しは t の言語）
+  async share(
+    fileName: string,
+    format: TranscriptFormat,
+    t: Translate,
+  ): Promise<boolean> {
+    const backend = this.requireBackend();
+    const transcript = await this.load(fileName);
+    if (!transcript) {
+      throw new TranscriptError('not_found');
+    }
+    try {
+      const path = await backend.writeExportFile(
+        transcriptExportName(fileName, format),
+        formatTranscript(t, transcript, format),
+        'utf8',
+      );
+      return await backend.shareFiles([], [path]);
+    } catch (error) {
+      throw toTranscriptError(error, 'io_failed');
+    }
+  }
+
+  private requireBackend(): TranscriptBackend {
+    if (!this.backend) {
+      throw new TranscriptError('unavailable');
+    }
+    return this.backend;
+  }
+}
@@ -0,0 +1,44 @@
+import type {TranscriptErrorCode} from './types';
+
+// ログ向けの既定の文言。画面にはカタログ（transcriptError.*）の文言を出す
+const DEFAULT_MESSAGES: Record<TranscriptErrorCode, string> = {
+  unavailable: '文字起こしはiOSデバイスでのみ利用できます。',
+  permission_denied:
+    '音声認識が許可されていません。設定アプリで音声認識を許可してください。',
+  unsupported_locale: 'この端末では端末内での文字起こしに対応していません。',
+  not_found: '文字起こしがありません。',
+  corrupted: '文字起こしのファイルを読み込めませんでした。',
+  transcription_failed: '文字起こしに失敗しました。',
+  io_failed: '文字起こしのファイルを保存できませんでした。',
+};
+
+// ネイティブの reject コードとの対応
+const NATIVE_CODES: Record<string, TranscriptErrorCode> = {
+  permission_denied: 'permission_denied',
+  unsupported_locale: 'unsupported_locale',
+  transcription_failed: 'transcription_failed',
+};
+
+export class TranscriptError extends Error {
+  readonly code: TranscriptErrorCode;
+
+  constructor(code: TranscriptErrorCode, message?: string) {
+    super(message || DEFAULT_MESSAGES[code]);
+    this.name = 'TranscriptError';
+    this.code = code;
+  }
+}
+
+export const toTranscriptError = (
+  error: unknown,
+  fallback: TranscriptErrorCode = 'transcription_failed',
+): TranscriptError => {
+  if (error instanceof TranscriptError) {
+    return error;
+  }
+  const nativeCode = (error as {code?: unknown} | null)?.code;
+  if (typeof nativeCode === 'string' && NATIVE_CODES[nativeCode]) {
+    return new TranscriptError(NATIVE_CODES[nativeCode]);
+  }
+  return new TranscriptError(fallback);
+};
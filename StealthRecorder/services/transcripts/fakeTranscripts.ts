@@ -0,0 +1,64 @@
+import type {Transcriber, TranscriptBackend, TranscriptSegment} from './types';
+
+/**
+ * Jest 用。書いたファイルはメモリに残す。
+ */
+export class FakeTranscriptBackend implements TranscriptBackend {
+  readonly files = new Map<string, string>();
+  readonly exports = new Map<string, string>();
+  shared: string[][] = [];
+
+  readTextFile = async (name: string): Promise<string | null> =>
+    this.files.get(name) ?? null;
+
+  writeTextFile = async (name: string, text: string): Promise<void> => {
+    this.files.set(name, text);
+  };
+
+  deleteFile = async (name: string): Promise<void> => {
+    if (!this.files.delete(name)) {
+      throw new Error(`file_not_found: ${name}`);
+    }
+  };
+
+  writeExportFile = async (name: string, contents: string): Promise<string> => {
+    const path = `/fake/tmp/exports/${name}`;
+    this.exports.set(path, contents);
+    return path;
+  };
+
+  shareFiles = async (
+    names: string[],
+    extraPaths: string[],
+  ): Promise<boolean> => {
+    this.shared.push([...names, ...extraPaths]);
+    return true;
+  };
+}
+
+const STUB_SEGMENTS: TranscriptSegment[] = [
+  {start: 0.5, end: 2.4, text: '録音を開始します', confidence: 0.9},
+  {start: 3.1, end: 5.8, text: '身分証を見せてください', confidence: 0.8},
+];
+
+/**
+ * テスト用の文字起こし。渡したセグメントをそのまま返す。
+ */
+export class StubTranscriber implements Transcriber {
+  readonly engine = 'stub';
+  readonly isAvailable = true;
+  readonly requests: {fileName: string; locale: string}[] = [];
+  private readonly segments: TranscriptSegment[];
+
+  constructor(segments: TranscriptSegment[] = STUB_SEGMENTS) {
+    this.segments = segments;
+  }
+
+  transcribe = async (
+    fileName: string,
+    locale: string,
+  ): Promise<TranscriptSegment[]> => {
+    this.requests.push({fileName, locale});
+    return this.segments.map(segment => ({...segment}));
+  };
+}
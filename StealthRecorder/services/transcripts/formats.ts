@@ -0,0 +1,108 @@
+import {formatDuration} from '../../utils/format';
+import type {Translate} from '../i18n/types';
+import type {Transcript, TranscriptFormat, TranscriptSegment} from './types';
+
+const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+
+// 00:01:02,345（SRT）/ 00:01:02.345（WebVTT）
+const formatTimestamp = (seconds: number, separator: ',' | '.'): string => {
+  const millis = Math.max(0, Math.round(seconds * 1000));
+  const hours = Math.floor(millis / 3600000);
+  const minutes = Math.floor((millis % 3600000) / 60000);
+  const rest = Math.floor((millis % 60000) / 1000);
+  return `${pad(hours)}:${pad(minutes)}:${pad(rest)}${separator}${pad(
+    millis % 1000,
+    3,
+  )}`;
+};
+
+export const formatTranscriptText = (
+  t: Translate,
+  transcript: Transcript,
+): string =>
+  [
+    t('transcript.export.fileName', {fileName: transcript.fileName}),
+    t('transcript.export.createdAt', {createdAt: transcript.createdAt}),
+    t('transcript.export.engine', {
+      engine: transcript.engine,
+      locale: transcript.locale,
+    }),
+    '',
+    ...transcript.segments.map(
+      segment => `[${formatDuration(segment.start)}] ${segment.text}`,
+    ),
+    '',
+  ].join('\n');
+
+export const formatSrt = (transcript: Transcript): string =>
+  transcript.segments
+    .map(
+      (segment, index) =>
+        `${index + 1}\n${formatTimestamp(
+          segment.start,
+          ',',
+        )} --> ${formatTimestamp(segment.end, ',')}\n${segment.text}\n`,
+    )
+    .join('\n');
+
+export const formatWebVtt = (transcript: Transcript): string =>
+  [
+    'WEBVTT\n',
+    ...transcript.segments.map(
+      segment =>
+        `${formatTimestamp(segment.start, '.')} --> ${formatTimestamp(
+          segment.end,
+          '.',
+        )}\n${segment.text}\n`,
+    ),
+  ].join('\n');
+
+// 書き出しに使える形式（証拠パッケージにはすべて入れる）
+export const TRANSCRIPT_FORMATS: readonly TranscriptFormat[] = [
+  'txt',
+  'srt',
+  'vtt',
+];
+
+export const formatTranscript = (
+  t: Translate,
+  transcript: Transcript,
+  format: TranscriptFormat,
+): string => {
+  switch (format) {
+    case 'srt':
+      return formatSrt(transcript);
+    case 'vtt':
+      return formatWebVtt(transcript);
+    default:
+      return formatTranscriptText(t, transcript);
+  }
+};
+
+// recording-20240305_083015.m4a → recording-20240305_083015.srt
+export const transcriptExportName = (
+  recordingName: string,
+  format: TranscriptFormat,
+): string => {
+  const dot = recordingName.lastIndexOf('.');
+  const base = dot > 0 ? recordingName.slice(0, dot) : recordingName;
+  return format === 'txt' ? `${base}-transcript.txt` : `${base}.${format}`;
+};
+
+/**
+ * 再生位置にあたるセグメントの番号。発話の合間は直前のセグメントを返す。
+ * 最初の発話より前なら -1。
+ */
+export const findSegmentIndex = (
+  segments: TranscriptSegment[],
+  position: number,
+): number => {
+  let found = -1;
+  for (let i = 0; i < segments.length; i++) {
+    if (segments[i].start > position) {
+      break;
+    }
+    found = i;
+  }
+  return found;
+};
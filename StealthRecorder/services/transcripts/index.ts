@@ -0,0 +1,36 @@
+export {
+  DEFAULT_TRANSCRIPT_LOCALE,
+  TranscriptService,
+} from './TranscriptService';
+export {TranscriptProvider, useTranscripts} from './TranscriptContext';
+export {TranscriptError, toTranscriptError} from './errors';
+export {FakeTranscriptBackend, StubTranscriber} from './fakeTranscripts';
+export {
+  getNativeSpeechBackend,
+  getNativeTranscriptBackend,
+} from './nativeTranscripts';
+export {OnDeviceTranscriber, groupWords} from './onDeviceTranscriber';
+export {
+  TRANSCRIPT_FORMATS,
+  findSegmentIndex,
+  formatSrt,
+  formatTranscript,
+  formatTranscriptText,
+  formatWebVtt,
+  transcriptExportName,
+} from './formats';
+export {
+  parseTranscript,
+  serializeTranscript,
+  transcriptFileName,
+} from './transcriptFile';
+export type {
+  SpeechBackend,
+  SpeechWord,
+  Transcriber,
+  Transcript,
+  TranscriptBackend,
+  TranscriptErrorCode,
+  TranscriptFormat,
+  TranscriptSegment,
+} from './types';
@@ -0,0 +1,8 @@
+import {NativeModules} from 'react-native';
+import type {SpeechBackend, TranscriptBackend} from './types';
+
+export const getNativeTranscriptBackend = (): TranscriptBackend | null =>
+  NativeModules.RecorderManager ?? null;
+
+export const getNativeSpeechBackend = (): SpeechBackend | null =>
+  NativeModules.RecorderManager ?? null;
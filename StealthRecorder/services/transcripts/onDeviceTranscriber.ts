@@ -0,0 +1,88 @@
+import {TranscriptError, toTranscriptError} from './errors';
+import type {
+  SpeechBackend,
+  SpeechWord,
+  Transcriber,
+  TranscriptSegment,
+} from './types';
+
+// この間隔以上の無音で次のセグメントにする
+const PAUSE_SECONDS = 0.8;
+const MAX_SEGMENT_SECONDS = 8;
+
+/**
+ * 単語ごとの認識結果を字幕 1 行ぶんのまとまりにする。
+ * 日本語は単語の間に空白を入れない。
+ */
+export const groupWords = (
+  words: SpeechWord[],
+  locale: string,
+): TranscriptSegment[] => {
+  const separator = locale.startsWith('ja') ? '' : ' ';
+  const segments: TranscriptSegment[] = [];
+  let current: SpeechWord[] = [];
+
+  const flush = () => {
+    if (current.length === 0) {
+      return;
+    }
+    const last = current[current.length - 1];
+    segments.push({
+      start: current[0].start,
+      end: last.start + last.duration,
+      text: current.map(word => word.text).join(separator),
+      confidence:
+        current.reduce((total, word) => total + word.confidence, 0) /
+        current.length,
+    });
+    current = [];
+  };
+
+  words.forEach(word => {
+    const previous = current[current.length - 1];
+    if (
+      previous &&
+      (word.start - (previous.start + previous.duration) >= PAUSE_SECONDS ||
+        word.start + word.duration - current[0].start > MAX_SEGMENT_SECONDS)
+    ) {
+      flush();
+    }
+    current.push(word);
+  });
+  flush();
+  return segments;
+};
+
+/**
+ * iOS の音声認識（SFSpeechRecognizer）を端末内認識のみで使う。
+ * 音声が端末の外へ送られることはない。
+ */
+export class OnDeviceTranscriber implements Transcriber {
+  readonly engine = 'ios-on-device';
+  private readonly backend: SpeechBackend | null;
+
+  constructor(backend: SpeechBackend | null) {
+    this.backend = backend;
+  }
+
+  get isAvailable(): boolean {
+    return this.backend !== null;
+  }
+
+  async transcribe(
+    fileName: string,
+    locale: string,
+  ): Promise<TranscriptSegment[]> {
+    if (!this.backend) {
+      throw new TranscriptError('unavailable');
+    }
+    try {
+      return groupWords(
+        await this.backend.transcribeFile(fileName, locale),
+        locale,
+      );
+    } catch (error) {
+      throw toTranscriptError(error);
+    }
+  }
+}
@@ -0,0 +1,44 @@
+import {TranscriptError} from './errors';
+import type {Transcript, TranscriptSegment} from './types';
+
+const TRANSCRIPT_SUFFIX = '.transcript.json';
+
+// recording-20240305_083015.m4a → recording-20240305_083015.m4a.transcript.json
+export const transcriptFileName = (recordingName: string): string =>
+  `${recordingName}${TRANSCRIPT_SUFFIX}`;
+
+const isSegment = (value: unknown): value is TranscriptSegment => {
+  const segment = value as Partial<TranscriptSegment> | null;
+  return (
+    typeof segment?.start === 'number' &&
+    typeof segment.end === 'number' &&
+    typeof segment.text === 'string' &&
+    typeof segment.confidence === 'number'
+  );
+};
+
+/**
+ * 保存した JSON を読む。形式が違う場合は TranscriptError('corrupted')。
+ */
+export const parseTranscript = (text: string): Transcript => {
+  let value: Partial<Transcript>;
+  try {
+    value = JSON.parse(text);
+  } catch {
+    throw new TranscriptError('corrupted');
+  }
+  if (
+    typeof value?.fileName !== 'string' ||
+    typeof value.engine !== 'string' ||
+    typeof value.locale !== 'string' ||
+    typeof value.createdAt !== 'string' ||
+    !Array.isArray(value.segments) ||
+    !value.segments.every(isSegment)
+  ) {
+    throw new TranscriptError('corrupted');
+  }
+  return value as Transcript;
+};
+
+export const serializeTranscript = (transcript: Transcript): string =>
+  `${JSON.stringify(transcript, null, 2)}\n`;
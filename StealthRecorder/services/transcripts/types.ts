@@ -0,0 +1,65 @@
+// 発話のまとまり。時刻は録音開始からの秒数
+export type TranscriptSegment = {
+  start: number;
+  end: number;
+  text: string;
+  // 0〜1。エンジンが返さない場合は 0
+  confidence: number;
+};
+
+// 録音の隣に <録音ファイル名>.transcript.json として保存する
+export type Transcript = {
+  fileName: string;
+  engine: string;
+  locale: string;
+  createdAt: string;
+  segments: TranscriptSegment[];
+};
+
+export type TranscriptFormat = 'txt' | 'srt' | 'vtt';
+
+/**
+ * 文字起こしエンジン。端末内で完結するものだけを使う。
+ */
+export type Transcriber = {
+  // 保存するファイルに残すエンジン名
+  readonly engine: string;
+  readonly isAvailable: boolean;
+  transcribe: (
+    fileName: string,
+    locale: string,
+  ) => Promise<TranscriptSegment[]>;
+};
+
+// iOS の SFTranscriptionSegment（単語ごと）
+export type SpeechWord = {
+  text: string;
+  start: number;
+  duration: number;
+  confidence: number;
+};
+
+export type SpeechBackend = {
+  transcribeFile: (name: string, locale: string) => Promise<SpeechWord[]>;
+};
+
+export type TranscriptBackend = {
+  readTextFile: (name: string) => Promise<string | null>;
+  writeTextFile: (name: string, text: string) => Promise<void>;
+  deleteFile: (name: string) => Promise<void>;
+  writeExportFile: (
+    name: string,
+    contents: string,
+    encoding: 'utf8' | 'base64',
+  ) => Promise<string>;
+  shareFiles: (names: string[], extraPaths: string[]) => Promise<boolean>;
+};
+
+export type TranscriptErrorCode =
+  | 'unavailable'
+  | 'permission_denied'
+  | 'unsupported_locale'
+  | 'not_found'
+  | 'corrupted'
+  | 'transcription_failed'
+  | 'io_failed';
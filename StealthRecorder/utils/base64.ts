@@ -0,0 +1,43 @@
+/* eslint-disable no-bitwise */
+
+// ネイティブとのバイナリ受け渡し用（ブリッジは文字列しか通せない）
+
+const ALPHABET =
+  'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+const LOOKUP = new Map(Array.from(ALPHABET, (char, i) => [char, i]));
+
+export const encodeBase64 = (bytes: Uint8Array): string => {
+  let result = '';
+  for (let i = 0; i < bytes.length; i += 3) {
+    const a = bytes[i];
+    const b = i + 1 < bytes.length ? bytes[i + 1] : 0;
+    const c = i + 2 < bytes.length ? bytes[i + 2] : 0;
+    const triple = (a << 16) | (b << 8) | c;
+    result += ALPHABET[(triple >> 18) & 63] + ALPHABET[(triple >> 12) & 63];
+    result += i + 1 < bytes.length ? ALPHABET[(triple >> 6) & 63] : '=';
+    result += i + 2 < bytes.length ? ALPHABET[triple & 63] : '=';
+  }
+  return result;
+};
+
+export const decodeBase64 = (text: string): Uint8Array => {
+  const clean = text.replace(/[\s=]/g, '');
+  const bytes = new Uint8Array(Math.floor((clean.length * 3) / 4));
+  let buffer = 0;
+  let bits = 0;
+  let offset = 0;
+  for (const char of clean) {
+    const value = LOOKUP.get(char);
+    if (value === undefined) {
+      throw new Error(`invalid base64 character: ${char}`);
+    }
+    buffer = (buffer << 6) | value;
+    bits += 6;
+    if (bits >= 8) {
+      bits -= 8;
+      bytes[offset++] = (buffer >> bits) & 0xff;
+    }
+  }
+  return bytes;
+};
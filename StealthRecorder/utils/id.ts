@@ -0,0 +1,3 @@
+// 端末内でのみ使う識別子（時刻 + 乱数）
+export const createId = (): string =>
+  `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;